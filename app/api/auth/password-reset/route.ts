@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchAction, fetchMutation } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import { getClientIP } from "@/lib/ipDetection";
+import { lookupGeoLocation } from "@/lib/geoip";
+
+// GeoIP lookups read the database file from disk
+export const runtime = "nodejs";
+
+interface PasswordResetRequestBody {
+  mode: "email" | "admin";
+  email: string;
+  message?: string;
+}
+
+/**
+ * Pull the thrown message out of a Convex function error
+ * ("[CONVEX M(...)] [Request ID: ...] Server Error\nUncaught Error: <message>\n    at ...")
+ */
+function getConvexErrorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "Failed to submit password reset request";
+  const match = error.message.match(/Uncaught Error: (.+)/);
+  return match ? match[1] : error.message;
+}
+
+/**
+ * Forgot-password requests go through here so the client IP address and
+ * location are read from the request instead of being reported by the browser.
+ */
+export async function POST(request: NextRequest) {
+  let body: PasswordResetRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  if (!email) {
+    return NextResponse.json({ error: "Please enter your email address" }, { status: 400 });
+  }
+  if (body.mode !== "email" && body.mode !== "admin") {
+    return NextResponse.json({ error: "Unknown reset mode" }, { status: 400 });
+  }
+
+  const serverSecret = process.env.TRUSTED_SERVER_SECRET ?? "";
+  const ipAddress = getClientIP(request.headers);
+  const userAgent = request.headers.get("user-agent") ?? undefined;
+
+  try {
+    if (body.mode === "email") {
+      const result = await fetchAction(api.passwordReset.requestPasswordResetEmail, {
+        serverSecret,
+        email,
+        ipAddress,
+        userAgent,
+      });
+      return NextResponse.json(result);
+    }
+
+    const location = lookupGeoLocation(ipAddress);
+    const result = await fetchMutation(api.passwordReset.submitPasswordResetRequest, {
+      serverSecret,
+      email,
+      message: body.message?.trim() || undefined,
+      ipAddress,
+      userAgent,
+      geoLocation: location ? JSON.stringify(location) : undefined,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    // Convex errors carry the user-facing message (rate limits, blocks, ...)
+    console.error("Password reset request error:", error);
+    return NextResponse.json({ error: getConvexErrorMessage(error) }, { status: 400 });
+  }
+}
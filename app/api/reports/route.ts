@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readFile } from "fs/promises";
+import path from "path";
+import { fetchQuery } from "convex/nextjs";
+import { convexAuthNextjsToken } from "@convex-dev/auth/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  ReportFormat,
+  ReportRow,
+  ReportSignatories,
+  ReportType,
+  REPORT_DEFINITIONS,
+  buildReportDocument,
+  getReportFilename,
+} from "@/lib/reports/reportDefinitions";
+import { renderReportWorkbook } from "@/lib/reports/xlsxReport";
+import { renderReportPdf } from "@/lib/reports/pdfReport";
+
+// pdf-lib / exceljs need the Node runtime (Buffer, streams)
+export const runtime = "nodejs";
+
+interface ReportRequest {
+  report: ReportType;
+  format: ReportFormat;
+  year?: number;
+  budgetItemId?: string;
+  projectId?: string;
+  hiddenColumns?: string[];
+  signatories?: ReportSignatories;
+}
+
+async function loadLetterheadLogo(): Promise<Uint8Array | undefined> {
+  try {
+    return await readFile(path.join(process.cwd(), "public", "logo.png"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetch the rows for a report with the caller's Convex auth token, so the
+ * same access rules as the on-screen tables apply.
+ */
+async function loadReportRows(
+  body: ReportRequest,
+  token: string
+): Promise<{ rows: ReportRow[]; subtitle?: string }> {
+  const yearLabel = body.year ? `Fiscal Year ${body.year}` : undefined;
+
+  switch (body.report) {
+    case "budget": {
+      const items = await fetchQuery(api.budgetItems.list, { year: body.year }, { token });
+      return {
+        subtitle: yearLabel,
+        rows: items.map((item) => ({
+          particular: item.particulars,
+          year: item.year,
+          status: item.status,
+          totalBudgetAllocated: item.totalBudgetAllocated,
+          obligatedBudget: item.obligatedBudget,
+          totalBudgetUtilized: item.totalBudgetUtilized,
+          utilizationRate: item.utilizationRate,
+          projectCompleted: item.projectCompleted,
+          projectDelayed: item.projectDelayed,
+          projectsOnTrack: item.projectsOnTrack,
+        })),
+      };
+    }
+
+    case "projects": {
+      const budgetItemId = body.budgetItemId as Id<"budgetItems"> | undefined;
+      const [projects, budgetItem] = await Promise.all([
+        fetchQuery(api.projects.list, { budgetItemId, year: body.year }, { token }),
+        budgetItemId ? fetchQuery(api.budgetItems.get, { id: budgetItemId }, { token }) : null,
+      ]);
+      return {
+        subtitle: [budgetItem?.particulars, yearLabel].filter(Boolean).join(" — ") || undefined,
+        rows: projects.map((project) => ({
+          particulars: project.particulars,
+          implementingOffice: project.implementingOffice,
+          year: project.year,
+          status: project.status,
+          totalBudgetAllocated: project.totalBudgetAllocated,
+          obligatedBudget: project.obligatedBudget,
+          totalBudgetUtilized: project.totalBudgetUtilized,
+          utilizationRate: project.utilizationRate,
+          projectCompleted: project.projectCompleted,
+          projectDelayed: project.projectDelayed,
+          projectsOngoing: project.projectsOnTrack,
+          remarks: project.remarks,
+        })),
+      };
+    }
+
+    case "breakdowns": {
+      if (!body.projectId) throw new Error("projectId is required for breakdown reports");
+      const projectId = body.projectId as Id<"projects">;
+      const [breakdowns, project] = await Promise.all([
+        fetchQuery(api.govtProjects.getProjectBreakdowns, { projectId }, { token }),
+        fetchQuery(api.projects.get, { id: projectId }, { token }),
+      ]);
+      return {
+        subtitle: [project.particulars, project.implementingOffice, yearLabel].filter(Boolean).join(" — "),
+        rows: breakdowns.map((breakdown) => ({
+          projectTitle: breakdown.projectTitle || breakdown.projectName,
+          implementingOffice: breakdown.implementingOffice,
+          allocatedBudget: breakdown.allocatedBudget,
+          obligatedBudget: breakdown.obligatedBudget,
+          budgetUtilized: breakdown.budgetUtilized,
+          utilizationRate: breakdown.utilizationRate,
+          balance: breakdown.balance,
+          dateStarted: breakdown.dateStarted,
+          targetDate: breakdown.targetDate,
+          completionDate: breakdown.completionDate,
+          projectAccomplishment: breakdown.projectAccomplishment,
+          status: breakdown.status,
+          remarks: breakdown.remarks,
+          municipality: breakdown.municipality,
+        })),
+      };
+    }
+
+    case "trustFunds": {
+      let trustFunds = await fetchQuery(api.trustFunds.list, {}, { token });
+      if (body.year !== undefined) {
+        trustFunds = trustFunds.filter((fund) => (fund.year ?? fund.fiscalYear) === body.year);
+      }
+      return {
+        subtitle: yearLabel,
+        rows: trustFunds.map((fund) => ({
+          projectTitle: fund.projectTitle,
+          officeInCharge: fund.officeInCharge,
+          dateReceived: fund.dateReceived,
+          received: fund.received,
+          obligatedPR: fund.obligatedPR,
+          utilized: fund.utilized,
+          balance: fund.balance,
+          remarks: fund.remarks,
+        })),
+      };
+    }
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await convexAuthNextjsToken();
+    if (!token) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as ReportRequest;
+
+    if (!body.report || !(body.report in REPORT_DEFINITIONS)) {
+      return NextResponse.json({ error: "Unknown report type" }, { status: 400 });
+    }
+    if (body.format !== "xlsx" && body.format !== "pdf") {
+      return NextResponse.json({ error: "Format must be xlsx or pdf" }, { status: 400 });
+    }
+
+    const [{ rows, subtitle }, user] = await Promise.all([
+      loadReportRows(body, token),
+      fetchQuery(api.users.current, {}, { token }),
+    ]);
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "No data to export" }, { status: 400 });
+    }
+
+    const report = buildReportDocument(body.report, rows, {
+      subtitle,
+      hiddenColumns: body.hiddenColumns,
+      signatories: body.signatories,
+      generatedBy: user?.name,
+    });
+
+    const filename = getReportFilename(body.report, body.format);
+    const file =
+      body.format === "xlsx"
+        ? await renderReportWorkbook(report)
+        : await renderReportPdf(report, await loadLetterheadLogo());
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type":
+          body.format === "xlsx"
+            ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            : "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Report generation error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate report" },
+      { status: 500 }
+    );
+  }
+}
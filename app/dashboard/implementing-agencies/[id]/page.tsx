@@ -1,5 +1,10 @@
+"use client"
+
+import { use } from "react"
 import Link from "next/link"
-import { notFound } from "next/navigation"
+import { useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
@@ -13,14 +18,18 @@ import {
   Mail,
   Phone,
   MapPin,
-  Globe,
   User,
-  Pause,
-  ClipboardList,
+  AlertTriangle,
+  Landmark,
+  Wallet,
 } from "lucide-react"
 import { ThemeToggle } from "../../../../components/ThemeToggle"
-import { formatCurrency, getAgencyById, getAgencyStats } from "../mock-data"
+import { formatCurrency, formatDate } from "../utils"
+import { AgencyProjectItem } from "../types"
 import { ProjectCard } from "../components/ProjectCard"
+import { getAgencyTypeColor } from "../components/AgencyCard"
+import { AgencyYearFilter } from "../components/AgencyYearFilter"
+import { useAgencyYear } from "../useAgencyYear"
 
 interface PageProps {
   params: Promise<{
@@ -28,35 +37,65 @@ interface PageProps {
   }>
 }
 
-export default async function AgencyDetailPage({ params }: PageProps) {
-  const { id } = await params
-  const agency = getAgencyById(id)
+export default function AgencyDetailPage({ params }: PageProps) {
+  const { id } = use(params)
+  const { year, setYear } = useAgencyYear()
+  const dashboard = useQuery(api.implementingAgencies.getDashboard, {
+    id: id as Id<"implementingAgencies">,
+    year,
+  })
 
-  if (!agency) {
-    notFound()
+  if (dashboard === undefined) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#15803D]"></div>
+      </div>
+    )
   }
 
-  const stats = getAgencyStats(agency)
-
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case "national":
-        return "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20"
-      case "provincial":
-        return "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20"
-      case "local":
-        return "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
-      case "municipal":
-        return "bg-purple-500/10 text-purple-700 dark:text-purple-400 border-purple-500/20"
-      default:
-        return "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20"
-    }
+  if (dashboard === null) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Implementing agency not found.</p>
+        <Link href="/dashboard/implementing-agencies">
+          <Button variant="outline">Back to agencies</Button>
+        </Link>
+      </div>
+    )
   }
 
-  const ongoingProjects = agency.projects.filter((p) => p.status === "ongoing")
-  const completedProjects = agency.projects.filter((p) => p.status === "completed")
-  const plannedProjects = agency.projects.filter((p) => p.status === "planned")
-  const onHoldProjects = agency.projects.filter((p) => p.status === "on-hold")
+  const { agency, totals, delayed, trustFunds } = dashboard
+
+  const portfolio: AgencyProjectItem[] = [
+    ...dashboard.projects.map((project) => ({
+      id: project._id,
+      kind: "project" as const,
+      name: project.particulars,
+      status: project.status,
+      budget: project.totalBudgetAllocated,
+      utilized: project.totalBudgetUtilized,
+      year: project.year,
+      endDate: project.targetDateCompletion,
+      remarks: project.remarks,
+    })),
+    ...dashboard.breakdowns.map((breakdown) => ({
+      id: breakdown._id,
+      kind: "breakdown" as const,
+      name: breakdown.projectTitle,
+      status: breakdown.status,
+      budget: breakdown.allocatedBudget || 0,
+      utilized: breakdown.budgetUtilized || 0,
+      startDate: breakdown.dateStarted,
+      endDate: breakdown.targetDate,
+      location: [breakdown.barangay, breakdown.municipality].filter(Boolean).join(", ") || undefined,
+      remarks: breakdown.remarks,
+    })),
+  ]
+
+  const ongoingProjects = portfolio.filter((p) => p.status === "ongoing")
+  const delayedProjects = portfolio.filter((p) => p.status === "delayed")
+  const completedProjects = portfolio.filter((p) => p.status === "completed")
+  const avgProjectBudget = totals.projects.count > 0 ? totals.projects.allocated / totals.projects.count : 0
 
   return (
     <div className="min-h-screen bg-background">
@@ -94,18 +133,26 @@ export default async function AgencyDetailPage({ params }: PageProps) {
             </div>
             <div className="flex-1 space-y-3">
               <div className="flex flex-wrap items-center gap-3">
-                <Badge variant="outline" className={`${getTypeColor(agency.type)} font-medium`}>
+                <Badge variant="outline" className={`${getAgencyTypeColor(agency.type)} font-medium`}>
                   {agency.type.toUpperCase()}
                 </Badge>
+                {agency.category && (
+                  <Badge variant="outline" className="font-medium">
+                    {agency.category}
+                  </Badge>
+                )}
               </div>
               <div>
-                <h2 className="text-3xl md:text-5xl font-cinzel font-bold tracking-tight mb-2">{agency.acronym}</h2>
-                <p className="text-lg md:text-xl text-muted-foreground">{agency.name}</p>
+                <h2 className="text-3xl md:text-5xl font-cinzel font-bold tracking-tight mb-2">{agency.code}</h2>
+                <p className="text-lg md:text-xl text-muted-foreground">{agency.fullName}</p>
               </div>
-              <p className="text-base md:text-lg text-muted-foreground max-w-4xl leading-relaxed">
-                {agency.description}
-              </p>
+              {agency.description && (
+                <p className="text-base md:text-lg text-muted-foreground max-w-4xl leading-relaxed">
+                  {agency.description}
+                </p>
+              )}
             </div>
+            <AgencyYearFilter year={year} onYearChange={setYear} />
           </div>
         </div>
 
@@ -115,7 +162,7 @@ export default async function AgencyDetailPage({ params }: PageProps) {
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-cinzel font-semibold">Agency Overview</h3>
               <Badge variant="outline" style={{ borderColor: "#15803D", color: "#15803D" }}>
-                Active
+                {year ? `FY ${year}` : "All Fiscal Years"}
               </Badge>
             </div>
 
@@ -123,27 +170,27 @@ export default async function AgencyDetailPage({ params }: PageProps) {
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
               <div className="text-center p-4 bg-muted/50 rounded-lg">
                 <p className="text-sm text-muted-foreground mb-1">Total Projects</p>
-                <p className="text-3xl font-bold font-cinzel">{agency.totalProjects}</p>
-                <p className="text-xs text-muted-foreground mt-1">All projects</p>
+                <p className="text-3xl font-bold font-cinzel">{totals.projects.count}</p>
+                <p className="text-xs text-muted-foreground mt-1">{totals.breakdowns.count} breakdowns</p>
               </div>
 
               <div className="text-center p-4 bg-muted/50 rounded-lg">
                 <p className="text-sm text-muted-foreground mb-1">Active Projects</p>
-                <p className="text-3xl font-bold font-cinzel text-[#15803D]">{agency.activeProjects}</p>
+                <p className="text-3xl font-bold font-cinzel text-[#15803D]">{totals.projects.ongoing}</p>
                 <p className="text-xs text-muted-foreground mt-1">Currently ongoing</p>
               </div>
 
               <div className="text-center p-4 bg-muted/50 rounded-lg">
                 <p className="text-sm text-muted-foreground mb-1">Completed</p>
                 <p className="text-3xl font-bold font-cinzel text-blue-600 dark:text-blue-400">
-                  {agency.completedProjects}
+                  {totals.projects.completed}
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">Successfully finished</p>
               </div>
 
               <div className="text-center p-4 bg-muted/50 rounded-lg">
                 <p className="text-sm text-muted-foreground mb-1">Utilization Rate</p>
-                <p className="text-3xl font-bold font-cinzel">{stats.utilizationRate}%</p>
+                <p className="text-3xl font-bold font-cinzel">{totals.utilizationRate.toFixed(1)}%</p>
                 <p className="text-xs text-muted-foreground mt-1">Budget efficiency</p>
               </div>
             </div>
@@ -156,7 +203,7 @@ export default async function AgencyDetailPage({ params }: PageProps) {
                     <TrendingUp className="h-4 w-4" />
                     <span>Total Allocated Budget</span>
                   </div>
-                  <p className="text-2xl font-bold font-cinzel">{formatCurrency(agency.totalBudget)}</p>
+                  <p className="text-2xl font-bold font-cinzel">{formatCurrency(totals.totalBudget)}</p>
                 </CardContent>
               </Card>
 
@@ -167,7 +214,7 @@ export default async function AgencyDetailPage({ params }: PageProps) {
                     <span>Total Utilized Budget</span>
                   </div>
                   <p className="text-2xl font-bold font-cinzel text-[#15803D]">
-                    {formatCurrency(agency.utilizedBudget)}
+                    {formatCurrency(totals.totalUtilized)}
                   </p>
                 </CardContent>
               </Card>
@@ -178,7 +225,7 @@ export default async function AgencyDetailPage({ params }: PageProps) {
                     <FileText className="h-4 w-4" />
                     <span>Average per Project</span>
                   </div>
-                  <p className="text-2xl font-bold font-cinzel">{formatCurrency(stats.avgProjectBudget)}</p>
+                  <p className="text-2xl font-bold font-cinzel">{formatCurrency(avgProjectBudget)}</p>
                 </CardContent>
               </Card>
             </div>
@@ -194,22 +241,22 @@ export default async function AgencyDetailPage({ params }: PageProps) {
                 <div className="flex items-start gap-3">
                   <User className="h-5 w-5 text-[#15803D] mt-0.5" />
                   <div>
-                    <p className="text-sm text-muted-foreground">Head Officer</p>
-                    <p className="font-semibold">{agency.headOfficer}</p>
+                    <p className="text-sm text-muted-foreground">Contact Person</p>
+                    <p className="font-semibold">{agency.contactPerson || "—"}</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
                   <Mail className="h-5 w-5 text-[#15803D] mt-0.5" />
                   <div>
                     <p className="text-sm text-muted-foreground">Email Address</p>
-                    <p className="font-semibold">{agency.contactEmail}</p>
+                    <p className="font-semibold">{agency.contactEmail || "—"}</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
                   <Phone className="h-5 w-5 text-[#15803D] mt-0.5" />
                   <div>
                     <p className="text-sm text-muted-foreground">Contact Number</p>
-                    <p className="font-semibold">{agency.contactPhone}</p>
+                    <p className="font-semibold">{agency.contactPhone || "—"}</p>
                   </div>
                 </div>
               </div>
@@ -218,22 +265,15 @@ export default async function AgencyDetailPage({ params }: PageProps) {
                   <MapPin className="h-5 w-5 text-[#15803D] mt-0.5" />
                   <div>
                     <p className="text-sm text-muted-foreground">Office Address</p>
-                    <p className="font-semibold">{agency.address}</p>
+                    <p className="font-semibold">{agency.address || "—"}</p>
                   </div>
                 </div>
-                {agency.website && (
+                {agency.departmentName && (
                   <div className="flex items-start gap-3">
-                    <Globe className="h-5 w-5 text-[#15803D] mt-0.5" />
+                    <Landmark className="h-5 w-5 text-[#15803D] mt-0.5" />
                     <div>
-                      <p className="text-sm text-muted-foreground">Website</p>
-                      <a
-                        href={agency.website}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="font-semibold text-[#15803D] hover:underline"
-                      >
-                        {agency.website}
-                      </a>
+                      <p className="text-sm text-muted-foreground">Department</p>
+                      <p className="font-semibold">{agency.departmentName}</p>
                     </div>
                   </div>
                 )}
@@ -242,13 +282,54 @@ export default async function AgencyDetailPage({ params }: PageProps) {
           </CardContent>
         </Card>
 
+        {/* Delayed Items */}
+        {delayed.length > 0 && (
+          <Card className="border-2 border-red-500/20">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-3 mb-4">
+                <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+                <h3 className="text-xl font-cinzel font-semibold">Delayed Projects</h3>
+                <Badge variant="outline" className="border-red-500/20 text-red-600 dark:text-red-400">
+                  {delayed.length}
+                </Badge>
+              </div>
+              <div className="divide-y">
+                {delayed.map((item) => (
+                  <div key={item.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold truncate">{item.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.kind === "project" ? "Project" : "Breakdown"}
+                        {item.year ? ` · FY ${item.year}` : ""}
+                        {item.targetDate ? ` · Target ${formatDate(item.targetDate)}` : ""}
+                      </p>
+                    </div>
+                    <div className="text-sm text-right shrink-0">
+                      <p className="font-semibold">{formatCurrency(item.allocated)}</p>
+                      <p className="text-xs text-muted-foreground">{formatCurrency(item.utilized)} utilized</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Projects Section */}
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h3 className="text-2xl md:text-3xl font-cinzel font-bold">Projects Portfolio</h3>
-            <p className="text-sm text-muted-foreground">{agency.projects.length} total projects</p>
+            <p className="text-sm text-muted-foreground">
+              {totals.projects.count} projects · {totals.breakdowns.count} breakdowns
+            </p>
           </div>
 
+          {portfolio.length === 0 && (
+            <p className="text-center py-12 text-muted-foreground">
+              No projects or breakdowns for this agency{year ? ` in FY ${year}` : ""}.
+            </p>
+          )}
+
           {/* Ongoing Projects */}
           {ongoingProjects.length > 0 && (
             <div className="space-y-4">
@@ -267,60 +348,84 @@ export default async function AgencyDetailPage({ params }: PageProps) {
             </div>
           )}
 
-          {/* Completed Projects */}
-          {completedProjects.length > 0 && (
+          {/* Delayed Projects */}
+          {delayedProjects.length > 0 && (
             <div className="space-y-4">
               <div className="flex items-center gap-3">
-                <CheckCircle2 className="h-5 w-5 text-blue-600 dark:text-blue-400" />
-                <h4 className="text-xl font-cinzel font-semibold">Completed Projects</h4>
-                <Badge variant="outline" className="border-blue-500/20 text-blue-600 dark:text-blue-400">
-                  {completedProjects.length}
+                <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+                <h4 className="text-xl font-cinzel font-semibold">Delayed Projects</h4>
+                <Badge variant="outline" className="border-red-500/20 text-red-600 dark:text-red-400">
+                  {delayedProjects.length}
                 </Badge>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {completedProjects.map((project) => (
+                {delayedProjects.map((project) => (
                   <ProjectCard key={project.id} project={project} />
                 ))}
               </div>
             </div>
           )}
 
-          {/* Planned Projects */}
-          {plannedProjects.length > 0 && (
+          {/* Completed Projects */}
+          {completedProjects.length > 0 && (
             <div className="space-y-4">
               <div className="flex items-center gap-3">
-                <ClipboardList className="h-5 w-5 text-amber-600 dark:text-amber-400" />
-                <h4 className="text-xl font-cinzel font-semibold">Planned Projects</h4>
-                <Badge variant="outline" className="border-amber-500/20 text-amber-600 dark:text-amber-400">
-                  {plannedProjects.length}
+                <CheckCircle2 className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                <h4 className="text-xl font-cinzel font-semibold">Completed Projects</h4>
+                <Badge variant="outline" className="border-blue-500/20 text-blue-600 dark:text-blue-400">
+                  {completedProjects.length}
                 </Badge>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {plannedProjects.map((project) => (
+                {completedProjects.map((project) => (
                   <ProjectCard key={project.id} project={project} />
                 ))}
               </div>
             </div>
           )}
+        </div>
 
-          {/* On-Hold Projects */}
-          {onHoldProjects.length > 0 && (
-            <div className="space-y-4">
-              <div className="flex items-center gap-3">
-                <Pause className="h-5 w-5 text-gray-600 dark:text-gray-400" />
-                <h4 className="text-xl font-cinzel font-semibold">On-Hold Projects</h4>
-                <Badge variant="outline" className="border-gray-500/20 text-gray-600 dark:text-gray-400">
-                  {onHoldProjects.length}
-                </Badge>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {onHoldProjects.map((project) => (
-                  <ProjectCard key={project.id} project={project} />
-                ))}
-              </div>
+        {/* Trust Funds */}
+        {trustFunds.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Wallet className="h-5 w-5 text-[#15803D]" />
+              <h3 className="text-2xl md:text-3xl font-cinzel font-bold">Trust Funds</h3>
+              <Badge variant="outline" style={{ borderColor: "#15803D", color: "#15803D" }}>
+                {trustFunds.length}
+              </Badge>
             </div>
-          )}
-        </div>
+            <Card className="border-2">
+              <CardContent className="p-0 divide-y">
+                {trustFunds.map((trustFund) => (
+                  <div
+                    key={trustFund._id}
+                    className="grid grid-cols-2 md:grid-cols-4 gap-2 p-4 text-sm items-center"
+                  >
+                    <div className="col-span-2 md:col-span-1 min-w-0">
+                      <p className="font-semibold truncate">{trustFund.projectTitle}</p>
+                      {trustFund.dateReceived && (
+                        <p className="text-xs text-muted-foreground">Received {formatDate(trustFund.dateReceived)}</p>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Received</p>
+                      <p className="font-semibold">{formatCurrency(trustFund.received)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Utilized</p>
+                      <p className="font-semibold text-[#15803D]">{formatCurrency(trustFund.utilized)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Balance</p>
+                      <p className="font-semibold">{formatCurrency(trustFund.balance)}</p>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </main>
 
       {/* Footer */}
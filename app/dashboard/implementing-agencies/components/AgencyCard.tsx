@@ -3,35 +3,34 @@
 import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Building2, FileText, CheckCircle2, Clock, Mail, Phone } from "lucide-react"
-import { formatCurrency, getAgencyStats, ImplementingAgency } from "../mock-data"
+import { Building2, FileText, CheckCircle2, Clock, Mail, Phone, AlertTriangle } from "lucide-react"
+import { formatCurrency } from "../utils"
+import { AgencySummary } from "../types"
 import { useAccentColor } from "@/contexts/AccentColorContext"
 
 interface AgencyCardProps {
-  agency: ImplementingAgency
+  agency: AgencySummary
+  year?: number
 }
 
-export function AgencyCard({ agency }: AgencyCardProps) {
-  const stats = getAgencyStats(agency)
-  const { accentColorValue } = useAccentColor()
-
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case "national":
-        return "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20"
-      case "provincial":
-        return "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20"
-      case "local":
-        return "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
-      case "municipal":
-        return "bg-purple-500/10 text-purple-700 dark:text-purple-400 border-purple-500/20"
-      default:
-        return "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20"
-    }
+export function getAgencyTypeColor(type: string) {
+  switch (type) {
+    case "department":
+      return "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20"
+    case "external":
+      return "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
+    default:
+      return "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20"
   }
+}
+
+export function AgencyCard({ agency, year }: AgencyCardProps) {
+  const { accentColorValue } = useAccentColor()
+  const { totals } = agency
+  const utilizationRate = Math.min(100, totals.utilizationRate).toFixed(1)
 
   return (
-    <Link href={`/dashboard/implementing-agencies/${agency.id}`}>
+    <Link href={`/dashboard/implementing-agencies/${agency._id}${year ? `?year=${year}` : ""}`}>
       <Card className="h-full hover:shadow-xl transition-all duration-300 cursor-pointer group border-2 hover:border-[#15803D]/30">
         <CardHeader className="space-y-3 pb-4">
           <div className="flex items-start justify-between gap-2">
@@ -43,26 +42,35 @@ export function AgencyCard({ agency }: AgencyCardProps) {
                 <Building2 className="h-6 w-6" style={{ color: accentColorValue }} />
               </div>
               <div className="flex-1 min-w-0">
-                <Badge variant="outline" className={`${getTypeColor(agency.type)} font-medium mb-2`}>
+                <Badge variant="outline" className={`${getAgencyTypeColor(agency.type)} font-medium mb-2`}>
                   {agency.type.toUpperCase()}
                 </Badge>
               </div>
             </div>
+            {totals.projects.delayed + totals.breakdowns.delayed > 0 && (
+              <Badge variant="outline" className="bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20 gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {totals.projects.delayed + totals.breakdowns.delayed} delayed
+              </Badge>
+            )}
           </div>
 
           <div>
             <CardTitle className="text-xl font-cinzel leading-tight mb-2 group-hover:text-[#15803D] transition-colors">
-              {agency.acronym}
+              {agency.code}
             </CardTitle>
             <CardDescription className="text-xs font-medium text-muted-foreground line-clamp-1">
-              {agency.name}
+              {agency.fullName}
             </CardDescription>
           </div>
         </CardHeader>
 
         <CardContent className="space-y-4">
           {/* Description */}
-          <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">{agency.description}</p>
+          <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
+            {agency.description ||
+              `${totals.breakdowns.count} project breakdowns · ${totals.trustFunds.count} trust funds`}
+          </p>
 
           {/* Key Metrics */}
           <div className="grid grid-cols-3 gap-2">
@@ -71,15 +79,15 @@ export function AgencyCard({ agency }: AgencyCardProps) {
                 <FileText className="h-3 w-3" />
                 <span>Total</span>
               </div>
-              <p className="text-lg font-bold font-cinzel">{agency.totalProjects}</p>
+              <p className="text-lg font-bold font-cinzel">{totals.projects.count}</p>
             </div>
 
             <div className="bg-muted/50 rounded-lg p-3 space-y-1">
               <div className="flex items-center gap-1 text-xs text-muted-foreground">
                 <Clock className="h-3 w-3" />
-                <span>Active</span>
+                <span>Ongoing</span>
               </div>
-              <p className="text-lg font-bold font-cinzel text-[#15803D]">{agency.activeProjects}</p>
+              <p className="text-lg font-bold font-cinzel text-[#15803D]">{totals.projects.ongoing}</p>
             </div>
 
             <div className="bg-muted/50 rounded-lg p-3 space-y-1">
@@ -88,7 +96,7 @@ export function AgencyCard({ agency }: AgencyCardProps) {
                 <span>Done</span>
               </div>
               <p className="text-lg font-bold font-cinzel text-blue-600 dark:text-blue-400">
-                {agency.completedProjects}
+                {totals.projects.completed}
               </p>
             </div>
           </div>
@@ -97,24 +105,24 @@ export function AgencyCard({ agency }: AgencyCardProps) {
           <div className="space-y-2 pt-2 border-t">
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Total Budget</span>
-              <span className="font-semibold">{formatCurrency(agency.totalBudget)}</span>
+              <span className="font-semibold">{formatCurrency(totals.totalBudget)}</span>
             </div>
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Utilized</span>
-              <span className="font-semibold text-[#15803D]">{formatCurrency(agency.utilizedBudget)}</span>
+              <span className="font-semibold text-[#15803D]">{formatCurrency(totals.totalUtilized)}</span>
             </div>
 
             {/* Utilization Progress Bar */}
             <div className="space-y-1">
               <div className="flex items-center justify-between text-xs">
                 <span className="text-muted-foreground">Utilization Rate</span>
-                <span className="font-semibold">{stats.utilizationRate}%</span>
+                <span className="font-semibold">{utilizationRate}%</span>
               </div>
               <div className="h-2 bg-muted rounded-full overflow-hidden">
                 <div
                   className="h-full rounded-full transition-all duration-500"
                   style={{
-                    width: `${stats.utilizationRate}%`,
+                    width: `${utilizationRate}%`,
                     backgroundColor: accentColorValue,
                   }}
                 />
@@ -123,16 +131,22 @@ export function AgencyCard({ agency }: AgencyCardProps) {
           </div>
 
           {/* Contact Info */}
-          <div className="space-y-2 pt-2 border-t">
-            <div className="flex items-center gap-2 text-xs text-muted-foreground">
-              <Mail className="h-3 w-3" />
-              <span className="truncate">{agency.contactEmail}</span>
+          {(agency.contactEmail || agency.contactPhone) && (
+            <div className="space-y-2 pt-2 border-t">
+              {agency.contactEmail && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Mail className="h-3 w-3" />
+                  <span className="truncate">{agency.contactEmail}</span>
+                </div>
+              )}
+              {agency.contactPhone && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Phone className="h-3 w-3" />
+                  <span>{agency.contactPhone}</span>
+                </div>
+              )}
             </div>
-            <div className="flex items-center gap-2 text-xs text-muted-foreground">
-              <Phone className="h-3 w-3" />
-              <span>{agency.contactPhone}</span>
-            </div>
-          </div>
+          )}
 
           {/* View Details Indicator */}
           <div className="pt-2">
@@ -0,0 +1,34 @@
+"use client"
+
+import { useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+interface AgencyYearFilterProps {
+  year?: number
+  onYearChange: (year?: number) => void
+}
+
+export function AgencyYearFilter({ year, onYearChange }: AgencyYearFilterProps) {
+  const fiscalYears = useQuery(api.fiscalYears.list, {})
+  const years = [...new Set((fiscalYears ?? []).map((fy) => fy.year))].sort((a, b) => b - a)
+
+  return (
+    <Select
+      value={year !== undefined ? String(year) : "all"}
+      onValueChange={(value) => onYearChange(value === "all" ? undefined : Number(value))}
+    >
+      <SelectTrigger className="w-full sm:w-[180px]">
+        <SelectValue placeholder="All Fiscal Years" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Fiscal Years</SelectItem>
+        {years.map((fy) => (
+          <SelectItem key={fy} value={String(fy)}>
+            FY {fy}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
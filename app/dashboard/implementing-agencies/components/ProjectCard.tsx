@@ -2,19 +2,20 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Calendar, MapPin, Users } from "lucide-react"
-import { formatCurrency, formatNumber, Project } from "../mock-data"
+import { Calendar, Layers, MapPin } from "lucide-react"
+import { formatCurrency, formatDate } from "../utils"
+import { AgencyProjectItem } from "../types"
 import { useAccentColor } from "@/contexts/AccentColorContext"
 
 interface ProjectCardProps {
-  project: Project
+  project: AgencyProjectItem
 }
 
 export function ProjectCard({ project }: ProjectCardProps) {
   const { accentColorValue } = useAccentColor()
   const utilizationRate = project.budget > 0 ? ((project.utilized / project.budget) * 100).toFixed(1) : "0.0"
 
-  const getStatusConfig = (status: string) => {
+  const getStatusConfig = (status?: string) => {
     switch (status) {
       case "ongoing":
         return {
@@ -26,19 +27,14 @@ export function ProjectCard({ project }: ProjectCardProps) {
           label: "Completed",
           className: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
         }
-      case "planned":
+      case "delayed":
         return {
-          label: "Planned",
-          className: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
-        }
-      case "on-hold":
-        return {
-          label: "On Hold",
-          className: "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20",
+          label: "Delayed",
+          className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
         }
       default:
         return {
-          label: status,
+          label: "No Status",
           className: "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20",
         }
     }
@@ -53,44 +49,42 @@ export function ProjectCard({ project }: ProjectCardProps) {
           <Badge variant="outline" className={`${statusConfig.className} font-medium`}>
             {statusConfig.label}
           </Badge>
-          {project.beneficiaries && (
-            <div className="flex items-center gap-1 text-xs text-muted-foreground bg-muted/50 px-2 py-1 rounded-md">
-              <Users className="h-3 w-3" />
-              <span>{formatNumber(project.beneficiaries)}</span>
-            </div>
-          )}
+          <div className="flex items-center gap-1 text-xs text-muted-foreground bg-muted/50 px-2 py-1 rounded-md">
+            <Layers className="h-3 w-3" />
+            <span>
+              {project.kind === "project" ? "Project" : "Breakdown"}
+              {project.year ? ` · FY ${project.year}` : ""}
+            </span>
+          </div>
         </div>
 
         <CardTitle className="text-lg font-cinzel leading-tight">{project.name}</CardTitle>
       </CardHeader>
 
       <CardContent className="space-y-4 flex-1 flex flex-col">
-        {/* Description */}
-        <p className="text-sm text-muted-foreground leading-relaxed flex-1">{project.description}</p>
+        {/* Remarks */}
+        <p className="text-sm text-muted-foreground leading-relaxed flex-1">{project.remarks}</p>
 
         {/* Project Details */}
-        <div className="space-y-2 text-sm">
-          <div className="flex items-center gap-2 text-muted-foreground">
-            <MapPin className="h-4 w-4" style={{ color: accentColorValue }} />
-            <span>{project.location}</span>
+        {(project.location || project.startDate || project.endDate) && (
+          <div className="space-y-2 text-sm">
+            {project.location && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <MapPin className="h-4 w-4" style={{ color: accentColorValue }} />
+                <span>{project.location}</span>
+              </div>
+            )}
+            {(project.startDate || project.endDate) && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Calendar className="h-4 w-4" style={{ color: accentColorValue }} />
+                <span>
+                  {project.startDate ? formatDate(project.startDate) : "—"} -{" "}
+                  {project.endDate ? formatDate(project.endDate) : "—"}
+                </span>
+              </div>
+            )}
           </div>
-          <div className="flex items-center gap-2 text-muted-foreground">
-            <Calendar className="h-4 w-4" style={{ color: accentColorValue }} />
-            <span>
-              {new Date(project.startDate).toLocaleDateString("en-PH", {
-                month: "short",
-                day: "numeric",
-                year: "numeric",
-              })}{" "}
-              -{" "}
-              {new Date(project.endDate).toLocaleDateString("en-PH", {
-                month: "short",
-                day: "numeric",
-                year: "numeric",
-              })}
-            </span>
-          </div>
-        </div>
+        )}
 
         {/* Budget Information */}
         <div className="space-y-3 pt-3 border-t">
@@ -108,14 +102,14 @@ export function ProjectCard({ project }: ProjectCardProps) {
           {/* Progress Bar */}
           <div className="space-y-1">
             <div className="flex items-center justify-between text-xs">
-              <span className="text-muted-foreground">Progress</span>
+              <span className="text-muted-foreground">Utilization</span>
               <span className="font-semibold">{utilizationRate}%</span>
             </div>
             <div className="h-2 bg-muted rounded-full overflow-hidden">
               <div
                 className="h-full rounded-full transition-all duration-500"
                 style={{
-                  width: `${utilizationRate}%`,
+                  width: `${Math.min(100, Number(utilizationRate))}%`,
                   backgroundColor: project.status === "completed" ? "#3b82f6" : accentColorValue,
                 }}
               />
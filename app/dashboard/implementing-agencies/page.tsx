@@ -1,14 +1,23 @@
+"use client"
 
+import { useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
 import { Building2, TrendingUp, FileText, Users } from "lucide-react"
-import { formatCurrency, implementingAgencies } from "./mock-data"
+import { formatCurrency } from "./utils"
 import { ThemeToggle } from "../../../components/ThemeToggle"
 import { AgencyCard } from "./components/AgencyCard"
+import { AgencyYearFilter } from "./components/AgencyYearFilter"
+import { useAgencyYear } from "./useAgencyYear"
 
 export default function ImplementingAgenciesPage() {
-  const totalAgencies = implementingAgencies.length
-  const totalProjects = implementingAgencies.reduce((sum, agency) => sum + agency.totalProjects, 0)
-  const totalBudget = implementingAgencies.reduce((sum, agency) => sum + agency.totalBudget, 0)
-  const totalUtilized = implementingAgencies.reduce((sum, agency) => sum + agency.utilizedBudget, 0)
+  const { year, setYear } = useAgencyYear()
+  const agencies = useQuery(api.implementingAgencies.getDashboardSummaries, { year })
+
+  const agencyList = agencies ?? []
+  const totalAgencies = agencyList.length
+  const totalProjects = agencyList.reduce((sum, agency) => sum + agency.totals.projects.count, 0)
+  const totalBudget = agencyList.reduce((sum, agency) => sum + agency.totals.totalBudget, 0)
+  const totalUtilized = agencyList.reduce((sum, agency) => sum + agency.totals.totalUtilized, 0)
   const avgUtilization = totalBudget > 0 ? ((totalUtilized / totalBudget) * 100).toFixed(1) : "0.0"
 
   return (
@@ -33,12 +42,15 @@ export default function ImplementingAgenciesPage() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6 md:py-10 space-y-8">
         {/* Page Title */}
-        <div className="space-y-2">
-          <h2 className="text-3xl md:text-4xl font-cinzel font-bold tracking-tight">Implementing Agencies</h2>
-          <p className="text-muted-foreground text-base md:text-lg max-w-3xl">
-            Comprehensive overview of government agencies responsible for executing development projects across the
-            province.
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div className="space-y-2">
+            <h2 className="text-3xl md:text-4xl font-cinzel font-bold tracking-tight">Implementing Agencies</h2>
+            <p className="text-muted-foreground text-base md:text-lg max-w-3xl">
+              Comprehensive overview of government agencies responsible for executing development projects across the
+              province.
+            </p>
+          </div>
+          <AgencyYearFilter year={year} onYearChange={setYear} />
         </div>
 
         {/* Statistics Overview */}
@@ -103,11 +115,19 @@ export default function ImplementingAgenciesPage() {
             <p className="text-sm text-muted-foreground">{totalAgencies} agencies found</p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-            {implementingAgencies.map((agency) => (
-              <AgencyCard key={agency.id} agency={agency} />
-            ))}
-          </div>
+          {agencies === undefined ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#15803D]"></div>
+            </div>
+          ) : totalAgencies === 0 ? (
+            <div className="text-center py-16 text-muted-foreground">No active implementing agencies found.</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+              {agencyList.map((agency) => (
+                <AgencyCard key={agency._id} agency={agency} year={year} />
+              ))}
+            </div>
+          )}
         </div>
       </main>
 
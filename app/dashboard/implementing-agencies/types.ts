@@ -0,0 +1,26 @@
+import { FunctionReturnType } from "convex/server"
+import { api } from "@/convex/_generated/api"
+
+type DashboardSummaries = FunctionReturnType<typeof api.implementingAgencies.getDashboardSummaries>
+type AgencyDashboard = NonNullable<FunctionReturnType<typeof api.implementingAgencies.getDashboard>>
+
+export type AgencySummary = DashboardSummaries[number]
+export type AgencyTotals = AgencySummary["totals"]
+export type AgencyDelayedItem = AgencyDashboard["delayed"][number]
+
+/**
+ * Project or breakdown as shown on a ProjectCard
+ */
+export interface AgencyProjectItem {
+  id: string
+  kind: "project" | "breakdown"
+  name: string
+  status?: "completed" | "delayed" | "ongoing"
+  budget: number
+  utilized: number
+  year?: number
+  startDate?: number
+  endDate?: number
+  location?: string
+  remarks?: string
+}
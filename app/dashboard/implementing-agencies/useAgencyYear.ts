@@ -0,0 +1,33 @@
+"use client"
+
+import { useCallback } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+/**
+ * Fiscal year filter kept in the ?year= query param so it survives
+ * navigation between the agency list and an agency's detail page
+ */
+export function useAgencyYear() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const yearParam = searchParams.get("year")
+  const year = yearParam && !isNaN(Number(yearParam)) ? Number(yearParam) : undefined
+
+  const setYear = useCallback(
+    (nextYear?: number) => {
+      const params = new URLSearchParams(searchParams.toString())
+      if (nextYear !== undefined) {
+        params.set("year", String(nextYear))
+      } else {
+        params.delete("year")
+      }
+      const query = params.toString()
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    },
+    [router, pathname, searchParams]
+  )
+
+  return { year, setYear }
+}
@@ -2,7 +2,7 @@
 
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { useConvexAuth, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -17,12 +17,21 @@ import { BreadcrumbProvider } from "../../contexts/BreadcrumbContext";
 import { OnboardingModal } from "@/components/modals/OnboardingModal";
 import { Sidebar } from "../../components/sidebar/Sidebar";
 import { BetaBanner } from "@/components/ui/beta-banner";
+import { TwoFactorSetup } from "@/components/account/TwoFactorSetup";
+import { TwoFactorGate } from "@/components/account/TwoFactorGate";
 
 function DashboardContent({ children }: { children: React.ReactNode }) {
   const router = useRouter();
   const pathname = usePathname();
   const { isAuthenticated, isLoading } = useConvexAuth();
   const currentUser = useQuery(api.auth.getCurrentUser);
+  const twoFactorStatus = useQuery(api.twoFactor.getStatus);
+
+  // Keep the enrollment gate up until the recovery codes are acknowledged
+  const [showEnrollmentGate, setShowEnrollmentGate] = useState(false);
+  if (twoFactorStatus?.required && !twoFactorStatus.enabled && !showEnrollmentGate) {
+    setShowEnrollmentGate(true);
+  }
 
   // Get environment variable
   const env = process.env.NEXT_PUBLIC_APP_ENV;
@@ -39,29 +48,51 @@ function DashboardContent({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    // If user is authenticated, check their role
+    // If user is authenticated, check where their roles land them
     if (currentUser) {
-      // Inspector users should be redirected to /inspector
-      if (currentUser.role === "inspector") {
+      // Users whose roles all land on the inspector app are redirected there
+      if (currentUser.homeRoute === "/inspector") {
         router.replace("/inspector");
         return;
       }
       
-      // User role can access dashboard (this includes super_admin, admin, and user)
+      // Everyone else can access the dashboard
       // Continue to render dashboard
     }
   }, [isAuthenticated, isLoading, currentUser, router]);
 
   // Optional: prevent UI flash while loading / redirecting
-  if (isLoading || !isAuthenticated || !currentUser) {
+  if (isLoading || !isAuthenticated || !currentUser || !twoFactorStatus) {
     return null;
   }
 
   // If inspector somehow reaches here, don't render
-  if (currentUser.role === "inspector") {
+  if (currentUser.homeRoute === "/inspector") {
     return null;
   }
 
+  // Administrators must enroll in 2FA before using the dashboard
+  if (showEnrollmentGate) {
+    return (
+      <div className="min-h-dvh bg-[#f8f8f8] dark:bg-zinc-950 flex items-center justify-center p-4">
+        <div className="w-full max-w-xl bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6 space-y-4">
+          <div>
+            <h1
+              className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100"
+              style={{ fontFamily: "var(--font-cinzel), serif" }}
+            >
+              Set Up Two-Factor Authentication
+            </h1>
+            <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+              Administrator accounts must use an authenticator app before continuing to the dashboard.
+            </p>
+          </div>
+          <TwoFactorSetup onComplete={() => setShowEnrollmentGate(false)} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-dvh bg-[#f8f8f8] dark:bg-zinc-950 flex">
       {/* Sidebar */}
@@ -115,7 +146,9 @@ export default function DashboardLayout({
       <SidebarProvider>
         <AccentColorProvider>
           <BreadcrumbProvider>
-            <DashboardContent>{children}</DashboardContent>
+            <TwoFactorGate>
+              <DashboardContent>{children}</DashboardContent>
+            </TwoFactorGate>
           </BreadcrumbProvider>
         </AccentColorProvider>
       </SidebarProvider>
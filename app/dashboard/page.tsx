@@ -15,102 +15,52 @@ import { BarChartCard } from "../../components/BarChartCard";
 import { OfficeSelect } from "../../components/OfficeSelect";
 import { useMemo, useState } from "react";
 import { PersonalKPICard } from "../../components/PersonalKPICard";
+import { AgencyYearFilter } from "./implementing-agencies/components/AgencyYearFilter";
+
+// Largest offices by budget shown in the bar charts when no office is selected
+const CHART_OFFICE_LIMIT = 10;
 
 export default function Dashboard() {
-  const OFFICES = [
-    // 1-24 based on your image, abbreviated
-    "OPA", // Office of the Provincial Administrator
-    "HRMO", // Provincial Human Resource Management Office
-    "PCEDO", // Provincial Cooperative & Enterprise Dev't Office
-    "PPDO", // Provincial Planning & Development Office
-    "PTourO", // Provincial Tourism Office
-    "PENRO", // Provincial Environment & Natural Resources Office
-    "GSO", // Provincial General Services Office
-    "PEPO", // Provincial Equipment Pool Office
-    "PEO", // Provincial Engineering Office
-    "PIO", // Provincial Information Office
-    "PAgO", // Provincial Agriculture Office
-    "PTreasO", // Provincial Treasury Office
-    "PVO", // Provincial Veterinary Office
-    "PACCO", // Provincial Accounting Office
-    "PAssO", // Provincial Assessor's Office
-    "PLO", // Provincial Legal Office
-    "PSWDO", // Provincial Social Welfare & Development Office
-    "TPH", // Tarlac Provincial Hospital
-    "PHO", // Provincial Health Office
-    "GOTMH", // Gilberto O. Teodoro Memorial Hospital
-    "CDH", // Concepcion District Hospital
-    "LPMCH", // La Paz Medicare & Community Hospital
-    "EHMCMH", // Enrique "Henry" M. Cojuangco Memorial Hospital
-    "PESO", // Provincial Public Employment Service Office
-    "PDRRMO", // Provincial Disaster Risk Reduction and Management Office
-    "PBO", // Provincial Budget Office
-    "OSSP", // Office of the Secretary to the Sangguniang Panlalawigan
-    "OPVG", // Office of the Provincial Vice Governor
-  ];
+  const [year, setYear] = useState<number | undefined>(undefined);
   const [selectedOffice, setSelectedOffice] = useState<string | null>(null);
+  const summary = useQuery(api.executiveDashboard.getSummary, { year });
+
+  const offices = useMemo(
+    () => (summary?.offices ?? []).map((office) => office.office),
+    [summary]
+  );
 
-  // Deterministic per-office metrics so UI updates on selection
-  const officePercent = useMemo(() => {
-    return (office: string, min = 40, max = 90) => {
-      if (!office) return 0;
-      const code = office.split("").reduce((s, c) => s + c.charCodeAt(0), 0);
-      const span = max - min;
-      return Math.round(min + (code % (span + 1)));
-    };
-  }, []);
+  // Selected office, or the whole portfolio when none is selected
+  const current = useMemo(() => {
+    if (!summary) return null;
+    if (!selectedOffice) return summary.overall;
+    return summary.offices.find((office) => office.office === selectedOffice) ?? null;
+  }, [summary, selectedOffice]);
 
-  const completionValue = useMemo(() => {
-    return selectedOffice ? officePercent(selectedOffice, 50, 95) : 60;
-  }, [selectedOffice, officePercent]);
+  const chartOffices = useMemo(() => {
+    if (!summary) return [];
+    if (selectedOffice) return current ? [current] : [];
+    return summary.offices.slice(0, CHART_OFFICE_LIMIT);
+  }, [summary, selectedOffice, current]);
 
-  const utilizationValue = useMemo(() => {
-    return selectedOffice ? officePercent(selectedOffice, 45, 85) : 52;
-  }, [selectedOffice, officePercent]);
+  const physicalData = chartOffices.map((office) => ({
+    label: office.office,
+    value: Math.round(office.completionRate),
+  }));
 
-  const physicalData = useMemo(() => {
-    if (!selectedOffice) {
-      return [
-        { label: "MO", value: 45 },
-        { label: "SB", value: 68 },
-        { label: "MHRMO", value: 72 },
-        { label: "MPDO", value: 58 },
-        { label: "MCR", value: 80 },
-        { label: "MBO", value: 61 },
-        { label: "MAO", value: 77 },
-        { label: "MTO", value: 64 },
-        { label: "PESO", value: 70 },
-      ];
-    }
-    return [
-      { label: selectedOffice, value: officePercent(selectedOffice, 40, 90) },
-    ];
-  }, [selectedOffice, officePercent]);
+  const financialData = chartOffices.map((office) => ({
+    label: office.office,
+    value: Math.round(office.utilizationRate),
+  }));
 
-  const financialData = useMemo(() => {
-    if (!selectedOffice) {
-      return [
-        { label: "MO", value: 40 },
-        { label: "SB", value: 55 },
-        { label: "MHRMO", value: 62 },
-        { label: "MPDO", value: 47 },
-        { label: "MCR", value: 74 },
-        { label: "MBO", value: 51 },
-        { label: "MAO", value: 69 },
-        { label: "MTO", value: 60 },
-        { label: "PESO", value: 66 },
-      ];
-    }
-    return [
-      { label: selectedOffice, value: officePercent(selectedOffice, 35, 85) },
-    ];
-  }, [selectedOffice, officePercent]);
+  const delayedCount = current ? current.delayedProjects + current.delayedBreakdowns : 0;
   const router = useRouter();
 
   return (
     <>
       {/* Page Header */}
-      <div className="mb-4">
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
         <h1
           className="text-3xl sm:text-4xl font-semibold text-zinc-900 dark:text-zinc-100 mb-1"
           style={{ fontFamily: "var(--font-cinzel), serif" }}
@@ -120,6 +70,8 @@ export default function Dashboard() {
         <p className="text-zinc-600 dark:text-zinc-400">
           Overview of planning and development activities
         </p>
+        </div>
+        <AgencyYearFilter year={year} onYearChange={setYear} />
       </div>
       
       
@@ -247,7 +199,7 @@ export default function Dashboard() {
 
           {/* Office Selection - searchable combobox */}
           <OfficeSelect
-            offices={OFFICES}
+            offices={offices}
             value={selectedOffice}
             onChange={setSelectedOffice}
           />
@@ -273,13 +225,13 @@ export default function Dashboard() {
         <div className="lg:col-span-6 space-y-6">
           <BarChartCard
             title="Physical Accomplishment"
-            subtitle={selectedOffice ? `for ${selectedOffice}` : "by Office"}
+            subtitle={selectedOffice ? `for ${selectedOffice}` : "Completion rate by office"}
             className="min-h-[315px]"
             data={physicalData}
           />
           <BarChartCard
             title="Financial Accomplishment"
-            subtitle={selectedOffice ? `for ${selectedOffice}` : "by Office"}
+            subtitle={selectedOffice ? `for ${selectedOffice}` : "Utilization rate by office"}
             className="min-h-[315px]"
             data={financialData}
                   />
@@ -289,14 +241,18 @@ export default function Dashboard() {
         <div className="lg:col-span-3 space-y-6">
           <SpeedometerCard
             title="Overall Completion Rate"
-            value={completionValue}
-            subtitle="As of YTD"
+            value={Math.round(current?.completionRate ?? 0)}
+            subtitle={
+              delayedCount > 0
+                ? `${delayedCount} delayed ${delayedCount === 1 ? "item" : "items"}`
+                : year !== undefined ? `FY ${year}` : "All fiscal years"
+            }
             color="green"
           />
           <SpeedometerCard
             title="Overall Utilization Rate"
-            value={utilizationValue}
-            subtitle="Budget utilization"
+            value={Math.round(current?.utilizationRate ?? 0)}
+            subtitle={`${Math.round(current?.obligationRate ?? 0)}% obligated`}
             color="blue"
             />
           </div>
@@ -320,10 +276,9 @@ export default function Dashboard() {
                   Physical Accomplishment
                 </p>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                  <MiniGauge title="20% LDF" value={56} />
-                  <MiniGauge title="5% MDRRMF" value={61} />
-                  <MiniGauge title="5% GAD" value={49} />
-                  <MiniGauge title="Trust Fund" value={73} />
+                  {(summary?.mandatoryFunds ?? []).map((fund) => (
+                    <MiniGauge key={fund.label} title={fund.label} value={Math.round(fund.completionRate)} />
+                  ))}
                 </div>
               </div>
               {/* Financial grid */}
@@ -332,10 +287,9 @@ export default function Dashboard() {
                   Financial Accomplishment
                 </p>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                  <MiniGauge title="20% LDF" value={35} />
-                  <MiniGauge title="5% MDRRMF" value={46} />
-                  <MiniGauge title="5% GAD" value={42} />
-                  <MiniGauge title="Trust Fund" value={58} />
+                  {(summary?.mandatoryFunds ?? []).map((fund) => (
+                    <MiniGauge key={fund.label} title={fund.label} value={Math.round(fund.utilizationRate)} />
+                  ))}
                 </div>
               </div>
             </div>
@@ -0,0 +1,77 @@
+// app/dashboard/project-map/components/LocationTable.tsx
+
+"use client";
+
+import { ChevronRight } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LocationRow } from "../types";
+import { formatCurrency } from "../utils";
+
+interface LocationTableProps {
+  title: string;
+  rows: LocationRow[];
+  emptyMessage: string;
+  onSelect?: (row: LocationRow) => void;
+}
+
+export function LocationTable({ title, rows, emptyMessage, onSelect }: LocationTableProps) {
+  return (
+    <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900">
+      <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-800">
+        <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">{title}</h3>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="px-4 py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">{emptyMessage}</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Location</TableHead>
+              <TableHead className="text-right">Projects</TableHead>
+              <TableHead className="text-right">Allocated</TableHead>
+              <TableHead className="text-right">Utilized</TableHead>
+              <TableHead className="text-right">Ongoing</TableHead>
+              <TableHead className="text-right">Completed</TableHead>
+              <TableHead className="text-right">Delayed</TableHead>
+              {onSelect && <TableHead className="w-8" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow
+                key={row.key}
+                className={onSelect ? "cursor-pointer" : undefined}
+                onClick={onSelect ? () => onSelect(row) : undefined}
+              >
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell className="text-right">{row.count}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.allocated)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.utilized)}</TableCell>
+                <TableCell className="text-right">{row.ongoing}</TableCell>
+                <TableCell className="text-right">{row.completed}</TableCell>
+                <TableCell className="text-right">
+                  <span className={row.delayed > 0 ? "text-red-600 dark:text-red-400 font-medium" : undefined}>
+                    {row.delayed}
+                  </span>
+                </TableCell>
+                {onSelect && (
+                  <TableCell>
+                    <ChevronRight className="w-4 h-4 text-zinc-400" />
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// app/dashboard/project-map/components/MapFilters.tsx
+
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ALL = "all";
+
+interface MapFiltersProps {
+  year?: number;
+  fundSource?: string;
+  implementingOffice?: string;
+  fundSources: string[];
+  offices: string[];
+  onYearChange: (year?: number) => void;
+  onFundSourceChange: (fundSource?: string) => void;
+  onOfficeChange: (office?: string) => void;
+}
+
+export function MapFilters({
+  year,
+  fundSource,
+  implementingOffice,
+  fundSources,
+  offices,
+  onYearChange,
+  onFundSourceChange,
+  onOfficeChange,
+}: MapFiltersProps) {
+  const fiscalYears = useQuery(api.fiscalYears.list, {});
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3">
+      <Select
+        value={year !== undefined ? String(year) : ALL}
+        onValueChange={(value) => onYearChange(value === ALL ? undefined : Number(value))}
+      >
+        <SelectTrigger className="w-full sm:w-[160px]">
+          <SelectValue placeholder="All Years" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All Years</SelectItem>
+          {fiscalYears?.map((fy) => (
+            <SelectItem key={fy._id} value={String(fy.year)}>
+              FY {fy.year}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={fundSource ?? ALL}
+        onValueChange={(value) => onFundSourceChange(value === ALL ? undefined : value)}
+      >
+        <SelectTrigger className="w-full sm:w-[200px]">
+          <SelectValue placeholder="All Fund Sources" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All Fund Sources</SelectItem>
+          {fundSources.map((source) => (
+            <SelectItem key={source} value={source}>
+              {source}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={implementingOffice ?? ALL}
+        onValueChange={(value) => onOfficeChange(value === ALL ? undefined : value)}
+      >
+        <SelectTrigger className="w-full sm:w-[200px]">
+          <SelectValue placeholder="All Offices" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All Offices</SelectItem>
+          {offices.map((office) => (
+            <SelectItem key={office} value={office}>
+              {office}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
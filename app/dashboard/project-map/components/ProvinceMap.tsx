@@ -0,0 +1,127 @@
+// app/dashboard/project-map/components/ProvinceMap.tsx
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAccentColor } from "@/contexts/AccentColorContext";
+import boundaries from "../data/tarlac-municipalities.json";
+import { LocationRow, MunicipalityCollection, MunicipalityFeature } from "../types";
+import { formatCurrency } from "../utils";
+
+const collection = boundaries as MunicipalityCollection;
+
+const WIDTH = 600;
+const HEIGHT = 640;
+const PADDING = 16;
+
+interface ProvinceMapProps {
+  rows: LocationRow[];
+  /** District number to zoom into ("1", "2", ...) */
+  districtNumber?: string;
+  /** Key of the selected municipality */
+  municipalityKey?: string;
+  onSelectMunicipality: (feature: MunicipalityFeature) => void;
+}
+
+// Equirectangular projection; longitude is shortened by cos(latitude)
+// so the province keeps its shape at this latitude
+const LON_SCALE = Math.cos((15.5 * Math.PI) / 180);
+
+function getBounds(features: MunicipalityFeature[]) {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const feature of features) {
+    for (const [lon, lat] of feature.geometry.coordinates[0]) {
+      minX = Math.min(minX, lon * LON_SCALE);
+      maxX = Math.max(maxX, lon * LON_SCALE);
+      minY = Math.min(minY, lat);
+      maxY = Math.max(maxY, lat);
+    }
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function isInScope(feature: MunicipalityFeature, districtNumber?: string, municipalityKey?: string) {
+  return municipalityKey
+    ? feature.properties.key === municipalityKey
+    : !districtNumber || feature.properties.district === districtNumber;
+}
+
+export function ProvinceMap({
+  rows,
+  districtNumber,
+  municipalityKey,
+  onSelectMunicipality,
+}: ProvinceMapProps) {
+  const { accentColorValue } = useAccentColor();
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+
+  const rowsByKey = useMemo(() => new Map(rows.map((row) => [row.key, row])), [rows]);
+  const maxAllocated = useMemo(() => Math.max(0, ...rows.map((row) => row.allocated)), [rows]);
+
+  // Zoom to whatever is in scope, falling back to the whole province
+  const project = useMemo(() => {
+    const focus = collection.features.filter((feature) =>
+      isInScope(feature, districtNumber, municipalityKey)
+    );
+    const { minX, minY, maxX, maxY } = getBounds(focus.length > 0 ? focus : collection.features);
+    const scale = Math.min((WIDTH - PADDING * 2) / (maxX - minX), (HEIGHT - PADDING * 2) / (maxY - minY));
+    const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+    const offsetY = (HEIGHT - (maxY - minY) * scale) / 2;
+
+    return ([lon, lat]: number[]) =>
+      `${(offsetX + (lon * LON_SCALE - minX) * scale).toFixed(1)},${(offsetY + (maxY - lat) * scale).toFixed(1)}`;
+  }, [districtNumber, municipalityKey]);
+
+  const hovered = hoveredKey ? collection.features.find((f) => f.properties.key === hoveredKey) : undefined;
+  const hoveredRow = hoveredKey ? rowsByKey.get(hoveredKey) : undefined;
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Province map">
+        {collection.features.map((feature) => {
+          const row = rowsByKey.get(feature.properties.key);
+          const intensity = row && maxAllocated > 0 ? 0.15 + (row.allocated / maxAllocated) * 0.75 : 0;
+          const inScope = isInScope(feature, districtNumber, municipalityKey);
+
+          return (
+            <polygon
+              key={feature.properties.key}
+              points={feature.geometry.coordinates[0].map(project).join(" ")}
+              fill={row ? accentColorValue : "transparent"}
+              fillOpacity={inScope ? intensity : intensity * 0.25}
+              stroke="currentColor"
+              strokeOpacity={inScope ? 0.6 : 0.15}
+              strokeWidth={hoveredKey === feature.properties.key ? 2.5 : 1}
+              className="cursor-pointer text-zinc-700 dark:text-zinc-300 transition-[fill-opacity] duration-300"
+              onMouseEnter={() => setHoveredKey(feature.properties.key)}
+              onMouseLeave={() => setHoveredKey(null)}
+              onClick={() => onSelectMunicipality(feature)}
+            />
+          );
+        })}
+      </svg>
+
+      {hovered && (
+        <div className="absolute top-2 left-2 rounded-lg border bg-white/95 dark:bg-zinc-900/95 px-3 py-2 text-xs shadow-sm pointer-events-none">
+          <p className="font-semibold text-zinc-900 dark:text-zinc-100">{hovered.properties.name}</p>
+          <p className="text-zinc-500 dark:text-zinc-400">District {hovered.properties.district}</p>
+          {hoveredRow ? (
+            <>
+              <p className="mt-1">{hoveredRow.count} breakdowns</p>
+              <p>{formatCurrency(hoveredRow.allocated)} allocated</p>
+            </>
+          ) : (
+            <p className="mt-1 text-zinc-500 dark:text-zinc-400">No projects</p>
+          )}
+        </div>
+      )}
+
+      <p className="mt-2 text-[11px] text-zinc-500 dark:text-zinc-400">
+        Shading follows allocated budget. Boundaries are simplified for display.
+      </p>
+    </div>
+  );
+}
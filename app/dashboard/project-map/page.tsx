@@ -0,0 +1,188 @@
+// app/dashboard/project-map/page.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { ChevronRight, MapPin } from "lucide-react";
+import { ProvinceMap } from "./components/ProvinceMap";
+import { LocationTable } from "./components/LocationTable";
+import { MapFilters } from "./components/MapFilters";
+import { MapLevel } from "./types";
+import { formatCurrency, getDistrictNumber } from "./utils";
+
+interface SelectedMunicipality {
+  name: string;
+  key: string;
+}
+
+export default function ProjectMapPage() {
+  const [year, setYear] = useState<number | undefined>();
+  const [fundSource, setFundSource] = useState<string | undefined>();
+  const [implementingOffice, setImplementingOffice] = useState<string | undefined>();
+  const [district, setDistrict] = useState<string | undefined>();
+  const [municipality, setMunicipality] = useState<SelectedMunicipality | undefined>();
+
+  const summary = useQuery(api.projectMap.getLocationSummary, {
+    year,
+    fundSource,
+    implementingOffice,
+    district,
+    municipality: municipality?.name,
+  });
+
+  // Map shading always reflects the province/district, not the drilled-in municipality
+  const provinceSummary = useQuery(api.projectMap.getLocationSummary, {
+    year,
+    fundSource,
+    implementingOffice,
+    district,
+  });
+
+  const level: MapLevel = municipality ? "municipality" : district ? "district" : "province";
+  const totals = summary?.totals;
+
+  const goToProvince = () => {
+    setDistrict(undefined);
+    setMunicipality(undefined);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <h1
+            className="text-3xl sm:text-4xl font-semibold text-zinc-900 dark:text-zinc-100"
+            style={{ fontFamily: "var(--font-cinzel), serif" }}
+          >
+            Project Map
+          </h1>
+          <p className="text-zinc-600 dark:text-zinc-400 mt-1">
+            Breakdown projects by district, municipality and barangay
+          </p>
+        </div>
+        <MapFilters
+          year={year}
+          fundSource={fundSource}
+          implementingOffice={implementingOffice}
+          fundSources={summary?.fundSources ?? []}
+          offices={summary?.offices ?? []}
+          onYearChange={setYear}
+          onFundSourceChange={setFundSource}
+          onOfficeChange={setImplementingOffice}
+        />
+      </div>
+
+      {/* Drill-down path */}
+      <nav className="flex items-center gap-1 text-sm" aria-label="Location">
+        <button
+          onClick={goToProvince}
+          className={level === "province" ? "font-semibold" : "text-zinc-500 hover:underline"}
+        >
+          Province
+        </button>
+        {district && (
+          <>
+            <ChevronRight className="w-4 h-4 text-zinc-400" />
+            <button
+              onClick={() => setMunicipality(undefined)}
+              className={level === "district" ? "font-semibold" : "text-zinc-500 hover:underline"}
+            >
+              {district}
+            </button>
+          </>
+        )}
+        {municipality && (
+          <>
+            <ChevronRight className="w-4 h-4 text-zinc-400" />
+            <span className="font-semibold">{municipality.name}</span>
+          </>
+        )}
+      </nav>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: "Projects", value: totals ? totals.count.toLocaleString() : "—" },
+          { label: "Allocated Budget", value: totals ? formatCurrency(totals.allocated) : "—" },
+          { label: "Budget Utilized", value: totals ? formatCurrency(totals.utilized) : "—" },
+          {
+            label: "Ongoing / Completed / Delayed",
+            value: totals ? `${totals.ongoing} / ${totals.completed} / ${totals.delayed}` : "—",
+          },
+        ].map((stat) => (
+          <div
+            key={stat.label}
+            className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-4"
+          >
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">{stat.label}</p>
+            <p className="mt-1 text-xl font-semibold text-zinc-900 dark:text-zinc-100">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+        <div className="xl:col-span-2 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-4">
+          <ProvinceMap
+            rows={provinceSummary?.municipalities ?? []}
+            districtNumber={district ? getDistrictNumber(district) : undefined}
+            municipalityKey={municipality?.key}
+            onSelectMunicipality={(feature) => {
+              const row = provinceSummary?.municipalities.find((r) => r.key === feature.properties.key);
+              setMunicipality({ name: row?.name ?? feature.properties.name, key: feature.properties.key });
+            }}
+          />
+          {level === "municipality" && (
+            <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+              Only municipal boundaries are bundled with the map, so barangays are listed in the table.
+            </p>
+          )}
+        </div>
+
+        <div className="xl:col-span-3 space-y-6">
+          {summary === undefined ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-zinc-300 border-t-transparent dark:border-zinc-700 dark:border-t-transparent"></div>
+            </div>
+          ) : (
+            <>
+              {level === "province" && (
+                <LocationTable
+                  title="Districts"
+                  rows={summary.districts}
+                  emptyMessage="No breakdowns have a district yet."
+                  onSelect={(row) => setDistrict(row.name)}
+                />
+              )}
+
+              {level !== "municipality" && (
+                <LocationTable
+                  title={district ? `Municipalities in ${district}` : "Municipalities"}
+                  rows={summary.municipalities}
+                  emptyMessage="No breakdowns have a municipality yet."
+                  onSelect={(row) => setMunicipality({ name: row.name, key: row.key })}
+                />
+              )}
+
+              {level === "municipality" && (
+                <LocationTable
+                  title={`Barangays in ${municipality?.name}`}
+                  rows={summary.barangays}
+                  emptyMessage="No breakdowns in this municipality have a barangay."
+                />
+              )}
+
+              {summary.unlocated > 0 && level !== "municipality" && (
+                <p className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  <MapPin className="w-3.5 h-3.5" />
+                  {summary.unlocated} breakdowns have no municipality and are not shown on the map.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// app/dashboard/project-map/types.ts
+
+import { FunctionReturnType } from "convex/server";
+import { api } from "@/convex/_generated/api";
+
+export type LocationSummaryResult = FunctionReturnType<typeof api.projectMap.getLocationSummary>;
+export type LocationRow = LocationSummaryResult["municipalities"][number];
+
+export interface MunicipalityFeature {
+  type: "Feature";
+  properties: {
+    name: string;
+    key: string;
+    /** Congressional district number, e.g. "1" */
+    district: string;
+  };
+  geometry: {
+    type: "Polygon";
+    coordinates: number[][][];
+  };
+}
+
+export interface MunicipalityCollection {
+  type: "FeatureCollection";
+  features: MunicipalityFeature[];
+}
+
+export type MapLevel = "province" | "district" | "municipality";
@@ -0,0 +1,23 @@
+// app/dashboard/project-map/utils.ts
+
+export function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * District number from free text ("1st District", "District 2", "III")
+ */
+export function getDistrictNumber(district: string): string | undefined {
+  const digits = district.match(/\d+/);
+  if (digits) return String(Number(digits[0]));
+
+  const roman = district.toUpperCase().match(/\b(I{1,3}|IV|V)\b/);
+  if (roman) return String(["I", "II", "III", "IV", "V"].indexOf(roman[1]) + 1);
+
+  return undefined;
+}
@@ -3,8 +3,10 @@
 "use client";
 
 import { useState } from "react";
+import { useQuery } from "convex/react";
 import { TrendingUp, DollarSign } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { api } from "@/convex/_generated/api";
 import { Doc } from "@/convex/_generated/dataModel";
 
 interface FinancialBreakdownCardProps {
@@ -15,6 +17,11 @@ interface FinancialBreakdownCardProps {
 export function FinancialBreakdownCard({ breakdown, project }: FinancialBreakdownCardProps) {
   const [isFavorite, setIsFavorite] = useState(false);
 
+  // Project ledger totals (financial line items) reconciled against the allocation
+  const reconciliation = useQuery(api.financialLineItems.getReconciliation, {
+    projectId: project._id,
+  });
+
   // Use breakdown data
   const description = breakdown.projectTitle || breakdown.projectName;
   const appropriation = breakdown.allocatedBudget || 0;
@@ -93,6 +100,56 @@ export function FinancialBreakdownCard({ breakdown, project }: FinancialBreakdow
           </div>
         </div>
 
+        {/* Project Ledger Section */}
+        {reconciliation && reconciliation.sectionCount > 0 && (
+          <div className="space-y-2 pt-3 border-t border-gray-200 dark:border-gray-800">
+            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+              Project Ledger
+            </p>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Appropriation</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">
+                ₱{reconciliation.appropriation.toLocaleString("en-US", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Obligation</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">
+                ₱{reconciliation.obligation.toLocaleString("en-US", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Balance</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">
+                ₱{reconciliation.balance.toLocaleString("en-US", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+            <p
+              className={`text-xs ${
+                reconciliation.isReconciled
+                  ? "text-emerald-600 dark:text-emerald-400"
+                  : "text-amber-600 dark:text-amber-400"
+              }`}
+            >
+              {reconciliation.isReconciled
+                ? "Reconciled with project allocation"
+                : `₱${Math.abs(reconciliation.variance).toLocaleString("en-US", {
+                    minimumFractionDigits: 2,
+                    maximumFractionDigits: 2,
+                  })} ${reconciliation.variance > 0 ? "not yet itemized" : "over allocation"}`}
+            </p>
+          </div>
+        )}
+
         {/* Stats Section */}
         <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
           <div className="flex items-center gap-1">
@@ -2,51 +2,44 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
-import { FinancialBreakdownItem } from "./types";
+import { useState } from "react";
+import { FinancialBreakdownItem, FinancialBreakdownItemInput } from "./types";
 import { useAccentColor } from "@/contexts/AccentColorContext";
 
 interface FinancialBreakdownItemFormProps {
   item?: FinancialBreakdownItem | null;
-  onSave: (item: Omit<FinancialBreakdownItem, "id" | "children">) => void;
+  parentOptions?: FinancialBreakdownItem[];
+  onSave: (item: FinancialBreakdownItemInput) => void;
   onCancel: () => void;
 }
 
 export function FinancialBreakdownItemForm({
   item,
+  parentOptions = [],
   onSave,
   onCancel,
 }: FinancialBreakdownItemFormProps) {
   const { accentColorValue } = useAccentColor();
   const [formData, setFormData] = useState({
+    parentId: item?.parentId || "",
     code: item?.code || "",
     description: item?.description || "",
     appropriation: item?.appropriation || 0,
     obligation: item?.obligation || 0,
     balance: item?.balance || 0,
-    level: item?.level || 0,
   });
 
-  useEffect(() => {
-    if (item) {
-      setFormData({
-        code: item.code || "",
-        description: item.description,
-        appropriation: item.appropriation,
-        obligation: item.obligation,
-        balance: item.balance,
-        level: item.level,
-      });
-    }
-  }, [item]);
+  // Parent rows are roll-ups of their children, so their amounts are not editable
+  const isRollup = !!item?.children && item.children.length > 0;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Recalculate balance if needed
-    const calculatedBalance = formData.appropriation - formData.obligation;
     onSave({
-      ...formData,
-      balance: calculatedBalance >= 0 ? calculatedBalance : formData.balance,
+      parentId: formData.parentId || undefined,
+      code: formData.code || undefined,
+      description: formData.description,
+      appropriation: formData.appropriation,
+      obligation: formData.obligation,
     });
   };
 
@@ -70,20 +63,24 @@ export function FinancialBreakdownItemForm({
 
         <div>
           <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
-            Level
+            Parent Item
           </label>
           <select
-            value={formData.level}
+            value={formData.parentId}
             onChange={(e) =>
-              setFormData({ ...formData, level: parseInt(e.target.value) })
+              setFormData({ ...formData, parentId: e.target.value })
             }
-            className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-offset-0"
-            required
+            disabled={!!item}
+            className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-offset-0 disabled:opacity-60"
           >
-            <option value={0}>Main Section (0)</option>
-            <option value={1}>Sub-item (1)</option>
-            <option value={2}>Sub-sub-item (2)</option>
-            <option value={3}>Sub-sub-sub-item (3)</option>
+            <option value="">None (Main Section)</option>
+            {parentOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {"\u00A0\u00A0".repeat(option.level)}
+                {option.code ? `${option.code} ` : ""}
+                {option.description}
+              </option>
+            ))}
           </select>
         </div>
       </div>
@@ -119,7 +116,8 @@ export function FinancialBreakdownItemForm({
                 balance: appropriation - formData.obligation,
               });
             }}
-            className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-offset-0"
+            readOnly={isRollup}
+            className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-offset-0 read-only:bg-zinc-50 dark:read-only:bg-zinc-950"
             required
             min="0"
             step="0.01"
@@ -141,7 +139,8 @@ export function FinancialBreakdownItemForm({
                 balance: formData.appropriation - obligation,
               });
             }}
-            className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-offset-0"
+            readOnly={isRollup}
+            className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-offset-0 read-only:bg-zinc-50 dark:read-only:bg-zinc-950"
             required
             min="0"
             step="0.01"
@@ -161,6 +160,12 @@ export function FinancialBreakdownItemForm({
         </div>
       </div>
 
+      {isRollup && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Amounts of this item are the totals of its sub-items and update automatically.
+        </p>
+      )}
+
       <div className="flex items-center justify-end gap-3 pt-4 border-t border-zinc-200 dark:border-zinc-800">
         <button
           type="button"
@@ -5,7 +5,7 @@
 import { useState, useEffect, useRef } from "react";
 import { flattenFinancialBreakdown } from "../data";
 import { FinancialBreakdownItemForm } from "./FinancialBreakdownItemForm";
-import { FinancialBreakdownItem } from "./types";
+import { FinancialBreakdownItem, FinancialBreakdownItemInput } from "./types";
 import { useAccentColor } from "@/contexts/AccentColorContext";
 import { Modal } from "@/app/dashboard/project/[year]/components/Modal";
 import { ConfirmationModal } from "@/app/dashboard/project/[year]/components/ConfirmationModal";
@@ -13,13 +13,8 @@ import { ConfirmationModal } from "@/app/dashboard/project/[year]/components/Con
 
 interface FinancialBreakdownTableProps {
   items: FinancialBreakdownItem[];
-  onAdd?: (
-    item: Omit<FinancialBreakdownItem, "id" | "children">
-  ) => void;
-  onEdit?: (
-    id: string,
-    item: Omit<FinancialBreakdownItem, "id" | "children">
-  ) => void;
+  onAdd?: (item: FinancialBreakdownItemInput) => void;
+  onEdit?: (id: string, item: FinancialBreakdownItemInput) => void;
   onDelete?: (id: string) => void;
 }
 
@@ -140,7 +135,7 @@ export function FinancialBreakdownTable({
     setOpenMenuId(null);
   };
 
-  const handleSave = (formData: Omit<FinancialBreakdownItem, "id" | "children">) => {
+  const handleSave = (formData: FinancialBreakdownItemInput) => {
     if (selectedItem && onEdit) {
       onEdit(selectedItem.id, formData);
     } else if (onAdd) {
@@ -432,7 +427,7 @@ export function FinancialBreakdownTable({
             ) : (
               <tr>
                 <td
-                  colSpan={onEdit || onDelete ? 4 : 4}
+                  colSpan={onEdit || onDelete ? 5 : 4}
                   className="px-4 sm:px-6 py-12 text-center"
                 >
                   <p className="text-sm text-zinc-500 dark:text-zinc-400">
@@ -455,6 +450,7 @@ export function FinancialBreakdownTable({
           size="lg"
         >
           <FinancialBreakdownItemForm
+            parentOptions={flattenedItems}
             onSave={handleSave}
             onCancel={() => setShowAddModal(false)}
           />
@@ -474,6 +470,7 @@ export function FinancialBreakdownTable({
         >
           <FinancialBreakdownItemForm
             item={selectedItem}
+            parentOptions={flattenedItems}
             onSave={handleSave}
             onCancel={() => {
               setShowEditModal(false);
@@ -493,7 +490,7 @@ export function FinancialBreakdownTable({
           }}
           onConfirm={handleConfirmDelete}
           title="Delete Financial Breakdown Item"
-          message={`Are you sure you want to delete "${selectedItem.description}"? This action cannot be undone.`}
+          message={`Are you sure you want to delete "${selectedItem.description}" and all of its sub-items? This action cannot be undone.`}
           confirmText="Delete"
           variant="danger"
         />
@@ -7,8 +7,11 @@ import { useState } from "react"
 import { Id, Doc } from "@/convex/_generated/dataModel"
 import { OverviewContent } from "./tabs/OverviewContent"
 import { AnalyticsContent } from "./tabs/AnalyticsContent"
+import { AccomplishmentContent } from "./tabs/AccomplishmentContent"
 import { InspectionContent } from "./tabs/InspectionContent"
 import { RemarksContent } from "./tabs/RemarksContent"
+import { FinancialLedgerContent } from "./tabs/FinancialLedgerContent"
+import { ObligationsContent } from "./tabs/ObligationsContent"
 import { mockFinancialBreakdown } from "./mockData"
 import { Card } from "./Card"
 
@@ -31,7 +34,10 @@ const ReportContent: React.FC = () => {
 
 const tabs = [
   { id: "overview", label: "Overview" },
+  { id: "ledger", label: "Financial Breakdown" },
+  { id: "obligations", label: "Obligations" },
   { id: "analytics", label: "Analytics" },
+  { id: "accomplishment", label: "Accomplishment" },
   { id: "inspection", label: "Inspections" },
   { id: "remarks", label: "Remarks" },
   { id: "report", label: "Report" },
@@ -48,16 +54,22 @@ export const FinancialBreakdownTabs: React.FC<FinancialBreakdownTabsProps> = ({
     switch (activeTab) {
       case "overview":
         return <OverviewContent projectId={projectId} />
+      case "ledger":
+        return <FinancialLedgerContent projectId={projectId} />
+      case "obligations":
+        return <ObligationsContent projectId={projectId} />
       case "analytics":
-        return <AnalyticsContent />
+        return <AnalyticsContent projectId={projectId} />
+      case "accomplishment":
+        return <AccomplishmentContent breakdown={breakdown} />
       case "inspection":
-        return <InspectionContent data={mockFinancialBreakdown} projectId={projectId} />
+        return <InspectionContent data={mockFinancialBreakdown} projectId={projectId} breakdownId={breakdown._id} />
       case "remarks":
         return <RemarksContent projectId={projectId} /> 
       case "report":
         return <ReportContent />
       default:
-        return <InspectionContent data={mockFinancialBreakdown} projectId={projectId} />
+        return <InspectionContent data={mockFinancialBreakdown} projectId={projectId} breakdownId={breakdown._id} />
     }
   }
 
@@ -0,0 +1,237 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/InspectionPhotoGallery.tsx
+
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import Image from "next/image";
+import { useMutation } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { AlertTriangle, MapPin } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Input } from "@/components/ui/input";
+import { ConfirmationModal } from "@/app/dashboard/project/[year]/components/ConfirmationModal";
+import type { PhotoPhase } from "./types";
+import { PHOTO_PHASES, formatDateDetailed } from "./utils";
+
+export type GalleryPhoto = FunctionReturnType<typeof api.media.listByInspection>[number];
+
+interface PhotoGroup {
+  phase: PhotoPhase | null;
+  label: string;
+  photos: GalleryPhoto[];
+}
+
+interface InspectionPhotoGalleryProps {
+  photos: GalleryPhoto[];
+  onOpen: (photoId: Id<"media">) => void;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Please try again.";
+
+/**
+ * Photos grouped into before, during and after, each in the order taken.
+ * Photos uploaded without a stage come last.
+ */
+export const groupPhotosByPhase = (photos: GalleryPhoto[]): PhotoGroup[] =>
+  [
+    ...PHOTO_PHASES.map((phase) => ({
+      phase: phase.value,
+      label: phase.label,
+      photos: photos.filter((photo) => photo.phase === phase.value),
+    })),
+    { phase: null, label: "No stage", photos: photos.filter((photo) => !photo.phase) },
+  ].filter((group) => group.photos.length > 0);
+
+const formatDateRange = (photos: GalleryPhoto[]): string => {
+  const format = (timestamp: number) =>
+    new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", year: "numeric" }).format(
+      new Date(timestamp)
+    );
+  const first = format(photos[0].takenAt);
+  const last = format(photos[photos.length - 1].takenAt);
+  return first === last ? first : `${first} – ${last}`;
+};
+
+export const InspectionPhotoGallery: React.FC<InspectionPhotoGalleryProps> = ({ photos, onOpen }) => {
+  const updateMediaDetails = useMutation(api.media.updateMediaDetails);
+  const deleteMedia = useMutation(api.media.deleteMedia);
+
+  const [editingId, setEditingId] = useState<Id<"media"> | null>(null);
+  const [captionDraft, setCaptionDraft] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<Id<"media"> | null>(null);
+
+  const farFromSite = photos.filter((photo) => photo.location?.isFarFromSite);
+
+  const startEditing = (photo: GalleryPhoto) => {
+    setEditingId(photo._id);
+    setCaptionDraft(photo.caption ?? "");
+  };
+
+  const handleSaveCaption = async (mediaId: Id<"media">) => {
+    try {
+      await updateMediaDetails({ mediaId, caption: captionDraft });
+      setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to save caption", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handlePhaseChange = async (mediaId: Id<"media">, phase: PhotoPhase) => {
+    try {
+      await updateMediaDetails({ mediaId, phase });
+    } catch (error) {
+      toast.error("Failed to move photo", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMedia({ mediaId: deleteTarget });
+      toast.success("Photo deleted");
+    } catch (error) {
+      toast.error("Failed to delete photo", { description: getErrorMessage(error) });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {deleteTarget && (
+        <ConfirmationModal
+          isOpen={!!deleteTarget}
+          onClose={() => setDeleteTarget(null)}
+          onConfirm={handleConfirmDelete}
+          title="Delete Photo"
+          message="Delete this photo? It is removed from storage and cannot be restored."
+          confirmText="Delete"
+          variant="danger"
+        />
+      )}
+
+      {farFromSite.length > 0 && (
+        <div className="flex items-start gap-3 p-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+          <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 mt-0.5 shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-400">
+            {farFromSite.length} photo{farFromSite.length !== 1 ? "s were" : " was"} taken outside{" "}
+            {farFromSite[0].location?.municipality}. Confirm they show this site.
+          </p>
+        </div>
+      )}
+
+      {/* Timeline */}
+      <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-2 space-y-6">
+        {groupPhotosByPhase(photos).map((group) => (
+          <li key={group.label} className="pl-6">
+            <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-[#15803D]" />
+            <div className="flex items-baseline gap-2 mb-3">
+              <h4 className="font-semibold text-gray-900 dark:text-gray-100">{group.label}</h4>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {group.photos.length} photo{group.photos.length !== 1 ? "s" : ""} • {formatDateRange(group.photos)}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {group.photos.map((photo) => (
+                <div
+                  key={photo._id}
+                  className={`rounded-lg overflow-hidden border bg-white dark:bg-gray-800 ${
+                    photo.location?.isFarFromSite
+                      ? "border-red-300 dark:border-red-700"
+                      : "border-gray-200 dark:border-gray-700"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onOpen(photo._id)}
+                    className="relative block w-full aspect-square bg-gray-200 dark:bg-gray-700 group"
+                  >
+                    {photo.thumbnailUrl && (
+                      <Image
+                        src={photo.thumbnailUrl}
+                        alt={photo.caption || photo.name}
+                        fill
+                        sizes="(min-width: 640px) 33vw, 50vw"
+                        className="object-cover group-hover:opacity-90 transition-opacity"
+                      />
+                    )}
+                    {photo.location?.isFarFromSite && (
+                      <span
+                        title={`${photo.location.distanceKm} km from the center of ${photo.location.municipality}`}
+                        className="absolute top-2 left-2 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-red-600 text-white"
+                      >
+                        Off-site • {photo.location.distanceKm} km
+                      </span>
+                    )}
+                  </button>
+
+                  <div className="p-2 space-y-1.5">
+                    {editingId === photo._id ? (
+                      <Input
+                        value={captionDraft}
+                        onChange={(e) => setCaptionDraft(e.target.value)}
+                        onBlur={() => handleSaveCaption(photo._id)}
+                        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                        placeholder="Add a caption"
+                        className="h-7 text-xs"
+                        autoFocus
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => startEditing(photo)}
+                        className={`block w-full text-left text-xs line-clamp-2 hover:underline ${
+                          photo.caption ? "text-gray-800 dark:text-gray-200" : "text-gray-400 dark:text-gray-500 italic"
+                        }`}
+                      >
+                        {photo.caption || "Add a caption"}
+                      </button>
+                    )}
+
+                    <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                      {photo.capturedAt ? "Taken " : "Uploaded "}
+                      {formatDateDetailed(new Date(photo.takenAt))}
+                    </p>
+                    {photo.latitude !== undefined && photo.longitude !== undefined && (
+                      <p className="flex items-center gap-1 text-[11px] text-gray-500 dark:text-gray-400">
+                        <MapPin className="w-3 h-3 shrink-0" />
+                        {photo.latitude.toFixed(5)}, {photo.longitude.toFixed(5)}
+                      </p>
+                    )}
+
+                    <div className="flex items-center justify-between pt-1">
+                      <select
+                        value={photo.phase ?? ""}
+                        onChange={(e) => handlePhaseChange(photo._id, e.target.value as PhotoPhase)}
+                        className="text-[11px] bg-transparent text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded px-1 py-0.5"
+                      >
+                        {!photo.phase && <option value="">Set stage</option>}
+                        {PHOTO_PHASES.map((phase) => (
+                          <option key={phase.value} value={phase.value}>
+                            {phase.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setDeleteTarget(photo._id)}
+                        className="text-[11px] text-red-600 dark:text-red-400 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/modals/AccomplishmentReportFormModal.tsx
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface AccomplishmentReportFormData {
+  asOfDate: number;
+  plannedPercent?: number;
+  actualPercent: number;
+  narrative?: string;
+}
+
+interface AccomplishmentReportFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: AccomplishmentReportFormData) => Promise<void>;
+  /** Planned accomplishment today from the breakdown's schedule, if it has one */
+  plannedToday: number | null;
+}
+
+const toDateInput = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+export const AccomplishmentReportFormModal: React.FC<AccomplishmentReportFormModalProps> = ({
+  open,
+  onOpenChange,
+  onSubmit,
+  plannedToday,
+}) => {
+  const [asOfDate, setAsOfDate] = useState(toDateInput(Date.now()));
+  const [plannedPercent, setPlannedPercent] = useState("");
+  const [actualPercent, setActualPercent] = useState("");
+  const [narrative, setNarrative] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!asOfDate || actualPercent === "") return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        asOfDate: new Date(asOfDate).getTime(),
+        plannedPercent: plannedPercent === "" ? undefined : parseFloat(plannedPercent),
+        actualPercent: parseFloat(actualPercent),
+        narrative: narrative.trim() || undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error submitting accomplishment report:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Accomplishment Report</DialogTitle>
+          <DialogDescription>
+            The latest report sets the breakdown&apos;s physical accomplishment and slippage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="asOfDate">As of</Label>
+            <Input
+              id="asOfDate"
+              type="date"
+              value={asOfDate}
+              onChange={(e) => setAsOfDate(e.target.value)}
+              max={toDateInput(Date.now())}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="plannedPercent">Planned (%)</Label>
+              <Input
+                id="plannedPercent"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={plannedPercent}
+                onChange={(e) => setPlannedPercent(e.target.value)}
+                placeholder={plannedToday !== null ? "From schedule" : undefined}
+                required={plannedToday === null}
+              />
+              {plannedToday !== null && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Leave blank to use the schedule ({plannedToday.toFixed(2)}% today)
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="actualPercent">Actual (%)</Label>
+              <Input
+                id="actualPercent"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={actualPercent}
+                onChange={(e) => setActualPercent(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="narrative">Narrative</Label>
+            <Textarea
+              id="narrative"
+              value={narrative}
+              onChange={(e) => setNarrative(e.target.value)}
+              placeholder="Work done this period and reasons for any slippage"
+              rows={4}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-[#15803D] hover:bg-[#166534] text-white"
+            >
+              {isSubmitting ? "Saving..." : "Save Report"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
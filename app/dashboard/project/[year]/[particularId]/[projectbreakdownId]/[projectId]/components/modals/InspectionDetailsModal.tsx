@@ -7,7 +7,10 @@ import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Id } from "@/convex/_generated/dataModel";
+import { InspectionPhotoGallery, groupPhotosByPhase } from "../InspectionPhotoGallery";
 import type { InspectionDetailsModalProps } from "../types";
+import { PHOTO_PHASES } from "../utils";
 
 const getStatusColor = (status: string): string => {
   switch (status) {
@@ -29,31 +32,37 @@ export const InspectionDetailsModal: React.FC<InspectionDetailsModalProps> = ({
   onOpenChange, 
   inspection 
 }) => {
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [currentImageIndex, setCurrentImageIndex] = useState<number | null>(null);
 
-  // Fetch full inspection details with images when modal opens
+  // Fetch full inspection details and its photo gallery when modal opens
   const fullInspection = useQuery(
     api.inspections.getInspection,
     inspection?._id ? { inspectionId: inspection._id } : "skip"
   );
+  const photos = useQuery(
+    api.media.listByInspection,
+    inspection?._id ? { inspectionId: inspection._id } : "skip"
+  );
 
   const inspectionData = fullInspection || inspection;
 
   if (!inspectionData) return null;
 
-  const openImage = (url: string, index: number) => {
-    setSelectedImage(url);
-    setCurrentImageIndex(index);
+  // Fullscreen navigation follows the timeline: before, during, after
+  const orderedPhotos = photos ? groupPhotosByPhase(photos).flatMap((group) => group.photos) : [];
+  const selectedPhoto = currentImageIndex !== null ? orderedPhotos[currentImageIndex] : undefined;
+
+  const openImage = (photoId: Id<"media">) => {
+    setCurrentImageIndex(orderedPhotos.findIndex((photo) => photo._id === photoId));
   };
 
   const closeImage = () => {
-    setSelectedImage(null);
+    setCurrentImageIndex(null);
   };
 
   const navigateImage = (direction: "next" | "prev") => {
-    if (!inspectionData.images || inspectionData.images.length < 2) return;
-    const len = inspectionData.images.length;
+    if (currentImageIndex === null || orderedPhotos.length < 2) return;
+    const len = orderedPhotos.length;
     
     let newIndex: number;
     if (direction === "next") {
@@ -63,7 +72,6 @@ export const InspectionDetailsModal: React.FC<InspectionDetailsModalProps> = ({
     }
 
     setCurrentImageIndex(newIndex);
-    setSelectedImage(inspectionData.images[newIndex].url);
   };
 
   const formatDate = (timestamp: number): string => {
@@ -99,94 +107,18 @@ export const InspectionDetailsModal: React.FC<InspectionDetailsModalProps> = ({
               <span className="text-sm text-gray-500 dark:text-gray-400">• {inspectionData.viewCount} views</span>
             </div>
 
-            {/* Images Gallery - Facebook style grid */}
-            {inspectionData.images && inspectionData.images.length > 0 && (
+            {/* Photo Gallery - before/during/after timeline */}
+            {orderedPhotos.length > 0 && photos && (
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
-                  Images ({inspectionData.images.length})
+                  Photos ({orderedPhotos.length})
                 </h3>
-                {inspectionData.images.length === 1 ? (
-                  <div 
-                    className="relative cursor-pointer overflow-hidden rounded-lg group"
-                    onClick={() => openImage(inspectionData.images[0].url, 0)}
-                  >
-                    <img
-                      src={inspectionData.images[0].url}
-                      alt="Inspection"
-                      className="w-full h-auto max-h-96 object-contain group-hover:opacity-90 transition-opacity"
-                    />
-                  </div>
-                ) : inspectionData.images.length === 2 ? (
-                  <div className="grid grid-cols-2 gap-2">
-                    {inspectionData.images.map((image: any, index: number) => (
-                      <div
-                        key={index}
-                        className="relative cursor-pointer overflow-hidden rounded-lg group aspect-square"
-                        onClick={() => openImage(image.url, index)}
-                      >
-                        <img
-                          src={image.url}
-                          alt={`Inspection ${index + 1}`}
-                          className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                ) : inspectionData.images.length === 3 ? (
-                  <div className="grid grid-cols-2 gap-2">
-                    <div
-                      className="relative cursor-pointer overflow-hidden rounded-lg group row-span-2"
-                      onClick={() => openImage(inspectionData.images[0].url, 0)}
-                    >
-                      <img
-                        src={inspectionData.images[0].url}
-                        alt="Inspection 1"
-                        className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
-                      />
-                    </div>
-                    {inspectionData.images.slice(1).map((image: any, index: number) => (
-                      <div
-                        key={index + 1}
-                        className="relative cursor-pointer overflow-hidden rounded-lg group aspect-square"
-                        onClick={() => openImage(image.url, index + 1)}
-                      >
-                        <img
-                          src={image.url}
-                          alt={`Inspection ${index + 2}`}
-                          className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="grid grid-cols-2 gap-2">
-                    {inspectionData.images.slice(0, 4).map((image: any, index: number) => (
-                      <div
-                        key={index}
-                        className="relative cursor-pointer overflow-hidden rounded-lg group aspect-square"
-                        onClick={() => openImage(image.url, index)}
-                      >
-                        <img
-                          src={image.url}
-                          alt={`Inspection ${index + 1}`}
-                          className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
-                        />
-                        {index === 3 && inspectionData.images.length > 4 && (
-                          <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center">
-                            <span className="text-white font-semibold text-3xl">
-                              +{inspectionData.images.length - 4}
-                            </span>
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <InspectionPhotoGallery photos={photos} onOpen={openImage} />
               </div>
             )}
 
             {/* No images placeholder */}
-            {(!inspectionData.images || inspectionData.images.length === 0) && (
+            {photos !== undefined && photos.length === 0 && (
               <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-8 text-center border border-gray-200 dark:border-gray-700">
                 <svg 
                   className="w-12 h-12 text-gray-400 mx-auto mb-2" 
@@ -229,7 +161,7 @@ export const InspectionDetailsModal: React.FC<InspectionDetailsModalProps> = ({
       </Dialog>
 
       {/* Fullscreen Image Modal */}
-      {selectedImage && (
+      {selectedPhoto && (
         <div
           className="fixed inset-0 bg-black bg-opacity-95 z-[100] flex items-center justify-center p-4"
           onClick={closeImage}
@@ -242,7 +174,7 @@ export const InspectionDetailsModal: React.FC<InspectionDetailsModalProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
             </svg>
           </button>
-          {inspectionData.images && inspectionData.images.length > 1 && (
+          {orderedPhotos.length > 1 && (
             <>
               <button
                 onClick={(e) => {
@@ -270,12 +202,14 @@ export const InspectionDetailsModal: React.FC<InspectionDetailsModalProps> = ({
           )}
           <div className="relative max-w-6xl max-h-full" onClick={(e) => e.stopPropagation()}>
             <img
-              src={selectedImage}
-              alt="Fullscreen view"
+              src={selectedPhoto.url ?? undefined}
+              alt={selectedPhoto.caption || "Fullscreen view"}
               className="max-w-full max-h-[90vh] object-contain rounded-lg"
             />
-            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-white bg-black bg-opacity-50 px-4 py-2 rounded-full text-sm">
-              {currentImageIndex + 1} / {inspectionData.images?.length || 0}
+            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-white bg-black bg-opacity-50 px-4 py-2 rounded-full text-sm text-center">
+              {PHOTO_PHASES.find((phase) => phase.value === selectedPhoto.phase)?.label ?? "No stage"} •{" "}
+              {(currentImageIndex ?? 0) + 1} / {orderedPhotos.length}
+              {selectedPhoto.caption && <span className="block text-xs mt-0.5">{selectedPhoto.caption}</span>}
             </div>
           </div>
         </div>
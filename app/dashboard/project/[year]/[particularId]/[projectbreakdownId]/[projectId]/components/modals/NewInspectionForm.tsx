@@ -5,12 +5,15 @@
 import { useState } from "react";
 import { useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { createThumbnail } from "@/lib/photoMetadata";
 import type { InspectionFormData, NewInspectionFormProps } from "../types";
+import { PHOTO_PHASES } from "../utils";
 
 const getDefaultDate = () => new Date().toISOString().split('T')[0];
 
@@ -21,7 +24,8 @@ export const NewInspectionForm: React.FC<NewInspectionFormProps> = ({ open, onOp
     category: "",
     date: getDefaultDate(),
     remarks: "",
-    images: []
+    images: [],
+    photoPhase: "during"
   });
 
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
@@ -63,10 +67,23 @@ export const NewInspectionForm: React.FC<NewInspectionFormProps> = ({ open, onOp
       category: "",
       date: getDefaultDate(),
       remarks: "",
-      images: []
+      images: [],
+      photoPhase: "during"
     });
   };
 
+  // Upload a file to Convex storage and return its storage ID
+  const uploadFile = async (file: Blob): Promise<Id<"_storage">> => {
+    const uploadUrl = await generateUploadUrl();
+    const result = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": file.type },
+      body: file,
+    });
+    const { storageId } = await result.json();
+    return storageId;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsUploading(true);
@@ -81,30 +98,24 @@ export const NewInspectionForm: React.FC<NewInspectionFormProps> = ({ open, onOp
           imageCount: formData.images.length,
         });
 
-        // Upload each image
+        // Upload each image with its thumbnail; the server reads the EXIF capture data
         for (let i = 0; i < formData.images.length; i++) {
           const file = formData.images[i];
-          
-          // Get upload URL
-          const uploadUrl = await generateUploadUrl();
-          
-          // Upload file to Convex storage
-          const result = await fetch(uploadUrl, {
-            method: "POST",
-            headers: { "Content-Type": file.type },
-            body: file,
-          });
+          const thumbnail = await createThumbnail(file);
 
-          const { storageId } = await result.json();
+          const storageId = await uploadFile(file);
+          const thumbnailStorageId = thumbnail ? await uploadFile(thumbnail) : undefined;
 
           // Save media metadata
           await saveMedia({
             storageId,
+            thumbnailStorageId,
             name: file.name,
             type: file.type,
             size: file.size,
             sessionId: uploadSessionId,
             orderInSession: i,
+            phase: formData.photoPhase,
           });
         }
       }
@@ -226,6 +237,25 @@ export const NewInspectionForm: React.FC<NewInspectionFormProps> = ({ open, onOp
               </label>
             </div>
 
+            {imagePreviews.length > 0 && (
+              <div className="flex items-center gap-2 mt-4">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Stage:</span>
+                {PHOTO_PHASES.map((phase) => (
+                  <Button
+                    key={phase.value}
+                    type="button"
+                    size="sm"
+                    variant={formData.photoPhase === phase.value ? "default" : "outline"}
+                    className={formData.photoPhase === phase.value ? "bg-[#15803D] hover:bg-[#166534] text-white" : ""}
+                    onClick={() => setFormData(prev => ({ ...prev, photoPhase: phase.value }))}
+                    disabled={isUploading}
+                  >
+                    {phase.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             {imagePreviews.length > 0 && (
               <div className="grid grid-cols-4 gap-2 mt-4">
                 {imagePreviews.map((preview, index) => (
@@ -0,0 +1,154 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/modals/ObligationFormModal.tsx
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Doc } from "@/convex/_generated/dataModel";
+
+export interface ObligationFormData {
+  obrNumber: string;
+  payee: string;
+  amount: number;
+  obligationDate: number;
+  description?: string;
+}
+
+interface ObligationFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: ObligationFormData) => Promise<void>;
+  obligation?: Doc<"obligations"> | null;
+}
+
+const toDateInput = (timestamp?: number): string =>
+  new Date(timestamp ?? Date.now()).toISOString().slice(0, 10);
+
+export const ObligationFormModal: React.FC<ObligationFormModalProps> = ({
+  open,
+  onOpenChange,
+  onSubmit,
+  obligation,
+}) => {
+  const [obrNumber, setObrNumber] = useState(obligation?.obrNumber || "");
+  const [payee, setPayee] = useState(obligation?.payee || "");
+  const [amount, setAmount] = useState(obligation?.amount?.toString() || "");
+  const [obligationDate, setObligationDate] = useState(toDateInput(obligation?.obligationDate));
+  const [description, setDescription] = useState(obligation?.description || "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!obrNumber.trim() || !payee.trim() || !amount) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        obrNumber: obrNumber.trim(),
+        payee: payee.trim(),
+        amount: parseFloat(amount),
+        obligationDate: new Date(obligationDate).getTime(),
+        description: description.trim() || undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error submitting obligation:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{obligation ? "Edit Obligation" : "New Obligation"}</DialogTitle>
+          <DialogDescription>
+            Obligations are saved as drafts and only count toward the project once posted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="obrNumber">ObR Number</Label>
+              <Input
+                id="obrNumber"
+                value={obrNumber}
+                onChange={(e) => setObrNumber(e.target.value)}
+                placeholder="100-2025-01-0001"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="obligationDate">Date</Label>
+              <Input
+                id="obligationDate"
+                type="date"
+                value={obligationDate}
+                onChange={(e) => setObligationDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payee">Payee</Label>
+            <Input
+              id="payee"
+              value={payee}
+              onChange={(e) => setPayee(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="amount">Amount</Label>
+            <Input
+              id="amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Particulars</Label>
+            <Textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-[#15803D] hover:bg-[#166534] text-white"
+            >
+              {isSubmitting ? "Saving..." : obligation ? "Save Changes" : "Save Draft"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
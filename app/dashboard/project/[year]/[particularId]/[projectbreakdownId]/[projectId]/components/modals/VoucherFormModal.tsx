@@ -0,0 +1,154 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/modals/VoucherFormModal.tsx
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface VoucherFormData {
+  dvNumber: string;
+  amount: number;
+  disbursementDate: number;
+  checkNumber?: string;
+  remarks?: string;
+}
+
+interface VoucherFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: VoucherFormData) => Promise<void>;
+  obrNumber?: string;
+  remainingBalance: number;
+}
+
+export const VoucherFormModal: React.FC<VoucherFormModalProps> = ({
+  open,
+  onOpenChange,
+  onSubmit,
+  obrNumber,
+  remainingBalance,
+}) => {
+  const [dvNumber, setDvNumber] = useState("");
+  const [amount, setAmount] = useState(remainingBalance > 0 ? remainingBalance.toFixed(2) : "");
+  const [disbursementDate, setDisbursementDate] = useState(new Date().toISOString().slice(0, 10));
+  const [checkNumber, setCheckNumber] = useState("");
+  const [remarks, setRemarks] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dvNumber.trim() || !amount) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        dvNumber: dvNumber.trim(),
+        amount: parseFloat(amount),
+        disbursementDate: new Date(disbursementDate).getTime(),
+        checkNumber: checkNumber.trim() || undefined,
+        remarks: remarks.trim() || undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error submitting voucher:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Disbursement Voucher</DialogTitle>
+          <DialogDescription>
+            {obrNumber ? `Against ObR ${obrNumber}. ` : ""}
+            Undisbursed balance: ₱{remainingBalance.toLocaleString("en-US", {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="dvNumber">DV Number</Label>
+              <Input
+                id="dvNumber"
+                value={dvNumber}
+                onChange={(e) => setDvNumber(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disbursementDate">Date</Label>
+              <Input
+                id="disbursementDate"
+                type="date"
+                value={disbursementDate}
+                onChange={(e) => setDisbursementDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="dvAmount">Amount</Label>
+              <Input
+                id="dvAmount"
+                type="number"
+                min="0.01"
+                max={remainingBalance}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkNumber">Check / ADA No. (optional)</Label>
+              <Input
+                id="checkNumber"
+                value={checkNumber}
+                onChange={(e) => setCheckNumber(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dvRemarks">Remarks (optional)</Label>
+            <Input
+              id="dvRemarks"
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-[#15803D] hover:bg-[#166534] text-white"
+            >
+              {isSubmitting ? "Saving..." : "Record Voucher"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
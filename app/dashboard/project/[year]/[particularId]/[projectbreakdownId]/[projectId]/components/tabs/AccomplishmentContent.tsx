@@ -0,0 +1,222 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/tabs/AccomplishmentContent.tsx
+
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { ConfirmationModal } from "@/app/dashboard/project/[year]/components/ConfirmationModal";
+import {
+  AccomplishmentReportFormModal,
+  AccomplishmentReportFormData,
+} from "../modals/AccomplishmentReportFormModal";
+
+interface AccomplishmentContentProps {
+  breakdown: Doc<"govtProjectBreakdowns">;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Intl.DateTimeFormat("en-PH", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(timestamp));
+
+const formatSlippage = (slippage: number): string =>
+  `${slippage > 0 ? "+" : ""}${slippage.toFixed(2)}%`;
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Please try again.";
+
+export const AccomplishmentContent: React.FC<AccomplishmentContentProps> = ({ breakdown }) => {
+  const data = useQuery(api.accomplishmentReports.listByBreakdown, {
+    breakdownId: breakdown._id,
+  });
+  const createReport = useMutation(api.accomplishmentReports.create);
+  const removeReport = useMutation(api.accomplishmentReports.remove);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Id<"accomplishmentReports"> | null>(null);
+
+  const handleSave = async (report: AccomplishmentReportFormData) => {
+    try {
+      await createReport({ breakdownId: breakdown._id, ...report });
+      toast.success("Accomplishment report saved");
+    } catch (error) {
+      toast.error("Failed to save report", { description: getErrorMessage(error) });
+      throw error;
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await removeReport({ id: deleteTarget });
+      toast.success("Report deleted");
+    } catch (error) {
+      toast.error("Failed to delete report", { description: getErrorMessage(error) });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  if (data === undefined) {
+    return (
+      <div className="p-6">
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading accomplishment reports...</p>
+      </div>
+    );
+  }
+
+  const latest = data.reports[0];
+
+  return (
+    <div className="p-6 space-y-6">
+      {isFormOpen && (
+        <AccomplishmentReportFormModal
+          open={isFormOpen}
+          onOpenChange={setIsFormOpen}
+          onSubmit={handleSave}
+          plannedToday={data.plannedToday}
+        />
+      )}
+
+      {deleteTarget && (
+        <ConfirmationModal
+          isOpen={!!deleteTarget}
+          onClose={() => setDeleteTarget(null)}
+          onConfirm={handleConfirmDelete}
+          title="Delete Report"
+          message="Delete this accomplishment report? The breakdown falls back to the report before it."
+          confirmText="Delete"
+          variant="danger"
+        />
+      )}
+
+      {breakdown.slippageFlagged && (
+        <div className="flex items-start gap-3 p-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+          <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 mt-0.5 shrink-0" />
+          <div className="text-sm text-red-700 dark:text-red-400">
+            <p className="font-semibold">Slippage past the {data.rule.threshold}% threshold</p>
+            <p>
+              {breakdown.delayedBySlippage
+                ? "The breakdown was set to delayed automatically. It returns to ongoing once a report is back within the threshold."
+                : "Review the schedule and file a catch-up plan in the narrative of the next report."}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Latest Accomplishment */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Planned</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {latest ? `${latest.plannedPercent.toFixed(2)}%` : "—"}
+          </p>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Actual</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {latest ? `${latest.actualPercent.toFixed(2)}%` : "—"}
+          </p>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Slippage</p>
+          <p
+            className={`text-2xl font-bold ${
+              latest && latest.slippage < 0 ? "text-red-600 dark:text-red-400" : "text-[#15803D]"
+            }`}
+          >
+            {latest ? formatSlippage(latest.slippage) : "—"}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Accomplishment Reports</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {data.rule.action === "set_delayed"
+              ? `Set to delayed at ${data.rule.threshold}% slippage or worse`
+              : `Flagged at ${data.rule.threshold}% slippage or worse`}
+          </p>
+        </div>
+        <Button
+          onClick={() => setIsFormOpen(true)}
+          disabled={breakdown.isDeleted}
+          className="bg-[#15803D] hover:bg-[#166534] text-white"
+        >
+          New Report
+        </Button>
+      </div>
+
+      {data.reports.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No accomplishment reports filed yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                <th className="px-4 py-3">As of</th>
+                <th className="px-4 py-3 text-right">Planned</th>
+                <th className="px-4 py-3 text-right">Actual</th>
+                <th className="px-4 py-3 text-right">Slippage</th>
+                <th className="px-4 py-3">Narrative</th>
+                <th className="px-4 py-3">Filed by</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {data.reports.map((report) => (
+                <tr key={report._id} className="bg-white dark:bg-gray-800 align-top">
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {formatDate(report.asOfDate)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                    {report.plannedPercent.toFixed(2)}%
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                    {report.actualPercent.toFixed(2)}%
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right font-semibold ${
+                      report.slippage <= data.rule.threshold
+                        ? "text-red-600 dark:text-red-400"
+                        : report.slippage < 0
+                          ? "text-orange-600 dark:text-orange-400"
+                          : "text-[#15803D]"
+                    }`}
+                  >
+                    {formatSlippage(report.slippage)}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {report.narrative || "—"}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    {report.createdByName}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => setDeleteTarget(report._id)}
+                      className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,63 +1,238 @@
 // app/dashboard/project/budget/[particularId]/[projectbreakdownId]/[projectId]/components/tabs/AnalyticsContent.tsx
 
+"use client"
+
 import type React from "react"
+import { useQuery } from "convex/react"
+import { FunctionReturnType } from "convex/server"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
 import { type BarChartItemProps } from "../types"
+import { formatDateShort } from "../utils"
+
+type ProjectTrend = FunctionReturnType<typeof api.projectAnalytics.getTrend>
+
+interface AnalyticsContentProps {
+  projectId: Id<"projects">
+}
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 240
+const CHART_PADDING = 8
 
 const BarChartItem: React.FC<BarChartItemProps> = ({ label, value, color, isDashed = false }) => (
   <div className="flex flex-col items-center mx-2 h-full justify-end">
-    <div 
-      className={`w-6 rounded-t-md transition-all duration-500 ease-out ${color} ${isDashed ? "border-2 border-dashed border-gray-400 bg-transparent" : ""}`} 
-      style={{ height: `${value}%` }} 
+    <div
+      className={`w-6 rounded-t-md transition-all duration-500 ease-out ${color} ${isDashed ? "border-2 border-dashed border-gray-400 bg-transparent" : ""}`}
+      style={{ height: `${value}%` }}
     ></div>
     <div className="mt-2 text-xs text-gray-600 dark:text-gray-400 font-semibold">{label}</div>
   </div>
 )
 
-export const AnalyticsContent: React.FC = () => (
-  <div className="p-6">
-    <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-6">Utilization & Trend Analysis</h2>
-    
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-      {/* Budget Utilization Chart */}
-      <div className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg h-96 flex flex-col justify-center items-center bg-white dark:bg-gray-800">
-        <h3 className="text-lg font-semibold mb-4 text-gray-800 dark:text-gray-200">Budget vs. Utilization (YTD)</h3>
-        <div className="w-full h-64 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-end p-4">
-          <BarChartItem label="Approp." value={85} color="bg-blue-500" />
-          <BarChartItem label="Oblig." value={65} color="bg-[#15803D]" />
-          <BarChartItem label="Balance" value={20} color="bg-green-500" />
-          <BarChartItem label="Target" value={75} color="bg-gray-400" isDashed={true} />
+const formatPeso = (amount: number) =>
+  `₱${amount.toLocaleString("en-PH", { maximumFractionDigits: 0 })}`
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value))
+
+/**
+ * Cumulative obligation and utilization as step lines over the planned S-curve
+ */
+const SCurveChart: React.FC<{ trend: ProjectTrend }> = ({ trend }) => {
+  const now = trend.points[trend.points.length - 1].timestamp
+  const times = [
+    trend.plannedStart,
+    trend.plannedEnd ?? now,
+    now,
+    ...trend.points.map((point) => point.timestamp),
+  ]
+  const minTime = Math.min(...times)
+  const maxTime = Math.max(...times)
+  const maxAmount = Math.max(
+    trend.allocated,
+    ...trend.points.map((point) => Math.max(point.obligated, point.utilized)),
+    1
+  )
+
+  const x = (timestamp: number) =>
+    CHART_PADDING +
+    (maxTime > minTime ? (timestamp - minTime) / (maxTime - minTime) : 0) *
+      (CHART_WIDTH - CHART_PADDING * 2)
+  const y = (amount: number) =>
+    CHART_HEIGHT - CHART_PADDING - (amount / maxAmount) * (CHART_HEIGHT - CHART_PADDING * 2)
+
+  // Amounts hold until the next logged change, so draw steps
+  const stepPath = (key: "obligated" | "utilized") =>
+    trend.points
+      .map((point, i) => {
+        const previous = trend.points[i - 1]
+        const move = i === 0 ? `M${x(point.timestamp)},${y(0)}` : `L${x(point.timestamp)},${y(previous[key])}`
+        return `${move} L${x(point.timestamp)},${y(point[key])}`
+      })
+      .join(" ")
+
+  const plannedPath = trend.planned
+    .map((point, i) => `${i === 0 ? "M" : "L"}${x(point.timestamp)},${y(point.planned)}`)
+    .join(" ")
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-64 bg-gray-100 dark:bg-gray-700 rounded-lg"
+        preserveAspectRatio="none"
+      >
+        <line
+          x1={x(minTime)}
+          x2={x(maxTime)}
+          y1={y(trend.allocated)}
+          y2={y(trend.allocated)}
+          className="stroke-blue-300 dark:stroke-blue-700"
+          strokeWidth={1}
+        />
+        <line
+          x1={x(now)}
+          x2={x(now)}
+          y1={CHART_PADDING}
+          y2={CHART_HEIGHT - CHART_PADDING}
+          className="stroke-gray-300 dark:stroke-gray-500"
+          strokeWidth={1}
+        />
+        {plannedPath && (
+          <path d={plannedPath} fill="none" className="stroke-gray-400" strokeWidth={2} strokeDasharray="6 4" />
+        )}
+        <path d={stepPath("obligated")} fill="none" className="stroke-blue-500" strokeWidth={2} />
+        <path d={stepPath("utilized")} fill="none" stroke="#15803D" strokeWidth={2} />
+      </svg>
+      <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>{formatDateShort(new Date(minTime))}</span>
+        <span>{formatDateShort(new Date(maxTime))}</span>
+      </div>
+      <div className="flex flex-wrap justify-center gap-4 mt-4">
+        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+          <span className="w-3 h-3 rounded-full bg-[#15803D] mr-2"></span> Utilized
         </div>
-        <div className="flex justify-center gap-4 mt-4">
-          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
-            <span className="w-3 h-3 rounded-full bg-blue-500 mr-2"></span> Appropriation
-          </div>
-          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
-            <span className="w-3 h-3 rounded-full bg-[#15803D] mr-2"></span> Obligation
-          </div>
+        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+          <span className="w-3 h-3 rounded-full bg-blue-500 mr-2"></span> Obligated
+        </div>
+        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+          <span className="w-3 h-0.5 border-t-2 border-dashed border-gray-400 mr-2"></span> Planned
+        </div>
+        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+          <span className="w-3 h-0.5 bg-blue-300 dark:bg-blue-700 mr-2"></span> Appropriation
         </div>
       </div>
-      
-      {/* Expenditure Breakdown Chart (Placeholder) */}
-      <div className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg h-96 flex flex-col justify-center items-center bg-white dark:bg-gray-800">
-        <h3 className="text-lg font-semibold mb-4 text-gray-800 dark:text-gray-200">Expenditure Breakdown</h3>
-        <div className="w-32 h-32 rounded-full bg-gray-100 dark:bg-gray-700 flex items-center justify-center text-2xl font-bold text-gray-600 dark:text-gray-400">
-          75%
+    </div>
+  )
+}
+
+export const AnalyticsContent: React.FC<AnalyticsContentProps> = ({ projectId }) => {
+  const trend = useQuery(api.projectAnalytics.getTrend, { projectId })
+
+  if (trend === undefined) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 dark:bg-gray-800 rounded w-1/3"></div>
+          <div className="h-80 bg-gray-200 dark:bg-gray-800 rounded"></div>
         </div>
-        <div className="mt-8 grid grid-cols-2 gap-3 text-sm">
-          <div className="flex items-center text-gray-600 dark:text-gray-400">
-            <span className="w-3 h-3 rounded-full bg-red-500 mr-2"></span> Personnel (25%)
-          </div>
-          <div className="flex items-center text-gray-600 dark:text-gray-400">
-            <span className="w-3 h-3 rounded-full bg-orange-500 mr-2"></span> Maintenance (25%)
+      </div>
+    )
+  }
+
+  const percentOf = (amount: number) => (trend.allocated > 0 ? (amount / trend.allocated) * 100 : 0)
+  const isBehind = trend.slippage !== null && trend.slippage < 0
+  const isLate =
+    trend.forecastDate !== null && trend.plannedEnd !== null && trend.forecastDate > trend.plannedEnd
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-6">Utilization & Trend Analysis</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        {/* Budget Utilization Chart */}
+        <div className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg h-96 flex flex-col justify-center items-center bg-white dark:bg-gray-800">
+          <h3 className="text-lg font-semibold mb-4 text-gray-800 dark:text-gray-200">Budget vs. Utilization (YTD)</h3>
+          <div className="w-full h-64 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-end justify-center p-4">
+            <BarChartItem label="Approp." value={trend.allocated > 0 ? 100 : 0} color="bg-blue-500" />
+            <BarChartItem label="Oblig." value={clampPercent(percentOf(trend.obligated))} color="bg-[#15803D]" />
+            <BarChartItem label="Utilized" value={clampPercent(trend.actualPercent)} color="bg-green-500" />
+            <BarChartItem label="Target" value={clampPercent(trend.plannedPercent ?? 0)} color="bg-gray-400" isDashed={true} />
           </div>
-          <div className="flex items-center text-gray-600 dark:text-gray-400">
-            <span className="w-3 h-3 rounded-full bg-teal-500 mr-2"></span> Capital (25%)
+          <div className="flex justify-center gap-4 mt-4">
+            <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+              <span className="w-3 h-3 rounded-full bg-blue-500 mr-2"></span> Appropriation
+            </div>
+            <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+              <span className="w-3 h-3 rounded-full bg-[#15803D] mr-2"></span> Obligation
+            </div>
+            <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+              <span className="w-3 h-3 rounded-full bg-green-500 mr-2"></span> Utilization
+            </div>
           </div>
-          <div className="flex items-center text-gray-600 dark:text-gray-400">
-            <span className="w-3 h-3 rounded-full bg-purple-500 mr-2"></span> Transfers (25%)
+        </div>
+
+        {/* Schedule Performance */}
+        <div className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg h-96 flex flex-col justify-center bg-white dark:bg-gray-800">
+          <h3 className="text-lg font-semibold mb-6 text-gray-800 dark:text-gray-200 text-center">Schedule Performance</h3>
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Actual</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{trend.actualPercent.toFixed(1)}%</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{formatPeso(trend.utilized)} utilized</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Planned</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {trend.plannedPercent !== null ? `${trend.plannedPercent.toFixed(1)}%` : "—"}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {trend.plannedEnd !== null
+                  ? `Target ${formatDateShort(new Date(trend.plannedEnd))}`
+                  : "No target date set"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Slippage</p>
+              <p
+                className={`text-2xl font-bold ${
+                  isBehind ? "text-red-600 dark:text-red-400" : "text-[#15803D]"
+                }`}
+              >
+                {trend.slippage !== null
+                  ? `${trend.slippage > 0 ? "+" : ""}${trend.slippage.toFixed(1)}%`
+                  : "—"}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {trend.slippage === null ? "Needs a target date" : isBehind ? "Behind schedule" : "On or ahead of schedule"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Forecast Completion</p>
+              <p
+                className={`text-2xl font-bold ${
+                  isLate ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-gray-100"
+                }`}
+              >
+                {trend.forecastDate !== null ? formatDateShort(new Date(trend.forecastDate)) : "—"}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {trend.burnRatePerDay > 0
+                  ? `At ${formatPeso(trend.burnRatePerDay)} per day`
+                  : trend.forecastDate !== null
+                    ? "Fully utilized"
+                    : "No spending in the last 90 days"}
+              </p>
+            </div>
           </div>
         </div>
       </div>
+
+      {/* S-Curve */}
+      <div className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800 dark:text-gray-200">S-Curve: Actual vs. Planned</h3>
+        <SCurveChart trend={trend} />
+      </div>
     </div>
-  </div>
-)
\ No newline at end of file
+  )
+}
@@ -0,0 +1,136 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/tabs/FinancialLedgerContent.tsx
+
+"use client";
+
+import type React from "react";
+import { useMemo } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { FinancialBreakdownTable } from "../FinancialBreakdownTable";
+import { buildFinancialBreakdownTree } from "../../data";
+import { FinancialBreakdownItemInput } from "../types";
+
+interface FinancialLedgerContentProps {
+  projectId: Id<"projects">;
+}
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+export const FinancialLedgerContent: React.FC<FinancialLedgerContentProps> = ({ projectId }) => {
+  const lineItems = useQuery(api.financialLineItems.listByProject, { projectId });
+  const reconciliation = useQuery(api.financialLineItems.getReconciliation, { projectId });
+
+  const createLineItem = useMutation(api.financialLineItems.create);
+  const updateLineItem = useMutation(api.financialLineItems.update);
+  const removeLineItem = useMutation(api.financialLineItems.remove);
+
+  const items = useMemo(
+    () => (lineItems ? buildFinancialBreakdownTree(lineItems) : []),
+    [lineItems]
+  );
+
+  const handleAdd = async (data: FinancialBreakdownItemInput) => {
+    try {
+      await createLineItem({
+        projectId,
+        parentId: data.parentId as Id<"financialLineItems"> | undefined,
+        code: data.code,
+        description: data.description,
+        appropriation: data.appropriation,
+        obligation: data.obligation,
+      });
+      toast.success("Line item added");
+    } catch (error) {
+      console.error("Error creating line item:", error);
+      toast.error("Failed to add line item", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const handleEdit = async (id: string, data: FinancialBreakdownItemInput) => {
+    try {
+      await updateLineItem({
+        id: id as Id<"financialLineItems">,
+        code: data.code,
+        description: data.description,
+        appropriation: data.appropriation,
+        obligation: data.obligation,
+      });
+      toast.success("Line item updated");
+    } catch (error) {
+      console.error("Error updating line item:", error);
+      toast.error("Failed to update line item", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const result = await removeLineItem({ id: id as Id<"financialLineItems"> });
+      toast.success(
+        result.removed > 1 ? `Removed ${result.removed} line items` : "Line item removed"
+      );
+    } catch (error) {
+      console.error("Error deleting line item:", error);
+      toast.error("Failed to delete line item", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  if (lineItems === undefined || reconciliation === undefined) {
+    return (
+      <div className="p-6">
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading financial breakdown...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      {/* Reconciliation against the project's allocated budget */}
+      {reconciliation.sectionCount > 0 && (
+        <div
+          className={`rounded-lg border p-4 text-sm ${
+            reconciliation.isReconciled
+              ? "border-green-200 bg-green-50 text-green-800 dark:border-green-800 dark:bg-green-950/20 dark:text-green-300"
+              : "border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-950/20 dark:text-amber-300"
+          }`}
+        >
+          {reconciliation.isReconciled ? (
+            <p>
+              Ledger reconciles with the project&apos;s allocated budget of{" "}
+              <span className="font-semibold">{formatCurrency(reconciliation.projectAllocated)}</span>.
+            </p>
+          ) : (
+            <p>
+              Ledger appropriation is{" "}
+              <span className="font-semibold">{formatCurrency(reconciliation.appropriation)}</span>{" "}
+              against an allocated budget of{" "}
+              <span className="font-semibold">{formatCurrency(reconciliation.projectAllocated)}</span>{" "}
+              ({formatCurrency(Math.abs(reconciliation.variance))}{" "}
+              {reconciliation.variance > 0 ? "unallocated" : "over"}).
+            </p>
+          )}
+        </div>
+      )}
+
+      <FinancialBreakdownTable
+        items={items}
+        onAdd={handleAdd}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+      />
+    </div>
+  );
+};
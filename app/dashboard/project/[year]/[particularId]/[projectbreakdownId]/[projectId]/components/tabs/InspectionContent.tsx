@@ -13,9 +13,11 @@ import { InspectionDetailsModal } from "../modals/InspectionDetailsModal";
 interface InspectionContentProps {
   data: any[];
   projectId: Id<"projects">; // 🔧 Accept projectId as prop
+  /** Breakdown the inspections are filed under; photos are checked against its municipality */
+  breakdownId?: Id<"govtProjectBreakdowns">;
 }
 
-export const InspectionContent: React.FC<InspectionContentProps> = ({ data, projectId }) => {
+export const InspectionContent: React.FC<InspectionContentProps> = ({ data, projectId, breakdownId }) => {
   const inspections = useQuery(api.inspections.listInspectionsByProject, {
     projectId,
   });
@@ -52,6 +54,7 @@ export const InspectionContent: React.FC<InspectionContentProps> = ({ data, proj
   const handleFormSubmit = (data: any) => {
     createInspection({
       projectId,
+      breakdownId,
       programNumber: data.programNumber,
       title: data.title,
       category: data.category,
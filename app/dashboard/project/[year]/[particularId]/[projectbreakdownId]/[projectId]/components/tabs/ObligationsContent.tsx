@@ -0,0 +1,383 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/[projectId]/components/tabs/ObligationsContent.tsx
+
+"use client";
+
+import type React from "react";
+import { Fragment, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { ConfirmationModal } from "@/app/dashboard/project/[year]/components/ConfirmationModal";
+import { StatCard } from "../StatCard";
+import { ObligationFormModal, ObligationFormData } from "../modals/ObligationFormModal";
+import { VoucherFormModal, VoucherFormData } from "../modals/VoucherFormModal";
+
+interface ObligationsContentProps {
+  projectId: Id<"projects">;
+}
+
+type ObligationStatus = NonNullable<Doc<"obligations">["status"]>;
+
+const STATUS_STYLES: Record<ObligationStatus, string> = {
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  obligated: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  disbursed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+const formatCurrency = (amount: number): string =>
+  `₱${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (timestamp?: number): string =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-PH", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      }).format(new Date(timestamp))
+    : "—";
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Please try again.";
+
+// Vouchers of a single obligation (loaded when the row is expanded)
+const ObligationVouchers: React.FC<{ obligationId: Id<"obligations"> }> = ({ obligationId }) => {
+  const vouchers = useQuery(api.obligations.listVouchers, { obligationId });
+  const cancelVoucher = useMutation(api.obligations.cancelVoucher);
+
+  const handleCancel = async (voucher: Doc<"disbursementVouchers">) => {
+    try {
+      await cancelVoucher({ id: voucher._id });
+      toast.success(`Voucher ${voucher.dvNumber} cancelled`);
+    } catch (error) {
+      toast.error("Failed to cancel voucher", { description: getErrorMessage(error) });
+    }
+  };
+
+  if (vouchers === undefined) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Loading vouchers...</p>;
+  }
+
+  if (vouchers.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No disbursement vouchers yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 pr-2 font-medium">DV No.</th>
+          <th className="py-1 pr-2 font-medium">Date</th>
+          <th className="py-1 pr-2 font-medium">Check / ADA</th>
+          <th className="py-1 pr-2 font-medium text-right">Amount</th>
+          <th className="py-1 font-medium text-right">Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {vouchers.map((voucher) => (
+          <tr key={voucher._id} className="border-t border-gray-100 dark:border-gray-800">
+            <td className="py-1 pr-2 text-gray-900 dark:text-gray-100">{voucher.dvNumber}</td>
+            <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">{formatDate(voucher.disbursementDate)}</td>
+            <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">{voucher.checkNumber || "—"}</td>
+            <td
+              className={`py-1 pr-2 text-right ${
+                voucher.status === "cancelled" ? "line-through text-gray-400" : "text-gray-900 dark:text-gray-100"
+              }`}
+            >
+              {formatCurrency(voucher.amount)}
+            </td>
+            <td className="py-1 text-right">
+              {voucher.status === "paid" ? (
+                <button
+                  onClick={() => handleCancel(voucher)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <span className="text-gray-400">Cancelled</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const ObligationsContent: React.FC<ObligationsContentProps> = ({ projectId }) => {
+  const obligations = useQuery(api.obligations.listByProject, { projectId });
+  const summary = useQuery(api.obligations.getProjectSummary, { projectId });
+
+  const createObligation = useMutation(api.obligations.create);
+  const updateObligation = useMutation(api.obligations.update);
+  const postObligation = useMutation(api.obligations.post);
+  const cancelObligation = useMutation(api.obligations.cancel);
+  const removeObligation = useMutation(api.obligations.remove);
+  const addVoucher = useMutation(api.obligations.addVoucher);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Doc<"obligations"> | null>(null);
+  const [voucherTarget, setVoucherTarget] = useState<Doc<"obligations"> | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<Doc<"obligations"> | null>(null);
+  const [expandedId, setExpandedId] = useState<Id<"obligations"> | null>(null);
+
+  const handleSave = async (data: ObligationFormData) => {
+    try {
+      if (editing) {
+        await updateObligation({ id: editing._id, ...data });
+        toast.success("Obligation updated");
+      } else {
+        await createObligation({ projectId, ...data });
+        toast.success("Obligation saved as draft");
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error("Failed to save obligation", { description: getErrorMessage(error) });
+      throw error;
+    }
+  };
+
+  const handlePost = async (obligation: Doc<"obligations">) => {
+    try {
+      await postObligation({ id: obligation._id });
+      toast.success(`ObR ${obligation.obrNumber} posted`, {
+        description: "Project and parent budget figures were updated.",
+      });
+    } catch (error) {
+      toast.error("Failed to post obligation", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleDelete = async (obligation: Doc<"obligations">) => {
+    try {
+      await removeObligation({ id: obligation._id });
+      toast.success("Draft deleted");
+    } catch (error) {
+      toast.error("Failed to delete draft", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleConfirmCancel = async () => {
+    if (!cancelTarget) return;
+    try {
+      await cancelObligation({ id: cancelTarget._id });
+      toast.success(`ObR ${cancelTarget.obrNumber || ""} cancelled`.trim());
+    } catch (error) {
+      toast.error("Failed to cancel obligation", { description: getErrorMessage(error) });
+    } finally {
+      setCancelTarget(null);
+    }
+  };
+
+  const handleAddVoucher = async (data: VoucherFormData) => {
+    if (!voucherTarget) return;
+    try {
+      await addVoucher({ obligationId: voucherTarget._id, ...data });
+      toast.success(`Voucher ${data.dvNumber} recorded`);
+      setExpandedId(voucherTarget._id);
+      setVoucherTarget(null);
+    } catch (error) {
+      toast.error("Failed to record voucher", { description: getErrorMessage(error) });
+      throw error;
+    }
+  };
+
+  if (obligations === undefined || summary === undefined) {
+    return (
+      <div className="p-6">
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading obligations...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {isFormOpen && (
+        <ObligationFormModal
+          open={isFormOpen}
+          onOpenChange={(open) => {
+            setIsFormOpen(open);
+            if (!open) setEditing(null);
+          }}
+          onSubmit={handleSave}
+          obligation={editing}
+        />
+      )}
+
+      {voucherTarget && (
+        <VoucherFormModal
+          open={!!voucherTarget}
+          onOpenChange={(open) => !open && setVoucherTarget(null)}
+          onSubmit={handleAddVoucher}
+          obrNumber={voucherTarget.obrNumber}
+          remainingBalance={voucherTarget.amount - (voucherTarget.disbursedAmount || 0)}
+        />
+      )}
+
+      {cancelTarget && (
+        <ConfirmationModal
+          isOpen={!!cancelTarget}
+          onClose={() => setCancelTarget(null)}
+          onConfirm={handleConfirmCancel}
+          title="Cancel Obligation"
+          message={`Cancel ObR ${cancelTarget.obrNumber || ""}? Its amount will be removed from the project's obligated budget.`}
+          confirmText="Cancel Obligation"
+          variant="danger"
+        />
+      )}
+
+      {/* Ledger Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <StatCard label="Allocated" amount={summary.allocated} />
+        <StatCard label="Obligated" amount={summary.obligated} />
+        <StatCard label="Disbursed" amount={summary.disbursed} />
+        <StatCard label="Unobligated" amount={summary.unobligated} />
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Obligations</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {summary.postedCount} posted of {obligations.length} entr{obligations.length !== 1 ? "ies" : "y"}
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditing(null);
+            setIsFormOpen(true);
+          }}
+          className="bg-[#15803D] hover:bg-[#166534] text-white"
+        >
+          New Obligation
+        </Button>
+      </div>
+
+      {obligations.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No obligations recorded yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                <th className="px-4 py-3 w-8"></th>
+                <th className="px-4 py-3">ObR No.</th>
+                <th className="px-4 py-3">Payee</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3 text-right">Amount</th>
+                <th className="px-4 py-3 text-right">Disbursed</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {obligations.map((obligation) => {
+                const status: ObligationStatus = obligation.status ?? "draft";
+                const isExpanded = expandedId === obligation._id;
+
+                return (
+                  <Fragment key={obligation._id}>
+                    <tr className="bg-white dark:bg-gray-800">
+                      <td className="px-4 py-3">
+                        {status !== "draft" && (
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : obligation._id)}
+                            className="text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                            aria-label="Toggle vouchers"
+                          >
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                        {obligation.obrNumber || obligation.type || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                        {obligation.payee || obligation.name || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                        {formatDate(obligation.obligationDate ?? obligation.createdAt)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">
+                        {formatCurrency(obligation.amount)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                        {formatCurrency(obligation.disbursedAmount || 0)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${STATUS_STYLES[status]}`}>
+                          {status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2 text-xs">
+                          {status === "draft" && (
+                            <>
+                              <button
+                                onClick={() => {
+                                  setEditing(obligation);
+                                  setIsFormOpen(true);
+                                }}
+                                className="text-gray-700 dark:text-gray-300 hover:underline"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handlePost(obligation)}
+                                className="text-[#15803D] font-semibold hover:underline"
+                              >
+                                Post
+                              </button>
+                              <button
+                                onClick={() => handleDelete(obligation)}
+                                className="text-red-600 dark:text-red-400 hover:underline"
+                              >
+                                Delete
+                              </button>
+                            </>
+                          )}
+                          {status === "obligated" && (
+                            <button
+                              onClick={() => setVoucherTarget(obligation)}
+                              className="text-[#15803D] font-semibold hover:underline"
+                            >
+                              Add DV
+                            </button>
+                          )}
+                          {(status === "obligated" || status === "disbursed") && (
+                            <button
+                              onClick={() => setCancelTarget(obligation)}
+                              className="text-red-600 dark:text-red-400 hover:underline"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50 dark:bg-gray-900">
+                        <td></td>
+                        <td colSpan={7} className="px-4 py-3">
+                          <ObligationVouchers obligationId={obligation._id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
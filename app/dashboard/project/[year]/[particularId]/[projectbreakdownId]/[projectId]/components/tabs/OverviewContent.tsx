@@ -77,9 +77,9 @@ export const OverviewContent: React.FC<OverviewContentProps> = ({ projectId }) =
               <TransactionCard
                 key={obligation._id}
                 amount={obligation.amount}
-                name={obligation.name}
-                email={obligation.email}
-                type={obligation.type}
+                name={obligation.payee ?? obligation.name ?? ""}
+                email={obligation.obrNumber ? `ObR ${obligation.obrNumber}` : obligation.email ?? ""}
+                type={obligation.status ?? obligation.type ?? "draft"}
               />
             ))}
           </div>
@@ -6,6 +6,7 @@ import { Id } from "@/convex/_generated/dataModel"
 // Core Data Structures
 export interface FinancialBreakdownItem {
   id: string
+  parentId?: string
   code?: string
   description: string
   appropriation: number
@@ -15,6 +16,14 @@ export interface FinancialBreakdownItem {
   children?: FinancialBreakdownItem[]
 }
 
+export interface FinancialBreakdownItemInput {
+  parentId?: string
+  code?: string
+  description: string
+  appropriation: number
+  obligation: number
+}
+
 export interface InspectionItem {
   id: string
   programNumber: string
@@ -27,6 +36,8 @@ export interface InspectionItem {
   views: string
 }
 
+export type PhotoPhase = "before" | "during" | "after"
+
 export interface InspectionFormData {
   programNumber: string
   title: string
@@ -34,6 +45,8 @@ export interface InspectionFormData {
   date: string
   remarks: string
   images: File[]
+  /** Stage of the work the uploaded photos document */
+  photoPhase: PhotoPhase
   uploadSessionId?: Id<"uploadSessions">
 }
 
@@ -1,5 +1,16 @@
 // app/dashboard/project/budget/[particularId]/[projectbreakdownId]/[projectId]/components/utils.ts
 
+import type { PhotoPhase } from "./types"
+
+/**
+ * Stages of the work an inspection photo can document, in timeline order.
+ */
+export const PHOTO_PHASES: { value: PhotoPhase; label: string }[] = [
+  { value: "before", label: "Before" },
+  { value: "during", label: "During" },
+  { value: "after", label: "After" },
+]
+
 /**
  * Utility function to get the Tailwind CSS classes for an inspection status.
  * @param status The status string (e.g., "Completed", "In Progress").
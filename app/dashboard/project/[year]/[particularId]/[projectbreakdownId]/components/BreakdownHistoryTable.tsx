@@ -47,7 +47,9 @@ import { EmptyState } from "./EmptyState";
 export function BreakdownHistoryTable({
   breakdowns,
   onPrint,
+  onExportReport,
   onAdd,
+  onImport,
   onEdit,
   onDelete,
   onOpenTrash,
@@ -138,7 +140,9 @@ export function BreakdownHistoryTable({
         search={search}
         onSearchChange={setSearch}
         onPrint={onPrint}
+        onExportReport={onExportReport}
         onAdd={onAdd}
+        onImport={onImport}
         onOpenTrash={onOpenTrash}
         accentColor={accentColorValue}
       />
@@ -0,0 +1,307 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/components/BreakdownImport.tsx
+
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Upload } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useAccentColor } from "@/contexts/AccentColorContext";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportRow,
+  buildImportRows,
+  guessColumnMapping,
+  parseSpreadsheet,
+} from "../utils/breakdownImport";
+
+interface BreakdownImportProps {
+  projectId: string;
+  defaultProjectName: string;
+  defaultImplementingOffice: string;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+type ImportStep = "upload" | "map" | "review";
+
+const IGNORE_COLUMN = "__ignore__";
+
+export function BreakdownImport({
+  projectId,
+  defaultProjectName,
+  defaultImplementingOffice,
+  onComplete,
+  onCancel,
+}: BreakdownImportProps) {
+  const { accentColorValue } = useAccentColor();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bulkCreateBreakdowns = useMutation(api.govtProjects.bulkCreateBreakdowns);
+
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rawRows, setRawRows] = useState<Record<string, unknown>[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const parsedRows = useMemo(
+    () =>
+      buildImportRows(rawRows, mapping, {
+        projectName: defaultProjectName,
+        implementingOffice: defaultImplementingOffice,
+      }),
+    [rawRows, mapping, defaultProjectName, defaultImplementingOffice]
+  );
+
+  const payload = useMemo(
+    () =>
+      parsedRows.map((row): ImportRow & { projectId: Id<"projects"> } => ({
+        ...row.data,
+        projectId: projectId as Id<"projects">,
+      })),
+    [parsedRows, projectId]
+  );
+
+  // 🔍 DRY RUN: server-side validation, nothing is written
+  const validation = useQuery(
+    api.govtProjects.validateBreakdownImport,
+    step === "review" && payload.length > 0 ? { breakdowns: payload } : "skip"
+  );
+
+  const rowResults = useMemo(
+    () =>
+      parsedRows.map((row, index) => ({
+        ...row,
+        errors: [...row.errors, ...(validation?.rows[index]?.errors ?? [])],
+      })),
+    [parsedRows, validation]
+  );
+
+  const errorRows = rowResults.filter((row) => row.errors.length > 0);
+  const mappedFields = new Set(Object.values(mapping).filter(Boolean));
+
+  const handleFile = async (file: File) => {
+    setIsParsing(true);
+    try {
+      const { headers, rows } = await parseSpreadsheet(file);
+      if (rows.length === 0) {
+        throw new Error("No data rows found in the first sheet");
+      }
+      setFileName(file.name);
+      setHeaders(headers);
+      setRawRows(rows);
+      setMapping(guessColumnMapping(headers));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading spreadsheet:", error);
+      toast.error("Could not read file", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsParsing(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (errorRows.length > 0 || payload.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const result = await bulkCreateBreakdowns({
+        breakdowns: payload,
+        reason: `Imported from ${fileName}`,
+      });
+      toast.success(`Imported ${result.count} breakdown records`, {
+        description: `Batch ${result.batchId}`,
+      });
+      onComplete();
+    } catch (error) {
+      console.error("Error importing breakdowns:", error);
+      toast.error("Import failed", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* STEP 1: UPLOAD */}
+      {step === "upload" && (
+        <div
+          className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed rounded-xl border-zinc-300 dark:border-zinc-700 text-center cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            const file = e.dataTransfer.files?.[0];
+            if (file) handleFile(file);
+          }}
+        >
+          <FileSpreadsheet className="w-10 h-10 text-zinc-400" />
+          <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+            {isParsing ? "Reading file..." : "Drop an Excel or CSV file here, or click to browse"}
+          </p>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            The first sheet is imported. Row 1 must contain the column headers.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+        </div>
+      )}
+
+      {/* STEP 2: COLUMN MAPPING */}
+      {step === "map" && (
+        <>
+          <div className="flex items-center justify-between text-sm">
+            <p className="text-zinc-600 dark:text-zinc-400">
+              <span className="font-medium text-zinc-900 dark:text-zinc-100">{fileName}</span>
+              {" "}— {parsedRows.length} rows
+            </p>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Unmapped project name / office fall back to this project&apos;s values
+            </p>
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto border rounded-lg divide-y divide-zinc-200 dark:divide-zinc-800">
+            {headers.map((header) => (
+              <div key={header} className="flex items-center justify-between gap-4 px-4 py-2">
+                <span className="text-sm text-zinc-900 dark:text-zinc-100 truncate">{header}</span>
+                <Select
+                  value={mapping[header] || IGNORE_COLUMN}
+                  onValueChange={(value) =>
+                    setMapping((prev) => ({
+                      ...prev,
+                      [header]: value === IGNORE_COLUMN ? "" : (value as keyof ImportRow),
+                    }))
+                  }
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={IGNORE_COLUMN}>— Ignore column —</SelectItem>
+                    {IMPORT_FIELDS.map((field) => (
+                      <SelectItem
+                        key={field.key}
+                        value={field.key}
+                        disabled={mappedFields.has(field.key) && mapping[header] !== field.key}
+                      >
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* STEP 3: DRY RUN */}
+      {step === "review" && (
+        <>
+          {validation === undefined ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">Validating rows...</p>
+          ) : errorRows.length === 0 ? (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-950/20 text-green-700 dark:text-green-400 text-sm">
+              <CheckCircle2 className="w-4 h-4" />
+              All {rowResults.length} rows passed validation and are ready to import.
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-950/20 text-red-700 dark:text-red-400 text-sm">
+                <AlertTriangle className="w-4 h-4" />
+                {errorRows.length} of {rowResults.length} rows have errors. Fix the file or mapping and try again.
+              </div>
+              <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-zinc-50 dark:bg-zinc-800">
+                    <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400">
+                      <th className="px-3 py-2 font-medium w-16">Row</th>
+                      <th className="px-3 py-2 font-medium">Office</th>
+                      <th className="px-3 py-2 font-medium">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {errorRows.map((row) => (
+                      <tr key={row.rowNumber} className="border-t border-zinc-100 dark:border-zinc-800 align-top">
+                        <td className="px-3 py-2 text-zinc-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-zinc-900 dark:text-zinc-100">{row.data.implementingOffice || "—"}</td>
+                        <td className="px-3 py-2">
+                          <ul className="list-disc pl-4 text-red-600 dark:text-red-400 space-y-0.5">
+                            {row.errors.map((error, i) => (
+                              <li key={i}>{error}</li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center justify-end gap-3 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+        <Button
+          type="button"
+          onClick={step === "upload" ? onCancel : () => setStep(step === "review" ? "map" : "upload")}
+          variant="ghost"
+          className="text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+        >
+          {step === "upload" ? "Cancel" : "Back"}
+        </Button>
+        {step === "map" && (
+          <Button
+            type="button"
+            onClick={() => setStep("review")}
+            disabled={parsedRows.length === 0}
+            className="text-white"
+            style={{ backgroundColor: accentColorValue }}
+          >
+            <Upload className="w-4 h-4" />
+            Validate {parsedRows.length} Rows
+          </Button>
+        )}
+        {step === "review" && (
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={validation === undefined || errorRows.length > 0 || isImporting}
+            className="text-white"
+            style={{ backgroundColor: accentColorValue }}
+          >
+            {isImporting ? "Importing..." : `Import ${rowResults.length} Rows`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
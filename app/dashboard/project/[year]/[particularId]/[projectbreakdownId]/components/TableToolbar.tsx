@@ -2,13 +2,16 @@
 
 "use client";
 
-import { Search, Trash2 } from "lucide-react";
+import { FileSpreadsheet, FileText, Search, Trash2 } from "lucide-react";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 
 interface TableToolbarProps {
   search: string;
   onSearchChange: (value: string) => void;
   onPrint: () => void;
+  onExportReport?: (format: ReportFormat) => void;
   onAdd?: () => void;
+  onImport?: () => void;
   onOpenTrash?: () => void;
   accentColor: string;
 }
@@ -17,7 +20,9 @@ export function TableToolbar({
   search,
   onSearchChange,
   onPrint,
+  onExportReport,
   onAdd,
+  onImport,
   onOpenTrash,
   accentColor,
 }: TableToolbarProps) {
@@ -67,6 +72,44 @@ export function TableToolbar({
           </div>
         </button>
 
+        {onExportReport && (
+          <>
+            <button
+              onClick={() => onExportReport("xlsx")}
+              className="cursor-pointer px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-all hover:shadow-md bg-zinc-200 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-600"
+              title="Excel Report (.xlsx)"
+            >
+              <div className="flex items-center gap-2">
+                <FileSpreadsheet className="w-4 h-4" />
+                <span className="hidden sm:inline">Excel</span>
+              </div>
+            </button>
+            <button
+              onClick={() => onExportReport("pdf")}
+              className="cursor-pointer px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-all hover:shadow-md bg-zinc-200 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-600"
+              title="PDF Report"
+            >
+              <div className="flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                <span className="hidden sm:inline">PDF</span>
+              </div>
+            </button>
+          </>
+        )}
+
+        {onImport && (
+          <button
+            onClick={onImport}
+            className="cursor-pointer px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-all hover:shadow-md bg-green-50 dark:bg-green-950/20 text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30 border border-green-200 dark:border-green-800"
+            title="Import from Excel"
+          >
+            <div className="flex items-center gap-2">
+              <FileSpreadsheet className="w-4 h-4" />
+              <span className="hidden sm:inline">Import</span>
+            </div>
+          </button>
+        )}
+
         {onAdd && (
           <button
             onClick={onAdd}
@@ -12,6 +12,9 @@ import { useAccentColor } from "@/contexts/AccentColorContext";
 import { useBreadcrumb } from "../../../../../../contexts/BreadcrumbContext";
 import { BreakdownHistoryTable } from "./components/BreakdownHistoryTable";
 import { BreakdownForm } from "./components/BreakdownForm";
+import { BreakdownImport } from "./components/BreakdownImport";
+import { ReportExportModal } from "@/components/ReportExportModal";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 
 import { toast } from "sonner";
 import { ActivityLogSheet } from "../../../../../../components/ActivityLogSheet";
@@ -97,6 +100,8 @@ export default function ProjectBreakdownPage() {
 
   const [showTrashModal, setShowTrashModal] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedBreakdown, setSelectedBreakdown] = useState<Breakdown | null>(null);
@@ -755,7 +760,9 @@ export default function ProjectBreakdownPage() {
           <BreakdownHistoryTable
             breakdowns={formattedBreakdownHistory}
             onPrint={handlePrint}
+            onExportReport={setReportFormat}
             onAdd={() => setShowAddModal(true)}
+            onImport={() => setShowImportModal(true)}
             onEdit={handleEdit}
             onDelete={handleDelete}
             onOpenTrash={() => setShowTrashModal(true)}
@@ -781,6 +788,24 @@ export default function ProjectBreakdownPage() {
         </Modal>
       )}
 
+      {showImportModal && project && (
+        <Modal
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+          title="Import Breakdown Records"
+          subtitle="Upload an Excel (.xlsx) or CSV file, map its columns, then review the dry run"
+          size="xl"
+        >
+          <BreakdownImport
+            projectId={projectId}
+            defaultProjectName={project.particulars}
+            defaultImplementingOffice={project.implementingOffice}
+            onComplete={() => setShowImportModal(false)}
+            onCancel={() => setShowImportModal(false)}
+          />
+        </Modal>
+      )}
+
       {showEditModal && selectedBreakdown && (
         <Modal
           isOpen={showEditModal}
@@ -815,6 +840,15 @@ export default function ProjectBreakdownPage() {
         />
       )}
 
+      {reportFormat && (
+        <ReportExportModal
+          isOpen={reportFormat !== null}
+          onClose={() => setReportFormat(null)}
+          format={reportFormat}
+          config={{ report: "breakdowns", projectId, year: project?.year }}
+        />
+      )}
+
       <TrashBinModal 
         isOpen={showTrashModal} 
         onClose={() => setShowTrashModal(false)} 
@@ -1,5 +1,7 @@
 // app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/types/breakdown.types.ts
 
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
+
 export interface Breakdown {
   _id: string;
   projectName: string;
@@ -39,7 +41,9 @@ export interface ColumnConfig {
 export interface BreakdownHistoryTableProps {
   breakdowns: Breakdown[];
   onPrint: () => void;
+  onExportReport?: (format: ReportFormat) => void;
   onAdd?: () => void;
+  onImport?: () => void;
   onEdit?: (breakdown: Breakdown) => void;
   onDelete?: (id: string) => void;
   onOpenTrash?: () => void;
@@ -0,0 +1,283 @@
+// app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/utils/breakdownImport.ts
+
+import type { CellValue } from "exceljs";
+import { Breakdown } from "../types/breakdown.types";
+
+export type ImportFieldType = "text" | "number" | "date" | "status";
+
+export interface ImportField {
+  key: keyof ImportRow;
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  /** Normalized header names recognized for auto-mapping */
+  aliases: string[];
+}
+
+/**
+ * Shape sent to govtProjects.validateBreakdownImport / bulkCreateBreakdowns
+ */
+export type ImportRow = Pick<
+  Breakdown,
+  | "projectTitle"
+  | "allocatedBudget"
+  | "obligatedBudget"
+  | "budgetUtilized"
+  | "balance"
+  | "utilizationRate"
+  | "dateStarted"
+  | "targetDate"
+  | "completionDate"
+  | "projectAccomplishment"
+  | "status"
+  | "remarks"
+  | "district"
+  | "municipality"
+  | "barangay"
+  | "reportDate"
+  | "fundSource"
+> & {
+  projectName: string;
+  implementingOffice: string;
+};
+
+export interface ParsedImportRow {
+  /** 1-based spreadsheet row number (header is row 1) */
+  rowNumber: number;
+  data: ImportRow;
+  errors: string[];
+}
+
+/** Column header → import field key ("" = ignore column) */
+export type ColumnMapping = Record<string, keyof ImportRow | "">;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: "projectName", label: "Project Name", type: "text", required: true, aliases: ["projectname", "project", "name"] },
+  { key: "implementingOffice", label: "Implementing Office", type: "text", required: true, aliases: ["implementingoffice", "office", "implementingagency", "agency"] },
+  { key: "projectTitle", label: "Project Title", type: "text", aliases: ["projecttitle", "title"] },
+  { key: "allocatedBudget", label: "Allocated Budget", type: "number", aliases: ["allocatedbudget", "allocated", "allocation", "appropriation"] },
+  { key: "obligatedBudget", label: "Obligated Budget", type: "number", aliases: ["obligatedbudget", "obligated", "obligation"] },
+  { key: "budgetUtilized", label: "Budget Utilized", type: "number", aliases: ["budgetutilized", "utilized", "disbursed", "expenditure"] },
+  { key: "balance", label: "Balance", type: "number", aliases: ["balance"] },
+  { key: "utilizationRate", label: "Utilization Rate", type: "number", aliases: ["utilizationrate", "utilization"] },
+  { key: "projectAccomplishment", label: "Accomplishment (%)", type: "number", aliases: ["projectaccomplishment", "accomplishment", "physicalaccomplishment", "progress"] },
+  { key: "status", label: "Status", type: "status", aliases: ["status"] },
+  { key: "dateStarted", label: "Date Started", type: "date", aliases: ["datestarted", "startdate", "started"] },
+  { key: "targetDate", label: "Target Date", type: "date", aliases: ["targetdate", "targetcompletion", "targetdateofcompletion"] },
+  { key: "completionDate", label: "Completion Date", type: "date", aliases: ["completiondate", "datecompleted", "completed"] },
+  { key: "reportDate", label: "Report Date", type: "date", aliases: ["reportdate", "asof", "dateofreport"] },
+  { key: "district", label: "District", type: "text", aliases: ["district"] },
+  { key: "municipality", label: "Municipality", type: "text", aliases: ["municipality", "municipalitycity", "city", "town"] },
+  { key: "barangay", label: "Barangay", type: "text", aliases: ["barangay", "brgy"] },
+  { key: "fundSource", label: "Fund Source", type: "text", aliases: ["fundsource", "source", "sourceoffund", "sourceoffunds"] },
+  { key: "remarks", label: "Remarks", type: "text", aliases: ["remarks", "notes"] },
+];
+
+const STATUS_VALUES = ["completed", "ongoing", "delayed"] as const;
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Plain value of an ExcelJS cell: formulas give their cached result,
+ * rich text and hyperlinks their text
+ */
+function toPlainValue(value: CellValue): unknown {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date || typeof value !== "object") return value;
+  if ("result" in value) return toPlainValue(value.result as CellValue);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("text" in value) return value.text;
+  return "";
+}
+
+/**
+ * Cells of the first worksheet of an .xlsx file, row by row.
+ * ExcelJS is loaded on demand so it stays out of the page bundle.
+ */
+async function readFirstSheet(buffer: ArrayBuffer): Promise<unknown[][]> {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error("The file does not contain any sheets");
+  }
+
+  // Keep empty rows so row numbers match the spreadsheet
+  const grid: unknown[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: unknown[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      cells[columnNumber - 1] = toPlainValue(cell.value);
+    });
+    grid[rowNumber - 1] = cells;
+  });
+  return Array.from(grid, (cells) => cells ?? []);
+}
+
+/**
+ * Read the first sheet of an .xlsx or .csv file into header + row objects
+ */
+export async function parseSpreadsheet(
+  file: File
+): Promise<{ headers: string[]; rows: Record<string, unknown>[] }> {
+  const grid = file.name.toLowerCase().endsWith(".csv")
+    ? parseCsv((await file.text()).replace(/^\uFEFF/, ""))
+    : await readFirstSheet(await file.arrayBuffer());
+
+  const [headerCells = [], ...dataRows] = grid;
+  const headers = Array.from(headerCells, (header) => String(header ?? "").trim());
+
+  const rows = dataRows.map((cells) => {
+    const row: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      if (header) row[header] = cells[index] ?? "";
+    });
+    return row;
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+}
+
+/**
+ * Auto-map spreadsheet headers to import fields by name
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(
+      (f) => !used.has(f.key) && f.aliases.includes(normalized)
+    );
+    mapping[header] = field ? field.key : "";
+    if (field) used.add(field.key);
+  }
+
+  return mapping;
+}
+
+function parseNumber(value: unknown): number | undefined | null {
+  if (value === "" || value === null || value === undefined) return undefined;
+  if (typeof value === "number") return value;
+  const cleaned = String(value).replace(/[₱,%\s]/g, "");
+  if (cleaned === "" || cleaned === "-") return undefined;
+  const parsed = Number(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseDate(value: unknown): number | undefined | null {
+  if (value === "" || value === null || value === undefined) return undefined;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.getTime();
+  const parsed = Date.parse(String(value));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Apply the column mapping to raw rows and collect per-row parse errors.
+ * Server-side checks (agency codes, business rules) run later in the dry run.
+ */
+export function buildImportRows(
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  defaults: { projectName: string; implementingOffice: string }
+): ParsedImportRow[] {
+  const isBlank = (raw: Record<string, unknown>) =>
+    Object.values(raw).every((value) => String(value ?? "").trim() === "");
+
+  return rows
+    .map((raw, index) => ({ raw, rowNumber: index + 2 }))
+    // Skip completely empty spreadsheet rows
+    .filter(({ raw }) => !isBlank(raw))
+    .map(({ raw, rowNumber }) => {
+      const errors: string[] = [];
+      const data: ImportRow = { projectName: "", implementingOffice: "" };
+      const target = data as Record<string, unknown>;
+
+      for (const [header, fieldKey] of Object.entries(mapping)) {
+        if (!fieldKey) continue;
+        const field = IMPORT_FIELDS.find((f) => f.key === fieldKey);
+        if (!field) continue;
+        const value = raw[header];
+
+        switch (field.type) {
+          case "number": {
+            const parsed = parseNumber(value);
+            if (parsed === null) errors.push(`${field.label}: "${value}" is not a number`);
+            else if (parsed !== undefined) target[field.key] = parsed;
+            break;
+          }
+          case "date": {
+            const parsed = parseDate(value);
+            if (parsed === null) errors.push(`${field.label}: "${value}" is not a valid date`);
+            else if (parsed !== undefined) target[field.key] = parsed;
+            break;
+          }
+          case "status": {
+            const text = String(value ?? "").trim().toLowerCase();
+            if (!text) break;
+            const status = STATUS_VALUES.find((s) => s === text || (s === "ongoing" && text === "on-going"));
+            if (status) target[field.key] = status;
+            else errors.push(`${field.label}: "${value}" must be completed, ongoing or delayed`);
+            break;
+          }
+          default: {
+            const text = String(value ?? "").trim();
+            if (text) target[field.key] = text;
+          }
+        }
+      }
+
+      // Fall back to the parent project's values for the two required fields
+      if (!data.projectName) data.projectName = defaults.projectName;
+      if (!data.implementingOffice) data.implementingOffice = defaults.implementingOffice;
+
+      return { rowNumber, data, errors };
+    });
+}
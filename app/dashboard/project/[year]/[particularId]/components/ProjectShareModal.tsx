@@ -48,6 +48,7 @@ export function ProjectShareModal({
   // Mutations
   const grantAccess = useMutation(api.budgetParticularAccess.grantAccess);
   const revokeAccess = useMutation(api.budgetParticularAccess.revokeAccess);
+  const renewAccess = useMutation(api.budgetParticularAccess.renewAccess);
   const approveRequest = useMutation(api.accessRequests.approveRequest);
   const rejectRequest = useMutation(api.accessRequests.rejectRequest);
   
@@ -64,6 +65,7 @@ export function ProjectShareModal({
       particularCode,
       userId: user.userId,
       accessLevel: user.accessLevel,
+      expiresAt: user.expiresAt,
     });
   };
 
@@ -74,6 +76,10 @@ export function ProjectShareModal({
     });
   };
 
+  const handleRenewAccess = async (userId: Id<"users">, expiresAt?: number) => {
+    await renewAccess({ particularCode, userId, expiresAt });
+  };
+
   const handleApproveRequest = async (requestId: Id<"accessRequests">) => {
     await approveRequest({ requestId });
   };
@@ -116,6 +122,7 @@ export function ProjectShareModal({
       usersWithAccess={transformedUsersWithAccess}
       onGrantAccess={handleGrantAccess}
       onRevokeAccess={handleRevokeAccess}
+      onRenewAccess={handleRenewAccess}
       onApproveRequest={handleApproveRequest}
       onRejectRequest={handleRejectRequest}
       savingAccess={savingAccess}
@@ -25,6 +25,8 @@ import { ProjectsTableBody } from "./ProjectsTable/ProjectsTableBody";
 import { ProjectsTableFooter } from "./ProjectsTable/ProjectsTableFooter";
 import { ProjectContextMenu } from "./ProjectsTable/ProjectContextMenu";
 import { ProjectBulkToggleDialog } from "./ProjectBulkToggleDialog";
+import { ReportExportModal } from "@/components/ReportExportModal";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 
 // Types, Constants, and Utils
 import {
@@ -85,6 +87,7 @@ export function ProjectsTable({
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat | null>(null);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showBulkCategoryConfirmModal, setShowBulkCategoryConfirmModal] = useState(false);
   const [showSingleCategoryModal, setShowSingleCategoryModal] = useState(false);
@@ -556,6 +559,7 @@ export function ProjectsTable({
           onShowAllColumns={handleShowAllColumns}
           onHideAllColumns={handleHideAllColumns}
           onExportCSV={handleExportCSV}
+          onExportReport={setReportFormat}
           onPrint={() => window.print()}
           onOpenTrash={onOpenTrash}
           onBulkTrash={handleBulkTrash}
@@ -822,6 +826,20 @@ export function ProjectsTable({
           particularFullName={getParticularFullName(particularId)}
         />
       )}
+
+      {reportFormat && (
+        <ReportExportModal
+          isOpen={reportFormat !== null}
+          onClose={() => setReportFormat(null)}
+          format={reportFormat}
+          config={{
+            report: "projects",
+            budgetItemId,
+            year: budgetItemYear,
+            hiddenColumns: Array.from(hiddenColumns),
+          }}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -7,7 +7,7 @@ import {
   Trash2, 
   Download, 
   Printer, 
-  FileSpreadsheet,
+  FileSpreadsheet, FileText,
   CheckCircle2,
   Share2,
   Calculator
@@ -23,6 +23,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 import { ColumnVisibilityMenu } from "./ColumnVisibilityMenu";
 import { ProjectBulkActions } from "./ProjectBulkActions";
 
@@ -49,6 +50,7 @@ interface ProjectsTableToolbarProps {
   
   // Export/Print
   onExportCSV: () => void;
+  onExportReport?: (format: ReportFormat) => void;
   onPrint: () => void;
   
   // Trash
@@ -90,6 +92,7 @@ export function ProjectsTableToolbar({
   onShowAllColumns,
   onHideAllColumns,
   onExportCSV,
+  onExportReport,
   onPrint,
   onOpenTrash,
   onBulkTrash,
@@ -213,6 +216,16 @@ export function ProjectsTableToolbar({
             <DropdownMenuItem onClick={onExportCSV} className="cursor-pointer">
               <FileSpreadsheet className="w-4 h-4 mr-2" /> Export CSV
             </DropdownMenuItem>
+            {onExportReport && (
+              <>
+                <DropdownMenuItem onClick={() => onExportReport("xlsx")} className="cursor-pointer">
+                  <FileSpreadsheet className="w-4 h-4 mr-2" /> Excel Report (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExportReport("pdf")} className="cursor-pointer">
+                  <FileText className="w-4 h-4 mr-2" /> PDF Report
+                </DropdownMenuItem>
+              </>
+            )}
             <DropdownMenuSeparator />
             <div className="p-2">
               <span className="text-[10px] text-zinc-500 leading-tight block">
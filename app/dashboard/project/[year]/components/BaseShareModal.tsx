@@ -26,6 +26,7 @@ import {
   CheckCircle2,
   XCircle,
   Trash2,
+  RefreshCw,
 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { getDisplayName, getUserInitials } from "@/lib/utils";
@@ -43,6 +44,26 @@ import { UserFromList } from "@/app/dashboard/project/[year]/types";
 
 type SelectedUser = SelectedUserForAccess;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Grants expiring sooner than this are highlighted
+const EXPIRY_WARNING_MS = 3 * DAY_MS;
+
+// Default extension offered by "Renew"
+const RENEWAL_PERIOD_MS = 30 * DAY_MS;
+
+// Date input value ("YYYY-MM-DD") to the end of that day, local time
+function endOfDay(value: string) {
+  return new Date(`${value}T23:59:59`).getTime();
+}
+
+function toDateInputValue(timestamp: number) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 // ============================================================================
 // PROPS INTERFACE
 // ============================================================================
@@ -59,6 +80,8 @@ export interface BaseShareModalProps {
   // Mutations - pass these from parent wrapper
   onGrantAccess: (user: SelectedUser) => Promise<void>;
   onRevokeAccess: (userId: Id<"users">) => Promise<void>;
+  /** Change when a user's access expires; undefined removes the expiry */
+  onRenewAccess?: (userId: Id<"users">, expiresAt?: number) => Promise<void>;
   onApproveRequest: (requestId: Id<"accessRequests">) => Promise<void>;
   onRejectRequest: (requestId: Id<"accessRequests">) => Promise<void>;
   
@@ -81,6 +104,7 @@ export default function BaseShareModal({
   usersWithAccess = [],
   onGrantAccess,
   onRevokeAccess,
+  onRenewAccess,
   onApproveRequest,
   onRejectRequest,
   savingAccess,
@@ -97,6 +121,12 @@ export default function BaseShareModal({
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [selectedUsers, setSelectedUsers] = useState<SelectedUser[]>([]);
   const [focusedSuggestionIndex, setFocusedSuggestionIndex] = useState(-1);
+
+  // Expiry of new grants ("" = never) and the inline renew form
+  const [now] = useState(() => Date.now());
+  const [expiryDate, setExpiryDate] = useState("");
+  const [renewingUserId, setRenewingUserId] = useState<Id<"users"> | null>(null);
+  const [renewDate, setRenewDate] = useState("");
   
   const searchInputRef = useRef<HTMLInputElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
@@ -245,12 +275,14 @@ export default function BaseShareModal({
       setSavingAccess(true);
       
       // Grant access to all selected users
+      const expiresAt = expiryDate ? endOfDay(expiryDate) : undefined;
       for (const user of selectedUsers) {
-        await onGrantAccess(user);
+        await onGrantAccess({ ...user, expiresAt });
       }
 
       // Clear selected users
       setSelectedUsers([]);
+      setExpiryDate("");
       alert("Access granted successfully!");
     } catch (error) {
       console.error("Error granting access:", error);
@@ -277,6 +309,28 @@ export default function BaseShareModal({
     }
   };
 
+  const handleStartRenew = (user: UserWithAccessInfo) => {
+    setRenewingUserId(user.userId);
+    setRenewDate(toDateInputValue(Math.max(now, user.expiresAt ?? now) + RENEWAL_PERIOD_MS));
+  };
+
+  const handleRenewAccess = async (userId: Id<"users">) => {
+    if (!onRenewAccess) return;
+
+    try {
+      setProcessingId(userId);
+      await onRenewAccess(userId, renewDate ? endOfDay(renewDate) : undefined);
+      setRenewingUserId(null);
+    } catch (error) {
+      console.error("Error renewing access:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to renew access"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (!showSuggestions || filteredUsers.length === 0) return;
 
@@ -463,6 +517,36 @@ export default function BaseShareModal({
             )}
           </div>
 
+          {/* Expiry for the selected users */}
+          {selectedUsers.length > 0 && (
+            <div className="mt-4 flex items-center gap-3">
+              <label
+                htmlFor="share-expiry"
+                className="text-sm font-medium text-gray-700 dark:text-zinc-300 whitespace-nowrap"
+              >
+                Access expires
+              </label>
+              <Input
+                id="share-expiry"
+                type="date"
+                min={toDateInputValue(now)}
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+                className="h-9 w-[170px] bg-white dark:bg-zinc-950 border-zinc-300 dark:border-zinc-700"
+              />
+              {expiryDate ? (
+                <button
+                  onClick={() => setExpiryDate("")}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Never expire
+                </button>
+              ) : (
+                <span className="text-xs text-gray-500 dark:text-zinc-500">Never</span>
+              )}
+            </div>
+          )}
+
           {/* Save button for selected users */}
           {selectedUsers.length > 0 && (
             <div className="mt-4">
@@ -595,42 +679,92 @@ export default function BaseShareModal({
           {usersWithAccess && usersWithAccess.length > 0 ? (
             <div className="space-y-3">
               {usersWithAccess.map((user) => (
-                <div
-                  key={user._id}
-                  className="flex items-center gap-3 py-2"
-                >
-                  <Avatar className="w-10 h-10 flex-shrink-0">
-                    <AvatarFallback
-                      className={`${getAvatarColor(user.userName)} text-white`}
-                    >
-                      {getInitials(user.userName)}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1 min-w-0">
-                    <div className="text-sm font-medium text-gray-900 dark:text-zinc-100">
-                      {user.userName}
+                <div key={user._id}>
+                  <div className="flex items-center gap-3 py-2">
+                    <Avatar className="w-10 h-10 flex-shrink-0">
+                      <AvatarFallback
+                        className={`${getAvatarColor(user.userName)} text-white`}
+                      >
+                        {getInitials(user.userName)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 dark:text-zinc-100">
+                        {user.userName}
+                      </div>
+                      <div className="text-sm text-gray-600 dark:text-zinc-400">
+                        {user.userEmail}
+                      </div>
+                      {user.departmentName && (
+                        <div className="text-xs text-gray-500 dark:text-zinc-500">
+                          {user.departmentName}
+                        </div>
+                      )}
+                      {user.expiresAt && (
+                        <div
+                          className={`text-xs ${
+                            user.expiresAt - now < EXPIRY_WARNING_MS
+                              ? "text-amber-600 dark:text-amber-400"
+                              : "text-gray-500 dark:text-zinc-500"
+                          }`}
+                        >
+                          Expires {new Date(user.expiresAt).toLocaleDateString()}
+                        </div>
+                      )}
                     </div>
-                    <div className="text-sm text-gray-600 dark:text-zinc-400">
-                      {user.userEmail}
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs px-2 py-1 rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 capitalize">
+                        {user.accessLevel}
+                      </span>
+                      {onRenewAccess && (
+                        <button
+                          onClick={() => handleStartRenew(user)}
+                          className="p-2 hover:bg-gray-100 dark:hover:bg-zinc-800 rounded transition-colors"
+                          title="Renew access"
+                        >
+                          <RefreshCw className="w-4 h-4 text-gray-600 dark:text-zinc-400" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRevokeAccess(user.userId)}
+                        className="p-2 hover:bg-red-50 dark:hover:bg-red-950 rounded transition-colors"
+                        title="Remove access"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
+                      </button>
                     </div>
-                    {user.departmentName && (
-                      <div className="text-xs text-gray-500 dark:text-zinc-500">
-                        {user.departmentName}
-                      </div>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs px-2 py-1 rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 capitalize">
-                      {user.accessLevel}
-                    </span>
-                    <button
-                      onClick={() => handleRevokeAccess(user.userId)}
-                      className="p-2 hover:bg-red-50 dark:hover:bg-red-950 rounded transition-colors"
-                      title="Remove access"
-                    >
-                      <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
-                    </button>
                   </div>
+
+                  {/* Renew form */}
+                  {renewingUserId === user.userId && (
+                    <div className="flex items-center gap-2 pl-13 pb-2">
+                      <Input
+                        type="date"
+                        min={toDateInputValue(now)}
+                        value={renewDate}
+                        onChange={(e) => setRenewDate(e.target.value)}
+                        className="h-9 w-[170px] bg-white dark:bg-zinc-950 border-zinc-300 dark:border-zinc-700"
+                      />
+                      <Button
+                        onClick={() => handleRenewAccess(user.userId)}
+                        disabled={processingId === user.userId}
+                        className="h-9 bg-blue-600 hover:bg-blue-700 text-white"
+                      >
+                        {processingId === user.userId
+                          ? "Saving..."
+                          : renewDate
+                            ? "Renew"
+                            : "Remove expiry"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => setRenewingUserId(null)}
+                        className="h-9 border-zinc-300 dark:border-zinc-700"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
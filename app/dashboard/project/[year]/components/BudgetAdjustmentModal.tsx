@@ -0,0 +1,212 @@
+// app/dashboard/project/[year]/components/BudgetAdjustmentModal.tsx
+
+"use client";
+
+import { useState } from "react";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BudgetItem } from "../types";
+
+export type BudgetAdjustmentType = "realignment" | "supplemental";
+
+export interface BudgetAdjustmentFormData {
+  type: BudgetAdjustmentType;
+  sourceBudgetItemId?: Id<"budgetItems">;
+  sourceDescription?: string;
+  destinationBudgetItemId: Id<"budgetItems">;
+  amount: number;
+  legalBasis: string;
+  justification?: string;
+}
+
+interface BudgetAdjustmentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: BudgetAdjustmentFormData) => Promise<void>;
+  budgetItems: BudgetItem[];
+}
+
+export function BudgetAdjustmentModal({
+  open,
+  onOpenChange,
+  onSubmit,
+  budgetItems,
+}: BudgetAdjustmentModalProps) {
+  const [type, setType] = useState<BudgetAdjustmentType>("realignment");
+  const [sourceId, setSourceId] = useState("");
+  const [sourceDescription, setSourceDescription] = useState("");
+  const [destinationId, setDestinationId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [legalBasis, setLegalBasis] = useState("");
+  const [justification, setJustification] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isValid =
+    !!destinationId &&
+    parseFloat(amount) > 0 &&
+    !!legalBasis.trim() &&
+    (type === "realignment" ? !!sourceId && sourceId !== destinationId : !!sourceDescription.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        type,
+        sourceBudgetItemId: type === "realignment" ? (sourceId as Id<"budgetItems">) : undefined,
+        sourceDescription: type === "supplemental" ? sourceDescription.trim() : undefined,
+        destinationBudgetItemId: destinationId as Id<"budgetItems">,
+        amount: parseFloat(amount),
+        legalBasis: legalBasis.trim(),
+        justification: justification.trim() || undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating budget adjustment:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Budget Adjustment</DialogTitle>
+          <DialogDescription>
+            Saved as a draft. Allocations only change after the request is reviewed and approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as BudgetAdjustmentType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="realignment">Realignment</SelectItem>
+                <SelectItem value="supplemental">Supplemental Budget</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "realignment" ? (
+            <div className="space-y-2">
+              <Label>From Budget Item</Label>
+              <Select value={sourceId} onValueChange={setSourceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select source" />
+                </SelectTrigger>
+                <SelectContent>
+                  {budgetItems.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.particular} (₱{item.totalBudgetAllocated.toLocaleString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="sourceDescription">Funding Source</Label>
+              <Input
+                id="sourceDescription"
+                value={sourceDescription}
+                onChange={(e) => setSourceDescription(e.target.value)}
+                placeholder="e.g., Unappropriated surplus"
+                required
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>To Budget Item</Label>
+            <Select value={destinationId} onValueChange={setDestinationId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select destination" />
+              </SelectTrigger>
+              <SelectContent>
+                {budgetItems
+                  .filter((item) => type !== "realignment" || item.id !== sourceId)
+                  .map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.particular}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjustmentAmount">Amount</Label>
+              <Input
+                id="adjustmentAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="legalBasis">SB Resolution No.</Label>
+              <Input
+                id="legalBasis"
+                value={legalBasis}
+                onChange={(e) => setLegalBasis(e.target.value)}
+                placeholder="e.g., SB Res. No. 2025-041"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="justification">Justification (optional)</Label>
+            <Textarea
+              id="justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!isValid || isSubmitting}
+              className="bg-[#15803D] hover:bg-[#166534] text-white"
+            >
+              {isSubmitting ? "Saving..." : "Save Draft"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,283 @@
+// app/dashboard/project/[year]/components/BudgetAdjustmentsPanel.tsx
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { ArrowRight, Plus } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BudgetItem } from "../types";
+import { BudgetAdjustmentModal, BudgetAdjustmentFormData } from "./BudgetAdjustmentModal";
+
+interface BudgetAdjustmentsPanelProps {
+  year: number;
+  budgetItems: BudgetItem[];
+}
+
+type AdjustmentStatus = Doc<"budgetAdjustments">["status"];
+
+const STATUS_STYLES: Record<AdjustmentStatus, string> = {
+  draft: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+  submitted: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  reviewed: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Please try again.";
+
+export function BudgetAdjustmentsPanel({ year, budgetItems }: BudgetAdjustmentsPanelProps) {
+  const adjustments = useQuery(api.budgetAdjustments.list, { year });
+  const permissions = useQuery(api.budgetAdjustments.getMyPermissions, {});
+
+  const createAdjustment = useMutation(api.budgetAdjustments.create);
+  const submitAdjustment = useMutation(api.budgetAdjustments.submit);
+  const reviewAdjustment = useMutation(api.budgetAdjustments.review);
+  const approveAdjustment = useMutation(api.budgetAdjustments.approve);
+  const rejectAdjustment = useMutation(api.budgetAdjustments.reject);
+  const removeAdjustment = useMutation(api.budgetAdjustments.remove);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [rejectTarget, setRejectTarget] = useState<Id<"budgetAdjustments"> | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const currency = useMemo(
+    () =>
+      new Intl.NumberFormat("en-PH", {
+        style: "currency",
+        currency: "PHP",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  // Original vs current allocation across the year
+  const totals = useMemo(() => {
+    const current = budgetItems.reduce((sum, item) => sum + item.totalBudgetAllocated, 0);
+    const original = budgetItems.reduce(
+      (sum, item) => sum + (item.originalBudgetAllocated ?? item.totalBudgetAllocated),
+      0
+    );
+    return { original, adjusted: current - original, current };
+  }, [budgetItems]);
+
+  const isOwnRequest = (adjustment: Doc<"budgetAdjustments">) =>
+    adjustment.createdBy === permissions?.userId || adjustment.submittedBy === permissions?.userId;
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      await action();
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error("Action failed", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleCreate = async (data: BudgetAdjustmentFormData) => {
+    try {
+      await createAdjustment(data);
+      toast.success("Adjustment saved as draft");
+    } catch (error) {
+      toast.error("Failed to create adjustment", { description: getErrorMessage(error) });
+      throw error;
+    }
+  };
+
+  const handleConfirmReject = async () => {
+    if (!rejectTarget) return;
+    await runAction(
+      () => rejectAdjustment({ id: rejectTarget, reason: rejectReason }),
+      "Adjustment rejected"
+    );
+    setRejectTarget(null);
+    setRejectReason("");
+  };
+
+  return (
+    <Card className="p-5 mb-6 no-print">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            Supplemental Budgets & Realignments
+          </h2>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            Allocations change only when a request is approved
+          </p>
+        </div>
+        {permissions?.canSubmit && (
+          <Button
+            size="sm"
+            onClick={() => setIsFormOpen(true)}
+            className="text-white"
+            style={{ backgroundColor: "#15803D" }}
+          >
+            <Plus className="w-4 h-4" />
+            New Request
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 border border-zinc-200 dark:border-zinc-800">
+          <p className="text-xs font-medium text-zinc-600 dark:text-zinc-400">Original Allocation</p>
+          <p className="text-xl font-bold text-zinc-900 dark:text-white">{currency.format(totals.original)}</p>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 border border-zinc-200 dark:border-zinc-800">
+          <p className="text-xs font-medium text-zinc-600 dark:text-zinc-400">Adjustments</p>
+          <p className="text-xl font-bold text-zinc-900 dark:text-white">
+            {totals.adjusted >= 0 ? "+" : "−"}
+            {currency.format(Math.abs(totals.adjusted))}
+          </p>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 border border-zinc-200 dark:border-zinc-800">
+          <p className="text-xs font-medium text-zinc-600 dark:text-zinc-400">Current Allocation</p>
+          <p className="text-xl font-bold text-zinc-900 dark:text-white">{currency.format(totals.current)}</p>
+        </div>
+      </div>
+
+      {adjustments === undefined ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">Loading requests...</p>
+      ) : adjustments.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">No adjustment requests for {year}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400 border-b border-zinc-200 dark:border-zinc-800">
+                <th className="py-2 pr-3 font-medium">Type</th>
+                <th className="py-2 pr-3 font-medium">From → To</th>
+                <th className="py-2 pr-3 font-medium text-right">Amount</th>
+                <th className="py-2 pr-3 font-medium">Legal Basis</th>
+                <th className="py-2 pr-3 font-medium">Status</th>
+                <th className="py-2 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {adjustments.map((adjustment) => (
+                <tr key={adjustment._id} className="border-b border-zinc-100 dark:border-zinc-800/60">
+                  <td className="py-2 pr-3 capitalize text-zinc-700 dark:text-zinc-300">{adjustment.type}</td>
+                  <td className="py-2 pr-3 text-zinc-900 dark:text-zinc-100">
+                    <span className="flex items-center gap-1">
+                      {adjustment.sourceParticulars || adjustment.sourceDescription || "—"}
+                      <ArrowRight className="w-3 h-3 text-zinc-400" />
+                      {adjustment.destinationParticulars}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 text-right font-medium text-zinc-900 dark:text-zinc-100">
+                    {currency.format(adjustment.amount)}
+                  </td>
+                  <td className="py-2 pr-3 text-zinc-700 dark:text-zinc-300">{adjustment.legalBasis}</td>
+                  <td className="py-2 pr-3">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${STATUS_STYLES[adjustment.status]}`}
+                      title={adjustment.rejectionReason || adjustment.reviewRemarks}
+                    >
+                      {adjustment.status}
+                    </span>
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end gap-2 text-xs">
+                      {adjustment.status === "draft" && permissions?.canSubmit && (
+                        <>
+                          <button
+                            onClick={() => runAction(() => submitAdjustment({ id: adjustment._id }), "Submitted for review")}
+                            className="text-[#15803D] font-semibold hover:underline"
+                          >
+                            Submit
+                          </button>
+                          <button
+                            onClick={() => runAction(() => removeAdjustment({ id: adjustment._id }), "Draft deleted")}
+                            className="text-red-600 dark:text-red-400 hover:underline"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                      {adjustment.status === "submitted" && permissions?.canReview && !isOwnRequest(adjustment) && (
+                        <button
+                          onClick={() => runAction(() => reviewAdjustment({ id: adjustment._id }), "Marked as reviewed")}
+                          className="text-[#15803D] font-semibold hover:underline"
+                        >
+                          Review
+                        </button>
+                      )}
+                      {adjustment.status === "reviewed" && permissions?.canApprove && !isOwnRequest(adjustment) && (
+                        <button
+                          onClick={() =>
+                            runAction(() => approveAdjustment({ id: adjustment._id }), "Approved — allocations updated")
+                          }
+                          className="text-[#15803D] font-semibold hover:underline"
+                        >
+                          Approve
+                        </button>
+                      )}
+                      {((adjustment.status === "submitted" && permissions?.canReview) ||
+                        (adjustment.status === "reviewed" && permissions?.canApprove)) && (
+                        <button
+                          onClick={() => setRejectTarget(adjustment._id)}
+                          className="text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Reject
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <BudgetAdjustmentModal
+          open={isFormOpen}
+          onOpenChange={setIsFormOpen}
+          onSubmit={handleCreate}
+          budgetItems={budgetItems}
+        />
+      )}
+
+      <Dialog open={rejectTarget !== null} onOpenChange={(open) => !open && setRejectTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Request</DialogTitle>
+            <DialogDescription>The reason is shown to the requester.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Reason for rejection..."
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRejectTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmReject}
+              disabled={!rejectReason.trim()}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
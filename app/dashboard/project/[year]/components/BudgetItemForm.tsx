@@ -461,6 +461,7 @@ export function BudgetItemForm({
                     placeholder="0"
                     className="bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 pl-8"
                     value={displayAllocated}
+                    disabled={!!item}
                     onChange={(e) => {
                       const value = e.target.value;
                       const formatted = formatNumberWithCommas(value);
@@ -480,6 +481,11 @@ export function BudgetItemForm({
                   />
                 </div>
               </FormControl>
+              {item && (
+                <FormDescription className="text-zinc-500 dark:text-zinc-400">
+                  Allocation changes go through a supplemental budget or realignment request.
+                </FormDescription>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -38,6 +38,7 @@ export default function BudgetShareModal({
   const updateRequestStatus = useMutation(api.accessRequests.updateStatus);
   const grantAccess = useMutation(api.budgetSharedAccess.grantAccess);
   const revokeAccess = useMutation(api.budgetSharedAccess.revokeAccess);
+  const renewAccess = useMutation(api.budgetSharedAccess.renewAccess);
   
   // State
   const [processingId, setProcessingId] = useState<string | null>(null);
@@ -52,6 +53,7 @@ export default function BudgetShareModal({
       userId: user.userId,
       accessLevel: user.accessLevel,
       notes: `Access granted via share dialog`,
+      expiresAt: user.expiresAt,
     });
   };
 
@@ -59,6 +61,10 @@ export default function BudgetShareModal({
     await revokeAccess({ userId });
   };
 
+  const handleRenewAccess = async (userId: Id<"users">, expiresAt?: number) => {
+    await renewAccess({ userId, expiresAt });
+  };
+
   const handleApproveRequest = async (requestId: Id<"accessRequests">) => {
     await updateRequestStatus({
       requestId,
@@ -88,6 +94,7 @@ export default function BudgetShareModal({
       usersWithAccess={usersWithAccess}
       onGrantAccess={handleGrantAccess}
       onRevokeAccess={handleRevokeAccess}
+      onRenewAccess={handleRenewAccess}
       onApproveRequest={handleApproveRequest}
       onRejectRequest={handleRejectRequest}
       savingAccess={savingAccess}
@@ -3,7 +3,7 @@
 "use client";
 
 import React from "react";
-import { Search, CheckCircle2, Trash2, Share2, X, Download, Printer, FileSpreadsheet, Calculator } from "lucide-react";
+import { Search, CheckCircle2, Trash2, Share2, X, Download, Printer, FileSpreadsheet, FileText, Calculator } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -15,6 +15,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 import { BudgetColumnVisibilityMenu } from "./table/BudgetColumnVisibilityMenu";
 
 interface BudgetTableToolbarProps {
@@ -35,6 +36,7 @@ interface BudgetTableToolbarProps {
   
   // Export/Print
   onExportCSV: () => void;
+  onExportReport?: (format: ReportFormat) => void;
   onPrint: () => void;
   
   // Actions
@@ -64,6 +66,7 @@ export function BudgetTableToolbar({
   onShowAllColumns,
   onHideAllColumns,
   onExportCSV,
+  onExportReport,
   onPrint,
   isAdmin,
   pendingRequestsCount,
@@ -185,6 +188,16 @@ export function BudgetTableToolbar({
             <DropdownMenuItem onClick={onExportCSV} className="cursor-pointer">
               <FileSpreadsheet className="w-4 h-4 mr-2" /> Export CSV
             </DropdownMenuItem>
+            {onExportReport && (
+              <>
+                <DropdownMenuItem onClick={() => onExportReport("xlsx")} className="cursor-pointer">
+                  <FileSpreadsheet className="w-4 h-4 mr-2" /> Excel Report (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExportReport("pdf")} className="cursor-pointer">
+                  <FileText className="w-4 h-4 mr-2" /> PDF Report
+                </DropdownMenuItem>
+              </>
+            )}
             <DropdownMenuSeparator />
             <div className="p-2">
               <span className="text-[10px] text-zinc-500 leading-tight block">
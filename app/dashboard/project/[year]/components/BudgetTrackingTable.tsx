@@ -18,6 +18,8 @@ import { BudgetTableTotalsRow } from "./table/BudgetTableTotalsRow";
 import { BudgetTableEmptyState } from "./table/BudgetTableEmptyState";
 import { BudgetContextMenu } from "./table/BudgetContextMenu";
 import { BudgetBulkToggleDialog } from "./BudgetBulkToggleDialog";
+import { ReportExportModal } from "@/components/ReportExportModal";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 import { Id } from "@/convex/_generated/dataModel";
 import { toast } from "sonner";
 import {
@@ -46,6 +48,7 @@ import { STORAGE_KEYS, TIMEOUTS, BUDGET_TABLE_COLUMNS } from "@/app/dashboard/pr
 
 interface BudgetTrackingTableProps {
   budgetItems: BudgetItem[];
+  year?: number;
   onAdd?: (
     item: Omit<
       BudgetItem,
@@ -76,6 +79,7 @@ interface BudgetTrackingTableProps {
 
 export function BudgetTrackingTable({
   budgetItems,
+  year,
   onAdd,
   onEdit,
   onDelete,
@@ -98,6 +102,7 @@ export function BudgetTrackingTable({
   // ============================================================================
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showHideAllWarning, setShowHideAllWarning] = useState(false);
@@ -619,6 +624,7 @@ export function BudgetTrackingTable({
           onShowAllColumns={handleShowAllColumns}
           onHideAllColumns={handleHideAllColumns}
           onExportCSV={handleExportCSV}
+          onExportReport={setReportFormat}
           onPrint={handlePrint}
           isAdmin={isAdmin}
           pendingRequestsCount={pendingRequestsCount}
@@ -783,6 +789,18 @@ export function BudgetTrackingTable({
           onClose={() => setShowShareModal(false)}
         />
       )}
+      {reportFormat && (
+        <ReportExportModal
+          isOpen={reportFormat !== null}
+          onClose={() => setReportFormat(null)}
+          format={reportFormat}
+          config={{
+            report: "budget",
+            year,
+            hiddenColumns: Array.from(hiddenColumns),
+          }}
+        />
+      )}
       
       {/* Hide All Columns Warning */}
       <ConfirmationModal
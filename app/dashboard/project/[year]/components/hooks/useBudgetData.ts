@@ -14,6 +14,7 @@ export function useBudgetData() {
       id: item._id,
       particular: item.particulars,
       totalBudgetAllocated: item.totalBudgetAllocated,
+      originalBudgetAllocated: item.originalBudgetAllocated,
       obligatedBudget: item.obligatedBudget,
       totalBudgetUtilized: item.totalBudgetUtilized,
       utilizationRate: item.utilizationRate,
@@ -98,6 +98,12 @@ export function BudgetTableRow({
           <span className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
             ₱{item.totalBudgetAllocated.toLocaleString()}
           </span>
+          {item.originalBudgetAllocated !== undefined &&
+            item.originalBudgetAllocated !== item.totalBudgetAllocated && (
+              <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                Original ₱{item.originalBudgetAllocated.toLocaleString()}
+              </span>
+            )}
         </td>
       )}
 
@@ -9,6 +9,7 @@ import AccessDeniedPage from "@/components/AccessDeniedPage";
 import { TrashBinModal } from "@/components/TrashBinModal";
 import BudgetStatistics from "./components/BudgetStatistics";
 import { BudgetTrackingTable } from "./components/BudgetTrackingTable";
+import { BudgetAdjustmentsPanel } from "./components/BudgetAdjustmentsPanel";
 import { 
   ExpandModal, 
   LoadingState, 
@@ -122,6 +123,7 @@ export default function YearBudgetPage({ params }: PageProps) {
       <div className="mb-6">
         <BudgetTrackingTable
           budgetItems={yearFilteredItems}
+          year={isNaN(year) ? undefined : year}
           onAdd={handleAdd}
           onEdit={handleEdit}
           onDelete={handleDelete}
@@ -140,6 +142,8 @@ export default function YearBudgetPage({ params }: PageProps) {
         />
       </div>
 
+      <BudgetAdjustmentsPanel year={year} budgetItems={yearFilteredItems} />
+
       <TrashBinModal
         isOpen={showTrashModal}
         onClose={() => setShowTrashModal(false)}
@@ -11,6 +11,7 @@ export interface BudgetItem {
   id: string;
   particular: string;
   totalBudgetAllocated: number;
+  originalBudgetAllocated?: number;
   obligatedBudget?: number;
   totalBudgetUtilized: number;
   utilizationRate: number;
@@ -28,6 +29,7 @@ export interface BudgetItemFromDB {
   _id: Id<"budgetItems">;
   particulars: string;
   totalBudgetAllocated: number;
+  originalBudgetAllocated?: number;
   obligatedBudget?: number;
   totalBudgetUtilized: number;
   utilizationRate: number;
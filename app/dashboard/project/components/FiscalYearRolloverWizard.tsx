@@ -0,0 +1,386 @@
+// app/dashboard/project/components/FiscalYearRolloverWizard.tsx
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useRouter } from "next/navigation";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { ArrowRight, CheckCircle2, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useAccentColor } from "@/contexts/AccentColorContext";
+
+interface FiscalYearRolloverWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fromYear: number;
+  /** Existing fiscal years (only later years can be rollover targets) */
+  availableYears: number[];
+}
+
+type WizardStep = "select" | "review" | "done";
+
+interface RolloverResult {
+  budgetItemsCreated: number;
+  projectsCreated: number;
+  breakdownsCreated: number;
+  continuingAppropriation: number;
+}
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export function FiscalYearRolloverWizard({
+  isOpen,
+  onClose,
+  fromYear,
+  availableYears,
+}: FiscalYearRolloverWizardProps) {
+  const { accentColorValue } = useAccentColor();
+  const router = useRouter();
+
+  const targetYears = useMemo(
+    () => availableYears.filter((y) => y > fromYear).sort((a, b) => a - b),
+    [availableYears, fromYear]
+  );
+
+  const [step, setStep] = useState<WizardStep>("select");
+  const [toYear, setToYear] = useState<number | null>(targetYears[0] ?? null);
+  const [selectedIds, setSelectedIds] = useState<Set<Id<"budgetItems">>>(new Set());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<RolloverResult | null>(null);
+
+  const preview = useQuery(api.fiscalYears.previewRollover, { fromYear });
+  const rollover = useMutation(api.fiscalYears.rollover);
+
+  const eligible = useMemo(
+    () => (preview || []).filter((item) => item.alreadyRolledOverTo === undefined),
+    [preview]
+  );
+  const selectedItems = eligible.filter((item) => selectedIds.has(item.budgetItemId));
+  const selectedTotals = selectedItems.reduce(
+    (acc, item) => ({
+      projects: acc.projects + item.projects.length,
+      breakdowns: acc.breakdowns + item.projects.reduce((sum, p) => sum + p.breakdownCount, 0),
+      amount: acc.amount + item.continuingAppropriation,
+    }),
+    { projects: 0, breakdowns: 0, amount: 0 }
+  );
+
+  const toggleItem = (id: Id<"budgetItems">) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      selectedIds.size === eligible.length
+        ? new Set()
+        : new Set(eligible.map((item) => item.budgetItemId))
+    );
+  };
+
+  const handleRollover = async () => {
+    if (!toYear) return;
+    setIsSubmitting(true);
+    try {
+      const response = await rollover({
+        fromYear,
+        toYear,
+        budgetItemIds: selectedItems.map((item) => item.budgetItemId),
+      });
+      setResult(response);
+      setStep("done");
+      toast.success("Rollover complete", {
+        description: `${response.budgetItemsCreated} budget item(s) carried into ${toYear}`,
+      });
+    } catch (error) {
+      console.error("Error rolling over fiscal year:", error);
+      toast.error("Rollover failed", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderSelectStep = () => {
+    if (targetYears.length === 0) {
+      return (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 py-4">
+          There is no fiscal year after {fromYear} yet. Create fiscal year {fromYear + 1} first,
+          then come back to roll this year over.
+        </p>
+      );
+    }
+
+    if (preview === undefined) {
+      return (
+        <div className="flex items-center gap-2 py-8 justify-center text-sm text-zinc-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading budget items...
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-zinc-700 dark:text-zinc-300">Roll into</span>
+          <Select
+            value={toYear?.toString()}
+            onValueChange={(value) => setToYear(parseInt(value))}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue placeholder="Year" />
+            </SelectTrigger>
+            <SelectContent>
+              {targetYears.map((year) => (
+                <SelectItem key={year} value={year.toString()}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {preview.length === 0 ? (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400 py-4">
+            No budget items found for {fromYear}.
+          </p>
+        ) : (
+          <div className="border border-zinc-200 dark:border-zinc-800 rounded-lg divide-y divide-zinc-200 dark:divide-zinc-800 max-h-[50vh] overflow-y-auto">
+            <label className="flex items-center gap-3 px-4 py-2 bg-zinc-50 dark:bg-zinc-900 text-xs font-medium text-zinc-600 dark:text-zinc-400 cursor-pointer">
+              <Checkbox
+                checked={eligible.length > 0 && selectedIds.size === eligible.length}
+                onCheckedChange={toggleAll}
+                disabled={eligible.length === 0}
+              />
+              Select all ({eligible.length})
+            </label>
+            {preview.map((item) => {
+              const isRolledOver = item.alreadyRolledOverTo !== undefined;
+              return (
+                <label
+                  key={item.budgetItemId}
+                  className={`flex items-start gap-3 px-4 py-3 ${
+                    isRolledOver ? "opacity-60" : "cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  }`}
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selectedIds.has(item.budgetItemId)}
+                    onCheckedChange={() => toggleItem(item.budgetItemId)}
+                    disabled={isRolledOver}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                        {item.particulars}
+                      </span>
+                      <span className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+                        {formatCurrency(item.continuingAppropriation)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {isRolledOver
+                        ? `Already rolled over to ${item.alreadyRolledOverTo}`
+                        : `${item.projects.length} of ${item.totalProjects} project(s) carried forward`}
+                    </p>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderReviewStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 border border-zinc-200 dark:border-zinc-800 text-center">
+          <div className="text-xl font-bold text-zinc-900 dark:text-zinc-100">{selectedItems.length}</div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">Budget Items</div>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 border border-zinc-200 dark:border-zinc-800 text-center">
+          <div className="text-xl font-bold text-zinc-900 dark:text-zinc-100">{selectedTotals.projects}</div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">Projects</div>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 border border-zinc-200 dark:border-zinc-800 text-center">
+          <div className="text-xl font-bold text-zinc-900 dark:text-zinc-100">{selectedTotals.breakdowns}</div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">Breakdowns</div>
+        </div>
+      </div>
+
+      <div className="max-h-[40vh] overflow-y-auto space-y-3">
+        {selectedItems.map((item) => (
+          <div key={item.budgetItemId} className="border border-zinc-200 dark:border-zinc-800 rounded-lg p-3">
+            <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 mb-2">{item.particulars}</p>
+            {item.projects.length === 0 ? (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                No unfinished projects — the budget item is cloned with a zero allocation.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {item.projects.map((project) => (
+                  <li key={project.projectId} className="flex justify-between gap-2 text-xs">
+                    <span className="text-zinc-700 dark:text-zinc-300 truncate">
+                      {project.particulars}{" "}
+                      <span className="text-zinc-400">
+                        ({project.implementingOffice}, {project.status})
+                      </span>
+                    </span>
+                    <span className="text-zinc-900 dark:text-zinc-100 shrink-0">
+                      {formatCurrency(project.unspentBalance)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between text-sm font-semibold text-zinc-900 dark:text-zinc-100 border-t border-zinc-200 dark:border-zinc-800 pt-3">
+        <span>Continuing appropriation into {toYear}</span>
+        <span>{formatCurrency(selectedTotals.amount)}</span>
+      </div>
+    </div>
+  );
+
+  const renderDoneStep = () => (
+    <div className="text-center py-4 space-y-2">
+      <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/30">
+        <CheckCircle2 className="h-6 w-6 text-green-600 dark:text-green-400" />
+      </div>
+      <p className="text-sm text-zinc-700 dark:text-zinc-300">
+        Created {result?.budgetItemsCreated} budget item(s), {result?.projectsCreated} project(s) and{" "}
+        {result?.breakdownsCreated} breakdown(s) in {toYear}.
+      </p>
+      <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+        {formatCurrency(result?.continuingAppropriation || 0)} carried forward
+      </p>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div
+              className="flex h-10 w-10 items-center justify-center rounded-lg"
+              style={{ backgroundColor: `${accentColorValue}20` }}
+            >
+              <RefreshCw className="h-5 w-5" style={{ color: accentColorValue }} />
+            </div>
+            <div>
+              <DialogTitle>Roll Over {fromYear}</DialogTitle>
+              <DialogDescription>
+                {step === "select" && "Choose the budget particulars to carry into the new year"}
+                {step === "review" && `Review what will be created in ${toYear}`}
+                {step === "done" && "Rollover complete"}
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {step === "select" && renderSelectStep()}
+        {step === "review" && renderReviewStep()}
+        {step === "done" && renderDoneStep()}
+
+        <DialogFooter className="gap-2 sm:gap-3">
+          {step === "select" && (
+            <>
+              <Button type="button" variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => setStep("review")}
+                disabled={!toYear || selectedItems.length === 0}
+                className="text-white"
+                style={{ backgroundColor: accentColorValue }}
+              >
+                Review
+              </Button>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <Button type="button" variant="ghost" onClick={() => setStep("select")} disabled={isSubmitting}>
+                Back
+              </Button>
+              <Button
+                onClick={handleRollover}
+                disabled={isSubmitting}
+                className="text-white"
+                style={{ backgroundColor: accentColorValue }}
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Rolling over...
+                  </>
+                ) : (
+                  "Confirm Rollover"
+                )}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button
+                onClick={() => {
+                  router.push(`/dashboard/project/${toYear}`);
+                  onClose();
+                }}
+                className="text-white"
+                style={{ backgroundColor: accentColorValue }}
+              >
+                <span className="flex items-center gap-2">
+                  Go to {toYear} Budget
+                  <ArrowRight className="w-4 h-4" />
+                </span>
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@
 
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Folder, Calendar, Plus, TrendingUp, Package, FolderTree, ChevronDown, MoreVertical, Trash2 } from "lucide-react";
+import { Folder, Calendar, Plus, TrendingUp, Package, FolderTree, ChevronDown, MoreVertical, Trash2, RefreshCw } from "lucide-react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import AccessDeniedPage from "@/components/AccessDeniedPage";
@@ -29,6 +29,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useAccentColor } from "@/contexts/AccentColorContext";
 import { FiscalYearModal } from "./components/FiscalYearModal";
+import { FiscalYearRolloverWizard } from "./components/FiscalYearRolloverWizard";
 import { cn } from "@/lib/utils";
 import { Id } from "@/convex/_generated/dataModel";
 import { toast } from "sonner";
@@ -41,6 +42,7 @@ export default function ProjectDashboardLanding() {
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [yearToDelete, setYearToDelete] = useState<{ id: Id<"fiscalYears">, year: number } | null>(null);
+  const [rolloverYear, setRolloverYear] = useState<number | null>(null);
 
   // Fetch fiscal years
   const fiscalYears = useQuery(api.fiscalYears.list, { includeInactive: false });
@@ -326,6 +328,15 @@ export default function ProjectDashboardLanding() {
                                 </Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setRolloverYear(fiscalYear.year);
+                                  }}
+                                >
+                                  <RefreshCw className="w-4 h-4 mr-2" />
+                                  Roll Over
+                                </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={(e) => handleDeleteClick(e, fiscalYear._id, fiscalYear.year)}
                                   className="text-red-600 focus:text-red-600"
@@ -502,6 +513,16 @@ export default function ProjectDashboardLanding() {
         onSuccess={handleYearCreated}
       />
 
+      {rolloverYear !== null && (
+        <FiscalYearRolloverWizard
+          key={rolloverYear}
+          isOpen={rolloverYear !== null}
+          onClose={() => setRolloverYear(null)}
+          fromYear={rolloverYear}
+          availableYears={sortedYears.map((y) => y.year)}
+        />
+      )}
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
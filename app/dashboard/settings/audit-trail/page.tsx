@@ -0,0 +1,240 @@
+// app/dashboard/settings/audit-trail/page.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useConvex, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { CheckCircle2, Download, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { useCurrentUser } from "@/app/hooks/useCurrentUser";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatDate } from "@/lib/utils";
+
+type VerifyPage = FunctionReturnType<typeof api.auditChain.verify>;
+
+type VerifyResult = Pick<VerifyPage, "checked" | "issues">;
+
+function toDateInputValue(timestamp: number) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export default function AuditTrailPage() {
+  const convex = useConvex();
+  const { isSuperAdmin } = useCurrentUser();
+  const status = useQuery(api.auditChain.getStatus, isSuperAdmin ? {} : "skip");
+
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verifyResult, setVerifyResult] = useState<VerifyResult | null>(null);
+  const [startDate, setStartDate] = useState(() => toDateInputValue(Date.now() - 30 * 86400000));
+  const [endDate, setEndDate] = useState(() => toDateInputValue(Date.now()));
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!isSuperAdmin) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
+            Access Denied
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            Only super admins can verify and export the audit trail.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === undefined) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  const handleVerify = async () => {
+    try {
+      setIsVerifying(true);
+      setVerifyResult(null);
+
+      // Walk the chain a page at a time
+      const result: VerifyResult = { checked: 0, issues: [] };
+      let fromSequence: number | null = 1;
+      while (fromSequence !== null) {
+        const page: VerifyPage = await convex.query(api.auditChain.verify, { fromSequence });
+        result.checked += page.checked;
+        result.issues.push(...page.issues);
+        fromSequence = page.nextSequence;
+      }
+
+      setVerifyResult(result);
+      if (result.issues.length === 0) {
+        toast.success(`Verified ${result.checked} entries`);
+      } else {
+        toast.error(`Found ${result.issues.length} problem${result.issues.length === 1 ? "" : "s"}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to verify audit trail");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    const start = new Date(`${startDate}T00:00:00`).getTime();
+    const end = new Date(`${endDate}T23:59:59.999`).getTime();
+    try {
+      setIsExporting(true);
+      const bundle = await convex.mutation(api.auditChain.exportBundle, {
+        startDate: start,
+        endDate: end,
+      });
+
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `ppdo-audit-bundle-${startDate}-to-${endDate}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${bundle.entries.length} entries`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export audit bundle");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-6">
+        <h1 className="text-3xl sm:text-4xl font-semibold text-zinc-900 dark:text-zinc-100 mb-1">
+          Audit Trail
+        </h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Every activity log entry is chained to the one before it, so edited or deleted
+          records can be detected
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">Entries</p>
+            <p className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100">
+              {status.length.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">Recording Since</p>
+            <p className="text-sm text-zinc-900 dark:text-zinc-100">
+              {status.startedAt ? formatDate(status.startedAt) : "No entries yet"}
+            </p>
+          </div>
+          <div className="min-w-0">
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">Latest Hash</p>
+            <p className="text-xs font-mono text-zinc-900 dark:text-zinc-100 truncate" title={status.headHash}>
+              {status.headHash ?? "—"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6 mb-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Verify Chain</h2>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Checks for missing entries, modified entries and modified or deleted log records
+            </p>
+          </div>
+          <Button onClick={handleVerify} disabled={isVerifying || status.length === 0}>
+            {isVerifying ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            )}
+            {isVerifying ? "Verifying..." : "Verify"}
+          </Button>
+        </div>
+
+        {verifyResult && verifyResult.issues.length === 0 && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            All {verifyResult.checked.toLocaleString()} entries are intact.
+          </div>
+        )}
+
+        {verifyResult && verifyResult.issues.length > 0 && (
+          <div className="rounded-lg border border-red-200 dark:border-red-800 divide-y divide-red-100 dark:divide-red-900 max-h-80 overflow-y-auto">
+            {verifyResult.issues.map((issue, index) => (
+              <div key={index} className="flex items-start gap-2 px-3 py-2 text-sm text-red-700 dark:text-red-400">
+                <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+                {issue.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6">
+        <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Export Signed Bundle</h2>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-4">
+          Chain entries and the records they cover for a date range, signed so auditors can
+          confirm the file was not altered
+        </p>
+
+        {!status.signingConfigured && (
+          <div className="p-3 mb-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-700 dark:text-amber-400">
+            Set AUDIT_SIGNING_SECRET in the Convex environment to enable exports.
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bundleStart">From</Label>
+            <Input
+              id="bundleStart"
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-[170px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bundleEnd">To</Label>
+            <Input
+              id="bundleEnd"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-[170px]"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={isExporting || !status.signingConfigured || !startDate || !endDate}
+          >
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
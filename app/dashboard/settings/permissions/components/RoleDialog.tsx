@@ -0,0 +1,200 @@
+// app/dashboard/settings/permissions/components/RoleDialog.tsx
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+
+type HomeRoute = Doc<"roles">["homeRoute"];
+
+const NO_PARENT = "none";
+
+interface RoleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /**
+   * Role being edited; a new role is created when omitted
+   */
+  role?: Doc<"roles"> | null;
+  roles: Doc<"roles">[];
+}
+
+export function RoleDialog({ open, onClose, role, roles }: RoleDialogProps) {
+  const createRole = useMutation(api.roles.create);
+  const updateRole = useMutation(api.roles.update);
+
+  const [name, setName] = useState(role?.name ?? "");
+  const [description, setDescription] = useState(role?.description ?? "");
+  const [parentRoleId, setParentRoleId] = useState<string>(role?.parentRoleId ?? NO_PARENT);
+  const [homeRoute, setHomeRoute] = useState<HomeRoute>(role?.homeRoute ?? "/dashboard");
+  const [isActive, setIsActive] = useState(role?.isActive ?? true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isSystem = role?.isSystem ?? false;
+  const parentOptions = roles.filter((r) => r.key !== "super_admin" && r._id !== role?._id);
+
+  const handleParentChange = (value: string) => {
+    setParentRoleId(value);
+    // New roles land where their parent does unless changed
+    const parent = roles.find((r) => r._id === value);
+    if (!role && parent) setHomeRoute(parent.homeRoute);
+  };
+
+  const handleSubmit = async () => {
+    const parent = parentRoleId === NO_PARENT ? undefined : (parentRoleId as Id<"roles">);
+    try {
+      setIsSubmitting(true);
+      if (role) {
+        await updateRole({
+          id: role._id,
+          name,
+          description: description || undefined,
+          parentRoleId: parent,
+          homeRoute,
+          isActive,
+        });
+        toast.success("Role updated");
+      } else {
+        await createRole({
+          name,
+          description: description || undefined,
+          parentRoleId: parent,
+          homeRoute,
+        });
+        toast.success("Role created");
+      }
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save role");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{role ? "Edit Role" : "New Role"}</DialogTitle>
+          <DialogDescription>
+            {isSystem
+              ? "Built-in roles can only change their description and landing page."
+              : "A role starts with every permission of the role it inherits from. Adjust it in the matrix below."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="roleName">Name *</Label>
+            <Input
+              id="roleName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Budget Officer"
+              disabled={isSubmitting || isSystem}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="roleDescription">Description</Label>
+            <Textarea
+              id="roleDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Who this role is for"
+              rows={2}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="parentRole">Inherits From</Label>
+              <Select
+                value={parentRoleId}
+                onValueChange={handleParentChange}
+                disabled={isSubmitting || isSystem}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>Nothing</SelectItem>
+                  {parentOptions.map((r) => (
+                    <SelectItem key={r._id} value={r._id}>
+                      {r.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="homeRoute">Landing Page</Label>
+              <Select
+                value={homeRoute}
+                onValueChange={(value: HomeRoute) => setHomeRoute(value)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="/dashboard">Dashboard</SelectItem>
+                  <SelectItem value="/inspector">Inspector app</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {role && !isSystem && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="roleActive">Active</Label>
+                <p className="text-xs text-zinc-500">
+                  Inactive roles grant nothing to the users who hold them
+                </p>
+              </div>
+              <Switch
+                id="roleActive"
+                checked={isActive}
+                onCheckedChange={setIsActive}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !name.trim()}>
+            {isSubmitting ? "Saving..." : role ? "Save Changes" : "Create Role"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+// app/dashboard/settings/permissions/components/RolesPanel.tsx
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { toast } from "sonner";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { RoleDialog } from "./RoleDialog";
+
+type RoleRow = Doc<"roles"> & { parentRoleName?: string };
+
+interface RolesPanelProps {
+  roles: RoleRow[];
+  canEdit: boolean;
+}
+
+export function RolesPanel({ roles, canEdit }: RolesPanelProps) {
+  const removeRole = useMutation(api.roles.remove);
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [selectedRole, setSelectedRole] = useState<RoleRow | null>(null);
+
+  const handleAdd = () => {
+    setSelectedRole(null);
+    setShowDialog(true);
+  };
+
+  const handleEdit = (role: RoleRow) => {
+    setSelectedRole(role);
+    setShowDialog(true);
+  };
+
+  const handleDelete = async (role: RoleRow) => {
+    if (!confirm(`Delete the "${role.name}" role?`)) return;
+    try {
+      await removeRole({ id: role._id });
+      toast.success("Role deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete role");
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 overflow-hidden mb-6">
+      <div className="px-6 py-4 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Roles</h2>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            Assign roles to users from User Management, optionally for a single department
+          </p>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={handleAdd}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Role
+          </Button>
+        )}
+      </div>
+
+      <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {roles.map((role) => (
+          <div key={role._id} className="px-6 py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                {role.name}
+                {role.isSystem && (
+                  <span className="ml-2 text-xs font-normal text-zinc-500">(built-in)</span>
+                )}
+                {!role.isActive && (
+                  <span className="ml-2 text-xs font-normal text-zinc-500">(inactive)</span>
+                )}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                {role.parentRoleName ? `Inherits from ${role.parentRoleName} · ` : ""}
+                Lands on {role.homeRoute === "/inspector" ? "the inspector app" : "the dashboard"}
+                {role.description ? ` · ${role.description}` : ""}
+              </p>
+            </div>
+            {canEdit && (
+              <div className="flex items-center gap-1 shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => handleEdit(role)} title="Edit role">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                {!role.isSystem && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(role)}
+                    title="Delete role"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showDialog && (
+        <RoleDialog
+          key={selectedRole?._id ?? "new"}
+          open={showDialog}
+          onClose={() => setShowDialog(false)}
+          role={selectedRole}
+          roles={roles}
+        />
+      )}
+    </div>
+  );
+}
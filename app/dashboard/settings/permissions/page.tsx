@@ -0,0 +1,265 @@
+// app/dashboard/settings/permissions/page.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { Loader2, RotateCcw } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { useCurrentUser } from "@/app/hooks/useCurrentUser";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RolesPanel } from "./components/RolesPanel";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  budgets: "Budgets",
+  projects: "Projects",
+  breakdowns: "Project Breakdowns",
+  trustFunds: "Trust Funds",
+  administration: "Administration",
+};
+
+export default function PermissionsPage() {
+  const { isAdmin, isSuperAdmin } = useCurrentUser();
+  const matrix = useQuery(
+    api.permissions.getPermissionMatrix,
+    isAdmin || isSuperAdmin ? {} : "skip"
+  );
+  const setRolePermission = useMutation(api.permissions.setRolePermission);
+  const resetRolePermissions = useMutation(api.permissions.resetRolePermissions);
+  const roles = useQuery(api.roles.list, isAdmin || isSuperAdmin ? {} : "skip");
+  const initializeCatalogue = useMutation(
+    api.init.seedPermissionCatalogue.initializePermissionCatalogue
+  );
+  const migrateRoles = useMutation(api.init.migrateRoles.migrateLiteralRoles);
+
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [isSeeding, setIsSeeding] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
+
+  // Authorization check
+  if (!isAdmin && !isSuperAdmin) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
+            Access Denied
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            You don&apos;t have permission to access roles and permissions.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (matrix === undefined || roles === undefined) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  const handleToggle = async (
+    permissionKey: string,
+    role: string,
+    isGranted: boolean
+  ) => {
+    const cell = `${permissionKey}:${role}`;
+    try {
+      setSavingCell(cell);
+      await setRolePermission({ permissionKey, role, isGranted });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update permission");
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  const handleReset = async (permissionKey: string) => {
+    try {
+      setSavingCell(permissionKey);
+      await resetRolePermissions({ permissionKey });
+      toast.success("Restored the default roles");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reset permission");
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  const handleSeed = async () => {
+    try {
+      setIsSeeding(true);
+      const result = await initializeCatalogue({});
+      toast.success(
+        `Seeded ${result.inserted} permission${result.inserted === 1 ? "" : "s"} (${result.skipped} already present)`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to seed permissions");
+    } finally {
+      setIsSeeding(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    try {
+      setIsMigrating(true);
+      const result = await migrateRoles({});
+      toast.success(
+        `Added ${result.inserted} built-in role${result.inserted === 1 ? "" : "s"} and linked ${result.grantsLinked} grant${result.grantsLinked === 1 ? "" : "s"}`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to migrate roles");
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const roleNames = new Map(matrix.roles.map((role) => [role.key, role.name]));
+  const categories = Array.from(new Set(matrix.rows.map((row) => row.category)));
+
+  return (
+    <>
+      {/* Page Header */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1
+              className="text-3xl sm:text-4xl font-semibold text-zinc-900 dark:text-zinc-100 mb-1"
+              style={{ fontFamily: "var(--font-cinzel), serif" }}
+            >
+              Roles &amp; Permissions
+            </h1>
+            <p className="text-zinc-600 dark:text-zinc-400">
+              Choose what each role can do. Super admins always hold every permission.
+            </p>
+          </div>
+          {isSuperAdmin && (
+            <div className="flex gap-2">
+              {roles.length === 0 && (
+                <Button
+                  onClick={handleMigrate}
+                  disabled={isMigrating}
+                  variant="outline"
+                  className="border-zinc-300 dark:border-zinc-700"
+                >
+                  {isMigrating ? "Migrating..." : "Migrate Built-in Roles"}
+                </Button>
+              )}
+              <Button
+                onClick={handleSeed}
+                disabled={isSeeding}
+                variant="outline"
+                className="border-zinc-300 dark:border-zinc-700"
+              >
+                {isSeeding ? "Seeding..." : "Seed Permission Catalogue"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {roles.length > 0 ? (
+        <RolesPanel roles={roles} canEdit={isSuperAdmin} />
+      ) : (
+        <div className="rounded-xl border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/30 px-6 py-4 mb-6">
+          <p className="text-sm text-amber-800 dark:text-amber-300">
+            The built-in roles have not been migrated into the roles table yet. Migrate them
+            to create custom roles.
+          </p>
+        </div>
+      )}
+
+      {categories.map((category) => (
+        <div
+          key={category}
+          className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 overflow-hidden mb-6"
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-950">
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-zinc-700 dark:text-zinc-300 uppercase tracking-wide">
+                    {CATEGORY_LABELS[category] ?? category}
+                  </th>
+                  {matrix.roles.map((role) => (
+                    <th
+                      key={role.key}
+                      className="px-6 py-4 text-center text-xs font-semibold text-zinc-700 dark:text-zinc-300 uppercase tracking-wide w-28"
+                    >
+                      {role.name}
+                    </th>
+                  ))}
+                  <th className="px-6 py-4 w-16"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                {matrix.rows
+                  .filter((row) => row.category === category)
+                  .map((row) => {
+                    const isCustomized = row.roles.some((r) => r.isCustomized);
+                    return (
+                      <tr key={row.key} className={row.isActive ? "" : "opacity-50"}>
+                        <td className="px-6 py-4">
+                          <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                            {row.name}
+                            {!row.isActive && (
+                              <span className="ml-2 text-xs font-normal text-zinc-500">
+                                (inactive)
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                            {row.description}
+                          </p>
+                          <p className="text-xs font-mono text-zinc-400 dark:text-zinc-500 mt-0.5">
+                            {row.key}
+                          </p>
+                        </td>
+                        {row.roles.map((cell) => (
+                          <td key={cell.role} className="px-6 py-4 text-center">
+                            <div className="inline-flex items-center gap-1.5">
+                              <Checkbox
+                                checked={cell.isGranted}
+                                disabled={!isSuperAdmin || savingCell !== null}
+                                onCheckedChange={(checked) =>
+                                  handleToggle(row.key, cell.role, checked === true)
+                                }
+                                aria-label={`${roleNames.get(cell.role)}: ${row.name}`}
+                              />
+                              {cell.isCustomized && (
+                                <span
+                                  className="h-1.5 w-1.5 rounded-full bg-amber-500"
+                                  title="Changed from the default"
+                                />
+                              )}
+                            </div>
+                          </td>
+                        ))}
+                        <td className="px-6 py-4 text-right">
+                          {isSuperAdmin && isCustomized && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleReset(row.key)}
+                              disabled={savingCell !== null}
+                              title="Restore default roles"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
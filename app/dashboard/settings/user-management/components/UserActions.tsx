@@ -12,7 +12,7 @@ import {
   DropdownMenuSubContent,
   DropdownMenuSubTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, Edit, Trash2, UserCheck, UserX, Ban } from "lucide-react";
+import { MoreHorizontal, Edit, Trash2, UserCheck, UserX, Ban, MonitorSmartphone, ShieldCheck } from "lucide-react";
 
 interface User {
   _id: string;
@@ -27,9 +27,11 @@ interface UserActionsProps {
   onEdit: (user: User) => void;
   onDelete: (user: User) => void;
   onUpdateStatus: (user: User, status: "active" | "inactive" | "suspended") => void;
+  onViewSessions: (user: User) => void;
+  onManageRoles: (user: User) => void;
 }
 
-export function UserActions({ user, onEdit, onDelete, onUpdateStatus }: UserActionsProps) {
+export function UserActions({ user, onEdit, onDelete, onUpdateStatus, onViewSessions, onManageRoles }: UserActionsProps) {
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -46,6 +48,16 @@ export function UserActions({ user, onEdit, onDelete, onUpdateStatus }: UserActi
           Edit User
         </DropdownMenuItem>
 
+        <DropdownMenuItem onClick={() => onViewSessions(user)}>
+          <MonitorSmartphone className="mr-2 h-4 w-4" />
+          Sessions &amp; Devices
+        </DropdownMenuItem>
+
+        <DropdownMenuItem onClick={() => onManageRoles(user)}>
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          Additional Roles
+        </DropdownMenuItem>
+
         <DropdownMenuSub>
           <DropdownMenuSubTrigger>
             <UserCheck className="mr-2 h-4 w-4" />
@@ -21,7 +21,7 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Id } from "../../../../../convex/_generated/dataModel";
-import { User, UserFormData } from "../../../../../types/user.types";
+import { DepartmentScope, User, UserFormData } from "../../../../../types/user.types";
 
 interface Department {
   _id: string;
@@ -56,6 +56,7 @@ export function UserModal({
     email: "",
     role: "user",
     departmentId: undefined,
+    departmentScope: "own_department",
     position: "",
     employeeId: "",
     status: "active",
@@ -74,6 +75,7 @@ export function UserModal({
         email: user.email || "",
         role: user.role || "user",
         departmentId: user.departmentId,
+        departmentScope: user.departmentScope || "own_department",
         position: user.position || "",
         employeeId: user.employeeId || "",
         status: user.status || "active",
@@ -88,6 +90,7 @@ export function UserModal({
         email: "",
         role: "user",
         departmentId: undefined,
+        departmentScope: "own_department",
         position: "",
         employeeId: "",
         status: "active",
@@ -267,6 +270,30 @@ export function UserModal({
             </Select>
           </div>
 
+          {/* Data Access (super admins always see every department) */}
+          {formData.role !== "super_admin" && (
+            <div className="space-y-2">
+              <Label htmlFor="departmentScope">Data Access</Label>
+              <Select
+                value={formData.departmentScope}
+                onValueChange={(value: DepartmentScope) => updateField("departmentScope", value)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="own_department">Own department only</SelectItem>
+                  <SelectItem value="department_and_children">Department and sub-departments</SelectItem>
+                  <SelectItem value="all">All departments</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-zinc-500">
+                Which projects, breakdowns and trust funds this user can see and edit
+              </p>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             {/* Position */}
             <div className="space-y-2">
@@ -0,0 +1,197 @@
+// app/dashboard/settings/user-management/components/UserRolesDialog.tsx
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+
+const ALL_DEPARTMENTS = "all";
+
+interface User {
+  _id: string;
+  name?: string;
+  email?: string;
+}
+
+interface Department {
+  _id: string;
+  name: string;
+  code: string;
+}
+
+interface UserRolesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  user?: User | null;
+  departments?: Department[];
+}
+
+export function UserRolesDialog({ open, onClose, user, departments = [] }: UserRolesDialogProps) {
+  const userId = user?._id as Id<"users"> | undefined;
+  const assignments = useQuery(
+    api.roles.listUserRoles,
+    open && userId ? { userId } : "skip"
+  );
+  const roles = useQuery(api.roles.list, open ? {} : "skip");
+  const assignRole = useMutation(api.roles.assignToUser);
+  const unassignRole = useMutation(api.roles.unassignFromUser);
+
+  const [roleId, setRoleId] = useState<string>("");
+  const [departmentId, setDepartmentId] = useState<string>(ALL_DEPARTMENTS);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [removingId, setRemovingId] = useState<Id<"userRoles"> | null>(null);
+
+  // Super Admin is only given through the user's own role
+  const roleOptions = (roles ?? []).filter((role) => role.isActive && role.key !== "super_admin");
+
+  const handleAssign = async () => {
+    if (!userId || !roleId) return;
+    try {
+      setIsAssigning(true);
+      await assignRole({
+        userId,
+        roleId: roleId as Id<"roles">,
+        departmentId:
+          departmentId === ALL_DEPARTMENTS ? undefined : (departmentId as Id<"departments">),
+      });
+      toast.success("Role assigned");
+      setRoleId("");
+      setDepartmentId(ALL_DEPARTMENTS);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to assign role");
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleRemove = async (assignmentId: Id<"userRoles">) => {
+    try {
+      setRemovingId(assignmentId);
+      await unassignRole({ assignmentId });
+      toast.success("Role removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove role");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Additional Roles</DialogTitle>
+          <DialogDescription>
+            Roles <span className="font-semibold">{user?.name || user?.email}</span> holds on
+            top of their user role. A role limited to a department only applies there.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-[40vh] overflow-y-auto rounded-lg border border-zinc-200 dark:border-zinc-800 divide-y divide-zinc-200 dark:divide-zinc-800">
+            {assignments === undefined ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+              </div>
+            ) : assignments.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                No additional roles assigned.
+              </p>
+            ) : (
+              assignments.map((assignment) => (
+                <div
+                  key={assignment._id}
+                  className="px-4 py-3 flex items-center justify-between gap-4"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                      {assignment.roleName ?? "Deleted role"}
+                      {!assignment.roleIsActive && (
+                        <span className="ml-2 text-xs font-normal text-zinc-500">(inactive)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {assignment.departmentName ?? "All departments"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(assignment._id)}
+                    disabled={removingId === assignment._id}
+                    title="Remove role"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="assignRole">Role</Label>
+              <Select value={roleId} onValueChange={setRoleId} disabled={isAssigning}>
+                <SelectTrigger id="assignRole">
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roleOptions.map((role) => (
+                    <SelectItem key={role._id} value={role._id}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assignDepartment">Department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId} disabled={isAssigning}>
+                <SelectTrigger id="assignDepartment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept._id} value={dept._id}>
+                      {dept.name} ({dept.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleAssign} disabled={isAssigning || !roleId}>
+            {isAssigning ? "Assigning..." : "Assign Role"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+// app/dashboard/settings/user-management/components/UserSessionsDialog.tsx
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { SessionList } from "@/components/account/SessionList";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+
+interface User {
+  _id: string;
+  name?: string;
+  email?: string;
+}
+
+interface UserSessionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  user?: User | null;
+}
+
+export function UserSessionsDialog({ open, onClose, user }: UserSessionsDialogProps) {
+  const userId = user?._id as Id<"users"> | undefined;
+  const sessions = useQuery(
+    api.sessions.listUserSessions,
+    open && userId ? { userId } : "skip"
+  );
+  const revokeSession = useMutation(api.sessions.revokeUserSession);
+  const revokeAllSessions = useMutation(api.sessions.revokeAllUserSessions);
+
+  const [revokingId, setRevokingId] = useState<Id<"authSessions"> | null>(null);
+  const [isRevokingAll, setIsRevokingAll] = useState(false);
+
+  const handleRevoke = async (sessionId: Id<"authSessions">) => {
+    try {
+      setRevokingId(sessionId);
+      await revokeSession({ sessionId });
+      toast.success("Session signed out");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to sign out session");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!userId) return;
+    try {
+      setIsRevokingAll(true);
+      const result = await revokeAllSessions({ userId });
+      toast.success(`Signed out ${result.revoked} session${result.revoked === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to sign out sessions");
+    } finally {
+      setIsRevokingAll(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Sessions &amp; Devices</DialogTitle>
+          <DialogDescription>
+            Where <span className="font-semibold">{user?.name || user?.email}</span> is
+            currently signed in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {sessions === undefined ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+            </div>
+          ) : (
+            <SessionList
+              sessions={sessions}
+              onRevoke={handleRevoke}
+              revokingId={revokingId}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            onClick={handleRevokeAll}
+            disabled={isRevokingAll || !sessions || sessions.length === 0}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isRevokingAll ? "Signing out..." : "Sign Out Everywhere"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ export function useUserManagement() {
   const updateUserRole = useMutation(api.userManagement.updateUserRole);
   const updateUserStatus = useMutation(api.userManagement.updateUserStatus);
   const updateUserDepartment = useMutation(api.userManagement.updateUserDepartment);
+  const updateUserDepartmentScope = useMutation(api.userManagement.updateUserDepartmentScope);
   const updateUserProfile = useMutation(api.userManagement.updateUserProfile);
   const deleteUserMutation = useMutation(api.userManagement.deleteUser);
 
@@ -38,6 +39,7 @@ export function useUserManagement() {
         position: data.position,
         employeeId: data.employeeId,
         status: data.status,
+        departmentScope: data.departmentScope,
       });
       
       toast.success("User created successfully");
@@ -150,6 +152,11 @@ export function useUserManagement() {
       if (data.departmentId !== undefined) {
         await updateUserDepartment({ userId, departmentId: data.departmentId });
       }
+
+      // Update data access scope if provided
+      if (data.departmentScope) {
+        await updateUserDepartmentScope({ userId, departmentScope: data.departmentScope });
+      }
       
       toast.success("User updated successfully");
       
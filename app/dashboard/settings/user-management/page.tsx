@@ -11,6 +11,8 @@ import { useUserFilters } from "./hooks/useUserFilters";
 import { useDepartmentManagement } from "./hooks/useDepartmentManagement";
 import { UserModal } from "./components/UserModal";
 import { UserDeleteDialog } from "./components/UserDeleteDialog";
+import { UserSessionsDialog } from "./components/UserSessionsDialog";
+import { UserRolesDialog } from "./components/UserRolesDialog";
 import { DepartmentModal } from "./components/DepartmentModal";
 import { Button } from "@/components/ui/button";
 import { Plus, Loader2, Building2, KeyRound } from "lucide-react";
@@ -58,6 +60,8 @@ export default function UserManagementPage() {
   const [itemsPerPage] = useState(10);
   const [showModal, setShowModal] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showSessionsDialog, setShowSessionsDialog] = useState(false);
+  const [showRolesDialog, setShowRolesDialog] = useState(false);
   const [showDepartmentModal, setShowDepartmentModal] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
 
@@ -83,6 +87,16 @@ export default function UserManagementPage() {
     setShowDeleteDialog(true);
   };
 
+  const handleViewSessions = (user: User) => {
+    setSelectedUser(user);
+    setShowSessionsDialog(true);
+  };
+
+  const handleManageRoles = (user: User) => {
+    setSelectedUser(user);
+    setShowRolesDialog(true);
+  };
+
   const handleModalSubmit = async (data: Partial<UserFormData>) => {
     if (selectedUser) {
       // Updating existing user
@@ -291,6 +305,8 @@ export default function UserManagementPage() {
                         onEdit={handleEditUser}
                         onDelete={handleDeleteUser}
                         onUpdateStatus={handleUpdateStatus}
+                        onViewSessions={handleViewSessions}
+                        onManageRoles={handleManageRoles}
                       />
                     </td>
                   </tr>
@@ -365,6 +381,26 @@ export default function UserManagementPage() {
         isDeleting={isSubmitting}
       />
 
+      <UserSessionsDialog
+        open={showSessionsDialog}
+        onClose={() => {
+          setShowSessionsDialog(false);
+          setSelectedUser(null);
+        }}
+        user={selectedUser}
+      />
+
+      <UserRolesDialog
+        key={selectedUser?._id ?? "none"}
+        open={showRolesDialog}
+        onClose={() => {
+          setShowRolesDialog(false);
+          setSelectedUser(null);
+        }}
+        user={selectedUser}
+        departments={departments}
+      />
+
       <DepartmentModal
         open={showDepartmentModal}
         onClose={() => setShowDepartmentModal(false)}
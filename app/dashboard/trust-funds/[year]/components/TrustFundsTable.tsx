@@ -30,13 +30,18 @@ import {
   MoreVertical,
   Eye,
   Edit,
-  Archive
+  Archive,
+  FileSpreadsheet,
+  FileText
 } from "lucide-react";
 import { Modal } from "@/app/dashboard/project/[year]/components/Modal";
 import { ConfirmationModal } from "@/app/dashboard/project/[year]/components/ConfirmationModal";
+import { TRUST_FUND_TABLE_COLUMNS } from "../constants";
 import { TrustFundForm } from "./TrustFundForm";
 import { TrustFund, convertTrustFundFromDB } from "@/types/trustFund.types";
 import { ActivityLogSheet } from "@/components/ActivityLogSheet";
+import { ReportExportModal } from "@/components/ReportExportModal";
+import type { ReportFormat } from "@/lib/reports/reportDefinitions";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -72,6 +77,7 @@ export function TrustFundsTable({ data, onAdd, onEdit, onDelete, onOpenTrash, ye
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat | null>(null);
   const [selectedItem, setSelectedItem] = useState<TrustFund | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortField, setSortField] = useState<SortField>(null);
@@ -199,7 +205,7 @@ export function TrustFundsTable({ data, onAdd, onEdit, onDelete, onOpenTrash, ye
   const handleExportCSV = () => {
     try {
       // Simple CSV export
-      const headers = ["Project Title", "Office In-Charge", "Date Received", "Received", "Obligated PR", "Utilized", "Balance", "Remarks"];
+      const headers = TRUST_FUND_TABLE_COLUMNS.map(col => col.label);
       const rows = filteredAndSortedData.map(item => [
         item.projectTitle,
         item.officeInCharge,
@@ -287,9 +293,28 @@ export function TrustFundsTable({ data, onAdd, onEdit, onDelete, onOpenTrash, ye
                 <Search className="h-4 w-4" />
               </Button> */}
 
-              <Button variant="outline" size="icon" onClick={() => window.print()}>
-                <Printer className="h-4 w-4" />
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="icon" title="Export / Print">
+                    <Printer className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-52">
+                  <DropdownMenuItem onClick={handlePrint} className="cursor-pointer">
+                    <Printer className="h-4 w-4 mr-2" /> Print
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleExportCSV} className="cursor-pointer">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" /> Export CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setReportFormat("xlsx")} className="cursor-pointer">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" /> Excel Report (.xlsx)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setReportFormat("pdf")} className="cursor-pointer">
+                    <FileText className="h-4 w-4 mr-2" /> PDF Report
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
 
               {onAdd && (
                 <Button
@@ -597,6 +622,15 @@ export function TrustFundsTable({ data, onAdd, onEdit, onDelete, onOpenTrash, ye
           }}
         />
       )}
+
+      {reportFormat && (
+        <ReportExportModal
+          isOpen={reportFormat !== null}
+          onClose={() => setReportFormat(null)}
+          format={reportFormat}
+          config={{ report: "trustFunds", year }}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+// app/dashboard/trust-funds/[year]/constants.ts
+
+/**
+ * Trust fund table columns - shared by CSV export and generated reports
+ */
+export const TRUST_FUND_TABLE_COLUMNS = [
+  { key: "projectTitle", label: "Project Title", align: "left" as const },
+  { key: "officeInCharge", label: "Office In-Charge", align: "left" as const },
+  { key: "dateReceived", label: "Date Received", align: "left" as const },
+  { key: "received", label: "Received", align: "right" as const },
+  { key: "obligatedPR", label: "Obligated PR", align: "right" as const },
+  { key: "utilized", label: "Utilized", align: "right" as const },
+  { key: "balance", label: "Balance", align: "right" as const },
+  { key: "remarks", label: "Remarks", align: "left" as const },
+] as const;
@@ -2,175 +2,51 @@
 
 "use client";
 import Link from "next/link";
-import { useState, useEffect } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useState } from "react";
+import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { toast } from "sonner";
 import { ThemeToggle } from "../../components/ThemeToggle";
 
-interface LocationData {
-  city: string;
-  region: string;
-  country: string;
-  coordinates?: {
-    lat: number;
-    lng: number;
-  };
+/**
+ * Reset requests go through the Next.js server, which adds the client
+ * IP address and location from the request
+ */
+async function postResetRequest(body: { mode: "email" | "admin"; email: string; message?: string }) {
+  const response = await fetch("/api/auth/password-reset", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Request failed");
+  }
+  return result as { success: boolean; message: string };
 }
 
 export default function ForgotPassword() {
   const [email, setEmail] = useState("");
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState(false);
-  const [clientIP, setClientIP] = useState<string>("Unknown");
-  const [locationData, setLocationData] = useState<LocationData | null>(null);
-  const [locationLoading, setLocationLoading] = useState(true);
+  // Emailed link by default; the admin queue is the fallback
+  const [mode, setMode] = useState<"email" | "admin">("email");
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
   
-  const submitResetRequest = useMutation(api.passwordReset.submitPasswordResetRequest);
   const resetStatus = useQuery(
     api.passwordReset.checkResetRequestStatus,
     email ? { email } : "skip"
   );
 
-  // Fetch location data on mount
-  useEffect(() => {
-    async function fetchLocationData() {
-      setLocationLoading(true);
-      
-      // First, try to get IP address
-      let ipAddress = "Unknown";
-      try {
-        const ipResponse = await fetch('https://api.ipify.org?format=json', {
-          signal: AbortSignal.timeout(3000),
-        });
-        if (ipResponse.ok) {
-          const ipData = await ipResponse.json();
-          ipAddress = ipData.ip || 'Unknown';
-          setClientIP(ipAddress);
-        }
-      } catch (error) {
-        try {
-          const ipResponse = await fetch('https://api.my-ip.io/ip', {
-            signal: AbortSignal.timeout(3000),
-          });
-          if (ipResponse.ok) {
-            const ip = await ipResponse.text();
-            ipAddress = ip.trim() || 'Unknown';
-            setClientIP(ipAddress);
-          }
-        } catch (error) {
-          setClientIP('Unknown');
-        }
-      }
-
-      // Try browser geolocation first
-      if ('geolocation' in navigator) {
-        navigator.geolocation.getCurrentPosition(
-          async (position) => {
-            const lat = position.coords.latitude;
-            const lng = position.coords.longitude;
-            
-            try {
-              const geocodeResponse = await fetch(
-                `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`,
-                {
-                  headers: {
-                    'User-Agent': 'YourAppName/1.0',
-                  },
-                  signal: AbortSignal.timeout(5000),
-                }
-              );
-              
-              if (geocodeResponse.ok) {
-                const geocodeData = await geocodeResponse.json();
-                const address = geocodeData.address || {};
-                
-                setLocationData({
-                  city: address.city || address.town || address.village || address.municipality || 'Unknown',
-                  region: address.state || address.province || address.region || 'Unknown',
-                  country: address.country || 'Unknown',
-                  coordinates: { lat, lng }
-                });
-                setLocationLoading(false);
-                return;
-              }
-            } catch (error) {
-              console.log('Reverse geocoding failed, falling back to IP location');
-            }
-            
-            await fetchIPBasedLocation(ipAddress);
-          },
-          async (error) => {
-            console.log('Geolocation denied or failed, using IP-based location');
-            await fetchIPBasedLocation(ipAddress);
-          },
-          {
-            enableHighAccuracy: false,
-            timeout: 5000,
-            maximumAge: 300000,
-          }
-        );
-      } else {
-        await fetchIPBasedLocation(ipAddress);
-      }
-    }
-
-    async function fetchIPBasedLocation(ipAddress: string) {
-      try {
-        const response = await fetch(`https://ipapi.co/${ipAddress}/json/`, {
-          signal: AbortSignal.timeout(5000),
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          setLocationData({
-            city: data.city || 'Unknown',
-            region: data.region || 'Unknown',
-            country: data.country_name || 'Unknown',
-            coordinates: data.latitude && data.longitude ? {
-              lat: data.latitude,
-              lng: data.longitude
-            } : undefined
-          });
-        } else {
-          setLocationData({
-            city: 'Unknown',
-            region: 'Unknown',
-            country: 'Unknown'
-          });
-        }
-      } catch (error) {
-        setLocationData({
-          city: 'Unknown',
-          region: 'Unknown',
-          country: 'Unknown'
-        });
-      }
-      
-      setLocationLoading(false);
-    }
-
-    fetchLocationData();
-  }, []);
-
-  const getUserAgent = () => {
-    if (typeof window !== "undefined") {
-      return window.navigator.userAgent;
-    }
-    return undefined;
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const canSubmitNow = () => {
     if (!email) {
       toast.error("Please enter your email address");
-      return;
+      return false;
     }
 
     if (!resetStatus) {
       toast.error("Loading status... Please try again in a moment.");
-      return;
+      return false;
     }
 
     if (!resetStatus.canSubmit) {
@@ -179,29 +55,42 @@ export default function ForgotPassword() {
       } else if (resetStatus.remainingSeconds && resetStatus.remainingSeconds > 0) {
         toast.error(`Please wait ${resetStatus.remainingSeconds} seconds before submitting another request.`);
       }
-      return;
+      return false;
     }
 
+    return true;
+  };
+
+  const handleEmailLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmitNow()) return;
+
     setLoading(true);
 
     try {
-      const userAgent = getUserAgent();
-      let locationString = "Unknown";
-      if (locationData) {
-        locationString = `${locationData.city}, ${locationData.region}, ${locationData.country}`;
-      }
+      const result = await postResetRequest({ mode: "email", email: email.trim() });
+
+      toast.success(result.message);
+      setLinkSentTo(email.trim());
+    } catch (error) {
+      console.error("Password reset email error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send the reset link. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const result = await submitResetRequest({
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmitNow()) return;
+
+    setLoading(true);
+
+    try {
+      const result = await postResetRequest({
+        mode: "admin",
         email: email.trim(),
         message: message.trim() || undefined,
-        ipAddress: clientIP,
-        userAgent: userAgent,
-        geoLocation: locationData ? JSON.stringify({
-          city: locationData.city,
-          region: locationData.region,
-          country: locationData.country,
-          coordinates: locationData.coordinates
-        }) : undefined,
       });
 
       toast.success(result.message || "Password reset request submitted successfully!");
@@ -354,7 +243,9 @@ export default function ForgotPassword() {
                 Forgot Password
               </h1>
               <p className="text-zinc-600 dark:text-zinc-400">
-                Enter your email to request a password reset
+                {mode === "email"
+                  ? "Enter your email and we'll send you a link to reset your password"
+                  : "Ask an administrator to reset your password"}
               </p>
             </div>
 
@@ -394,8 +285,83 @@ export default function ForgotPassword() {
               </div>
             )}
 
-            {/* Form */}
-            <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Emailed Link */}
+            {mode === "email" && linkSentTo && (
+              <div className="space-y-6">
+                <div className="p-4 rounded-xl bg-green-50 border border-green-200 dark:bg-green-900/20 dark:border-green-800">
+                  <p className="text-sm text-green-700 dark:text-green-300">
+                    If <span className="font-semibold">{linkSentTo}</span> is registered, a reset link is on its way.
+                    The link expires in 30 minutes and works once.
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setLinkSentTo(null)}
+                  className="w-full py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-all"
+                >
+                  Send another link
+                </button>
+              </div>
+            )}
+
+            {mode === "email" && !linkSentTo && (
+              <form onSubmit={handleEmailLinkSubmit} className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-medium text-zinc-900 dark:text-zinc-100 mb-2"
+                  >
+                    Email Address
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    autoComplete="email"
+                    disabled={loading}
+                    className="w-full px-4 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-[#15803d] focus:border-[#15803d] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    placeholder="you@example.com"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={
+                    loading ||
+                    !resetStatus ||
+                    !resetStatus.canSubmit ||
+                    !email
+                  }
+                  className="w-full py-3 rounded-xl bg-[#15803d] hover:bg-[#16a34a] text-white font-medium transition-all hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed relative overflow-hidden"
+                >
+                  <span className="relative z-10">
+                    {loading
+                      ? "Sending..."
+                      : resetStatus && resetStatus.remainingSeconds > 0
+                      ? `Wait ${resetStatus.remainingSeconds}s`
+                      : "Email Me a Reset Link"}
+                  </span>
+                </button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center">
+              <button
+                type="button"
+                onClick={() => setMode(mode === "email" ? "admin" : "email")}
+                className="cursor-pointer text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+              >
+                {mode === "email"
+                  ? "Can't access your email? Ask an administrator instead"
+                  : "Back to emailed reset link"}
+              </button>
+            </div>
+
+            {/* Admin Request Form */}
+            {mode === "admin" && (
+            <form onSubmit={handleSubmit} className="mt-6 space-y-6">
               {/* Email Field */}
               <div>
                 <label
@@ -411,7 +377,7 @@ export default function ForgotPassword() {
                   onChange={(e) => setEmail(e.target.value)}
                   required
                   autoComplete="email"
-                  disabled={loading || locationLoading}
+                  disabled={loading}
                   className="w-full px-4 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-[#15803d] focus:border-[#15803d] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   placeholder="you@example.com"
                 />
@@ -430,7 +396,7 @@ export default function ForgotPassword() {
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
                   rows={4}
-                  disabled={loading || locationLoading}
+                  disabled={loading}
                   className="w-full px-4 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-[#15803d] focus:border-[#15803d] transition-all disabled:opacity-50 disabled:cursor-not-allowed resize-none"
                   placeholder="Tell us why you need to reset your password (optional)"
                 />
@@ -444,7 +410,6 @@ export default function ForgotPassword() {
                 type="submit"
                 disabled={
                   loading || 
-                  locationLoading || 
                   !resetStatus ||
                   !resetStatus.canSubmit ||
                   !email
@@ -454,14 +419,13 @@ export default function ForgotPassword() {
                 <span className="relative z-10">
                   {loading 
                     ? "Submitting..." 
-                    : locationLoading 
-                    ? "Detecting location..." 
                     : resetStatus && resetStatus.remainingSeconds > 0
                     ? `Wait ${resetStatus.remainingSeconds}s`
                     : "Request Password Reset"}
                 </span>
               </button>
             </form>
+            )}
 
             {/* Divider */}
             <div className="mt-8 pt-8 border-t border-zinc-200 dark:border-zinc-700">
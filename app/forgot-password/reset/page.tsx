@@ -0,0 +1,211 @@
+// app/forgot-password/reset/page.tsx
+
+"use client";
+import Link from "next/link";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAction, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { toast } from "sonner";
+import { Eye, EyeOff } from "lucide-react";
+import { ThemeToggle } from "../../../components/ThemeToggle";
+
+const TOKEN_PROBLEMS: Record<string, string> = {
+  expired: "This reset link has expired.",
+  used: "This reset link has already been used.",
+  replaced: "A newer reset link was sent; only the latest one works.",
+  invalid: "This reset link is not valid.",
+};
+
+const PASSWORD_RULES = [
+  { label: "At least 8 characters", test: (value: string) => value.length >= 8 },
+  { label: "An uppercase letter", test: (value: string) => /[A-Z]/.test(value) },
+  { label: "A lowercase letter", test: (value: string) => /[a-z]/.test(value) },
+  { label: "A number", test: (value: string) => /[0-9]/.test(value) },
+  { label: "A symbol (!@#$%^&*)", test: (value: string) => /[!@#$%^&*]/.test(value) },
+];
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const token = useSearchParams().get("token") ?? "";
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const tokenStatus = useQuery(api.passwordReset.getResetTokenStatus, token ? { token } : "skip");
+  const resetPassword = useAction(api.passwordReset.resetPasswordWithToken);
+
+  const meetsRules = PASSWORD_RULES.every((rule) => rule.test(password));
+  const passwordsMatch = password.length > 0 && password === confirmPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!meetsRules || !passwordsMatch) return;
+
+    setLoading(true);
+    try {
+      const result = await resetPassword({ token, newPassword: password });
+      toast.success(result.message);
+      router.push("/signin");
+    } catch (error) {
+      console.error("Password reset error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reset password. Please try again.");
+      setLoading(false);
+    }
+  };
+
+  if (token && tokenStatus === undefined) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+      </div>
+    );
+  }
+
+  if (!token || !tokenStatus?.valid) {
+    return (
+      <div className="space-y-6">
+        <div className="p-4 rounded-xl bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {TOKEN_PROBLEMS[tokenStatus?.reason ?? "invalid"]} Please request a new link.
+          </p>
+        </div>
+        <Link
+          href="/forgot-password"
+          className="block w-full py-3 text-center rounded-xl bg-[#15803d] hover:bg-[#16a34a] text-white font-medium transition-all"
+        >
+          Request a New Link
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        Choose a new password for <span className="font-semibold">{tokenStatus.email}</span>.
+      </p>
+
+      <div>
+        <label
+          htmlFor="password"
+          className="block text-sm font-medium text-zinc-900 dark:text-zinc-100 mb-2"
+        >
+          New Password
+        </label>
+        <div className="relative">
+          <input
+            id="password"
+            type={showPassword ? "text" : "password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete="new-password"
+            disabled={loading}
+            className="w-full px-4 py-3 pr-12 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-[#15803d] focus:border-[#15803d] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            placeholder="••••••••"
+          />
+          <button
+            type="button"
+            onClick={() => setShowPassword(!showPassword)}
+            className="cursor-pointer absolute right-3 top-1/2 -translate-y-1/2 text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 transition-colors focus:outline-none"
+            tabIndex={-1}
+            aria-label={showPassword ? "Hide password" : "Show password"}
+          >
+            {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+          </button>
+        </div>
+        <ul className="mt-3 space-y-1">
+          {PASSWORD_RULES.map((rule) => (
+            <li
+              key={rule.label}
+              className={`text-xs ${
+                rule.test(password) ? "text-green-600 dark:text-green-400" : "text-zinc-500 dark:text-zinc-400"
+              }`}
+            >
+              {rule.test(password) ? "✓" : "•"} {rule.label}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <label
+          htmlFor="confirmPassword"
+          className="block text-sm font-medium text-zinc-900 dark:text-zinc-100 mb-2"
+        >
+          Confirm New Password
+        </label>
+        <input
+          id="confirmPassword"
+          type={showPassword ? "text" : "password"}
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          disabled={loading}
+          className="w-full px-4 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-[#15803d] focus:border-[#15803d] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          placeholder="••••••••"
+        />
+        {confirmPassword && !passwordsMatch && (
+          <p className="mt-2 text-xs text-red-600 dark:text-red-400">Passwords do not match</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading || !meetsRules || !passwordsMatch}
+        className="w-full py-3 rounded-xl bg-[#15803d] hover:bg-[#16a34a] text-white font-medium transition-all hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {loading ? "Resetting..." : "Reset Password"}
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPassword() {
+  return (
+    <main
+      className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden"
+      style={{
+        backgroundImage: `url('/b1.jpg')`,
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+      }}
+    >
+      {/* Dark overlay */}
+      <div className="absolute inset-0 bg-gradient-to-br from-black/50 via-black/60 to-black/50"></div>
+
+      <div className="w-full max-w-md mx-auto rounded-2xl md:rounded-3xl shadow-2xl overflow-hidden relative z-20 p-6 sm:p-8 md:p-12 bg-white/95 dark:bg-zinc-900/95 backdrop-blur-sm">
+        {/* Theme Toggle - Top Right */}
+        <div className="absolute top-4 right-4 md:top-6 md:right-6">
+          <ThemeToggle />
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold text-zinc-900 dark:text-zinc-100 mb-2">
+            Reset Password
+          </h1>
+        </div>
+
+        <Suspense fallback={null}>
+          <ResetPasswordForm />
+        </Suspense>
+
+        <div className="mt-8 pt-8 border-t border-zinc-200 dark:border-zinc-700">
+          <p className="text-center text-sm text-zinc-600 dark:text-zinc-400">
+            Remember your password?{" "}
+            <Link href="/signin">
+              <span className="text-[#15803d] hover:text-[#16a34a] font-medium transition-colors">
+                Sign In
+              </span>
+            </Link>
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
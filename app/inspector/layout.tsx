@@ -6,6 +6,7 @@ import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useConvexAuth, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { TwoFactorGate } from "@/components/account/TwoFactorGate";
 
 function InspectorContent({ children }: { children: React.ReactNode }) {
   const router = useRouter();
@@ -20,8 +21,8 @@ function InspectorContent({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    // Only inspector role can access this route
-    if (currentUser && currentUser.role !== "inspector") {
+    // Only users whose roles land on the inspector app can access this route
+    if (currentUser && currentUser.homeRoute !== "/inspector") {
       router.replace("/dashboard");
       return;
     }
@@ -33,7 +34,7 @@ function InspectorContent({ children }: { children: React.ReactNode }) {
   }
 
   // If not inspector, don't render
-  if (currentUser.role !== "inspector") {
+  if (currentUser.homeRoute !== "/inspector") {
     return null;
   }
 
@@ -49,5 +50,9 @@ export default function InspectorLayout({
 }: {
   children: React.ReactNode;
 }) {
-  return <InspectorContent>{children}</InspectorContent>;
+  return (
+    <TwoFactorGate>
+      <InspectorContent>{children}</InspectorContent>
+    </TwoFactorGate>
+  );
 }
\ No newline at end of file
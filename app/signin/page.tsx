@@ -5,23 +5,14 @@ import { useAuthActions } from "@convex-dev/auth/react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { ThemeToggle } from "../../components/ThemeToggle";
+import { TwoFactorChallenge } from "@/components/account/TwoFactorChallenge";
 import { Eye, EyeOff, AlertCircle } from "lucide-react";
 
-interface LocationData {
-  city: string;
-  region: string;
-  country: string;
-  coordinates?: {
-    lat: number;
-    lng: number;
-  };
-}
-
 // Error type classification for better UX
-type ErrorType = 'invalid_credentials' | 'account_locked' | 'account_suspended' | 'account_inactive' | 'network_error' | 'unknown';
+type ErrorType = 'invalid_credentials' | 'account_locked' | 'account_suspended' | 'account_inactive' | 'access_blocked' | 'network_error' | 'unknown';
 
 interface UserFriendlyError {
   type: ErrorType;
@@ -77,6 +68,16 @@ const parseAuthError = (error: any): UserFriendlyError => {
     };
   }
   
+  // Blocked IP or email (checked by the server before the password)
+  if (errorMessage.includes('has been blocked')) {
+    return {
+      type: 'access_blocked',
+      title: 'Access Blocked',
+      message: error.message,
+      action: 'Contact your administrator if you think this is a mistake.'
+    };
+  }
+  
   // Account locked
   if (
     errorMessage.includes('locked') ||
@@ -173,168 +174,24 @@ export default function SignIn() {
   const { signIn } = useAuthActions();
   const [error, setError] = useState<UserFriendlyError | null>(null);
   const [loading, setLoading] = useState(false);
-  const [clientIP, setClientIP] = useState<string>("Unknown");
-  const [locationData, setLocationData] = useState<LocationData | null>(null);
-  const [locationLoading, setLocationLoading] = useState(true);
   const [showPassword, setShowPassword] = useState(false);
   const router = useRouter();
   
-  // Mutations for login trail tracking
-  const recordSuccessfulLogin = useMutation(api.auth.recordSuccessfulLogin);
-  const recordFailedLogin = useMutation(api.auth.recordFailedLogin);
-  
   // Query to get current user after successful login
   const currentUser = useQuery(api.auth.getCurrentUser);
+  const twoFactorStatus = useQuery(api.twoFactor.getStatus);
 
-  // Fetch location data on mount
-  useEffect(() => {
-    async function fetchLocationData() {
-      setLocationLoading(true);
-      
-      // First, try to get IP address
-      let ipAddress = "Unknown";
-      try {
-        const ipResponse = await fetch('https://api.ipify.org?format=json', {
-          signal: AbortSignal.timeout(3000),
-        });
-        if (ipResponse.ok) {
-          const ipData = await ipResponse.json();
-          ipAddress = ipData.ip || 'Unknown';
-          setClientIP(ipAddress);
-        }
-      } catch (error) {
-        // Try fallback
-        try {
-          const ipResponse = await fetch('https://api.my-ip.io/ip', {
-            signal: AbortSignal.timeout(3000),
-          });
-          if (ipResponse.ok) {
-            const ip = await ipResponse.text();
-            ipAddress = ip.trim() || 'Unknown';
-            setClientIP(ipAddress);
-          }
-        } catch (error) {
-          setClientIP('Unknown');
-        }
-      }
-
-      // Try browser geolocation first
-      if ('geolocation' in navigator) {
-        navigator.geolocation.getCurrentPosition(
-          async (position) => {
-            // Got coordinates, now reverse geocode
-            const lat = position.coords.latitude;
-            const lng = position.coords.longitude;
-            
-            try {
-              // Use a reverse geocoding service
-              const geocodeResponse = await fetch(
-                `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`,
-                {
-                  headers: {
-                    'User-Agent': 'YourAppName/1.0',
-                  },
-                  signal: AbortSignal.timeout(5000),
-                }
-              );
-              
-              if (geocodeResponse.ok) {
-                const geocodeData = await geocodeResponse.json();
-                const address = geocodeData.address || {};
-                
-                setLocationData({
-                  city: address.city || address.town || address.village || address.municipality || 'Unknown',
-                  region: address.state || address.province || address.region || 'Unknown',
-                  country: address.country || 'Unknown',
-                  coordinates: { lat, lng }
-                });
-                setLocationLoading(false);
-                return;
-              }
-            } catch (error) {
-              console.log('Reverse geocoding failed, falling back to IP location');
-            }
-            
-            // If reverse geocoding fails, fall back to IP-based location
-            await fetchIPBasedLocation(ipAddress);
-          },
-          async (error) => {
-            // Geolocation denied or failed, use IP-based location
-            console.log('Geolocation denied or failed, using IP-based location');
-            await fetchIPBasedLocation(ipAddress);
-          },
-          {
-            enableHighAccuracy: false,
-            timeout: 5000,
-            maximumAge: 300000, // Cache for 5 minutes
-          }
-        );
-      } else {
-        // Browser doesn't support geolocation
-        await fetchIPBasedLocation(ipAddress);
-      }
-    }
-
-    async function fetchIPBasedLocation(ipAddress: string) {
-      try {
-        // Use IP-based geolocation service
-        const response = await fetch(`https://ipapi.co/${ipAddress}/json/`, {
-          signal: AbortSignal.timeout(5000),
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          setLocationData({
-            city: data.city || 'Unknown',
-            region: data.region || 'Unknown',
-            country: data.country_name || 'Unknown',
-            coordinates: data.latitude && data.longitude ? {
-              lat: data.latitude,
-              lng: data.longitude
-            } : undefined
-          });
-        } else {
-          // Final fallback
-          setLocationData({
-            city: 'Unknown',
-            region: 'Unknown',
-            country: 'Unknown'
-          });
-        }
-      } catch (error) {
-        // Final fallback
-        setLocationData({
-          city: 'Unknown',
-          region: 'Unknown',
-          country: 'Unknown'
-        });
-      }
-      
-      setLocationLoading(false);
-    }
-
-    fetchLocationData();
-  }, []);
+  // Password accepted, but this session still needs its second factor
+  const needsTwoFactor =
+    !!currentUser && !!twoFactorStatus?.enabled && !twoFactorStatus.sessionVerified;
 
   // Handle role-based redirect after successful login
   useEffect(() => {
-    if (currentUser && !loading) {
-      // Redirect based on role
-      if (currentUser.role === "inspector") {
-        router.push("/inspector");
-      } else {
-        router.push("/dashboard");
-      }
-    }
-  }, [currentUser, loading, router]);
-
-  // Helper function to get user agent
-  const getUserAgent = () => {
-    if (typeof window !== "undefined") {
-      return window.navigator.userAgent;
+    if (currentUser && !loading && twoFactorStatus !== undefined && !needsTwoFactor) {
+      // Redirect to the landing page of the user's roles
+      router.push(currentUser.homeRoute);
     }
-    return undefined;
-  };
+  }, [currentUser, loading, twoFactorStatus, needsTwoFactor, router]);
 
   return (
     <main
@@ -467,6 +324,10 @@ export default function SignIn() {
           </div>
 
           <div className="w-full max-w-md">
+            {needsTwoFactor ? (
+              <TwoFactorChallenge onVerified={() => setLoading(false)} />
+            ) : (
+            <>
             {/* Logo/Title */}
             <div className="text-center md:text-left mb-8 md:mb-12">
               <h1 className="text-3xl sm:text-4xl font-bold text-zinc-900 dark:text-zinc-100 mb-2">
@@ -513,8 +374,6 @@ export default function SignIn() {
                 const formData = new FormData(e.target as HTMLFormElement);
                 const email = formData.get("email") as string;
                 const password = formData.get("password") as string;
-                const ipAddress = clientIP;
-                const userAgent = getUserAgent();
                 
                 // Client-side validation
                 if (!email || !password) {
@@ -528,36 +387,14 @@ export default function SignIn() {
                   return;
                 }
                 
-                // Prepare location string
-                let locationString = "Unknown";
-                if (locationData) {
-                  locationString = `${locationData.city}, ${locationData.region}, ${locationData.country}`;
-                }
-                
                 try {
                   // Sign in with Convex Auth
                   formData.set("flow", "signIn");
                   
                   await signIn("password", formData);
                   
-                  // Record successful login attempt IMMEDIATELY before redirecting
-                  try {
-                    await recordSuccessfulLogin({
-                      email: email,
-                      ipAddress: ipAddress,
-                      userAgent: userAgent,
-                      location: locationString,
-                      geoLocation: locationData ? JSON.stringify({
-                        city: locationData.city,
-                        region: locationData.region,
-                        country: locationData.country,
-                        coordinates: locationData.coordinates
-                      }) : undefined
-                    });
-                  } catch (trackingError) {
-                    // Continue to dashboard anyway, don't block user entry for logging failure
-                    console.error('Failed to record successful login:', trackingError);
-                  }
+                  // The login trail (IP address, location, device) is checked and
+                  // recorded by Convex, with the address the middleware reads from this request
                   
                   // Role-based redirect will be handled by useEffect watching currentUser
                   // No need to manually redirect here
@@ -567,29 +404,6 @@ export default function SignIn() {
                   // Parse error into user-friendly format
                   const friendlyError = parseAuthError(error);
                   
-                  // Determine failure reason for logging
-                  let failureReasonForLog = error.message || "Authentication Failed";
-                  
-                  // Record failed login attempt
-                  try {
-                    await recordFailedLogin({
-                      email,
-                      ipAddress,
-                      userAgent,
-                      failureReason: failureReasonForLog,
-                      location: locationString,
-                      geoLocation: locationData ? JSON.stringify({
-                        city: locationData.city,
-                        region: locationData.region,
-                        country: locationData.country,
-                        coordinates: locationData.coordinates
-                      }) : undefined
-                    });
-                  } catch (trackingError) {
-                    // Don't block error display if tracking fails
-                    console.error('Failed to record failed login:', trackingError);
-                  }
-                  
                   // Display user-friendly error
                   setError(friendlyError);
                   setLoading(false);
@@ -666,11 +480,11 @@ export default function SignIn() {
               {/* Submit Button */}
               <button
                 type="submit"
-                disabled={loading || locationLoading}
+                disabled={loading}
                 className="cursor-pointer w-full py-3 rounded-xl bg-[#15803d] hover:bg-[#16a34a] text-white font-medium transition-all hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed relative overflow-hidden"
               >
                 <span className="relative z-10">
-                  {loading ? "Authenticating..." : locationLoading ? "Detecting location..." : "Sign In"}
+                  {loading ? "Authenticating..." : "Sign In"}
                 </span>
               </button>
             </form>
@@ -689,6 +503,8 @@ export default function SignIn() {
                 </Link>
               </p>
             </div>
+            </>
+            )}
           </div>
         </div>
       </div>
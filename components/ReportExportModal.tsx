@@ -0,0 +1,138 @@
+// components/ReportExportModal.tsx
+
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { STORAGE_KEYS } from "@/lib/shared/constants/storage";
+import type { ReportFormat, ReportSignatories } from "@/lib/reports/reportDefinitions";
+import { downloadReport, type ReportExportConfig } from "@/services/export/reportExport";
+
+interface ReportExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  format: ReportFormat;
+  config: Omit<ReportExportConfig, "format" | "signatories">;
+}
+
+const SIGNATORY_FIELDS = [
+  { key: "preparedBy", label: "Prepared by" },
+  { key: "reviewedBy", label: "Reviewed by" },
+  { key: "approvedBy", label: "Approved by" },
+] as const;
+
+function loadSignatories(): ReportSignatories {
+  if (typeof window === "undefined") return {};
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.REPORT_SIGNATORIES);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function ReportExportModal({ isOpen, onClose, format, config }: ReportExportModalProps) {
+  const [signatories, setSignatories] = useState<ReportSignatories>(loadSignatories);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const updateSignatory = (
+    key: keyof ReportSignatories,
+    field: "name" | "position",
+    value: string
+  ) => {
+    setSignatories((prev) => ({
+      ...prev,
+      [key]: { name: "", ...prev[key], [field]: value },
+    }));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      // Remember signatories for the next report
+      localStorage.setItem(STORAGE_KEYS.REPORT_SIGNATORIES, JSON.stringify(signatories));
+
+      await downloadReport({ ...config, format, signatories });
+      toast.success(format === "xlsx" ? "Excel report generated" : "PDF report generated");
+      onClose();
+    } catch (error) {
+      console.error("Error generating report:", error);
+      toast.error("Failed to generate report", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {format === "xlsx" ? (
+              <FileSpreadsheet className="w-5 h-5 text-green-700" />
+            ) : (
+              <FileText className="w-5 h-5 text-red-600" />
+            )}
+            {format === "xlsx" ? "Generate Excel Report" : "Generate PDF Report"}
+          </DialogTitle>
+          <DialogDescription>
+            Uses the columns currently shown in the table. Signatories are printed below the totals.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {SIGNATORY_FIELDS.map(({ key, label }) => (
+            <div key={key} className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor={`${key}-name`}>{label}</Label>
+                <Input
+                  id={`${key}-name`}
+                  value={signatories[key]?.name ?? ""}
+                  onChange={(e) => updateSignatory(key, "name", e.target.value)}
+                  placeholder="Full name"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor={`${key}-position`}>Position</Label>
+                <Input
+                  id={`${key}-position`}
+                  value={signatories[key]?.position ?? ""}
+                  onChange={(e) => updateSignatory(key, "position", e.target.value)}
+                  placeholder="e.g., PPDO Head"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="bg-[#15803D] hover:bg-[#166534] text-white"
+          >
+            {isGenerating && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isGenerating ? "Generating..." : "Generate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,13 +5,16 @@
 import { useState } from "react";
 import { useCurrentUser } from "@/app/hooks/useCurrentUser";
 import { ProfileDetailsTab } from "./ProfileDetailsTab";
+import { SecurityTab } from "./SecurityTab";
+import { SessionsTab } from "./SessionsTab";
+import { NotificationsTab } from "./NotificationsTab";
 
 interface AccountModalProps {
   onClose: () => void;
 }
 
 export function AccountModal({ onClose }: AccountModalProps) {
-  const [activeTab, setActiveTab] = useState<"profile" | "security">("profile");
+  const [activeTab, setActiveTab] = useState<"profile" | "security" | "sessions" | "notifications">("profile");
   const { user, isLoading } = useCurrentUser();
 
   if (isLoading) {
@@ -103,19 +106,35 @@ export function AccountModal({ onClose }: AccountModalProps) {
           >
             Security
           </button>
+          <button
+            onClick={() => setActiveTab("sessions")}
+            className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "sessions"
+                ? "border-blue-500 text-blue-600 dark:text-blue-400"
+                : "border-transparent text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+            }`}
+          >
+            Sessions &amp; Devices
+          </button>
+          <button
+            onClick={() => setActiveTab("notifications")}
+            className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "notifications"
+                ? "border-blue-500 text-blue-600 dark:text-blue-400"
+                : "border-transparent text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+            }`}
+          >
+            Notifications
+          </button>
         </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto">
         {activeTab === "profile" && <ProfileDetailsTab user={user} />}
-        {activeTab === "security" && (
-          <div className="p-6">
-            <p className="text-zinc-600 dark:text-zinc-400">
-              Security settings coming soon...
-            </p>
-          </div>
-        )}
+        {activeTab === "security" && <SecurityTab />}
+        {activeTab === "sessions" && <SessionsTab />}
+        {activeTab === "notifications" && <NotificationsTab />}
       </div>
     </div>
   );
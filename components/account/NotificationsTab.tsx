@@ -0,0 +1,81 @@
+// components/account/NotificationsTab.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Switch } from "@/components/ui/switch";
+
+export function NotificationsTab() {
+  const subscriptions = useQuery(api.notifications.getSubscriptions);
+  const updateSubscription = useMutation(api.notifications.updateSubscription);
+
+  const [savingEvent, setSavingEvent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (subscriptions === undefined) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+      </div>
+    );
+  }
+
+  if (subscriptions === null) return null;
+
+  const handleToggle = async (
+    event: (typeof subscriptions)[number]["key"],
+    subscribed: boolean
+  ) => {
+    setError(null);
+    setSavingEvent(event);
+    try {
+      await updateSubscription({ event, subscribed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update notification settings");
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+          Notifications
+        </h3>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+          Choose which events appear in your notification bell.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="divide-y divide-zinc-200 dark:divide-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-800">
+        {subscriptions.map((subscription) => (
+          <div key={subscription.key} className="flex items-center justify-between gap-4 p-4">
+            <div>
+              <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                {subscription.label}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+                {subscription.description}
+              </p>
+            </div>
+            <Switch
+              checked={subscription.subscribed}
+              onCheckedChange={(checked) => handleToggle(subscription.key, checked)}
+              disabled={savingEvent === subscription.key}
+              aria-label={subscription.label}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
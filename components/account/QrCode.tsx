@@ -0,0 +1,42 @@
+// components/account/QrCode.tsx
+
+"use client";
+
+import { useMemo } from "react";
+import QRCodeLib from "qrcode";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+const QUIET_ZONE = 4;
+
+export function QrCode({ value, size = 192 }: QrCodeProps) {
+  const path = useMemo(() => {
+    // Drawn here rather than as an image so the secret never leaves the page
+    const { modules } = QRCodeLib.create(value, { errorCorrectionLevel: "M" });
+    let d = "";
+    for (let y = 0; y < modules.size; y++) {
+      for (let x = 0; x < modules.size; x++) {
+        if (modules.get(y, x)) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { d, dimension: modules.size + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${path.dimension} ${path.dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+      className="rounded-lg"
+    >
+      <rect width="100%" height="100%" fill="#ffffff" />
+      <path d={path.d} fill="#000000" />
+    </svg>
+  );
+}
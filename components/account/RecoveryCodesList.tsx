@@ -0,0 +1,71 @@
+// components/account/RecoveryCodesList.tsx
+
+"use client";
+
+import { useState } from "react";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+export function RecoveryCodesList({ codes, onDone }: RecoveryCodesListProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`PPDO recovery codes\n\n${codes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "ppdo-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+          your authenticator device. They will not be shown again.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 font-mono text-sm text-zinc-900 dark:text-zinc-100">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-lg transition-colors text-sm font-medium"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-lg transition-colors text-sm font-medium"
+        >
+          Download
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="ml-auto px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          I have saved my codes
+        </button>
+      </div>
+    </div>
+  );
+}
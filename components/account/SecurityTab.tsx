@@ -0,0 +1,183 @@
+// components/account/SecurityTab.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { TwoFactorSetup } from "./TwoFactorSetup";
+import { RecoveryCodesList } from "./RecoveryCodesList";
+
+type PendingAction = "regenerate" | "disable" | null;
+
+export function SecurityTab() {
+  const status = useQuery(api.twoFactor.getStatus);
+  const regenerateRecoveryCodes = useMutation(api.twoFactor.regenerateRecoveryCodes);
+  const disableTwoFactor = useMutation(api.twoFactor.disable);
+
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  if (status === undefined) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+      </div>
+    );
+  }
+
+  if (status === null) return null;
+
+  const resetForm = () => {
+    setPendingAction(null);
+    setCode("");
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+    setIsWorking(true);
+
+    try {
+      if (pendingAction === "regenerate") {
+        const result = await regenerateRecoveryCodes({ code: code.trim() });
+        setNewCodes(result.recoveryCodes);
+      } else if (pendingAction === "disable") {
+        await disableTwoFactor({ code: code.trim() });
+        setSuccess("Two-factor authentication has been turned off.");
+      }
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+          Two-Factor Authentication
+        </h3>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+          Require a code from your authenticator app in addition to your password when signing in.
+        </p>
+      </div>
+
+      {success && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+          <p className="text-sm text-green-600 dark:text-green-400">{success}</p>
+        </div>
+      )}
+
+      {newCodes ? (
+        <RecoveryCodesList codes={newCodes} onDone={() => setNewCodes(null)} />
+      ) : !status.enabled ? (
+        <div className="space-y-4">
+          {status.required && (
+            <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="text-sm text-amber-700 dark:text-amber-400">
+                Two-factor authentication is required for administrator accounts.
+              </p>
+            </div>
+          )}
+          <TwoFactorSetup onComplete={() => setSuccess("Two-factor authentication is now enabled.")} />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between p-4 rounded-lg border border-zinc-200 dark:border-zinc-700">
+            <div>
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                Enabled
+              </span>
+              {status.enabledAt && (
+                <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-2">
+                  Since {new Date(status.enabledAt).toLocaleDateString("en-US", { dateStyle: "medium" })}
+                </p>
+              )}
+            </div>
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </p>
+          </div>
+
+          {status.recoveryCodesRemaining <= 2 && (
+            <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="text-sm text-amber-700 dark:text-amber-400">
+                You are running low on recovery codes. Generate a new set.
+              </p>
+            </div>
+          )}
+
+          {pendingAction ? (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                {pendingAction === "regenerate"
+                  ? "Enter a code from your authenticator app to generate new recovery codes"
+                  : "Enter an authenticator or recovery code to turn off two-factor authentication"}
+              </label>
+              {error && (
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-48 px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={isWorking || !code.trim()}
+                  className={`px-4 py-2 ${
+                    pendingAction === "disable"
+                      ? "bg-red-500 hover:bg-red-600 disabled:bg-red-300"
+                      : "bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300"
+                  } text-white rounded-lg transition-colors text-sm font-medium`}
+                >
+                  {isWorking ? "Checking..." : "Confirm"}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-lg transition-colors text-sm font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setPendingAction("regenerate")}
+                className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-lg transition-colors text-sm font-medium"
+              >
+                Regenerate recovery codes
+              </button>
+              {!status.required && (
+                <button
+                  type="button"
+                  onClick={() => setPendingAction("disable")}
+                  className="px-4 py-2 border border-red-300 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg transition-colors text-sm font-medium"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// components/account/SessionList.tsx
+
+"use client";
+
+import { FunctionReturnType } from "convex/server";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Monitor, Smartphone } from "lucide-react";
+
+export type SessionSummary = NonNullable<FunctionReturnType<typeof api.sessions.listMySessions>>[number];
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  onRevoke: (sessionId: Id<"authSessions">) => void;
+  revokingId?: Id<"authSessions"> | null;
+}
+
+function formatDateTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Active sessions with device, browser, IP address, location and last activity
+ */
+export function SessionList({ sessions, onRevoke, revokingId }: SessionListProps) {
+  if (sessions.length === 0) {
+    return (
+      <p className="p-4 text-sm text-center text-zinc-500 dark:text-zinc-400 rounded-lg border border-zinc-200 dark:border-zinc-700">
+        No active sessions.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-zinc-200 dark:divide-zinc-700 rounded-lg border border-zinc-200 dark:border-zinc-700">
+      {sessions.map((session) => {
+        const isMobile = /android|ios|iphone|ipad/i.test(session.device);
+        const Icon = isMobile ? Smartphone : Monitor;
+
+        return (
+          <li key={session.sessionId} className="flex items-start gap-3 p-4">
+            <Icon className="w-5 h-5 mt-0.5 shrink-0 text-zinc-500 dark:text-zinc-400" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  {session.device} · {session.browser}
+                </p>
+                {session.isCurrent && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                    This device
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-zinc-600 dark:text-zinc-400 mt-1">
+                {session.ipAddress} · {session.location}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-0.5">
+                Last active {formatDateTime(session.lastActiveAt)} · Signed in {formatDateTime(session.createdAt)}
+              </p>
+            </div>
+            {!session.isCurrent && (
+              <button
+                type="button"
+                onClick={() => onRevoke(session.sessionId)}
+                disabled={revokingId === session.sessionId}
+                className="shrink-0 px-3 py-1.5 border border-red-300 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg transition-colors text-xs font-medium disabled:opacity-50"
+              >
+                {revokingId === session.sessionId ? "Signing out..." : "Sign out"}
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
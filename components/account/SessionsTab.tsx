@@ -0,0 +1,101 @@
+// components/account/SessionsTab.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { SessionList } from "./SessionList";
+
+export function SessionsTab() {
+  const sessions = useQuery(api.sessions.listMySessions);
+  const revokeSession = useMutation(api.sessions.revokeMySession);
+  const revokeOtherSessions = useMutation(api.sessions.revokeMyOtherSessions);
+
+  const [revokingId, setRevokingId] = useState<Id<"authSessions"> | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  if (sessions === undefined) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+      </div>
+    );
+  }
+
+  if (sessions === null) return null;
+
+  const otherSessionCount = sessions.filter((session) => !session.isCurrent).length;
+
+  const handleRevoke = async (sessionId: Id<"authSessions">) => {
+    setError(null);
+    setSuccess(null);
+    setRevokingId(sessionId);
+    try {
+      await revokeSession({ sessionId });
+      setSuccess("The session has been signed out.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out the session");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setError(null);
+    setSuccess(null);
+    setIsRevokingOthers(true);
+    try {
+      const result = await revokeOtherSessions({});
+      setSuccess(
+        `Signed out of ${result.revoked} other session${result.revoked === 1 ? "" : "s"}.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out other sessions");
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            Sessions &amp; Devices
+          </h3>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+            Places where your account is signed in. Sign out any session you don&apos;t recognize.
+          </p>
+        </div>
+        {otherSessionCount > 0 && (
+          <button
+            type="button"
+            onClick={handleRevokeOthers}
+            disabled={isRevokingOthers}
+            className="shrink-0 px-4 py-2 bg-red-500 hover:bg-red-600 disabled:bg-red-300 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            {isRevokingOthers ? "Signing out..." : "Sign out everywhere else"}
+          </button>
+        )}
+      </div>
+
+      {success && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+          <p className="text-sm text-green-600 dark:text-green-400">{success}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <SessionList sessions={sessions} onRevoke={handleRevoke} revokingId={revokingId} />
+    </div>
+  );
+}
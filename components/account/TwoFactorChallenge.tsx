@@ -0,0 +1,122 @@
+// components/account/TwoFactorChallenge.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { api } from "@/convex/_generated/api";
+import { AlertCircle } from "lucide-react";
+
+interface TwoFactorChallengeProps {
+  onVerified: () => void;
+}
+
+/**
+ * Second sign-in step: authenticator code or a one-time recovery code
+ */
+export function TwoFactorChallenge({ onVerified }: TwoFactorChallengeProps) {
+  const { signOut } = useAuthActions();
+  const verifySession = useMutation(api.twoFactor.verifySession);
+
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    setError(null);
+
+    try {
+      const result = await verifySession({ code: code.trim() });
+      if (result.success) {
+        onVerified();
+        return;
+      }
+      setError(
+        result.locked
+          ? "Too many incorrect codes. Your account has been locked; contact your administrator."
+          : "That code is not valid. Please try again."
+      );
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center md:text-left">
+        <h1 className="text-3xl sm:text-4xl font-bold text-zinc-900 dark:text-zinc-100 mb-2">
+          Two-Factor Verification
+        </h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          {useRecoveryCode
+            ? "Enter one of your saved recovery codes"
+            : "Enter the 6-digit code from your authenticator app"}
+        </p>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="p-4 rounded-2xl bg-gradient-to-br from-red-50 to-red-100/50 dark:from-red-950/40 dark:to-red-900/20 border border-red-200/60 dark:border-red-800/40"
+        >
+          <div className="flex gap-3 items-center">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+            <p className="text-sm text-red-700 dark:text-red-300/90">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <input
+          type="text"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          autoFocus
+          value={code}
+          onChange={(e) =>
+            setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, "").slice(0, 6))
+          }
+          disabled={verifying}
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          className="w-full px-4 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 font-mono tracking-widest text-center focus:outline-none focus:ring-2 focus:ring-[#15803d] focus:border-[#15803d] transition-all disabled:opacity-50"
+        />
+
+        <button
+          type="submit"
+          disabled={verifying || !code.trim()}
+          className="cursor-pointer w-full py-3 rounded-xl bg-[#15803d] hover:bg-[#16a34a] text-white font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {verifying ? "Verifying..." : "Verify"}
+        </button>
+      </form>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+            setError(null);
+          }}
+          className="cursor-pointer text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button
+          type="button"
+          onClick={() => void signOut()}
+          className="cursor-pointer text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
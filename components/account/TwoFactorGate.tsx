@@ -0,0 +1,42 @@
+// components/account/TwoFactorGate.tsx
+
+"use client";
+
+import { useEffect } from "react";
+import { useQuery } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { api } from "@/convex/_generated/api";
+import { TwoFactorChallenge } from "./TwoFactorChallenge";
+
+/**
+ * Holds back its children until a session of a 2FA user has passed the code step.
+ * Used by the signed-in layouts, since the middleware sends signed-in users
+ * away from /signin before they can enter their code there.
+ * Also signs out a session that was ended from another device or by an admin.
+ */
+export function TwoFactorGate({ children }: { children: React.ReactNode }) {
+  const { signOut } = useAuthActions();
+  const status = useQuery(api.twoFactor.getStatus);
+  const sessionStatus = useQuery(api.sessions.getCurrentSessionStatus);
+  const revoked = sessionStatus?.revoked === true;
+
+  useEffect(() => {
+    if (revoked) void signOut();
+  }, [revoked, signOut]);
+
+  if (status === undefined || revoked) {
+    return null;
+  }
+
+  if (status?.enabled && !status.sessionVerified) {
+    return (
+      <div className="min-h-dvh bg-[#f8f8f8] dark:bg-zinc-950 flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6">
+          <TwoFactorChallenge onVerified={() => {}} />
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
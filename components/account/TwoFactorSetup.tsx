@@ -0,0 +1,122 @@
+// components/account/TwoFactorSetup.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { QrCode } from "./QrCode";
+import { RecoveryCodesList } from "./RecoveryCodesList";
+
+interface TwoFactorSetupProps {
+  onComplete?: () => void;
+}
+
+/**
+ * Enrollment flow: QR code -> first code -> recovery codes
+ */
+export function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const beginEnrollment = useMutation(api.twoFactor.beginEnrollment);
+  const confirmEnrollment = useMutation(api.twoFactor.confirmEnrollment);
+
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleStart = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      setEnrollment(await beginEnrollment());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start setup");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsWorking(true);
+    try {
+      const result = await confirmEnrollment({ code: code.trim() });
+      setRecoveryCodes(result.recoveryCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to verify code");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodesList codes={recoveryCodes} onDone={() => onComplete?.()} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {!enrollment ? (
+        <div className="space-y-3">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Use an authenticator app such as Google Authenticator, Microsoft Authenticator or Authy to
+            generate a 6-digit code each time you sign in.
+          </p>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isWorking}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            {isWorking ? "Preparing..." : "Set up authenticator app"}
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-6 items-start">
+            <QrCode value={enrollment.otpauthUrl} />
+            <div className="space-y-3 text-sm">
+              <p className="text-zinc-700 dark:text-zinc-300">
+                1. Scan the QR code with your authenticator app.
+              </p>
+              <div>
+                <p className="text-zinc-500 dark:text-zinc-400 mb-1">Can&apos;t scan it? Enter this key instead:</p>
+                <code className="block px-3 py-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 font-mono text-xs break-all text-zinc-900 dark:text-zinc-100">
+                  {enrollment.secret.match(/.{1,4}/g)?.join(" ")}
+                </code>
+              </div>
+              <p className="text-zinc-700 dark:text-zinc-300">2. Enter the 6-digit code it shows.</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              placeholder="123456"
+              className="w-40 px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isWorking || code.length !== 6}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              {isWorking ? "Verifying..." : "Verify and enable"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 // components/ActivityLogSheet/ActivityLogCard.tsx
 
 import { formatDistanceToNow } from "date-fns";
-import { ArrowRight, FileSpreadsheet } from "lucide-react";
+import { ArrowRight, FileSpreadsheet, GitCompare, Undo2 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { UnifiedActivityLog, ActivityLogType } from "./types";
 
 type ActivityLogCardProps = {
@@ -11,6 +12,10 @@ type ActivityLogCardProps = {
   type: ActivityLogType;
   implementingOffice?: string;
   accentColorValue: string;
+  /** Shown on bulk activities; opens the batch rollback preview */
+  onRollbackBatch?: (batchId: string) => void;
+  /** Opens the point-in-time history of the record the activity belongs to */
+  onViewHistory?: (entityId: string) => void;
 };
 
 // ✅ FIXED: Changed 'budget' to 'budgetItem'
@@ -26,12 +31,17 @@ export function ActivityLogCard({
   type,
   implementingOffice,
   accentColorValue,
+  onRollbackBatch,
+  onViewHistory,
 }: ActivityLogCardProps) {
   const timestamp = new Date(activity.timestamp);
   const relativeTime = formatDistanceToNow(timestamp, { addSuffix: true });
   const changeRows = buildChangeRows(activity, type);
   const isBulkImport = activity.action === "bulk_created";
   const bulletColor = accentColorValue || "#0f172a";
+  const isBulk = activity.action.startsWith("bulk_");
+  const showRollback = isBulk && !!activity.batchId && (!!activity.rolledBackAt || !!onRollbackBatch);
+  const showHistory = !!activity.entityId && !!onViewHistory;
 
   return (
     <div className="relative pl-6">
@@ -110,6 +120,38 @@ export function ActivityLogCard({
             </>
           )}
         </div>
+
+        {(showRollback || showHistory) && (
+          <div className="flex items-center justify-end gap-1 pt-2 mt-2 border-t border-zinc-200 dark:border-zinc-700">
+            {showHistory && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                onClick={() => onViewHistory?.(activity.entityId!)}
+              >
+                <GitCompare className="w-3 h-3" />
+                History
+              </Button>
+            )}
+            {showRollback &&
+              (activity.rolledBackAt ? (
+                <span className="text-[11px] text-zinc-500 dark:text-zinc-400">
+                  Rolled back {formatDistanceToNow(new Date(activity.rolledBackAt), { addSuffix: true })}
+                </span>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs"
+                  onClick={() => onRollbackBatch?.(activity.batchId!)}
+                >
+                  <Undo2 className="w-3 h-3" />
+                  Roll back batch
+                </Button>
+              ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -153,6 +195,12 @@ function getActionBadge(action: string) {
           <FileSpreadsheet className="w-3 h-3 mr-1" /> Bulk Edit
         </Badge>
       );
+    case "bulk_deleted":
+      return (
+        <Badge className="bg-red-100 text-red-700 hover:bg-red-100 border-red-200">
+          <FileSpreadsheet className="w-3 h-3 mr-1" /> Bulk Delete
+        </Badge>
+      );
     default:
       return (
         <Badge variant="outline" className="capitalize">
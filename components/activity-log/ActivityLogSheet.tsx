@@ -9,9 +9,12 @@ import { ActivityLogCard } from "./ActivityLogCard";
 import { ActivityLogEmptyState } from "./ActivityLogEmptyState";
 import { ActivityLogFilters } from "./ActivityLogFilters";
 import { ActivityLogSkeletonList } from "./ActivityLogSkeletonList";
+import { BatchRollbackDialog } from "./BatchRollbackDialog";
+import { RecordHistoryDialog } from "./RecordHistoryDialog";
 import { useActivityLogData } from "./useActivityLogData";
 import { ActivityLogSheetProps, UnifiedActivityLog } from "./types";
 import { useAccentColor } from "@/contexts/AccentColorContext";
+import { useCurrentUser } from "@/app/hooks/useCurrentUser";
 
 export function ActivityLogSheet({
   type,
@@ -25,6 +28,9 @@ export function ActivityLogSheet({
   title,
 }: ActivityLogSheetProps) {
   const { accentColorValue } = useAccentColor();
+  const { isAdmin } = useCurrentUser();
+  const [rollbackBatchId, setRollbackBatchId] = useState<string | null>(null);
+  const [historyEntityId, setHistoryEntityId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [actionFilter, setActionFilter] = useState<string>("all");
   const [loadedCount, setLoadedCount] = useState(5);
@@ -155,6 +161,8 @@ export function ActivityLogSheet({
                           type={type}
                           implementingOffice={implementingOffice}
                           accentColorValue={accentColorValue}
+                          onRollbackBatch={type === "breakdown" && isAdmin ? setRollbackBatchId : undefined}
+                          onViewHistory={setHistoryEntityId}
                         />
                       ))}
                     </div>
@@ -186,6 +194,13 @@ export function ActivityLogSheet({
             </Button>
           </div>
         )}
+
+        <BatchRollbackDialog batchId={rollbackBatchId} onClose={() => setRollbackBatchId(null)} />
+        <RecordHistoryDialog
+          entityType={type}
+          entityId={historyEntityId}
+          onClose={() => setHistoryEntityId(null)}
+        />
       </SheetContent>
     </Sheet>
   );
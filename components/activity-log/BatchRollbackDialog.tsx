@@ -0,0 +1,181 @@
+// components/ActivityLogSheet/BatchRollbackDialog.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2, Undo2 } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface BatchRollbackDialogProps {
+  batchId: string | null;
+  onClose: () => void;
+}
+
+const OPERATION_LABELS = {
+  trash: { label: "Move to trash", className: "bg-red-100 text-red-700 border-red-200 hover:bg-red-100" },
+  restore: { label: "Restore values", className: "bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-100" },
+  recreate: { label: "Re-create", className: "bg-green-100 text-green-700 border-green-200 hover:bg-green-100" },
+} as const;
+
+export function BatchRollbackDialog({ batchId, onClose }: BatchRollbackDialogProps) {
+  const plan = useQuery(api.govtProjectActivities.previewBatchRollback, batchId ? { batchId } : "skip");
+  const rollbackBatch = useMutation(api.govtProjectActivities.rollbackBatch);
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const handleClose = () => {
+    setSkipConflicts(false);
+    onClose();
+  };
+
+  const handleRollback = async () => {
+    if (!batchId) return;
+    setIsRollingBack(true);
+    try {
+      const result = await rollbackBatch({ batchId, skipConflicts });
+      toast.success("Batch rolled back", {
+        description: [
+          result.trashed && `${result.trashed} moved to trash`,
+          result.restored && `${result.restored} restored`,
+          result.recreated && `${result.recreated} re-created`,
+          result.skipped && `${result.skipped} skipped`,
+        ]
+          .filter(Boolean)
+          .join(", "),
+      });
+      handleClose();
+    } catch (error) {
+      console.error("Error rolling back batch:", error);
+      toast.error("Failed to roll back batch", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const rollbackCount = plan ? plan.items.length - plan.conflictCount : 0;
+  const blockedReason = !plan
+    ? undefined
+    : plan.isRollback
+      ? "This batch is itself a rollback and cannot be rolled back."
+      : plan.rolledBackAt !== undefined
+        ? `This batch was already rolled back on ${new Date(plan.rolledBackAt).toLocaleString("en-US")}.`
+        : undefined;
+  const canRollBack =
+    !!plan &&
+    !blockedReason &&
+    rollbackCount > 0 &&
+    (plan.conflictCount === 0 || skipConflicts);
+
+  return (
+    <Dialog open={batchId !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5" />
+            Roll Back Batch
+          </DialogTitle>
+          <DialogDescription>
+            {plan
+              ? `${plan.items.length} row(s) changed by ${plan.performedByName} on ${new Date(plan.timestamp).toLocaleString("en-US")}.`
+              : "Loading batch preview..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {plan === undefined ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+          </div>
+        ) : plan === null ? (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            No bulk changes were found for this batch.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {blockedReason && (
+              <p className="text-sm text-zinc-600 dark:text-zinc-400">{blockedReason}</p>
+            )}
+
+            <ScrollArea className="max-h-80 pr-3">
+              <div className="space-y-2">
+                {plan.items.map((item) => (
+                  <div
+                    key={item.activityId}
+                    className={`rounded-md border p-2.5 text-xs ${
+                      item.conflict
+                        ? "border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30"
+                        : "border-zinc-200 dark:border-zinc-700"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-zinc-900 dark:text-zinc-100 truncate">
+                        {item.label}
+                      </span>
+                      <Badge className={OPERATION_LABELS[item.operation].className}>
+                        {OPERATION_LABELS[item.operation].label}
+                      </Badge>
+                    </div>
+                    {item.fields.length > 0 && (
+                      <p className="mt-1 text-zinc-500 dark:text-zinc-400">
+                        Fields: {item.fields.map((field) => field.replace(/([A-Z])/g, " $1").toLowerCase()).join(", ")}
+                      </p>
+                    )}
+                    {item.conflict && (
+                      <p className="mt-1 flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        {item.conflict}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {plan.conflictCount > 0 && !blockedReason && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="skip-conflicts"
+                  checked={skipConflicts}
+                  onCheckedChange={(checked) => setSkipConflicts(checked === true)}
+                />
+                <Label htmlFor="skip-conflicts" className="text-sm font-normal">
+                  Skip {plan.conflictCount} conflicting row(s) and roll back the rest
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose} disabled={isRollingBack}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRollback}
+            disabled={!canRollBack || isRollingBack}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isRollingBack && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isRollingBack ? "Rolling back..." : `Roll back ${rollbackCount} row(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,399 @@
+// components/ActivityLogSheet/RecordHistoryDialog.tsx
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { CalendarClock, GitCompare, Loader2, RotateCcw, X } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ActivityLogType } from "./types";
+
+interface RecordHistoryDialogProps {
+  entityType: ActivityLogType;
+  entityId: string | null;
+  onClose: () => void;
+}
+
+type HistoryValues = Record<string, unknown>;
+
+const HIDDEN_FIELDS = ["_id", "_creationTime", "createdAt", "createdBy", "updatedAt", "updatedBy"];
+
+export function RecordHistoryDialog({ entityType, entityId, onClose }: RecordHistoryDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [asOfInput, setAsOfInput] = useState("");
+  const [restoreTarget, setRestoreTarget] = useState<{ activityId: string; timestamp: number } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const asOf = asOfInput ? new Date(asOfInput).getTime() : undefined;
+
+  const timeline = useQuery(
+    api.history.getTimeline,
+    entityId ? { entityType, entityId } : "skip"
+  );
+  const asOfState = useQuery(
+    api.history.getAsOf,
+    entityId && asOf !== undefined && !isNaN(asOf) ? { entityType, entityId, asOf } : "skip"
+  );
+  const restoreVersion = useMutation(api.history.restoreVersion);
+
+  const versions = useMemo(() => timeline?.versions ?? [], [timeline]);
+  const selected = versions.find((version) => version.activityId === selectedId) ?? versions[0];
+  const latestId = versions[0]?.activityId;
+  const recordLabel = getRecordLabel(timeline?.current ?? selected?.snapshot ?? null);
+
+  const handleClose = () => {
+    setSelectedId(null);
+    setAsOfInput("");
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (!entityId || !restoreTarget) return;
+    setIsRestoring(true);
+    try {
+      await restoreVersion({ entityType, entityId, activityId: restoreTarget.activityId });
+      toast.success("Version restored", {
+        description: `Values from ${formatTimestamp(restoreTarget.timestamp)} were written back.`,
+      });
+      setRestoreTarget(null);
+      setSelectedId(null);
+      setAsOfInput("");
+    } catch (error) {
+      console.error("Error restoring version:", error);
+      toast.error("Failed to restore version", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={entityId !== null} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5" />
+              Record History
+            </DialogTitle>
+            <DialogDescription>
+              {recordLabel ? `${recordLabel} — ` : ""}
+              every logged change, or the record as it stood on a given date.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-zinc-500" />
+            <span className="text-sm text-zinc-600 dark:text-zinc-400">As of</span>
+            <Input
+              type="datetime-local"
+              value={asOfInput}
+              onChange={(e) => setAsOfInput(e.target.value)}
+              className="w-auto h-8 text-sm"
+            />
+            {asOfInput && (
+              <Button variant="ghost" size="sm" className="h-8 gap-1" onClick={() => setAsOfInput("")}>
+                <X className="w-3.5 h-3.5" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {timeline === undefined ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-zinc-500">No changes have been logged for this record.</p>
+          ) : (
+            <div className="grid md:grid-cols-[280px,1fr] gap-4 min-h-0 flex-1">
+              {/* ===== TIMELINE ===== */}
+              <ScrollArea className="md:max-h-[60vh] border border-zinc-200 dark:border-zinc-800 rounded-lg">
+                <div className="p-2 space-y-1">
+                  {versions.map((version) => {
+                    const isSelected = !asOfInput && version.activityId === selected?.activityId;
+                    return (
+                      <button
+                        key={version.activityId}
+                        type="button"
+                        onClick={() => {
+                          setAsOfInput("");
+                          setSelectedId(version.activityId);
+                        }}
+                        className={`w-full text-left rounded-md px-2.5 py-2 text-xs transition-colors ${
+                          isSelected
+                            ? "bg-zinc-100 dark:bg-zinc-800"
+                            : "hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                            {formatTimestamp(version.timestamp)}
+                          </span>
+                          <Badge variant="outline" className="capitalize text-[10px]">
+                            {version.action.replace("_", " ")}
+                          </Badge>
+                        </div>
+                        <p className="mt-0.5 text-zinc-500 dark:text-zinc-400 truncate">
+                          {version.performedByName} · {version.diffs.length} field(s)
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+
+              {/* ===== DIFF ===== */}
+              <div className="min-h-0 flex flex-col gap-3">
+                {asOfInput ? (
+                  asOfState === undefined ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+                    </div>
+                  ) : !asOfState.snapshot ? (
+                    <p className="py-8 text-center text-sm text-zinc-500">
+                      The record did not exist (or was deleted) on {formatTimestamp(asOfState.asOf)}.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                          As of {formatTimestamp(asOfState.asOf)}
+                          {asOfState.versionTimestamp !== undefined &&
+                            ` (last change ${formatTimestamp(asOfState.versionTimestamp)})`}
+                        </p>
+                        {asOfState.activityId && asOfState.activityId !== latestId && (
+                          <RestoreButton
+                            onClick={() =>
+                              setRestoreTarget({
+                                activityId: asOfState.activityId!,
+                                timestamp: asOfState.versionTimestamp!,
+                              })
+                            }
+                          />
+                        )}
+                      </div>
+                      <SideBySide
+                        leftLabel={`As of ${formatTimestamp(asOfState.asOf)}`}
+                        rightLabel="Current"
+                        left={asOfState.snapshot}
+                        right={timeline.current}
+                        changedFields={asOfState.diffFromCurrent.map((diff) => diff.field)}
+                      />
+                    </>
+                  )
+                ) : selected ? (
+                  <>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-sm text-zinc-600 dark:text-zinc-400">
+                        <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                          {selected.performedByName}
+                        </span>{" "}
+                        on {formatTimestamp(selected.timestamp)}
+                        {selected.reason && <p className="italic text-xs">&ldquo;{selected.reason}&rdquo;</p>}
+                      </div>
+                      {selected.snapshot && selected.activityId !== latestId && (
+                        <RestoreButton
+                          onClick={() =>
+                            setRestoreTarget({ activityId: selected.activityId, timestamp: selected.timestamp })
+                          }
+                        />
+                      )}
+                    </div>
+                    {selected.diffs.length === 0 ? (
+                      <p className="py-8 text-center text-sm text-zinc-500">No field changes were recorded.</p>
+                    ) : (
+                      <DiffTable
+                        rows={selected.diffs.map((diff) => ({
+                          field: diff.field,
+                          left: diff.before,
+                          right: diff.after,
+                          changed: true,
+                        }))}
+                        leftLabel="Before"
+                        rightLabel="After"
+                      />
+                    )}
+                  </>
+                ) : null}
+
+                <p className="text-[11px] text-zinc-500 dark:text-zinc-400">
+                  Restoring writes back budget figures, dates, status and remarks only. Links such as
+                  particulars, offices and parent records stay as they are, and totals are recalculated.
+                </p>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={restoreTarget !== null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreTarget &&
+                `The record will be set back to its values from ${formatTimestamp(restoreTarget.timestamp)}. The restore is logged as a new change and can itself be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={isRestoring}
+              className="bg-[#15803D] hover:bg-[#166534] text-white"
+            >
+              {isRestoring ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function RestoreButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Button size="sm" variant="outline" className="h-8 gap-1.5 shrink-0" onClick={onClick}>
+      <RotateCcw className="w-3.5 h-3.5" />
+      Restore this version
+    </Button>
+  );
+}
+
+function SideBySide({
+  left,
+  right,
+  leftLabel,
+  rightLabel,
+  changedFields,
+}: {
+  left: HistoryValues;
+  right: HistoryValues | null;
+  leftLabel: string;
+  rightLabel: string;
+  changedFields: string[];
+}) {
+  const fields = [...new Set([...Object.keys(left), ...Object.keys(right ?? {})])]
+    .filter((field) => !HIDDEN_FIELDS.includes(field))
+    .sort();
+
+  return (
+    <DiffTable
+      rows={fields.map((field) => ({
+        field,
+        left: left[field],
+        right: right?.[field],
+        changed: changedFields.includes(field),
+      }))}
+      leftLabel={leftLabel}
+      rightLabel={rightLabel}
+    />
+  );
+}
+
+function DiffTable({
+  rows,
+  leftLabel,
+  rightLabel,
+}: {
+  rows: Array<{ field: string; left: unknown; right: unknown; changed: boolean }>;
+  leftLabel: string;
+  rightLabel: string;
+}) {
+  return (
+    <ScrollArea className="md:max-h-[48vh] border border-zinc-200 dark:border-zinc-800 rounded-lg">
+      <table className="w-full text-xs">
+        <thead className="bg-zinc-50 dark:bg-zinc-900 sticky top-0">
+          <tr className="text-left text-zinc-500 dark:text-zinc-400">
+            <th className="px-3 py-2 font-medium w-1/4">Field</th>
+            <th className="px-3 py-2 font-medium">{leftLabel}</th>
+            <th className="px-3 py-2 font-medium">{rightLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.field}
+              className={`border-t border-zinc-100 dark:border-zinc-800 ${
+                row.changed ? "bg-amber-50/70 dark:bg-amber-950/20" : ""
+              }`}
+            >
+              <td className="px-3 py-1.5 text-zinc-600 dark:text-zinc-400 capitalize">
+                {row.field.replace(/([A-Z])/g, " $1").trim()}
+              </td>
+              <td className={`px-3 py-1.5 ${row.changed ? "text-red-700 dark:text-red-400" : "text-zinc-700 dark:text-zinc-300"}`}>
+                {formatHistoryValue(row.field, row.left)}
+              </td>
+              <td className={`px-3 py-1.5 ${row.changed ? "text-green-700 dark:text-green-400 font-medium" : "text-zinc-700 dark:text-zinc-300"}`}>
+                {formatHistoryValue(row.field, row.right)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </ScrollArea>
+  );
+}
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getRecordLabel(record: HistoryValues | null) {
+  if (!record) return undefined;
+  const label = record.projectTitle || record.particulars || record.projectName;
+  return typeof label === "string" ? label : undefined;
+}
+
+function formatHistoryValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+
+  if (typeof value === "number") {
+    if (/year$/i.test(field)) return String(value);
+    if (/rate|accomplishment/i.test(field)) return `${value.toFixed(2)}%`;
+    if (/date|At$/.test(field)) {
+      return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+    }
+    if (/budget|allocated|utilized|obligated|received|balance|amount/i.test(field)) {
+      return new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(value);
+    }
+    return value.toLocaleString("en-US");
+  }
+
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -15,6 +15,8 @@ export interface UnifiedActivityLog {
   >;
   action: string;
   timestamp: number;
+  /** ID of the budget item / project / breakdown / trust fund the activity belongs to */
+  entityId?: string;
   performedByName: string;
   performedByEmail?: string;
   performedByRole?: string;
@@ -33,6 +35,8 @@ export interface UnifiedActivityLog {
   municipality?: string;
   barangay?: string;
   district?: string;
+  batchId?: string;
+  rolledBackAt?: number;
 
   // Trust Fund-specific fields
   projectTitle?: string;
@@ -110,6 +110,7 @@ export function useActivityLogData({
         _id: activity._id,
         action: activity.action,
         timestamp: activity.timestamp,
+        entityId: activity.trustFundId,
         performedByName: activity.performedByName,
         performedByEmail: activity.performedByEmail,
         performedByRole: activity.performedByRole,
@@ -132,6 +133,7 @@ export function useActivityLogData({
         _id: activity._id,
         action: activity.action,
         timestamp: activity.timestamp,
+        entityId: activity.projectId,
         performedByName: activity.performedByName,
         performedByEmail: activity.performedByEmail,
         performedByRole: activity.performedByRole,
@@ -153,6 +155,7 @@ export function useActivityLogData({
         _id: activity._id,
         action: activity.action,
         timestamp: activity.timestamp,
+        entityId: activity.budgetItemId,
         performedByName: activity.performedByName,
         performedByEmail: activity.performedByEmail,
         performedByRole: activity.performedByRole,
@@ -177,6 +180,7 @@ export function useActivityLogData({
         _id: activity._id,
         action: activity.action,
         timestamp: activity.timestamp,
+        entityId: activity.breakdownId,
         performedByName: activity.performedByName,
         performedByEmail: activity.performedByEmail,
         performedByRole: activity.performedByRole,
@@ -190,6 +194,8 @@ export function useActivityLogData({
         municipality: activity.municipality,
         barangay: activity.barangay,
         district: activity.district,
+        batchId: activity.batchId,
+        rolledBackAt: activity.rolledBackAt,
       }));
     }
 
@@ -6,40 +6,49 @@
 "use client";
 
 import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation, useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
 import { useAccentColor } from "../../contexts/AccentColorContext";
 
 export function NotificationsDropdown() {
+  const router = useRouter();
   const [showNotifications, setShowNotifications] = useState(false);
-  const [notificationCount, setNotificationCount] = useState(3);
+  const [showArchived, setShowArchived] = useState(false);
   const { accentColorValue } = useAccentColor();
 
-  // Mock notification data - Replace with real data from your backend
-  const notifications = [
-    {
-      id: 1,
-      title: "New document received",
-      message: "A new incoming document requires your review",
-      time: "5 minutes ago",
-      isRead: false,
-    },
-    {
-      id: 2,
-      title: "Approval pending",
-      message: "3 documents are waiting for your approval",
-      time: "1 hour ago",
-      isRead: false,
-    },
-    {
-      id: 3,
-      title: "System update",
-      message: "System maintenance scheduled for tonight",
-      time: "2 hours ago",
-      isRead: false,
-    },
-  ];
+  const notificationCount = useQuery(api.notifications.getUnreadCount) ?? 0;
+  const notifications = useQuery(
+    api.notifications.list,
+    showNotifications ? { archived: showArchived } : "skip"
+  );
+  const markAsRead = useMutation(api.notifications.markAsRead);
+  const markAllAsRead = useMutation(api.notifications.markAllAsRead);
+  const archive = useMutation(api.notifications.archive);
+  const unarchive = useMutation(api.notifications.unarchive);
+
+  const handleOpen = async (notification: Doc<"notifications">) => {
+    setShowNotifications(false);
+    if (!notification.isRead) {
+      await markAsRead({ id: notification._id });
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleToggleArchive = async (notification: Doc<"notifications">) => {
+    if (notification.isArchived) {
+      await unarchive({ id: notification._id });
+    } else {
+      await archive({ id: notification._id });
+    }
+  };
 
   return (
-    <div className="relative hidden">
+    <div className="relative">
       <button
         onClick={() => setShowNotifications(!showNotifications)}
         className="relative p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
@@ -91,26 +100,38 @@ export function NotificationsDropdown() {
               <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
                 Notifications
               </h3>
-              {notificationCount > 0 && (
+              <div className="flex items-center gap-3">
+                {!showArchived && notificationCount > 0 && (
+                  <button
+                    onClick={() => markAllAsRead({})}
+                    className="text-sm font-medium"
+                    style={{ color: accentColorValue }}
+                  >
+                    Mark all as read
+                  </button>
+                )}
                 <button
-                  onClick={() => setNotificationCount(0)}
-                  className="text-sm font-medium"
-                  style={{ color: accentColorValue }}
+                  onClick={() => setShowArchived(!showArchived)}
+                  className="text-sm text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
                 >
-                  Mark all as read
+                  {showArchived ? "Inbox" : "Archived"}
                 </button>
-              )}
+              </div>
             </div>
 
             {/* Notifications List */}
             <div className="flex-1 overflow-y-auto">
-              {notificationCount > 0 ? (
+              {notifications === undefined ? (
+                <div className="flex items-center justify-center p-8">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+                </div>
+              ) : notifications.length > 0 ? (
                 <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
                   {notifications.map((notification) => (
                     <div
-                      key={notification.id}
-                      className="p-4 hover:bg-zinc-50 dark:hover:bg-zinc-900/50 cursor-pointer transition-colors"
-                      onClick={() => setShowNotifications(false)}
+                      key={notification._id}
+                      className="group p-4 hover:bg-zinc-50 dark:hover:bg-zinc-900/50 cursor-pointer transition-colors"
+                      onClick={() => handleOpen(notification)}
                     >
                       <div className="flex items-start gap-3">
                         {/* Unread indicator */}
@@ -132,9 +153,19 @@ export function NotificationsDropdown() {
                             {notification.message}
                           </p>
                           <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
-                            {notification.time}
+                            {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
                           </p>
                         </div>
+
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleToggleArchive(notification);
+                          }}
+                          className="text-xs text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                        >
+                          {notification.isArchived ? "Restore" : "Archive"}
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -155,7 +186,7 @@ export function NotificationsDropdown() {
                     />
                   </svg>
                   <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                    No new notifications
+                    {showArchived ? "No archived notifications" : "No notifications"}
                   </p>
                 </div>
               )}
@@ -108,6 +108,8 @@ export const defaultNavItems: NavItem[] = [
     ),
     submenu: [
       { name: "User Management", href: "/dashboard/settings/user-management" },
+      { name: "Roles & Permissions", href: "/dashboard/settings/permissions" },
+      { name: "Audit Trail", href: "/dashboard/settings/audit-trail" },
     ],
   },
 ];
\ No newline at end of file
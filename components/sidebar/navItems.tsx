@@ -16,6 +16,7 @@ import {
   FileText,
   Bug,
   Lightbulb,
+  MapIcon,
 } from "lucide-react";
 
 export function useNavItems(): NavItem[] {
@@ -94,6 +95,13 @@ export function useNavItems(): NavItem[] {
       icon: <FileText size={20} />,
       isNew: true,
     },
+    {
+      name: "Project Map",
+      href: "/dashboard/project-map",
+      category: "Department",
+      icon: <MapIcon size={20} />,
+      isNew: true,
+    },
     {
       name: "Office",
       href: "/dashboard/office",
@@ -115,6 +123,14 @@ export function useNavItems(): NavItem[] {
           name: "User Management",
           href: "/dashboard/settings/user-management",
         },
+        {
+          name: "Roles & Permissions",
+          href: "/dashboard/settings/permissions",
+        },
+        {
+          name: "Audit Trail",
+          href: "/dashboard/settings/audit-trail",
+        },
         {
           name: "Updates",
           href: "/dashboard/settings/updates",
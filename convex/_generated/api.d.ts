@@ -8,10 +8,14 @@
  * @module
  */
 
+import type * as accessExpiry from "../accessExpiry.js";
 import type * as accessRequests from "../accessRequests.js";
+import type * as accomplishmentReports from "../accomplishmentReports.js";
+import type * as auditChain from "../auditChain.js";
 import type * as auth from "../auth.js";
 import type * as blockedManagement from "../blockedManagement.js";
 import type * as budgetAccess from "../budgetAccess.js";
+import type * as budgetAdjustments from "../budgetAdjustments.js";
 import type * as budgetItemActivities from "../budgetItemActivities.js";
 import type * as budgetItems from "../budgetItems.js";
 import type * as budgetParticularAccess from "../budgetParticularAccess.js";
@@ -20,47 +24,90 @@ import type * as budgetSharedAccess from "../budgetSharedAccess.js";
 import type * as bugReports from "../bugReports.js";
 import type * as config from "../config.js";
 import type * as config_onboardingConfig from "../config/onboardingConfig.js";
+import type * as crons from "../crons.js";
 import type * as departments from "../departments.js";
+import type * as executiveDashboard from "../executiveDashboard.js";
+import type * as financialLineItems from "../financialLineItems.js";
 import type * as fiscalYears from "../fiscalYears.js";
 import type * as govtProjectActivities from "../govtProjectActivities.js";
 import type * as govtProjects from "../govtProjects.js";
+import type * as history from "../history.js";
 import type * as http from "../http.js";
 import type * as implementingAgencies from "../implementingAgencies.js";
+import type * as init_backfillDepartmentScopes from "../init/backfillDepartmentScopes.js";
+import type * as init_migrateRoles from "../init/migrateRoles.js";
+import type * as init_seedBudgetAdjustmentPermissions from "../init/seedBudgetAdjustmentPermissions.js";
 import type * as init_seedBudgetParticulars from "../init/seedBudgetParticulars.js";
+import type * as init_seedPermissionCatalogue from "../init/seedPermissionCatalogue.js";
 import type * as init_seedProjectCategories from "../init/seedProjectCategories.js";
 import type * as init_seedProjectParticulars from "../init/seedProjectParticulars.js";
 import type * as inspections from "../inspections.js";
+import type * as lib_accessExpiry from "../lib/accessExpiry.js";
+import type * as lib_agencyAggregation from "../lib/agencyAggregation.js";
 import type * as lib_aggregationUtils from "../lib/aggregationUtils.js";
 import type * as lib_apiResponse from "../lib/apiResponse.js";
+import type * as lib_auditChain from "../lib/auditChain.js";
+import type * as lib_batchRollback from "../lib/batchRollback.js";
+import type * as lib_blocklist from "../lib/blocklist.js";
+import type * as lib_breakdownImport from "../lib/breakdownImport.js";
 import type * as lib_budgetActivityLogger from "../lib/budgetActivityLogger.js";
+import type * as lib_budgetAdjustments from "../lib/budgetAdjustments.js";
 import type * as lib_budgetAggregation from "../lib/budgetAggregation.js";
 import type * as lib_categoryActivityLogger from "../lib/categoryActivityLogger.js";
 import type * as lib_checkBudgetAccess from "../lib/checkBudgetAccess.js";
+import type * as lib_departmentAccess from "../lib/departmentAccess.js";
+import type * as lib_entityHistory from "../lib/entityHistory.js";
 import type * as lib_errors from "../lib/errors.js";
+import type * as lib_executiveDashboard from "../lib/executiveDashboard.js";
+import type * as lib_financialLineItemAggregation from "../lib/financialLineItemAggregation.js";
+import type * as lib_fiscalYearRollover from "../lib/fiscalYearRollover.js";
 import type * as lib_govtProjectActivityLogger from "../lib/govtProjectActivityLogger.js";
+import type * as lib_inspectionPhotos from "../lib/inspectionPhotos.js";
+import type * as lib_locationAggregation from "../lib/locationAggregation.js";
+import type * as lib_loginRisk from "../lib/loginRisk.js";
+import type * as lib_mailer from "../lib/mailer.js";
 import type * as lib_nameUtils from "../lib/nameUtils.js";
+import type * as lib_notifications from "../lib/notifications.js";
+import type * as lib_obligationAggregation from "../lib/obligationAggregation.js";
 import type * as lib_particularActivityLogger from "../lib/particularActivityLogger.js";
+import type * as lib_passwordReset from "../lib/passwordReset.js";
+import type * as lib_permissionCatalogue from "../lib/permissionCatalogue.js";
+import type * as lib_permissionFunctions from "../lib/permissionFunctions.js";
+import type * as lib_photoMetadata from "../lib/photoMetadata.js";
 import type * as lib_projectActivityLogger from "../lib/projectActivityLogger.js";
 import type * as lib_projectAggregation from "../lib/projectAggregation.js";
+import type * as lib_projectTrend from "../lib/projectTrend.js";
 import type * as lib_rbac from "../lib/rbac.js";
+import type * as lib_roles from "../lib/roles.js";
+import type * as lib_sessions from "../lib/sessions.js";
+import type * as lib_slippageRules from "../lib/slippageRules.js";
 import type * as lib_statusValidation from "../lib/statusValidation.js";
+import type * as lib_totp from "../lib/totp.js";
 import type * as lib_trustFundActivityLogger from "../lib/trustFundActivityLogger.js";
+import type * as lib_trustedServer from "../lib/trustedServer.js";
+import type * as lib_twoFactor from "../lib/twoFactor.js";
 import type * as loginTrail from "../loginTrail.js";
 import type * as media from "../media.js";
 import type * as myFunctions from "../myFunctions.js";
+import type * as notifications from "../notifications.js";
 import type * as obligations from "../obligations.js";
 import type * as passwordReset from "../passwordReset.js";
 import type * as passwordResetManagement from "../passwordResetManagement.js";
 import type * as permissions from "../permissions.js";
 import type * as projectActivities from "../projectActivities.js";
+import type * as projectAnalytics from "../projectAnalytics.js";
 import type * as projectCategories from "../projectCategories.js";
+import type * as projectMap from "../projectMap.js";
 import type * as projectParticulars from "../projectParticulars.js";
 import type * as projects from "../projects.js";
 import type * as remarks from "../remarks.js";
+import type * as roles from "../roles.js";
 import type * as schema_accessRequests from "../schema/accessRequests.js";
+import type * as schema_accomplishmentReports from "../schema/accomplishmentReports.js";
 import type * as schema_aggregations from "../schema/aggregations.js";
 import type * as schema_audit from "../schema/audit.js";
 import type * as schema_auth from "../schema/auth.js";
+import type * as schema_budgetAdjustments from "../schema/budgetAdjustments.js";
 import type * as schema_budgetItemActivities from "../schema/budgetItemActivities.js";
 import type * as schema_budgetParticularSharedAccess from "../schema/budgetParticularSharedAccess.js";
 import type * as schema_budgetParticulars from "../schema/budgetParticulars.js";
@@ -68,6 +115,7 @@ import type * as schema_budgetSharedAccess from "../schema/budgetSharedAccess.js
 import type * as schema_budgets from "../schema/budgets.js";
 import type * as schema_bugReports from "../schema/bugReports.js";
 import type * as schema_departments from "../schema/departments.js";
+import type * as schema_financialLineItems from "../schema/financialLineItems.js";
 import type * as schema_fiscalYears from "../schema/fiscalYears.js";
 import type * as schema_govtProjectBreakdownActivities from "../schema/govtProjectBreakdownActivities.js";
 import type * as schema_govtProjectBreakdowns from "../schema/govtProjectBreakdowns.js";
@@ -75,6 +123,7 @@ import type * as schema_implementingAgencies from "../schema/implementingAgencie
 import type * as schema_inspections from "../schema/inspections.js";
 import type * as schema_media from "../schema/media.js";
 import type * as schema_misc from "../schema/misc.js";
+import type * as schema_notifications from "../schema/notifications.js";
 import type * as schema_passwordReset from "../schema/passwordReset.js";
 import type * as schema_permissions from "../schema/permissions.js";
 import type * as schema_projectActivities from "../schema/projectActivities.js";
@@ -86,11 +135,14 @@ import type * as schema_suggestions from "../schema/suggestions.js";
 import type * as schema_tableSettings from "../schema/tableSettings.js";
 import type * as schema_trustFundActivities from "../schema/trustFundActivities.js";
 import type * as schema_trustFunds from "../schema/trustFunds.js";
+import type * as schema_twoFactor from "../schema/twoFactor.js";
 import type * as schema_users from "../schema/users.js";
+import type * as sessions from "../sessions.js";
 import type * as suggestions from "../suggestions.js";
 import type * as tableSettings from "../tableSettings.js";
 import type * as trustFundActivities from "../trustFundActivities.js";
 import type * as trustFunds from "../trustFunds.js";
+import type * as twoFactor from "../twoFactor.js";
 import type * as userManagement from "../userManagement.js";
 import type * as users from "../users.js";
 
@@ -101,10 +153,14 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  accessExpiry: typeof accessExpiry;
   accessRequests: typeof accessRequests;
+  accomplishmentReports: typeof accomplishmentReports;
+  auditChain: typeof auditChain;
   auth: typeof auth;
   blockedManagement: typeof blockedManagement;
   budgetAccess: typeof budgetAccess;
+  budgetAdjustments: typeof budgetAdjustments;
   budgetItemActivities: typeof budgetItemActivities;
   budgetItems: typeof budgetItems;
   budgetParticularAccess: typeof budgetParticularAccess;
@@ -113,47 +169,90 @@ declare const fullApi: ApiFromModules<{
   bugReports: typeof bugReports;
   config: typeof config;
   "config/onboardingConfig": typeof config_onboardingConfig;
+  crons: typeof crons;
   departments: typeof departments;
+  executiveDashboard: typeof executiveDashboard;
+  financialLineItems: typeof financialLineItems;
   fiscalYears: typeof fiscalYears;
   govtProjectActivities: typeof govtProjectActivities;
   govtProjects: typeof govtProjects;
+  history: typeof history;
   http: typeof http;
   implementingAgencies: typeof implementingAgencies;
+  "init/backfillDepartmentScopes": typeof init_backfillDepartmentScopes;
+  "init/migrateRoles": typeof init_migrateRoles;
+  "init/seedBudgetAdjustmentPermissions": typeof init_seedBudgetAdjustmentPermissions;
   "init/seedBudgetParticulars": typeof init_seedBudgetParticulars;
+  "init/seedPermissionCatalogue": typeof init_seedPermissionCatalogue;
   "init/seedProjectCategories": typeof init_seedProjectCategories;
   "init/seedProjectParticulars": typeof init_seedProjectParticulars;
   inspections: typeof inspections;
+  "lib/accessExpiry": typeof lib_accessExpiry;
+  "lib/agencyAggregation": typeof lib_agencyAggregation;
   "lib/aggregationUtils": typeof lib_aggregationUtils;
   "lib/apiResponse": typeof lib_apiResponse;
+  "lib/auditChain": typeof lib_auditChain;
+  "lib/batchRollback": typeof lib_batchRollback;
+  "lib/blocklist": typeof lib_blocklist;
+  "lib/breakdownImport": typeof lib_breakdownImport;
   "lib/budgetActivityLogger": typeof lib_budgetActivityLogger;
+  "lib/budgetAdjustments": typeof lib_budgetAdjustments;
   "lib/budgetAggregation": typeof lib_budgetAggregation;
   "lib/categoryActivityLogger": typeof lib_categoryActivityLogger;
   "lib/checkBudgetAccess": typeof lib_checkBudgetAccess;
+  "lib/departmentAccess": typeof lib_departmentAccess;
+  "lib/entityHistory": typeof lib_entityHistory;
   "lib/errors": typeof lib_errors;
+  "lib/executiveDashboard": typeof lib_executiveDashboard;
+  "lib/financialLineItemAggregation": typeof lib_financialLineItemAggregation;
+  "lib/fiscalYearRollover": typeof lib_fiscalYearRollover;
   "lib/govtProjectActivityLogger": typeof lib_govtProjectActivityLogger;
+  "lib/inspectionPhotos": typeof lib_inspectionPhotos;
+  "lib/locationAggregation": typeof lib_locationAggregation;
+  "lib/loginRisk": typeof lib_loginRisk;
+  "lib/mailer": typeof lib_mailer;
   "lib/nameUtils": typeof lib_nameUtils;
+  "lib/notifications": typeof lib_notifications;
+  "lib/obligationAggregation": typeof lib_obligationAggregation;
   "lib/particularActivityLogger": typeof lib_particularActivityLogger;
+  "lib/passwordReset": typeof lib_passwordReset;
+  "lib/permissionCatalogue": typeof lib_permissionCatalogue;
+  "lib/permissionFunctions": typeof lib_permissionFunctions;
+  "lib/photoMetadata": typeof lib_photoMetadata;
   "lib/projectActivityLogger": typeof lib_projectActivityLogger;
   "lib/projectAggregation": typeof lib_projectAggregation;
+  "lib/projectTrend": typeof lib_projectTrend;
   "lib/rbac": typeof lib_rbac;
+  "lib/roles": typeof lib_roles;
+  "lib/sessions": typeof lib_sessions;
+  "lib/slippageRules": typeof lib_slippageRules;
   "lib/statusValidation": typeof lib_statusValidation;
+  "lib/totp": typeof lib_totp;
   "lib/trustFundActivityLogger": typeof lib_trustFundActivityLogger;
+  "lib/trustedServer": typeof lib_trustedServer;
+  "lib/twoFactor": typeof lib_twoFactor;
   loginTrail: typeof loginTrail;
   media: typeof media;
   myFunctions: typeof myFunctions;
+  notifications: typeof notifications;
   obligations: typeof obligations;
   passwordReset: typeof passwordReset;
   passwordResetManagement: typeof passwordResetManagement;
   permissions: typeof permissions;
   projectActivities: typeof projectActivities;
+  projectAnalytics: typeof projectAnalytics;
   projectCategories: typeof projectCategories;
+  projectMap: typeof projectMap;
   projectParticulars: typeof projectParticulars;
   projects: typeof projects;
   remarks: typeof remarks;
+  roles: typeof roles;
   "schema/accessRequests": typeof schema_accessRequests;
+  "schema/accomplishmentReports": typeof schema_accomplishmentReports;
   "schema/aggregations": typeof schema_aggregations;
   "schema/audit": typeof schema_audit;
   "schema/auth": typeof schema_auth;
+  "schema/budgetAdjustments": typeof schema_budgetAdjustments;
   "schema/budgetItemActivities": typeof schema_budgetItemActivities;
   "schema/budgetParticularSharedAccess": typeof schema_budgetParticularSharedAccess;
   "schema/budgetParticulars": typeof schema_budgetParticulars;
@@ -161,6 +260,7 @@ declare const fullApi: ApiFromModules<{
   "schema/budgets": typeof schema_budgets;
   "schema/bugReports": typeof schema_bugReports;
   "schema/departments": typeof schema_departments;
+  "schema/financialLineItems": typeof schema_financialLineItems;
   "schema/fiscalYears": typeof schema_fiscalYears;
   "schema/govtProjectBreakdownActivities": typeof schema_govtProjectBreakdownActivities;
   "schema/govtProjectBreakdowns": typeof schema_govtProjectBreakdowns;
@@ -168,6 +268,7 @@ declare const fullApi: ApiFromModules<{
   "schema/inspections": typeof schema_inspections;
   "schema/media": typeof schema_media;
   "schema/misc": typeof schema_misc;
+  "schema/notifications": typeof schema_notifications;
   "schema/passwordReset": typeof schema_passwordReset;
   "schema/permissions": typeof schema_permissions;
   "schema/projectActivities": typeof schema_projectActivities;
@@ -179,11 +280,14 @@ declare const fullApi: ApiFromModules<{
   "schema/tableSettings": typeof schema_tableSettings;
   "schema/trustFundActivities": typeof schema_trustFundActivities;
   "schema/trustFunds": typeof schema_trustFunds;
+  "schema/twoFactor": typeof schema_twoFactor;
   "schema/users": typeof schema_users;
+  sessions: typeof sessions;
   suggestions: typeof suggestions;
   tableSettings: typeof tableSettings;
   trustFundActivities: typeof trustFundActivities;
   trustFunds: typeof trustFunds;
+  twoFactor: typeof twoFactor;
   userManagement: typeof userManagement;
   users: typeof users;
 }>;
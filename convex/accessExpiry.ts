@@ -0,0 +1,220 @@
+// convex/accessExpiry.ts
+// Scheduled clean-up of time-boxed access (see crons.ts): ends grants once
+// they expire and tells the grantee and grantor shortly before.
+
+import { internalAction, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { MailMessage, getMailer } from "./lib/mailer";
+import {
+  EXPIRY_BATCH_SIZE,
+  EXPIRY_NOTICE_WINDOW_MS,
+  buildGranteeExpiryEmail,
+  buildGrantorExpiryEmail,
+  describeGrant,
+} from "./lib/accessExpiry";
+import { insertAuditedActivity } from "./lib/auditChain";
+
+/**
+ * Deactivate shared access and remove permission overrides past their expiry
+ */
+export const expireAccessGrants = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let expired = 0;
+
+    const budgetGrants = await ctx.db
+      .query("budgetSharedAccess")
+      .withIndex("isActiveAndExpiresAt", (q) =>
+        q.eq("isActive", true).gte("expiresAt", 0).lte("expiresAt", now)
+      )
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const grant of budgetGrants) {
+      await ctx.db.patch(grant._id, { isActive: false, revokedAt: now });
+      // Logged against the grantor: the expiry is the one they set
+      await insertAuditedActivity(ctx, "userAuditLog", {
+        performedBy: grant.grantedBy,
+        targetUserId: grant.userId,
+        action: "access_expired",
+        previousValues: JSON.stringify({
+          grant: "budget",
+          accessLevel: grant.accessLevel,
+          expiresAt: grant.expiresAt,
+        }),
+        notes: "Expired automatically",
+        timestamp: now,
+      });
+      expired++;
+    }
+
+    const particularGrants = await ctx.db
+      .query("budgetParticularSharedAccess")
+      .withIndex("isActiveAndExpiresAt", (q) =>
+        q.eq("isActive", true).gte("expiresAt", 0).lte("expiresAt", now)
+      )
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const grant of particularGrants) {
+      await ctx.db.patch(grant._id, { isActive: false, revokedAt: now });
+      await insertAuditedActivity(ctx, "userAuditLog", {
+        performedBy: grant.grantedBy,
+        targetUserId: grant.userId,
+        action: "access_expired",
+        previousValues: JSON.stringify({
+          grant: "particular",
+          particularCode: grant.particularCode,
+          accessLevel: grant.accessLevel,
+          expiresAt: grant.expiresAt,
+        }),
+        notes: "Expired automatically",
+        timestamp: now,
+      });
+      expired++;
+    }
+
+    const overrides = await ctx.db
+      .query("userPermissions")
+      .withIndex("expiresAt", (q) => q.gte("expiresAt", 0).lte("expiresAt", now))
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const override of overrides) {
+      const permission = await ctx.db.get(override.permissionId);
+      await ctx.db.delete(override._id);
+      await insertAuditedActivity(ctx, "userAuditLog", {
+        performedBy: override.createdBy,
+        targetUserId: override.userId,
+        action: "access_expired",
+        previousValues: JSON.stringify({
+          grant: "permission",
+          permission: permission?.key,
+          isGranted: override.isGranted,
+          expiresAt: override.expiresAt,
+        }),
+        notes: "Expired automatically",
+        timestamp: now,
+      });
+      expired++;
+    }
+
+    return { expired };
+  },
+});
+
+/**
+ * Find grants expiring within the notice window that nobody has been told
+ * about yet, mark them notified and return the emails to send
+ */
+export const collectExpiryNotices = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<MailMessage[]> => {
+    const now = Date.now();
+    const windowEnd = now + EXPIRY_NOTICE_WINDOW_MS;
+    const messages: MailMessage[] = [];
+
+    const addNotices = async (
+      granteeId: Id<"users">,
+      grantorId: Id<"users">,
+      grant: string,
+      expiresAt: number
+    ) => {
+      const grantee = await ctx.db.get(granteeId);
+      const grantor = await ctx.db.get(grantorId);
+      if (grantee?.email) {
+        messages.push(
+          buildGranteeExpiryEmail({ to: grantee.email, name: grantee.name, grant, expiresAt })
+        );
+      }
+      if (grantor?.email && grantor._id !== grantee?._id) {
+        messages.push(
+          buildGrantorExpiryEmail({
+            to: grantor.email,
+            name: grantor.name,
+            granteeName: grantee?.name || grantee?.email || "a user",
+            grant,
+            expiresAt,
+          })
+        );
+      }
+    };
+
+    const grants = await ctx.db
+      .query("budgetSharedAccess")
+      .withIndex("isActiveAndExpiresAt", (q) =>
+        q.eq("isActive", true).gt("expiresAt", now).lte("expiresAt", windowEnd)
+      )
+      .filter((q) => q.eq(q.field("expiryNotifiedAt"), undefined))
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const grant of grants) {
+      await ctx.db.patch(grant._id, { expiryNotifiedAt: now });
+      await addNotices(grant.userId, grant.grantedBy, describeGrant("budget"), grant.expiresAt!);
+    }
+
+    const particularGrants = await ctx.db
+      .query("budgetParticularSharedAccess")
+      .withIndex("isActiveAndExpiresAt", (q) =>
+        q.eq("isActive", true).gt("expiresAt", now).lte("expiresAt", windowEnd)
+      )
+      .filter((q) => q.eq(q.field("expiryNotifiedAt"), undefined))
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const grant of particularGrants) {
+      await ctx.db.patch(grant._id, { expiryNotifiedAt: now });
+      await addNotices(
+        grant.userId,
+        grant.grantedBy,
+        describeGrant("particular", grant.particularCode),
+        grant.expiresAt!
+      );
+    }
+
+    // Only granted overrides; an expiring denial is not something to warn about
+    const overrides = await ctx.db
+      .query("userPermissions")
+      .withIndex("expiresAt", (q) => q.gt("expiresAt", now).lte("expiresAt", windowEnd))
+      .filter((q) =>
+        q.and(q.eq(q.field("expiryNotifiedAt"), undefined), q.eq(q.field("isGranted"), true))
+      )
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const override of overrides) {
+      const permission = await ctx.db.get(override.permissionId);
+      await ctx.db.patch(override._id, { expiryNotifiedAt: now });
+      await addNotices(
+        override.userId,
+        override.createdBy,
+        describeGrant("permission", permission?.name || permission?.key),
+        override.expiresAt!
+      );
+    }
+
+    return messages;
+  },
+});
+
+/**
+ * Email the expiry notices
+ */
+export const sendExpiryNotices = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const messages: MailMessage[] = await ctx.runMutation(
+      internal.accessExpiry.collectExpiryNotices,
+      {}
+    );
+
+    const mailer = getMailer();
+    let sent = 0;
+    for (const message of messages) {
+      try {
+        await mailer.send(message);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send access expiry notice to ${message.to}:`, error);
+      }
+    }
+    return { sent, failed: messages.length - sent };
+  },
+});
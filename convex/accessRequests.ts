@@ -2,8 +2,11 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 import { Id } from "./_generated/dataModel";
+import { notifyAdmins } from "./lib/notifications";
 
 /**
  * Create an access request
@@ -49,6 +52,18 @@ export const create = mutation({
       updatedAt: Date.now(),
     });
 
+    await notifyAdmins(
+      ctx,
+      {
+        event: "access_request",
+        title: "New Access Request",
+        message: `${user.name || user.email || "A user"} requested ${args.accessType} access to ${args.pageRequested}`,
+        link: "/dashboard/project",
+        actorId: userId,
+      },
+      { includeAdmins: true, departmentId: user.departmentId }
+    );
+
     return requestId;
   },
 });
@@ -69,8 +84,8 @@ export const list = query({
       return [];
     }
 
-    // Only super_admin and admin can view all requests
-    if (user.role !== "super_admin" && user.role !== "admin") {
+    // Only access managers (admins by default) can view all requests
+    if (!(await hasPermission(ctx, user._id, PERMISSIONS.access.manage))) {
       return [];
     }
 
@@ -100,8 +115,8 @@ export const getPendingCount = query({
       return 0;
     }
 
-    // Only super_admin and admin can view pending count
-    if (user.role !== "super_admin" && user.role !== "admin") {
+    // Only access managers (admins by default) can view pending count
+    if (!(await hasPermission(ctx, user._id, PERMISSIONS.access.manage))) {
       return 0;
     }
 
@@ -160,8 +175,8 @@ export const updateStatus = mutation({
       throw new Error("User not found");
     }
 
-    // Only super_admin and admin can update status
-    if (user.role !== "super_admin" && user.role !== "admin") {
+    // Only access managers (admins by default) can update status
+    if (!(await hasPermission(ctx, user._id, PERMISSIONS.access.manage))) {
       throw new Error("Administrator access required");
     }
 
@@ -236,10 +251,7 @@ export const getParticularPendingRequests = query({
     if (!currentUser) return [];
 
     // Only admins can view pending requests
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       return [];
     }
 
@@ -315,10 +327,7 @@ export const getParticularPendingCount = query({
     if (!currentUser) return 0;
 
     // Only admins can view pending count
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       return 0;
     }
 
@@ -429,10 +438,7 @@ export const approveRequest = mutation({
     }
 
     // Only admins can approve requests
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       throw new Error("Only admins can approve access requests");
     }
 
@@ -527,10 +533,7 @@ export const rejectRequest = mutation({
     }
 
     // Only admins can reject requests
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       throw new Error("Only admins can reject access requests");
     }
 
@@ -0,0 +1,182 @@
+// convex/accomplishmentReports.ts
+
+import { v } from "convex/values";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { getDepartmentAccess, requireBreakdownAccess } from "./lib/departmentAccess";
+import { ensureUserName } from "./lib/nameUtils";
+import { plannedProgress } from "./lib/projectTrend";
+import {
+  applyLatestAccomplishmentReport,
+  calculateSlippage,
+  getSlippageAction,
+  getSlippageThreshold,
+} from "./lib/slippageRules";
+import { logGovtProjectActivity } from "./lib/govtProjectActivityLogger";
+import { MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+/**
+ * Planned accomplishment on a date from the breakdown's S-curve;
+ * null when the breakdown has no start or target date
+ */
+function getPlannedPercent(breakdown: Doc<"govtProjectBreakdowns">, asOfDate: number) {
+  if (!breakdown.dateStarted || !breakdown.targetDate) return null;
+  return Math.round(plannedProgress(breakdown.dateStarted, breakdown.targetDate, asOfDate) * 10000) / 100;
+}
+
+function validatePercent(value: number, label: string) {
+  if (!Number.isFinite(value) || value < 0 || value > 100) {
+    throw new Error(`${label} must be between 0 and 100`);
+  }
+}
+
+/**
+ * Record a filed or deleted report on the breakdown's activity log. The
+ * breakdown changes (if at all) when the latest report is applied, which is
+ * logged separately, so its snapshot is logged on both sides here and the
+ * reason carries the report.
+ */
+async function logReportChange(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  breakdown: Doc<"govtProjectBreakdowns">,
+  report: Pick<Doc<"accomplishmentReports">, "asOfDate" | "plannedPercent" | "actualPercent">,
+  change: "filed" | "deleted"
+) {
+  const asOf = new Date(report.asOfDate).toISOString().slice(0, 10);
+  await logGovtProjectActivity(ctx, userId, {
+    action: "updated",
+    breakdownId: breakdown._id,
+    breakdown,
+    previousValues: breakdown,
+    newValues: breakdown,
+    reason: `Accomplishment report as of ${asOf} ${change} (planned ${report.plannedPercent}%, actual ${report.actualPercent}%)`,
+  });
+}
+
+/**
+ * Accomplishment reports of a breakdown, latest first, with the slippage rule in force
+ */
+export const listByBreakdown = permissionQuery(PERMISSIONS.breakdown.view, {
+  args: {
+    breakdownId: v.id("govtProjectBreakdowns"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const breakdown = await ctx.db.get(args.breakdownId);
+    if (!breakdown) throw new Error("Breakdown not found");
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
+
+    const reports = await ctx.db
+      .query("accomplishmentReports")
+      .withIndex("breakdownAndAsOfDate", (q) => q.eq("breakdownId", args.breakdownId))
+      .order("desc")
+      .collect();
+
+    const reportsWithAuthor = await Promise.all(
+      reports.map(async (report) => {
+        const author = await ctx.db.get(report.createdBy);
+        return {
+          ...report,
+          createdByName: author ? ensureUserName(author).name : "Unknown User",
+        };
+      })
+    );
+
+    return {
+      reports: reportsWithAuthor,
+      rule: {
+        threshold: getSlippageThreshold(),
+        action: getSlippageAction(),
+      },
+      plannedToday: getPlannedPercent(breakdown, Date.now()),
+    };
+  },
+});
+
+/**
+ * File an accomplishment report. Without a planned percentage the
+ * breakdown's S-curve between its start and target dates is used.
+ */
+export const create = permissionMutation(PERMISSIONS.breakdown.edit, {
+  args: {
+    breakdownId: v.id("govtProjectBreakdowns"),
+    asOfDate: v.number(),
+    plannedPercent: v.optional(v.number()),
+    actualPercent: v.number(),
+    narrative: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const breakdown = await ctx.db.get(args.breakdownId);
+    if (!breakdown || breakdown.isDeleted) throw new Error("Breakdown not found");
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
+
+    if (args.asOfDate > Date.now()) {
+      throw new Error("The as-of date cannot be in the future");
+    }
+
+    const plannedPercent = args.plannedPercent ?? getPlannedPercent(breakdown, args.asOfDate);
+    if (plannedPercent === null) {
+      throw new Error("Enter a planned percentage or set the breakdown's start and target dates");
+    }
+    validatePercent(plannedPercent, "Planned accomplishment");
+    validatePercent(args.actualPercent, "Actual accomplishment");
+
+    const existing = await ctx.db
+      .query("accomplishmentReports")
+      .withIndex("breakdownAndAsOfDate", (q) =>
+        q.eq("breakdownId", args.breakdownId).eq("asOfDate", args.asOfDate)
+      )
+      .first();
+    if (existing) {
+      throw new Error("A report for this date already exists");
+    }
+
+    const reportId = await ctx.db.insert("accomplishmentReports", {
+      breakdownId: args.breakdownId,
+      projectId: breakdown.projectId,
+      asOfDate: args.asOfDate,
+      plannedPercent,
+      actualPercent: args.actualPercent,
+      slippage: calculateSlippage(args.actualPercent, plannedPercent),
+      narrative: args.narrative?.trim() || undefined,
+      createdBy: userId,
+      createdAt: Date.now(),
+    });
+
+    await logReportChange(ctx, userId, breakdown, { ...args, plannedPercent }, "filed");
+    await applyLatestAccomplishmentReport(ctx, userId, args.breakdownId);
+
+    return reportId;
+  },
+});
+
+/**
+ * Delete a report filed in error; the breakdown falls back to the report before it.
+ * The deleted report's figures stay on the breakdown's activity log.
+ */
+export const remove = permissionMutation(PERMISSIONS.breakdown.edit, {
+  args: {
+    id: v.id("accomplishmentReports"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const report = await ctx.db.get(args.id);
+    if (!report) throw new Error("Report not found");
+
+    const breakdown = await ctx.db.get(report.breakdownId);
+    if (!breakdown) throw new Error("Breakdown not found");
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
+
+    await ctx.db.delete(args.id);
+    await logReportChange(ctx, userId, breakdown, report, "deleted");
+    await applyLatestAccomplishmentReport(ctx, userId, report.breakdownId);
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,365 @@
+// convex/auditChain.ts
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { Doc } from "./_generated/dataModel";
+import {
+  AuditChainSource,
+  CHAINED_TABLES,
+  GENESIS_HASH,
+  canonicalJson,
+  getChainHead,
+  hashChainEntry,
+  hashSourceRow,
+  isChainedTable,
+  sha256Hex,
+  signAuditBundle,
+} from "./lib/auditChain";
+
+const DEFAULT_VERIFY_LIMIT = 500;
+const MAX_VERIFY_LIMIT = 1000;
+const MAX_BUNDLE_ENTRIES = 2000;
+
+type ChainIssueType =
+  | "gap"
+  | "duplicate_sequence"
+  | "broken_link"
+  | "entry_modified"
+  | "source_modified"
+  | "source_deleted"
+  | "unchained_row"
+  | "truncated";
+
+interface ChainIssue {
+  type: ChainIssueType;
+  sequence?: number;
+  source?: AuditChainSource;
+  sourceId?: string;
+  message: string;
+}
+
+async function requireSuperAdmin(ctx: QueryCtx) {
+  const userId = await getAuthUserId(ctx);
+  if (userId === null) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await ctx.db.get(userId);
+  if (!user || user.role !== "super_admin") {
+    throw new Error("Not authorized - super_admin access required");
+  }
+  await requireTwoFactorVerified(ctx, user);
+  return user;
+}
+
+/**
+ * The logged row a chain entry points at; null when it has been deleted
+ */
+async function getSourceRow(ctx: QueryCtx, entry: Doc<"auditChain">) {
+  if (!entry.sourceId || !isChainedTable(entry.source)) return null;
+  const id = ctx.db.normalizeId(entry.source, entry.sourceId);
+  return id ? await ctx.db.get(id) : null;
+}
+
+/**
+ * Compare an entry's payload hash with the row or payload it covers
+ */
+async function checkPayload(
+  ctx: QueryCtx,
+  entry: Doc<"auditChain">
+): Promise<ChainIssue | null> {
+  if (entry.payload !== undefined) {
+    if ((await sha256Hex(entry.payload)) !== entry.payloadHash) {
+      return {
+        type: "source_modified",
+        sequence: entry.sequence,
+        source: entry.source,
+        message: `The ${entry.source} entry stored with #${entry.sequence} was modified`,
+      };
+    }
+    return null;
+  }
+
+  const row = await getSourceRow(ctx, entry);
+  if (!row || !isChainedTable(entry.source)) {
+    return {
+      type: "source_deleted",
+      sequence: entry.sequence,
+      source: entry.source,
+      sourceId: entry.sourceId,
+      message: `The ${entry.source} row logged by #${entry.sequence} was deleted`,
+    };
+  }
+  if ((await hashSourceRow(entry.source, row)) !== entry.payloadHash) {
+    return {
+      type: "source_modified",
+      sequence: entry.sequence,
+      source: entry.source,
+      sourceId: entry.sourceId,
+      message: `The ${entry.source} row logged by #${entry.sequence} was modified`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether the chain still reaches the head of the last signed export;
+ * entries removed from the end of the chain leave no gap to find otherwise
+ */
+async function checkLastExportedHead(ctx: QueryCtx): Promise<ChainIssue | null> {
+  const checkpoint = await ctx.db
+    .query("auditChainCheckpoints")
+    .withIndex("sequence")
+    .order("desc")
+    .first();
+  if (!checkpoint) return null;
+
+  const entry = await ctx.db
+    .query("auditChain")
+    .withIndex("sequence", (q) => q.eq("sequence", checkpoint.sequence))
+    .first();
+  if (entry?.hash === checkpoint.hash) return null;
+
+  const exportedOn = new Date(checkpoint.exportedAt).toISOString().slice(0, 10);
+  return {
+    type: "truncated",
+    sequence: checkpoint.sequence,
+    message: entry
+      ? `Entry #${checkpoint.sequence} no longer matches the head exported on ${exportedOn}`
+      : `Entry #${checkpoint.sequence}, the head exported on ${exportedOn}, is missing`,
+  };
+}
+
+/**
+ * Current head of the chain and whether bundles can be signed (super_admin only)
+ */
+export const getStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireSuperAdmin(ctx);
+
+    const head = await getChainHead(ctx);
+    const first = await ctx.db.query("auditChain").withIndex("sequence").first();
+
+    return {
+      length: head?.sequence ?? 0,
+      startedAt: first?.timestamp,
+      headHash: head?.hash,
+      headTimestamp: head?.timestamp,
+      signingConfigured: !!process.env.AUDIT_SIGNING_SECRET,
+    };
+  },
+});
+
+/**
+ * Verify a stretch of the chain (super_admin only).
+ * Checks sequence gaps, links between entries, entry hashes and the logged
+ * rows themselves, and looks for activity rows logged without a chain entry.
+ * The last stretch also checks the chain still reaches the last exported head.
+ * Call again with nextSequence until it is null to verify the whole chain.
+ */
+export const verify = query({
+  args: {
+    fromSequence: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireSuperAdmin(ctx);
+
+    const fromSequence = Math.max(1, Math.floor(args.fromSequence ?? 1));
+    const limit = Math.min(Math.max(1, Math.floor(args.limit ?? DEFAULT_VERIFY_LIMIT)), MAX_VERIFY_LIMIT);
+
+    const entries = await ctx.db
+      .query("auditChain")
+      .withIndex("sequence", (q) => q.gte("sequence", fromSequence))
+      .take(limit + 1);
+    const hasMore = entries.length > limit;
+    const checked = entries.slice(0, limit);
+
+    const issues: ChainIssue[] = [];
+
+    // Link to the entry before this stretch, if any
+    let previousHash: string | null = GENESIS_HASH;
+    if (fromSequence > 1) {
+      const previous = await ctx.db
+        .query("auditChain")
+        .withIndex("sequence", (q) => q.eq("sequence", fromSequence - 1))
+        .first();
+      previousHash = previous?.hash ?? null;
+    }
+    let expectedSequence = fromSequence;
+
+    for (const entry of checked) {
+      if (entry.sequence > expectedSequence) {
+        issues.push({
+          type: "gap",
+          sequence: entry.sequence,
+          message:
+            entry.sequence - expectedSequence === 1
+              ? `Entry #${expectedSequence} is missing`
+              : `Entries #${expectedSequence} to #${entry.sequence - 1} are missing`,
+        });
+        // The missing entry's hash is unknown, so this link cannot be checked
+        previousHash = null;
+      } else if (entry.sequence < expectedSequence) {
+        issues.push({
+          type: "duplicate_sequence",
+          sequence: entry.sequence,
+          message: `Entry #${entry.sequence} appears more than once`,
+        });
+      }
+
+      if (previousHash !== null && entry.previousHash !== previousHash) {
+        issues.push({
+          type: "broken_link",
+          sequence: entry.sequence,
+          message: `Entry #${entry.sequence} does not follow the entry before it`,
+        });
+      }
+
+      if ((await hashChainEntry(entry)) !== entry.hash) {
+        issues.push({
+          type: "entry_modified",
+          sequence: entry.sequence,
+          message: `Entry #${entry.sequence} was modified`,
+        });
+      }
+
+      const payloadIssue = await checkPayload(ctx, entry);
+      if (payloadIssue) issues.push(payloadIssue);
+
+      expectedSequence = entry.sequence + 1;
+      previousHash = entry.hash;
+    }
+
+    // Activity rows written in this stretch that never made it into the chain
+    if (checked.length > 0) {
+      const start = checked[0].timestamp;
+      const end = checked[checked.length - 1].timestamp;
+
+      for (const table of CHAINED_TABLES) {
+        const rows = await ctx.db
+          .query(table)
+          .withIndex("timestamp", (q) => q.gte("timestamp", start).lte("timestamp", end))
+          .take(limit);
+
+        for (const row of rows) {
+          const chained = await ctx.db
+            .query("auditChain")
+            .withIndex("source", (q) => q.eq("source", table).eq("sourceId", row._id))
+            .first();
+          if (!chained) {
+            issues.push({
+              type: "unchained_row",
+              source: table,
+              sourceId: row._id,
+              message: `A ${table} row was written without a chain entry`,
+            });
+          }
+        }
+      }
+    }
+
+    if (!hasMore) {
+      const headIssue = await checkLastExportedHead(ctx);
+      if (headIssue) issues.push(headIssue);
+    }
+
+    return {
+      fromSequence,
+      checked: checked.length,
+      lastSequence: checked.length > 0 ? checked[checked.length - 1].sequence : null,
+      nextSequence: hasMore ? entries[limit].sequence : null,
+      isValid: issues.length === 0,
+      issues,
+    };
+  },
+});
+
+/**
+ * Export the chain entries and logged rows for a date range as a bundle
+ * signed with AUDIT_SIGNING_SECRET (super_admin only).
+ * The bundle carries the chain head, which is kept as a checkpoint for verify.
+ */
+export const exportBundle = mutation({
+  args: {
+    startDate: v.number(),
+    endDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireSuperAdmin(ctx);
+
+    if (args.endDate < args.startDate) {
+      throw new Error("End date must be after start date");
+    }
+
+    const entries = await ctx.db
+      .query("auditChain")
+      .withIndex("timestamp", (q) =>
+        q.gte("timestamp", args.startDate).lte("timestamp", args.endDate)
+      )
+      .take(MAX_BUNDLE_ENTRIES + 1);
+    if (entries.length > MAX_BUNDLE_ENTRIES) {
+      throw new Error(
+        `More than ${MAX_BUNDLE_ENTRIES} entries in this range. Choose a shorter date range.`
+      );
+    }
+
+    const head = await getChainHead(ctx);
+
+    const bundle = {
+      version: 1,
+      generatedAt: Date.now(),
+      generatedBy: {
+        userId: user._id,
+        name: user.name,
+        email: user.email,
+      },
+      range: {
+        startDate: args.startDate,
+        endDate: args.endDate,
+      },
+      chainHead: head ? { sequence: head.sequence, hash: head.hash } : null,
+      entries: await Promise.all(
+        entries.map(async (entry) => ({
+          sequence: entry.sequence,
+          source: entry.source,
+          sourceId: entry.sourceId,
+          action: entry.action,
+          performedBy: entry.performedBy,
+          payloadHash: entry.payloadHash,
+          previousHash: entry.previousHash,
+          hash: entry.hash,
+          timestamp: entry.timestamp,
+          record: entry.payload !== undefined
+            ? JSON.parse(entry.payload)
+            : await getSourceRow(ctx, entry),
+        }))
+      ),
+    };
+
+    const bundleHash = await sha256Hex(canonicalJson(bundle));
+    const signature = await signAuditBundle(bundleHash);
+
+    if (head) {
+      await ctx.db.insert("auditChainCheckpoints", {
+        sequence: head.sequence,
+        hash: head.hash,
+        signature,
+        exportedBy: user._id,
+        exportedAt: bundle.generatedAt,
+      });
+    }
+
+    return {
+      ...bundle,
+      integrity: {
+        algorithm: "HMAC-SHA256",
+        bundleHash,
+        signature,
+      },
+    };
+  },
+});
@@ -2,13 +2,91 @@
 // CORE AUTHENTICATION SETUP
 
 import { Password } from "@convex-dev/auth/providers/Password";
+import {
+  ConvexCredentials,
+  ConvexCredentialsUserConfig,
+} from "@convex-dev/auth/providers/ConvexCredentials";
 import { convexAuth } from "@convex-dev/auth/server";
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { Value, v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getAuthSessionId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { DataModel, Doc } from "./_generated/dataModel";
+import { parseSecurityPreferences } from "./lib/twoFactor";
+import {
+  assessLoginRisk,
+  generateDeviceFingerprint,
+  getFailedLoginLockReason,
+  getHighRiskAction,
+  lockForLoginRisk,
+  raiseLoginRiskAlerts,
+} from "./lib/loginRisk";
+import { assertTrustedServer, parseGeoLocation } from "./lib/trustedServer";
+import { getActiveEmailBlock, getActiveIPBlock } from "./lib/blocklist";
+import { resolveHomeRoute } from "./lib/roles";
+import { insertAuditedActivity } from "./lib/auditChain";
+import { insertSecurityAlert } from "./lib/notifications";
+
+// Password() keeps its implementation in `options`, which Convex Auth merges
+// over the provider when it loads it
+const { authorize: authorizePassword, ...passwordOptions } = (
+  Password<DataModel>() as unknown as { options: ConvexCredentialsUserConfig<DataModel> }
+).options;
+
+/**
+ * Password provider that enforces the sign-in rules (blocked IPs and emails,
+ * locked, suspended and inactive accounts, failed-attempt lockout, login risk)
+ * itself, so calling auth:signIn directly cannot skip them.
+ * The client address comes from the Next.js server (see middleware.ts), which
+ * adds it to the params with TRUSTED_SERVER_SECRET; other sign-ins are refused.
+ */
+const GuardedPassword = ConvexCredentials<DataModel>({
+  ...passwordOptions,
+  authorize: async (params, ctx) => {
+    if (params.flow !== "signIn") {
+      return authorizePassword(params, ctx);
+    }
+
+    const client = getSignInClient(params);
+    const recordFailure = (failureReason: string) =>
+      ctx.runMutation(internal.auth.recordFailedLogin, { ...client, failureReason });
+
+    const check = await ctx.runQuery(internal.auth.checkSignInAllowed, {
+      email: client.email,
+      ipAddress: client.ipAddress,
+    });
+    if (!check.allowed) {
+      await recordFailure(check.reason ?? "Sign-in blocked");
+      throw new Error(check.reason);
+    }
+
+    let result;
+    try {
+      result = await authorizePassword(params, ctx);
+    } catch (error) {
+      await recordFailure(error instanceof Error ? error.message : "Authentication Failed");
+      throw error;
+    }
+    if (!result) return null;
+
+    const login = await ctx.runMutation(internal.auth.recordSuccessfulLogin, {
+      userId: result.userId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      geoLocation: client.geoLocation,
+    });
+    if (login.locked) {
+      // High-risk login: refuse it before a session is created
+      throw new Error("Your account has been locked after an unusual sign-in. Please contact your administrator.");
+    }
+
+    return result;
+  },
+});
 
 export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
-  providers: [Password],
+  providers: [GuardedPassword],
   callbacks: {
     async afterUserCreatedOrUpdated(ctx, args) {
       // Initialize new users with default role and status
@@ -75,15 +153,19 @@ export const getCurrentUser = query({
       return null;
     }
     
+    // Landing page from the user's roles, used by the layout redirects
+    const homeRoute = await resolveHomeRoute(ctx, user);
+
     // Ensure backward compatibility: generate name if missing
     if (!user.name && user.firstName) {
       return {
         ...user,
         name: formatFullName(user.firstName, user.middleName, user.lastName, user.nameExtension),
+        homeRoute,
       };
     }
     
-    return user;
+    return { ...user, homeRoute };
   },
 });
 
@@ -109,101 +191,125 @@ export const verifyUserCanSignIn = query({
       return { allowed: true }; // Let auth handle user not found
     }
 
-    // Check if account is locked
-    if (user.isLocked) {
-      return {
-        allowed: false,
-        reason: user.lockReason || "Your account has been locked for security reasons.",
-      };
-    }
-
-    // Check if status field exists (for backward compatibility)
-    if (user.status === undefined) {
-      return { allowed: true };
-    }
+    return getSignInBlock(user);
+  },
+});
 
-    if (user.status === "suspended") {
+/**
+ * Gate for the password step, run by the password provider before it checks
+ * the password. Checks blocked IPs and emails with the real client address.
+ */
+export const checkSignInAllowed = internalQuery({
+  args: {
+    email: v.string(),
+    ipAddress: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (await getActiveIPBlock(ctx, args.ipAddress)) {
       return {
         allowed: false,
-        reason: user.suspensionReason || "Your account has been suspended.",
+        reason: "Sign-in from your network has been blocked. Please contact your administrator.",
       };
     }
 
-    if (user.status === "inactive") {
+    if (await getActiveEmailBlock(ctx, args.email)) {
       return {
         allowed: false,
-        reason: "Your account is inactive. Please contact support.",
+        reason: "Sign-in for this email has been blocked. Please contact your administrator.",
       };
     }
 
-    return { allowed: true };
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email))
+      .first();
+
+    return user ? getSignInBlock(user) : { allowed: true };
   },
 });
 
 /**
  * Record successful login
- * Call this after successful authentication
+ * Run by the password provider once the password is verified, before the
+ * session is created; the IP address and location come from the request.
+ * Scores the login (lib/loginRisk) and reports `locked` if a high-risk login
+ * locked the account, in which case the sign-in must be refused.
+ * The session is attached afterwards by linkLoginSession.
  */
-export const recordSuccessfulLogin = mutation({
+export const recordSuccessfulLogin = internalMutation({
   args: {
-    userId: v.optional(v.id("users")),
-    email: v.optional(v.string()), 
+    userId: v.id("users"),
     ipAddress: v.string(),
     userAgent: v.optional(v.string()),
-    sessionId: v.optional(v.id("authSessions")),
-    location: v.optional(v.string()), 
     geoLocation: v.optional(v.string()), 
   },
   handler: async (ctx, args) => {
-    let user = null;
-    
-    // Find user by ID or Email
-    if (args.userId) {
-      user = await ctx.db.get(args.userId);
-    } else if (args.email) {
-      user = await ctx.db
-        .query("users")
-        .withIndex("email", (q) => q.eq("email", args.email))
-        .first();
-    }
-
+    const { userId } = args;
+    const user = await ctx.db.get(userId);
     if (!user) {
       throw new Error("User not found");
     }
 
-    const userId = user._id;
     const now = Date.now();
 
     // Parse user agent to extract device and browser info
     const deviceInfo = parseUserAgent(args.userAgent);
-    
-    // Use provided geoLocation or fall back to IP-based parsing
-    let geoLocation = null;
-    if (args.geoLocation) {
-      try {
-        geoLocation = JSON.parse(args.geoLocation);
-      } catch (e) {
-        geoLocation = await parseIPAddress(args.ipAddress);
-      }
-    } else {
-      geoLocation = await parseIPAddress(args.ipAddress);
-    }
+    const geoLocation = parseGeoLocation(args.geoLocation);
+    const twoFactorEnabled = parseSecurityPreferences(user.securityPreferences).twoFactorEnabled === true;
+
+    // Score against the history before this login is added to it
+    const assessment = await assessLoginRisk(ctx, {
+      user,
+      succeeded: true,
+      userAgent: args.userAgent,
+      geoLocation,
+      now,
+    });
+    const isHighRisk = assessment.level === "high";
 
     // Record login attempt
-    await ctx.db.insert("loginAttempts", {
+    const attemptId = await ctx.db.insert("loginAttempts", {
       userId: userId,
-      identifier: user.email || args.email || "unknown",
+      identifier: user.email || "unknown",
       status: "success",
       ipAddress: args.ipAddress,
       geoLocation: geoLocation ? JSON.stringify(geoLocation) : undefined,
       deviceInfo: JSON.stringify(deviceInfo.device),
       browserInfo: JSON.stringify(deviceInfo.browser),
-      sessionId: args.sessionId,
       timestamp: now,
-      riskScore: 0,
-      flaggedForReview: false,
+      riskScore: assessment.riskScore,
+      riskFactors: JSON.stringify(assessment.riskFactors),
+      flaggedForReview: isHighRisk,
+      // 🆕 Second step still to come for two-factor accounts
+      twoFactorStatus: twoFactorEnabled ? "pending" : undefined,
+    });
+
+    await raiseLoginRiskAlerts(ctx, {
+      user,
+      loginAttemptId: attemptId,
+      assessment,
+      ipAddress: args.ipAddress,
+      geoLocation,
+      succeeded: true,
     });
 
+    // High risk: lock, or step up to the two-factor check. Two-factor sessions
+    // are already held at that check; without two-factor there is nothing to
+    // step up to, so the account is locked.
+    const highRiskAction = getHighRiskAction();
+    if (
+      isHighRisk &&
+      (highRiskAction === "lock" || (highRiskAction === "step_up" && !twoFactorEnabled))
+    ) {
+      await lockForLoginRisk(ctx, { user, loginAttemptId: attemptId, sessionId: null, assessment });
+      return {
+        success: true,
+        riskScore: assessment.riskScore,
+        riskLevel: assessment.level,
+        locked: true,
+      };
+    }
+
     // Update user's last login and reset failed attempts
     await ctx.db.patch(userId, {
       lastLogin: now,
@@ -212,7 +318,7 @@ export const recordSuccessfulLogin = mutation({
     });
 
     // Update or create device fingerprint
-    const fingerprint = generateDeviceFingerprint(args.ipAddress, args.userAgent);
+    const fingerprint = generateDeviceFingerprint(args.userAgent);
     const existingDevice = await ctx.db
       .query("deviceFingerprints")
       .withIndex("userAndFingerprint", (q) => 
@@ -275,21 +381,55 @@ export const recordSuccessfulLogin = mutation({
       }
     }
 
-    return { success: true };
+    return {
+      success: true,
+      riskScore: assessment.riskScore,
+      riskLevel: assessment.level,
+      locked: false,
+    };
+  },
+});
+
+/**
+ * Attach the new session to the login recorded for it, so the session list
+ * shows its device and location. Called by the Next.js server with the new
+ * session's token, right after it has forwarded the sign-in.
+ */
+export const linkLoginSession = mutation({
+  args: {
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertTrustedServer(args.serverSecret);
+
+    const userId = await getAuthUserId(ctx);
+    const sessionId = await getAuthSessionId(ctx);
+    if (!userId || !sessionId) {
+      throw new Error("Not authenticated");
+    }
+
+    const login = await ctx.db
+      .query("loginAttempts")
+      .withIndex("userAndTimestamp", (q) => q.eq("userId", userId))
+      .order("desc")
+      .filter((q) => q.eq(q.field("status"), "success"))
+      .first();
+    if (login && !login.sessionId) {
+      await ctx.db.patch(login._id, { sessionId });
+    }
   },
 });
 
 /**
  * Record failed login attempt
- * Call this when login fails (e.g. invalid password)
+ * Run by the password provider when a sign-in is blocked or fails (e.g. invalid password)
  */
-export const recordFailedLogin = mutation({
+export const recordFailedLogin = internalMutation({
   args: {
     email: v.string(),
     ipAddress: v.string(),
     userAgent: v.optional(v.string()),
     failureReason: v.string(),
-    location: v.optional(v.string()), 
     geoLocation: v.optional(v.string()), 
   },
   handler: async (ctx, args) => {
@@ -300,63 +440,19 @@ export const recordFailedLogin = mutation({
 
     const now = Date.now();
     const deviceInfo = parseUserAgent(args.userAgent);
-    
-    let geoLocation = null;
-    if (args.geoLocation) {
-      try {
-        geoLocation = JSON.parse(args.geoLocation);
-      } catch (e) {
-        geoLocation = await parseIPAddress(args.ipAddress);
-      }
-    } else {
-      geoLocation = await parseIPAddress(args.ipAddress);
-    }
+    const geoLocation = parseGeoLocation(args.geoLocation);
 
     // Calculate risk score
-    let riskScore = 20;
-    const riskFactors: string[] = [];
-
-    // Check for multiple failed attempts
-    if (user) {
-      const recentFailedAttempts = await ctx.db
-        .query("loginAttempts")
-        .withIndex("userAndStatus", (q) => 
-          q.eq("userId", user._id).eq("status", "failed")
-        )
-        .order("desc")
-        .take(10);
-
-      const recentCount = recentFailedAttempts.filter(
-        a => a.timestamp > now - 60 * 60 * 1000
-      ).length;
-
-      if (recentCount > 3) {
-        riskScore += 30;
-        riskFactors.push("multiple_failed_attempts");
-      }
-
-      // Check for unusual location
-      if (geoLocation && geoLocation.city && geoLocation.country) {
-        const knownLocations = await ctx.db
-          .query("loginLocations")
-          .withIndex("userId", (q) => q.eq("userId", user._id))
-          .collect();
-        
-        const locationKnown = knownLocations.some(
-          loc => loc.city === geoLocation.city && loc.country === geoLocation.country
-        );
-
-        if (!locationKnown) {
-          riskScore += 25;
-          riskFactors.push("unusual_location");
-        }
-      }
-    } else {
-      riskScore += 10;
-      riskFactors.push("unknown_user");
-    }
+    const assessment = await assessLoginRisk(ctx, {
+      user,
+      succeeded: false,
+      userAgent: args.userAgent,
+      geoLocation,
+      now,
+    });
+    const { riskScore, riskFactors } = assessment;
 
-    const status = riskScore > 70 ? "suspicious" : "failed";
+    const status = assessment.level === "high" ? "suspicious" : "failed";
 
     // Record login attempt
     const attemptId = await ctx.db.insert("loginAttempts", {
@@ -371,7 +467,7 @@ export const recordFailedLogin = mutation({
       timestamp: now,
       riskScore,
       riskFactors: JSON.stringify(riskFactors),
-      flaggedForReview: riskScore > 70,
+      flaggedForReview: assessment.level === "high",
     });
 
     // Update user's failed login count if they exist
@@ -388,11 +484,11 @@ export const recordFailedLogin = mutation({
       if (failedCount >= 5) {
         await ctx.db.patch(user._id, {
           isLocked: true,
-          lockReason: `Account locked after ${failedCount} failed login attempts`,
+          lockReason: getFailedLoginLockReason(failedCount),
           lockedAt: now,
         });
 
-        await ctx.db.insert("securityAlerts", {
+        await insertSecurityAlert(ctx, {
           type: "account_locked",
           severity: "high",
           userId: user._id,
@@ -402,8 +498,18 @@ export const recordFailedLogin = mutation({
           status: "open",
           createdAt: now,
         });
-      } else if (riskScore > 70) {
-        await ctx.db.insert("securityAlerts", {
+      } else if (assessment.travel) {
+        // Someone far from the user's last login is trying the password
+        await raiseLoginRiskAlerts(ctx, {
+          user,
+          loginAttemptId: attemptId,
+          assessment,
+          ipAddress: args.ipAddress,
+          geoLocation,
+          succeeded: false,
+        });
+      } else if (assessment.level === "high") {
+        await insertSecurityAlert(ctx, {
           type: "suspicious_login",
           severity: "medium",
           userId: user._id,
@@ -495,7 +601,7 @@ export const completeInitialOnboarding = mutation({
     await ctx.db.patch(userId, updates);
 
     // Log this significant profile update
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: userId,
       targetUserId: userId,
       action: "user_updated",
@@ -534,6 +640,56 @@ function formatFullName(
   return parts.join(" ");
 }
 
+/**
+ * Client details the Next.js server added to a password sign-in; throws
+ * unless the params carry TRUSTED_SERVER_SECRET
+ */
+function getSignInClient(params: Partial<Record<string, Value | undefined>>) {
+  const text = (value: Value | undefined) => (typeof value === "string" ? value : undefined);
+  assertTrustedServer(text(params.serverSecret) ?? "");
+
+  return {
+    email: text(params.email) ?? "",
+    ipAddress: text(params.ipAddress) ?? "Unknown",
+    userAgent: text(params.userAgent),
+    geoLocation: text(params.geoLocation),
+  };
+}
+
+/**
+ * Why a user may not sign in, if anything
+ */
+function getSignInBlock(user: Doc<"users">): { allowed: boolean; reason?: string } {
+  // Check if account is locked
+  if (user.isLocked) {
+    return {
+      allowed: false,
+      reason: user.lockReason || "Your account has been locked for security reasons.",
+    };
+  }
+
+  // Check if status field exists (for backward compatibility)
+  if (user.status === undefined) {
+    return { allowed: true };
+  }
+
+  if (user.status === "suspended") {
+    return {
+      allowed: false,
+      reason: user.suspensionReason || "Your account has been suspended.",
+    };
+  }
+
+  if (user.status === "inactive") {
+    return {
+      allowed: false,
+      reason: "Your account is inactive. Please contact support.",
+    };
+  }
+
+  return { allowed: true };
+}
+
 function parseUserAgent(userAgent?: string) {
   // Simple user agent parsing
   const ua = userAgent || "";
@@ -586,35 +742,3 @@ function parseUserAgent(userAgent?: string) {
 
   return { device, browser };
 }
-
-async function parseIPAddress(ipAddress: string) {
-  // Simple IP-based geolocation
-  // For now, detect if it's a local IP
-  if (ipAddress.startsWith("192.168.") || ipAddress.startsWith("10.") || ipAddress === "127.0.0.1") {
-    return {
-      city: "Tarlac City",
-      region: "Central Luzon",
-      country: "Philippines",
-    };
-  }
-
-  // For production, implement real geolocation lookup
-  return {
-    city: "Unknown",
-    region: "Unknown",
-    country: "Unknown",
-  };
-}
-
-function generateDeviceFingerprint(ipAddress: string, userAgent?: string): string {
-  // Simple fingerprinting
-  const data = `${ipAddress}-${userAgent || "unknown"}`;
-  // Simple hash function
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return `fp_${Math.abs(hash).toString(36)}`;
-}
\ No newline at end of file
@@ -3,7 +3,9 @@
 
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 
 /**
  * Get all blocked IP addresses
@@ -20,7 +22,7 @@ export const getBlockedIPs = query({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -76,7 +78,7 @@ export const getBlockedEmails = query({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -133,7 +135,7 @@ export const unblockIP = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -174,7 +176,7 @@ export const unblockEmail = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -332,7 +334,7 @@ export const updateBlockNotes = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -371,7 +373,7 @@ export const setBlockExpiration = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -1,7 +1,9 @@
 // convex/budgetAccess.ts
 
 import { query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 
 /**
  * Check if current user can access budget page
@@ -36,8 +38,8 @@ export const canAccess = query({
     let accessLevel = null;
     let accessSource = null; // Track where access comes from
 
-    // FIRST: Check if user is super_admin or admin (highest priority)
-    if (user.role === "super_admin" || user.role === "admin") {
+    // FIRST: Check if user manages access (admins by default; highest priority)
+    if (await hasPermission(ctx, user._id, PERMISSIONS.access.manage)) {
       canAccess = true;
       accessLevel = "admin";
       accessSource = "role";
@@ -0,0 +1,325 @@
+// convex/budgetAdjustments.ts
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { hasPermission } from "./lib/rbac";
+import {
+  authorizePermission,
+  permissionMutation,
+  permissionQuery,
+} from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import {
+  BUDGET_ADJUSTMENT_PERMISSIONS,
+  applyBudgetAdjustment,
+  getRealignableBalance,
+  requireOtherThanRequester,
+} from "./lib/budgetAdjustments";
+
+/**
+ * List budget adjustments, newest first
+ * Enriched with source/destination particulars for display
+ * (requires budget.view)
+ */
+export const list = permissionQuery(PERMISSIONS.budget.view, {
+  args: {
+    year: v.optional(v.number()),
+    status: v.optional(
+      v.union(
+        v.literal("draft"),
+        v.literal("submitted"),
+        v.literal("reviewed"),
+        v.literal("approved"),
+        v.literal("rejected")
+      )
+    ),
+  },
+  handler: async (ctx, args) => {
+    let adjustments;
+    if (args.year !== undefined) {
+      adjustments = await ctx.db
+        .query("budgetAdjustments")
+        .withIndex("year", (q) => q.eq("year", args.year))
+        .order("desc")
+        .collect();
+    } else {
+      adjustments = await ctx.db
+        .query("budgetAdjustments")
+        .order("desc")
+        .collect();
+    }
+
+    if (args.status !== undefined) {
+      adjustments = adjustments.filter((a) => a.status === args.status);
+    }
+
+    return await Promise.all(
+      adjustments.map(async (adjustment) => {
+        const source = adjustment.sourceBudgetItemId
+          ? await ctx.db.get(adjustment.sourceBudgetItemId)
+          : null;
+        const destination = await ctx.db.get(adjustment.destinationBudgetItemId);
+        const creator = await ctx.db.get(adjustment.createdBy);
+
+        return {
+          ...adjustment,
+          sourceParticulars: source?.particulars,
+          destinationParticulars: destination?.particulars || "Unknown Budget Item",
+          createdByName: creator?.name || "Unknown",
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Which approval steps the current user may perform (requires budget.view)
+ */
+export const getMyPermissions = permissionQuery(PERMISSIONS.budget.view, {
+  args: {},
+  handler: async (ctx) => {
+    const { userId } = ctx;
+
+    return {
+      // Requesters cannot review or approve their own requests
+      userId,
+      canSubmit: await hasPermission(ctx, userId, BUDGET_ADJUSTMENT_PERMISSIONS.submit),
+      canReview: await hasPermission(ctx, userId, BUDGET_ADJUSTMENT_PERMISSIONS.review),
+      canApprove: await hasPermission(ctx, userId, BUDGET_ADJUSTMENT_PERMISSIONS.approve),
+    };
+  },
+});
+
+/**
+ * Create a draft realignment or supplemental budget request
+ */
+export const create = permissionMutation(BUDGET_ADJUSTMENT_PERMISSIONS.submit, {
+  args: {
+    type: v.union(v.literal("realignment"), v.literal("supplemental")),
+    sourceBudgetItemId: v.optional(v.id("budgetItems")),
+    sourceDescription: v.optional(v.string()),
+    destinationBudgetItemId: v.id("budgetItems"),
+    amount: v.number(),
+    legalBasis: v.string(),
+    justification: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    if (args.amount <= 0) {
+      throw new Error("Amount must be greater than zero");
+    }
+
+    if (!args.legalBasis.trim()) {
+      throw new Error("Legal basis (SB resolution number) is required");
+    }
+
+    const destination = await ctx.db.get(args.destinationBudgetItemId);
+    if (!destination || destination.isDeleted) {
+      throw new Error("Destination budget item not found");
+    }
+
+    if (args.type === "realignment") {
+      if (!args.sourceBudgetItemId) {
+        throw new Error("Realignments require a source budget item");
+      }
+      if (args.sourceBudgetItemId === args.destinationBudgetItemId) {
+        throw new Error("Source and destination must be different budget items");
+      }
+      const source = await ctx.db.get(args.sourceBudgetItemId);
+      if (!source || source.isDeleted) {
+        throw new Error("Source budget item not found");
+      }
+      if (source.year !== destination.year) {
+        throw new Error("Realignments must stay within the same fiscal year");
+      }
+    } else if (!args.sourceDescription?.trim()) {
+      throw new Error("Supplemental budgets require a funding source");
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("budgetAdjustments", {
+      type: args.type,
+      sourceBudgetItemId: args.type === "realignment" ? args.sourceBudgetItemId : undefined,
+      sourceDescription: args.sourceDescription?.trim() || undefined,
+      destinationBudgetItemId: args.destinationBudgetItemId,
+      amount: args.amount,
+      legalBasis: args.legalBasis.trim(),
+      justification: args.justification,
+      year: destination.year,
+      status: "draft",
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Submit a draft for review
+ * Realignments are checked against the source's uncommitted balance
+ */
+export const submit = permissionMutation(BUDGET_ADJUSTMENT_PERMISSIONS.submit, {
+  args: {
+    id: v.id("budgetAdjustments"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const adjustment = await ctx.db.get(args.id);
+    if (!adjustment) throw new Error("Adjustment not found");
+    if (adjustment.status !== "draft") {
+      throw new Error("Only draft requests can be submitted");
+    }
+
+    if (adjustment.type === "realignment" && adjustment.sourceBudgetItemId) {
+      const source = await ctx.db.get(adjustment.sourceBudgetItemId);
+      if (!source) throw new Error("Source budget item not found");
+      const available = getRealignableBalance(source);
+      if (adjustment.amount > available + 0.005) {
+        throw new Error(
+          `Source budget item "${source.particulars}" only has ₱${available.toLocaleString()} uncommitted`
+        );
+      }
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      status: "submitted",
+      submittedAt: now,
+      submittedBy: userId,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Mark a submitted request as reviewed
+ */
+export const review = permissionMutation(BUDGET_ADJUSTMENT_PERMISSIONS.review, {
+  args: {
+    id: v.id("budgetAdjustments"),
+    remarks: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const adjustment = await ctx.db.get(args.id);
+    if (!adjustment) throw new Error("Adjustment not found");
+    if (adjustment.status !== "submitted") {
+      throw new Error("Only submitted requests can be reviewed");
+    }
+    requireOtherThanRequester(adjustment, userId, "review");
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      status: "reviewed",
+      reviewedAt: now,
+      reviewedBy: userId,
+      reviewRemarks: args.remarks,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Approve a reviewed request and apply it to the budget items
+ */
+export const approve = permissionMutation(BUDGET_ADJUSTMENT_PERMISSIONS.approve, {
+  args: {
+    id: v.id("budgetAdjustments"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const adjustment = await ctx.db.get(args.id);
+    if (!adjustment) throw new Error("Adjustment not found");
+    if (adjustment.status !== "reviewed") {
+      throw new Error("Only reviewed requests can be approved");
+    }
+    requireOtherThanRequester(adjustment, userId, "approve");
+
+    // ✅ Allocation changes happen here and only here
+    await applyBudgetAdjustment(ctx, adjustment, userId);
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      status: "approved",
+      approvedAt: now,
+      approvedBy: userId,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Reject a request in review (reviewers) or awaiting approval (approvers)
+ */
+export const reject = mutation({
+  args: {
+    id: v.id("budgetAdjustments"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const adjustment = await ctx.db.get(args.id);
+    if (!adjustment) throw new Error("Adjustment not found");
+
+    let permissionKey: string;
+    if (adjustment.status === "submitted") {
+      permissionKey = BUDGET_ADJUSTMENT_PERMISSIONS.review;
+    } else if (adjustment.status === "reviewed") {
+      permissionKey = BUDGET_ADJUSTMENT_PERMISSIONS.approve;
+    } else {
+      throw new Error("Only submitted or reviewed requests can be rejected");
+    }
+    const { userId } = await authorizePermission(ctx, permissionKey);
+
+    if (!args.reason.trim()) {
+      throw new Error("A rejection reason is required");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      status: "rejected",
+      rejectedAt: now,
+      rejectedBy: userId,
+      rejectionReason: args.reason.trim(),
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a draft (creator only, requires budget.adjustment.submit)
+ */
+export const remove = permissionMutation(BUDGET_ADJUSTMENT_PERMISSIONS.submit, {
+  args: {
+    id: v.id("budgetAdjustments"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const adjustment = await ctx.db.get(args.id);
+    if (!adjustment) throw new Error("Adjustment not found");
+    if (adjustment.status !== "draft") {
+      throw new Error("Only drafts can be deleted");
+    }
+    if (adjustment.createdBy !== userId) {
+      throw new Error("Only the creator can delete this draft");
+    }
+
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
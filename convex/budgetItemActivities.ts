@@ -2,7 +2,7 @@
 
 import { v } from "convex/values";
 import { query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
 
 export const getByBudgetItem = query({
   args: {
@@ -1,7 +1,8 @@
 // convex/budgetItems.ts
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { internalMutation } from "./_generated/server";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 import {
   recalculateBudgetItemMetrics,
   recalculateAllBudgetItems,
@@ -13,14 +14,11 @@ import { logBudgetActivity } from "./lib/budgetActivityLogger";
  * Shows items where isDeleted is false or undefined (unset)
  * ✨ UPDATED: Now accepts optional year parameter for filtering
  */
-export const list = query({
+export const list = permissionQuery(PERMISSIONS.budget.view, {
   args: {
     year: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
-
     let budgetItems = await ctx.db
       .query("budgetItems")
       .filter((q) => q.neq(q.field("isDeleted"), true))
@@ -39,12 +37,9 @@ export const list = query({
 /**
  * Get TRASHED budget items only
  */
-export const getTrash = query({
+export const getTrash = permissionQuery(PERMISSIONS.budget.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
     return await ctx.db
       .query("budgetItems")
       .withIndex("isDeleted", (q) => q.eq("isDeleted", true))
@@ -57,14 +52,13 @@ export const getTrash = query({
  * Soft Delete: Move Budget Item to Trash
  * Cascades to children (Projects -> Breakdowns)
  */
-export const moveToTrash = mutation({
+export const moveToTrash = permissionMutation(PERMISSIONS.budget.trash, {
   args: {
     id: v.id("budgetItems"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const now = Date.now();
     const existing = await ctx.db.get(args.id);
@@ -131,11 +125,10 @@ export const moveToTrash = mutation({
  * Restore from Trash
  * Cascades restore to children
  */
-export const restoreFromTrash = mutation({
+export const restoreFromTrash = permissionMutation(PERMISSIONS.budget.trash, {
   args: { id: v.id("budgetItems") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Item not found");
@@ -197,11 +190,9 @@ export const restoreFromTrash = mutation({
 /**
  * Get a single budget item by ID
  */
-export const get = query({
+export const get = permissionQuery(PERMISSIONS.budget.view, {
   args: { id: v.id("budgetItems") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
     const budgetItem = await ctx.db.get(args.id);
     if (!budgetItem || budgetItem.isDeleted) throw new Error("Budget item not found");
     return budgetItem;
@@ -211,11 +202,9 @@ export const get = query({
 /**
  * Get a single budget item by particulars (name)
  */
-export const getByParticulars = query({
+export const getByParticulars = permissionQuery(PERMISSIONS.budget.view, {
   args: { particulars: v.string() },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
     const budgetItem = await ctx.db
       .query("budgetItems")
       .withIndex("particulars", (q) => q.eq("particulars", args.particulars))
@@ -229,11 +218,9 @@ export const getByParticulars = query({
 /**
  * Get statistics for all budget items
  */
-export const getStatistics = query({
+export const getStatistics = permissionQuery(PERMISSIONS.budget.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
     const budgetItems = await ctx.db
       .query("budgetItems")
       .filter(q => q.neq(q.field("isDeleted"), true))
@@ -262,7 +249,7 @@ export const getStatistics = query({
  * Create a new budget item
  * 🆕 UPDATED: Now supports autoCalculateBudgetUtilized flag
  */
-export const create = mutation({
+export const create = permissionMutation(PERMISSIONS.budget.create, {
   args: {
     particulars: v.string(),
     totalBudgetAllocated: v.number(),
@@ -275,8 +262,7 @@ export const create = mutation({
     autoCalculateBudgetUtilized: v.optional(v.boolean()), // 🆕 NEW FLAG
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     // 🆕 Validate particular exists and is active
     const particular = await ctx.db
@@ -347,7 +333,7 @@ export const create = mutation({
  * Update an existing budget item
  * 🆕 UPDATED: Now supports autoCalculateBudgetUtilized flag
  */
-export const update = mutation({
+export const update = permissionMutation(PERMISSIONS.budget.edit, {
   args: {
     id: v.id("budgetItems"),
     particulars: v.string(),
@@ -362,12 +348,19 @@ export const update = mutation({
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Budget item not found");
 
+    // 🆕 After creation the allocation is owned by the supplemental
+    // budget / realignment workflow (see budgetAdjustments.ts)
+    if (args.totalBudgetAllocated !== existing.totalBudgetAllocated) {
+      throw new Error(
+        "The allocation cannot be edited directly. Changes must go through a supplemental budget or realignment request."
+      );
+    }
+
     // 🆕 If particular is changing, validate new particular
     if (args.particulars !== existing.particulars) {
       const particular = await ctx.db
@@ -440,15 +433,14 @@ export const update = mutation({
  * 🆕 NEW MUTATION: Toggle Auto-Calculate Flag for Budget Item
  * This allows switching between auto-calculation and manual mode
  */
-export const toggleAutoCalculate = mutation({
+export const toggleAutoCalculate = permissionMutation(PERMISSIONS.budget.edit, {
   args: {
     id: v.id("budgetItems"),
     autoCalculate: v.boolean(),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Budget item not found");
@@ -504,20 +496,14 @@ export const toggleAutoCalculate = mutation({
  * 🆕 NEW MUTATION: Bulk Toggle Auto-Calculate
  * Toggle auto-calculate for multiple budget items at once
  */
-export const bulkToggleAutoCalculate = mutation({
+export const bulkToggleAutoCalculate = permissionMutation(PERMISSIONS.budget.bulkEdit, {
   args: {
     ids: v.array(v.id("budgetItems")),
     autoCalculate: v.boolean(),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Unauthorized: Only admins can perform bulk actions.");
-    }
+    const { userId } = ctx;
 
     const now = Date.now();
     let successCount = 0;
@@ -564,14 +550,13 @@ export const bulkToggleAutoCalculate = mutation({
 /**
  * HARD DELETE: Permanently remove from database
  */
-export const remove = mutation({
+export const remove = permissionMutation(PERMISSIONS.budget.delete, {
   args: {
     id: v.id("budgetItems"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const currentUser = await ctx.db.get(userId);
     if (!currentUser) throw new Error("User not found");
@@ -633,19 +618,13 @@ export const remove = mutation({
  * Bulk Move to Trash: Move multiple budget items to trash
  * Only accessible to admins and super_admins
  */
-export const bulkMoveToTrash = mutation({
+export const bulkMoveToTrash = permissionMutation(PERMISSIONS.budget.bulkEdit, {
   args: {
     ids: v.array(v.id("budgetItems")),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Unauthorized: Only admins can perform bulk actions.");
-    }
+    const { userId } = ctx;
 
     const now = Date.now();
     let successCount = 0;
@@ -717,11 +696,10 @@ export const bulkMoveToTrash = mutation({
 /**
  * Toggle pin status for a budget item
  */
-export const togglePin = mutation({
+export const togglePin = permissionMutation(PERMISSIONS.budget.edit, {
   args: { id: v.id("budgetItems") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Budget item not found");
     const now = Date.now();
@@ -750,11 +728,10 @@ export const recalculateMetrics = internalMutation({
 /**
  * PUBLIC: Recalculate metrics for a specific budget item
  */
-export const recalculateSingleBudgetItem = mutation({
+export const recalculateSingleBudgetItem = permissionMutation(PERMISSIONS.budget.recalculate, {
   args: { budgetItemId: v.id("budgetItems") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     return await recalculateBudgetItemMetrics(ctx, args.budgetItemId, userId);
   },
 });
@@ -762,11 +739,10 @@ export const recalculateSingleBudgetItem = mutation({
 /**
  * MANUAL: Recalculate all budget item metrics
  */
-export const recalculateAllMetrics = mutation({
+export const recalculateAllMetrics = permissionMutation(PERMISSIONS.budget.recalculate, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     const results = await recalculateAllBudgetItems(ctx, userId);
     return { message: `Recalculated ${results.length} budget items`, results };
   },
@@ -2,8 +2,12 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 import { Id } from "./_generated/dataModel";
+import { validateExpiresAt } from "./lib/accessExpiry";
+import { insertAuditedActivity } from "./lib/auditChain";
 
 /**
  * Check if current user can access a specific budget particular page
@@ -33,8 +37,8 @@ export const canAccessParticular = query({
       };
     }
 
-    // Super admins and admins have access to everything
-    if (user.role === "super_admin" || user.role === "admin") {
+    // Access managers (admins by default) have access to everything
+    if (await hasPermission(ctx, user._id, PERMISSIONS.access.manage)) {
       return {
         canAccess: true,
         user,
@@ -54,7 +58,12 @@ export const canAccessParticular = query({
       )
       .first();
 
-    if (particularAccess && particularAccess.isActive) {
+    // Expired grants are deactivated by a cron job; until it runs, treat them as gone
+    if (
+      particularAccess &&
+      particularAccess.isActive &&
+      (!particularAccess.expiresAt || particularAccess.expiresAt > Date.now())
+    ) {
       return {
         canAccess: true,
         user,
@@ -94,6 +103,7 @@ export const getSharedUsers = query({
     accessLevel: "viewer" | "editor" | "admin";
     grantedAt: number;
     grantedBy: Id<"users">;
+    expiresAt?: number;
   }>> => {
     const userId = await getAuthUserId(ctx);
     if (!userId) return [];
@@ -102,10 +112,7 @@ export const getSharedUsers = query({
     if (!currentUser) return [];
 
     // Only admins can view shared users
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       return [];
     }
 
@@ -127,6 +134,7 @@ export const getSharedUsers = query({
       accessLevel: "viewer" | "editor" | "admin";
       grantedAt: number;
       grantedBy: Id<"users">;
+      expiresAt?: number;
     }> = [];
 
     for (const record of accessRecords) {
@@ -151,6 +159,7 @@ export const getSharedUsers = query({
         accessLevel: record.accessLevel,
         grantedAt: record.grantedAt,
         grantedBy: record.grantedBy,
+        expiresAt: record.expiresAt,
       });
     }
 
@@ -168,6 +177,7 @@ export const grantAccess = mutation({
     accessLevel: v.optional(
       v.union(v.literal("viewer"), v.literal("editor"), v.literal("admin"))
     ),
+    expiresAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const currentUserId = await getAuthUserId(ctx);
@@ -181,13 +191,12 @@ export const grantAccess = mutation({
     }
 
     // Only admins can grant access
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       throw new Error("Only admins can grant access");
     }
 
+    validateExpiresAt(args.expiresAt);
+
     // Check if access already exists
     const existingAccess = await ctx.db
       .query("budgetParticularSharedAccess")
@@ -205,6 +214,10 @@ export const grantAccess = mutation({
         accessLevel: args.accessLevel || "viewer",
         grantedBy: currentUserId,
         grantedAt: now,
+        expiresAt: args.expiresAt,
+        expiryNotifiedAt: undefined,
+        revokedBy: undefined,
+        revokedAt: undefined,
       });
       return existingAccess._id;
     } else {
@@ -216,6 +229,7 @@ export const grantAccess = mutation({
         isActive: true,
         grantedBy: currentUserId,
         grantedAt: now,
+        expiresAt: args.expiresAt,
       });
       return accessId;
     }
@@ -242,10 +256,7 @@ export const revokeAccess = mutation({
     }
 
     // Only admins can revoke access
-    if (
-      currentUser.role !== "admin" &&
-      currentUser.role !== "super_admin"
-    ) {
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       throw new Error("Only admins can revoke access");
     }
 
@@ -267,4 +278,69 @@ export const revokeAccess = mutation({
 
     return { success: true };
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Extend (or remove) the expiry of a user's access to a particular
+ * Leaving expiresAt out makes the access permanent
+ */
+export const renewAccess = mutation({
+  args: {
+    particularCode: v.string(),
+    userId: v.id("users"),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    if (!currentUserId) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(currentUserId);
+    if (!currentUser) {
+      throw new Error("User not found");
+    }
+
+    // Only admins can renew access
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
+      throw new Error("Only admins can renew access");
+    }
+
+    validateExpiresAt(args.expiresAt);
+
+    const accessRecord = await ctx.db
+      .query("budgetParticularSharedAccess")
+      .withIndex("particularAndUser", (q) =>
+        q.eq("particularCode", args.particularCode).eq("userId", args.userId)
+      )
+      .first();
+
+    if (!accessRecord || !accessRecord.isActive) {
+      throw new Error("No active access found for this user");
+    }
+
+    await ctx.db.patch(accessRecord._id, {
+      expiresAt: args.expiresAt,
+      expiryNotifiedAt: undefined,
+    });
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUserId,
+      targetUserId: args.userId,
+      action: "access_renewed",
+      previousValues: JSON.stringify({
+        grant: "particular",
+        particularCode: args.particularCode,
+        expiresAt: accessRecord.expiresAt,
+      }),
+      newValues: JSON.stringify({
+        grant: "particular",
+        particularCode: args.particularCode,
+        expiresAt: args.expiresAt,
+      }),
+      timestamp: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
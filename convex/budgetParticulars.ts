@@ -1,7 +1,8 @@
 // convex/budgetParticulars.ts
 import { v } from "convex/values";
 import { query, mutation, internalMutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
 
 /**
  * ============================================================================
@@ -459,6 +460,7 @@ export const recalculateUsageCounts = mutation({
     if (!user || user.role !== "super_admin") {
       throw new Error("Only super_admin can recalculate usage counts");
     }
+    await requireTwoFactorVerified(ctx, user);
 
     // Directly implement the logic here instead of calling internal mutation
     const allParticulars = await ctx.db.query("budgetParticulars").collect();
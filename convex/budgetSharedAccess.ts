@@ -2,7 +2,11 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { validateExpiresAt } from "./lib/accessExpiry";
+import { insertAuditedActivity } from "./lib/auditChain";
 
 /**
  * Grant access to a user
@@ -16,6 +20,7 @@ export const grantAccess = mutation({
       v.literal("admin")
     ),
     notes: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const currentUserId = await getAuthUserId(ctx);
@@ -28,11 +33,13 @@ export const grantAccess = mutation({
       throw new Error("User not found");
     }
 
-    // Only super_admin and admin can grant access
-    if (currentUser.role !== "super_admin" && currentUser.role !== "admin") {
+    // Only access managers (admins by default) can grant access
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
+    validateExpiresAt(args.expiresAt);
+
     // Check if user already has access
     const existingAccess = await ctx.db
       .query("budgetSharedAccess")
@@ -50,6 +57,8 @@ export const grantAccess = mutation({
         grantedBy: currentUserId,
         grantedAt: now,
         notes: args.notes,
+        expiresAt: args.expiresAt,
+        expiryNotifiedAt: undefined,
       });
       return existingAccess._id;
     } else {
@@ -61,6 +70,7 @@ export const grantAccess = mutation({
         grantedAt: now,
         isActive: true,
         notes: args.notes,
+        expiresAt: args.expiresAt,
       });
       return accessId;
     }
@@ -85,8 +95,8 @@ export const revokeAccess = mutation({
       throw new Error("User not found");
     }
 
-    // Only super_admin and admin can revoke access
-    if (currentUser.role !== "super_admin" && currentUser.role !== "admin") {
+    // Only access managers (admins by default) can revoke access
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -103,6 +113,64 @@ export const revokeAccess = mutation({
 
     await ctx.db.patch(existingAccess._id, {
       isActive: false,
+      revokedBy: currentUserId,
+      revokedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Extend (or remove) the expiry of a user's access
+ * Leaving expiresAt out makes the access permanent
+ */
+export const renewAccess = mutation({
+  args: {
+    userId: v.id("users"),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    if (!currentUserId) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(currentUserId);
+    if (!currentUser) {
+      throw new Error("User not found");
+    }
+
+    // Only access managers (admins by default) can renew access
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+
+    validateExpiresAt(args.expiresAt);
+
+    const existingAccess = await ctx.db
+      .query("budgetSharedAccess")
+      .withIndex("userIdAndActive", (q) => 
+        q.eq("userId", args.userId).eq("isActive", true)
+      )
+      .first();
+
+    if (!existingAccess) {
+      throw new Error("No active access found for this user");
+    }
+
+    await ctx.db.patch(existingAccess._id, {
+      expiresAt: args.expiresAt,
+      expiryNotifiedAt: undefined,
+    });
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUserId,
+      targetUserId: args.userId,
+      action: "access_renewed",
+      previousValues: JSON.stringify({ grant: "budget", expiresAt: existingAccess.expiresAt }),
+      newValues: JSON.stringify({ grant: "budget", expiresAt: args.expiresAt }),
+      timestamp: Date.now(),
     });
 
     return { success: true };
@@ -125,8 +193,8 @@ export const listUsersWithAccess = query({
       return [];
     }
 
-    // Only super_admin and admin can view access list
-    if (currentUser.role !== "super_admin" && currentUser.role !== "admin") {
+    // Only access managers (admins by default) can view access list
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.access.manage))) {
       return [];
     }
 
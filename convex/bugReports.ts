@@ -2,7 +2,8 @@
 
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { notifyAdmins } from "./lib/notifications";
 
 /**
  * Helper to require an authenticated Convex user
@@ -32,6 +33,18 @@ export const create = mutation({
       submittedAt: Date.now(),
     });
 
+    await notifyAdmins(
+      ctx,
+      {
+        event: "bug_report",
+        title: "New Bug Report",
+        message: title,
+        link: "/dashboard/settings/updates/bugs-report",
+        actorId: userId,
+      },
+      { includeAdmins: false }
+    );
+
     return reportId;
   },
 });
@@ -0,0 +1,14 @@
+// convex/crons.ts
+
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// End shared access and permission overrides once they expire
+crons.interval("expire access grants", { minutes: 15 }, internal.accessExpiry.expireAccessGrants, {});
+
+// Warn grantees and grantors a few days before access expires
+crons.interval("notify expiring access", { hours: 1 }, internal.accessExpiry.sendExpiryNotices, {});
+
+export default crons;
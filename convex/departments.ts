@@ -2,7 +2,11 @@
 
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { insertAuditedActivity } from "./lib/auditChain";
 
 /**
  * Get all departments
@@ -147,8 +151,8 @@ export const create = mutation({
 
     const currentUser = await ctx.db.get(userId);
     
-    // Only super_admin and admin can create departments
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    // Only department managers (admins by default) can create departments
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.department.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -197,7 +201,7 @@ export const create = mutation({
     });
 
     // Log the action
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: userId,
       targetDepartmentId: departmentId,
       action: "department_created",
@@ -238,8 +242,8 @@ export const update = mutation({
 
     const currentUser = await ctx.db.get(userId);
     
-    // Only super_admin and admin can update departments
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    // Only department managers (admins by default) can update departments
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.department.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -299,7 +303,7 @@ export const update = mutation({
     });
 
     // Log the action
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: userId,
       targetDepartmentId: args.id,
       action: "department_updated",
@@ -339,6 +343,7 @@ export const remove = mutation({
     if (!currentUser || currentUser.role !== "super_admin") {
       throw new Error("Not authorized - super_admin access required");
     }
+    await requireTwoFactorVerified(ctx, currentUser);
 
     const existingDept = await ctx.db.get(args.id);
     if (!existingDept) {
@@ -379,7 +384,7 @@ export const remove = mutation({
 
     // Log the action
     const now = Date.now();
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: userId,
       targetDepartmentId: args.id,
       action: "department_deleted",
@@ -0,0 +1,25 @@
+// convex/executiveDashboard.ts
+
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { getDepartmentAccess } from "./lib/departmentAccess";
+import { buildExecutiveSummary } from "./lib/executiveDashboard";
+
+/**
+ * Utilization, obligation and completion rates and delayed counts per
+ * implementing office, plus the overall portfolio and the mandatory funds.
+ * Only rows of departments the user can see are counted.
+ */
+export const getSummary = query({
+  args: {
+    year: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const access = await getDepartmentAccess(ctx, userId);
+    return await buildExecutiveSummary(ctx, access, args.year);
+  },
+});
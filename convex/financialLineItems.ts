@@ -0,0 +1,297 @@
+// convex/financialLineItems.ts
+
+import { v } from "convex/values";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "./_generated/dataModel";
+import { getDepartmentAccess, requireProjectAccess } from "./lib/departmentAccess";
+import { logProjectActivity } from "./lib/projectActivityLogger";
+import {
+  recalculateLineItemRollup,
+  deleteLineItemTree,
+  getLedgerReconciliation,
+  assertWithinProjectAllocation,
+} from "./lib/financialLineItemAggregation";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+/**
+ * Throw unless the user can access the project the ledger belongs to
+ */
+async function requireLedgerAccess(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">,
+  projectId: Id<"projects">
+) {
+  return requireProjectAccess(ctx, await getDepartmentAccess(ctx, userId), projectId);
+}
+
+type LedgerTotals = Pick<
+  Awaited<ReturnType<typeof getLedgerReconciliation>>,
+  "appropriation" | "obligation" | "balance"
+>;
+
+async function getLedgerTotals(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">
+): Promise<LedgerTotals> {
+  const { appropriation, obligation, balance } = await getLedgerReconciliation(ctx, projectId);
+  return { appropriation, obligation, balance };
+}
+
+/**
+ * Record a ledger change on the project's activity log. The project itself
+ * is unchanged, so the diff is carried by the ledger totals before and after
+ * (ledgerTotals, which restores ignore) and the reason names the line item.
+ */
+async function logLedgerChange(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  project: Doc<"projects">,
+  totalsBefore: LedgerTotals,
+  reason: string
+) {
+  await logProjectActivity(ctx, userId, {
+    action: "updated",
+    projectId: project._id,
+    previousValues: { ...project, ledgerTotals: totalsBefore },
+    newValues: { ...project, ledgerTotals: await getLedgerTotals(ctx, project._id) },
+    reason,
+  });
+}
+
+/**
+ * Get all line items of a project's ledger (flat, ordered by level then sortOrder).
+ * The client builds the tree from `parentId`.
+ */
+export const listByProject = permissionQuery(PERMISSIONS.project.view, {
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+    await requireLedgerAccess(ctx, userId, args.projectId);
+
+    const items = await ctx.db
+      .query("financialLineItems")
+      .withIndex("projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    return items.sort(
+      (a, b) => a.level - b.level || a.sortOrder - b.sortOrder
+    );
+  },
+});
+
+/**
+ * Compare ledger totals against the project's totalBudgetAllocated
+ */
+export const getReconciliation = permissionQuery(PERMISSIONS.project.view, {
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+    await requireLedgerAccess(ctx, userId, args.projectId);
+
+    return await getLedgerReconciliation(ctx, args.projectId);
+  },
+});
+
+/**
+ * Create a new line item.
+ * Level is derived from the parent; balance is auto-calculated.
+ */
+export const create = permissionMutation(PERMISSIONS.project.edit, {
+  args: {
+    projectId: v.id("projects"),
+    parentId: v.optional(v.id("financialLineItems")),
+    code: v.optional(v.string()),
+    description: v.string(),
+    appropriation: v.number(),
+    obligation: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const project = await requireLedgerAccess(ctx, userId, args.projectId);
+    if (project.isDeleted) throw new Error("Project not found");
+    const totalsBefore = await getLedgerTotals(ctx, args.projectId);
+
+    if (!args.description.trim()) {
+      throw new Error("Description is required");
+    }
+    if (args.appropriation < 0 || args.obligation < 0) {
+      throw new Error("Amounts cannot be negative");
+    }
+    if (args.obligation > args.appropriation) {
+      throw new Error("Obligation cannot exceed appropriation");
+    }
+
+    let level = 0;
+    if (args.parentId) {
+      const parent = await ctx.db.get(args.parentId);
+      if (!parent) throw new Error("Parent line item not found");
+      if (parent.projectId !== args.projectId) {
+        throw new Error("Parent line item belongs to a different project");
+      }
+      level = parent.level + 1;
+    }
+
+    const siblings = await ctx.db
+      .query("financialLineItems")
+      .withIndex("projectAndParent", (q) =>
+        q.eq("projectId", args.projectId).eq("parentId", args.parentId)
+      )
+      .collect();
+    const sortOrder = siblings.reduce((max, s) => Math.max(max, s.sortOrder), -1) + 1;
+
+    const now = Date.now();
+    const lineItemId = await ctx.db.insert("financialLineItems", {
+      projectId: args.projectId,
+      parentId: args.parentId,
+      code: args.code?.trim() || undefined,
+      description: args.description.trim(),
+      appropriation: args.appropriation,
+      obligation: args.obligation,
+      balance: args.appropriation - args.obligation,
+      level,
+      sortOrder,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    // ✅ ROLL UP INTO PARENT SECTIONS
+    if (args.parentId) {
+      await recalculateLineItemRollup(ctx, args.parentId, userId);
+    }
+
+    await assertWithinProjectAllocation(ctx, args.projectId);
+
+    await logLedgerChange(
+      ctx,
+      userId,
+      project,
+      totalsBefore,
+      `Line item "${args.description.trim()}" added`
+    );
+
+    return lineItemId;
+  },
+});
+
+/**
+ * Update a line item.
+ * Amounts of rows that have children are ignored, since they are roll-ups.
+ */
+export const update = permissionMutation(PERMISSIONS.project.edit, {
+  args: {
+    id: v.id("financialLineItems"),
+    code: v.optional(v.string()),
+    description: v.string(),
+    appropriation: v.number(),
+    obligation: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const existing = await ctx.db.get(args.id);
+    if (!existing) throw new Error("Line item not found");
+    const project = await requireLedgerAccess(ctx, userId, existing.projectId);
+    const totalsBefore = await getLedgerTotals(ctx, existing.projectId);
+
+    if (!args.description.trim()) {
+      throw new Error("Description is required");
+    }
+
+    const firstChild = await ctx.db
+      .query("financialLineItems")
+      .withIndex("parentId", (q) => q.eq("parentId", args.id))
+      .first();
+    const isRollup = firstChild !== null;
+
+    const updates: {
+      code?: string;
+      description: string;
+      appropriation?: number;
+      obligation?: number;
+      balance?: number;
+      updatedAt: number;
+      updatedBy: typeof userId;
+    } = {
+      code: args.code?.trim() || undefined,
+      description: args.description.trim(),
+      updatedAt: Date.now(),
+      updatedBy: userId,
+    };
+
+    if (!isRollup) {
+      if (args.appropriation < 0 || args.obligation < 0) {
+        throw new Error("Amounts cannot be negative");
+      }
+      if (args.obligation > args.appropriation) {
+        throw new Error("Obligation cannot exceed appropriation");
+      }
+      updates.appropriation = args.appropriation;
+      updates.obligation = args.obligation;
+      updates.balance = args.appropriation - args.obligation;
+    }
+
+    await ctx.db.patch(args.id, updates);
+
+    // ✅ ROLL UP INTO PARENT SECTIONS
+    if (existing.parentId) {
+      await recalculateLineItemRollup(ctx, existing.parentId, userId);
+    }
+
+    await assertWithinProjectAllocation(ctx, existing.projectId);
+
+    await logLedgerChange(
+      ctx,
+      userId,
+      project,
+      totalsBefore,
+      `Line item "${updates.description}" updated (appropriation ${existing.appropriation} → ${updates.appropriation ?? existing.appropriation}, obligation ${existing.obligation} → ${updates.obligation ?? existing.obligation})`
+    );
+
+    return args.id;
+  },
+});
+
+/**
+ * Delete a line item and all of its children
+ */
+export const remove = permissionMutation(PERMISSIONS.project.edit, {
+  args: {
+    id: v.id("financialLineItems"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const existing = await ctx.db.get(args.id);
+    if (!existing) throw new Error("Line item not found");
+    const project = await requireLedgerAccess(ctx, userId, existing.projectId);
+    const totalsBefore = await getLedgerTotals(ctx, existing.projectId);
+
+    const removed = await deleteLineItemTree(ctx, args.id);
+
+    // ✅ ROLL UP INTO PARENT SECTIONS
+    if (existing.parentId) {
+      await recalculateLineItemRollup(ctx, existing.parentId, userId);
+    }
+
+    await logLedgerChange(
+      ctx,
+      userId,
+      project,
+      totalsBefore,
+      `Line item "${existing.description}"${removed > 1 ? ` and ${removed - 1} sub-item(s)` : ""} deleted`
+    );
+
+    return { success: true, removed };
+  },
+});
@@ -1,7 +1,29 @@
 // convex/fiscalYears.ts
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { buildRolloverPlan, getBreakdownUnspentBalance } from "./lib/fiscalYearRollover";
+import { recalculateProjectMetrics } from "./lib/projectAggregation";
+import { recalculateBudgetItemMetrics } from "./lib/budgetAggregation";
+import { logBudgetActivity } from "./lib/budgetActivityLogger";
+import { logProjectActivity } from "./lib/projectActivityLogger";
+import { logBulkGovtProjectActivity } from "./lib/govtProjectActivityLogger";
+import { PermissionScopedCtx, getDepartmentAccess } from "./lib/departmentAccess";
+
+/**
+ * A rollover clones the whole year, so it needs fiscal_year.manage for every
+ * department; a department-scoped grant would copy other departments' records
+ */
+async function requireProvinceWideAccess(ctx: PermissionScopedCtx, userId: Id<"users">) {
+  const access = await getDepartmentAccess(ctx, userId);
+  if (access.departmentIds !== null) {
+    throw new Error("Rolling over a fiscal year requires access to every department");
+  }
+}
 
 /**
  * Get all fiscal years (active only by default)
@@ -66,9 +88,9 @@ export const getCurrent = query({
 });
 
 /**
- * Create a new fiscal year (Admin only)
+ * Create a new fiscal year (requires fiscal_year.manage)
  */
-export const create = mutation({
+export const create = permissionMutation(PERMISSIONS.fiscalYear.manage, {
   args: {
     year: v.number(),
     label: v.optional(v.string()),
@@ -77,14 +99,7 @@ export const create = mutation({
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    // Check admin permissions
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Only admins can create fiscal years");
-    }
+    const { userId } = ctx;
 
     // Validate year range (1 AD to 300 years from now)
     const currentYear = new Date().getFullYear();
@@ -143,9 +158,9 @@ export const create = mutation({
 });
 
 /**
- * Update a fiscal year (Admin only)
+ * Update a fiscal year (requires fiscal_year.manage)
  */
-export const update = mutation({
+export const update = permissionMutation(PERMISSIONS.fiscalYear.manage, {
   args: {
     id: v.id("fiscalYears"),
     label: v.optional(v.string()),
@@ -155,14 +170,7 @@ export const update = mutation({
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    // Check admin permissions
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Only admins can update fiscal years");
-    }
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Fiscal year not found");
@@ -203,23 +211,14 @@ export const update = mutation({
 });
 
 /**
- * Delete a fiscal year (Admin only)
+ * Delete a fiscal year (requires fiscal_year.manage)
  * NOTE: This does NOT cascade delete budgets/projects/breakdowns
  */
-export const remove = mutation({
+export const remove = permissionMutation(PERMISSIONS.fiscalYear.manage, {
   args: {
     id: v.id("fiscalYears"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    // Check admin permissions
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Only admins can delete fiscal years");
-    }
-
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Fiscal year not found");
 
@@ -288,4 +287,286 @@ export const updateUsageCounts = mutation({
 
     return { success: true };
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Preview a fiscal-year rollover (requires fiscal_year.manage for every department)
+ * Lists the budget items of the source year with the ongoing/delayed projects
+ * that would be carried forward and their unspent balances.
+ */
+export const previewRollover = permissionQuery(PERMISSIONS.fiscalYear.manage, {
+  args: {
+    fromYear: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await requireProvinceWideAccess(ctx, ctx.userId);
+
+    const plan = await buildRolloverPlan(ctx, args.fromYear);
+
+    return plan.map((entry) => ({
+      budgetItemId: entry.budgetItem._id,
+      particulars: entry.budgetItem.particulars,
+      totalBudgetAllocated: entry.budgetItem.totalBudgetAllocated,
+      totalBudgetUtilized: entry.budgetItem.totalBudgetUtilized,
+      alreadyRolledOverTo: entry.alreadyRolledOverTo,
+      totalProjects: entry.totalProjects,
+      continuingAppropriation: entry.continuingAppropriation,
+      projects: entry.carriedProjects.map(({ project, unspentBalance, breakdowns }) => ({
+        projectId: project._id,
+        particulars: project.particulars,
+        implementingOffice: project.implementingOffice,
+        status: project.status,
+        unspentBalance,
+        breakdownCount: breakdowns.length,
+      })),
+    }));
+  },
+});
+
+/**
+ * Roll selected budget items of a fiscal year into the next one
+ * (requires fiscal_year.manage for every department)
+ * - Clones each selected budget item into the target year
+ * - Carries ongoing/delayed projects forward with their unspent balance as a
+ *   continuing appropriation, together with their unfinished breakdowns
+ * - Every clone keeps a lineage link to its source record and is logged
+ *   through the regular activity loggers
+ * The target fiscal year must already exist.
+ */
+export const rollover = permissionMutation(PERMISSIONS.fiscalYear.manage, {
+  args: {
+    fromYear: v.number(),
+    toYear: v.number(),
+    budgetItemIds: v.array(v.id("budgetItems")),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+    await requireProvinceWideAccess(ctx, userId);
+
+    if (args.toYear <= args.fromYear) {
+      throw new Error("Target year must be later than the source year");
+    }
+
+    if (args.budgetItemIds.length === 0) {
+      throw new Error("Select at least one budget item to roll over");
+    }
+
+    const targetYear = await ctx.db
+      .query("fiscalYears")
+      .withIndex("year", (q) => q.eq("year", args.toYear))
+      .first();
+
+    if (!targetYear) {
+      throw new Error(`Fiscal year ${args.toYear} does not exist. Please create it first.`);
+    }
+
+    const plan = await buildRolloverPlan(ctx, args.fromYear);
+    const selected = args.budgetItemIds.map((id) => {
+      const entry = plan.find((e) => e.budgetItem._id === id);
+      if (!entry) {
+        throw new Error(`Budget item not found in fiscal year ${args.fromYear}`);
+      }
+      if (entry.alreadyRolledOverTo !== undefined) {
+        throw new Error(
+          `"${entry.budgetItem.particulars}" was already rolled over to ${entry.alreadyRolledOverTo}`
+        );
+      }
+      return entry;
+    });
+
+    const now = Date.now();
+    const reason = `Rolled over from fiscal year ${args.fromYear}`;
+    const createdBreakdowns: Array<{
+      breakdownId: Id<"govtProjectBreakdowns">;
+      breakdown: Doc<"govtProjectBreakdowns"> | null;
+    }> = [];
+    const createdProjectIds: Id<"projects">[] = [];
+    const createdBudgetItemIds: Id<"budgetItems">[] = [];
+    let continuingAppropriation = 0;
+
+    for (const entry of selected) {
+      const source = entry.budgetItem;
+
+      // 1. Clone the budget item; its allocation starts at the carried balances
+      const budgetItemId = await ctx.db.insert("budgetItems", {
+        particulars: source.particulars,
+        totalBudgetAllocated: entry.continuingAppropriation,
+        obligatedBudget: 0,
+        totalBudgetUtilized: 0,
+        utilizationRate: 0,
+        projectCompleted: 0,
+        projectDelayed: 0,
+        projectsOnTrack: 0,
+        status: "ongoing",
+        year: args.toYear,
+        fiscalYear: args.toYear,
+        departmentId: source.departmentId,
+        notes: source.notes,
+        autoCalculateBudgetUtilized: source.autoCalculateBudgetUtilized,
+        sourceBudgetItemId: source._id,
+        rolledOverFromYear: args.fromYear,
+        isDeleted: false,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+      createdBudgetItemIds.push(budgetItemId);
+      continuingAppropriation += entry.continuingAppropriation;
+
+      await ctx.runMutation(internal.budgetParticulars.updateUsageCount, {
+        code: source.particulars,
+        type: "budget" as const,
+        delta: 1,
+      });
+
+      await logBudgetActivity(ctx, userId, {
+        action: "created",
+        budgetItemId,
+        newValues: await ctx.db.get(budgetItemId),
+        reason,
+      });
+
+      // 2. Carry forward unfinished projects as continuing appropriations
+      for (const { project, unspentBalance, breakdowns } of entry.carriedProjects) {
+        const projectId = await ctx.db.insert("projects", {
+          particulars: project.particulars,
+          implementingOffice: project.implementingOffice,
+          departmentId: project.departmentId,
+          categoryId: project.categoryId,
+          budgetItemId,
+          totalBudgetAllocated: unspentBalance,
+          obligatedBudget: 0,
+          totalBudgetUtilized: 0,
+          utilizationRate: 0,
+          autoCalculateBudgetUtilized: project.autoCalculateBudgetUtilized,
+          projectCompleted: 0,
+          projectDelayed: 0,
+          projectsOnTrack: 0,
+          remarks: project.remarks,
+          year: args.toYear,
+          status: project.status,
+          targetDateCompletion: project.targetDateCompletion,
+          projectManagerId: project.projectManagerId,
+          sourceProjectId: project._id,
+          isContinuingAppropriation: true,
+          continuingFromYear: args.fromYear,
+          isDeleted: false,
+          createdBy: userId,
+          createdAt: now,
+          updatedAt: now,
+        });
+        createdProjectIds.push(projectId);
+
+        await ctx.runMutation(internal.projectParticulars.updateUsageCount, {
+          code: project.particulars,
+          delta: 1,
+        });
+
+        await ctx.runMutation(internal.implementingAgencies.updateUsageCount, {
+          code: project.implementingOffice,
+          usageContext: "project",
+          delta: 1,
+        });
+
+        if (project.categoryId) {
+          await ctx.runMutation(internal.projectCategories.updateUsageCount, {
+            categoryId: project.categoryId,
+            delta: 1,
+          });
+        }
+
+        await logProjectActivity(ctx, userId, {
+          action: "created",
+          projectId,
+          newValues: await ctx.db.get(projectId),
+          reason,
+        });
+
+        // 3. Carry forward the project's unfinished breakdowns
+        for (const breakdown of breakdowns) {
+          const balance = getBreakdownUnspentBalance(breakdown);
+          const breakdownId = await ctx.db.insert("govtProjectBreakdowns", {
+            projectName: breakdown.projectName,
+            implementingOffice: breakdown.implementingOffice,
+            projectId,
+            projectTitle: breakdown.projectTitle,
+            allocatedBudget: balance,
+            obligatedBudget: 0,
+            budgetUtilized: 0,
+            utilizationRate: 0,
+            balance,
+            dateStarted: breakdown.dateStarted,
+            targetDate: breakdown.targetDate,
+            projectAccomplishment: breakdown.projectAccomplishment,
+            status: breakdown.status,
+            remarks: breakdown.remarks,
+            district: breakdown.district,
+            municipality: breakdown.municipality,
+            barangay: breakdown.barangay,
+            fundSource: breakdown.fundSource,
+            sourceBreakdownId: breakdown._id,
+            isDeleted: false,
+            createdBy: userId,
+            createdAt: now,
+            updatedAt: now,
+            updatedBy: userId,
+          });
+          createdBreakdowns.push({
+            breakdownId,
+            breakdown: await ctx.db.get(breakdownId),
+          });
+
+          await ctx.runMutation(internal.implementingAgencies.updateUsageCount, {
+            code: breakdown.implementingOffice,
+            usageContext: "breakdown",
+            delta: 1,
+          });
+        }
+
+        // ✅ RECALCULATE NEW PROJECT (and through it, the new budget item)
+        await recalculateProjectMetrics(ctx, projectId, userId);
+      }
+
+      // ✅ Budget items without carried projects still need their counts initialised
+      if (entry.carriedProjects.length === 0) {
+        await recalculateBudgetItemMetrics(ctx, budgetItemId, userId);
+      }
+    }
+
+    let batchId: string | undefined;
+    if (createdBreakdowns.length > 0) {
+      batchId = await logBulkGovtProjectActivity(
+        ctx,
+        userId,
+        "bulk_created",
+        createdBreakdowns.map((r) => ({
+          breakdownId: r.breakdownId,
+          breakdown: r.breakdown,
+          newValues: r.breakdown,
+        })),
+        {
+          source: "system",
+          reason,
+        }
+      );
+    }
+
+    // Update target year counts
+    await ctx.db.patch(targetYear._id, {
+      budgetItemCount: (targetYear.budgetItemCount || 0) + createdBudgetItemIds.length,
+      projectCount: (targetYear.projectCount || 0) + createdProjectIds.length,
+      breakdownCount: (targetYear.breakdownCount || 0) + createdBreakdowns.length,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    return {
+      success: true,
+      budgetItemsCreated: createdBudgetItemIds.length,
+      projectsCreated: createdProjectIds.length,
+      breakdownsCreated: createdBreakdowns.length,
+      continuingAppropriation,
+      batchId,
+    };
+  },
+});
@@ -1,8 +1,33 @@
 // convex/govtProjectActivities.ts
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import {
+  createBreakdownActivityDepartmentResolver,
+  filterByResolvedDepartment,
+  getDepartmentAccess,
+} from "./lib/departmentAccess";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { logBulkGovtProjectActivity, generateBatchId } from "./lib/govtProjectActivityLogger";
+import { buildBatchRollbackPlan, applyRollbackItem, RollbackPlanItem } from "./lib/batchRollback";
+import { recalculateProjectMetrics } from "./lib/projectAggregation";
+
+/**
+ * Row-level access: only activities of breakdowns in departments the user can see
+ */
+async function filterVisibleActivities(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  activities: Doc<"govtProjectBreakdownActivities">[]
+) {
+  const access = await getDepartmentAccess(ctx, userId);
+  return filterByResolvedDepartment(access, activities, createBreakdownActivityDepartmentResolver(ctx));
+}
 
 /**
  * Get activities for a specific breakdown
@@ -26,7 +51,7 @@ export const getBreakdownActivities = query({
       .order("desc")
       .take(limit);
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -74,7 +99,7 @@ export const getProjectOfficeActivities = query({
       activities = activities.filter(a => a.action === args.action);
     }
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -162,6 +187,8 @@ export const getAllActivities = query({
       activities = activities.filter(a => a.batchId === args.batchId);
     }
 
+    activities = await filterVisibleActivities(ctx, userId, activities);
+
     // Pagination
     const totalCount = activities.length;
     const totalPages = Math.ceil(totalCount / pageSize);
@@ -194,27 +221,27 @@ export const getFlaggedActivities = query({
     if (!userId) throw new Error("Not authenticated");
 
     const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "super_admin" && user.role !== "admin")) {
+    if (!user || !(await hasPermission(ctx, user._id, PERMISSIONS.activity.review))) {
       throw new Error("Not authorized - administrator access required");
     }
 
-    if (args.includeReviewed) {
-      // Get all flagged activities
-      return await ctx.db
-        .query("govtProjectBreakdownActivities")
-        .withIndex("isFlagged", (q) => q.eq("isFlagged", true))
-        .order("desc")
-        .collect();
-    } else {
-      // Get only unreviewed flagged activities
-      return await ctx.db
-        .query("govtProjectBreakdownActivities")
-        .withIndex("flaggedAndNotReviewed", (q) => 
-          q.eq("isFlagged", true).eq("isReviewed", false)
-        )
-        .order("desc")
-        .collect();
-    }
+    const activities = args.includeReviewed
+      ? // Get all flagged activities
+        await ctx.db
+          .query("govtProjectBreakdownActivities")
+          .withIndex("isFlagged", (q) => q.eq("isFlagged", true))
+          .order("desc")
+          .collect()
+      : // Get only unreviewed flagged activities
+        await ctx.db
+          .query("govtProjectBreakdownActivities")
+          .withIndex("flaggedAndNotReviewed", (q) =>
+            q.eq("isFlagged", true).eq("isReviewed", false)
+          )
+          .order("desc")
+          .collect();
+
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -255,6 +282,8 @@ export const getActivityStatistics = query({
       activities = activities.filter(a => a.implementingOffice === args.implementingOffice);
     }
 
+    activities = await filterVisibleActivities(ctx, userId, activities);
+
     // Calculate statistics
     const stats = {
       total: activities.length,
@@ -337,7 +366,7 @@ export const getUserActivities = query({
       activities = activities.filter(a => a.timestamp <= args.endDate!);
     }
 
-    return activities;
+    return filterVisibleActivities(ctx, authUserId, activities);
   },
 });
 
@@ -358,7 +387,157 @@ export const getBatchActivities = query({
       .order("desc")
       .collect();
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
+  },
+});
+
+/**
+ * Preview what rolling back a bulk batch would do (requires activity.rollback)
+ * Lists every row the user can see with its undo operation and any conflicts
+ */
+export const previewBatchRollback = permissionQuery(PERMISSIONS.activity.rollback, {
+  args: {
+    batchId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const plan = await buildBatchRollbackPlan(ctx, args.batchId);
+    if (!plan) return null;
+
+    const activities = await Promise.all(plan.items.map((item) => ctx.db.get(item.activityId)));
+    const visible = new Set(
+      (
+        await filterVisibleActivities(
+          ctx,
+          userId,
+          activities.filter((activity) => activity !== null)
+        )
+      ).map((activity) => activity._id)
+    );
+    const items = plan.items.filter((item) => visible.has(item.activityId));
+    if (items.length === 0) return null;
+
+    return {
+      ...plan,
+      // Snapshots are only needed by the mutation
+      items: items.map((item) => ({ ...item, snapshot: undefined })),
+      conflictCount: items.filter((item) => item.conflict).length,
+    };
+  },
+});
+
+/**
+ * Roll back a bulk create / update / delete batch (requires activity.rollback)
+ * Created rows go to trash, updated rows get their previous values back and
+ * deleted rows are re-inserted. Rows edited after the batch are conflicts:
+ * the rollback is refused unless skipConflicts is set, in which case they are left as is.
+ * Every row rolled back must be in the user's departments.
+ */
+export const rollbackBatch = permissionMutation(PERMISSIONS.activity.rollback, {
+  args: {
+    batchId: v.string(),
+    skipConflicts: v.optional(v.boolean()),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const plan = await buildBatchRollbackPlan(ctx, args.batchId);
+
+    if (!plan) {
+      throw new Error("No bulk activities found for this batch");
+    }
+    if (plan.isRollback) {
+      throw new Error("This batch is itself a rollback and cannot be rolled back");
+    }
+    if (plan.rolledBackAt !== undefined) {
+      throw new Error("This batch has already been rolled back");
+    }
+    if (plan.conflictCount > 0 && !args.skipConflicts) {
+      throw new Error(
+        `${plan.conflictCount} row(s) were changed after this batch. Review the conflicts and skip them to continue.`
+      );
+    }
+
+    const access = await getDepartmentAccess(ctx, userId);
+    const rollbackBatchId = generateBatchId();
+    const reason = args.reason || `Rollback of batch ${args.batchId}`;
+    const affectedProjects = new Set<Id<"projects">>();
+    const agencyUsage = new Map<string, number>();
+    const logged: Record<RollbackPlanItem["operation"], Parameters<typeof logBulkGovtProjectActivity>[3]> = {
+      trash: [],
+      restore: [],
+      recreate: [],
+    };
+    let skipped = 0;
+
+    for (const item of plan.items) {
+      if (item.conflict) {
+        skipped++;
+        continue;
+      }
+
+      const result = await applyRollbackItem(ctx, userId, access, item);
+      for (const [code, delta] of result.agencyDeltas) {
+        agencyUsage.set(code, (agencyUsage.get(code) || 0) + delta);
+      }
+      result.projectIds.forEach((projectId) => affectedProjects.add(projectId));
+
+      logged[item.operation].push({
+        breakdownId: result.breakdownId,
+        breakdown: result.newValues,
+        previousValues: result.previousValues,
+        newValues: result.newValues,
+      });
+
+      await ctx.db.patch(item.activityId, {
+        rolledBackAt: Date.now(),
+        rolledBackBy: userId,
+        rollbackBatchId,
+      });
+    }
+
+    // Update Agency Counts
+    for (const [agencyCode, delta] of agencyUsage.entries()) {
+      if (delta !== 0) {
+        await ctx.runMutation(internal.implementingAgencies.updateUsageCount, {
+          code: agencyCode,
+          usageContext: "breakdown",
+          delta,
+        });
+      }
+    }
+
+    // All rollback activities share one batch ID
+    const logConfig = { source: "system" as const, reason, batchId: rollbackBatchId };
+    // Trashed rows still exist, so like moveToTrash they are logged as updates
+    if (logged.trash.length > 0) {
+      await logBulkGovtProjectActivity(ctx, userId, "bulk_updated", logged.trash, {
+        ...logConfig,
+        reason: `${reason} (moved to trash)`,
+      });
+    }
+    if (logged.restore.length > 0) {
+      await logBulkGovtProjectActivity(ctx, userId, "bulk_updated", logged.restore, logConfig);
+    }
+    if (logged.recreate.length > 0) {
+      await logBulkGovtProjectActivity(ctx, userId, "bulk_created", logged.recreate, logConfig);
+    }
+
+    // ✅ RECALCULATE ALL AFFECTED PARENT PROJECTS
+    for (const projectId of affectedProjects) {
+      await recalculateProjectMetrics(ctx, projectId, userId);
+    }
+
+    return {
+      rollbackBatchId,
+      trashed: logged.trash.length,
+      restored: logged.restore.length,
+      recreated: logged.recreate.length,
+      skipped,
+      affectedProjects: affectedProjects.size,
+    };
   },
 });
 
@@ -375,7 +554,7 @@ export const reviewActivity = mutation({
     if (!userId) throw new Error("Not authenticated");
 
     const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "super_admin" && user.role !== "admin")) {
+    if (!user || !(await hasPermission(ctx, user._id, PERMISSIONS.activity.review))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -415,6 +594,8 @@ export const getRecentActivities = query({
       activities = activities.filter(a => a.action !== "viewed");
     }
 
+    activities = await filterVisibleActivities(ctx, userId, activities);
+
     return activities.slice(0, limit);
   },
 });
@@ -454,6 +635,6 @@ export const searchActivities = query({
       );
     });
 
-    return filtered.slice(0, limit);
+    return (await filterVisibleActivities(ctx, userId, filtered)).slice(0, limit);
   },
 });
\ No newline at end of file
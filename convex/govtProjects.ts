@@ -1,10 +1,23 @@
 // convex/govtProjects.ts
 // 🆕 ENHANCED: Now validates implementing agencies and updates usage counts
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
-import { logGovtProjectActivity, logBulkGovtProjectActivity } from "./lib/govtProjectActivityLogger";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { logGovtProjectActivity, logBulkGovtProjectActivity, generateBatchId } from "./lib/govtProjectActivityLogger";
 import { recalculateProjectMetrics } from "./lib/projectAggregation";
+import {
+  createBreakdownDepartmentResolver,
+  filterBreakdownsByDepartment,
+  filterByDepartment,
+  getDepartmentAccess,
+  hasDepartmentAccess,
+  requireBreakdownAccess,
+  requireDepartmentAccess,
+} from "./lib/departmentAccess";
+import {
+  normalizeBreakdownImportRow,
+  validateBreakdownImportRows,
+} from "./lib/breakdownImport";
 import { Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 
@@ -15,11 +28,36 @@ const statusValidator = v.union(
   v.literal("ongoing")
 );
 
+// Reusable row validator for bulk create / import dry run
+const breakdownRowValidator = v.object({
+  projectName: v.string(),
+  implementingOffice: v.string(),
+  projectId: v.optional(v.id("projects")),
+  municipality: v.optional(v.string()),
+  barangay: v.optional(v.string()),
+  district: v.optional(v.string()),
+  allocatedBudget: v.optional(v.number()),
+  obligatedBudget: v.optional(v.number()),
+  budgetUtilized: v.optional(v.number()),
+  balance: v.optional(v.number()),
+  status: v.optional(statusValidator),
+  dateStarted: v.optional(v.number()),
+  targetDate: v.optional(v.number()),
+  completionDate: v.optional(v.number()),
+  remarks: v.optional(v.string()),
+  projectTitle: v.optional(v.string()),
+  utilizationRate: v.optional(v.number()),
+  projectAccomplishment: v.optional(v.number()),
+  reportDate: v.optional(v.number()),
+  batchId: v.optional(v.string()),
+  fundSource: v.optional(v.string()),
+});
+
 /**
  * CREATE: Single project breakdown row
  * 🆕 ENHANCED: Now validates implementing agency
  */
-export const createProjectBreakdown = mutation({
+export const createProjectBreakdown = permissionMutation(PERMISSIONS.breakdown.create, {
   args: {
       projectName: v.string(),
       implementingOffice: v.string(),
@@ -45,8 +83,7 @@ export const createProjectBreakdown = mutation({
       fundSource: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-        const userId = await getAuthUserId(ctx);
-        if (!userId) throw new Error("Not authenticated");
+        const { userId } = ctx;
 
         // Validate implementing agency exists and is active
         const agency = await ctx.db
@@ -75,6 +112,9 @@ export const createProjectBreakdown = mutation({
             if (!project) throw new Error("Parent project not found");
         }
 
+        // The new row must belong to a department the user can access
+        await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), args);
+
         // Insert the breakdown
         const breakdownId = await ctx.db.insert("govtProjectBreakdowns", {
             ...breakdownData,
@@ -117,7 +157,7 @@ export const createProjectBreakdown = mutation({
  * UPDATE: Single project breakdown row
  * 🆕 ENHANCED: Now validates implementing agency if changed
  */
-export const updateProjectBreakdown = mutation({
+export const updateProjectBreakdown = permissionMutation(PERMISSIONS.breakdown.edit, {
   args: {
     breakdownId: v.id("govtProjectBreakdowns"),
     projectName: v.optional(v.string()),
@@ -143,8 +183,7 @@ export const updateProjectBreakdown = mutation({
     fundSource: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const { breakdownId, reason, ...updates } = args;
 
@@ -153,6 +192,14 @@ export const updateProjectBreakdown = mutation({
       throw new Error("Breakdown not found");
     }
 
+    // Both where the breakdown is and where it is being moved to must be accessible
+    const access = await getDepartmentAccess(ctx, userId);
+    await requireBreakdownAccess(ctx, access, previousBreakdown);
+    await requireBreakdownAccess(ctx, access, {
+      projectId: args.projectId ?? previousBreakdown.projectId,
+      implementingOffice: args.implementingOffice ?? previousBreakdown.implementingOffice,
+    });
+
     // Handle Implementing Office Change
     const newImplementingOffice = args.implementingOffice;
     if (newImplementingOffice && newImplementingOffice !== previousBreakdown.implementingOffice) {
@@ -227,17 +274,17 @@ export const updateProjectBreakdown = mutation({
 /**
  * HARD DELETE: Permanent Removal
  */
-export const deleteProjectBreakdown = mutation({
+export const deleteProjectBreakdown = permissionMutation(PERMISSIONS.breakdown.delete, {
   args: {
     breakdownId: v.id("govtProjectBreakdowns"),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const breakdown = await ctx.db.get(args.breakdownId);
     if (!breakdown) throw new Error("Breakdown not found");
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
 
     const projectId = breakdown.projectId;
 
@@ -269,56 +316,59 @@ export const deleteProjectBreakdown = mutation({
   },
 });
 
+/**
+ * 🆕 IMPORT DRY RUN: Validate rows before bulkCreateBreakdowns
+ * Nothing is written. Returns the errors found for each row (by index)
+ * so the import screen can show them before committing the batch.
+ */
+export const validateBreakdownImport = permissionQuery(PERMISSIONS.breakdown.bulkImport, {
+  args: {
+    breakdowns: v.array(breakdownRowValidator),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const rows = await validateBreakdownImportRows(
+      ctx,
+      await getDepartmentAccess(ctx, userId),
+      args.breakdowns.map(normalizeBreakdownImportRow)
+    );
+
+    const errorCount = rows.filter(r => r.errors.length > 0).length;
+
+    return {
+      rows,
+      validCount: rows.length - errorCount,
+      errorCount,
+    };
+  },
+});
+
 /**
  * BULK CREATE: Multiple project breakdowns
  * 🆕 ENHANCED: Now validates implementing agencies for bulk operations
  */
-export const bulkCreateBreakdowns = mutation({
+export const bulkCreateBreakdowns = permissionMutation(PERMISSIONS.breakdown.bulkImport, {
   args: {
-    breakdowns: v.array(v.object({
-      projectName: v.string(),
-      implementingOffice: v.string(),
-      projectId: v.optional(v.id("projects")),
-      municipality: v.optional(v.string()),
-      barangay: v.optional(v.string()),
-      district: v.optional(v.string()),
-      allocatedBudget: v.optional(v.number()),
-      obligatedBudget: v.optional(v.number()),
-      budgetUtilized: v.optional(v.number()),
-      balance: v.optional(v.number()),
-      status: v.optional(statusValidator),
-      dateStarted: v.optional(v.number()),
-      targetDate: v.optional(v.number()),
-      completionDate: v.optional(v.number()),
-      remarks: v.optional(v.string()),
-      projectTitle: v.optional(v.string()),
-      utilizationRate: v.optional(v.number()),
-      projectAccomplishment: v.optional(v.number()),
-      reportDate: v.optional(v.number()),
-      batchId: v.optional(v.string()),
-      fundSource: v.optional(v.string()),
-    })),
+    breakdowns: v.array(breakdownRowValidator),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
-    // Validate all implementing agencies first
-    const uniqueAgencies = new Set(args.breakdowns.map(b => b.implementingOffice));
-    for (const agencyCode of uniqueAgencies) {
-      const agency = await ctx.db
-        .query("implementingAgencies")
-        .withIndex("code", (q) => q.eq("code", agencyCode))
-        .first();
-      
-      if (!agency) {
-        throw new Error(`Implementing agency "${agencyCode}" does not exist.`);
-      }
-      if (!agency.isActive) {
-        throw new Error(`Implementing agency "${agencyCode}" is inactive.`);
-      }
+    // Same checks as the dry run (validateBreakdownImport); any failing row
+    // rejects the whole batch
+    const breakdowns = args.breakdowns.map(normalizeBreakdownImportRow);
+    const results = await validateBreakdownImportRows(
+      ctx,
+      await getDepartmentAccess(ctx, userId),
+      breakdowns
+    );
+    const invalid = results.find((result) => result.errors.length > 0);
+    if (invalid) {
+      throw new Error(`Row ${invalid.index + 1}: ${invalid.errors.join("; ")}`);
     }
+    const uniqueAgencies = new Set(breakdowns.map(b => b.implementingOffice));
 
     const now = Date.now();
     const insertedRecords: Array<{ 
@@ -327,10 +377,15 @@ export const bulkCreateBreakdowns = mutation({
     }> = [];
     const affectedProjects = new Set<Id<"projects">>();
 
+    // 🆕 One batch ID shared by the records and their activity logs,
+    // so the whole import can be traced (and rolled back) as a unit
+    const batchId = generateBatchId();
+
     // Insert Loop
-    for (const breakdown of args.breakdowns) {
+    for (const breakdown of breakdowns) {
       const breakdownId = await ctx.db.insert("govtProjectBreakdowns", {
         ...breakdown,
+        batchId,
         createdBy: userId,
         createdAt: now,
         updatedAt: now,
@@ -347,7 +402,7 @@ export const bulkCreateBreakdowns = mutation({
 
     // Bulk Update Agency Usage Counts
     for (const agencyCode of uniqueAgencies) {
-      const count = args.breakdowns.filter(b => b.implementingOffice === agencyCode).length;
+      const count = breakdowns.filter(b => b.implementingOffice === agencyCode).length;
       await ctx.runMutation(internal.implementingAgencies.updateUsageCount, {
         code: agencyCode,
         usageContext: "breakdown",
@@ -356,7 +411,7 @@ export const bulkCreateBreakdowns = mutation({
     }
 
     // Log Bulk Activity
-    const batchId = await logBulkGovtProjectActivity(
+    await logBulkGovtProjectActivity(
       ctx,
       userId,
       "bulk_created",
@@ -368,6 +423,7 @@ export const bulkCreateBreakdowns = mutation({
       {
         source: "bulk_import",
         reason: args.reason || "Excel import",
+        batchId,
       }
     );
 
@@ -385,13 +441,12 @@ export const bulkCreateBreakdowns = mutation({
   },
 });
 
-export const getBreakdownStats = query({
+export const getBreakdownStats = permissionQuery(PERMISSIONS.breakdown.view, {
   args: {
     budgetItemId: v.optional(v.id("budgetItems")),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     let allBreakdowns = [];
     
@@ -420,6 +475,12 @@ export const getBreakdownStats = query({
         .collect();
     }
 
+    allBreakdowns = await filterBreakdownsByDepartment(
+      ctx,
+      await getDepartmentAccess(ctx, userId),
+      allBreakdowns
+    );
+
     const totalBreakdowns = allBreakdowns.length;
     const totalAllocated = allBreakdowns.reduce((sum, b) => sum + (b.allocatedBudget || 0), 0);
     const totalUtilized = allBreakdowns.reduce((sum, b) => sum + (b.budgetUtilized || 0), 0);
@@ -448,7 +509,7 @@ export const getBreakdownStats = query({
  * BULK UPDATE: Multiple project breakdowns
  * 🆕 ENHANCED: Now validates implementing agencies for bulk operations
  */
-export const bulkUpdateBreakdowns = mutation({
+export const bulkUpdateBreakdowns = permissionMutation(PERMISSIONS.breakdown.bulkEdit, {
   args: {
     updates: v.array(v.object({
       breakdownId: v.id("govtProjectBreakdowns"),
@@ -476,8 +537,7 @@ export const bulkUpdateBreakdowns = mutation({
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     // Validate any NEW implementing agencies
     const newAgencies = new Set(
@@ -509,11 +569,22 @@ export const bulkUpdateBreakdowns = mutation({
     }> = [];
     const affectedProjects = new Set<Id<"projects">>();
     const agencyChanges = new Map<string, number>();
+    const access = await getDepartmentAccess(ctx, userId);
+    const resolveDepartment = createBreakdownDepartmentResolver(ctx);
 
     for (const update of args.updates) {
       const { breakdownId, ...updateData } = update;
       const previousBreakdown = await ctx.db.get(breakdownId);
       if (!previousBreakdown) continue;
+      if (!hasDepartmentAccess(access, await resolveDepartment(previousBreakdown))) continue;
+      requireDepartmentAccess(
+        access,
+        await resolveDepartment({
+          projectId: update.projectId ?? previousBreakdown.projectId,
+          implementingOffice: update.implementingOffice ?? previousBreakdown.implementingOffice,
+        }),
+        "breakdown"
+      );
 
       // Track Parent Projects for recalculation
       if (previousBreakdown.projectId) affectedProjects.add(previousBreakdown.projectId);
@@ -586,14 +657,13 @@ export const bulkUpdateBreakdowns = mutation({
 /**
  * BULK DELETE: Multiple project breakdowns
  */
-export const bulkDeleteBreakdowns = mutation({
+export const bulkDeleteBreakdowns = permissionMutation(PERMISSIONS.breakdown.bulkEdit, {
   args: {
     breakdownIds: v.array(v.id("govtProjectBreakdowns")),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const deletedRecords: Array<{
       breakdownId: Id<"govtProjectBreakdowns">;
@@ -602,10 +672,13 @@ export const bulkDeleteBreakdowns = mutation({
 
     const affectedProjects = new Set<Id<"projects">>();
     const agencyUsage = new Map<string, number>();
+    const access = await getDepartmentAccess(ctx, userId);
+    const resolveDepartment = createBreakdownDepartmentResolver(ctx);
 
     for (const breakdownId of args.breakdownIds) {
       const breakdown = await ctx.db.get(breakdownId);
       if (!breakdown) continue;
+      if (!hasDepartmentAccess(access, await resolveDepartment(breakdown))) continue;
 
       const agency = breakdown.implementingOffice;
       agencyUsage.set(agency, (agencyUsage.get(agency) || 0) + 1);
@@ -661,15 +734,18 @@ export const bulkDeleteBreakdowns = mutation({
 /**
  * READ: Get a single project breakdown by ID
  */
-export const getProjectBreakdown = query({
+export const getProjectBreakdown = permissionQuery(PERMISSIONS.breakdown.view, {
   args: {
     breakdownId: v.id("govtProjectBreakdowns"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
-    return await ctx.db.get(args.breakdownId);
+    const breakdown = await ctx.db.get(args.breakdownId);
+    if (breakdown) {
+      await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
+    }
+    return breakdown;
   },
 });
 
@@ -677,7 +753,7 @@ export const getProjectBreakdown = query({
  * Get ACTIVE breakdowns (Hidden Trash)
  * 🔧 UPDATED: Enhanced to properly handle projectId filtering using index
  */
-export const getProjectBreakdowns = query({
+export const getProjectBreakdowns = permissionQuery(PERMISSIONS.breakdown.view, {
   args: {
     projectName: v.optional(v.string()),
     implementingOffice: v.optional(v.string()),
@@ -687,8 +763,7 @@ export const getProjectBreakdowns = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     let breakdowns;
 
@@ -729,6 +804,13 @@ export const getProjectBreakdowns = query({
       breakdowns = breakdowns.filter(b => b.status === args.status);
     }
 
+    // Row-level access: only breakdowns of departments the user can see
+    breakdowns = await filterBreakdownsByDepartment(
+      ctx,
+      await getDepartmentAccess(ctx, userId),
+      breakdowns
+    );
+
     // Sort by most recent first
     breakdowns.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
 
@@ -743,34 +825,35 @@ export const getProjectBreakdowns = query({
 /**
  * Get TRASHED breakdowns only
  */
-export const getTrash = query({
+export const getTrash = permissionQuery(PERMISSIONS.breakdown.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
-    return await ctx.db
+    const trashed = await ctx.db
       .query("govtProjectBreakdowns")
       .withIndex("isDeleted", (q) => q.eq("isDeleted", true))
       .order("desc")
       .collect();
+
+    return filterBreakdownsByDepartment(ctx, await getDepartmentAccess(ctx, userId), trashed);
   },
 });
 
 /**
  * Soft Delete: Move Breakdown to Trash
  */
-export const moveToTrash = mutation({
+export const moveToTrash = permissionMutation(PERMISSIONS.breakdown.trash, {
   args: {
     breakdownId: v.id("govtProjectBreakdowns"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const breakdown = await ctx.db.get(args.breakdownId);
     if (!breakdown) throw new Error("Breakdown not found");
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
 
     // Mark as deleted
     await ctx.db.patch(args.breakdownId, {
@@ -809,14 +892,14 @@ export const moveToTrash = mutation({
 /**
  * Restore Breakdown from Trash
  */
-export const restoreFromTrash = mutation({
+export const restoreFromTrash = permissionMutation(PERMISSIONS.breakdown.trash, {
   args: { breakdownId: v.id("govtProjectBreakdowns") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const breakdown = await ctx.db.get(args.breakdownId);
     if (!breakdown) throw new Error("Breakdown not found");
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
 
     // Mark as active
     await ctx.db.patch(args.breakdownId, {
@@ -845,13 +928,16 @@ export const restoreFromTrash = mutation({
 /**
  * 🆕 MANUAL RECALCULATION: Recalculate specific project
  */
-export const recalculateProject = mutation({
+export const recalculateProject = permissionMutation(PERMISSIONS.breakdown.recalculate, {
   args: {
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
+
+    const project = await ctx.db.get(args.projectId);
+    if (!project) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), project.departmentId, "project");
 
     const result = await recalculateProjectMetrics(ctx, args.projectId, userId);
 
@@ -866,18 +952,16 @@ export const recalculateProject = mutation({
 /**
  * 🆕 MANUAL RECALCULATION: Recalculate ALL projects
  */
-export const recalculateAllProjects = mutation({
+export const recalculateAllProjects = permissionMutation(PERMISSIONS.project.recalculateAll, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
-    const user = await ctx.db.get(userId);
-    if (!user || user.role !== "super_admin") {
-      throw new Error("Only super_admin can recalculate all projects");
-    }
-
-    const allProjects = await ctx.db.query("projects").collect();
+    // Only projects of departments the user can access
+    const allProjects = filterByDepartment(
+      await getDepartmentAccess(ctx, userId),
+      await ctx.db.query("projects").collect()
+    );
     const results = [];
 
     for (const project of allProjects) {
@@ -897,18 +981,18 @@ export const recalculateAllProjects = mutation({
   },
 });
 
-export const logBreakdownView = mutation({
+export const logBreakdownView = permissionMutation(PERMISSIONS.breakdown.view, {
   args: {
     breakdownId: v.id("govtProjectBreakdowns"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const breakdown = await ctx.db.get(args.breakdownId);
     if (!breakdown) {
       throw new Error("Breakdown not found");
     }
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
 
     await logGovtProjectActivity(ctx, userId, {
       action: "viewed",
@@ -921,18 +1005,21 @@ export const logBreakdownView = mutation({
   },
 });
 
-export const logBreakdownExport = mutation({
+export const logBreakdownExport = permissionMutation(PERMISSIONS.breakdown.export, {
   args: {
     breakdownIds: v.array(v.id("govtProjectBreakdowns")),
     exportFormat: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
+    const access = await getDepartmentAccess(ctx, userId);
     const breakdowns = await Promise.all(
       args.breakdownIds.map(id => ctx.db.get(id))
     );
+    for (const breakdown of breakdowns) {
+      if (breakdown) await requireBreakdownAccess(ctx, access, breakdown);
+    }
 
     const validBreakdowns = breakdowns.filter(b => b !== null);
     
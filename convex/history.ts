@@ -0,0 +1,183 @@
+// convex/history.ts
+
+import { v } from "convex/values";
+import { query, mutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { Authorization, authorizePermission } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import {
+  getDepartmentAccess,
+  requireBreakdownAccess,
+  requireDepartmentAccess,
+} from "./lib/departmentAccess";
+import {
+  buildEntityHistory,
+  diffSnapshots,
+  findVersionAsOf,
+  normalizeEntityId,
+  restoreEntityVersion,
+  HistoryEntityType,
+  HistorySnapshot,
+  HistoryVersion,
+} from "./lib/entityHistory";
+
+const entityTypeValidator = v.union(
+  v.literal("budgetItem"),
+  v.literal("project"),
+  v.literal("breakdown"),
+  v.literal("trustFund")
+);
+
+/**
+ * Reading a record's history needs its view permission; restoring a
+ * version needs its edit permission
+ */
+const ENTITY_PERMISSIONS: Record<HistoryEntityType, { view: string; edit: string }> = {
+  budgetItem: PERMISSIONS.budget,
+  project: PERMISSIONS.project,
+  breakdown: PERMISSIONS.breakdown,
+  trustFund: PERMISSIONS.trustFund,
+};
+
+/**
+ * The record as it stands, or as last logged when it has been deleted
+ */
+function getLatestState(versions: HistoryVersion[], current: HistorySnapshot | null) {
+  if (current) return current;
+  for (let i = versions.length - 1; i >= 0; i--) {
+    if (versions[i].snapshot) return versions[i].snapshot;
+  }
+  return null;
+}
+
+/**
+ * Throw unless the user can access the department of every given state of
+ * the record. Budget items are not scoped by department.
+ */
+async function requireEntityAccess(
+  ctx: QueryCtx | MutationCtx,
+  authorization: Authorization,
+  entityType: HistoryEntityType,
+  states: (HistorySnapshot | null)[]
+) {
+  if (entityType === "budgetItem") return;
+
+  const access = await getDepartmentAccess({ ...ctx, ...authorization }, authorization.userId);
+  for (const state of states) {
+    if (!state) continue;
+    if (entityType === "breakdown") {
+      await requireBreakdownAccess(ctx, access, state as Doc<"govtProjectBreakdowns">);
+    } else {
+      requireDepartmentAccess(
+        access,
+        state.departmentId as Id<"departments"> | undefined,
+        entityType === "project" ? "project" : "trust fund"
+      );
+    }
+  }
+}
+
+/**
+ * Full timeline of a budget item, project, breakdown or trust fund
+ * Versions are newest first, each with its field-level diff
+ */
+export const getTimeline = query({
+  args: {
+    entityType: entityTypeValidator,
+    entityId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const authorization = await authorizePermission(ctx, ENTITY_PERMISSIONS[args.entityType].view);
+
+    const id = normalizeEntityId(ctx, args.entityType, args.entityId);
+    const [versions, current] = await Promise.all([
+      buildEntityHistory(ctx, args.entityType, id),
+      ctx.db.get(id) as Promise<HistorySnapshot | null>,
+    ]);
+    await requireEntityAccess(ctx, authorization, args.entityType, [
+      getLatestState(versions, current),
+    ]);
+
+    return {
+      versions: versions.reverse(),
+      current,
+    };
+  },
+});
+
+/**
+ * Rebuild a record as it was at a point in time
+ * Also returns the diff between that state and the live record
+ */
+export const getAsOf = query({
+  args: {
+    entityType: entityTypeValidator,
+    entityId: v.string(),
+    asOf: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const authorization = await authorizePermission(ctx, ENTITY_PERMISSIONS[args.entityType].view);
+
+    const id = normalizeEntityId(ctx, args.entityType, args.entityId);
+    const versions = await buildEntityHistory(ctx, args.entityType, id);
+    const version = findVersionAsOf(versions, args.asOf);
+    const current = (await ctx.db.get(id)) as HistorySnapshot | null;
+    const snapshot = version?.snapshot ?? null;
+    await requireEntityAccess(ctx, authorization, args.entityType, [
+      getLatestState(versions, current),
+    ]);
+
+    return {
+      asOf: args.asOf,
+      activityId: version?.activityId,
+      versionTimestamp: version?.timestamp,
+      snapshot,
+      diffFromCurrent: diffSnapshots(snapshot, current),
+    };
+  },
+});
+
+/**
+ * Restore a record to the state logged by one of its activities
+ */
+export const restoreVersion = mutation({
+  args: {
+    entityType: entityTypeValidator,
+    entityId: v.string(),
+    activityId: v.string(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const authorization = await authorizePermission(ctx, ENTITY_PERMISSIONS[args.entityType].edit);
+    const { userId } = authorization;
+
+    const id = normalizeEntityId(ctx, args.entityType, args.entityId);
+    const versions = await buildEntityHistory(ctx, args.entityType, id);
+    const version = versions.find((entry) => entry.activityId === args.activityId);
+    const current = (await ctx.db.get(id)) as HistorySnapshot | null;
+
+    if (!version) {
+      throw new Error("Version not found in this record's history");
+    }
+    if (!version.snapshot) {
+      throw new Error("This version is a deletion and cannot be restored");
+    }
+    // Restoring may move the record back to another department: both must be accessible
+    await requireEntityAccess(ctx, authorization, args.entityType, [
+      getLatestState(versions, current),
+      version.snapshot,
+    ]);
+
+    const versionDate = new Date(version.timestamp).toLocaleString("en-US");
+    await restoreEntityVersion(
+      ctx,
+      userId,
+      args.entityType,
+      id,
+      version.snapshot,
+      args.reason || `Restored version from ${versionDate}`
+    );
+
+    return { success: true };
+  },
+});
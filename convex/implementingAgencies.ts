@@ -1,7 +1,16 @@
 // convex/implementingAgencies.ts
 import { v } from "convex/values";
 import { query, mutation, internalMutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { getDepartmentAccess } from "./lib/departmentAccess";
+import {
+  buildAllAgencyTotals,
+  buildAgencyTotals,
+  getAgencyRecords,
+  getDelayedItems,
+  getEmptyAgencyTotals,
+} from "./lib/agencyAggregation";
 
 /**
  * ============================================================================
@@ -241,6 +250,110 @@ export const getStatistics = query({
   },
 });
 
+/**
+ * 🆕 Agency dashboard: every active agency with its portfolio totals
+ * Aggregates projects, breakdowns and trust funds by agency code, optionally for one fiscal year
+ */
+export const getDashboardSummaries = query({
+  args: {
+    year: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) throw new Error("Not authenticated");
+
+    const agencies = await ctx.db
+      .query("implementingAgencies")
+      .withIndex("isActive", (q) => q.eq("isActive", true))
+      .collect();
+
+    const access = await getDepartmentAccess(ctx, userId);
+    const totalsByCode = await buildAllAgencyTotals(ctx, access, args.year);
+
+    return agencies
+      .map((agency) => ({
+        _id: agency._id,
+        code: agency.code,
+        fullName: agency.fullName,
+        type: agency.type,
+        category: agency.category,
+        description: agency.description,
+        contactPerson: agency.contactPerson,
+        contactEmail: agency.contactEmail,
+        contactPhone: agency.contactPhone,
+        colorCode: agency.colorCode,
+        totals: totalsByCode.get(agency.code) ?? getEmptyAgencyTotals(),
+      }))
+      .sort((a, b) => b.totals.totalBudget - a.totals.totalBudget || a.code.localeCompare(b.code));
+  },
+});
+
+/**
+ * 🆕 Agency dashboard: one agency with its totals, delayed items and project lists
+ */
+export const getDashboard = query({
+  args: {
+    id: v.id("implementingAgencies"),
+    year: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) throw new Error("Not authenticated");
+
+    const agency = await ctx.db.get(args.id);
+    if (!agency) return null;
+
+    const department = agency.departmentId ? await ctx.db.get(agency.departmentId) : null;
+    const { projects, breakdowns, trustFunds, projectCache } = await getAgencyRecords(
+      ctx,
+      await getDepartmentAccess(ctx, userId),
+      agency.code,
+      args.year
+    );
+
+    return {
+      agency: {
+        ...agency,
+        departmentName: department?.name,
+      },
+      totals: buildAgencyTotals({ projects, breakdowns, trustFunds }),
+      delayed: getDelayedItems({ projects, breakdowns }, projectCache),
+      projects: projects.map((project) => ({
+        _id: project._id,
+        particulars: project.particulars,
+        status: project.status,
+        year: project.year,
+        totalBudgetAllocated: project.totalBudgetAllocated,
+        totalBudgetUtilized: project.totalBudgetUtilized,
+        targetDateCompletion: project.targetDateCompletion,
+        remarks: project.remarks,
+        budgetItemId: project.budgetItemId,
+      })),
+      breakdowns: breakdowns.map((breakdown) => ({
+        _id: breakdown._id,
+        projectTitle: breakdown.projectTitle || breakdown.projectName,
+        status: breakdown.status,
+        allocatedBudget: breakdown.allocatedBudget,
+        budgetUtilized: breakdown.budgetUtilized,
+        dateStarted: breakdown.dateStarted,
+        targetDate: breakdown.targetDate,
+        municipality: breakdown.municipality,
+        barangay: breakdown.barangay,
+        remarks: breakdown.remarks,
+      })),
+      trustFunds: trustFunds.map((trustFund) => ({
+        _id: trustFund._id,
+        projectTitle: trustFund.projectTitle,
+        received: trustFund.received,
+        utilized: trustFund.utilized,
+        balance: trustFund.balance,
+        dateReceived: trustFund.dateReceived,
+        status: trustFund.status,
+      })),
+    };
+  },
+});
+
 /**
  * ============================================================================
  * MUTATIONS
@@ -581,6 +694,7 @@ export const recalculateUsageCounts = mutation({
     if (!user || user.role !== "super_admin") {
       throw new Error("Only super_admin can recalculate usage counts");
     }
+    await requireTwoFactorVerified(ctx, user);
 
     const allAgencies = await ctx.db.query("implementingAgencies").collect();
     
@@ -0,0 +1,70 @@
+// convex/init/backfillDepartmentScopes.ts
+
+import { v } from "convex/values";
+import { mutation } from "../_generated/server";
+import { getAuthUserId } from "../lib/sessions";
+import { getDefaultDepartmentScope } from "../lib/departmentAccess";
+
+/**
+ * Keep existing visibility when row-level department access is deployed.
+ * Users without a department would otherwise fall back to a default scope
+ * that only shows rows without a department; they get departmentScope
+ * "all" until an administrator assigns them a department and narrows it.
+ * Users with a department keep the default scope of their role.
+ * Can only be called by super_admin
+ *
+ * Pass dryRun to list the affected users without changing them.
+ *
+ * SAFE TO RUN MULTIPLE TIMES - Will skip users whose scope is already set
+ */
+export const backfillDepartmentScopes = mutation({
+  args: {
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    // Check if user is super admin
+    const user = await ctx.db.get(userId);
+    if (!user || user.role !== "super_admin") {
+      throw new Error("Only super_admin can backfill department scopes");
+    }
+
+    const now = Date.now();
+    const widened = [];
+    const defaulted = [];
+    let skipped = 0;
+
+    const users = await ctx.db.query("users").collect();
+    for (const target of users) {
+      if (target.role === "super_admin" || target.departmentScope !== undefined) {
+        skipped++;
+        continue;
+      }
+
+      const summary = { userId: target._id, name: target.name, email: target.email, role: target.role };
+      if (target.departmentId) {
+        defaulted.push({ ...summary, departmentScope: getDefaultDepartmentScope(target.role) });
+        continue;
+      }
+
+      widened.push(summary);
+      if (!args.dryRun) {
+        await ctx.db.patch(target._id, { departmentScope: "all", updatedAt: now });
+      }
+    }
+
+    return {
+      success: true,
+      dryRun: args.dryRun ?? false,
+      widened: widened.length,
+      defaulted: defaulted.length,
+      skipped,
+      total: users.length,
+      // Assign these users a department, then narrow their scope
+      widenedUsers: widened,
+      defaultedUsers: defaulted,
+    };
+  },
+});
@@ -0,0 +1,80 @@
+// convex/init/migrateRoles.ts
+
+import { mutation } from "../_generated/server";
+import { getAuthUserId } from "../lib/sessions";
+import { SYSTEM_ROLES } from "../lib/roles";
+
+/**
+ * Move the four built-in role literals into the roles table and link
+ * existing role grants to the new rows.
+ * Can only be called by super_admin
+ *
+ * SAFE TO RUN MULTIPLE TIMES - Will skip roles and grants already migrated
+ */
+export const migrateLiteralRoles = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    // Check if user is super admin
+    const user = await ctx.db.get(userId);
+    if (!user || user.role !== "super_admin") {
+      throw new Error("Only super_admin can migrate roles");
+    }
+
+    const now = Date.now();
+    const insertedKeys = [];
+    const skippedKeys = [];
+    let grantsLinked = 0;
+
+    for (const systemRole of SYSTEM_ROLES) {
+      let role = await ctx.db
+        .query("roles")
+        .withIndex("key", (q) => q.eq("key", systemRole.key))
+        .first();
+
+      if (role) {
+        skippedKeys.push(systemRole.key);
+      } else {
+        const id = await ctx.db.insert("roles", {
+          key: systemRole.key,
+          name: systemRole.name,
+          description: systemRole.description,
+          homeRoute: systemRole.homeRoute,
+          isSystem: true,
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+          createdBy: userId,
+        });
+        role = await ctx.db.get(id);
+        insertedKeys.push(systemRole.key);
+      }
+
+      if (!role) continue;
+
+      const roleId = role._id;
+      const grants = await ctx.db
+        .query("rolePermissions")
+        .withIndex("role", (q) => q.eq("role", systemRole.key))
+        .collect();
+
+      for (const grant of grants) {
+        if (grant.roleId) continue;
+        await ctx.db.patch(grant._id, { roleId });
+        grantsLinked++;
+      }
+    }
+
+    return {
+      success: true,
+      inserted: insertedKeys.length,
+      skipped: skippedKeys.length,
+      total: SYSTEM_ROLES.length,
+      grantsLinked,
+      insertedKeys,
+      skippedKeys,
+    };
+  },
+});
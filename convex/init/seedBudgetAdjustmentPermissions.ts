@@ -0,0 +1,102 @@
+// convex/init/seedBudgetAdjustmentPermissions.ts
+
+import { mutation } from "../_generated/server";
+import { getAuthUserId } from "../lib/sessions";
+import { BUDGET_ADJUSTMENT_PERMISSIONS } from "../lib/budgetAdjustments";
+
+/**
+ * Seed the permissions used by the supplemental budget / realignment workflow
+ * and grant them to the admin role.
+ * Can only be called by super_admin (who already holds every permission)
+ *
+ * SAFE TO RUN MULTIPLE TIMES - Will skip existing permissions and grants
+ */
+export const initializeBudgetAdjustmentPermissions = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    // Check if user is super admin
+    const user = await ctx.db.get(userId);
+    if (!user || user.role !== "super_admin") {
+      throw new Error("Only super_admin can initialize budget adjustment permissions");
+    }
+
+    const now = Date.now();
+
+    const defaultPermissions = [
+      {
+        key: BUDGET_ADJUSTMENT_PERMISSIONS.submit,
+        name: "Submit Budget Adjustments",
+        description: "Draft and submit supplemental budget and realignment requests",
+      },
+      {
+        key: BUDGET_ADJUSTMENT_PERMISSIONS.review,
+        name: "Review Budget Adjustments",
+        description: "Review submitted supplemental budget and realignment requests",
+      },
+      {
+        key: BUDGET_ADJUSTMENT_PERMISSIONS.approve,
+        name: "Approve Budget Adjustments",
+        description: "Approve reviewed requests, which changes budget item allocations",
+      },
+    ];
+
+    const insertedKeys = [];
+    const skippedKeys = [];
+
+    for (const permission of defaultPermissions) {
+      let existing = await ctx.db
+        .query("permissions")
+        .withIndex("key", (q) => q.eq("key", permission.key))
+        .first();
+
+      if (existing) {
+        skippedKeys.push(permission.key);
+      } else {
+        const id = await ctx.db.insert("permissions", {
+          key: permission.key,
+          name: permission.name,
+          description: permission.description,
+          category: "budgets",
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        });
+        existing = await ctx.db.get(id);
+        insertedKeys.push(permission.key);
+      }
+
+      if (!existing) continue;
+
+      // Grant to admins unless a grant/denial is already configured
+      const permissionId = existing._id;
+      const rolePermission = await ctx.db
+        .query("rolePermissions")
+        .withIndex("roleAndPermission", (q) =>
+          q.eq("role", "admin").eq("permissionId", permissionId)
+        )
+        .first();
+
+      if (!rolePermission) {
+        await ctx.db.insert("rolePermissions", {
+          role: "admin",
+          permissionId,
+          isGranted: true,
+          createdAt: now,
+          createdBy: userId,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      inserted: insertedKeys.length,
+      skipped: skippedKeys.length,
+      total: defaultPermissions.length,
+      insertedKeys,
+      skippedKeys,
+    };
+  },
+});
@@ -1,6 +1,6 @@
 // convex/init/seedBudgetParticulars.ts
 import { mutation } from "../_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "../lib/sessions";
 
 /**
  * Seed the database with default budget particulars
@@ -0,0 +1,106 @@
+// convex/init/seedPermissionCatalogue.ts
+
+import { mutation } from "../_generated/server";
+import { getAuthUserId } from "../lib/sessions";
+import { PERMISSION_CATALOGUE, RENAMED_PERMISSION_KEYS } from "../lib/permissionCatalogue";
+
+/**
+ * Seed every permission in the catalogue (lib/permissionCatalogue.ts) and
+ * grant each to its default roles. Permissions stored under a renamed key
+ * are moved to the new key first, keeping their grants.
+ * Can only be called by super_admin (who already holds every permission)
+ *
+ * SAFE TO RUN MULTIPLE TIMES - Will skip existing permissions and grants, so
+ * changes made in the role/permission matrix are kept
+ */
+export const initializePermissionCatalogue = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    // Check if user is super admin
+    const user = await ctx.db.get(userId);
+    if (!user || user.role !== "super_admin") {
+      throw new Error("Only super_admin can initialize the permission catalogue");
+    }
+
+    const now = Date.now();
+    const insertedKeys = [];
+    const skippedKeys = [];
+    const renamedKeys = [];
+    let grantsInserted = 0;
+
+    for (const [oldKey, newKey] of Object.entries(RENAMED_PERMISSION_KEYS)) {
+      const legacy = await ctx.db
+        .query("permissions")
+        .withIndex("key", (q) => q.eq("key", oldKey))
+        .first();
+      const current = await ctx.db
+        .query("permissions")
+        .withIndex("key", (q) => q.eq("key", newKey))
+        .first();
+      if (legacy && !current) {
+        await ctx.db.patch(legacy._id, { key: newKey, updatedAt: now });
+        renamedKeys.push(newKey);
+      }
+    }
+
+    for (const permission of PERMISSION_CATALOGUE) {
+      let existing = await ctx.db
+        .query("permissions")
+        .withIndex("key", (q) => q.eq("key", permission.key))
+        .first();
+
+      if (existing) {
+        skippedKeys.push(permission.key);
+      } else {
+        const id = await ctx.db.insert("permissions", {
+          key: permission.key,
+          name: permission.name,
+          description: permission.description,
+          category: permission.category,
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        });
+        existing = await ctx.db.get(id);
+        insertedKeys.push(permission.key);
+      }
+
+      if (!existing) continue;
+
+      const permissionId = existing._id;
+      for (const role of permission.defaultRoles) {
+        const rolePermission = await ctx.db
+          .query("rolePermissions")
+          .withIndex("roleAndPermission", (q) =>
+            q.eq("role", role).eq("permissionId", permissionId)
+          )
+          .first();
+
+        if (!rolePermission) {
+          await ctx.db.insert("rolePermissions", {
+            role,
+            permissionId,
+            isGranted: true,
+            createdAt: now,
+            createdBy: userId,
+          });
+          grantsInserted++;
+        }
+      }
+    }
+
+    return {
+      success: true,
+      inserted: insertedKeys.length,
+      skipped: skippedKeys.length,
+      total: PERMISSION_CATALOGUE.length,
+      grantsInserted,
+      insertedKeys,
+      skippedKeys,
+      renamedKeys,
+    };
+  },
+});
@@ -1,7 +1,7 @@
 // convex/init/seedProjectCategories.ts
 
 import { mutation } from "../_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "../lib/sessions";
 
 /**
  * Seed the database with default project categories
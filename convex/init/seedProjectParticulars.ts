@@ -1,6 +1,6 @@
 // convex/init/seedProjectParticulars.ts
 import { mutation } from "../_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "../lib/sessions";
 
 /**
  * Seed the database with default project particulars
@@ -2,15 +2,27 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireOwnUploadSession, toGalleryPhotos } from "./lib/inspectionPhotos";
+import {
+  createInspectionDepartmentResolver,
+  filterByResolvedDepartment,
+  getDepartmentAccess,
+  requireBreakdownAccess,
+  requireInspectionAccess,
+  requireProjectAccess,
+} from "./lib/departmentAccess";
 
 /**
- * Create a new inspection
+ * Create a new inspection and link its uploaded photos to it
+ * The photos must come from the user's own upload session, and the user must
+ * be able to access the breakdown (or, without one, the project)
  */
 export const createInspection = mutation({
   args: {
     projectId: v.id("projects"),
     budgetItemId: v.optional(v.id("budgetItems")),
+    breakdownId: v.optional(v.id("govtProjectBreakdowns")),
     programNumber: v.string(),
     title: v.string(),
     category: v.string(),
@@ -31,11 +43,28 @@ export const createInspection = mutation({
       throw new Error("Not authenticated");
     }
 
+    const access = await getDepartmentAccess(ctx, userId);
+    if (args.breakdownId) {
+      const breakdown = await ctx.db.get(args.breakdownId);
+      if (!breakdown) throw new Error("Breakdown not found");
+      if (breakdown.projectId !== args.projectId) {
+        throw new Error("Breakdown does not belong to this project");
+      }
+      await requireBreakdownAccess(ctx, access, breakdown);
+    } else {
+      await requireProjectAccess(ctx, access, args.projectId);
+    }
+
+    if (args.uploadSessionId) {
+      await requireOwnUploadSession(ctx, userId, args.uploadSessionId);
+    }
+
     const now = Date.now();
 
     const inspectionId = await ctx.db.insert("inspections", {
       projectId: args.projectId,
       budgetItemId: args.budgetItemId,
+      breakdownId: args.breakdownId,
       programNumber: args.programNumber,
       title: args.title,
       category: args.category,
@@ -50,6 +79,22 @@ export const createInspection = mutation({
       metadata: args.metadata,
     });
 
+    if (args.uploadSessionId) {
+      const mediaFiles = await ctx.db
+        .query("media")
+        .withIndex("sessionId", (q) => q.eq("sessionId", args.uploadSessionId!))
+        .collect();
+
+      for (const media of mediaFiles) {
+        await ctx.db.patch(media._id, {
+          inspectionId,
+          projectId: args.projectId,
+          breakdownId: args.breakdownId,
+          updatedAt: now,
+        });
+      }
+    }
+
     return inspectionId;
   },
 });
@@ -133,10 +178,16 @@ export const getInspection = query({
     inspectionId: v.id("inspections"),
   },
   handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
     const inspection = await ctx.db.get(args.inspectionId);
     if (!inspection) {
       return null;
     }
+    await requireInspectionAccess(ctx, await getDepartmentAccess(ctx, userId), inspection);
 
     // Get related data
     const project = await ctx.db.get(inspection.projectId);
@@ -146,7 +197,7 @@ export const getInspection = query({
     const creator = await ctx.db.get(inspection.createdBy);
     
     // Get images if uploadSessionId exists
-    let images: any[] = [];
+    let images: Awaited<ReturnType<typeof toGalleryPhotos>> = [];
     if (inspection.uploadSessionId) {
       const mediaFiles = await ctx.db
         .query("media")
@@ -154,16 +205,8 @@ export const getInspection = query({
         .order("asc")
         .collect();
       
-      // Get URLs for each media file
-      images = await Promise.all(
-        mediaFiles.map(async (media) => {
-          const url = await ctx.storage.getUrl(media.storageId);
-          return {
-            ...media,
-            url,
-          };
-        })
-      );
+      // Get URLs and location checks for each media file
+      images = await toGalleryPhotos(ctx, mediaFiles);
     }
 
     return {
@@ -177,7 +220,7 @@ export const getInspection = query({
 });
 
 /**
- * List all inspections for a project
+ * List all inspections for a project the user can access
  */
 export const listInspectionsByProject = query({
   args: {
@@ -192,11 +235,20 @@ export const listInspectionsByProject = query({
     ),
   },
   handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
     let inspectionsQuery = ctx.db
       .query("inspections")
       .withIndex("projectId", (q) => q.eq("projectId", args.projectId));
 
-    const inspections = await inspectionsQuery.collect();
+    const inspections = await filterByResolvedDepartment(
+      await getDepartmentAccess(ctx, userId),
+      await inspectionsQuery.collect(),
+      createInspectionDepartmentResolver(ctx)
+    );
 
     // Filter by status if provided
     const filteredInspections = args.status
@@ -229,7 +281,7 @@ export const listInspectionsByProject = query({
           
           thumbnails = await Promise.all(
             mediaFiles.map(async (media) => {
-              const url = await ctx.storage.getUrl(media.storageId);
+              const url = await ctx.storage.getUrl(media.thumbnailStorageId ?? media.storageId);
               return url || "";
             })
           );
@@ -0,0 +1,91 @@
+// convex/lib/accessExpiry.ts
+// Time-boxed access grants: budget sharing, particular sharing and
+// user permission overrides.
+
+import { MailMessage } from "./mailer";
+
+/**
+ * How long before expiry the grantee and grantor are notified
+ */
+export const EXPIRY_NOTICE_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Most grants ended or notified in one cron run; the rest wait for the next
+ */
+export const EXPIRY_BATCH_SIZE = 100;
+
+export type GrantKind = "budget" | "particular" | "permission";
+
+/**
+ * Reject expiry dates that are already past
+ */
+export function validateExpiresAt(expiresAt: number | undefined, now: number = Date.now()) {
+  if (expiresAt !== undefined && expiresAt <= now) {
+    throw new Error("Expiry date must be in the future");
+  }
+}
+
+/**
+ * Human name of what a grant gives access to
+ */
+export function describeGrant(kind: GrantKind, subject?: string) {
+  switch (kind) {
+    case "budget":
+      return "Budget Tracking";
+    case "particular":
+      return `the ${subject} budget particular`;
+    case "permission":
+      return `the "${subject}" permission`;
+  }
+}
+
+function formatExpiry(expiresAt: number) {
+  return new Date(expiresAt).toLocaleString("en-PH", {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "Asia/Manila",
+  });
+}
+
+/**
+ * Notice to the person whose access is about to end
+ */
+export function buildGranteeExpiryEmail(args: {
+  to: string;
+  name?: string;
+  grant: string;
+  expiresAt: number;
+}): MailMessage {
+  const greeting = args.name ? `Hello ${args.name},` : "Hello,";
+  const text = [
+    greeting,
+    "",
+    `Your access to ${args.grant} in the PPDO system expires on ${formatExpiry(args.expiresAt)}.`,
+    "",
+    "If you still need it, ask the administrator who shared it with you to renew it before then.",
+  ].join("\n");
+
+  return { to: args.to, subject: `Your access to ${args.grant} is expiring`, text };
+}
+
+/**
+ * Notice to the administrator who shared the access
+ */
+export function buildGrantorExpiryEmail(args: {
+  to: string;
+  name?: string;
+  granteeName: string;
+  grant: string;
+  expiresAt: number;
+}): MailMessage {
+  const greeting = args.name ? `Hello ${args.name},` : "Hello,";
+  const text = [
+    greeting,
+    "",
+    `The access you gave ${args.granteeName} to ${args.grant} expires on ${formatExpiry(args.expiresAt)}.`,
+    "",
+    "It will be removed automatically. Renew it from the Share dialog if it is still needed.",
+  ].join("\n");
+
+  return { to: args.to, subject: `Access for ${args.granteeName} is expiring`, text };
+}
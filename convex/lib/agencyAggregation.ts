@@ -0,0 +1,294 @@
+// convex/lib/agencyAggregation.ts
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import {
+  DepartmentAccess,
+  createBreakdownDepartmentResolver,
+  filterBreakdownsByDepartment,
+  filterByDepartment,
+  hasDepartmentAccess,
+} from "./departmentAccess";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+export interface AgencyStatusCounts {
+  completed: number;
+  ongoing: number;
+  delayed: number;
+}
+
+/**
+ * Per-agency roll-up of projects, breakdowns and trust funds
+ */
+export interface AgencyPortfolioTotals {
+  projects: AgencyStatusCounts & {
+    count: number;
+    allocated: number;
+    obligated: number;
+    utilized: number;
+  };
+  breakdowns: AgencyStatusCounts & {
+    count: number;
+    allocated: number;
+    obligated: number;
+    utilized: number;
+  };
+  trustFunds: {
+    count: number;
+    received: number;
+    obligated: number;
+    utilized: number;
+    balance: number;
+  };
+  totalBudget: number;
+  totalUtilized: number;
+  utilizationRate: number;
+}
+
+/**
+ * A delayed project or breakdown, listed on the agency dashboard
+ */
+export interface AgencyDelayedItem {
+  kind: "project" | "breakdown";
+  id: Id<"projects"> | Id<"govtProjectBreakdowns">;
+  name: string;
+  allocated: number;
+  utilized: number;
+  targetDate?: number;
+  year?: number;
+}
+
+function emptyTotals(): AgencyPortfolioTotals {
+  return {
+    projects: { count: 0, allocated: 0, obligated: 0, utilized: 0, completed: 0, ongoing: 0, delayed: 0 },
+    breakdowns: { count: 0, allocated: 0, obligated: 0, utilized: 0, completed: 0, ongoing: 0, delayed: 0 },
+    trustFunds: { count: 0, received: 0, obligated: 0, utilized: 0, balance: 0 },
+    totalBudget: 0,
+    totalUtilized: 0,
+    utilizationRate: 0,
+  };
+}
+
+function countStatus(counts: AgencyStatusCounts, status?: string) {
+  if (status === "completed") counts.completed++;
+  else if (status === "delayed") counts.delayed++;
+  else if (status === "ongoing") counts.ongoing++;
+}
+
+function addProject(totals: AgencyPortfolioTotals, project: Doc<"projects">) {
+  totals.projects.count++;
+  totals.projects.allocated += project.totalBudgetAllocated || 0;
+  totals.projects.obligated += project.obligatedBudget || 0;
+  totals.projects.utilized += project.totalBudgetUtilized || 0;
+  countStatus(totals.projects, project.status);
+}
+
+function addBreakdown(totals: AgencyPortfolioTotals, breakdown: Doc<"govtProjectBreakdowns">) {
+  totals.breakdowns.count++;
+  totals.breakdowns.allocated += breakdown.allocatedBudget || 0;
+  totals.breakdowns.obligated += breakdown.obligatedBudget || 0;
+  totals.breakdowns.utilized += breakdown.budgetUtilized || 0;
+  countStatus(totals.breakdowns, breakdown.status);
+}
+
+function addTrustFund(totals: AgencyPortfolioTotals, trustFund: Doc<"trustFunds">) {
+  totals.trustFunds.count++;
+  totals.trustFunds.received += trustFund.received || 0;
+  totals.trustFunds.obligated += trustFund.obligatedPR || 0;
+  totals.trustFunds.utilized += trustFund.utilized || 0;
+  totals.trustFunds.balance += trustFund.balance || 0;
+}
+
+/**
+ * Budget totals count projects and trust funds only: breakdowns are the
+ * sub-allocations of a project, so adding them again would double count.
+ */
+function finalizeTotals(totals: AgencyPortfolioTotals): AgencyPortfolioTotals {
+  totals.totalBudget = totals.projects.allocated + totals.trustFunds.received;
+  totals.totalUtilized = totals.projects.utilized + totals.trustFunds.utilized;
+  totals.utilizationRate =
+    totals.totalBudget > 0 ? (totals.totalUtilized / totals.totalBudget) * 100 : 0;
+  return totals;
+}
+
+function matchesYear(year: number | undefined, recordYear: number | undefined) {
+  return year === undefined || recordYear === year;
+}
+
+/**
+ * Fiscal year of a breakdown: breakdowns have no year of their own, so use
+ * the parent project's. Parents are cached across calls.
+ */
+export async function getBreakdownYear(
+  ctx: QueryCtx,
+  breakdown: Doc<"govtProjectBreakdowns">,
+  projectCache: Map<Id<"projects">, Doc<"projects"> | null>
+) {
+  if (!breakdown.projectId) return undefined;
+  if (!projectCache.has(breakdown.projectId)) {
+    projectCache.set(breakdown.projectId, await ctx.db.get(breakdown.projectId));
+  }
+  return projectCache.get(breakdown.projectId)?.year;
+}
+
+/**
+ * Active (not trashed) records of one agency code the user can access,
+ * optionally limited to a fiscal year
+ */
+export async function getAgencyRecords(
+  ctx: QueryCtx,
+  access: DepartmentAccess,
+  code: string,
+  year?: number
+) {
+  const agencyProjects = (
+    await ctx.db
+      .query("projects")
+      .withIndex("implementingOffice", (q) => q.eq("implementingOffice", code))
+      .filter((q) => q.neq(q.field("isDeleted"), true))
+      .collect()
+  ).filter((project) => matchesYear(year, project.year));
+  const projects = filterByDepartment(access, agencyProjects);
+
+  const projectCache = new Map<Id<"projects">, Doc<"projects"> | null>(
+    projects.map((project) => [project._id, project])
+  );
+  const allBreakdowns = await filterBreakdownsByDepartment(
+    ctx,
+    access,
+    await ctx.db
+      .query("govtProjectBreakdowns")
+      .withIndex("implementingOffice", (q) => q.eq("implementingOffice", code))
+      .filter((q) => q.neq(q.field("isDeleted"), true))
+      .collect()
+  );
+  const breakdowns = [];
+  for (const breakdown of allBreakdowns) {
+    if (matchesYear(year, await getBreakdownYear(ctx, breakdown, projectCache))) {
+      breakdowns.push(breakdown);
+    }
+  }
+
+  const trustFunds = filterByDepartment(
+    access,
+    (
+      await ctx.db
+        .query("trustFunds")
+        .withIndex("officeInCharge", (q) => q.eq("officeInCharge", code))
+        .filter((q) => q.neq(q.field("isDeleted"), true))
+        .collect()
+    ).filter((trustFund) => matchesYear(year, trustFund.year ?? trustFund.fiscalYear))
+  );
+
+  return { projects, breakdowns, trustFunds, projectCache };
+}
+
+export function buildAgencyTotals(records: {
+  projects: Doc<"projects">[];
+  breakdowns: Doc<"govtProjectBreakdowns">[];
+  trustFunds: Doc<"trustFunds">[];
+}): AgencyPortfolioTotals {
+  const totals = emptyTotals();
+  records.projects.forEach((project) => addProject(totals, project));
+  records.breakdowns.forEach((breakdown) => addBreakdown(totals, breakdown));
+  records.trustFunds.forEach((trustFund) => addTrustFund(totals, trustFund));
+  return finalizeTotals(totals);
+}
+
+export function getDelayedItems(
+  records: {
+    projects: Doc<"projects">[];
+    breakdowns: Doc<"govtProjectBreakdowns">[];
+  },
+  projectCache: Map<Id<"projects">, Doc<"projects"> | null>
+): AgencyDelayedItem[] {
+  const items: AgencyDelayedItem[] = [
+    ...records.projects
+      .filter((project) => project.status === "delayed")
+      .map((project) => ({
+        kind: "project" as const,
+        id: project._id,
+        name: project.particulars,
+        allocated: project.totalBudgetAllocated || 0,
+        utilized: project.totalBudgetUtilized || 0,
+        targetDate: project.targetDateCompletion,
+        year: project.year,
+      })),
+    ...records.breakdowns
+      .filter((breakdown) => breakdown.status === "delayed")
+      .map((breakdown) => ({
+        kind: "breakdown" as const,
+        id: breakdown._id,
+        name: breakdown.projectTitle || breakdown.projectName,
+        allocated: breakdown.allocatedBudget || 0,
+        utilized: breakdown.budgetUtilized || 0,
+        targetDate: breakdown.targetDate,
+        year: breakdown.projectId ? projectCache.get(breakdown.projectId)?.year : undefined,
+      })),
+  ];
+
+  // Most overdue first; undated last
+  return items.sort((a, b) => (a.targetDate ?? Infinity) - (b.targetDate ?? Infinity));
+}
+
+/**
+ * Totals for every agency code in one pass over projects, breakdowns and
+ * trust funds, counting only the rows the user can access
+ */
+export async function buildAllAgencyTotals(
+  ctx: QueryCtx,
+  access: DepartmentAccess,
+  year?: number
+) {
+  const totalsByCode = new Map<string, AgencyPortfolioTotals>();
+  const totalsFor = (code: string) => {
+    if (!totalsByCode.has(code)) totalsByCode.set(code, emptyTotals());
+    return totalsByCode.get(code)!;
+  };
+  const projects = await ctx.db
+    .query("projects")
+    .filter((q) => q.neq(q.field("isDeleted"), true))
+    .collect();
+  const projectYears = new Map<Id<"projects">, number | undefined>();
+  for (const project of projects) {
+    projectYears.set(project._id, project.year);
+    if (matchesYear(year, project.year) && hasDepartmentAccess(access, project.departmentId)) {
+      addProject(totalsFor(project.implementingOffice), project);
+    }
+  }
+
+  const breakdowns = await ctx.db
+    .query("govtProjectBreakdowns")
+    .filter((q) => q.neq(q.field("isDeleted"), true))
+    .collect();
+  const resolveDepartment = createBreakdownDepartmentResolver(ctx);
+  for (const breakdown of breakdowns) {
+    const breakdownYear = breakdown.projectId ? projectYears.get(breakdown.projectId) : undefined;
+    if (!matchesYear(year, breakdownYear)) continue;
+    if (
+      access.departmentIds === null ||
+      hasDepartmentAccess(access, await resolveDepartment(breakdown))
+    ) {
+      addBreakdown(totalsFor(breakdown.implementingOffice), breakdown);
+    }
+  }
+
+  const trustFunds = await ctx.db
+    .query("trustFunds")
+    .filter((q) => q.neq(q.field("isDeleted"), true))
+    .collect();
+  for (const trustFund of trustFunds) {
+    const fundYear = trustFund.year ?? trustFund.fiscalYear;
+    if (matchesYear(year, fundYear) && hasDepartmentAccess(access, trustFund.departmentId)) {
+      addTrustFund(totalsFor(trustFund.officeInCharge), trustFund);
+    }
+  }
+
+  totalsByCode.forEach(finalizeTotals);
+
+  return totalsByCode;
+}
+
+export function getEmptyAgencyTotals() {
+  return emptyTotals();
+}
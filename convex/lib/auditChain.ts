@@ -0,0 +1,217 @@
+// convex/lib/auditChain.ts
+// Tamper-evident audit chain. Every activity log insert also appends an
+// auditChain entry holding a SHA-256 of the logged row and of the previous
+// entry, so editing or deleting any logged row breaks the chain.
+
+import { GenericMutationCtx, GenericQueryCtx, WithoutSystemFields } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export type AuditChainSource = Doc<"auditChain">["source"];
+
+/**
+ * Activity logs backed by their own table
+ */
+export type ChainedTable = Exclude<
+  AuditChainSource,
+  "projectCategoryActivities" | "projectParticularActivities"
+>;
+
+export const CHAINED_TABLES: readonly ChainedTable[] = [
+  "userAuditLog",
+  "budgetItemActivities",
+  "projectActivities",
+  "govtProjectBreakdownActivities",
+  "trustFundActivities",
+];
+
+/**
+ * previousHash of the first entry
+ */
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Fields set on a logged row after the fact (flag reviews, batch rollbacks).
+ * They are left out of the payload hash so annotating a row is not tampering.
+ */
+const ANNOTATION_FIELDS: Partial<Record<ChainedTable, string[]>> = {
+  govtProjectBreakdownActivities: [
+    "isReviewed",
+    "reviewedBy",
+    "reviewedAt",
+    "reviewNotes",
+    "rolledBackAt",
+    "rolledBackBy",
+    "rollbackBatchId",
+  ],
+};
+
+/**
+ * JSON with object keys sorted, so the same value always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+}
+
+/**
+ * Hash of a logged row, ignoring annotation fields
+ */
+export async function hashSourceRow(table: ChainedTable, row: Record<string, unknown>) {
+  const ignored = ANNOTATION_FIELDS[table] ?? [];
+  const payload = Object.fromEntries(
+    Object.entries(row).filter(([key]) => !ignored.includes(key))
+  );
+  return await sha256Hex(canonicalJson(payload));
+}
+
+/**
+ * Hash of a chain entry; covers everything but the hash itself
+ */
+export async function hashChainEntry(entry: {
+  sequence: number;
+  source: AuditChainSource;
+  sourceId?: string;
+  action: string;
+  performedBy?: Id<"users">;
+  payloadHash: string;
+  previousHash: string;
+  timestamp: number;
+}) {
+  return await sha256Hex(
+    [
+      entry.sequence,
+      entry.source,
+      entry.sourceId ?? "",
+      entry.action,
+      entry.performedBy ?? "",
+      entry.payloadHash,
+      entry.previousHash,
+      entry.timestamp,
+    ].join("|")
+  );
+}
+
+export async function getChainHead(
+  ctx: QueryCtx | MutationCtx
+): Promise<Doc<"auditChain"> | null> {
+  return await ctx.db.query("auditChain").withIndex("sequence").order("desc").first();
+}
+
+/**
+ * Append an entry to the chain. Pass sourceId for rows in an activity table,
+ * or payload for logs without a table of their own.
+ */
+export async function appendToAuditChain(
+  ctx: MutationCtx,
+  entry: {
+    source: AuditChainSource;
+    action: string;
+    performedBy?: Id<"users">;
+  } & ({ sourceId: string; payloadHash: string } | { payload: unknown })
+): Promise<Id<"auditChain">> {
+  // Reading the head makes concurrent appends conflict and retry, so
+  // sequences never fork. The cost is that every audited write in the app is
+  // serialized through this one read: fine at this office's write rate, but
+  // a bulk job should log one summary entry instead of one per row.
+  const head = await getChainHead(ctx);
+
+  let sourceId: string | undefined;
+  let payload: string | undefined;
+  let payloadHash: string;
+  if ("sourceId" in entry) {
+    sourceId = entry.sourceId;
+    payloadHash = entry.payloadHash;
+  } else {
+    payload = canonicalJson(entry.payload);
+    payloadHash = await sha256Hex(payload);
+  }
+
+  const fields = {
+    sequence: (head?.sequence ?? 0) + 1,
+    source: entry.source,
+    sourceId,
+    action: entry.action,
+    performedBy: entry.performedBy,
+    payloadHash,
+    previousHash: head?.hash ?? GENESIS_HASH,
+    timestamp: Date.now(),
+  };
+
+  return await ctx.db.insert("auditChain", {
+    ...fields,
+    payload,
+    hash: await hashChainEntry(fields),
+  });
+}
+
+/**
+ * Insert a row into an activity log and append it to the audit chain.
+ * Use this instead of ctx.db.insert for every activity table.
+ */
+export async function insertAuditedActivity<T extends ChainedTable>(
+  ctx: MutationCtx,
+  table: T,
+  entry: WithoutSystemFields<Doc<T>> & { action: string; performedBy: Id<"users"> }
+): Promise<Id<T>> {
+  const id = await ctx.db.insert(table, entry);
+  const row = await ctx.db.get(id);
+  if (!row) {
+    throw new Error("Failed to record activity");
+  }
+
+  await appendToAuditChain(ctx, {
+    source: table,
+    sourceId: id,
+    action: entry.action,
+    performedBy: entry.performedBy,
+    payloadHash: await hashSourceRow(table, row),
+  });
+
+  return id;
+}
+
+/**
+ * HMAC-SHA256 of an exported audit bundle with AUDIT_SIGNING_SECRET
+ */
+export async function signAuditBundle(bundleHash: string): Promise<string> {
+  const secret = process.env.AUDIT_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("AUDIT_SIGNING_SECRET is not configured");
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(bundleHash)));
+}
+
+export function isChainedTable(source: AuditChainSource): source is ChainedTable {
+  return (CHAINED_TABLES as readonly string[]).includes(source);
+}
@@ -0,0 +1,270 @@
+// convex/lib/batchRollback.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { DepartmentAccess, requireBreakdownAccess } from "./departmentAccess";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+type BulkAction = "bulk_created" | "bulk_updated" | "bulk_deleted";
+
+const BULK_ACTIONS: BulkAction[] = ["bulk_created", "bulk_updated", "bulk_deleted"];
+
+// Never written back when restoring a snapshot
+const SYSTEM_FIELDS = ["_id", "_creationTime"];
+
+// Bookkeeping fields left out of the preview diff
+const IGNORED_DIFF_FIELDS = [...SYSTEM_FIELDS, "createdAt", "updatedAt", "createdBy", "updatedBy"];
+
+export interface RollbackPlanItem {
+  activityId: Id<"govtProjectBreakdownActivities">;
+  breakdownId?: Id<"govtProjectBreakdowns">;
+  /**
+   * trash   - row was created by the batch, move it to trash
+   * restore - row was updated by the batch, put back the previous values
+   * recreate - row was deleted by the batch, insert it again
+   */
+  operation: "trash" | "restore" | "recreate";
+  label: string;
+  /** Fields that will change when the row is restored */
+  fields: string[];
+  /** Why this row cannot be rolled back safely */
+  conflict?: string;
+  /** Row as it was before the batch (restore / recreate only) */
+  snapshot?: Record<string, unknown>;
+}
+
+function parseSnapshot(json?: string): Record<string, unknown> | undefined {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+function withoutSystemFields(values: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (!SYSTEM_FIELDS.includes(key)) result[key] = value;
+  }
+  return result;
+}
+
+function diffFields(current: Record<string, unknown>, previous: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(current), ...Object.keys(previous)]);
+  return [...keys].filter(
+    (key) =>
+      !IGNORED_DIFF_FIELDS.includes(key) &&
+      JSON.stringify(current[key]) !== JSON.stringify(previous[key])
+  );
+}
+
+/**
+ * Has the breakdown been touched outside of the batch since it ran?
+ */
+async function findLaterEdit(
+  ctx: QueryCtx | MutationCtx,
+  breakdownId: Id<"govtProjectBreakdowns">,
+  activity: Doc<"govtProjectBreakdownActivities">
+) {
+  return await ctx.db
+    .query("govtProjectBreakdownActivities")
+    .withIndex("breakdownAndTimestamp", (q) =>
+      q.eq("breakdownId", breakdownId).gt("timestamp", activity.timestamp)
+    )
+    .filter((q) =>
+      q.and(
+        q.neq(q.field("action"), "viewed"),
+        q.neq(q.field("batchId"), activity.batchId)
+      )
+    )
+    .first();
+}
+
+/**
+ * Build the rollback plan for a bulk batch.
+ * One item per logged row, with conflicts for rows that no longer exist or
+ * were edited after the batch. Read-only: used by both the preview query and
+ * the rollback mutation. Returns null when the batch has no bulk activities.
+ */
+export async function buildBatchRollbackPlan(
+  ctx: QueryCtx | MutationCtx,
+  batchId: string
+) {
+  const activities = (
+    await ctx.db
+      .query("govtProjectBreakdownActivities")
+      .withIndex("batchId", (q) => q.eq("batchId", batchId))
+      .collect()
+  ).filter((activity) => BULK_ACTIONS.includes(activity.action as BulkAction));
+
+  if (activities.length === 0) return null;
+
+  // Undoing an undo would re-insert rows the rollback only trashed
+  const rollbackOf = await ctx.db
+    .query("govtProjectBreakdownActivities")
+    .withIndex("rollbackBatchId", (q) => q.eq("rollbackBatchId", batchId))
+    .first();
+
+  const first = activities[0];
+  const rolledBack = activities.find((activity) => activity.rolledBackAt !== undefined);
+
+  const items: RollbackPlanItem[] = [];
+
+  for (const activity of activities) {
+    const previous = parseSnapshot(activity.previousValues);
+    const logged = previous ?? parseSnapshot(activity.newValues);
+    const label = String(
+      logged?.projectTitle || logged?.projectName || activity.projectName || "Untitled breakdown"
+    );
+
+    const item: RollbackPlanItem = {
+      activityId: activity._id,
+      breakdownId: activity.breakdownId,
+      operation:
+        activity.action === "bulk_created"
+          ? "trash"
+          : activity.action === "bulk_updated"
+            ? "restore"
+            : "recreate",
+      label,
+      fields: [],
+    };
+
+    if (activity.action === "bulk_deleted") {
+      if (!previous) {
+        item.conflict = "No snapshot of the deleted row was logged";
+      } else {
+        item.snapshot = withoutSystemFields(previous);
+      }
+      items.push(item);
+      continue;
+    }
+
+    const current = activity.breakdownId ? await ctx.db.get(activity.breakdownId) : null;
+    if (!activity.breakdownId || !current) {
+      item.conflict = "Breakdown no longer exists";
+      items.push(item);
+      continue;
+    }
+
+    const laterEdit = await findLaterEdit(ctx, activity.breakdownId, activity);
+    if (laterEdit) {
+      item.conflict = `Edited by ${laterEdit.performedByName} on ${new Date(laterEdit.timestamp).toLocaleDateString("en-US")} after this batch`;
+    }
+
+    if (activity.action === "bulk_created") {
+      if (current.isDeleted && !item.conflict) {
+        item.conflict = "Already in trash";
+      }
+    } else if (!previous) {
+      item.conflict = item.conflict ?? "No snapshot of the previous values was logged";
+    } else {
+      item.snapshot = withoutSystemFields(previous);
+      item.fields = diffFields(current, previous);
+    }
+
+    items.push(item);
+  }
+
+  return {
+    batchId,
+    action: first.action as BulkAction,
+    performedByName: first.performedByName,
+    timestamp: first.timestamp,
+    reason: first.reason,
+    rolledBackAt: rolledBack?.rolledBackAt,
+    isRollback: rollbackOf !== null,
+    items,
+    conflictCount: items.filter((item) => item.conflict).length,
+  };
+}
+
+/**
+ * Undo a single plan item.
+ * Both the row as it is now and the snapshot being written back must be in
+ * the user's departments.
+ * Returns what the rollback log needs plus the agency usage deltas and
+ * projects to recalculate; the caller applies those once for the whole batch.
+ */
+export async function applyRollbackItem(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  access: DepartmentAccess,
+  item: RollbackPlanItem
+): Promise<{
+  breakdownId: Id<"govtProjectBreakdowns">;
+  previousValues?: Doc<"govtProjectBreakdowns">;
+  newValues: Doc<"govtProjectBreakdowns"> | null;
+  agencyDeltas: Array<[string, number]>;
+  projectIds: Id<"projects">[];
+}> {
+  const now = Date.now();
+  if (item.snapshot) {
+    await requireBreakdownAccess(ctx, access, item.snapshot as Doc<"govtProjectBreakdowns">);
+  }
+
+  if (item.operation === "recreate") {
+    const breakdownId = await ctx.db.insert(
+      "govtProjectBreakdowns",
+      item.snapshot as Omit<Doc<"govtProjectBreakdowns">, "_id" | "_creationTime">
+    );
+    const created = await ctx.db.get(breakdownId);
+    return {
+      breakdownId,
+      newValues: created,
+      agencyDeltas: created?.isDeleted ? [] : [[created!.implementingOffice, 1]],
+      projectIds: created?.projectId ? [created.projectId] : [],
+    };
+  }
+
+  const breakdownId = item.breakdownId!;
+  const current = await ctx.db.get(breakdownId);
+  if (!current) throw new Error(`Breakdown "${item.label}" no longer exists`);
+  await requireBreakdownAccess(ctx, access, current);
+
+  if (item.operation === "trash") {
+    await ctx.db.patch(breakdownId, {
+      isDeleted: true,
+      deletedAt: now,
+      deletedBy: userId,
+    });
+    return {
+      breakdownId,
+      previousValues: current,
+      newValues: await ctx.db.get(breakdownId),
+      agencyDeltas: [[current.implementingOffice, -1]],
+      projectIds: current.projectId ? [current.projectId] : [],
+    };
+  }
+
+  // restore: write back every snapshot field, clear fields the batch added
+  const snapshot = item.snapshot ?? {};
+  const patch: Record<string, unknown> = { ...snapshot };
+  for (const key of Object.keys(current)) {
+    if (!SYSTEM_FIELDS.includes(key) && !(key in snapshot)) patch[key] = undefined;
+  }
+  patch.updatedAt = now;
+  patch.updatedBy = userId;
+
+  await ctx.db.patch(breakdownId, patch);
+  const restored = (await ctx.db.get(breakdownId))!;
+
+  const agencyDeltas: Array<[string, number]> = [];
+  if (restored.implementingOffice !== current.implementingOffice) {
+    agencyDeltas.push([current.implementingOffice, -1], [restored.implementingOffice, 1]);
+  }
+
+  const projectIds = new Set<Id<"projects">>();
+  if (current.projectId) projectIds.add(current.projectId);
+  if (restored.projectId) projectIds.add(restored.projectId);
+
+  return {
+    breakdownId,
+    previousValues: current,
+    newValues: restored,
+    agencyDeltas,
+    projectIds: [...projectIds],
+  };
+}
@@ -0,0 +1,33 @@
+// convex/lib/blocklist.ts
+import { GenericQueryCtx } from "convex/server";
+import { DataModel } from "../_generated/dataModel";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+function isBlockActive(block: { isActive: boolean; expiresAt?: number }, now: number) {
+  return block.isActive && (block.expiresAt === undefined || block.expiresAt > now);
+}
+
+/**
+ * Active (not lifted, not expired) block on an IP address, if any
+ */
+export async function getActiveIPBlock(ctx: QueryCtx, ipAddress: string) {
+  const now = Date.now();
+  const blocks = await ctx.db
+    .query("blockedIPs")
+    .withIndex("ipAddress", (q) => q.eq("ipAddress", ipAddress))
+    .collect();
+  return blocks.find((block) => isBlockActive(block, now)) ?? null;
+}
+
+/**
+ * Active (not lifted, not expired) block on an email address, if any
+ */
+export async function getActiveEmailBlock(ctx: QueryCtx, email: string) {
+  const now = Date.now();
+  const blocks = await ctx.db
+    .query("blockedEmails")
+    .withIndex("email", (q) => q.eq("email", email))
+    .collect();
+  return blocks.find((block) => isBlockActive(block, now)) ?? null;
+}
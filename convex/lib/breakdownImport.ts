@@ -0,0 +1,122 @@
+// convex/lib/breakdownImport.ts
+// Row checks shared by the import dry run (govtProjects.validateBreakdownImport)
+// and the import itself (govtProjects.bulkCreateBreakdowns), so a batch that
+// passed the dry run is held to exactly the same rules when it is written.
+
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Id } from "../_generated/dataModel";
+import {
+  DepartmentAccess,
+  createBreakdownDepartmentResolver,
+  hasDepartmentAccess,
+} from "./departmentAccess";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export interface BreakdownImportRow {
+  projectId?: Id<"projects">;
+  projectName: string;
+  implementingOffice: string;
+  allocatedBudget?: number;
+  obligatedBudget?: number;
+  budgetUtilized?: number;
+  projectAccomplishment?: number;
+  dateStarted?: number;
+  targetDate?: number;
+}
+
+export interface BreakdownImportRowResult {
+  index: number;
+  errors: string[];
+}
+
+/**
+ * Trim the text fields the checks (and the stored rows) depend on
+ */
+export function normalizeBreakdownImportRow<T extends BreakdownImportRow>(row: T): T {
+  return {
+    ...row,
+    projectName: row.projectName.trim(),
+    implementingOffice: row.implementingOffice.trim(),
+  };
+}
+
+/**
+ * Errors of each row (by index); rows must already be normalized
+ */
+export async function validateBreakdownImportRows(
+  ctx: QueryCtx | MutationCtx,
+  access: DepartmentAccess,
+  rows: BreakdownImportRow[]
+): Promise<BreakdownImportRowResult[]> {
+  // Resolve each agency code once
+  const agencyStatus = new Map<string, "active" | "inactive" | "missing">();
+  for (const code of new Set(rows.map((row) => row.implementingOffice))) {
+    if (!code) continue;
+    const agency = await ctx.db
+      .query("implementingAgencies")
+      .withIndex("code", (q) => q.eq("code", code))
+      .first();
+    agencyStatus.set(code, !agency ? "missing" : agency.isActive ? "active" : "inactive");
+  }
+
+  const missingProjects = new Set<Id<"projects">>();
+  for (const projectId of new Set(rows.map((row) => row.projectId))) {
+    if (!projectId) continue;
+    const project = await ctx.db.get(projectId);
+    if (!project || project.isDeleted) missingProjects.add(projectId);
+  }
+
+  const resolveDepartment = createBreakdownDepartmentResolver(ctx);
+  const results: BreakdownImportRowResult[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const errors: string[] = [];
+    const office = row.implementingOffice;
+
+    if (!row.projectName) {
+      errors.push("Project name is required");
+    }
+
+    if (!office) {
+      errors.push("Implementing office is required");
+    } else if (agencyStatus.get(office) === "missing") {
+      errors.push(`Implementing agency "${office}" does not exist`);
+    } else if (agencyStatus.get(office) === "inactive") {
+      errors.push(`Implementing agency "${office}" is inactive`);
+    }
+
+    if (row.projectId && missingProjects.has(row.projectId)) {
+      errors.push("Parent project not found");
+    } else if (!hasDepartmentAccess(access, await resolveDepartment(row))) {
+      errors.push("Belongs to a department you cannot access");
+    }
+
+    for (const field of ["allocatedBudget", "obligatedBudget", "budgetUtilized"] as const) {
+      const value = row[field];
+      if (value !== undefined && value < 0) {
+        errors.push(`${field} cannot be negative`);
+      }
+    }
+
+    if (
+      row.projectAccomplishment !== undefined &&
+      (row.projectAccomplishment < 0 || row.projectAccomplishment > 100)
+    ) {
+      errors.push("projectAccomplishment must be between 0 and 100");
+    }
+
+    if (
+      row.dateStarted !== undefined &&
+      row.targetDate !== undefined &&
+      row.targetDate < row.dateStarted
+    ) {
+      errors.push("targetDate is before dateStarted");
+    }
+
+    results.push({ index, errors });
+  }
+
+  return results;
+}
@@ -2,6 +2,7 @@
 
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
+import { insertAuditedActivity } from "./auditChain";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -48,7 +49,7 @@ export async function logBudgetActivity(
     }
   }
 
-  await ctx.db.insert("budgetItemActivities", {
+  await insertAuditedActivity(ctx, "budgetItemActivities", {
     action: config.action,
     budgetItemId: config.budgetItemId,
     particulars: budgetData.particulars || "Unknown Budget Item",
@@ -0,0 +1,108 @@
+// convex/lib/budgetAdjustments.ts
+import { GenericMutationCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { recalculateBudgetItemMetrics } from "./budgetAggregation";
+import { logBudgetActivity } from "./budgetActivityLogger";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+/**
+ * Permission keys gating each step of the approval chain
+ * (seeded by init/seedBudgetAdjustmentPermissions.ts)
+ */
+export const BUDGET_ADJUSTMENT_PERMISSIONS = {
+  submit: "budget.adjustment.submit",
+  review: "budget.adjustment.review",
+  approve: "budget.adjustment.approve",
+} as const;
+
+/**
+ * Amount of a budget item that is not yet committed and can be realigned away
+ */
+export function getRealignableBalance(budgetItem: Doc<"budgetItems">): number {
+  const committed = Math.max(budgetItem.obligatedBudget || 0, budgetItem.totalBudgetUtilized || 0);
+  return budgetItem.totalBudgetAllocated - committed;
+}
+
+/**
+ * Separation of duties: whoever created or submitted a request cannot
+ * review or approve it
+ */
+export function requireOtherThanRequester(
+  adjustment: Doc<"budgetAdjustments">,
+  userId: Id<"users">,
+  step: "review" | "approve"
+): void {
+  if (adjustment.createdBy === userId || adjustment.submittedBy === userId) {
+    throw new Error(`You cannot ${step} a request you created or submitted`);
+  }
+}
+
+/**
+ * Move an allocation on one budget item and log it.
+ * Snapshots originalBudgetAllocated on the first adjustment.
+ */
+async function adjustAllocation(
+  ctx: MutationCtx,
+  budgetItemId: Id<"budgetItems">,
+  delta: number,
+  userId: Id<"users">,
+  reason: string
+) {
+  const budgetItem = await ctx.db.get(budgetItemId);
+  if (!budgetItem) throw new Error("Budget item not found");
+
+  await ctx.db.patch(budgetItemId, {
+    originalBudgetAllocated: budgetItem.originalBudgetAllocated ?? budgetItem.totalBudgetAllocated,
+    totalBudgetAllocated: budgetItem.totalBudgetAllocated + delta,
+    updatedAt: Date.now(),
+    updatedBy: userId,
+  });
+
+  // ✅ RECALCULATE utilization rate against the new allocation
+  await recalculateBudgetItemMetrics(ctx, budgetItemId, userId);
+
+  await logBudgetActivity(ctx, userId, {
+    action: "updated",
+    budgetItemId,
+    previousValues: budgetItem,
+    newValues: await ctx.db.get(budgetItemId),
+    reason,
+  });
+}
+
+/**
+ * Apply an approved adjustment to the affected budget items.
+ * Realignments are re-validated against the source's uncommitted balance,
+ * which may have changed since the request was submitted.
+ */
+export async function applyBudgetAdjustment(
+  ctx: MutationCtx,
+  adjustment: Doc<"budgetAdjustments">,
+  userId: Id<"users">
+) {
+  const label = adjustment.type === "realignment" ? "Realignment" : "Supplemental budget";
+  const reason = `${label} approved (${adjustment.legalBasis})`;
+
+  if (adjustment.type === "realignment") {
+    if (!adjustment.sourceBudgetItemId) {
+      throw new Error("Realignment has no source budget item");
+    }
+    const source = await ctx.db.get(adjustment.sourceBudgetItemId);
+    if (!source || source.isDeleted) throw new Error("Source budget item not found");
+
+    const available = getRealignableBalance(source);
+    if (adjustment.amount > available + 0.005) {
+      throw new Error(
+        `Source budget item "${source.particulars}" only has ₱${available.toLocaleString()} uncommitted`
+      );
+    }
+
+    await adjustAllocation(ctx, source._id, -adjustment.amount, userId, reason);
+  }
+
+  const destination = await ctx.db.get(adjustment.destinationBudgetItemId);
+  if (!destination || destination.isDeleted) throw new Error("Destination budget item not found");
+
+  await adjustAllocation(ctx, destination._id, adjustment.amount, userId, reason);
+}
@@ -1,6 +1,7 @@
 // convex/lib/budgetAggregation.ts
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
+import { calculateAggregateStatus } from "./statusValidation";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -85,15 +86,7 @@ export async function recalculateBudgetItemMetrics(
   }
 
   // Auto-calculate Status (always calculated)
-  let status: "completed" | "delayed" | "ongoing";
-  if (projects.length === 0) {
-    status = "ongoing"; // Default
-  } else {
-    if (statusCounts.onTrack > 0) status = "ongoing";
-    else if (statusCounts.delayed > 0) status = "delayed";
-    else if (statusCounts.completed > 0) status = "completed";
-    else status = "ongoing";
-  }
+  const status = calculateAggregateStatus(projects);
   updateData.status = status;
 
   // Update Budget Item with Calculated Values
@@ -2,6 +2,7 @@
 
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
+import { appendToAuditChain } from "./auditChain";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -78,6 +79,23 @@ export async function logCategoryActivity(
       timestamp: Date.now(),
       reason: config.reason,
     });
+
+    // Without a table of its own the entry is kept in the audit chain itself
+    await appendToAuditChain(ctx, {
+      source: "projectCategoryActivities",
+      action: config.action,
+      performedBy: userId,
+      payload: {
+        categoryId: config.categoryId,
+        code: categoryData.code || "Unknown",
+        fullName: categoryData.fullName || "Unknown Category",
+        previousValues: config.previousValues,
+        newValues: config.newValues,
+        changedFields,
+        changeSummary,
+        reason: config.reason,
+      },
+    });
     
     // TODO: When projectCategoryActivities table is added, uncomment:
     // await ctx.db.insert("projectCategoryActivities", {
@@ -0,0 +1,336 @@
+// convex/lib/departmentAccess.ts
+// Row-level access to projects, breakdowns and trust funds by department.
+// Shared access (budgetSharedAccess / budgetParticularSharedAccess) decides
+// which modules a user can open; this decides which rows inside them.
+
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { getRoleDepartmentIds } from "./roles";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+/**
+ * - own_department: rows of the user's department only
+ * - department_and_children: the user's department and every department below it
+ * - all: every row
+ */
+export type DepartmentScope = "own_department" | "department_and_children" | "all";
+
+export interface DepartmentAccess {
+  userId: Id<"users">;
+  scope: DepartmentScope;
+  /**
+   * Departments whose rows the user can see; null when the scope is "all"
+   */
+  departmentIds: Set<Id<"departments">> | null;
+  /**
+   * Whether rows without a department are visible; false when the
+   * permission in use is only held through department-scoped roles
+   */
+  includesUnassigned: boolean;
+}
+
+/**
+ * Set by lib/permissionFunctions.ts on the handler ctx
+ */
+export type PermissionScopedCtx = (QueryCtx | MutationCtx) & {
+  permissionDepartmentIds?: Set<Id<"departments">> | null;
+};
+
+/**
+ * Scope used when none has been set on the user
+ */
+export function getDefaultDepartmentScope(role?: Doc<"users">["role"]): DepartmentScope {
+  if (role === "super_admin") return "all";
+  if (role === "admin") return "department_and_children";
+  return "own_department";
+}
+
+/**
+ * Resolve what the user can see. Super admins always see everything.
+ * Departments where the user holds a department-scoped role count as theirs.
+ * Inside a permission function whose permission only comes from
+ * department-scoped roles, access is limited to those departments (and
+ * their children unless the scope is own_department).
+ */
+export async function getDepartmentAccess(
+  ctx: PermissionScopedCtx,
+  userId: Id<"users">
+): Promise<DepartmentAccess> {
+  const user = await ctx.db.get(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const scope: DepartmentScope =
+    user.role === "super_admin"
+      ? "all"
+      : user.departmentScope ?? getDefaultDepartmentScope(user.role);
+  const permissionDepartmentIds = ctx.permissionDepartmentIds ?? null;
+
+  if (scope === "all" && permissionDepartmentIds === null) {
+    return { userId, scope, departmentIds: null, includesUnassigned: true };
+  }
+
+  // Their own department plus any they hold a department-scoped role in,
+  // or only the departments the permission was granted for
+  const departmentIds = new Set<Id<"departments">>(
+    permissionDepartmentIds ?? (await getRoleDepartmentIds(ctx, userId))
+  );
+  if (user.departmentId && permissionDepartmentIds === null) {
+    departmentIds.add(user.departmentId);
+  }
+
+  if (scope !== "own_department") {
+    const queue: Id<"departments">[] = Array.from(departmentIds);
+    while (queue.length > 0) {
+      const parentId = queue.shift()!;
+      const children = await ctx.db
+        .query("departments")
+        .withIndex("parentDepartmentId", (q) => q.eq("parentDepartmentId", parentId))
+        .collect();
+      for (const child of children) {
+        // Guard against cycles in a badly edited hierarchy
+        if (departmentIds.has(child._id)) continue;
+        departmentIds.add(child._id);
+        queue.push(child._id);
+      }
+    }
+  }
+
+  return {
+    userId,
+    scope,
+    departmentIds,
+    includesUnassigned: permissionDepartmentIds === null,
+  };
+}
+
+/**
+ * Rows without a department are not owned by any department and stay
+ * visible to everyone who can open the module, except under a permission
+ * granted for particular departments only
+ */
+export function hasDepartmentAccess(
+  access: DepartmentAccess,
+  departmentId?: Id<"departments">
+): boolean {
+  if (access.departmentIds === null) return true;
+  if (!departmentId) return access.includesUnassigned;
+  return access.departmentIds.has(departmentId);
+}
+
+/**
+ * Throw unless the user can access rows of the given department
+ */
+export function requireDepartmentAccess(
+  access: DepartmentAccess,
+  departmentId: Id<"departments"> | undefined,
+  label: string
+): void {
+  if (!hasDepartmentAccess(access, departmentId)) {
+    throw new Error(`Not authorized - this ${label} belongs to another department`);
+  }
+}
+
+/**
+ * Drop the rows the user cannot access
+ */
+export function filterByDepartment<T extends { departmentId?: Id<"departments"> }>(
+  access: DepartmentAccess,
+  rows: T[]
+): T[] {
+  if (access.departmentIds === null) return rows;
+  return rows.filter((row) => hasDepartmentAccess(access, row.departmentId));
+}
+
+/**
+ * Drop the rows the user cannot access, for rows whose department has to
+ * be looked up
+ */
+export async function filterByResolvedDepartment<T>(
+  access: DepartmentAccess,
+  rows: T[],
+  resolveDepartment: (row: T) => Promise<Id<"departments"> | undefined>
+): Promise<T[]> {
+  if (access.departmentIds === null) return rows;
+
+  const allowed: T[] = [];
+  for (const row of rows) {
+    if (hasDepartmentAccess(access, await resolveDepartment(row))) {
+      allowed.push(row);
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Throw unless the user can access the project; for records that hang off
+ * a project (obligations, line items, history)
+ */
+export async function requireProjectAccess(
+  ctx: QueryCtx | MutationCtx,
+  access: DepartmentAccess,
+  projectId: Id<"projects">
+): Promise<Doc<"projects">> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+  requireDepartmentAccess(access, project.departmentId, "project");
+  return project;
+}
+
+/**
+ * Department of an implementing agency code, cached per resolver
+ */
+function createAgencyDepartmentResolver(ctx: QueryCtx | MutationCtx) {
+  const agencyDepartments = new Map<string, Id<"departments"> | undefined>();
+
+  return async (code: string): Promise<Id<"departments"> | undefined> => {
+    if (!agencyDepartments.has(code)) {
+      const agency = await ctx.db
+        .query("implementingAgencies")
+        .withIndex("code", (q) => q.eq("code", code))
+        .first();
+      agencyDepartments.set(code, agency?.departmentId);
+    }
+    return agencyDepartments.get(code);
+  };
+}
+
+// ============================================================================
+// BREAKDOWNS
+// ============================================================================
+
+type BreakdownOwner = Pick<Doc<"govtProjectBreakdowns">, "projectId" | "implementingOffice">;
+
+/**
+ * Breakdowns have no department of their own: they belong to their parent
+ * project's department, or to their implementing agency's when unlinked.
+ * Lookups are cached so one resolver can be used across a whole list.
+ */
+export function createBreakdownDepartmentResolver(ctx: QueryCtx | MutationCtx) {
+  const projectDepartments = new Map<Id<"projects">, Id<"departments"> | undefined>();
+  const resolveAgency = createAgencyDepartmentResolver(ctx);
+
+  return async (breakdown: BreakdownOwner): Promise<Id<"departments"> | undefined> => {
+    if (breakdown.projectId) {
+      if (!projectDepartments.has(breakdown.projectId)) {
+        const project = await ctx.db.get(breakdown.projectId);
+        projectDepartments.set(breakdown.projectId, project?.departmentId);
+      }
+      return projectDepartments.get(breakdown.projectId);
+    }
+
+    return resolveAgency(breakdown.implementingOffice);
+  };
+}
+
+/**
+ * Drop the breakdowns the user cannot access
+ */
+export async function filterBreakdownsByDepartment<T extends BreakdownOwner>(
+  ctx: QueryCtx | MutationCtx,
+  access: DepartmentAccess,
+  breakdowns: T[]
+): Promise<T[]> {
+  return filterByResolvedDepartment(access, breakdowns, createBreakdownDepartmentResolver(ctx));
+}
+
+/**
+ * Throw unless the user can access the breakdown
+ */
+export async function requireBreakdownAccess(
+  ctx: QueryCtx | MutationCtx,
+  access: DepartmentAccess,
+  breakdown: BreakdownOwner
+): Promise<void> {
+  if (access.departmentIds === null) return;
+  const departmentId = await createBreakdownDepartmentResolver(ctx)(breakdown);
+  requireDepartmentAccess(access, departmentId, "breakdown");
+}
+
+// ============================================================================
+// INSPECTIONS
+// ============================================================================
+
+/**
+ * Inspections belong to their breakdown's department, or to their project's
+ * when they have no breakdown
+ */
+export function createInspectionDepartmentResolver(ctx: QueryCtx | MutationCtx) {
+  const resolveBreakdown = createBreakdownDepartmentResolver(ctx);
+
+  return async (
+    inspection: Pick<Doc<"inspections">, "projectId" | "breakdownId">
+  ): Promise<Id<"departments"> | undefined> => {
+    const breakdown = inspection.breakdownId ? await ctx.db.get(inspection.breakdownId) : null;
+    if (breakdown) return resolveBreakdown(breakdown);
+
+    const project = await ctx.db.get(inspection.projectId);
+    return project?.departmentId;
+  };
+}
+
+/**
+ * Throw unless the user can access the inspection (and so its photos)
+ */
+export async function requireInspectionAccess(
+  ctx: QueryCtx | MutationCtx,
+  access: DepartmentAccess,
+  inspection: Pick<Doc<"inspections">, "projectId" | "breakdownId">
+): Promise<void> {
+  if (access.departmentIds === null) return;
+  const departmentId = await createInspectionDepartmentResolver(ctx)(inspection);
+  requireDepartmentAccess(access, departmentId, "inspection");
+}
+
+// ============================================================================
+// ACTIVITY LOGS
+// ============================================================================
+
+/**
+ * Breakdown activities belong to their breakdown's department. Activities
+ * of a deleted breakdown fall back to the implementing office they recorded.
+ */
+export function createBreakdownActivityDepartmentResolver(ctx: QueryCtx | MutationCtx) {
+  const resolveBreakdown = createBreakdownDepartmentResolver(ctx);
+  const breakdowns = new Map<Id<"govtProjectBreakdowns">, Doc<"govtProjectBreakdowns"> | null>();
+
+  return async (
+    activity: Pick<Doc<"govtProjectBreakdownActivities">, "breakdownId" | "implementingOffice">
+  ): Promise<Id<"departments"> | undefined> => {
+    if (activity.breakdownId) {
+      if (!breakdowns.has(activity.breakdownId)) {
+        breakdowns.set(activity.breakdownId, await ctx.db.get(activity.breakdownId));
+      }
+      const breakdown = breakdowns.get(activity.breakdownId);
+      if (breakdown) return resolveBreakdown(breakdown);
+    }
+    return resolveBreakdown({ projectId: undefined, implementingOffice: activity.implementingOffice });
+  };
+}
+
+/**
+ * Trust fund activities belong to their trust fund's department. Activities
+ * of a deleted trust fund fall back to the office in charge they recorded.
+ */
+export function createTrustFundActivityDepartmentResolver(ctx: QueryCtx | MutationCtx) {
+  const resolveAgency = createAgencyDepartmentResolver(ctx);
+  const trustFunds = new Map<Id<"trustFunds">, Doc<"trustFunds"> | null>();
+
+  return async (
+    activity: Pick<Doc<"trustFundActivities">, "trustFundId" | "officeInCharge">
+  ): Promise<Id<"departments"> | undefined> => {
+    if (activity.trustFundId) {
+      if (!trustFunds.has(activity.trustFundId)) {
+        trustFunds.set(activity.trustFundId, await ctx.db.get(activity.trustFundId));
+      }
+      const trustFund = trustFunds.get(activity.trustFundId);
+      if (trustFund) return trustFund.departmentId;
+    }
+    return resolveAgency(activity.officeInCharge);
+  };
+}
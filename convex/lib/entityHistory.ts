@@ -0,0 +1,378 @@
+// convex/lib/entityHistory.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Id } from "../_generated/dataModel";
+import { logBudgetActivity } from "./budgetActivityLogger";
+import { logProjectActivity } from "./projectActivityLogger";
+import { logGovtProjectActivity } from "./govtProjectActivityLogger";
+import { logTrustFundActivity } from "./trustFundActivityLogger";
+import { recalculateBudgetItemMetrics } from "./budgetAggregation";
+import { recalculateProjectMetrics } from "./projectAggregation";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+export type HistoryEntityType = "budgetItem" | "project" | "breakdown" | "trustFund";
+
+export type HistorySnapshot = Record<string, unknown>;
+
+export interface HistoryFieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One entry of a record's timeline: the change an activity made and the
+ * full record as it stood right after it
+ */
+export interface HistoryVersion {
+  activityId: string;
+  action: string;
+  timestamp: number;
+  performedByName: string;
+  performedByEmail?: string;
+  reason?: string;
+  diffs: HistoryFieldDiff[];
+  /** Record right after this activity; null once deleted */
+  snapshot: HistorySnapshot | null;
+}
+
+interface NormalizedActivity {
+  _id: string;
+  action: string;
+  timestamp: number;
+  performedByName: string;
+  performedByEmail?: string;
+  reason?: string;
+  previousValues?: string;
+  newValues?: string;
+}
+
+// Bookkeeping fields that never show up in a diff
+const IGNORED_FIELDS = ["_id", "_creationTime", "createdAt", "createdBy", "updatedAt", "updatedBy"];
+
+// Activities that read a record without changing it
+const READ_ONLY_ACTIONS = ["viewed", "exported"];
+
+/**
+ * Fields a past version can be restored into.
+ * Links (particulars, offices, parents) are left alone because changing them
+ * moves usage counts and aggregates; derived totals are recalculated instead.
+ * A budget item's allocation is owned by the adjustment workflow, so like
+ * budgetItems.update a restore never changes it.
+ */
+export const RESTORABLE_FIELDS: Record<HistoryEntityType, string[]> = {
+  budgetItem: [
+    "obligatedBudget",
+    "totalBudgetUtilized",
+    "notes",
+    "autoCalculateBudgetUtilized",
+  ],
+  project: [
+    "totalBudgetAllocated",
+    "obligatedBudget",
+    "totalBudgetUtilized",
+    "remarks",
+    "targetDateCompletion",
+    "autoCalculateBudgetUtilized",
+  ],
+  breakdown: [
+    "projectTitle",
+    "allocatedBudget",
+    "obligatedBudget",
+    "budgetUtilized",
+    "balance",
+    "utilizationRate",
+    "status",
+    "dateStarted",
+    "targetDate",
+    "completionDate",
+    "projectAccomplishment",
+    "remarks",
+    "municipality",
+    "barangay",
+    "district",
+    "reportDate",
+    "fundSource",
+  ],
+  trustFund: ["projectTitle", "dateReceived", "received", "obligatedPR", "utilized", "remarks"],
+};
+
+function parseValues(json?: string): HistorySnapshot | undefined {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+export function diffSnapshots(
+  before: HistorySnapshot | null,
+  after: HistorySnapshot | null
+): HistoryFieldDiff[] {
+  const previous = before ?? {};
+  const next = after ?? {};
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return [...fields]
+    .filter(
+      (field) =>
+        !IGNORED_FIELDS.includes(field) &&
+        JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+    )
+    .sort()
+    .map((field) => ({ field, before: previous[field], after: next[field] }));
+}
+
+/**
+ * Resolve a raw ID string to the record's table, or throw
+ */
+export function normalizeEntityId(
+  ctx: QueryCtx | MutationCtx,
+  entityType: HistoryEntityType,
+  entityId: string
+) {
+  const id =
+    entityType === "budgetItem"
+      ? ctx.db.normalizeId("budgetItems", entityId)
+      : entityType === "project"
+        ? ctx.db.normalizeId("projects", entityId)
+        : entityType === "breakdown"
+          ? ctx.db.normalizeId("govtProjectBreakdowns", entityId)
+          : ctx.db.normalizeId("trustFunds", entityId);
+
+  if (!id) throw new Error("Invalid record ID");
+  return id;
+}
+
+/**
+ * Load every logged activity of a record, oldest first
+ */
+async function loadActivities(
+  ctx: QueryCtx | MutationCtx,
+  entityType: HistoryEntityType,
+  entityId: string
+): Promise<NormalizedActivity[]> {
+  let activities: NormalizedActivity[];
+
+  switch (entityType) {
+    case "budgetItem":
+      activities = await ctx.db
+        .query("budgetItemActivities")
+        .withIndex("budgetItemId", (q) => q.eq("budgetItemId", entityId as Id<"budgetItems">))
+        .collect();
+      break;
+    case "project":
+      activities = await ctx.db
+        .query("projectActivities")
+        .withIndex("projectId", (q) => q.eq("projectId", entityId as Id<"projects">))
+        .collect();
+      break;
+    case "breakdown":
+      activities = await ctx.db
+        .query("govtProjectBreakdownActivities")
+        .withIndex("breakdownId", (q) => q.eq("breakdownId", entityId as Id<"govtProjectBreakdowns">))
+        .collect();
+      break;
+    case "trustFund":
+      activities = await ctx.db
+        .query("trustFundActivities")
+        .withIndex("trustFundId", (q) => q.eq("trustFundId", entityId as Id<"trustFunds">))
+        .collect();
+      break;
+  }
+
+  return activities
+    .filter((activity) => !READ_ONLY_ACTIONS.includes(activity.action))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Replay a record's activity log into versions, oldest first.
+ * Each activity's newValues is the record after the change; when an activity
+ * only logged previousValues (deletes), the record is gone after it.
+ */
+export async function buildEntityHistory(
+  ctx: QueryCtx | MutationCtx,
+  entityType: HistoryEntityType,
+  entityId: string
+): Promise<HistoryVersion[]> {
+  const activities = await loadActivities(ctx, entityType, entityId);
+  const versions: HistoryVersion[] = [];
+  let state: HistorySnapshot | null = null;
+
+  for (const activity of activities) {
+    const before: HistorySnapshot | null = parseValues(activity.previousValues) ?? state;
+    const after: HistorySnapshot | null =
+      activity.action === "deleted" || activity.action === "bulk_deleted"
+        ? null
+        : parseValues(activity.newValues) ?? before;
+
+    versions.push({
+      activityId: activity._id,
+      action: activity.action,
+      timestamp: activity.timestamp,
+      performedByName: activity.performedByName,
+      performedByEmail: activity.performedByEmail,
+      reason: activity.reason,
+      diffs: diffSnapshots(before, after),
+      snapshot: after,
+    });
+    state = after;
+  }
+
+  return versions;
+}
+
+/**
+ * The version in effect at a point in time (the last one logged at or before it)
+ */
+export function findVersionAsOf(versions: HistoryVersion[], asOf: number): HistoryVersion | null {
+  let match: HistoryVersion | null = null;
+  for (const version of versions) {
+    if (version.timestamp > asOf) break;
+    match = version;
+  }
+  return match;
+}
+
+function pickRestorable(entityType: HistoryEntityType, snapshot: HistorySnapshot) {
+  const values: Record<string, unknown> = {};
+  for (const field of RESTORABLE_FIELDS[entityType]) {
+    // Fields missing from an old snapshot are left as they are now
+    if (snapshot[field] !== undefined) values[field] = snapshot[field];
+  }
+  return values;
+}
+
+function rate(utilized: number, allocated: number) {
+  return allocated > 0 ? (utilized / allocated) * 100 : 0;
+}
+
+/**
+ * Write a past version back onto the live record.
+ * Only RESTORABLE_FIELDS are touched; derived values are recomputed, the
+ * change is logged as a normal update and parent aggregates are recalculated.
+ */
+export async function restoreEntityVersion(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  entityType: HistoryEntityType,
+  entityId: string,
+  snapshot: HistorySnapshot,
+  reason: string
+) {
+  const values = pickRestorable(entityType, snapshot);
+  const now = Date.now();
+
+  switch (entityType) {
+    case "budgetItem": {
+      const id = entityId as Id<"budgetItems">;
+      const existing = await ctx.db.get(id);
+      if (!existing) throw new Error("Budget item not found");
+
+      const merged = { ...existing, ...values };
+      await ctx.db.patch(id, {
+        ...values,
+        utilizationRate: rate(merged.totalBudgetUtilized, merged.totalBudgetAllocated),
+        updatedAt: now,
+        updatedBy: userId,
+      });
+
+      await logBudgetActivity(ctx, userId, {
+        action: "updated",
+        budgetItemId: id,
+        previousValues: existing,
+        newValues: await ctx.db.get(id),
+        reason,
+      });
+
+      // ✅ RECALCULATE (re-applies auto-calculated utilization from projects)
+      await recalculateBudgetItemMetrics(ctx, id, userId);
+      break;
+    }
+
+    case "project": {
+      const id = entityId as Id<"projects">;
+      const existing = await ctx.db.get(id);
+      if (!existing) throw new Error("Project not found");
+
+      const merged = { ...existing, ...values };
+      await ctx.db.patch(id, {
+        ...values,
+        utilizationRate: rate(merged.totalBudgetUtilized, merged.totalBudgetAllocated),
+        updatedAt: now,
+        updatedBy: userId,
+      });
+
+      await logProjectActivity(ctx, userId, {
+        action: "updated",
+        projectId: id,
+        previousValues: existing,
+        newValues: await ctx.db.get(id),
+        reason,
+      });
+
+      // ✅ RECALCULATE PROJECT AND PARENT BUDGET ITEM
+      await recalculateProjectMetrics(ctx, id, userId);
+      if (existing.budgetItemId) {
+        await recalculateBudgetItemMetrics(ctx, existing.budgetItemId, userId);
+      }
+      break;
+    }
+
+    case "breakdown": {
+      const id = entityId as Id<"govtProjectBreakdowns">;
+      const existing = await ctx.db.get(id);
+      if (!existing) throw new Error("Breakdown not found");
+
+      await ctx.db.patch(id, {
+        ...values,
+        updatedAt: now,
+        updatedBy: userId,
+      });
+      const restored = await ctx.db.get(id);
+
+      await logGovtProjectActivity(ctx, userId, {
+        action: "updated",
+        breakdownId: id,
+        breakdown: restored,
+        previousValues: existing,
+        newValues: restored,
+        source: "web_ui",
+        reason,
+      });
+
+      // ✅ RECALCULATE PARENT PROJECT
+      if (existing.projectId) {
+        await recalculateProjectMetrics(ctx, existing.projectId, userId);
+      }
+      break;
+    }
+
+    case "trustFund": {
+      const id = entityId as Id<"trustFunds">;
+      const existing = await ctx.db.get(id);
+      if (!existing) throw new Error("Trust fund not found");
+
+      const merged = { ...existing, ...values };
+      await ctx.db.patch(id, {
+        ...values,
+        balance: merged.received - merged.utilized,
+        utilizationRate: rate(merged.utilized, merged.received),
+        updatedAt: now,
+        updatedBy: userId,
+      });
+
+      await logTrustFundActivity(ctx, userId, {
+        action: "updated",
+        trustFundId: id,
+        previousValues: existing,
+        newValues: await ctx.db.get(id),
+        reason,
+      });
+      break;
+    }
+  }
+}
@@ -0,0 +1,267 @@
+// convex/lib/executiveDashboard.ts
+import { GenericQueryCtx } from "convex/server";
+import { DataModel } from "../_generated/dataModel";
+import { AgencyPortfolioTotals, buildAgencyTotals } from "./agencyAggregation";
+import {
+  DepartmentAccess,
+  filterBreakdownsByDepartment,
+  filterByDepartment,
+} from "./departmentAccess";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+/**
+ * Mandatory funds shown on the dashboard, by budget particular code
+ */
+export const MANDATORY_FUNDS = [
+  { code: "20%_DF", label: "20% LDF" },
+  { code: "LDRRMP", label: "5% MDRRMF" },
+  { code: "GAD", label: "5% GAD" },
+] as const;
+
+/**
+ * Physical and financial accomplishment of one implementing office.
+ * Money covers projects and trust funds; breakdowns are sub-allocations of
+ * projects and only feed the completion rate.
+ */
+export interface OfficePerformance {
+  office: string;
+  allocated: number;
+  obligated: number;
+  utilized: number;
+  utilizationRate: number;
+  obligationRate: number;
+  /** Completed breakdowns out of all breakdowns, or projects when there are none */
+  completionRate: number;
+  projectCount: number;
+  breakdownCount: number;
+  trustFundCount: number;
+  delayedProjects: number;
+  delayedBreakdowns: number;
+}
+
+/**
+ * Physical and financial accomplishment of one mandatory fund
+ */
+export interface FundPerformance {
+  label: string;
+  allocated: number;
+  obligated: number;
+  utilized: number;
+  utilizationRate: number;
+  obligationRate: number;
+  completionRate: number;
+  count: number;
+}
+
+function rate(part: number, whole: number) {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+function isActive(record: { isDeleted?: boolean }) {
+  return record.isDeleted !== true;
+}
+
+function toOfficePerformance(office: string, totals: AgencyPortfolioTotals): OfficePerformance {
+  const obligated = totals.projects.obligated + totals.trustFunds.obligated;
+  const completionRate =
+    totals.breakdowns.count > 0
+      ? rate(totals.breakdowns.completed, totals.breakdowns.count)
+      : rate(totals.projects.completed, totals.projects.count);
+
+  return {
+    office,
+    allocated: totals.totalBudget,
+    obligated,
+    utilized: totals.totalUtilized,
+    utilizationRate: totals.utilizationRate,
+    obligationRate: rate(obligated, totals.totalBudget),
+    completionRate,
+    projectCount: totals.projects.count,
+    breakdownCount: totals.breakdowns.count,
+    trustFundCount: totals.trustFunds.count,
+    delayedProjects: totals.projects.delayed,
+    delayedBreakdowns: totals.breakdowns.delayed,
+  };
+}
+
+function toFundPerformance(
+  label: string,
+  money: { allocated: number; obligated: number; utilized: number },
+  completed: number,
+  count: number
+): FundPerformance {
+  return {
+    label,
+    ...money,
+    utilizationRate: rate(money.utilized, money.allocated),
+    obligationRate: rate(money.obligated, money.allocated),
+    completionRate: rate(completed, count),
+    count,
+  };
+}
+
+/**
+ * Active projects of a fiscal year, or of every year
+ */
+async function getProjects(ctx: QueryCtx, year?: number) {
+  const projects =
+    year === undefined
+      ? await ctx.db.query("projects").collect()
+      : await ctx.db
+          .query("projects")
+          .withIndex("year", (q) => q.eq("year", year))
+          .collect();
+  return projects.filter(isActive);
+}
+
+/**
+ * Active trust funds of a fiscal year (older rows only set fiscalYear), or of every year
+ */
+async function getTrustFunds(ctx: QueryCtx, year?: number) {
+  if (year === undefined) {
+    return (await ctx.db.query("trustFunds").collect()).filter(isActive);
+  }
+
+  const byYear = await ctx.db
+    .query("trustFunds")
+    .withIndex("year", (q) => q.eq("year", year))
+    .collect();
+  const byFiscalYear = await ctx.db
+    .query("trustFunds")
+    .withIndex("fiscalYear", (q) => q.eq("fiscalYear", year))
+    .collect();
+  return [...byYear, ...byFiscalYear.filter((fund) => fund.year === undefined)].filter(isActive);
+}
+
+/**
+ * Active budget items of a fiscal year (older rows only set fiscalYear), or of every year
+ */
+async function getBudgetItems(ctx: QueryCtx, year?: number) {
+  if (year === undefined) {
+    return (await ctx.db.query("budgetItems").collect()).filter(isActive);
+  }
+
+  const byYear = await ctx.db
+    .query("budgetItems")
+    .withIndex("year", (q) => q.eq("year", year))
+    .collect();
+  const byFiscalYear = await ctx.db
+    .query("budgetItems")
+    .withIndex("fiscalYear", (q) => q.eq("fiscalYear", year))
+    .collect();
+  return [...byYear, ...byFiscalYear.filter((item) => item.year === undefined)].filter(isActive);
+}
+
+/**
+ * Active records the user can see, limited to a fiscal year when given
+ */
+async function getVisibleRecords(ctx: QueryCtx, access: DepartmentAccess, year?: number) {
+  const projects = filterByDepartment(access, await getProjects(ctx, year));
+
+  // Breakdowns take their year and department from their project, so the
+  // visible projects' breakdowns are exactly the visible linked ones
+  const linkedBreakdowns = (
+    await Promise.all(
+      projects.map((project) =>
+        ctx.db
+          .query("govtProjectBreakdowns")
+          .withIndex("projectId", (q) => q.eq("projectId", project._id))
+          .collect()
+      )
+    )
+  ).flat();
+
+  // Breakdowns without a project have no year
+  const unlinkedBreakdowns =
+    year === undefined
+      ? await filterBreakdownsByDepartment(
+          ctx,
+          access,
+          await ctx.db
+            .query("govtProjectBreakdowns")
+            .withIndex("projectId", (q) => q.eq("projectId", undefined))
+            .collect()
+        )
+      : [];
+  const breakdowns = [...linkedBreakdowns, ...unlinkedBreakdowns].filter(isActive);
+
+  const trustFunds = filterByDepartment(access, await getTrustFunds(ctx, year));
+  const budgetItems = filterByDepartment(access, await getBudgetItems(ctx, year));
+
+  return { projects, breakdowns, trustFunds, budgetItems };
+}
+
+/**
+ * Executive dashboard figures: every implementing office, the overall
+ * portfolio and the mandatory funds, for one fiscal year or all
+ */
+export async function buildExecutiveSummary(
+  ctx: QueryCtx,
+  access: DepartmentAccess,
+  year?: number
+) {
+  const { projects, breakdowns, trustFunds, budgetItems } = await getVisibleRecords(
+    ctx,
+    access,
+    year
+  );
+
+  // Group by implementing office
+  type OfficeRecords = Parameters<typeof buildAgencyTotals>[0];
+  const recordsByOffice = new Map<string, OfficeRecords>();
+  const recordsFor = (office: string) => {
+    if (!recordsByOffice.has(office)) {
+      recordsByOffice.set(office, { projects: [], breakdowns: [], trustFunds: [] });
+    }
+    return recordsByOffice.get(office)!;
+  };
+  projects.forEach((project) => recordsFor(project.implementingOffice).projects.push(project));
+  breakdowns.forEach((breakdown) =>
+    recordsFor(breakdown.implementingOffice).breakdowns.push(breakdown)
+  );
+  trustFunds.forEach((trustFund) => recordsFor(trustFund.officeInCharge).trustFunds.push(trustFund));
+
+  const offices = [...recordsByOffice.entries()]
+    .map(([office, records]) => toOfficePerformance(office, buildAgencyTotals(records)))
+    .sort((a, b) => b.allocated - a.allocated || a.office.localeCompare(b.office));
+
+  const overall = toOfficePerformance("All Offices", buildAgencyTotals({ projects, breakdowns, trustFunds }));
+
+  // Mandatory funds: their budget items, with the projects under them for completion
+  const mandatoryFunds = MANDATORY_FUNDS.map((fund) => {
+    const items = budgetItems.filter((item) => item.particulars === fund.code);
+    const itemIds = new Set(items.map((item) => item._id));
+    const fundProjects = projects.filter(
+      (project) => project.budgetItemId && itemIds.has(project.budgetItemId)
+    );
+    return toFundPerformance(
+      fund.label,
+      {
+        allocated: items.reduce((sum, item) => sum + (item.totalBudgetAllocated || 0), 0),
+        obligated: items.reduce((sum, item) => sum + (item.obligatedBudget || 0), 0),
+        utilized: items.reduce((sum, item) => sum + (item.totalBudgetUtilized || 0), 0),
+      },
+      fundProjects.filter((project) => project.status === "completed").length,
+      fundProjects.length
+    );
+  });
+
+  const trustFund = toFundPerformance(
+    "Trust Fund",
+    {
+      allocated: trustFunds.reduce((sum, fund) => sum + (fund.received || 0), 0),
+      obligated: trustFunds.reduce((sum, fund) => sum + (fund.obligatedPR || 0), 0),
+      utilized: trustFunds.reduce((sum, fund) => sum + (fund.utilized || 0), 0),
+    },
+    trustFunds.filter((fund) => fund.status === "completed").length,
+    trustFunds.length
+  );
+
+  return {
+    year,
+    overall,
+    offices,
+    mandatoryFunds: [...mandatoryFunds, trustFund],
+  };
+}
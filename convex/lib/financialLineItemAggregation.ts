@@ -0,0 +1,120 @@
+// convex/lib/financialLineItemAggregation.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+/**
+ * Tolerance used when comparing peso amounts (sub-centavo float drift)
+ */
+const RECONCILIATION_TOLERANCE = 0.005;
+
+/**
+ * Recalculate a parent line item from its direct children, then cascade upwards.
+ * Rows without children keep their own (manually entered) figures.
+ */
+export async function recalculateLineItemRollup(
+  ctx: MutationCtx,
+  lineItemId: Id<"financialLineItems">,
+  userId: Id<"users">
+) {
+  let currentId: Id<"financialLineItems"> | undefined = lineItemId;
+
+  while (currentId) {
+    const item: Doc<"financialLineItems"> | null = await ctx.db.get(currentId);
+    if (!item) return;
+
+    const children = await ctx.db
+      .query("financialLineItems")
+      .withIndex("parentId", (q) => q.eq("parentId", item._id))
+      .collect();
+
+    if (children.length > 0) {
+      const appropriation = children.reduce((sum, c) => sum + c.appropriation, 0);
+      const obligation = children.reduce((sum, c) => sum + c.obligation, 0);
+
+      await ctx.db.patch(item._id, {
+        appropriation,
+        obligation,
+        balance: appropriation - obligation,
+        updatedAt: Date.now(),
+        updatedBy: userId,
+      });
+    }
+
+    currentId = item.parentId;
+  }
+}
+
+/**
+ * Delete a line item together with all of its descendants.
+ * Returns the number of removed rows.
+ */
+export async function deleteLineItemTree(
+  ctx: MutationCtx,
+  lineItemId: Id<"financialLineItems">
+): Promise<number> {
+  const children = await ctx.db
+    .query("financialLineItems")
+    .withIndex("parentId", (q) => q.eq("parentId", lineItemId))
+    .collect();
+
+  let removed = 0;
+  for (const child of children) {
+    removed += await deleteLineItemTree(ctx, child._id);
+  }
+
+  await ctx.db.delete(lineItemId);
+  return removed + 1;
+}
+
+/**
+ * Compare the ledger's top-level totals against the project's allocated budget.
+ * Only top-level sections are summed, since every deeper row is already included
+ * in its section's roll-up.
+ */
+export async function getLedgerReconciliation(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">
+) {
+  const project = await ctx.db.get(projectId);
+  if (!project) throw new Error("Project not found");
+
+  const sections = await ctx.db
+    .query("financialLineItems")
+    .withIndex("projectAndParent", (q) =>
+      q.eq("projectId", projectId).eq("parentId", undefined)
+    )
+    .collect();
+
+  const appropriation = sections.reduce((sum, s) => sum + s.appropriation, 0);
+  const obligation = sections.reduce((sum, s) => sum + s.obligation, 0);
+  const variance = project.totalBudgetAllocated - appropriation;
+
+  return {
+    projectAllocated: project.totalBudgetAllocated,
+    appropriation,
+    obligation,
+    balance: appropriation - obligation,
+    variance,
+    isReconciled: Math.abs(variance) < RECONCILIATION_TOLERANCE,
+    isOverAllocated: variance < -RECONCILIATION_TOLERANCE,
+    sectionCount: sections.length,
+  };
+}
+
+/**
+ * Throw if the ledger's appropriation would exceed the project's allocation.
+ */
+export async function assertWithinProjectAllocation(
+  ctx: MutationCtx,
+  projectId: Id<"projects">
+) {
+  const reconciliation = await getLedgerReconciliation(ctx, projectId);
+  if (reconciliation.isOverAllocated) {
+    throw new Error(
+      `Ledger appropriation (₱${reconciliation.appropriation.toLocaleString("en-PH")}) exceeds the project's allocated budget (₱${reconciliation.projectAllocated.toLocaleString("en-PH")}).`
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// convex/lib/fiscalYearRollover.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc } from "../_generated/dataModel";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+/**
+ * Unspent balance of a project (never negative)
+ */
+export function getProjectUnspentBalance(project: Doc<"projects">): number {
+  return Math.max(0, project.totalBudgetAllocated - (project.totalBudgetUtilized || 0));
+}
+
+/**
+ * Unspent balance of a breakdown (never negative)
+ */
+export function getBreakdownUnspentBalance(breakdown: Doc<"govtProjectBreakdowns">): number {
+  return Math.max(0, (breakdown.allocatedBudget || 0) - (breakdown.budgetUtilized || 0));
+}
+
+/**
+ * A project is carried forward when it is unfinished (ongoing or delayed)
+ * and still has money left to spend.
+ */
+export function isCarryForwardProject(project: Doc<"projects">): boolean {
+  return (
+    (project.status === "ongoing" || project.status === "delayed") &&
+    getProjectUnspentBalance(project) > 0
+  );
+}
+
+/**
+ * Build the rollover plan for a source year.
+ * One entry per active budget item of the year, with the projects (and their
+ * unfinished breakdowns) that would be carried forward as continuing appropriations.
+ * Read-only: used by both the wizard preview and the rollover mutation.
+ */
+export async function buildRolloverPlan(
+  ctx: QueryCtx | MutationCtx,
+  fromYear: number
+) {
+  const budgetItems = await ctx.db
+    .query("budgetItems")
+    .withIndex("year", (q) => q.eq("year", fromYear))
+    .filter((q) => q.neq(q.field("isDeleted"), true))
+    .collect();
+
+  const plan = [];
+
+  for (const budgetItem of budgetItems) {
+    // Already carried forward once? The clone points back to this item.
+    const existingClone = await ctx.db
+      .query("budgetItems")
+      .withIndex("sourceBudgetItemId", (q) => q.eq("sourceBudgetItemId", budgetItem._id))
+      .filter((q) => q.neq(q.field("isDeleted"), true))
+      .first();
+
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("budgetItemId", (q) => q.eq("budgetItemId", budgetItem._id))
+      .filter((q) => q.neq(q.field("isDeleted"), true))
+      .collect();
+
+    const carriedProjects = [];
+    for (const project of projects.filter(isCarryForwardProject)) {
+      const breakdowns = await ctx.db
+        .query("govtProjectBreakdowns")
+        .withIndex("projectId", (q) => q.eq("projectId", project._id))
+        .filter((q) => q.neq(q.field("isDeleted"), true))
+        .collect();
+
+      carriedProjects.push({
+        project,
+        unspentBalance: getProjectUnspentBalance(project),
+        breakdowns: breakdowns.filter((b) => b.status !== "completed"),
+      });
+    }
+
+    plan.push({
+      budgetItem,
+      alreadyRolledOverTo: existingClone?.year,
+      totalProjects: projects.length,
+      carriedProjects,
+      continuingAppropriation: carriedProjects.reduce((sum, p) => sum + p.unspentBalance, 0),
+    });
+  }
+
+  return plan;
+}
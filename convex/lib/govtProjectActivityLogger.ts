@@ -3,6 +3,7 @@
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
 import { Doc } from "../_generated/dataModel";
+import { insertAuditedActivity } from "./auditChain";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -98,7 +99,7 @@ export async function logGovtProjectActivity(
   const normalizedRole = user.role || "user";
 
   // Create activity record
-  const activityId = await ctx.db.insert("govtProjectBreakdownActivities", {
+  const activityId = await insertAuditedActivity(ctx, "govtProjectBreakdownActivities", {
     action: config.action,
     breakdownId: config.breakdownId,
     batchId: config.batchId,
@@ -252,9 +253,16 @@ function shouldFlagActivity(
   return { isFlagged: false };
 }
 
+/**
+ * Generate a batch ID for grouping bulk activities
+ */
+export function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Log bulk operation
- * Creates a batch ID and logs activities for multiple records
+ * Creates a batch ID (unless one is given) and logs activities for multiple records
  */
 export async function logBulkGovtProjectActivity(
   ctx: MutationCtx,
@@ -271,10 +279,11 @@ export async function logBulkGovtProjectActivity(
     ipAddress?: string;
     userAgent?: string;
     source?: "web_ui" | "bulk_import" | "api" | "system" | "migration";
+    batchId?: string;
   }
 ): Promise<string> {
-  // Generate batch ID
-  const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Reuse the caller's batch ID so records and activities share it
+  const batchId = config?.batchId ?? generateBatchId();
 
   // Log each record
   for (const record of records) {
@@ -284,8 +293,8 @@ export async function logBulkGovtProjectActivity(
       breakdown: record.breakdown,
       previousValues: record.previousValues,
       newValues: record.newValues,
-      batchId,
       ...config,
+      batchId,
     });
   }
 
@@ -0,0 +1,160 @@
+// convex/lib/inspectionPhotos.ts
+// Gallery helpers for inspection photos. A photo's EXIF position is compared
+// with the municipality of the breakdown it documents; photos taken outside
+// the municipality (plus a tolerance) are flagged for review.
+
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { normalizeLocationKey } from "./locationAggregation";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+export type PhotoPhase = "before" | "during" | "after";
+
+interface MunicipalityArea {
+  latitude: number;
+  longitude: number;
+  /** Distance from the center to the farthest boundary point */
+  radiusKm: number;
+}
+
+/**
+ * Centers and extents of the simplified boundaries used by the project map,
+ * keyed like normalizeLocationKey. Not survey-grade.
+ */
+const MUNICIPALITY_AREAS: Record<string, MunicipalityArea> = {
+  anao: { latitude: 15.7409, longitude: 120.6579, radiusKm: 8.6 },
+  bamban: { latitude: 15.2428, longitude: 120.5108, radiusKm: 16.2 },
+  camiling: { latitude: 15.7294, longitude: 120.4366, radiusKm: 10.9 },
+  capas: { latitude: 15.345, longitude: 120.4396, radiusKm: 16.1 },
+  concepcion: { latitude: 15.3199, longitude: 120.6723, radiusKm: 12.7 },
+  gerona: { latitude: 15.5824, longitude: 120.58, radiusKm: 8.5 },
+  "la paz": { latitude: 15.4433, longitude: 120.7513, radiusKm: 13.0 },
+  mayantoc: { latitude: 15.5876, longitude: 120.3382, radiusKm: 14.4 },
+  moncada: { latitude: 15.7592, longitude: 120.5252, radiusKm: 10.5 },
+  paniqui: { latitude: 15.6636, longitude: 120.5626, radiusKm: 7.4 },
+  pura: { latitude: 15.6281, longitude: 120.662, radiusKm: 7.4 },
+  ramos: { latitude: 15.6788, longitude: 120.6684, radiusKm: 7.2 },
+  "san clemente": { latitude: 15.7131, longitude: 120.3446, radiusKm: 13.4 },
+  "san jose": { latitude: 15.4579, longitude: 120.3782, radiusKm: 16.3 },
+  "san manuel": { latitude: 15.825, longitude: 120.5848, radiusKm: 14.8 },
+  "santa ignacia": { latitude: 15.5916, longitude: 120.4706, radiusKm: 9.8 },
+  tarlac: { latitude: 15.4797, longitude: 120.5813, radiusKm: 10.5 },
+  victoria: { latitude: 15.5606, longitude: 120.7017, radiusKm: 9.5 },
+};
+
+/** Kilometers past a municipality's extent before a photo is flagged */
+export const DEFAULT_PHOTO_LOCATION_TOLERANCE_KM = 2;
+
+export function getPhotoLocationTolerance(): number {
+  const tolerance = Number(process.env.PHOTO_LOCATION_TOLERANCE_KM);
+  return process.env.PHOTO_LOCATION_TOLERANCE_KM && Number.isFinite(tolerance) && tolerance >= 0
+    ? tolerance
+    : DEFAULT_PHOTO_LOCATION_TOLERANCE_KM;
+}
+
+/**
+ * Great-circle distance in kilometers
+ */
+export function distanceKm(
+  latitude1: number,
+  longitude1: number,
+  latitude2: number,
+  longitude2: number
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLatitude = toRadians(latitude2 - latitude1);
+  const dLongitude = toRadians(longitude2 - longitude1);
+  const h =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(latitude1)) * Math.cos(toRadians(latitude2)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+export function getMunicipalityArea(municipality: string | undefined) {
+  return municipality ? MUNICIPALITY_AREAS[normalizeLocationKey(municipality)] : undefined;
+}
+
+export interface PhotoLocationCheck {
+  municipality: string;
+  /** Distance from the municipality's center */
+  distanceKm: number;
+  isFarFromSite: boolean;
+}
+
+/**
+ * Compare a photo's position with the breakdown's municipality; null when
+ * the photo has no GPS data or the municipality is unknown
+ */
+export function checkPhotoLocation(
+  photo: Pick<Doc<"media">, "latitude" | "longitude">,
+  breakdown: Doc<"govtProjectBreakdowns"> | null
+): PhotoLocationCheck | null {
+  if (photo.latitude === undefined || photo.longitude === undefined) return null;
+
+  const area = getMunicipalityArea(breakdown?.municipality);
+  if (!breakdown?.municipality || !area) return null;
+
+  const distance = distanceKm(area.latitude, area.longitude, photo.latitude, photo.longitude);
+  return {
+    municipality: breakdown.municipality,
+    distanceKm: Math.round(distance * 10) / 10,
+    isFarFromSite: distance > area.radiusKm + getPhotoLocationTolerance(),
+  };
+}
+
+/**
+ * When the photo was taken, falling back to when it was uploaded
+ */
+export function getPhotoTimestamp(photo: Doc<"media">): number {
+  return photo.capturedAt ?? photo.uploadedAt;
+}
+
+/**
+ * Photos with storage URLs and a location check, in the order they were taken
+ */
+export async function toGalleryPhotos(ctx: QueryCtx, mediaFiles: Doc<"media">[]) {
+  const breakdowns = new Map<Id<"govtProjectBreakdowns">, Doc<"govtProjectBreakdowns"> | null>();
+  const getBreakdown = async (breakdownId: Id<"govtProjectBreakdowns">) => {
+    if (!breakdowns.has(breakdownId)) {
+      breakdowns.set(breakdownId, await ctx.db.get(breakdownId));
+    }
+    return breakdowns.get(breakdownId) ?? null;
+  };
+
+  const photos = await Promise.all(
+    mediaFiles.map(async (media) => {
+      const breakdown = media.breakdownId ? await getBreakdown(media.breakdownId) : null;
+      const url = await ctx.storage.getUrl(media.storageId);
+      const thumbnailUrl = media.thumbnailStorageId
+        ? await ctx.storage.getUrl(media.thumbnailStorageId)
+        : null;
+
+      return {
+        ...media,
+        url,
+        thumbnailUrl: thumbnailUrl ?? url,
+        takenAt: getPhotoTimestamp(media),
+        location: checkPhotoLocation(media, breakdown),
+      };
+    })
+  );
+
+  return photos.sort((a, b) => a.takenAt - b.takenAt || a.orderInSession - b.orderInSession);
+}
+
+/**
+ * Throw unless the upload session exists and was started by the user, so
+ * photos cannot be added to or claimed from someone else's upload
+ */
+export async function requireOwnUploadSession(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  sessionId: Id<"uploadSessions">
+): Promise<Doc<"uploadSessions">> {
+  const session = await ctx.db.get(sessionId);
+  if (!session || session.userId !== userId) {
+    throw new Error("Upload session not found");
+  }
+  return session;
+}
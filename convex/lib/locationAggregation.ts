@@ -0,0 +1,178 @@
+// convex/lib/locationAggregation.ts
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { getBreakdownYear } from "./agencyAggregation";
+import { DepartmentAccess, filterBreakdownsByDepartment } from "./departmentAccess";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+export interface LocationFilters {
+  year?: number;
+  fundSource?: string;
+  implementingOffice?: string;
+  district?: string;
+  municipality?: string;
+}
+
+/**
+ * Breakdown totals for one district, municipality or barangay
+ */
+export interface LocationSummary {
+  name: string;
+  /** Lower-cased name used to match map features ("Tarlac City" -> "tarlac") */
+  key: string;
+  count: number;
+  allocated: number;
+  utilized: number;
+  completed: number;
+  ongoing: number;
+  delayed: number;
+}
+
+/**
+ * Normalize a free-text location so spelling variants group together
+ */
+export function normalizeLocationKey(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/^(city of|municipality of)\s+/, "")
+    .replace(/\s+city$/, "")
+    .replace(/^sta\.?\s+/, "santa ")
+    .replace(/^sto\.?\s+/, "santo ")
+    .replace(/\s+/g, " ");
+}
+
+function emptySummary(name: string): LocationSummary {
+  return {
+    name: name.trim(),
+    key: normalizeLocationKey(name),
+    count: 0,
+    allocated: 0,
+    utilized: 0,
+    completed: 0,
+    ongoing: 0,
+    delayed: 0,
+  };
+}
+
+function addBreakdown(summary: LocationSummary, breakdown: Doc<"govtProjectBreakdowns">) {
+  summary.count++;
+  summary.allocated += breakdown.allocatedBudget || 0;
+  summary.utilized += breakdown.budgetUtilized || 0;
+  if (breakdown.status === "completed") summary.completed++;
+  else if (breakdown.status === "delayed") summary.delayed++;
+  else if (breakdown.status === "ongoing") summary.ongoing++;
+}
+
+function addToGroup(
+  groups: Map<string, LocationSummary>,
+  name: string,
+  breakdown: Doc<"govtProjectBreakdowns">
+) {
+  const key = normalizeLocationKey(name);
+  if (!groups.has(key)) groups.set(key, emptySummary(name));
+  addBreakdown(groups.get(key)!, breakdown);
+}
+
+function sortGroups(groups: Map<string, LocationSummary>) {
+  return [...groups.values()].sort((a, b) => b.allocated - a.allocated || a.name.localeCompare(b.name));
+}
+
+/**
+ * Active breakdowns in a district and/or municipality.
+ * Districts are read through the districtAndMunicipality index. Municipalities
+ * are matched by normalizeLocationKey, so spelling variants ("Tarlac City",
+ * "City of Tarlac", "Sta. Ignacia") and map feature names find the same rows.
+ */
+async function getScopedBreakdowns(ctx: QueryCtx, filters: LocationFilters) {
+  const { district, municipality } = filters;
+
+  const breakdowns =
+    district !== undefined
+      ? await ctx.db
+          .query("govtProjectBreakdowns")
+          .withIndex("districtAndMunicipality", (q) => q.eq("district", district))
+          .collect()
+      : await ctx.db.query("govtProjectBreakdowns").collect();
+
+  const municipalityKey = municipality !== undefined ? normalizeLocationKey(municipality) : undefined;
+  return breakdowns.filter(
+    (breakdown) =>
+      !breakdown.isDeleted &&
+      (municipalityKey === undefined ||
+        (breakdown.municipality !== undefined &&
+          normalizeLocationKey(breakdown.municipality) === municipalityKey))
+  );
+}
+
+/**
+ * Aggregate the breakdowns the user can access per district, municipality
+ * and barangay for the project map
+ */
+export async function buildLocationSummary(
+  ctx: QueryCtx,
+  access: DepartmentAccess,
+  filters: LocationFilters
+) {
+  const scoped = await filterBreakdownsByDepartment(
+    ctx,
+    access,
+    await getScopedBreakdowns(ctx, filters)
+  );
+
+  const projectCache = new Map<Id<"projects">, Doc<"projects"> | null>();
+  const inYear: Doc<"govtProjectBreakdowns">[] = [];
+  for (const breakdown of scoped) {
+    if (
+      filters.year === undefined ||
+      (await getBreakdownYear(ctx, breakdown, projectCache)) === filters.year
+    ) {
+      inYear.push(breakdown);
+    }
+  }
+
+  // Filter options come from the year scope so picking one never hides the others
+  const fundSources = new Set<string>();
+  const offices = new Set<string>();
+  for (const breakdown of inYear) {
+    if (breakdown.fundSource) fundSources.add(breakdown.fundSource);
+    offices.add(breakdown.implementingOffice);
+  }
+
+  const breakdowns = inYear.filter(
+    (breakdown) =>
+      (filters.fundSource === undefined || breakdown.fundSource === filters.fundSource) &&
+      (filters.implementingOffice === undefined ||
+        breakdown.implementingOffice === filters.implementingOffice)
+  );
+
+  const districts = new Map<string, LocationSummary>();
+  const municipalities = new Map<string, LocationSummary>();
+  const barangays = new Map<string, LocationSummary>();
+  const totals = emptySummary(filters.municipality ?? filters.district ?? "Province");
+  let unlocated = 0;
+
+  for (const breakdown of breakdowns) {
+    addBreakdown(totals, breakdown);
+    if (breakdown.district?.trim()) addToGroup(districts, breakdown.district, breakdown);
+    if (breakdown.municipality?.trim()) {
+      addToGroup(municipalities, breakdown.municipality, breakdown);
+    } else {
+      unlocated++;
+    }
+    if (filters.municipality !== undefined && breakdown.barangay?.trim()) {
+      addToGroup(barangays, breakdown.barangay, breakdown);
+    }
+  }
+
+  return {
+    totals,
+    districts: sortGroups(districts),
+    municipalities: sortGroups(municipalities),
+    barangays: sortGroups(barangays),
+    unlocated,
+    fundSources: [...fundSources].sort(),
+    offices: [...offices].sort(),
+  };
+}
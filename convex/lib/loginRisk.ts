@@ -0,0 +1,401 @@
+// convex/lib/loginRisk.ts
+// Login risk scoring. Each sign-in is compared against the user's history:
+// - impossible travel: distance from the last successful login over the time
+//   between them is faster than anyone can travel
+// - new device: browser/OS not seen for this user before
+// - unusual location: city never used by this user, or not one they trust
+//
+// What happens on high risk is set with the LOGIN_RISK_HIGH_ACTION environment
+// variable on the Convex deployment:
+// - "alert" (default): record the attempt and raise security alerts only
+// - "step_up": require the two-factor step for the session; accounts without
+//   two-factor cannot step up and are locked instead
+// - "lock": lock the account and end the session
+
+import { GenericMutationCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { revokeSession } from "./sessions";
+import { insertSecurityAlert } from "./notifications";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export const HIGH_RISK_SCORE = 70;
+export const MEDIUM_RISK_SCORE = 40;
+
+/** Faster than a commercial flight, including airport time */
+export const IMPOSSIBLE_TRAVEL_SPEED_KMH = 800;
+
+/** GeoIP places nearby addresses in neighbouring cities; ignore short hops */
+const MIN_TRAVEL_DISTANCE_KM = 150;
+
+const FAILED_ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+const FAILED_LOGIN_LOCK_PATTERN = /^Account locked after \d+ failed login attempts$/;
+
+const RISK_WEIGHTS = {
+  failed_attempt: 20,
+  multiple_failed_attempts: 30,
+  unknown_user: 10,
+  impossible_travel: 60,
+  new_device: 20,
+  unusual_location: 25,
+  trusted_device: -15,
+  trusted_location: -15,
+};
+
+export type RiskFactor =
+  | "multiple_failed_attempts"
+  | "unknown_user"
+  | "impossible_travel"
+  | "new_device"
+  | "unusual_location";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export type HighRiskAction = "alert" | "step_up" | "lock";
+
+export interface LoginGeoLocation {
+  city: string;
+  region: string;
+  country: string;
+  coordinates?: { lat: number; lng: number };
+}
+
+export interface TravelDetails {
+  fromCity: string;
+  fromCountry: string;
+  toCity: string;
+  toCountry: string;
+  distanceKm: number;
+  hours: number;
+  speedKmh: number;
+}
+
+export interface LoginRiskAssessment {
+  riskScore: number;
+  riskFactors: RiskFactor[];
+  level: RiskLevel;
+  travel?: TravelDetails;
+}
+
+export function getHighRiskAction(): HighRiskAction {
+  const action = process.env.LOGIN_RISK_HIGH_ACTION;
+  return action === "step_up" || action === "lock" ? action : "alert";
+}
+
+export function getRiskLevel(riskScore: number): RiskLevel {
+  if (riskScore >= HIGH_RISK_SCORE) return "high";
+  if (riskScore >= MEDIUM_RISK_SCORE) return "medium";
+  return "low";
+}
+
+/**
+ * Fingerprint of the browser/OS. The IP address is left out so the same
+ * laptop on a different network is still the same device.
+ */
+export function generateDeviceFingerprint(userAgent?: string): string {
+  const data = userAgent || "unknown";
+  let hash = 0;
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return `fp_${Math.abs(hash).toString(36)}`;
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function haversineDistanceKm(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function parseStoredGeoLocation(json?: string): LoginGeoLocation | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+function getStoredUserAgent(browserInfo: string) {
+  try {
+    return (JSON.parse(browserInfo) as { userAgent?: string }).userAgent;
+  } catch {
+    return undefined;
+  }
+}
+
+// How far back to look for a successful login with a known position
+const TRAVEL_HISTORY_LIMIT = 20;
+
+/**
+ * Lock reason for too many wrong passwords
+ */
+export function getFailedLoginLockReason(failedCount: number) {
+  return `Account locked after ${failedCount} failed login attempts`;
+}
+
+/**
+ * Whether the account is locked only for wrong passwords, which a password
+ * reset resolves; risk, two-factor and administrator locks are not
+ */
+export function isFailedLoginLock(user: Doc<"users">) {
+  return !!user.isLocked && FAILED_LOGIN_LOCK_PATTERN.test(user.lockReason ?? "");
+}
+
+/**
+ * Compare against the user's last successful login with a known position
+ */
+async function checkTravel(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  geoLocation: LoginGeoLocation,
+  now: number
+): Promise<TravelDetails | undefined> {
+  if (!geoLocation.coordinates) return undefined;
+
+  const recent = await ctx.db
+    .query("loginAttempts")
+    .withIndex("userAndStatus", (q) => q.eq("userId", userId).eq("status", "success"))
+    .order("desc")
+    .take(TRAVEL_HISTORY_LIMIT);
+
+  const previous = recent.find(
+    (attempt) => parseStoredGeoLocation(attempt.geoLocation)?.coordinates
+  );
+  const previousLocation = parseStoredGeoLocation(previous?.geoLocation);
+  if (!previous || !previousLocation?.coordinates) return undefined;
+
+  const distanceKm = haversineDistanceKm(previousLocation.coordinates, geoLocation.coordinates);
+  if (distanceKm < MIN_TRAVEL_DISTANCE_KM) return undefined;
+
+  // Floor at one minute so back-to-back logins don't divide by zero
+  const hours = Math.max(now - previous.timestamp, 60 * 1000) / (60 * 60 * 1000);
+  const speedKmh = distanceKm / hours;
+
+  if (speedKmh <= IMPOSSIBLE_TRAVEL_SPEED_KMH) return undefined;
+
+  return {
+    fromCity: previousLocation.city,
+    fromCountry: previousLocation.country,
+    toCity: geoLocation.city,
+    toCountry: geoLocation.country,
+    distanceKm: Math.round(distanceKm),
+    hours: Math.round(hours * 100) / 100,
+    speedKmh: Math.round(speedKmh),
+  };
+}
+
+/**
+ * Score a login attempt. Call before the attempt itself is recorded and
+ * before device / location history is updated with it.
+ */
+export async function assessLoginRisk(
+  ctx: MutationCtx,
+  args: {
+    user: Doc<"users"> | null;
+    succeeded: boolean;
+    userAgent?: string;
+    geoLocation: LoginGeoLocation | null;
+    now: number;
+  }
+): Promise<LoginRiskAssessment> {
+  const { user, geoLocation, now } = args;
+  let riskScore = args.succeeded ? 0 : RISK_WEIGHTS.failed_attempt;
+  const riskFactors: RiskFactor[] = [];
+  let travel: TravelDetails | undefined;
+
+  if (!user) {
+    riskScore += RISK_WEIGHTS.unknown_user;
+    riskFactors.push("unknown_user");
+    return { riskScore, riskFactors, level: getRiskLevel(riskScore) };
+  }
+
+  // Repeated failures in the last hour
+  const recentFailedAttempts = await ctx.db
+    .query("loginAttempts")
+    .withIndex("userAndStatus", (q) => q.eq("userId", user._id).eq("status", "failed"))
+    .order("desc")
+    .take(10);
+
+  const recentFailedCount = recentFailedAttempts.filter(
+    (a) => a.timestamp > now - FAILED_ATTEMPT_WINDOW_MS
+  ).length;
+
+  if (recentFailedCount > 3) {
+    riskScore += RISK_WEIGHTS.multiple_failed_attempts;
+    riskFactors.push("multiple_failed_attempts");
+  }
+
+  // Known devices; the very first device of an account is not "new"
+  const knownDevices = await ctx.db
+    .query("deviceFingerprints")
+    .withIndex("userId", (q) => q.eq("userId", user._id))
+    .collect();
+
+  if (knownDevices.length > 0) {
+    const fingerprint = generateDeviceFingerprint(args.userAgent);
+    const device = knownDevices.find(
+      (d) =>
+        d.fingerprint === fingerprint ||
+        (args.userAgent !== undefined && getStoredUserAgent(d.browserInfo) === args.userAgent)
+    );
+
+    if (!device) {
+      riskScore += RISK_WEIGHTS.new_device;
+      riskFactors.push("new_device");
+    } else if (device.isTrusted) {
+      riskScore += RISK_WEIGHTS.trusted_device;
+    }
+  }
+
+  if (geoLocation && geoLocation.city !== "Unknown" && geoLocation.country !== "Unknown") {
+    const knownLocations = await ctx.db
+      .query("loginLocations")
+      .withIndex("userId", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const location = knownLocations.find(
+      (loc) => loc.city === geoLocation.city && loc.country === geoLocation.country
+    );
+
+    if (!location && knownLocations.length > 0) {
+      riskScore += RISK_WEIGHTS.unusual_location;
+      riskFactors.push("unusual_location");
+    } else if (location?.isTrusted) {
+      riskScore += RISK_WEIGHTS.trusted_location;
+    }
+
+    travel = await checkTravel(ctx, user._id, geoLocation, now);
+    if (travel) {
+      riskScore += RISK_WEIGHTS.impossible_travel;
+      riskFactors.push("impossible_travel");
+    }
+  }
+
+  riskScore = Math.min(100, Math.max(0, riskScore));
+  return { riskScore, riskFactors, level: getRiskLevel(riskScore), travel };
+}
+
+/**
+ * One security alert per detected factor, so each shows up in the alert list
+ * under its own type
+ */
+export async function raiseLoginRiskAlerts(
+  ctx: MutationCtx,
+  args: {
+    user: Doc<"users">;
+    loginAttemptId: Id<"loginAttempts">;
+    assessment: LoginRiskAssessment;
+    ipAddress: string;
+    geoLocation: LoginGeoLocation | null;
+    succeeded: boolean;
+  }
+) {
+  const { user, assessment, geoLocation } = args;
+  const now = Date.now();
+  const email = user.email || "unknown";
+  const where = geoLocation ? `${geoLocation.city}, ${geoLocation.country}` : args.ipAddress;
+  const outcome = args.succeeded ? "Login" : "Failed login";
+  const metadata = JSON.stringify({
+    riskScore: assessment.riskScore,
+    riskFactors: assessment.riskFactors,
+    ipAddress: args.ipAddress,
+    geoLocation,
+    travel: assessment.travel,
+  });
+
+  const alert = {
+    userId: user._id,
+    loginAttemptId: args.loginAttemptId,
+    metadata,
+    status: "open" as const,
+    createdAt: now,
+  };
+
+  if (assessment.travel) {
+    const { travel } = assessment;
+    await insertSecurityAlert(ctx, {
+      ...alert,
+      type: "impossible_travel",
+      severity: args.succeeded ? "critical" : "high",
+      title: "Impossible Travel Detected",
+      description: `${outcome} for ${email} from ${travel.toCity}, ${travel.toCountry}, ${travel.distanceKm} km from the previous login in ${travel.fromCity}, ${travel.fromCountry} ${travel.hours} hour(s) earlier (${travel.speedKmh} km/h).`,
+    });
+  }
+
+  if (assessment.riskFactors.includes("new_device")) {
+    await insertSecurityAlert(ctx, {
+      ...alert,
+      type: "new_device",
+      severity: assessment.level === "high" ? "high" : assessment.level === "medium" ? "medium" : "low",
+      title: "Login From New Device",
+      description: `${outcome} for ${email} from a device not seen before (${where}).`,
+    });
+  }
+
+  if (assessment.riskFactors.includes("unusual_location")) {
+    await insertSecurityAlert(ctx, {
+      ...alert,
+      type: "unusual_location",
+      severity: assessment.level === "high" ? "high" : "medium",
+      title: "Login From Unusual Location",
+      description: `${outcome} for ${email} from ${where}, where this account has not signed in before.`,
+    });
+  }
+}
+
+/**
+ * Lock the account after a high-risk login and end the session it created
+ */
+export async function lockForLoginRisk(
+  ctx: MutationCtx,
+  args: {
+    user: Doc<"users">;
+    loginAttemptId: Id<"loginAttempts">;
+    sessionId: Id<"authSessions"> | null;
+    assessment: LoginRiskAssessment;
+  }
+) {
+  const { user, sessionId } = args;
+  const now = Date.now();
+
+  await ctx.db.patch(user._id, {
+    isLocked: true,
+    lockReason: `Account locked after a high-risk login (${args.assessment.riskFactors.join(", ")})`,
+    lockedAt: now,
+    updatedAt: now,
+  });
+
+  if (sessionId) {
+    await revokeSession(ctx, sessionId);
+  }
+
+  await insertSecurityAlert(ctx, {
+    type: "account_locked",
+    severity: "high",
+    userId: user._id,
+    loginAttemptId: args.loginAttemptId,
+    title: "Account Locked - High-Risk Login",
+    description: `Account ${user.email || "unknown"} has been locked after a login with risk score ${args.assessment.riskScore}.`,
+    metadata: JSON.stringify({
+      riskScore: args.assessment.riskScore,
+      riskFactors: args.assessment.riskFactors,
+      travel: args.assessment.travel,
+    }),
+    status: "open",
+    createdAt: now,
+  });
+}
@@ -0,0 +1,91 @@
+// convex/lib/mailer.ts
+// Outgoing email. Only usable from actions (providers call fetch).
+//
+// Pick the provider with the MAIL_PROVIDER environment variable:
+// - "console" (default): print the message to the Convex logs, for development
+// - "mailpit": deliver to a local Mailpit SMTP catcher through its HTTP API (MAILPIT_URL)
+// - "resend": send through Resend (RESEND_API_KEY)
+// MAIL_FROM sets the sender address for real providers.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "PPDO Tarlac <no-reply@ppdo.local>";
+
+const consoleMailer: Mailer = {
+  async send(message) {
+    console.log(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  },
+};
+
+function createMailpitMailer(baseUrl: string, from: string): Mailer {
+  return {
+    async send(message) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/api/v1/send`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          From: { Email: from },
+          To: [{ Email: message.to }],
+          Subject: message.subject,
+          Text: message.text,
+          HTML: message.html,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Mailpit rejected the message (${response.status})`);
+      }
+    },
+  };
+}
+
+function createResendMailer(apiKey: string, from: string): Mailer {
+  return {
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Resend rejected the message (${response.status}): ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/**
+ * Mailer for the configured provider
+ */
+export function getMailer(): Mailer {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+
+  switch (process.env.MAIL_PROVIDER) {
+    case "mailpit":
+      return createMailpitMailer(process.env.MAILPIT_URL || "http://localhost:8025", from);
+    case "resend": {
+      const apiKey = process.env.RESEND_API_KEY;
+      if (!apiKey) throw new Error("RESEND_API_KEY is not set");
+      return createResendMailer(apiKey, from);
+    }
+    default:
+      return consoleMailer;
+  }
+}
@@ -0,0 +1,210 @@
+// convex/lib/notifications.ts
+// Producers for the in-app notification center. Each event goes to a set of
+// recipients, skipping anyone who turned the event off in their preferences
+// (the "notifications" key of users.preferences).
+
+import { GenericMutationCtx, GenericQueryCtx, WithoutSystemFields } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export type NotificationEvent = Doc<"notifications">["event"];
+
+export const NOTIFICATION_EVENTS: readonly {
+  key: NotificationEvent;
+  label: string;
+  description: string;
+  /**
+   * Who receives the event: super admins, administrators, or the people
+   * a record belongs to
+   */
+  audience: "super_admins" | "admins" | "owners";
+}[] = [
+  {
+    key: "access_request",
+    label: "Access requests",
+    description: "Someone in your department asks for access to a page",
+    audience: "admins",
+  },
+  {
+    key: "password_reset_request",
+    label: "Password reset requests",
+    description: "A user asks an administrator to reset their password",
+    audience: "admins",
+  },
+  {
+    key: "security_alert",
+    label: "Security alerts",
+    description: "Suspicious sign-ins, lockouts and other security alerts",
+    audience: "admins",
+  },
+  {
+    key: "project_delayed",
+    label: "Delayed projects",
+    description: "A project you created or manage becomes delayed",
+    audience: "owners",
+  },
+  {
+    key: "bug_report",
+    label: "Bug reports",
+    description: "A new bug report is submitted",
+    audience: "super_admins",
+  },
+  {
+    key: "suggestion",
+    label: "Suggestions",
+    description: "A new suggestion is submitted",
+    audience: "super_admins",
+  },
+];
+
+interface NotificationInput {
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  link?: string;
+  actorId?: Id<"users">;
+}
+
+function parsePreferences(user: Doc<"users">): Record<string, unknown> {
+  if (!user.preferences) return {};
+  try {
+    const parsed = JSON.parse(user.preferences);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Which events the user receives. Every event is on until turned off.
+ */
+export function getNotificationSubscriptions(
+  user: Doc<"users">
+): Record<NotificationEvent, boolean> {
+  const stored = (parsePreferences(user).notifications ?? {}) as Partial<
+    Record<NotificationEvent, boolean>
+  >;
+  return Object.fromEntries(
+    NOTIFICATION_EVENTS.map((event) => [event.key, stored[event.key] !== false])
+  ) as Record<NotificationEvent, boolean>;
+}
+
+/**
+ * users.preferences with one event subscription changed, keeping other preferences
+ */
+export function withNotificationSubscription(
+  user: Doc<"users">,
+  event: NotificationEvent,
+  subscribed: boolean
+): string {
+  const preferences = parsePreferences(user);
+  return JSON.stringify({
+    ...preferences,
+    notifications: {
+      ...getNotificationSubscriptions(user),
+      [event]: subscribed,
+    },
+  });
+}
+
+/**
+ * Send a notification to each user who is active and subscribed to the
+ * event. The user who caused the event is never notified about it.
+ */
+export async function notifyUsers(
+  ctx: MutationCtx,
+  userIds: Id<"users">[],
+  notification: NotificationInput
+): Promise<number> {
+  const now = Date.now();
+  let sent = 0;
+
+  for (const userId of new Set(userIds)) {
+    if (userId === notification.actorId) continue;
+
+    const user = await ctx.db.get(userId);
+    if (!user || (user.status && user.status !== "active")) continue;
+    if (!getNotificationSubscriptions(user)[notification.event]) continue;
+
+    await ctx.db.insert("notifications", {
+      userId,
+      event: notification.event,
+      title: notification.title,
+      message: notification.message,
+      link: notification.link,
+      actorId: notification.actorId,
+      isRead: false,
+      isArchived: false,
+      createdAt: now,
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Super admins, plus admins (of one department when departmentId is given)
+ */
+export async function getAdminRecipients(
+  ctx: QueryCtx | MutationCtx,
+  options: { includeAdmins: boolean; departmentId?: Id<"departments"> }
+): Promise<Id<"users">[]> {
+  const superAdmins = await ctx.db
+    .query("users")
+    .withIndex("role", (q) => q.eq("role", "super_admin"))
+    .collect();
+  const recipients = superAdmins.map((user) => user._id);
+
+  if (options.includeAdmins) {
+    const departmentId = options.departmentId;
+    const admins = departmentId
+      ? await ctx.db
+          .query("users")
+          .withIndex("departmentAndRole", (q) =>
+            q.eq("departmentId", departmentId).eq("role", "admin")
+          )
+          .collect()
+      : await ctx.db
+          .query("users")
+          .withIndex("role", (q) => q.eq("role", "admin"))
+          .collect();
+    recipients.push(...admins.map((user) => user._id));
+  }
+
+  return recipients;
+}
+
+export async function notifyAdmins(
+  ctx: MutationCtx,
+  notification: NotificationInput,
+  options: { includeAdmins: boolean; departmentId?: Id<"departments"> } = {
+    includeAdmins: true,
+  }
+): Promise<number> {
+  return await notifyUsers(ctx, await getAdminRecipients(ctx, options), notification);
+}
+
+/**
+ * Record a security alert and notify administrators.
+ * Low-severity alerts stay on the security dashboard only.
+ */
+export async function insertSecurityAlert(
+  ctx: MutationCtx,
+  alert: WithoutSystemFields<Doc<"securityAlerts">>
+): Promise<Id<"securityAlerts">> {
+  const alertId = await ctx.db.insert("securityAlerts", alert);
+
+  if (alert.severity !== "low") {
+    await notifyAdmins(ctx, {
+      event: "security_alert",
+      title: alert.title,
+      message: alert.description,
+      link: "/dashboard",
+    });
+  }
+
+  return alertId;
+}
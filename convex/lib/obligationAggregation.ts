@@ -0,0 +1,95 @@
+// convex/lib/obligationAggregation.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+export type ObligationStatus = NonNullable<Doc<"obligations">["status"]>;
+
+/**
+ * Resolve the effective status. Legacy rows without a status were never
+ * posted through the ledger, so they are drafts: they do not count toward
+ * project figures until someone completes and posts them.
+ */
+export function getObligationStatus(obligation: Doc<"obligations">): ObligationStatus {
+  return obligation.status ?? "draft";
+}
+
+/**
+ * Posted entries are the ones that count toward project figures
+ */
+export function isPostedObligation(obligation: Doc<"obligations">): boolean {
+  const status = getObligationStatus(obligation);
+  return status === "obligated" || status === "disbursed";
+}
+
+/**
+ * Sum the obligation ledger of a project.
+ * - obligated: amount of every posted (obligated or disbursed) entry
+ * - disbursed: paid vouchers of posted entries
+ * - hasPostedEntries: whether the ledger should drive the project's figures
+ */
+export async function getProjectObligationTotals(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">
+) {
+  const obligations = await ctx.db
+    .query("obligations")
+    .withIndex("projectId", (q) => q.eq("projectId", projectId))
+    .collect();
+
+  const posted = obligations.filter(isPostedObligation);
+
+  let obligated = 0;
+  let disbursed = 0;
+  for (const obligation of posted) {
+    obligated += obligation.amount;
+    disbursed += obligation.disbursedAmount || 0;
+  }
+
+  return {
+    hasPostedEntries: posted.length > 0,
+    postedCount: posted.length,
+    obligated,
+    disbursed,
+  };
+}
+
+/**
+ * Recompute an obligation's disbursed amount from its paid vouchers and
+ * move it between "obligated" and "disbursed" accordingly.
+ */
+export async function recalculateObligationDisbursement(
+  ctx: MutationCtx,
+  obligationId: Id<"obligations">,
+  userId: Id<"users">
+) {
+  const obligation = await ctx.db.get(obligationId);
+  if (!obligation) throw new Error("Obligation not found");
+
+  const vouchers = await ctx.db
+    .query("disbursementVouchers")
+    .withIndex("obligationId", (q) => q.eq("obligationId", obligationId))
+    .collect();
+
+  const disbursedAmount = vouchers
+    .filter((dv) => dv.status === "paid")
+    .reduce((sum, dv) => sum + dv.amount, 0);
+
+  const currentStatus = getObligationStatus(obligation);
+  let status: ObligationStatus = currentStatus;
+  if (currentStatus === "obligated" || currentStatus === "disbursed") {
+    // Fully paid (within a centavo) means the obligation is disbursed
+    status = disbursedAmount >= obligation.amount - 0.005 ? "disbursed" : "obligated";
+  }
+
+  await ctx.db.patch(obligationId, {
+    disbursedAmount,
+    status,
+    updatedAt: Date.now(),
+    updatedBy: userId,
+  });
+
+  return { disbursedAmount, status };
+}
@@ -2,6 +2,7 @@
 
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
+import { appendToAuditChain } from "./auditChain";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -78,6 +79,23 @@ export async function logParticularActivity(
       timestamp: Date.now(),
       reason: config.reason,
     });
+
+    // Without a table of its own the entry is kept in the audit chain itself
+    await appendToAuditChain(ctx, {
+      source: "projectParticularActivities",
+      action: config.action,
+      performedBy: userId,
+      payload: {
+        particularId: config.particularId,
+        code: particularData.code || "Unknown",
+        fullName: particularData.fullName || "Unknown Particular",
+        previousValues: config.previousValues,
+        newValues: config.newValues,
+        changedFields,
+        changeSummary,
+        reason: config.reason,
+      },
+    });
     
     // TODO: When projectParticularActivities table is added, uncomment:
     // await ctx.db.insert("projectParticularActivities", {
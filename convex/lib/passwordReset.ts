@@ -0,0 +1,190 @@
+// convex/lib/passwordReset.ts
+import { GenericMutationCtx } from "convex/server";
+import { DataModel } from "../_generated/dataModel";
+import { getActiveEmailBlock, getActiveIPBlock } from "./blocklist";
+import { insertSecurityAlert } from "./notifications";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+export const MAX_REQUESTS_PER_EMAIL_PER_DAY = 3;
+export const MAX_REQUESTS_PER_IP_PER_DAY = 10;
+export const REQUEST_COOLDOWN_MS = 60 * 1000;
+
+export function getDateKey(timestamp: number) {
+  return new Date(timestamp).toISOString().split("T")[0]; // YYYY-MM-DD
+}
+
+/**
+ * 256-bit random token, base64url encoded for use in a link
+ */
+export function generateResetToken() {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export async function hashResetToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Same rules as the admin reset form
+ */
+export function validatePasswordStrength(password: string) {
+  if (password.length < 8) {
+    throw new Error("Password must be at least 8 characters long");
+  }
+
+  const hasUppercase = /[A-Z]/.test(password);
+  const hasLowercase = /[a-z]/.test(password);
+  const hasNumber = /[0-9]/.test(password);
+  const hasSymbol = /[!@#$%^&*]/.test(password);
+
+  if (!hasUppercase || !hasLowercase || !hasNumber || !hasSymbol) {
+    throw new Error(
+      "Password must contain at least one uppercase letter, lowercase letter, number, and symbol (!@#$%^&*)"
+    );
+  }
+}
+
+/**
+ * Reject requests from IPs or emails an administrator has blocked
+ */
+export async function assertNotBlocked(ctx: MutationCtx, email: string, ipAddress: string) {
+  if (await getActiveIPBlock(ctx, ipAddress)) {
+    throw new Error("Password reset requests from your network have been blocked. Please contact your administrator.");
+  }
+
+  if (await getActiveEmailBlock(ctx, email)) {
+    throw new Error("Password reset is not available for this account. Please contact your administrator.");
+  }
+}
+
+/**
+ * Enforce the per-email and per-IP daily limits, then count this request.
+ * Shared by the emailed link and the admin approval queue.
+ */
+export async function recordResetAttempt(ctx: MutationCtx, email: string, ipAddress: string) {
+  const now = Date.now();
+  const todayKey = getDateKey(now);
+
+  const attemptRecord = await ctx.db
+    .query("passwordResetAttempts")
+    .withIndex("emailAndDate", (q) => q.eq("email", email).eq("dateKey", todayKey))
+    .first();
+
+  if (attemptRecord && attemptRecord.attemptCount >= MAX_REQUESTS_PER_EMAIL_PER_DAY) {
+    throw new Error("You have reached the maximum number of password reset requests for today. Please try again tomorrow.");
+  }
+
+  if (attemptRecord && now - attemptRecord.lastAttemptAt < REQUEST_COOLDOWN_MS) {
+    const remainingSeconds = Math.ceil((REQUEST_COOLDOWN_MS - (now - attemptRecord.lastAttemptAt)) / 1000);
+    throw new Error(`Please wait ${remainingSeconds} seconds before submitting another request.`);
+  }
+
+  const ipRecord = await ctx.db
+    .query("passwordResetIpAttempts")
+    .withIndex("ipAddressAndDate", (q) => q.eq("ipAddress", ipAddress).eq("dateKey", todayKey))
+    .first();
+
+  if (ipRecord && ipRecord.attemptCount >= MAX_REQUESTS_PER_IP_PER_DAY) {
+    throw new Error("Too many password reset requests from your network today. Please try again tomorrow.");
+  }
+
+  if (attemptRecord) {
+    const ipAddresses: string[] = attemptRecord.ipAddresses
+      ? JSON.parse(attemptRecord.ipAddresses)
+      : [];
+    if (!ipAddresses.includes(ipAddress)) {
+      ipAddresses.push(ipAddress);
+    }
+
+    await ctx.db.patch(attemptRecord._id, {
+      attemptCount: attemptRecord.attemptCount + 1,
+      lastAttemptAt: now,
+      ipAddresses: JSON.stringify(ipAddresses),
+    });
+  } else {
+    await ctx.db.insert("passwordResetAttempts", {
+      email,
+      dateKey: todayKey,
+      attemptCount: 1,
+      lastAttemptAt: now,
+      ipAddresses: JSON.stringify([ipAddress]),
+    });
+  }
+
+  if (ipRecord) {
+    const emails: string[] = ipRecord.emails ? JSON.parse(ipRecord.emails) : [];
+    if (!emails.includes(email)) {
+      emails.push(email);
+    }
+    const attemptCount = ipRecord.attemptCount + 1;
+
+    await ctx.db.patch(ipRecord._id, {
+      attemptCount,
+      lastAttemptAt: now,
+      emails: JSON.stringify(emails),
+    });
+
+    // Flag the IP once, when it reaches the limit, so an admin can block it
+    if (attemptCount === MAX_REQUESTS_PER_IP_PER_DAY) {
+      await insertSecurityAlert(ctx, {
+        type: "brute_force_attempt",
+        severity: "medium",
+        title: "Password Reset Limit Reached",
+        description: `IP address ${ipAddress} made ${attemptCount} password reset requests today for ${emails.length} email address(es).`,
+        metadata: JSON.stringify({ ipAddress, emails }),
+        status: "open",
+        createdAt: now,
+      });
+    }
+  } else {
+    await ctx.db.insert("passwordResetIpAttempts", {
+      ipAddress,
+      dateKey: todayKey,
+      attemptCount: 1,
+      lastAttemptAt: now,
+      emails: JSON.stringify([email]),
+    });
+  }
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function buildPasswordResetEmail(args: { name?: string; resetUrl: string }) {
+  const greeting = args.name ? `Hello ${args.name},` : "Hello,";
+  const minutes = RESET_TOKEN_TTL_MS / 60000;
+
+  const text = [
+    greeting,
+    "",
+    "We received a request to reset your PPDO account password. Open the link below to choose a new one:",
+    "",
+    args.resetUrl,
+    "",
+    `The link expires in ${minutes} minutes and can be used once.`,
+    "If you did not request this, you can ignore this email; your password will not change.",
+  ].join("\n");
+
+  const html = `<p>${escapeHtml(greeting)}</p>
+<p>We received a request to reset your PPDO account password. Click the button below to choose a new one:</p>
+<p><a href="${escapeHtml(args.resetUrl)}" style="display:inline-block;padding:10px 20px;background:#15803d;color:#ffffff;border-radius:8px;text-decoration:none">Reset password</a></p>
+<p>The link expires in ${minutes} minutes and can be used once.</p>
+<p>If you did not request this, you can ignore this email; your password will not change.</p>`;
+
+  return { subject: "Reset your PPDO password", text, html };
+}
@@ -0,0 +1,451 @@
+// convex/lib/permissionCatalogue.ts
+// Every permission key enforced in code, with the roles that hold it until
+// a super admin changes the role/permission matrix. Seeded into the
+// permissions table by init/seedPermissionCatalogue.ts.
+
+import { BUDGET_ADJUSTMENT_PERMISSIONS } from "./budgetAdjustments";
+
+/**
+ * Roles shown as columns in the matrix; super_admin holds every permission
+ */
+export const CONFIGURABLE_ROLES = ["admin", "inspector", "user"] as const;
+export type ConfigurableRole = (typeof CONFIGURABLE_ROLES)[number];
+
+export const PERMISSIONS = {
+  budget: {
+    view: "budget.view",
+    create: "budget.create",
+    edit: "budget.edit",
+    trash: "budget.trash",
+    delete: "budget.delete",
+    bulkEdit: "budget.bulk_edit",
+    recalculate: "budget.recalculate",
+  },
+  project: {
+    view: "project.view",
+    create: "project.create",
+    edit: "project.edit",
+    trash: "project.trash",
+    delete: "project.delete",
+    bulkEdit: "project.bulk_edit",
+    recalculateAll: "project.recalculate_all",
+  },
+  obligation: {
+    manage: "obligation.manage",
+  },
+  breakdown: {
+    view: "breakdown.view",
+    create: "breakdown.create",
+    edit: "breakdown.edit",
+    trash: "breakdown.trash",
+    delete: "breakdown.delete",
+    bulkImport: "breakdown.bulk_import",
+    bulkEdit: "breakdown.bulk_edit",
+    export: "breakdown.export",
+    recalculate: "breakdown.recalculate",
+  },
+  trustFund: {
+    view: "trustfund.view",
+    create: "trustfund.create",
+    edit: "trustfund.edit",
+    trash: "trustfund.trash",
+    delete: "trustfund.delete",
+    bulkEdit: "trustfund.bulk_edit",
+  },
+  user: {
+    manage: "user.manage",
+  },
+  role: {
+    manage: "role.manage",
+  },
+  access: {
+    manage: "access.manage",
+  },
+  security: {
+    manage: "security.manage",
+  },
+  department: {
+    manage: "department.manage",
+  },
+  category: {
+    manage: "category.manage",
+  },
+  activity: {
+    review: "activity.review",
+    rollback: "activity.rollback",
+  },
+  fiscalYear: {
+    manage: "fiscal_year.manage",
+  },
+  media: {
+    moderate: "media.moderate",
+  },
+} as const;
+
+/**
+ * Categories whose rows belong to a department. Department-scoped role
+ * assignments only grant permissions in these, and only for rows of the
+ * assignment's department (see lib/departmentAccess.ts).
+ */
+const DEPARTMENT_SCOPED_CATEGORIES = ["projects", "breakdowns", "trustFunds"];
+
+export interface PermissionDefinition {
+  key: string;
+  name: string;
+  description: string;
+  category: string;
+  /**
+   * Roles granted the permission when no role grant has been configured
+   */
+  defaultRoles: readonly ConfigurableRole[];
+}
+
+const EVERYONE: readonly ConfigurableRole[] = CONFIGURABLE_ROLES;
+const ADMINS: readonly ConfigurableRole[] = ["admin"];
+const NOBODY: readonly ConfigurableRole[] = [];
+
+export const PERMISSION_CATALOGUE: readonly PermissionDefinition[] = [
+  // Budgets
+  {
+    key: PERMISSIONS.budget.view,
+    name: "View Budget Items",
+    description: "See budget items, their statistics and the budget trash",
+    category: "budgets",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.budget.create,
+    name: "Create Budget Items",
+    description: "Add new budget items",
+    category: "budgets",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.budget.edit,
+    name: "Edit Budget Items",
+    description: "Edit budget items, pin them and toggle auto-calculation",
+    category: "budgets",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.budget.trash,
+    name: "Trash Budget Items",
+    description: "Move budget items to trash and restore them",
+    category: "budgets",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.budget.delete,
+    name: "Delete Budget Items",
+    description: "Permanently delete budget items they created",
+    category: "budgets",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.budget.bulkEdit,
+    name: "Bulk Edit Budget Items",
+    description: "Trash or toggle auto-calculation on many budget items at once",
+    category: "budgets",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.budget.recalculate,
+    name: "Recalculate Budget Items",
+    description: "Recompute budget item totals from their projects",
+    category: "budgets",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: BUDGET_ADJUSTMENT_PERMISSIONS.submit,
+    name: "Submit Budget Adjustments",
+    description: "Draft and submit supplemental budget and realignment requests",
+    category: "budgets",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: BUDGET_ADJUSTMENT_PERMISSIONS.review,
+    name: "Review Budget Adjustments",
+    description: "Review submitted supplemental budget and realignment requests",
+    category: "budgets",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: BUDGET_ADJUSTMENT_PERMISSIONS.approve,
+    name: "Approve Budget Adjustments",
+    description: "Approve reviewed requests, which changes budget item allocations",
+    category: "budgets",
+    defaultRoles: ADMINS,
+  },
+
+  // Projects
+  {
+    key: PERMISSIONS.project.view,
+    name: "View Projects",
+    description: "See projects and the project trash",
+    category: "projects",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.project.create,
+    name: "Create Projects",
+    description: "Add new projects under a budget item",
+    category: "projects",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.project.edit,
+    name: "Edit Projects",
+    description: "Edit projects, pin them and toggle auto-calculation",
+    category: "projects",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.project.trash,
+    name: "Trash Projects",
+    description: "Move projects to trash and restore them",
+    category: "projects",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.project.delete,
+    name: "Delete Projects",
+    description: "Permanently delete projects they created",
+    category: "projects",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.project.bulkEdit,
+    name: "Bulk Edit Projects",
+    description: "Trash, recategorize or toggle auto-calculation on many projects at once",
+    category: "projects",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.project.recalculateAll,
+    name: "Recalculate All Projects",
+    description: "Recompute every project's totals from its breakdowns",
+    category: "projects",
+    defaultRoles: NOBODY,
+  },
+  {
+    key: PERMISSIONS.obligation.manage,
+    name: "Manage Obligations",
+    description: "Record, post and cancel project obligations and their disbursement vouchers",
+    category: "projects",
+    defaultRoles: EVERYONE,
+  },
+
+  // Project breakdowns
+  {
+    key: PERMISSIONS.breakdown.view,
+    name: "View Breakdowns",
+    description: "See project breakdowns, their statistics and the breakdown trash",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.create,
+    name: "Create Breakdowns",
+    description: "Add breakdown rows one at a time",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.edit,
+    name: "Edit Breakdowns",
+    description: "Edit breakdown rows",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.trash,
+    name: "Trash Breakdowns",
+    description: "Move breakdowns to trash and restore them",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.delete,
+    name: "Delete Breakdowns",
+    description: "Permanently delete breakdowns",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.bulkImport,
+    name: "Import Breakdowns",
+    description: "Validate and import breakdowns in bulk from a spreadsheet",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.bulkEdit,
+    name: "Bulk Edit Breakdowns",
+    description: "Update or delete many breakdowns at once",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.export,
+    name: "Export Breakdowns",
+    description: "Export breakdown tables",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.breakdown.recalculate,
+    name: "Recalculate Project from Breakdowns",
+    description: "Recompute a project's totals from its breakdowns",
+    category: "breakdowns",
+    defaultRoles: EVERYONE,
+  },
+
+  // Trust funds
+  {
+    key: PERMISSIONS.trustFund.view,
+    name: "View Trust Funds",
+    description: "See trust funds, their statistics and the trust fund trash",
+    category: "trustFunds",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.trustFund.create,
+    name: "Create Trust Funds",
+    description: "Add new trust funds",
+    category: "trustFunds",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.trustFund.edit,
+    name: "Edit Trust Funds",
+    description: "Edit and pin trust funds",
+    category: "trustFunds",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.trustFund.trash,
+    name: "Trash Trust Funds",
+    description: "Move trust funds to trash and restore them",
+    category: "trustFunds",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.trustFund.delete,
+    name: "Delete Trust Funds",
+    description: "Permanently delete trust funds they created",
+    category: "trustFunds",
+    defaultRoles: EVERYONE,
+  },
+  {
+    key: PERMISSIONS.trustFund.bulkEdit,
+    name: "Bulk Edit Trust Funds",
+    description: "Move many trust funds to trash at once",
+    category: "trustFunds",
+    defaultRoles: ADMINS,
+  },
+
+  // Administration
+  {
+    key: PERMISSIONS.user.manage,
+    name: "Manage Users",
+    description: "Create, edit and suspend users, reset passwords and end sessions",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.role.manage,
+    name: "Manage Role Assignments",
+    description: "View roles and permissions and assign non-administrative roles",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.access.manage,
+    name: "Manage Module Access",
+    description: "Open every budget module, grant shared access and handle access requests",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.security.manage,
+    name: "Manage Sign-in Security",
+    description: "View every login trail and block IP addresses and emails",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.department.manage,
+    name: "Manage Departments",
+    description: "Create and edit departments",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.category.manage,
+    name: "Manage Project Categories",
+    description: "Create categories and edit or trash the system defaults",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.activity.review,
+    name: "Review Activity",
+    description: "See flagged activity and activity statistics and mark activity reviewed",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.activity.rollback,
+    name: "Roll Back Bulk Changes",
+    description: "Undo a whole bulk create, update or delete batch",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.fiscalYear.manage,
+    name: "Manage Fiscal Years",
+    description: "Create, edit and delete fiscal years and roll a year over into the next",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+  {
+    key: PERMISSIONS.media.moderate,
+    name: "Moderate Inspection Photos",
+    description: "Edit and delete inspection photos uploaded by others",
+    category: "administration",
+    defaultRoles: ADMINS,
+  },
+];
+
+/**
+ * Keys that were renamed, old to new. Seeding the catalogue renames the
+ * stored permissions so their grants carry over.
+ */
+export const RENAMED_PERMISSION_KEYS: Record<string, string> = {
+  "budgets.adjustments.submit": BUDGET_ADJUSTMENT_PERMISSIONS.submit,
+  "budgets.adjustments.review": BUDGET_ADJUSTMENT_PERMISSIONS.review,
+  "budgets.adjustments.approve": BUDGET_ADJUSTMENT_PERMISSIONS.approve,
+};
+
+export function getPermissionDefinition(key: string): PermissionDefinition | undefined {
+  return PERMISSION_CATALOGUE.find((permission) => permission.key === key);
+}
+
+/**
+ * Whether a department-scoped role assignment can grant the permission
+ */
+export function isDepartmentScopedPermission(key: string): boolean {
+  const category = getPermissionDefinition(key)?.category;
+  return category !== undefined && DEPARTMENT_SCOPED_CATEGORIES.includes(category);
+}
+
+/**
+ * Whether the role holds the permission when nothing has been configured.
+ * Keys outside the catalogue, and custom roles, are denied.
+ */
+export function isGrantedByDefault(key: string, roleKey: string): boolean {
+  if (roleKey === "super_admin") return true;
+  return (
+    getPermissionDefinition(key)?.defaultRoles.some((role) => role === roleKey) ?? false
+  );
+}
@@ -0,0 +1,83 @@
+// convex/lib/permissionFunctions.ts
+// Query / mutation builders that enforce one catalogue permission before the
+// handler runs. The handler receives the signed-in user's id on ctx.userId,
+// and on ctx.permissionDepartmentIds the departments the permission is
+// limited to when only department-scoped roles grant it.
+
+import { ObjectType, PropertyValidators } from "convex/values";
+import { RegisteredMutation, RegisteredQuery } from "convex/server";
+import { getAuthUserId } from "./sessions";
+import { mutation, query, MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { getPermissionDepartmentIds } from "./rbac";
+import { requireTwoFactorVerified } from "./twoFactor";
+
+export interface Authorization {
+  userId: Id<"users">;
+  /**
+   * null when the permission applies in every department;
+   * lib/departmentAccess.getDepartmentAccess narrows rows to these
+   */
+  permissionDepartmentIds: Set<Id<"departments">> | null;
+}
+
+type WithUserId<Ctx> = Ctx & Authorization;
+
+interface PermissionFunction<Ctx, Args extends PropertyValidators, Output> {
+  args: Args;
+  handler: (ctx: WithUserId<Ctx>, args: ObjectType<Args>) => Promise<Output>;
+}
+
+/**
+ * The check the builders run, for handlers whose permission depends on
+ * their arguments
+ */
+export async function authorizePermission(
+  ctx: QueryCtx | MutationCtx,
+  permissionKey: string
+): Promise<Authorization> {
+  const userId = await getAuthUserId(ctx);
+  if (userId === null) throw new Error("Not authenticated");
+
+  const user = await ctx.db.get(userId);
+  if (!user) throw new Error("User not found");
+  await requireTwoFactorVerified(ctx, user);
+
+  const permissionDepartmentIds = await getPermissionDepartmentIds(ctx, userId, permissionKey);
+  if (permissionDepartmentIds !== null && permissionDepartmentIds.size === 0) {
+    throw new Error(`Permission denied: ${permissionKey} required`);
+  }
+  return { userId, permissionDepartmentIds };
+}
+
+/**
+ * Public query that requires the given permission
+ */
+export function permissionQuery<Args extends PropertyValidators, Output>(
+  permissionKey: string,
+  definition: PermissionFunction<QueryCtx, Args, Output>
+): RegisteredQuery<"public", ObjectType<Args>, Promise<Output>> {
+  return query({
+    args: definition.args,
+    handler: async (ctx: QueryCtx, args: ObjectType<Args>) => {
+      const authorization = await authorizePermission(ctx, permissionKey);
+      return definition.handler({ ...ctx, ...authorization }, args);
+    },
+  });
+}
+
+/**
+ * Public mutation that requires the given permission
+ */
+export function permissionMutation<Args extends PropertyValidators, Output>(
+  permissionKey: string,
+  definition: PermissionFunction<MutationCtx, Args, Output>
+): RegisteredMutation<"public", ObjectType<Args>, Promise<Output>> {
+  return mutation({
+    args: definition.args,
+    handler: async (ctx: MutationCtx, args: ObjectType<Args>) => {
+      const authorization = await authorizePermission(ctx, permissionKey);
+      return definition.handler({ ...ctx, ...authorization }, args);
+    },
+  });
+}
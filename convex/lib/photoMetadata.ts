@@ -0,0 +1,210 @@
+// convex/lib/photoMetadata.ts
+// Minimal EXIF reader for the capture time and GPS position of JPEG photos,
+// run on the stored file after upload so the values cannot be supplied by
+// the client. Photos without EXIF data (screenshots, HEIC, edited exports)
+// simply return no metadata.
+
+export interface PhotoMetadata {
+  /** Capture time in milliseconds since the epoch */
+  capturedAt?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+// EXIF lives in the first APP1 segment, well within this many bytes
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+// Cameras here are set to Philippine time
+const DEFAULT_UTC_OFFSET = "+08:00";
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_RATIONAL = 5;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the 4-byte value field within the view */
+  valueField: number;
+}
+
+class TiffReader {
+  constructor(
+    private view: DataView,
+    private tiffStart: number,
+    private littleEndian: boolean
+  ) {}
+
+  uint16(offset: number) {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  uint32(offset: number) {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  readIfd(ifdOffset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const start = this.tiffStart + ifdOffset;
+    const count = this.uint16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      entries.set(this.uint16(entry), {
+        type: this.uint16(entry + 2),
+        count: this.uint32(entry + 4),
+        valueField: entry + 8,
+      });
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry | undefined): string | undefined {
+    if (!entry || entry.type !== TYPE_ASCII) return undefined;
+    const start = entry.count <= 4 ? entry.valueField : this.tiffStart + this.uint32(entry.valueField);
+    let text = "";
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.view.getUint8(start + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+
+  rationals(entry: IfdEntry | undefined): number[] | undefined {
+    if (!entry || entry.type !== TYPE_RATIONAL) return undefined;
+    const start = this.tiffStart + this.uint32(entry.valueField);
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const denominator = this.uint32(start + i * 8 + 4);
+      values.push(denominator === 0 ? 0 : this.uint32(start + i * 8) / denominator);
+    }
+    return values;
+  }
+
+  pointer(entry: IfdEntry | undefined): number | undefined {
+    return entry ? this.uint32(entry.valueField) : undefined;
+  }
+}
+
+/**
+ * Start of the TIFF header inside the JPEG's EXIF segment, if any
+ */
+function findTiffStart(view: DataView): number | undefined {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return undefined;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return undefined;
+
+    const size = view.getUint16(offset + 2);
+    // "Exif\0\0"
+    if (
+      marker === 0xffe1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 &&
+      view.getUint16(offset + 8) === 0
+    ) {
+      return offset + 10;
+    }
+    offset += 2 + size;
+  }
+  return undefined;
+}
+
+/**
+ * EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's clock; without an
+ * offset tag they are read as Philippine time
+ */
+function parseExifDate(value: string | undefined, offset: string | undefined): number | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : DEFAULT_UTC_OFFSET;
+  const timestamp = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isFinite(timestamp) && timestamp > 0 ? timestamp : undefined;
+}
+
+function toDecimalDegrees(parts: number[] | undefined, ref: string | undefined) {
+  if (!parts || parts.length < 3) return undefined;
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+/**
+ * Corrupt GPS tags can decode to NaN or to values off the globe
+ */
+function isValidPosition(latitude: number, longitude: number) {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Capture time and GPS position from a photo's EXIF data
+ */
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    const tiffStart = findTiffStart(view);
+    if (tiffStart === undefined) return {};
+
+    const byteOrder = view.getUint16(tiffStart);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {};
+    const reader = new TiffReader(view, tiffStart, byteOrder === 0x4949);
+    if (reader.uint16(tiffStart + 2) !== 42) return {};
+
+    const ifd0 = reader.readIfd(reader.uint32(tiffStart + 4));
+    const metadata: PhotoMetadata = {};
+
+    const exifOffset = reader.pointer(ifd0.get(TAG_EXIF_IFD));
+    const exif = exifOffset !== undefined ? reader.readIfd(exifOffset) : undefined;
+    metadata.capturedAt =
+      parseExifDate(
+        reader.ascii(exif?.get(TAG_DATE_TIME_ORIGINAL)),
+        reader.ascii(exif?.get(TAG_OFFSET_TIME_ORIGINAL))
+      ) ?? parseExifDate(reader.ascii(ifd0.get(TAG_DATE_TIME)), undefined);
+
+    const gpsOffset = reader.pointer(ifd0.get(TAG_GPS_IFD));
+    if (gpsOffset !== undefined) {
+      const gps = reader.readIfd(gpsOffset);
+      const latitude = toDecimalDegrees(
+        reader.rationals(gps.get(TAG_GPS_LATITUDE)),
+        reader.ascii(gps.get(TAG_GPS_LATITUDE_REF))
+      );
+      const longitude = toDecimalDegrees(
+        reader.rationals(gps.get(TAG_GPS_LONGITUDE)),
+        reader.ascii(gps.get(TAG_GPS_LONGITUDE_REF))
+      );
+      // Cameras without a fix often write 0,0; invalid positions are dropped
+      // so the capture time is still kept
+      if (
+        latitude !== undefined &&
+        longitude !== undefined &&
+        (latitude !== 0 || longitude !== 0) &&
+        isValidPosition(latitude, longitude)
+      ) {
+        metadata.latitude = latitude;
+        metadata.longitude = longitude;
+      }
+    }
+
+    return metadata;
+  } catch {
+    // Truncated or malformed EXIF: upload the photo without metadata
+    return {};
+  }
+}
@@ -2,6 +2,7 @@
 
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
+import { insertAuditedActivity } from "./auditChain";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -81,7 +82,7 @@ export async function logProjectActivity(
       }
     }
 
-    await ctx.db.insert("projectActivities", {
+    await insertAuditedActivity(ctx, "projectActivities", {
       action: config.action,
       projectId: config.projectId,
       particulars: projectData.particulars || "Unknown Project",
@@ -2,6 +2,9 @@
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
 import { recalculateBudgetItemMetrics } from "./budgetAggregation";
+import { getProjectObligationTotals } from "./obligationAggregation";
+import { notifyUsers } from "./notifications";
+import { calculateAggregateStatus } from "./statusValidation";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -13,6 +16,8 @@ type MutationCtx = GenericMutationCtx<DataModel>;
  * 3. When flag is FALSE: Preserves manual value (no auto-calculation)
  * 4. Always calculates obligatedBudget, status counts, and status (regardless of flag)
  * 5. Excludes soft-deleted (trashed) breakdowns
+ * 6. When the project has posted obligations, the obligation ledger takes precedence:
+ *    obligatedBudget = posted ObR amounts, totalBudgetUtilized = paid disbursement vouchers
  */
 export async function recalculateProjectMetrics(
   ctx: MutationCtx,
@@ -54,6 +59,15 @@ export async function recalculateProjectMetrics(
     else if (status === "ongoing") statusCounts.onTrack++;
   }
 
+  // 🆕 Obligation ledger overrides breakdown-level figures once entries are posted
+  const ledger = await getProjectObligationTotals(ctx, projectId);
+  if (ledger.hasPostedEntries) {
+    totalObligated = ledger.obligated;
+    if (shouldAutoCalculate) {
+      totalUtilized = ledger.disbursed;
+    }
+  }
+
   // 🆕 Prepare update object based on auto-calculation flag
   const updateData: any = {
     obligatedBudget: totalObligated,
@@ -86,20 +100,24 @@ export async function recalculateProjectMetrics(
   }
 
   // Auto-calculate Project Status (always calculated)
-  let status: "completed" | "delayed" | "ongoing";
-  if (breakdowns.length === 0) {
-    status = "ongoing"; // Default if no breakdowns
-  } else {
-    if (statusCounts.onTrack > 0) status = "ongoing";
-    else if (statusCounts.delayed > 0) status = "delayed";
-    else if (statusCounts.completed > 0) status = "completed";
-    else status = "ongoing";
-  }
+  const status = calculateAggregateStatus(breakdowns);
   updateData.status = status;
 
   // Update Project with Calculated Values
   await ctx.db.patch(projectId, updateData);
 
+  // Let the project's owners know when it slips into delayed
+  if (status === "delayed" && project.status !== "delayed") {
+    const recipients = [project.createdBy];
+    if (project.projectManagerId) recipients.push(project.projectManagerId);
+    await notifyUsers(ctx, recipients, {
+      event: "project_delayed",
+      title: "Project Delayed",
+      message: `${project.particulars} is now delayed`,
+      link: project.year ? `/dashboard/project/${project.year}` : "/dashboard/project",
+    });
+  }
+
   // Cascade Calculation to Parent Budget Item
   // Only recalculate if the parent budget item exists and is not deleted
   if (project.budgetItemId) {
@@ -119,6 +137,7 @@ export async function recalculateProjectMetrics(
     status,
     autoCalculated: shouldAutoCalculate,
     mode: shouldAutoCalculate ? "auto" : "manual",
+    source: ledger.hasPostedEntries ? "obligations" : "breakdowns",
   };
 }
 
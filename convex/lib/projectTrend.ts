@@ -0,0 +1,245 @@
+// convex/lib/projectTrend.ts
+// Rebuilds a project's cumulative obligation and utilization over time from
+// the snapshots kept in projectActivities and govtProjectBreakdownActivities,
+// and compares it with a planned S-curve between start and target dates.
+
+import { GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Steepness of the planned S-curve; higher spends more in the middle */
+const S_CURVE_STEEPNESS = 10;
+
+/** Number of points the planned curve is drawn with */
+const PLANNED_CURVE_POINTS = 24;
+
+/** Window used for the current burn rate */
+const BURN_RATE_WINDOW_DAYS = 90;
+
+export interface TrendPoint {
+  timestamp: number;
+  obligated: number;
+  utilized: number;
+}
+
+interface TrackedValues {
+  obligated: number;
+  utilized: number;
+}
+
+/**
+ * Fields read from a logged project or breakdown snapshot
+ */
+interface Snapshot {
+  obligatedBudget?: unknown;
+  totalBudgetUtilized?: unknown;
+  budgetUtilized?: unknown;
+  autoCalculateBudgetUtilized?: unknown;
+  isDeleted?: unknown;
+}
+
+function parseSnapshot(json?: string): Snapshot | null {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" ? (parsed as Snapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Share of the work planned to be done at a point in time, 0..1.
+ * A logistic curve scaled so it starts at 0 and ends at 1.
+ */
+export function plannedProgress(start: number, end: number, at: number): number {
+  if (end <= start) return at >= end ? 1 : 0;
+  const x = Math.min(1, Math.max(0, (at - start) / (end - start)));
+  const logistic = (value: number) => 1 / (1 + Math.exp(-S_CURVE_STEEPNESS * (value - 0.5)));
+  return (logistic(x) - logistic(0)) / (logistic(1) - logistic(0));
+}
+
+/**
+ * Planned schedule of a project: earliest breakdown start to latest
+ * breakdown target, falling back to the project's own dates
+ */
+export function getPlannedWindow(
+  project: Doc<"projects">,
+  breakdowns: Doc<"govtProjectBreakdowns">[]
+): { start: number; end?: number } {
+  const starts = breakdowns.map((b) => b.dateStarted).filter((d): d is number => !!d);
+  const targets = breakdowns.map((b) => b.targetDate).filter((d): d is number => !!d);
+
+  return {
+    start: starts.length > 0 ? Math.min(...starts) : project.createdAt,
+    end: targets.length > 0 ? Math.max(...targets) : project.targetDateCompletion,
+  };
+}
+
+/**
+ * Cumulative obligated and utilized amounts after every logged change.
+ * Mirrors recalculateProjectMetrics: once the project has breakdowns their
+ * sums are used, except utilization of projects in manual mode.
+ */
+export async function buildProjectTrend(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  breakdownIds: Id<"govtProjectBreakdowns">[]
+): Promise<TrendPoint[]> {
+  type Change =
+    | { timestamp: number; kind: "project"; values: Snapshot }
+    | {
+        timestamp: number;
+        kind: "breakdown";
+        breakdownId: Id<"govtProjectBreakdowns">;
+        values: Snapshot | null;
+      };
+
+  const changes: Change[] = [];
+
+  const projectActivities = await ctx.db
+    .query("projectActivities")
+    .withIndex("projectId", (q) => q.eq("projectId", projectId))
+    .collect();
+  for (const activity of projectActivities) {
+    const values = parseSnapshot(activity.newValues);
+    if (values) changes.push({ timestamp: activity.timestamp, kind: "project", values });
+  }
+
+  for (const breakdownId of breakdownIds) {
+    const activities = await ctx.db
+      .query("govtProjectBreakdownActivities")
+      .withIndex("breakdownAndTimestamp", (q) => q.eq("breakdownId", breakdownId))
+      .collect();
+    for (const activity of activities) {
+      if (activity.action === "viewed" || activity.action === "exported") continue;
+      const removed = activity.action === "deleted" || activity.action === "bulk_deleted";
+      const values = removed ? null : parseSnapshot(activity.newValues);
+      if (!removed && !values) continue;
+      changes.push({
+        timestamp: activity.timestamp,
+        kind: "breakdown",
+        breakdownId,
+        // Moving to trash is logged as an update with isDeleted set
+        values: values?.isDeleted === true ? null : values,
+      });
+    }
+  }
+
+  changes.sort((a, b) => a.timestamp - b.timestamp);
+
+  const project: TrackedValues & { autoCalculate: boolean } = {
+    obligated: 0,
+    utilized: 0,
+    autoCalculate: true,
+  };
+  const breakdowns = new Map<Id<"govtProjectBreakdowns">, TrackedValues>();
+  const points: TrendPoint[] = [];
+
+  for (const change of changes) {
+    if (change.kind === "project") {
+      const values = change.values;
+      if (typeof values.obligatedBudget === "number") project.obligated = values.obligatedBudget;
+      if (typeof values.totalBudgetUtilized === "number") project.utilized = values.totalBudgetUtilized;
+      if (typeof values.autoCalculateBudgetUtilized === "boolean") {
+        project.autoCalculate = values.autoCalculateBudgetUtilized;
+      }
+    } else if (change.values === null) {
+      breakdowns.delete(change.breakdownId);
+    } else {
+      const previous = breakdowns.get(change.breakdownId);
+      breakdowns.set(change.breakdownId, {
+        obligated:
+          typeof change.values.obligatedBudget === "number"
+            ? change.values.obligatedBudget
+            : previous?.obligated ?? 0,
+        utilized:
+          typeof change.values.budgetUtilized === "number"
+            ? change.values.budgetUtilized
+            : previous?.utilized ?? 0,
+      });
+    }
+
+    let obligated = project.obligated;
+    let utilized = project.utilized;
+    if (breakdowns.size > 0) {
+      const sums = [...breakdowns.values()].reduce(
+        (acc, values) => ({
+          obligated: acc.obligated + values.obligated,
+          utilized: acc.utilized + values.utilized,
+        }),
+        { obligated: 0, utilized: 0 }
+      );
+      obligated = sums.obligated;
+      if (project.autoCalculate) utilized = sums.utilized;
+    }
+
+    // One point per moment; several changes logged together collapse
+    const last = points[points.length - 1];
+    if (last && last.timestamp === change.timestamp) {
+      last.obligated = obligated;
+      last.utilized = utilized;
+    } else {
+      points.push({ timestamp: change.timestamp, obligated, utilized });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Planned cumulative amount at evenly spaced points between start and end
+ */
+export function buildPlannedCurve(start: number, end: number, allocated: number) {
+  const step = (end - start) / (PLANNED_CURVE_POINTS - 1);
+  return Array.from({ length: PLANNED_CURVE_POINTS }, (_, i) => {
+    const timestamp = Math.round(start + step * i);
+    return { timestamp, planned: allocated * plannedProgress(start, end, timestamp) };
+  });
+}
+
+/**
+ * Utilized amount at a point in time, from the step series
+ */
+function utilizedAt(points: TrendPoint[], at: number) {
+  let value = 0;
+  for (const point of points) {
+    if (point.timestamp > at) break;
+    value = point.utilized;
+  }
+  return value;
+}
+
+/**
+ * Date the remaining allocation would be used up at the recent burn rate.
+ * Null when nothing was spent in the window.
+ */
+export function forecastCompletion(
+  points: TrendPoint[],
+  allocated: number,
+  now: number
+): { burnRatePerDay: number; forecastDate: number | null } {
+  if (points.length === 0) return { burnRatePerDay: 0, forecastDate: null };
+
+  const current = points[points.length - 1].utilized;
+  if (current >= allocated && allocated > 0) {
+    const reached = points.find((point) => point.utilized >= allocated);
+    return { burnRatePerDay: 0, forecastDate: reached?.timestamp ?? now };
+  }
+
+  // A project younger than the window is measured from its first change
+  const windowStart = now - BURN_RATE_WINDOW_DAYS * DAY_MS;
+  const since = Math.max(points[0].timestamp, windowStart);
+  const days = (now - since) / DAY_MS;
+  const spent = current - (windowStart > points[0].timestamp ? utilizedAt(points, windowStart) : 0);
+  if (days <= 0 || spent <= 0) return { burnRatePerDay: 0, forecastDate: null };
+
+  const burnRatePerDay = spent / days;
+  return {
+    burnRatePerDay,
+    forecastDate: Math.round(now + ((allocated - current) / burnRatePerDay) * DAY_MS),
+  };
+}
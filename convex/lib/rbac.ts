@@ -2,22 +2,37 @@
 // Helper functions for Role-Based Access Control
 
 import { GenericQueryCtx, GenericMutationCtx } from "convex/server";
-import { DataModel } from "../_generated/dataModel";
+import { DataModel, Id } from "../_generated/dataModel";
 import { Doc } from "../_generated/dataModel";
+import { PERMISSION_CATALOGUE, isDepartmentScopedPermission } from "./permissionCatalogue";
+import { getRoleDepartmentIds, getUserRoleChains, resolveChainPermission } from "./roles";
+import { isTwoFactorSatisfied, requireTwoFactorVerified } from "./twoFactor";
 
 type QueryCtx = GenericQueryCtx<DataModel>;
 type MutationCtx = GenericMutationCtx<DataModel>;
 
 /**
- * Check if a user has a specific permission
+ * Check if the signed-in user has a specific permission.
+ * A session that still owes two-factor verification holds none.
+ * Order: super admin, then the user's own override, then their roles
+ * (lib/roles.ts). A permission is granted if any role they hold grants it;
+ * within one role the nearest grant up the inheritance chain wins, falling
+ * back to the catalogue defaults (lib/permissionCatalogue.ts).
+ * Roles assigned for one department only count when departmentId is that
+ * department.
  */
 export async function hasPermission(
   ctx: QueryCtx | MutationCtx,
   userId: string,
-  permissionKey: string
+  permissionKey: string,
+  options: { departmentId?: Id<"departments"> } = {}
 ): Promise<boolean> {
   const user = await ctx.db.get(userId as any) as Doc<"users"> | null;
-  if (!user || !user.role) {
+  if (!user) {
+    return false;
+  }
+
+  if (!(await isTwoFactorSatisfied(ctx, user))) {
     return false;
   }
 
@@ -32,39 +47,36 @@ export async function hasPermission(
     .withIndex("key", (q) => q.eq("key", permissionKey))
     .first();
 
-  if (!permission || !permission.isActive) {
+  if (permission && !permission.isActive) {
     return false;
   }
 
   // Check user-specific override first
-  const userPermission = await ctx.db
-    .query("userPermissions")
-    .withIndex("userAndPermission", (q) => 
-      q.eq("userId", userId as any).eq("permissionId", permission._id)
-    )
-    .first();
-
-  if (userPermission) {
-    // Check if permission has expired
-    if (userPermission.expiresAt && userPermission.expiresAt < Date.now()) {
-      return false;
+  if (permission) {
+    const userPermission = await ctx.db
+      .query("userPermissions")
+      .withIndex("userAndPermission", (q) => 
+        q.eq("userId", user._id).eq("permissionId", permission._id)
+      )
+      .first();
+
+    if (userPermission) {
+      // Check if permission has expired
+      if (userPermission.expiresAt && userPermission.expiresAt < Date.now()) {
+        return false;
+      }
+      return userPermission.isGranted;
     }
-    return userPermission.isGranted;
   }
 
   // Check role-based permission
-  const rolePermission = await ctx.db
-    .query("rolePermissions")
-    .withIndex("roleAndPermission", (q) => 
-      q.eq("role", user.role!).eq("permissionId", permission._id)
-    )
-    .first();
-
-  if (rolePermission) {
-    return rolePermission.isGranted;
+  const chains = await getUserRoleChains(ctx, user, { departmentId: options.departmentId });
+  for (const chain of chains) {
+    if (await resolveChainPermission(ctx, chain, permissionKey, permission?._id ?? null)) {
+      return true;
+    }
   }
 
-  // No permission found
   return false;
 }
 
@@ -74,14 +86,43 @@ export async function hasPermission(
 export async function requirePermission(
   ctx: QueryCtx | MutationCtx,
   userId: string,
-  permissionKey: string
+  permissionKey: string,
+  options: { departmentId?: Id<"departments"> } = {}
 ): Promise<void> {
-  const allowed = await hasPermission(ctx, userId, permissionKey);
+  await requireVerifiedUser(ctx, userId);
+  const allowed = await hasPermission(ctx, userId, permissionKey, options);
   if (!allowed) {
     throw new Error(`Permission denied: ${permissionKey} required`);
   }
 }
 
+/**
+ * Where the user holds a permission: null when it applies everywhere,
+ * otherwise the departments whose department-scoped roles grant it
+ * (empty when they do not hold it at all)
+ */
+export async function getPermissionDepartmentIds(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">,
+  permissionKey: string
+): Promise<Set<Id<"departments">> | null> {
+  if (await hasPermission(ctx, userId, permissionKey)) {
+    return null;
+  }
+
+  const departmentIds = new Set<Id<"departments">>();
+  if (!isDepartmentScopedPermission(permissionKey)) {
+    return departmentIds;
+  }
+
+  for (const departmentId of await getRoleDepartmentIds(ctx, userId)) {
+    if (await hasPermission(ctx, userId, permissionKey, { departmentId })) {
+      departmentIds.add(departmentId);
+    }
+  }
+  return departmentIds;
+}
+
 /**
  * Check if user has any of the specified permissions
  */
@@ -182,67 +223,32 @@ export async function isDepartmentHead(
 }
 
 /**
- * Get user's effective permissions (role + overrides)
+ * Get user's effective permissions (roles + overrides): every catalogue and
+ * permissions-table key the user holds, everywhere or in some department
  */
 export async function getUserEffectivePermissions(
   ctx: QueryCtx | MutationCtx,
   userId: string
 ): Promise<string[]> {
   const user = await ctx.db.get(userId as any) as Doc<"users"> | null;
-  if (!user || !user.role) {
+  if (!user) {
     return [];
   }
 
-  // Super admin has all permissions
-  if (user.role === "super_admin") {
-    const allPermissions = await ctx.db
-      .query("permissions")
-      .withIndex("isActive", (q) => q.eq("isActive", true))
-      .collect();
-    return allPermissions.map(p => p.key);
-  }
-
-  // Get role-based permissions
-  const rolePermissions = await ctx.db
-    .query("rolePermissions")
-    .withIndex("role", (q) => q.eq("role", user.role!))
-    .collect();
-
-  // Get user-specific overrides
-  const userPermissions = await ctx.db
-    .query("userPermissions")
-    .withIndex("userId", (q) => q.eq("userId", userId as any))
-    .collect();
-
-  // Filter out expired permissions
-  const now = Date.now();
-  const validUserPermissions = userPermissions.filter(
-    up => !up.expiresAt || up.expiresAt > now
-  );
-
-  // Build permission map
-  const permissionMap = new Map<string, boolean>();
-
-  // Add role permissions
-  for (const rp of rolePermissions) {
-    const permission = await ctx.db.get(rp.permissionId);
-    if (permission && permission.isActive) {
-      permissionMap.set(permission.key, rp.isGranted);
+  const permissions = await ctx.db.query("permissions").collect();
+  const keys = new Set([
+    ...PERMISSION_CATALOGUE.map((definition) => definition.key),
+    ...permissions.map((permission) => permission.key),
+  ]);
+
+  const granted: string[] = [];
+  for (const key of keys) {
+    const departmentIds = await getPermissionDepartmentIds(ctx, user._id, key);
+    if (departmentIds === null || departmentIds.size > 0) {
+      granted.push(key);
     }
   }
-
-  // Override with user-specific permissions
-  for (const up of validUserPermissions) {
-    const permission = await ctx.db.get(up.permissionId);
-    if (permission && permission.isActive) {
-      permissionMap.set(permission.key, up.isGranted);
-    }
-  }
-
-  // Return only granted permissions
-  return Array.from(permissionMap.entries())
-    .filter(([_, granted]) => granted)
-    .map(([key, _]) => key);
+  return granted;
 }
 
 /**
@@ -302,6 +308,18 @@ export async function getAccessibleDepartments(
   return [];
 }
 
+/**
+ * Throw with two-factor instructions when the session still owes them,
+ * rather than a bare permission error
+ */
+async function requireVerifiedUser(ctx: QueryCtx | MutationCtx, userId: string) {
+  const id = ctx.db.normalizeId("users", userId);
+  const user = id ? await ctx.db.get(id) : null;
+  if (user) {
+    await requireTwoFactorVerified(ctx, user);
+  }
+}
+
 /**
  * Require user to be admin or super admin
  */
@@ -309,6 +327,7 @@ export async function requireAdmin(
   ctx: QueryCtx | MutationCtx,
   userId: string
 ): Promise<void> {
+  await requireVerifiedUser(ctx, userId);
   const isAdminUser = await isAdmin(ctx, userId);
   if (!isAdminUser) {
     throw new Error("Administrator access required");
@@ -322,6 +341,7 @@ export async function requireSuperAdmin(
   ctx: QueryCtx | MutationCtx,
   userId: string
 ): Promise<void> {
+  await requireVerifiedUser(ctx, userId);
   const isSuperAdminUser = await isSuperAdmin(ctx, userId);
   if (!isSuperAdminUser) {
     throw new Error("Super administrator access required");
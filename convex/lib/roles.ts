@@ -0,0 +1,230 @@
+// convex/lib/roles.ts
+// Role resolution through the roles table: built-in and custom roles,
+// inheritance, and department-scoped assignments (userRoles).
+
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { isGrantedByDefault } from "./permissionCatalogue";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export type HomeRoute = Doc<"roles">["homeRoute"];
+
+/**
+ * The built-in roles, created as system rows by the roles migration
+ */
+export const SYSTEM_ROLES: readonly {
+  key: NonNullable<Doc<"users">["role"]>;
+  name: string;
+  description: string;
+  homeRoute: HomeRoute;
+}[] = [
+  {
+    key: "super_admin",
+    name: "Super Admin",
+    description: "Full system access, manage all users, departments, and system settings",
+    homeRoute: "/dashboard",
+  },
+  {
+    key: "admin",
+    name: "Admin",
+    description: "Department-level admin, can manage users and resources within their department",
+    homeRoute: "/dashboard",
+  },
+  {
+    key: "inspector",
+    name: "Inspector",
+    description: "Can view and inspect projects, create inspection reports",
+    homeRoute: "/inspector",
+  },
+  {
+    key: "user",
+    name: "User",
+    description: "Standard user access, can manage own resources",
+    homeRoute: "/dashboard",
+  },
+];
+
+/**
+ * One role in an inheritance chain. roleId is null for a built-in role
+ * that has not been migrated into the roles table yet.
+ */
+export interface RoleLink {
+  key: string;
+  roleId: Id<"roles"> | null;
+}
+
+export function isSystemRoleKey(key: string): key is NonNullable<Doc<"users">["role"]> {
+  return SYSTEM_ROLES.some((role) => role.key === key);
+}
+
+export async function getRoleByKey(
+  ctx: QueryCtx | MutationCtx,
+  key: string
+): Promise<Doc<"roles"> | null> {
+  return await ctx.db
+    .query("roles")
+    .withIndex("key", (q) => q.eq("key", key))
+    .first();
+}
+
+/**
+ * The role followed by the roles it inherits from, nearest first.
+ * Stops at an inactive ancestor.
+ */
+export async function getRoleChain(
+  ctx: QueryCtx | MutationCtx,
+  role: Doc<"roles">
+): Promise<RoleLink[]> {
+  const chain: RoleLink[] = [];
+  const seen = new Set<Id<"roles">>();
+  let current: Doc<"roles"> | null = role;
+
+  // Guard against cycles in a badly edited hierarchy
+  while (current && current.isActive && !seen.has(current._id)) {
+    seen.add(current._id);
+    chain.push({ key: current.key, roleId: current._id });
+    current = current.parentRoleId ? await ctx.db.get(current.parentRoleId) : null;
+  }
+
+  return chain;
+}
+
+/**
+ * Every role the user holds, each as its inheritance chain: the built-in
+ * role on users.role plus their userRoles assignments.
+ * Department-scoped assignments only count when the check is about their
+ * department, or when allDepartments is set for checks that are not about
+ * access at all (such as the home route).
+ */
+export async function getUserRoleChains(
+  ctx: QueryCtx | MutationCtx,
+  user: Doc<"users">,
+  scope: { departmentId?: Id<"departments">; allDepartments?: boolean } = {}
+): Promise<RoleLink[][]> {
+  const chains: RoleLink[][] = [];
+
+  if (user.role) {
+    const baseRole = await getRoleByKey(ctx, user.role);
+    // Before the migration the built-in role only exists as the literal
+    chains.push(baseRole ? await getRoleChain(ctx, baseRole) : [{ key: user.role, roleId: null }]);
+  }
+
+  const assignments = await ctx.db
+    .query("userRoles")
+    .withIndex("userId", (q) => q.eq("userId", user._id))
+    .collect();
+
+  for (const assignment of assignments) {
+    if (
+      assignment.departmentId &&
+      !scope.allDepartments &&
+      assignment.departmentId !== scope.departmentId
+    ) {
+      continue;
+    }
+    const role = await ctx.db.get(assignment.roleId);
+    if (role) {
+      chains.push(await getRoleChain(ctx, role));
+    }
+  }
+
+  return chains.filter((chain) => chain.length > 0);
+}
+
+/**
+ * Grant or denial configured directly on one role, if any
+ */
+export async function getRoleGrant(
+  ctx: QueryCtx | MutationCtx,
+  link: RoleLink,
+  permissionId: Id<"permissions">
+): Promise<Doc<"rolePermissions"> | null> {
+  if (link.roleId) {
+    const roleId = link.roleId;
+    const grant = await ctx.db
+      .query("rolePermissions")
+      .withIndex("roleIdAndPermission", (q) =>
+        q.eq("roleId", roleId).eq("permissionId", permissionId)
+      )
+      .first();
+    if (grant) return grant;
+  }
+
+  // Rows written before the migration only carry the literal
+  if (isSystemRoleKey(link.key)) {
+    const key = link.key;
+    return await ctx.db
+      .query("rolePermissions")
+      .withIndex("roleAndPermission", (q) => q.eq("role", key).eq("permissionId", permissionId))
+      .first();
+  }
+
+  return null;
+}
+
+/**
+ * Walk a chain from the role up: the nearest configured grant wins,
+ * otherwise the catalogue default of the top-most role applies
+ */
+export async function resolveChainPermission(
+  ctx: QueryCtx | MutationCtx,
+  chain: RoleLink[],
+  permissionKey: string,
+  permissionId: Id<"permissions"> | null
+): Promise<boolean> {
+  if (chain.length === 0) return false;
+
+  if (permissionId) {
+    for (const link of chain) {
+      const grant = await getRoleGrant(ctx, link, permissionId);
+      if (grant) return grant.isGranted;
+    }
+  }
+
+  return isGrantedByDefault(permissionKey, chain[chain.length - 1].key);
+}
+
+/**
+ * Where the user lands after sign-in. The inspector app is only for users
+ * whose every role lands there; anyone else gets the dashboard.
+ */
+export async function resolveHomeRoute(
+  ctx: QueryCtx | MutationCtx,
+  user: Doc<"users">
+): Promise<HomeRoute> {
+  const chains = await getUserRoleChains(ctx, user, { allDepartments: true });
+  if (chains.length === 0) return "/dashboard";
+
+  for (const chain of chains) {
+    const { key, roleId } = chain[0];
+    const role = roleId ? await ctx.db.get(roleId) : null;
+    const homeRoute =
+      role?.homeRoute ?? SYSTEM_ROLES.find((systemRole) => systemRole.key === key)?.homeRoute;
+    if (homeRoute !== "/inspector") return "/dashboard";
+  }
+
+  return "/inspector";
+}
+
+/**
+ * Departments the user holds a department-scoped role in
+ */
+export async function getRoleDepartmentIds(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">
+): Promise<Id<"departments">[]> {
+  const assignments = await ctx.db
+    .query("userRoles")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  const departmentIds: Id<"departments">[] = [];
+  for (const assignment of assignments) {
+    if (!assignment.departmentId) continue;
+    const role = await ctx.db.get(assignment.roleId);
+    if (role?.isActive) departmentIds.push(assignment.departmentId);
+  }
+  return departmentIds;
+}
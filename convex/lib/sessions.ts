@@ -0,0 +1,171 @@
+// convex/lib/sessions.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import {
+  getAuthSessionId,
+  getAuthUserId as getTokenUserId,
+} from "@convex-dev/auth/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+export interface SessionSummary {
+  sessionId: Id<"authSessions">;
+  createdAt: number;
+  lastActiveAt: number;
+  expiresAt: number;
+  device: string;
+  browser: string;
+  ipAddress: string;
+  location: string;
+  isCurrent: boolean;
+}
+
+/**
+ * Suspended, inactive and locked accounts lose their sessions
+ */
+export function isAccountActive(user: Doc<"users">) {
+  return user.status !== "suspended" && user.status !== "inactive" && !user.isLocked;
+}
+
+/**
+ * The signed-in user, or null. Unlike getAuthUserId from
+ * @convex-dev/auth, which only reads the access token, this also requires
+ * the session to still exist and the account to be active: an access token
+ * stays valid for up to an hour after a remote sign-out or suspension.
+ * Every public function resolves the caller through this.
+ */
+export async function getAuthUserId(ctx: QueryCtx | MutationCtx): Promise<Id<"users"> | null> {
+  const userId = await getTokenUserId(ctx);
+  if (userId === null) return null;
+
+  const sessionId = await getAuthSessionId(ctx);
+  if (sessionId === null || (await ctx.db.get(sessionId)) === null) return null;
+
+  const user = await ctx.db.get(userId);
+  if (!user || !isAccountActive(user)) return null;
+
+  return userId;
+}
+
+function parseJson<T>(json?: string): Partial<T> {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Unexpired sessions of a user, newest activity first, with the device and
+ * address of the login that created each one
+ */
+export async function listActiveSessions(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">,
+  currentSessionId: Id<"authSessions"> | null
+): Promise<SessionSummary[]> {
+  const now = Date.now();
+  const sessions = await ctx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  const summaries = await Promise.all(
+    sessions
+      .filter((session) => session.expirationTime > now)
+      .map((session) => summarizeSession(ctx, session, currentSessionId))
+  );
+
+  return summaries.sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+}
+
+async function summarizeSession(
+  ctx: QueryCtx | MutationCtx,
+  session: Doc<"authSessions">,
+  currentSessionId: Id<"authSessions"> | null
+): Promise<SessionSummary> {
+  const login = await ctx.db
+    .query("loginAttempts")
+    .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+    .first();
+
+  // A refresh token is issued each time the client renews its access token,
+  // so the newest one is the last time the session was in use
+  const refreshTokens = await ctx.db
+    .query("authRefreshTokens")
+    .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+    .collect();
+  const lastActiveAt = refreshTokens.reduce(
+    (latest, token) => Math.max(latest, token._creationTime, token.firstUsedTime ?? 0),
+    session._creationTime
+  );
+
+  const device = parseJson<{ type: string; os: string }>(login?.deviceInfo);
+  const browser = parseJson<{ browser: string; browserVersion: string }>(login?.browserInfo);
+  const geo = parseJson<{ city: string; region: string; country: string }>(login?.geoLocation);
+
+  return {
+    sessionId: session._id,
+    createdAt: session._creationTime,
+    lastActiveAt,
+    expiresAt: session.expirationTime,
+    device: device.type || "Unknown device",
+    browser: browser.browser
+      ? `${browser.browser}${browser.browserVersion ? ` ${browser.browserVersion}` : ""}`
+      : "Unknown browser",
+    ipAddress: login?.ipAddress || "Unknown",
+    location: geo.city ? [geo.city, geo.region, geo.country].filter(Boolean).join(", ") : "Unknown",
+    isCurrent: session._id === currentSessionId,
+  };
+}
+
+/**
+ * End a session: getAuthUserId refuses it from now on even though its
+ * access token has not expired, and its refresh tokens stop working
+ */
+export async function revokeSession(ctx: MutationCtx, sessionId: Id<"authSessions">) {
+  const refreshTokens = await ctx.db
+    .query("authRefreshTokens")
+    .withIndex("sessionId", (q) => q.eq("sessionId", sessionId))
+    .collect();
+  for (const token of refreshTokens) {
+    await ctx.db.delete(token._id);
+  }
+
+  const verifications = await ctx.db
+    .query("twoFactorVerifications")
+    .withIndex("sessionId", (q) => q.eq("sessionId", sessionId))
+    .collect();
+  for (const verification of verifications) {
+    await ctx.db.delete(verification._id);
+  }
+
+  if (await ctx.db.get(sessionId)) {
+    await ctx.db.delete(sessionId);
+  }
+}
+
+/**
+ * End every session of a user, optionally keeping one (the caller's own)
+ * Returns how many were ended
+ */
+export async function revokeUserSessions(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  exceptSessionId?: Id<"authSessions"> | null
+) {
+  const sessions = await ctx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  let revoked = 0;
+  for (const session of sessions) {
+    if (session._id === exceptSessionId) continue;
+    await revokeSession(ctx, session._id);
+    revoked++;
+  }
+  return revoked;
+}
@@ -0,0 +1,121 @@
+// convex/lib/slippageRules.ts
+// Slippage rules for physical accomplishment. The latest accomplishment
+// report of a breakdown sets its slippage; past the threshold the breakdown
+// is flagged, or set to "delayed" when SLIPPAGE_ACTION is "set_delayed".
+
+import { GenericMutationCtx } from "convex/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { logGovtProjectActivity } from "./govtProjectActivityLogger";
+import { recalculateProjectMetrics } from "./projectAggregation";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+export type SlippageAction = "flag" | "set_delayed";
+
+/** Percentage points behind plan at which a breakdown is flagged */
+export const DEFAULT_SLIPPAGE_THRESHOLD = -15;
+
+export function getSlippageThreshold(): number {
+  const threshold = Number(process.env.SLIPPAGE_THRESHOLD);
+  return process.env.SLIPPAGE_THRESHOLD && Number.isFinite(threshold)
+    ? -Math.abs(threshold)
+    : DEFAULT_SLIPPAGE_THRESHOLD;
+}
+
+export function getSlippageAction(): SlippageAction {
+  return process.env.SLIPPAGE_ACTION === "set_delayed" ? "set_delayed" : "flag";
+}
+
+/**
+ * Actual minus planned, in percentage points; negative means behind schedule
+ */
+export function calculateSlippage(actualPercent: number, plannedPercent: number): number {
+  return Math.round((actualPercent - plannedPercent) * 100) / 100;
+}
+
+type SlippagePatch = Partial<
+  Pick<
+    Doc<"govtProjectBreakdowns">,
+    "slippage" | "slippageFlagged" | "delayedBySlippage" | "status"
+  >
+>;
+
+/**
+ * Fields to change on a breakdown for a new slippage (undefined when it has
+ * no reports left). Completed breakdowns are flagged but never reopened, and
+ * only a "delayed" set by this rule is lifted again.
+ */
+export function evaluateSlippage(
+  breakdown: Doc<"govtProjectBreakdowns">,
+  slippage: number | undefined
+): SlippagePatch {
+  const flagged = slippage !== undefined && slippage <= getSlippageThreshold();
+  const patch: SlippagePatch = { slippage, slippageFlagged: flagged };
+
+  if (breakdown.delayedBySlippage && breakdown.status === "delayed" && !flagged) {
+    patch.status = "ongoing";
+    patch.delayedBySlippage = false;
+  } else if (
+    flagged &&
+    getSlippageAction() === "set_delayed" &&
+    breakdown.status !== "completed" &&
+    breakdown.status !== "delayed"
+  ) {
+    patch.status = "delayed";
+    patch.delayedBySlippage = true;
+  }
+
+  return patch;
+}
+
+/**
+ * Bring a breakdown in line with its latest accomplishment report, log the
+ * change and roll a status change up to the project and budget item
+ */
+export async function applyLatestAccomplishmentReport(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  breakdownId: Id<"govtProjectBreakdowns">
+) {
+  const breakdown = await ctx.db.get(breakdownId);
+  if (!breakdown) throw new Error("Breakdown not found");
+
+  const latest = await ctx.db
+    .query("accomplishmentReports")
+    .withIndex("breakdownAndAsOfDate", (q) => q.eq("breakdownId", breakdownId))
+    .order("desc")
+    .first();
+
+  const patch = {
+    ...evaluateSlippage(breakdown, latest?.slippage),
+    ...(latest ? { projectAccomplishment: latest.actualPercent } : {}),
+  };
+
+  const changed = (Object.keys(patch) as (keyof typeof patch)[]).some(
+    (key) => patch[key] !== breakdown[key]
+  );
+  if (!changed) return;
+
+  await ctx.db.patch(breakdownId, {
+    ...patch,
+    updatedAt: Date.now(),
+    updatedBy: userId,
+  });
+  const updatedBreakdown = await ctx.db.get(breakdownId);
+
+  await logGovtProjectActivity(ctx, userId, {
+    action: "updated",
+    breakdownId,
+    breakdown: updatedBreakdown,
+    previousValues: breakdown,
+    newValues: updatedBreakdown,
+    source: "system",
+    reason: latest
+      ? `Accomplishment report as of ${new Date(latest.asOfDate).toISOString().slice(0, 10)}`
+      : "Accomplishment reports removed",
+  });
+
+  if (patch.status && patch.status !== breakdown.status && breakdown.projectId) {
+    await recalculateProjectMetrics(ctx, breakdown.projectId, userId);
+  }
+}
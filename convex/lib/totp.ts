@@ -0,0 +1,149 @@
+// convex/lib/totp.ts
+// TIME-BASED ONE-TIME PASSWORDS (RFC 6238) AND RECOVERY CODES
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const RECOVERY_CODE_COUNT = 10;
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * New 160-bit shared secret, base32 encoded for authenticator apps
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * otpauth:// URI that authenticator apps read from the enrollment QR code
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer = "PPDO"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+async function generateHotp(secret: string, counter: number): Promise<string> {
+  const counterBytes = new Uint8Array(8);
+  let remaining = counter;
+  for (let i = 7; i >= 0; i--) {
+    counterBytes[i] = remaining & 255;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counterBytes));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function getTotpStep(timestamp: number): number {
+  return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Check a code against the current time step and one step either side
+ * (allows for clock drift). Returns the matching step, or null.
+ * Steps at or before lastUsedStep are rejected so a code can't be replayed.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  timestamp: number,
+  lastUsedStep?: number
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = getTotpStep(timestamp);
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+    if ((await generateHotp(secret, step)) === normalized) return step;
+  }
+  return null;
+}
+
+/**
+ * Single-use recovery codes in "xxxxx-xxxxx" form
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  return Array.from({ length: count }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(10));
+    const chars = Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * SHA-256 hex digest; only hashes of recovery codes are stored
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalizeRecoveryCode(code))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -2,6 +2,7 @@
 
 import { GenericMutationCtx } from "convex/server";
 import { DataModel, Id } from "../_generated/dataModel";
+import { insertAuditedActivity } from "./auditChain";
 
 type MutationCtx = GenericMutationCtx<DataModel>;
 
@@ -80,7 +81,7 @@ export async function logTrustFundActivity(
       }
     }
 
-    await ctx.db.insert("trustFundActivities", {
+    await insertAuditedActivity(ctx, "trustFundActivities", {
       action: config.action,
       trustFundId: config.trustFundId,
       projectTitle: trustFundData.projectTitle || "Unknown Trust Fund",
@@ -0,0 +1,41 @@
+// convex/lib/trustedServer.ts
+// Functions that take a client IP address or location only accept them from
+// the Next.js server, which reads them from the request. The server proves
+// itself with TRUSTED_SERVER_SECRET, set to the same value in the Convex and
+// Next.js environments.
+
+function constantTimeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function assertTrustedServer(serverSecret: string) {
+  const expected = process.env.TRUSTED_SERVER_SECRET;
+  if (!expected) {
+    throw new Error("TRUSTED_SERVER_SECRET is not configured");
+  }
+  if (!constantTimeEqual(serverSecret, expected)) {
+    throw new Error("Not authorized - trusted server access required");
+  }
+}
+
+/**
+ * Parse the location JSON computed by the server; null if missing or malformed
+ */
+export function parseGeoLocation(geoLocation?: string): {
+  city: string;
+  region: string;
+  country: string;
+  coordinates?: { lat: number; lng: number };
+} | null {
+  if (!geoLocation) return null;
+  try {
+    return JSON.parse(geoLocation);
+  } catch {
+    return null;
+  }
+}
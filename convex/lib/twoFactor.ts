@@ -0,0 +1,129 @@
+// convex/lib/twoFactor.ts
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { getAuthSessionId } from "@convex-dev/auth/server";
+import { DataModel, Doc, Id } from "../_generated/dataModel";
+import { getUserRoleChains } from "./roles";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+/**
+ * Roles that must enroll in two-factor authentication, including custom
+ * roles that inherit from them
+ */
+export const TWO_FACTOR_REQUIRED_ROLES = ["super_admin", "admin"];
+
+export interface SecurityPreferences {
+  twoFactorEnabled?: boolean;
+  twoFactorEnabledAt?: number;
+  loginNotifications?: boolean;
+  trustedDevicesOnly?: boolean;
+  requireLocationVerification?: boolean;
+}
+
+/**
+ * Whether any of the user's roles, in any department, makes two-factor
+ * mandatory
+ */
+export async function isTwoFactorRequired(ctx: QueryCtx | MutationCtx, user: Doc<"users">) {
+  const chains = await getUserRoleChains(ctx, user, { allDepartments: true });
+  return chains.some((chain) => chain.some((link) => TWO_FACTOR_REQUIRED_ROLES.includes(link.key)));
+}
+
+export function parseSecurityPreferences(json?: string): SecurityPreferences {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge changes into users.securityPreferences
+ */
+export async function updateSecurityPreferences(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  updates: SecurityPreferences
+) {
+  const preferences = { ...parseSecurityPreferences(user.securityPreferences), ...updates };
+  await ctx.db.patch(user._id, {
+    securityPreferences: JSON.stringify(preferences),
+    updatedAt: Date.now(),
+  });
+}
+
+export async function getTwoFactorCredential(ctx: QueryCtx | MutationCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("twoFactorCredentials")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .first();
+}
+
+export async function isSessionVerified(ctx: QueryCtx | MutationCtx, sessionId: Id<"authSessions"> | null) {
+  if (!sessionId) return false;
+  const verification = await ctx.db
+    .query("twoFactorVerifications")
+    .withIndex("sessionId", (q) => q.eq("sessionId", sessionId))
+    .first();
+  return verification !== null;
+}
+
+export async function markSessionVerified(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  method: "totp" | "recovery_code"
+) {
+  const sessionId = await getAuthSessionId(ctx);
+  if (!sessionId || (await isSessionVerified(ctx, sessionId))) return;
+
+  await ctx.db.insert("twoFactorVerifications", {
+    userId,
+    sessionId,
+    method,
+    verifiedAt: Date.now(),
+  });
+}
+
+/**
+ * What the signed-in user's session still owes before it may act:
+ * administrators must have two-factor set up, and anyone with it enabled
+ * must have passed the second step this session
+ */
+async function getTwoFactorShortfall(
+  ctx: QueryCtx | MutationCtx,
+  user: Doc<"users">
+): Promise<"enrollment" | "verification" | null> {
+  const enabled = parseSecurityPreferences(user.securityPreferences).twoFactorEnabled === true;
+
+  if (!enabled) {
+    return (await isTwoFactorRequired(ctx, user)) ? "enrollment" : null;
+  }
+
+  const sessionId = await getAuthSessionId(ctx);
+  return (await isSessionVerified(ctx, sessionId)) ? null : "verification";
+}
+
+/**
+ * Whether the signed-in user's session has met the two-factor requirement.
+ * Permission checks (lib/rbac.ts) treat sessions that have not as holding
+ * no permissions.
+ */
+export async function isTwoFactorSatisfied(ctx: QueryCtx | MutationCtx, user: Doc<"users">) {
+  return (await getTwoFactorShortfall(ctx, user)) === null;
+}
+
+/**
+ * Guard for sensitive operations: throws with instructions unless the
+ * signed-in user's session has met the two-factor requirement
+ */
+export async function requireTwoFactorVerified(ctx: QueryCtx | MutationCtx, user: Doc<"users">) {
+  const shortfall = await getTwoFactorShortfall(ctx, user);
+  if (shortfall === "enrollment") {
+    throw new Error("Two-factor authentication must be set up before performing this action");
+  }
+  if (shortfall === "verification") {
+    throw new Error("Two-factor verification required. Enter your authenticator code to continue.");
+  }
+}
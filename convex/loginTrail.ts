@@ -2,7 +2,11 @@
 
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { insertSecurityAlert } from "./lib/notifications";
+import { getFailedLoginLockReason } from "./lib/loginRisk";
 
 /**
  * Record a login attempt (success or failure)
@@ -76,12 +80,12 @@ export const recordLoginAttempt = mutation({
           if (failedCount >= 5) {
             await ctx.db.patch(args.userId, {
               isLocked: true,
-              lockReason: `Account locked after ${failedCount} failed login attempts`,
+              lockReason: getFailedLoginLockReason(failedCount),
               lockedAt: now,
             });
 
             // Create security alert
-            await ctx.db.insert("securityAlerts", {
+            await insertSecurityAlert(ctx, {
               type: "account_locked",
               severity: "high",
               userId: args.userId,
@@ -98,7 +102,7 @@ export const recordLoginAttempt = mutation({
 
     // Create security alert for suspicious/blocked attempts
     if (flaggedForReview && args.userId) {
-      await ctx.db.insert("securityAlerts", {
+      await insertSecurityAlert(ctx, {
         type: args.status === "blocked" ? "brute_force_attempt" : "suspicious_login",
         severity: args.status === "blocked" ? "critical" : "medium",
         userId: args.userId,
@@ -156,7 +160,7 @@ export const getRecentLoginAttempts = query({
 
     const page = args.page || 1;
     const pageSize = args.pageSize || 20;
-    const isAdmin = currentUser.role === "super_admin" || currentUser.role === "admin";
+    const isAdmin = await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage);
 
     // Get all attempts based on role
     let attempts;
@@ -333,7 +337,7 @@ export const togglePinLoginAttempt = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -367,7 +371,7 @@ export const blockIPAddress = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -394,7 +398,7 @@ export const blockIPAddress = mutation({
     });
 
     // Create security alert
-    await ctx.db.insert("securityAlerts", {
+    await insertSecurityAlert(ctx, {
       type: "brute_force_attempt",
       severity: "high",
       title: "IP Address Blocked",
@@ -425,7 +429,7 @@ export const blockEmail = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -452,7 +456,7 @@ export const blockEmail = mutation({
     });
 
     // Create security alert
-    await ctx.db.insert("securityAlerts", {
+    await insertSecurityAlert(ctx, {
       type: "brute_force_attempt",
       severity: "high",
       title: "Email Address Blocked",
@@ -484,7 +488,7 @@ export const getLoginStatistics = query({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -559,7 +563,7 @@ export const getSecurityAlerts = query({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -653,7 +657,7 @@ export const updateSecurityAlert = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -701,7 +705,7 @@ export const reviewLoginAttempt = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.security.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
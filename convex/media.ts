@@ -1,8 +1,21 @@
 // convex/media.ts
 
 import { v } from "convex/values";
-import { mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { internalAction, internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { requireOwnUploadSession, toGalleryPhotos } from "./lib/inspectionPhotos";
+import { readPhotoMetadata } from "./lib/photoMetadata";
+import {
+  getDepartmentAccess,
+  requireBreakdownAccess,
+  requireInspectionAccess,
+  requireProjectAccess,
+} from "./lib/departmentAccess";
+
+const photoPhase = v.union(v.literal("before"), v.literal("during"), v.literal("after"));
 
 /**
  * Generate upload URL for image
@@ -37,7 +50,9 @@ export const createUploadSession = mutation({
 });
 
 /**
- * Save media file metadata after upload
+ * Save media file metadata after upload. The uploader's browser uploads the
+ * thumbnail; the EXIF capture time and GPS position are read from the
+ * stored photo afterwards (extractPhotoMetadata).
  */
 export const saveMedia = mutation({
   args: {
@@ -47,12 +62,16 @@ export const saveMedia = mutation({
     size: v.number(),
     sessionId: v.id("uploadSessions"),
     orderInSession: v.number(),
+    thumbnailStorageId: v.optional(v.id("_storage")),
+    caption: v.optional(v.string()),
+    phase: v.optional(photoPhase),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) {
       throw new Error("Not authenticated");
     }
+    await requireOwnUploadSession(ctx, userId, args.sessionId);
 
     const now = Date.now();
 
@@ -64,15 +83,66 @@ export const saveMedia = mutation({
       userId,
       sessionId: args.sessionId,
       orderInSession: args.orderInSession,
+      thumbnailStorageId: args.thumbnailStorageId,
+      caption: args.caption?.trim() || undefined,
+      phase: args.phase,
       uploadedAt: now,
       createdAt: now,
       updatedAt: now,
     });
 
+    await ctx.scheduler.runAfter(0, internal.media.extractPhotoMetadata, {
+      mediaId,
+      storageId: args.storageId,
+    });
+
     return mediaId;
   },
 });
 
+/**
+ * Read the capture time and GPS position from a stored photo's EXIF data
+ */
+export const extractPhotoMetadata = internalAction({
+  args: {
+    mediaId: v.id("media"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.storage.get(args.storageId);
+    if (!file) return;
+
+    const metadata = await readPhotoMetadata(file);
+    if (Object.keys(metadata).length === 0) return;
+
+    await ctx.runMutation(internal.media.setPhotoMetadata, { mediaId: args.mediaId, ...metadata });
+  },
+});
+
+/**
+ * Store the metadata read from a photo
+ */
+export const setPhotoMetadata = internalMutation({
+  args: {
+    mediaId: v.id("media"),
+    capturedAt: v.optional(v.number()),
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    // Deleted before its metadata was read
+    const media = await ctx.db.get(args.mediaId);
+    if (!media) return;
+
+    await ctx.db.patch(args.mediaId, {
+      capturedAt: args.capturedAt,
+      latitude: args.latitude,
+      longitude: args.longitude,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
 /**
  * Get media URLs from storage
  */
@@ -83,4 +153,166 @@ export const getMediaUrl = mutation({
   handler: async (ctx, args) => {
     return await ctx.storage.getUrl(args.storageId);
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Photos of an inspection in the order they were taken. Inspections
+ * created before photos were linked fall back to their upload session.
+ */
+export const listByInspection = query({
+  args: {
+    inspectionId: v.id("inspections"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const inspection = await ctx.db.get(args.inspectionId);
+    if (!inspection) {
+      throw new Error("Inspection not found");
+    }
+    await requireInspectionAccess(ctx, await getDepartmentAccess(ctx, userId), inspection);
+
+    let mediaFiles = await ctx.db
+      .query("media")
+      .withIndex("inspectionId", (q) => q.eq("inspectionId", args.inspectionId))
+      .collect();
+
+    if (mediaFiles.length === 0 && inspection.uploadSessionId) {
+      mediaFiles = await ctx.db
+        .query("media")
+        .withIndex("sessionId", (q) => q.eq("sessionId", inspection.uploadSessionId!))
+        .collect();
+    }
+
+    return await toGalleryPhotos(ctx, mediaFiles);
+  },
+});
+
+/**
+ * Photos from all inspections of a project
+ */
+export const listByProject = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireProjectAccess(ctx, await getDepartmentAccess(ctx, userId), args.projectId);
+
+    const mediaFiles = await ctx.db
+      .query("media")
+      .withIndex("projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    return await toGalleryPhotos(ctx, mediaFiles);
+  },
+});
+
+/**
+ * Photos from all inspections of a breakdown
+ */
+export const listByBreakdown = query({
+  args: {
+    breakdownId: v.id("govtProjectBreakdowns"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const breakdown = await ctx.db.get(args.breakdownId);
+    if (!breakdown) {
+      throw new Error("Breakdown not found");
+    }
+    await requireBreakdownAccess(ctx, await getDepartmentAccess(ctx, userId), breakdown);
+
+    const mediaFiles = await ctx.db
+      .query("media")
+      .withIndex("breakdownId", (q) => q.eq("breakdownId", args.breakdownId))
+      .collect();
+
+    return await toGalleryPhotos(ctx, mediaFiles);
+  },
+});
+
+/**
+ * Set the caption or stage of a photo. Only the uploader or an admin can.
+ */
+export const updateMediaDetails = mutation({
+  args: {
+    mediaId: v.id("media"),
+    caption: v.optional(v.string()),
+    phase: v.optional(photoPhase),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const media = await ctx.db.get(args.mediaId);
+    if (!media) {
+      throw new Error("Photo not found");
+    }
+
+    if (media.userId !== userId && !(await hasPermission(ctx, userId, PERMISSIONS.media.moderate))) {
+      throw new Error("Only the uploader or an admin can edit this photo");
+    }
+
+    await ctx.db.patch(args.mediaId, {
+      ...(args.caption !== undefined ? { caption: args.caption.trim() || undefined } : {}),
+      ...(args.phase !== undefined ? { phase: args.phase } : {}),
+      updatedAt: Date.now(),
+    });
+
+    return args.mediaId;
+  },
+});
+
+/**
+ * Delete a photo and its stored files. Only the uploader or an admin can.
+ */
+export const deleteMedia = mutation({
+  args: {
+    mediaId: v.id("media"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const media = await ctx.db.get(args.mediaId);
+    if (!media) {
+      throw new Error("Photo not found");
+    }
+
+    if (media.userId !== userId && !(await hasPermission(ctx, userId, PERMISSIONS.media.moderate))) {
+      throw new Error("Only the uploader or an admin can delete this photo");
+    }
+
+    await ctx.storage.delete(media.storageId);
+    if (media.thumbnailStorageId) {
+      await ctx.storage.delete(media.thumbnailStorageId);
+    }
+    await ctx.db.delete(args.mediaId);
+
+    // Inspection cards read the image count from the session
+    const session = await ctx.db.get(media.sessionId);
+    if (session) {
+      await ctx.db.patch(media.sessionId, {
+        imageCount: Math.max(0, session.imageCount - 1),
+      });
+    }
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,224 @@
+// convex/notifications.ts
+
+import { v } from "convex/values";
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { Id } from "./_generated/dataModel";
+import {
+  NOTIFICATION_EVENTS,
+  getNotificationSubscriptions,
+  withNotificationSubscription,
+} from "./lib/notifications";
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+const eventValidator = v.union(
+  v.literal("access_request"),
+  v.literal("password_reset_request"),
+  v.literal("security_alert"),
+  v.literal("project_delayed"),
+  v.literal("bug_report"),
+  v.literal("suggestion")
+);
+
+/**
+ * Load a notification owned by the current user
+ */
+async function getOwnNotification(ctx: MutationCtx, id: Id<"notifications">) {
+  const userId = await getAuthUserId(ctx);
+  if (userId === null) {
+    throw new Error("Not authenticated");
+  }
+
+  const notification = await ctx.db.get(id);
+  if (!notification || notification.userId !== userId) {
+    throw new Error("Notification not found");
+  }
+  return notification;
+}
+
+/**
+ * The current user's notifications, newest first
+ */
+export const list = query({
+  args: {
+    archived: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+
+    const limit = Math.min(Math.max(1, args.limit ?? DEFAULT_LIST_LIMIT), MAX_LIST_LIMIT);
+
+    return await ctx.db
+      .query("notifications")
+      .withIndex("userAndArchived", (q) =>
+        q.eq("userId", userId).eq("isArchived", args.archived ?? false)
+      )
+      .order("desc")
+      .take(limit);
+  },
+});
+
+/**
+ * Number of unread notifications for the badge
+ */
+export const getUnreadCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return 0;
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("userAndUnread", (q) =>
+        q.eq("userId", userId).eq("isArchived", false).eq("isRead", false)
+      )
+      .collect();
+
+    return unread.length;
+  },
+});
+
+export const markAsRead = mutation({
+  args: {
+    id: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    const notification = await getOwnNotification(ctx, args.id);
+    if (!notification.isRead) {
+      await ctx.db.patch(args.id, { isRead: true, readAt: Date.now() });
+    }
+    return args.id;
+  },
+});
+
+export const markAsUnread = mutation({
+  args: {
+    id: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnNotification(ctx, args.id);
+    await ctx.db.patch(args.id, { isRead: false, readAt: undefined });
+    return args.id;
+  },
+});
+
+export const markAllAsRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("userAndUnread", (q) =>
+        q.eq("userId", userId).eq("isArchived", false).eq("isRead", false)
+      )
+      .collect();
+
+    const now = Date.now();
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { isRead: true, readAt: now });
+    }
+
+    return { updated: unread.length };
+  },
+});
+
+/**
+ * Archive a notification; archiving also marks it read
+ */
+export const archive = mutation({
+  args: {
+    id: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    const notification = await getOwnNotification(ctx, args.id);
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      isArchived: true,
+      archivedAt: now,
+      isRead: true,
+      readAt: notification.readAt ?? now,
+    });
+    return args.id;
+  },
+});
+
+export const unarchive = mutation({
+  args: {
+    id: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnNotification(ctx, args.id);
+    await ctx.db.patch(args.id, { isArchived: false, archivedAt: undefined });
+    return args.id;
+  },
+});
+
+/**
+ * Events the current user can receive and whether each is on
+ */
+export const getSubscriptions = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return null;
+    }
+
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      return null;
+    }
+
+    const subscriptions = getNotificationSubscriptions(user);
+
+    // Hide events the user would never receive
+    return NOTIFICATION_EVENTS.filter((event) => {
+      if (event.audience === "super_admins") return user.role === "super_admin";
+      if (event.audience === "admins") return user.role === "super_admin" || user.role === "admin";
+      return true;
+    }).map((event) => ({
+      ...event,
+      subscribed: subscriptions[event.key],
+    }));
+  },
+});
+
+/**
+ * Turn one event on or off for the current user
+ */
+export const updateSubscription = mutation({
+  args: {
+    event: eventValidator,
+    subscribed: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch(userId, {
+      preferences: withNotificationSubscription(user, args.event, args.subscribed),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
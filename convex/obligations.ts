@@ -1,39 +1,118 @@
 // convex/obligations.ts
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { DataModel, Id } from "./_generated/dataModel";
+import { recalculateProjectMetrics } from "./lib/projectAggregation";
+import { logProjectActivity } from "./lib/projectActivityLogger";
+import { getDepartmentAccess, requireProjectAccess } from "./lib/departmentAccess";
+import {
+  getObligationStatus,
+  getProjectObligationTotals,
+  recalculateObligationDisbursement,
+} from "./lib/obligationAggregation";
+
+type QueryCtx = GenericQueryCtx<DataModel>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+/**
+ * Throw unless the user can access the project a ledger entry belongs to
+ */
+async function requireLedgerAccess(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">,
+  projectId: Id<"projects">
+) {
+  return requireProjectAccess(ctx, await getDepartmentAccess(ctx, userId), projectId);
+}
+
+/**
+ * Recalculate the project (and, through it, the parent budget item)
+ * after a posted ledger entry changed, and log the resulting figures.
+ */
+async function syncProjectFromLedger(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  userId: Id<"users">,
+  reason: string
+) {
+  const previousProject = await ctx.db.get(projectId);
+  if (!previousProject) throw new Error("Project not found");
+
+  await recalculateProjectMetrics(ctx, projectId, userId);
+
+  const updatedProject = await ctx.db.get(projectId);
+  await logProjectActivity(ctx, userId, {
+    action: "updated",
+    projectId,
+    previousValues: previousProject,
+    newValues: updatedProject,
+    reason,
+  });
+}
+
+/**
+ * Ensure an ObR number is not used by another obligation
+ */
+async function assertUniqueObrNumber(
+  ctx: MutationCtx,
+  obrNumber: string,
+  excludeId?: Id<"obligations">
+) {
+  const duplicate = await ctx.db
+    .query("obligations")
+    .withIndex("obrNumber", (q) => q.eq("obrNumber", obrNumber))
+    .first();
+
+  if (duplicate && duplicate._id !== excludeId) {
+    throw new Error(`ObR number "${obrNumber}" is already in use`);
+  }
+}
 
 /**
- * Create a new obligation entry
+ * Create a new obligation entry (as draft)
  */
-export const create = mutation({
+export const create = permissionMutation(PERMISSIONS.obligation.manage, {
   args: {
     projectId: v.id("projects"),
+    obrNumber: v.string(),
+    payee: v.string(),
     amount: v.number(),
-    name: v.string(),
-    email: v.string(),
-    type: v.string(),
+    obligationDate: v.number(),
     description: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) {
-      throw new Error("Not authenticated");
+    const { userId } = ctx;
+
+    const project = await requireLedgerAccess(ctx, userId, args.projectId);
+    if (project.isDeleted) {
+      throw new Error("Project not found");
     }
 
+    const obrNumber = args.obrNumber.trim();
+    if (!obrNumber) throw new Error("ObR number is required");
+    if (!args.payee.trim()) throw new Error("Payee is required");
+    if (args.amount <= 0) throw new Error("Amount must be greater than zero");
+
+    await assertUniqueObrNumber(ctx, obrNumber);
+
     const now = Date.now();
 
     const obligationId = await ctx.db.insert("obligations", {
       projectId: args.projectId,
+      obrNumber,
+      payee: args.payee.trim(),
       amount: args.amount,
-      name: args.name,
-      email: args.email,
-      type: args.type,
+      obligationDate: args.obligationDate,
+      status: "draft",
+      disbursedAmount: 0,
       description: args.description,
       createdBy: userId,
       createdAt: now,
       updatedAt: now,
+      updatedBy: userId,
     });
 
     return obligationId;
@@ -43,16 +122,14 @@ export const create = mutation({
 /**
  * Get recent obligations for a project (for Overview page)
  */
-export const getRecentByProject = query({
+export const getRecentByProject = permissionQuery(PERMISSIONS.project.view, {
   args: {
     projectId: v.id("projects"),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) {
-      throw new Error("Not authenticated");
-    }
+    const { userId } = ctx;
+    await requireLedgerAccess(ctx, userId, args.projectId);
 
     const limit = args.limit || 4;
 
@@ -69,15 +146,13 @@ export const getRecentByProject = query({
 /**
  * Get all obligations for a project
  */
-export const listByProject = query({
+export const listByProject = permissionQuery(PERMISSIONS.project.view, {
   args: {
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) {
-      throw new Error("Not authenticated");
-    }
+    const { userId } = ctx;
+    await requireLedgerAccess(ctx, userId, args.projectId);
 
     const obligations = await ctx.db
       .query("obligations")
@@ -90,62 +165,359 @@ export const listByProject = query({
 });
 
 /**
- * Update an obligation
+ * Get ledger totals for a project (posted obligations and disbursements)
+ */
+export const getProjectSummary = permissionQuery(PERMISSIONS.project.view, {
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+    const project = await requireLedgerAccess(ctx, userId, args.projectId);
+
+    const totals = await getProjectObligationTotals(ctx, args.projectId);
+
+    return {
+      ...totals,
+      allocated: project.totalBudgetAllocated,
+      unobligated: project.totalBudgetAllocated - totals.obligated,
+      unpaid: totals.obligated - totals.disbursed,
+    };
+  },
+});
+
+/**
+ * Get disbursement vouchers of an obligation
+ */
+export const listVouchers = permissionQuery(PERMISSIONS.project.view, {
+  args: {
+    obligationId: v.id("obligations"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const obligation = await ctx.db.get(args.obligationId);
+    if (!obligation) {
+      throw new Error("Obligation not found");
+    }
+    await requireLedgerAccess(ctx, userId, obligation.projectId);
+
+    return await ctx.db
+      .query("disbursementVouchers")
+      .withIndex("obligationId", (q) => q.eq("obligationId", args.obligationId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Update an obligation (drafts only)
  */
-export const update = mutation({
+export const update = permissionMutation(PERMISSIONS.obligation.manage, {
   args: {
     id: v.id("obligations"),
+    obrNumber: v.string(),
+    payee: v.string(),
     amount: v.number(),
-    name: v.string(),
-    email: v.string(),
-    type: v.string(),
+    obligationDate: v.number(),
     description: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) {
-      throw new Error("Not authenticated");
-    }
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) {
       throw new Error("Obligation not found");
     }
+    await requireLedgerAccess(ctx, userId, existing.projectId);
+
+    if (getObligationStatus(existing) !== "draft") {
+      throw new Error("Only draft obligations can be edited. Cancel the entry and create a new one instead.");
+    }
+
+    const obrNumber = args.obrNumber.trim();
+    if (!obrNumber) throw new Error("ObR number is required");
+    if (!args.payee.trim()) throw new Error("Payee is required");
+    if (args.amount <= 0) throw new Error("Amount must be greater than zero");
+
+    await assertUniqueObrNumber(ctx, obrNumber, args.id);
 
     const now = Date.now();
 
     await ctx.db.patch(args.id, {
+      obrNumber,
+      payee: args.payee.trim(),
       amount: args.amount,
-      name: args.name,
-      email: args.email,
-      type: args.type,
+      obligationDate: args.obligationDate,
       description: args.description,
       updatedAt: now,
+      updatedBy: userId,
+    });
+
+    return args.id;
+  },
+});
+
+/**
+ * Post a draft obligation (draft → obligated)
+ * Rolls the amount up into the project and parent budget item.
+ */
+export const post = permissionMutation(PERMISSIONS.obligation.manage, {
+  args: {
+    id: v.id("obligations"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const existing = await ctx.db.get(args.id);
+    if (!existing) {
+      throw new Error("Obligation not found");
+    }
+    const project = await requireLedgerAccess(ctx, userId, existing.projectId);
+
+    if (getObligationStatus(existing) !== "draft") {
+      throw new Error("Only draft obligations can be posted");
+    }
+
+    // Legacy rows count as drafts but may lack what create requires
+    if (!existing.obrNumber?.trim()) {
+      throw new Error("Add an ObR number before posting this obligation");
+    }
+    if (!existing.payee?.trim()) {
+      throw new Error("Add a payee before posting this obligation");
+    }
+
+    if (project.isDeleted) {
+      throw new Error("Project not found");
+    }
+
+    // Posted obligations may not exceed the project's allocation
+    const totals = await getProjectObligationTotals(ctx, existing.projectId);
+    if (totals.obligated + existing.amount > project.totalBudgetAllocated) {
+      throw new Error(
+        `Posting this obligation would exceed the project's allocated budget (₱${project.totalBudgetAllocated.toLocaleString("en-PH")}).`
+      );
+    }
+
+    const now = Date.now();
+
+    await ctx.db.patch(args.id, {
+      status: "obligated",
+      postedAt: now,
+      postedBy: userId,
+      updatedAt: now,
+      updatedBy: userId,
     });
 
+    await syncProjectFromLedger(
+      ctx,
+      existing.projectId,
+      userId,
+      `Obligation ${existing.obrNumber || ""} posted`.trim()
+    );
+
     return args.id;
   },
 });
 
 /**
- * Delete an obligation
+ * Cancel an obligation
+ * Obligations with paid vouchers must have those vouchers cancelled first.
  */
-export const remove = mutation({
+export const cancel = permissionMutation(PERMISSIONS.obligation.manage, {
   args: {
     id: v.id("obligations"),
+    reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) {
-      throw new Error("Not authenticated");
+    const { userId } = ctx;
+
+    const existing = await ctx.db.get(args.id);
+    if (!existing) {
+      throw new Error("Obligation not found");
+    }
+    await requireLedgerAccess(ctx, userId, existing.projectId);
+
+    const status = getObligationStatus(existing);
+    if (status === "cancelled") {
+      throw new Error("Obligation is already cancelled");
+    }
+
+    const paidVoucher = await ctx.db
+      .query("disbursementVouchers")
+      .withIndex("obligationId", (q) => q.eq("obligationId", args.id))
+      .filter((q) => q.eq(q.field("status"), "paid"))
+      .first();
+
+    if (paidVoucher) {
+      throw new Error("Cancel the paid disbursement vouchers of this obligation first");
+    }
+
+    const now = Date.now();
+
+    await ctx.db.patch(args.id, {
+      status: "cancelled",
+      cancelledAt: now,
+      cancelledBy: userId,
+      cancellationReason: args.reason,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+
+    // Drafts never counted toward the project, so only posted entries need a roll-up
+    if (status !== "draft") {
+      await syncProjectFromLedger(
+        ctx,
+        existing.projectId,
+        userId,
+        args.reason || `Obligation ${existing.obrNumber || ""} cancelled`.trim()
+      );
     }
 
+    return args.id;
+  },
+});
+
+/**
+ * Delete an obligation (drafts only; posted entries must be cancelled)
+ */
+export const remove = permissionMutation(PERMISSIONS.obligation.manage, {
+  args: {
+    id: v.id("obligations"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
     const existing = await ctx.db.get(args.id);
     if (!existing) {
       throw new Error("Obligation not found");
     }
+    await requireLedgerAccess(ctx, userId, existing.projectId);
+
+    if (getObligationStatus(existing) !== "draft") {
+      throw new Error("Only draft obligations can be deleted. Cancel posted obligations instead.");
+    }
 
     await ctx.db.delete(args.id);
     return args.id;
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Record a disbursement voucher against a posted obligation
+ * Marks the obligation as disbursed once fully paid.
+ */
+export const addVoucher = permissionMutation(PERMISSIONS.obligation.manage, {
+  args: {
+    obligationId: v.id("obligations"),
+    dvNumber: v.string(),
+    amount: v.number(),
+    disbursementDate: v.number(),
+    checkNumber: v.optional(v.string()),
+    remarks: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const obligation = await ctx.db.get(args.obligationId);
+    if (!obligation) {
+      throw new Error("Obligation not found");
+    }
+    await requireLedgerAccess(ctx, userId, obligation.projectId);
+
+    const status = getObligationStatus(obligation);
+    if (status !== "obligated") {
+      throw new Error(
+        status === "disbursed"
+          ? "Obligation is already fully disbursed"
+          : "Vouchers can only be recorded against posted obligations"
+      );
+    }
+
+    const dvNumber = args.dvNumber.trim();
+    if (!dvNumber) throw new Error("DV number is required");
+    if (args.amount <= 0) throw new Error("Amount must be greater than zero");
+
+    const duplicate = await ctx.db
+      .query("disbursementVouchers")
+      .withIndex("dvNumber", (q) => q.eq("dvNumber", dvNumber))
+      .first();
+    if (duplicate) {
+      throw new Error(`DV number "${dvNumber}" is already in use`);
+    }
+
+    const remaining = obligation.amount - (obligation.disbursedAmount || 0);
+    if (args.amount > remaining + 0.005) {
+      throw new Error(
+        `Voucher amount exceeds the undisbursed balance of ₱${remaining.toLocaleString("en-PH")}`
+      );
+    }
+
+    const now = Date.now();
+
+    const voucherId = await ctx.db.insert("disbursementVouchers", {
+      obligationId: args.obligationId,
+      projectId: obligation.projectId,
+      dvNumber,
+      amount: args.amount,
+      disbursementDate: args.disbursementDate,
+      checkNumber: args.checkNumber,
+      remarks: args.remarks,
+      status: "paid",
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await recalculateObligationDisbursement(ctx, args.obligationId, userId);
+    await syncProjectFromLedger(
+      ctx,
+      obligation.projectId,
+      userId,
+      `Disbursement voucher ${dvNumber} recorded`
+    );
+
+    return voucherId;
+  },
+});
+
+/**
+ * Cancel a disbursement voucher
+ * A disbursed obligation falls back to "obligated".
+ */
+export const cancelVoucher = permissionMutation(PERMISSIONS.obligation.manage, {
+  args: {
+    id: v.id("disbursementVouchers"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+
+    const voucher = await ctx.db.get(args.id);
+    if (!voucher) {
+      throw new Error("Disbursement voucher not found");
+    }
+    await requireLedgerAccess(ctx, userId, voucher.projectId);
+    if (voucher.status === "cancelled") {
+      throw new Error("Disbursement voucher is already cancelled");
+    }
+
+    const now = Date.now();
+
+    await ctx.db.patch(args.id, {
+      status: "cancelled",
+      cancelledAt: now,
+      cancelledBy: userId,
+      updatedAt: now,
+    });
+
+    await recalculateObligationDisbursement(ctx, voucher.obligationId, userId);
+    await syncProjectFromLedger(
+      ctx,
+      voucher.projectId,
+      userId,
+      `Disbursement voucher ${voucher.dvNumber} cancelled`
+    );
+
+    return args.id;
+  },
+});
@@ -1,14 +1,44 @@
 // convex/passwordReset.ts
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { invalidateSessions, modifyAccountCredentials } from "@convex-dev/auth/server";
+import {
+  RESET_TOKEN_TTL_MS,
+  MAX_REQUESTS_PER_EMAIL_PER_DAY,
+  REQUEST_COOLDOWN_MS,
+  assertNotBlocked,
+  buildPasswordResetEmail,
+  generateResetToken,
+  getDateKey,
+  hashResetToken,
+  recordResetAttempt,
+  validatePasswordStrength,
+} from "./lib/passwordReset";
+import { getMailer } from "./lib/mailer";
+import { assertTrustedServer } from "./lib/trustedServer";
+import { insertAuditedActivity } from "./lib/auditChain";
+import { insertSecurityAlert, notifyAdmins } from "./lib/notifications";
+import { isFailedLoginLock } from "./lib/loginRisk";
 
 /**
- * Submit a password reset request
+ * Submit a password reset request to the admin approval queue
+ * Fallback for users who cannot receive the emailed reset link
  * Rate limited to 1 request per minute and 3 per day
+ * Called by the Next.js server, which supplies the client address
  */
 export const submitPasswordResetRequest = mutation({
   args: {
+    serverSecret: v.string(),
     email: v.string(),
     message: v.optional(v.string()),
     ipAddress: v.string(),
@@ -16,9 +46,11 @@ export const submitPasswordResetRequest = mutation({
     geoLocation: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    assertTrustedServer(args.serverSecret);
     const now = Date.now();
-    const todayKey = new Date(now).toISOString().split('T')[0]; // YYYY-MM-DD
-    
+
+    await assertNotBlocked(ctx, args.email, args.ipAddress);
+
     // Check if user exists
     const user = await ctx.db
       .query("users")
@@ -30,22 +62,6 @@ export const submitPasswordResetRequest = mutation({
       throw new Error("If this email is registered, a password reset request will be submitted.");
     }
 
-    // Check daily attempt limit
-    const attemptRecord = await ctx.db
-      .query("passwordResetAttempts")
-      .withIndex("emailAndDate", (q) => q.eq("email", args.email).eq("dateKey", todayKey))
-      .first();
-
-    if (attemptRecord && attemptRecord.attemptCount >= 3) {
-      throw new Error("You have reached the maximum number of password reset requests for today. Please try again tomorrow.");
-    }
-
-    // Check rate limit (1 minute between requests)
-    if (attemptRecord && (now - attemptRecord.lastAttemptAt) < 60000) {
-      const remainingSeconds = Math.ceil((60000 - (now - attemptRecord.lastAttemptAt)) / 1000);
-      throw new Error(`Please wait ${remainingSeconds} seconds before submitting another request.`);
-    }
-
     // Check for pending requests
     const pendingRequest = await ctx.db
       .query("passwordResetRequests")
@@ -56,31 +72,8 @@ export const submitPasswordResetRequest = mutation({
       throw new Error("You already have a pending password reset request. Please wait for admin review.");
     }
 
-    // Update or create attempt record
-    if (attemptRecord) {
-      // Update existing record
-      const ipAddresses = attemptRecord.ipAddresses 
-        ? JSON.parse(attemptRecord.ipAddresses) 
-        : [];
-      if (!ipAddresses.includes(args.ipAddress)) {
-        ipAddresses.push(args.ipAddress);
-      }
-
-      await ctx.db.patch(attemptRecord._id, {
-        attemptCount: attemptRecord.attemptCount + 1,
-        lastAttemptAt: now,
-        ipAddresses: JSON.stringify(ipAddresses),
-      });
-    } else {
-      // Create new record
-      await ctx.db.insert("passwordResetAttempts", {
-        email: args.email,
-        dateKey: todayKey,
-        attemptCount: 1,
-        lastAttemptAt: now,
-        ipAddresses: JSON.stringify([args.ipAddress]),
-      });
-    }
+    // Daily / per-minute limits, shared with emailed reset links
+    await recordResetAttempt(ctx, args.email, args.ipAddress);
 
     // Create password reset request
     const requestId = await ctx.db.insert("passwordResetRequests", {
@@ -95,7 +88,7 @@ export const submitPasswordResetRequest = mutation({
     });
 
     // Create security alert for admins
-    await ctx.db.insert("securityAlerts", {
+    await insertSecurityAlert(ctx, {
       type: "suspicious_login",
       severity: "low",
       userId: user._id,
@@ -111,6 +104,13 @@ export const submitPasswordResetRequest = mutation({
       createdAt: now,
     });
 
+    await notifyAdmins(ctx, {
+      event: "password_reset_request",
+      title: "Password Reset Requested",
+      message: `${args.email} is waiting for an administrator to reset their password`,
+      link: "/dashboard/settings/user-management/password-reset-management",
+    });
+
     return { 
       success: true, 
       message: "Password reset request submitted successfully. An administrator will review your request shortly." 
@@ -127,7 +127,7 @@ export const checkResetRequestStatus = query({
   },
   handler: async (ctx, args) => {
     const now = Date.now();
-    const todayKey = new Date(now).toISOString().split('T')[0];
+    const todayKey = getDateKey(now);
 
     // Get attempt record
     const attemptRecord = await ctx.db
@@ -138,14 +138,14 @@ export const checkResetRequestStatus = query({
     if (!attemptRecord) {
       return {
         canSubmit: true,
-        attemptsRemaining: 3,
+        attemptsRemaining: MAX_REQUESTS_PER_EMAIL_PER_DAY,
         remainingSeconds: 0,
       };
     }
 
-    const attemptsRemaining = 3 - attemptRecord.attemptCount;
+    const attemptsRemaining = MAX_REQUESTS_PER_EMAIL_PER_DAY - attemptRecord.attemptCount;
     const timeSinceLastAttempt = now - attemptRecord.lastAttemptAt;
-    const remainingSeconds = Math.max(0, Math.ceil((60000 - timeSinceLastAttempt) / 1000));
+    const remainingSeconds = Math.max(0, Math.ceil((REQUEST_COOLDOWN_MS - timeSinceLastAttempt) / 1000));
 
     return {
       canSubmit: attemptsRemaining > 0 && remainingSeconds === 0,
@@ -233,4 +233,304 @@ export const getAllPasswordResetRequests = query({
 
     return enrichedRequests;
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Email a single-use reset link
+ * The token is generated here and only its hash is stored, so the link
+ * exists nowhere but the email. Always answers the same way whether or
+ * not the email is registered. Called by the Next.js server, which
+ * supplies the client address.
+ */
+export const requestPasswordResetEmail = action({
+  args: {
+    serverSecret: v.string(),
+    email: v.string(),
+    ipAddress: v.string(),
+    userAgent: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ success: true; message: string }> => {
+    assertTrustedServer(args.serverSecret);
+    const token = generateResetToken();
+
+    const recipient: { email: string; name?: string } | null = await ctx.runMutation(
+      internal.passwordReset.issueResetToken,
+      {
+        email: args.email.trim(),
+        tokenHash: await hashResetToken(token),
+        ipAddress: args.ipAddress,
+        userAgent: args.userAgent,
+      }
+    );
+
+    if (recipient) {
+      const siteUrl = (process.env.SITE_URL || "http://localhost:3000").replace(/\/$/, "");
+      const resetUrl = `${siteUrl}/forgot-password/reset?token=${encodeURIComponent(token)}`;
+
+      try {
+        await getMailer().send({
+          to: recipient.email,
+          ...buildPasswordResetEmail({ name: recipient.name, resetUrl }),
+        });
+      } catch (error) {
+        // Same response as for unregistered emails, so failures do not reveal
+        // which addresses have accounts
+        console.error("Failed to send password reset email:", error);
+      }
+    }
+
+    return {
+      success: true,
+      message: "If this email is registered, a password reset link has been sent. Check your inbox.",
+    };
+  },
+});
+
+/**
+ * Store a reset token hash after block and rate-limit checks
+ * Returns who to email, or null when there is no active account
+ */
+export const issueResetToken = internalMutation({
+  args: {
+    email: v.string(),
+    tokenHash: v.string(),
+    ipAddress: v.string(),
+    userAgent: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await assertNotBlocked(ctx, args.email, args.ipAddress);
+
+    // Counted even for unknown emails so the IP limit catches enumeration
+    await recordResetAttempt(ctx, args.email, args.ipAddress);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email))
+      .first();
+
+    if (!user || user.status === "inactive" || user.status === "suspended") {
+      return null;
+    }
+
+    const now = Date.now();
+
+    // Only the newest link works
+    const openTokens = await ctx.db
+      .query("passwordResetTokens")
+      .withIndex("userId", (q) => q.eq("userId", user._id))
+      .filter((q) =>
+        q.and(q.eq(q.field("usedAt"), undefined), q.eq(q.field("revokedAt"), undefined))
+      )
+      .collect();
+    for (const token of openTokens) {
+      await ctx.db.patch(token._id, { revokedAt: now });
+    }
+
+    await ctx.db.insert("passwordResetTokens", {
+      userId: user._id,
+      email: args.email,
+      tokenHash: args.tokenHash,
+      expiresAt: now + RESET_TOKEN_TTL_MS,
+      ipAddress: args.ipAddress,
+      userAgent: args.userAgent,
+      createdAt: now,
+    });
+
+    return { email: user.email || args.email, name: user.name };
+  },
+});
+
+/**
+ * Why a reset token cannot be used, or null when it can
+ */
+function getTokenProblem(
+  resetToken: { expiresAt: number; usedAt?: number; revokedAt?: number } | null,
+  now: number
+) {
+  if (!resetToken) return "invalid" as const;
+  if (resetToken.usedAt) return "used" as const;
+  if (resetToken.revokedAt) return "replaced" as const;
+  if (resetToken.expiresAt <= now) return "expired" as const;
+  return null;
+}
+
+/**
+ * Check a reset link before showing the new password form
+ */
+export const getResetTokenStatus = query({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const tokenHash = await hashResetToken(args.token);
+    const resetToken = await ctx.db
+      .query("passwordResetTokens")
+      .withIndex("tokenHash", (q) => q.eq("tokenHash", tokenHash))
+      .first();
+
+    const problem = getTokenProblem(resetToken, Date.now());
+    if (problem || !resetToken) {
+      return { valid: false as const, reason: problem ?? "invalid" };
+    }
+
+    // Mask the address: j***@example.com
+    const [name, domain] = resetToken.email.split("@");
+    return {
+      valid: true as const,
+      email: `${name.charAt(0)}***@${domain}`,
+      expiresAt: resetToken.expiresAt,
+    };
+  },
+});
+
+/**
+ * The valid token with this hash; throws a user-facing error otherwise
+ */
+async function getValidResetToken(ctx: QueryCtx, tokenHash: string, now: number) {
+  const resetToken = await ctx.db
+    .query("passwordResetTokens")
+    .withIndex("tokenHash", (q) => q.eq("tokenHash", tokenHash))
+    .first();
+
+  const problem = getTokenProblem(resetToken, now);
+  if (problem || !resetToken) {
+    throw new Error(
+      problem === "expired"
+        ? "This reset link has expired. Please request a new one."
+        : "This reset link is no longer valid. Please request a new one."
+    );
+  }
+  return resetToken;
+}
+
+/**
+ * Find the password account a reset token resets, without using it up
+ */
+export const findResetAccount = internalQuery({
+  args: {
+    tokenHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const resetToken = await getValidResetToken(ctx, args.tokenHash, Date.now());
+
+    const account = await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) =>
+        q.eq("userId", resetToken.userId).eq("provider", "password")
+      )
+      .first();
+    if (!account) {
+      throw new Error("Password account not found for this user");
+    }
+
+    return {
+      userId: resetToken.userId,
+      accountId: account.providerAccountId,
+    };
+  },
+});
+
+/**
+ * Use up a reset token once the new password has been saved
+ */
+export const consumeResetToken = internalMutation({
+  args: {
+    tokenHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const resetToken = await getValidResetToken(ctx, args.tokenHash, now);
+    await ctx.db.patch(resetToken._id, { usedAt: now });
+  },
+});
+
+/**
+ * Clear a wrong-password lockout and record the reset once the new password
+ * is saved. Other locks stay until an administrator lifts them.
+ */
+export const completeTokenReset = internalMutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const user = await ctx.db.get(args.userId);
+    if (!user) return;
+
+    await ctx.db.patch(args.userId, {
+      failedLoginAttempts: 0,
+      ...(isFailedLoginLock(user) && {
+        isLocked: false,
+        lockReason: undefined,
+        lockedAt: undefined,
+      }),
+      updatedAt: now,
+    });
+
+    // The admin queue no longer needs to act on this user
+    const pendingRequests = await ctx.db
+      .query("passwordResetRequests")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.eq(q.field("status"), "pending"))
+      .collect();
+    for (const request of pendingRequests) {
+      await ctx.db.patch(request._id, {
+        status: "approved",
+        reviewedAt: now,
+        adminNotes: "Closed automatically: user reset the password with an emailed link",
+        passwordChangedAt: now,
+      });
+    }
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: args.userId,
+      targetUserId: args.userId,
+      action: "password_reset",
+      notes: "Password reset with emailed link - all sessions signed out",
+      timestamp: now,
+    });
+
+    await insertSecurityAlert(ctx, {
+      type: "suspicious_login",
+      severity: "low",
+      userId: args.userId,
+      title: "Password Reset Completed",
+      description: `The password for ${user.email} was reset using an emailed link. All existing sessions were signed out.`,
+      status: "open",
+      createdAt: now,
+    });
+  },
+});
+
+/**
+ * Set a new password with an emailed reset token
+ * The password is hashed by the auth provider; every session is signed out.
+ */
+export const resetPasswordWithToken = action({
+  args: {
+    token: v.string(),
+    newPassword: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: true; message: string }> => {
+    validatePasswordStrength(args.newPassword);
+
+    const tokenHash = await hashResetToken(args.token);
+    const { userId, accountId }: { userId: Id<"users">; accountId: string } =
+      await ctx.runQuery(internal.passwordReset.findResetAccount, { tokenHash });
+
+    // The token stays usable if saving the password fails
+    await modifyAccountCredentials(ctx, {
+      provider: "password",
+      account: { id: accountId, secret: args.newPassword },
+    });
+    await ctx.runMutation(internal.passwordReset.consumeResetToken, { tokenHash });
+    await invalidateSessions(ctx, { userId });
+
+    await ctx.runMutation(internal.passwordReset.completeTokenReset, { userId });
+
+    return {
+      success: true,
+      message: "Your password has been reset. You can now sign in with your new password.",
+    };
+  },
+});
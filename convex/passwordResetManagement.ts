@@ -2,7 +2,13 @@
 
 import { v } from "convex/values";
 import { mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { validatePasswordStrength } from "./lib/passwordReset";
+import { insertAuditedActivity } from "./lib/auditChain";
+import { insertSecurityAlert } from "./lib/notifications";
 
 /**
  * Update password reset request status (admin only)
@@ -28,8 +34,8 @@ export const updateRequestStatus = mutation({
       throw new Error("User not found");
     }
 
-    // Only super_admin and admin can update status
-    if (currentUser.role !== "super_admin" && currentUser.role !== "admin") {
+    // Only user managers (admins by default) can update status
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -53,7 +59,7 @@ export const updateRequestStatus = mutation({
     });
 
     // Log the action in audit log
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: request.userId,
       action: "user_updated",
@@ -73,6 +79,7 @@ export const updateRequestStatus = mutation({
 /**
  * Set new password for user (admin only)
  * This approves the request and sets the new password
+ * Fallback for users who cannot use the emailed reset link
  * 
  * SECURITY NOTE: 
  * - The new password is ONLY hashed, never stored in plain text
@@ -98,11 +105,14 @@ export const setNewPassword = mutation({
       throw new Error("User not found");
     }
 
-    // Only super_admin and admin can set passwords
-    if (currentUser.role !== "super_admin" && currentUser.role !== "admin") {
+    // Only user managers (admins by default) can set passwords
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
+    // 🆕 Setting someone else's password needs a two-factor verified session
+    await requireTwoFactorVerified(ctx, currentUser);
+
     const request = await ctx.db.get(args.requestId);
     if (!request) {
       throw new Error("Password reset request not found");
@@ -122,20 +132,7 @@ export const setNewPassword = mutation({
     }
 
     // Validate password strength
-    if (args.newPassword.length < 8) {
-      throw new Error("Password must be at least 8 characters long");
-    }
-
-    const hasUppercase = /[A-Z]/.test(args.newPassword);
-    const hasLowercase = /[a-z]/.test(args.newPassword);
-    const hasNumber = /[0-9]/.test(args.newPassword);
-    const hasSymbol = /[!@#$%^&*]/.test(args.newPassword);
-
-    if (!hasUppercase || !hasLowercase || !hasNumber || !hasSymbol) {
-      throw new Error(
-        "Password must contain at least one uppercase letter, lowercase letter, number, and symbol (!@#$%^&*)"
-      );
-    }
+    validatePasswordStrength(args.newPassword);
 
     const now = Date.now();
 
@@ -188,7 +185,7 @@ export const setNewPassword = mutation({
 
     // Log the action in audit log
     // SECURITY: No password information (old or new) is logged
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: request.userId,
       action: "user_updated",
@@ -206,7 +203,7 @@ export const setNewPassword = mutation({
     });
 
     // Create security alert for the user
-    await ctx.db.insert("securityAlerts", {
+    await insertSecurityAlert(ctx, {
       type: "suspicious_login",
       severity: "medium",
       userId: request.userId,
@@ -247,8 +244,8 @@ export const getRequestDetails = mutation({
       throw new Error("User not found");
     }
 
-    // Only super_admin and admin can view details
-    if (currentUser.role !== "super_admin" && currentUser.role !== "admin") {
+    // Only user managers (admins by default) can view details
+    if (!(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -322,6 +319,7 @@ export const cleanupOldRequests = mutation({
     if (currentUser.role !== "super_admin") {
       throw new Error("Not authorized - super_admin access required");
     }
+    await requireTwoFactorVerified(ctx, currentUser);
 
     const cutoffDate = Date.now() - (args.olderThanDays * 24 * 60 * 60 * 1000);
 
@@ -348,7 +346,7 @@ export const cleanupOldRequests = mutation({
     }
 
     // Log the cleanup
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       action: "user_updated",
       notes: `Cleaned up ${deletedCount} old password reset requests (older than ${args.olderThanDays} days) - all password data permanently removed`,
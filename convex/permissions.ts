@@ -1,15 +1,81 @@
 // convex/permissions.ts
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { query, mutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { validateExpiresAt } from "./lib/accessExpiry";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  CONFIGURABLE_ROLES,
+  PERMISSIONS,
+  PERMISSION_CATALOGUE,
+  getPermissionDefinition,
+  isGrantedByDefault,
+} from "./lib/permissionCatalogue";
+import { getUserEffectivePermissions, hasPermission } from "./lib/rbac";
+import {
+  RoleLink,
+  SYSTEM_ROLES,
+  getRoleByKey,
+  getRoleChain,
+  getRoleGrant,
+  isSystemRoleKey,
+} from "./lib/roles";
+import { insertAuditedActivity } from "./lib/auditChain";
+
+/**
+ * The grant row configured directly on a role, by role key
+ */
+async function findRoleGrant(
+  ctx: QueryCtx | MutationCtx,
+  roleKey: string,
+  permissionId: Id<"permissions">
+): Promise<Doc<"rolePermissions"> | null> {
+  const role = await getRoleByKey(ctx, roleKey);
+  if (!role && !isSystemRoleKey(roleKey)) {
+    throw new Error("Role not found");
+  }
+  return await getRoleGrant(ctx, { key: roleKey, roleId: role?._id ?? null }, permissionId);
+}
+
+/**
+ * Grant or deny a permission to a role, by role key
+ */
+async function upsertRoleGrant(
+  ctx: MutationCtx,
+  roleKey: string,
+  permissionId: Id<"permissions">,
+  isGranted: boolean,
+  userId: Id<"users">
+): Promise<Id<"rolePermissions">> {
+  const role = await getRoleByKey(ctx, roleKey);
+  const existing = await findRoleGrant(ctx, roleKey, permissionId);
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { isGranted, roleId: role?._id ?? existing.roleId });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("rolePermissions", {
+    roleId: role?._id,
+    // Built-in roles keep the literal so pre-migration lookups still match
+    role: isSystemRoleKey(roleKey) ? roleKey : undefined,
+    permissionId,
+    isGranted,
+    createdAt: Date.now(),
+    createdBy: userId,
+  });
+}
 
 /**
  * Check if current user has a specific permission
+ * Resolves through the user's roles (see lib/rbac.hasPermission)
  */
 export const checkPermission = query({
   args: {
     permissionKey: v.string(),
+    departmentId: v.optional(v.id("departments")),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -17,56 +83,13 @@ export const checkPermission = query({
       return { hasPermission: false, reason: "Not authenticated" };
     }
 
-    const user = await ctx.db.get(userId);
-    if (!user || !user.role) {
-      return { hasPermission: false, reason: "User role not set" };
-    }
-
-    // Super admin has all permissions
-    if (user.role === "super_admin") {
-      return { hasPermission: true };
-    }
-
-    // Check for user-specific permission override first
-    const permission = await ctx.db
-      .query("permissions")
-      .withIndex("key", (q) => q.eq("key", args.permissionKey))
-      .first();
-
-    if (!permission) {
-      return { hasPermission: false, reason: "Permission not found" };
-    }
-
-    // Check user-specific override
-    const userPermission = await ctx.db
-      .query("userPermissions")
-      .withIndex("userAndPermission", (q) => 
-        q.eq("userId", userId).eq("permissionId", permission._id)
-      )
-      .first();
-
-    if (userPermission) {
-      // Check if permission has expired
-      if (userPermission.expiresAt && userPermission.expiresAt < Date.now()) {
-        return { hasPermission: false, reason: "Permission expired" };
-      }
-      return { hasPermission: userPermission.isGranted };
-    }
-
-    // Check role-based permission
-    const rolePermission = await ctx.db
-      .query("rolePermissions")
-      .withIndex("roleAndPermission", (q) => 
-        q.eq("role", user.role!).eq("permissionId", permission._id)
-      )
-      .first();
-
-    if (rolePermission) {
-      return { hasPermission: rolePermission.isGranted };
+    const allowed = await hasPermission(ctx, userId, args.permissionKey, {
+      departmentId: args.departmentId,
+    });
+    if (!allowed) {
+      return { hasPermission: false, reason: "Permission not granted" };
     }
-
-    // No permission found, default to false
-    return { hasPermission: false, reason: "Permission not granted" };
+    return { hasPermission: true };
   },
 });
 
@@ -81,66 +104,12 @@ export const getUserPermissions = query({
       throw new Error("Not authenticated");
     }
 
-    const user = await ctx.db.get(userId);
-    if (!user || !user.role) {
-      return [];
-    }
-
-    // Super admin has all permissions
-    if (user.role === "super_admin") {
-      const allPermissions = await ctx.db
-        .query("permissions")
-        .withIndex("isActive", (q) => q.eq("isActive", true))
-        .collect();
-      return allPermissions.map(p => p.key);
-    }
-
-    // Get role-based permissions
-    const rolePermissions = await ctx.db
-      .query("rolePermissions")
-      .withIndex("role", (q) => q.eq("role", user.role!))
-      .collect();
-
-    // Get user-specific overrides
-    const userPermissions = await ctx.db
-      .query("userPermissions")
-      .withIndex("userId", (q) => q.eq("userId", userId))
-      .collect();
-
-    // Filter out expired permissions
-    const now = Date.now();
-    const validUserPermissions = userPermissions.filter(
-      up => !up.expiresAt || up.expiresAt > now
-    );
-
-    // Build permission map
-    const permissionMap = new Map<string, boolean>();
-
-    // Add role permissions
-    for (const rp of rolePermissions) {
-      const permission = await ctx.db.get(rp.permissionId);
-      if (permission && permission.isActive) {
-        permissionMap.set(permission.key, rp.isGranted);
-      }
-    }
-
-    // Override with user-specific permissions
-    for (const up of validUserPermissions) {
-      const permission = await ctx.db.get(up.permissionId);
-      if (permission && permission.isActive) {
-        permissionMap.set(permission.key, up.isGranted);
-      }
-    }
-
-    // Return only granted permissions
-    return Array.from(permissionMap.entries())
-      .filter(([_, granted]) => granted)
-      .map(([key, _]) => key);
+    return await getUserEffectivePermissions(ctx, userId);
   },
 });
 
 /**
- * List all permissions (super_admin or admin only)
+ * List all permissions (requires role.manage)
  */
 export const list = query({
   args: {
@@ -153,7 +122,7 @@ export const list = query({
     }
 
     const currentUser = await ctx.db.get(userId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -195,6 +164,7 @@ export const create = mutation({
     if (!currentUser || currentUser.role !== "super_admin") {
       throw new Error("Not authorized - super_admin access required");
     }
+    await requireTwoFactorVerified(ctx, currentUser);
 
     // Check if permission key already exists
     const existing = await ctx.db
@@ -244,6 +214,7 @@ export const update = mutation({
     if (!currentUser || currentUser.role !== "super_admin") {
       throw new Error("Not authorized - super_admin access required");
     }
+    await requireTwoFactorVerified(ctx, currentUser);
 
     const existing = await ctx.db.get(args.id);
     if (!existing) {
@@ -282,12 +253,10 @@ export const update = mutation({
  */
 export const assignToRole = mutation({
   args: {
-    role: v.union(
-      v.literal("super_admin"),
-      v.literal("admin"),
-      v.literal("inspector"),
-      v.literal("user")
-    ),
+    /**
+     * Role key: one of the built-in roles or a custom role
+     */
+    role: v.string(),
     permissionId: v.id("permissions"),
     isGranted: v.boolean(),
   },
@@ -301,6 +270,7 @@ export const assignToRole = mutation({
     if (!currentUser || currentUser.role !== "super_admin") {
       throw new Error("Not authorized - super_admin access required");
     }
+    await requireTwoFactorVerified(ctx, currentUser);
 
     // Verify permission exists
     const permission = await ctx.db.get(args.permissionId);
@@ -308,33 +278,7 @@ export const assignToRole = mutation({
       throw new Error("Permission not found");
     }
 
-    // Check if assignment already exists
-    const existing = await ctx.db
-      .query("rolePermissions")
-      .withIndex("roleAndPermission", (q) => 
-        q.eq("role", args.role).eq("permissionId", args.permissionId)
-      )
-      .first();
-
-    const now = Date.now();
-
-    if (existing) {
-      // Update existing
-      await ctx.db.patch(existing._id, {
-        isGranted: args.isGranted,
-      });
-      return existing._id;
-    } else {
-      // Create new
-      const assignmentId = await ctx.db.insert("rolePermissions", {
-        role: args.role,
-        permissionId: args.permissionId,
-        isGranted: args.isGranted,
-        createdAt: now,
-        createdBy: userId,
-      });
-      return assignmentId;
-    }
+    return await upsertRoleGrant(ctx, args.role, args.permissionId, args.isGranted, userId);
   },
 });
 
@@ -343,12 +287,10 @@ export const assignToRole = mutation({
  */
 export const removeFromRole = mutation({
   args: {
-    role: v.union(
-      v.literal("super_admin"),
-      v.literal("admin"),
-      v.literal("inspector"),
-      v.literal("user")
-    ),
+    /**
+     * Role key: one of the built-in roles or a custom role
+     */
+    role: v.string(),
     permissionId: v.id("permissions"),
   },
   handler: async (ctx, args) => {
@@ -361,14 +303,9 @@ export const removeFromRole = mutation({
     if (!currentUser || currentUser.role !== "super_admin") {
       throw new Error("Not authorized - super_admin access required");
     }
+    await requireTwoFactorVerified(ctx, currentUser);
 
-    const existing = await ctx.db
-      .query("rolePermissions")
-      .withIndex("roleAndPermission", (q) => 
-        q.eq("role", args.role).eq("permissionId", args.permissionId)
-      )
-      .first();
-
+    const existing = await findRoleGrant(ctx, args.role, args.permissionId);
     if (!existing) {
       throw new Error("Permission assignment not found");
     }
@@ -379,7 +316,7 @@ export const removeFromRole = mutation({
 });
 
 /**
- * Grant permission to specific user (super_admin or admin only)
+ * Grant permission to specific user (requires role.manage)
  */
 export const grantToUser = mutation({
   args: {
@@ -396,10 +333,12 @@ export const grantToUser = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
+    validateExpiresAt(args.expiresAt);
+
     // Verify target user exists
     const targetUser = await ctx.db.get(args.userId);
     if (!targetUser) {
@@ -428,10 +367,11 @@ export const grantToUser = mutation({
         isGranted: args.isGranted,
         reason: args.reason,
         expiresAt: args.expiresAt,
+        expiryNotifiedAt: undefined,
       });
 
       // Log the action
-      await ctx.db.insert("userAuditLog", {
+      await insertAuditedActivity(ctx, "userAuditLog", {
         performedBy: currentUserId,
         targetUserId: args.userId,
         action: args.isGranted ? "permission_granted" : "permission_revoked",
@@ -457,7 +397,7 @@ export const grantToUser = mutation({
       });
 
       // Log the action
-      await ctx.db.insert("userAuditLog", {
+      await insertAuditedActivity(ctx, "userAuditLog", {
         performedBy: currentUserId,
         targetUserId: args.userId,
         action: args.isGranted ? "permission_granted" : "permission_revoked",
@@ -475,7 +415,7 @@ export const grantToUser = mutation({
 });
 
 /**
- * Remove user permission override (super_admin or admin only)
+ * Remove user permission override (requires role.manage)
  */
 export const removeFromUser = mutation({
   args: {
@@ -489,7 +429,7 @@ export const removeFromUser = mutation({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -510,7 +450,7 @@ export const removeFromUser = mutation({
     const permission = await ctx.db.get(args.permissionId);
     const now = Date.now();
     
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: args.userId,
       action: "permission_revoked",
@@ -529,12 +469,10 @@ export const removeFromUser = mutation({
  */
 export const getRolePermissions = query({
   args: {
-    role: v.union(
-      v.literal("super_admin"),
-      v.literal("admin"),
-      v.literal("inspector"),
-      v.literal("user")
-    ),
+    /**
+     * Role key: one of the built-in roles or a custom role
+     */
+    role: v.string(),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -543,14 +481,27 @@ export const getRolePermissions = query({
     }
 
     const currentUser = await ctx.db.get(userId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
-    const rolePermissions = await ctx.db
-      .query("rolePermissions")
-      .withIndex("role", (q) => q.eq("role", args.role))
-      .collect();
+    const role = await getRoleByKey(ctx, args.role);
+    const rolePermissions = role
+      ? await ctx.db
+          .query("rolePermissions")
+          .withIndex("roleId", (q) => q.eq("roleId", role._id))
+          .collect()
+      : [];
+
+    // Grants written before the roles migration only carry the literal
+    if (isSystemRoleKey(args.role)) {
+      const key = args.role;
+      const legacy = await ctx.db
+        .query("rolePermissions")
+        .withIndex("role", (q) => q.eq("role", key))
+        .collect();
+      rolePermissions.push(...legacy.filter((rp) => !rp.roleId));
+    }
 
     // Enrich with permission details
     const enriched = await Promise.all(
@@ -583,7 +534,7 @@ export const getUserPermissionOverrides = query({
     }
 
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -611,4 +562,226 @@ export const getUserPermissionOverrides = query({
 
     return enriched;
   },
-});
\ No newline at end of file
+});
+
+// ============================================================================
+// ROLE / PERMISSION MATRIX
+// ============================================================================
+
+/**
+ * Effective grant of every permission for every role except super_admin.
+ * Includes catalogue permissions that have not been seeded yet, and the
+ * built-in roles before they have been migrated into the roles table.
+ */
+export const getPermissionMatrix = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+
+    const permissions = await ctx.db.query("permissions").collect();
+    const permissionsByKey = new Map(permissions.map((p) => [p.key, p]));
+
+    // Load every grant once and resolve the matrix in memory
+    const grantsByRoleId = new Map<string, boolean>();
+    const grantsByLiteral = new Map<string, boolean>();
+    for (const grant of await ctx.db.query("rolePermissions").collect()) {
+      if (grant.roleId) grantsByRoleId.set(`${grant.roleId}:${grant.permissionId}`, grant.isGranted);
+      if (grant.role) grantsByLiteral.set(`${grant.role}:${grant.permissionId}`, grant.isGranted);
+    }
+    const getGrant = (link: RoleLink, permissionId: Id<"permissions"> | undefined) => {
+      if (!permissionId) return undefined;
+      return (
+        (link.roleId ? grantsByRoleId.get(`${link.roleId}:${permissionId}`) : undefined) ??
+        (isSystemRoleKey(link.key) ? grantsByLiteral.get(`${link.key}:${permissionId}`) : undefined)
+      );
+    };
+    const resolve = (
+      chain: RoleLink[],
+      key: string,
+      permissionId: Id<"permissions"> | undefined
+    ): boolean => {
+      for (const link of chain) {
+        const grant = getGrant(link, permissionId);
+        if (grant !== undefined) return grant;
+      }
+      return isGrantedByDefault(key, chain[chain.length - 1].key);
+    };
+
+    const roleRows = (await ctx.db.query("roles").collect()).filter(
+      (role) => role.key !== "super_admin" && role.isActive
+    );
+    const roles =
+      roleRows.length > 0
+        ? await Promise.all(
+            roleRows.map(async (role) => ({
+              key: role.key,
+              name: role.name,
+              isSystem: role.isSystem,
+              chain: await getRoleChain(ctx, role),
+            }))
+          )
+        : CONFIGURABLE_ROLES.map((key) => ({
+            key: key as string,
+            name: SYSTEM_ROLES.find((role) => role.key === key)?.name ?? key,
+            isSystem: true,
+            chain: [{ key: key as string, roleId: null }] as RoleLink[],
+          }));
+    roles.sort((a, b) => {
+      if (a.isSystem !== b.isSystem) return a.isSystem ? -1 : 1;
+      return 0;
+    });
+
+    const keys = [
+      ...PERMISSION_CATALOGUE.map((definition) => definition.key),
+      ...permissions
+        .filter((permission) => !getPermissionDefinition(permission.key))
+        .map((permission) => permission.key),
+    ];
+
+    const rows = keys.map((key) => {
+      const definition = getPermissionDefinition(key);
+      const permission = permissionsByKey.get(key);
+
+      return {
+        key,
+        name: permission?.name ?? definition?.name ?? key,
+        description: permission?.description ?? definition?.description ?? "",
+        category: permission?.category ?? definition?.category ?? "other",
+        isActive: permission?.isActive ?? true,
+        roles: roles.map((role) => {
+          const [own, ...ancestors] = role.chain;
+          const isGranted = resolve(role.chain, key, permission?._id);
+          // What the role would get from its parent or the catalogue alone
+          const inherited =
+            ancestors.length > 0
+              ? resolve(ancestors, key, permission?._id)
+              : isGrantedByDefault(key, own.key);
+          const grant = getGrant(own, permission?._id);
+          return {
+            role: role.key,
+            isGranted,
+            isCustomized: grant !== undefined && grant !== inherited,
+          };
+        }),
+      };
+    });
+
+    return {
+      roles: roles.map(({ key, name, isSystem }) => ({ key, name, isSystem })),
+      rows,
+    };
+  },
+});
+
+/**
+ * Grant or deny a permission to a role from the matrix (super_admin only).
+ * Seeds the permission from the catalogue if it is not in the table yet.
+ */
+export const setRolePermission = mutation({
+  args: {
+    /**
+     * Role key: one of the built-in roles or a custom role
+     */
+    role: v.string(),
+    permissionKey: v.string(),
+    isGranted: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || currentUser.role !== "super_admin") {
+      throw new Error("Not authorized - super_admin access required");
+    }
+    await requireTwoFactorVerified(ctx, currentUser);
+
+    if (args.role === "super_admin") {
+      throw new Error("Super Admin always holds every permission");
+    }
+
+    const now = Date.now();
+    let permission = await ctx.db
+      .query("permissions")
+      .withIndex("key", (q) => q.eq("key", args.permissionKey))
+      .first();
+
+    if (!permission) {
+      const definition = getPermissionDefinition(args.permissionKey);
+      if (!definition) {
+        throw new Error("Permission not found");
+      }
+      const id = await ctx.db.insert("permissions", {
+        key: definition.key,
+        name: definition.name,
+        description: definition.description,
+        category: definition.category,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+      permission = await ctx.db.get(id);
+      if (!permission) throw new Error("Permission not found");
+    }
+
+    return await upsertRoleGrant(ctx, args.role, permission._id, args.isGranted, userId);
+  },
+});
+
+/**
+ * Drop the role grants of a permission so every role inherits again and
+ * the catalogue defaults apply (super_admin only)
+ */
+export const resetRolePermissions = mutation({
+  args: {
+    permissionKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || currentUser.role !== "super_admin") {
+      throw new Error("Not authorized - super_admin access required");
+    }
+    await requireTwoFactorVerified(ctx, currentUser);
+
+    const permission = await ctx.db
+      .query("permissions")
+      .withIndex("key", (q) => q.eq("key", args.permissionKey))
+      .first();
+
+    if (!permission) {
+      return { removed: 0 };
+    }
+
+    const superAdminRole = await getRoleByKey(ctx, "super_admin");
+    const grants = await ctx.db
+      .query("rolePermissions")
+      .withIndex("permissionId", (q) => q.eq("permissionId", permission._id))
+      .collect();
+
+    let removed = 0;
+    for (const grant of grants) {
+      if (grant.role === "super_admin" || (superAdminRole && grant.roleId === superAdminRole._id)) {
+        continue;
+      }
+      await ctx.db.delete(grant._id);
+      removed++;
+    }
+
+    return { removed };
+  },
+});
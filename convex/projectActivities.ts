@@ -1,8 +1,27 @@
 // convex/projectActivities.ts
 
 import { v } from "convex/values";
-import { query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "./lib/sessions";
+import {
+  createBreakdownDepartmentResolver,
+  filterByResolvedDepartment,
+  getDepartmentAccess,
+} from "./lib/departmentAccess";
+
+/**
+ * Row-level access: project activities carry the same owner fields as
+ * breakdowns (the project, or the implementing office once it is gone)
+ */
+async function filterVisibleActivities(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  activities: Doc<"projectActivities">[]
+) {
+  const access = await getDepartmentAccess(ctx, userId);
+  return filterByResolvedDepartment(access, activities, createBreakdownDepartmentResolver(ctx));
+}
 
 export const getByProject = query({
   args: {
@@ -15,11 +34,13 @@ export const getByProject = query({
 
     const limit = args.limit || 50;
     
-    return await ctx.db
+    const activities = await ctx.db
       .query("projectActivities")
       .withIndex("projectId", (q) => q.eq("projectId", args.projectId))
       .order("desc")
       .take(limit);
+
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -31,11 +52,13 @@ export const getAll = query({
 
     const limit = args.limit || 50;
     
-    return await ctx.db
+    const activities = await ctx.db
       .query("projectActivities")
       .withIndex("timestamp")
       .order("desc")
       .take(limit);
+
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -50,10 +73,12 @@ export const getByBudgetItem = query({
 
     const limit = args.limit || 50;
     
-    return await ctx.db
+    const activities = await ctx.db
       .query("projectActivities")
       .filter((q) => q.eq(q.field("budgetItemId"), args.budgetItemId))
       .order("desc")
       .take(limit);
+
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
\ No newline at end of file
@@ -0,0 +1,79 @@
+// convex/projectAnalytics.ts
+
+import { v } from "convex/values";
+import { permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { getDepartmentAccess, requireDepartmentAccess } from "./lib/departmentAccess";
+import {
+  buildPlannedCurve,
+  buildProjectTrend,
+  forecastCompletion,
+  getPlannedWindow,
+  plannedProgress,
+} from "./lib/projectTrend";
+
+/**
+ * Utilization trend of a project against its planned S-curve, with the
+ * current slippage and a completion forecast at the recent burn rate
+ */
+export const getTrend = permissionQuery(PERMISSIONS.project.view, {
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = ctx;
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.isDeleted) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), project.departmentId, "project");
+
+    // Trashed breakdowns still have history worth replaying
+    const allBreakdowns = await ctx.db
+      .query("govtProjectBreakdowns")
+      .withIndex("projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const activeBreakdowns = allBreakdowns.filter((breakdown) => !breakdown.isDeleted);
+
+    const now = Date.now();
+    const allocated = project.totalBudgetAllocated || 0;
+    const history = await buildProjectTrend(
+      ctx,
+      args.projectId,
+      allBreakdowns.map((breakdown) => breakdown._id)
+    );
+
+    // The stored totals are authoritative for today (e.g. posted obligations)
+    const points = [
+      ...history.filter((point) => point.timestamp < now),
+      {
+        timestamp: now,
+        obligated: project.obligatedBudget || 0,
+        utilized: project.totalBudgetUtilized || 0,
+      },
+    ];
+
+    const window = getPlannedWindow(project, activeBreakdowns);
+    const planned =
+      window.end !== undefined && window.end > window.start
+        ? buildPlannedCurve(window.start, window.end, allocated)
+        : [];
+
+    const actualPercent = allocated > 0 ? ((project.totalBudgetUtilized || 0) / allocated) * 100 : 0;
+    const plannedPercent =
+      window.end !== undefined ? plannedProgress(window.start, window.end, now) * 100 : null;
+
+    return {
+      allocated,
+      obligated: project.obligatedBudget || 0,
+      utilized: project.totalBudgetUtilized || 0,
+      plannedStart: window.start,
+      plannedEnd: window.end ?? null,
+      points,
+      planned,
+      actualPercent,
+      plannedPercent,
+      // Actual minus planned; negative means behind schedule
+      slippage: plannedPercent !== null ? actualPercent - plannedPercent : null,
+      ...forecastCompletion(points, allocated, now),
+    };
+  },
+});
@@ -2,7 +2,10 @@
 
 import { v } from "convex/values";
 import { query, mutation, internalMutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 
 /**
  * LIST ALL ACTIVE PROJECT CATEGORIES
@@ -35,7 +38,7 @@ export const listAll = query({
     if (!userId) throw new Error("Not authenticated");
 
     const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "super_admin" && user.role !== "admin")) {
+    if (!user || !(await hasPermission(ctx, user._id, PERMISSIONS.category.manage))) {
       throw new Error("Only admins can view all categories");
     }
 
@@ -194,7 +197,7 @@ export const update = mutation({
     if (!existing) throw new Error("Category not found");
 
     // Regular users cannot edit system defaults
-    if (existing.isSystemDefault && user.role !== "super_admin" && user.role !== "admin") {
+    if (existing.isSystemDefault && !(await hasPermission(ctx, user._id, PERMISSIONS.category.manage))) {
       throw new Error("Only admins can edit system default categories");
     }
 
@@ -280,7 +283,7 @@ export const toggleActive = mutation({
     if (!existing) throw new Error("Category not found");
 
     // Only admins can deactivate system defaults
-    if (existing.isSystemDefault && user.role !== "super_admin" && user.role !== "admin") {
+    if (existing.isSystemDefault && !(await hasPermission(ctx, user._id, PERMISSIONS.category.manage))) {
       throw new Error("Only admins can deactivate system default categories");
     }
 
@@ -329,6 +332,7 @@ export const remove = mutation({
 
     if (args.permanent) {
       // PERMANENT DELETE
+      await requireTwoFactorVerified(ctx, user);
       // First, check if any projects are using this category
       const projectsUsingCategory = await ctx.db
         .query("projects")
@@ -391,7 +395,7 @@ export const getUsageStats = query({
     if (!userId) throw new Error("Not authenticated");
 
     const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "super_admin" && user.role !== "admin")) {
+    if (!user || !(await hasPermission(ctx, user._id, PERMISSIONS.category.manage))) {
       throw new Error("Only admins can view usage statistics");
     }
 
@@ -0,0 +1,28 @@
+// convex/projectMap.ts
+
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { buildLocationSummary } from "./lib/locationAggregation";
+import { getDepartmentAccess } from "./lib/departmentAccess";
+
+/**
+ * Breakdown counts, budget and status per location for the project map.
+ * With no location it covers the province; pass a district and/or
+ * municipality to drill down (barangays are returned for a municipality).
+ */
+export const getLocationSummary = query({
+  args: {
+    year: v.optional(v.number()),
+    fundSource: v.optional(v.string()),
+    implementingOffice: v.optional(v.string()),
+    district: v.optional(v.string()),
+    municipality: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    return await buildLocationSummary(ctx, await getDepartmentAccess(ctx, userId), args);
+  },
+});
@@ -1,7 +1,8 @@
 // convex/projectParticulars.ts
 import { v } from "convex/values";
 import { query, mutation, internalMutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
 
 /**
  * ============================================================================
@@ -430,6 +431,7 @@ export const recalculateUsageCounts = mutation({
     if (!user || user.role !== "super_admin") {
       throw new Error("Only super_admin can recalculate usage counts");
     }
+    await requireTwoFactorVerified(ctx, user);
 
     const allParticulars = await ctx.db.query("projectParticulars").collect();
     
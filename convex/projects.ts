@@ -1,25 +1,30 @@
 // convex/projects.ts
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 import { recalculateBudgetItemMetrics } from "./lib/budgetAggregation";
 import { recalculateProjectMetrics } from "./lib/projectAggregation";
 import { logProjectActivity } from "./lib/projectActivityLogger";
+import {
+  filterByDepartment,
+  getDepartmentAccess,
+  hasDepartmentAccess,
+  requireDepartmentAccess,
+} from "./lib/departmentAccess";
 import { internal } from "./_generated/api";
 
 /**
  * Get ACTIVE projects (Hidden Trash)
  * 🆕 ENHANCED: Added category and year filtering
  */
-export const list = query({
+export const list = permissionQuery(PERMISSIONS.project.view, {
   args: {
     budgetItemId: v.optional(v.id("budgetItems")),
     categoryId: v.optional(v.id("projectCategories")),
     year: v.optional(v.number()), // ✨ NEW: Year filter
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     let projects;
 
@@ -55,24 +60,27 @@ export const list = query({
       projects = projects.filter((project) => project.year === args.year);
     }
 
-    return projects;
+    // Row-level access: only projects of departments the user can see
+    const access = await getDepartmentAccess(ctx, userId);
+    return filterByDepartment(access, projects);
   },
 });
 
 /**
  * Get TRASHED projects only
  */
-export const getTrash = query({
+export const getTrash = permissionQuery(PERMISSIONS.project.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
-    return await ctx.db
+    const trashed = await ctx.db
       .query("projects")
       .withIndex("isDeleted", (q) => q.eq("isDeleted", true))
       .order("desc")
       .collect();
+
+    return filterByDepartment(await getDepartmentAccess(ctx, userId), trashed);
   },
 });
 
@@ -81,18 +89,18 @@ export const getTrash = query({
  * Cascades to children (Breakdowns) and updates parent Budget Item.
  * 🆕 ENHANCED: Updates category usage count
  */
-export const moveToTrash = mutation({
+export const moveToTrash = permissionMutation(PERMISSIONS.project.trash, {
   args: {
     id: v.id("projects"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const now = Date.now();
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "project");
 
     // 1. Trash Project
     await ctx.db.patch(args.id, {
@@ -161,14 +169,14 @@ export const moveToTrash = mutation({
  * Cascades restore to children and recalculates Parent Budget.
  * 🆕 ENHANCED: Updates category usage count
  */
-export const restoreFromTrash = mutation({
+export const restoreFromTrash = permissionMutation(PERMISSIONS.project.trash, {
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "project");
 
     // 1. Restore Project
     await ctx.db.patch(args.id, {
@@ -237,13 +245,13 @@ export const restoreFromTrash = mutation({
 /**
  * Get a single project by ID (with ownership check)
  */
-export const get = query({
+export const get = permissionQuery(PERMISSIONS.project.view, {
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     const project = await ctx.db.get(args.id);
     if (!project || project.isDeleted) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), project.departmentId, "project");
     return project;
   },
 });
@@ -252,16 +260,16 @@ export const get = query({
  * Get a project by ID for validation purposes (no complex checks)
  * Used by breakdown forms to validate against parent project budget
  */
-export const getForValidation = query({
+export const getForValidation = permissionQuery(PERMISSIONS.project.view, {
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const project = await ctx.db.get(args.id);
     if (!project || project.isDeleted) {
       throw new Error("Project not found");
     }
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), project.departmentId, "project");
 
     // Return fields needed for validation
     return {
@@ -283,7 +291,7 @@ export const getForValidation = query({
  * 🆕 ENHANCED: Supports autoCalculateBudgetUtilized flag
  * ✅ RETURNS STANDARDIZED ApiResponse
  */
-export const create = mutation({
+export const create = permissionMutation(PERMISSIONS.project.create, {
   args: {
     particulars: v.string(),
     budgetItemId: v.optional(v.id("budgetItems")),
@@ -300,16 +308,7 @@ export const create = mutation({
   },
   handler: async (ctx, args) => {
     try {
-      const userId = await getAuthUserId(ctx);
-      if (userId === null) {
-        return {
-          success: false,
-          error: {
-            code: "UNAUTHORIZED",
-            message: "Not authenticated",
-          },
-        };
-      }
+      const { userId } = ctx;
 
       // Validate project particular exists and is active
       const particular = await ctx.db
@@ -408,6 +407,18 @@ export const create = mutation({
       // Auto-link department ID if this agency represents a department
       const departmentId = agency.departmentId;
 
+      // Users can only create projects for departments they can access
+      const access = await getDepartmentAccess(ctx, userId);
+      if (!hasDepartmentAccess(access, departmentId)) {
+        return {
+          success: false,
+          error: {
+            code: "NOT_AUTHORIZED",
+            message: `Not authorized - implementing agency "${args.implementingOffice}" belongs to another department`,
+          },
+        };
+      }
+
       const projectId = await ctx.db.insert("projects", {
         particulars: args.particulars,
         budgetItemId: args.budgetItemId,
@@ -497,7 +508,7 @@ export const create = mutation({
  * Update an existing project
  * 🆕 ENHANCED: Supports autoCalculateBudgetUtilized flag
  */
-export const update = mutation({
+export const update = permissionMutation(PERMISSIONS.project.edit, {
   args: {
     id: v.id("projects"),
     particulars: v.string(),
@@ -515,11 +526,12 @@ export const update = mutation({
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Project not found");
+    const access = await getDepartmentAccess(ctx, userId);
+    requireDepartmentAccess(access, existing.departmentId, "project");
 
     // If particular is changing, validate new particular
     if (args.particulars !== existing.particulars) {
@@ -574,6 +586,7 @@ export const update = mutation({
 
       // Update departmentId based on new agency
       departmentId = agency.departmentId;
+      requireDepartmentAccess(access, departmentId, "implementing agency");
 
       // Update usage counts
       await ctx.runMutation(internal.implementingAgencies.updateUsageCount, {
@@ -683,18 +696,18 @@ export const update = mutation({
  * 🆕 NEW MUTATION: Toggle Auto-Calculate Flag for Project
  * This allows switching between auto-calculation and manual mode
  */
-export const toggleAutoCalculate = mutation({
+export const toggleAutoCalculate = permissionMutation(PERMISSIONS.project.edit, {
   args: {
     id: v.id("projects"),
     autoCalculate: v.boolean(),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "project");
 
     const now = Date.now();
 
@@ -752,28 +765,24 @@ export const toggleAutoCalculate = mutation({
  * 🆕 NEW MUTATION: Bulk Toggle Auto-Calculate
  * Toggle auto-calculate for multiple projects at once
  */
-export const bulkToggleAutoCalculate = mutation({
+export const bulkToggleAutoCalculate = permissionMutation(PERMISSIONS.project.bulkEdit, {
   args: {
     ids: v.array(v.id("projects")),
     autoCalculate: v.boolean(),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Unauthorized: Only admins can perform bulk actions.");
-    }
+    const { userId } = ctx;
 
     const now = Date.now();
     let successCount = 0;
     const affectedBudgetItems = new Set<string>();
+    const access = await getDepartmentAccess(ctx, userId);
 
     for (const id of args.ids) {
       const existing = await ctx.db.get(id);
       if (!existing || existing.isDeleted) continue;
+      if (!hasDepartmentAccess(access, existing.departmentId)) continue;
 
       // Update the flag
       await ctx.db.patch(id, {
@@ -825,20 +834,20 @@ export const bulkToggleAutoCalculate = mutation({
  * Cascades delete to breakdowns and updates parent budget.
  * 🆕 ENHANCED: Updates category usage count
  */
-export const remove = mutation({
+export const remove = permissionMutation(PERMISSIONS.project.delete, {
   args: {
     id: v.id("projects"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const currentUser = await ctx.db.get(userId);
     if (!currentUser) throw new Error("User not found");
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "project");
 
     const isSuperAdmin = currentUser.role === 'super_admin';
     const isCreator = existing.createdBy === userId;
@@ -911,14 +920,14 @@ export const remove = mutation({
 /**
  * Toggle pin status for a project
  */
-export const togglePin = mutation({
+export const togglePin = permissionMutation(PERMISSIONS.project.edit, {
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Project not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "project");
 
     const now = Date.now();
     const newPinnedState = !existing.isPinned;
@@ -938,26 +947,22 @@ export const togglePin = mutation({
 /**
  * BULK ACTION: Move multiple projects to trash
  */
-export const bulkMoveToTrash = mutation({
+export const bulkMoveToTrash = permissionMutation(PERMISSIONS.project.bulkEdit, {
   args: {
     ids: v.array(v.id("projects")),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Unauthorized: Only admins can perform bulk actions.");
-    }
+    const { userId } = ctx;
 
     const now = Date.now();
     let successCount = 0;
+    const access = await getDepartmentAccess(ctx, userId);
 
     for (const id of args.ids) {
       const existing = await ctx.db.get(id);
       if (!existing || existing.isDeleted) continue;
+      if (!hasDepartmentAccess(access, existing.departmentId)) continue;
 
       // 1. Trash Project
       await ctx.db.patch(id, {
@@ -1022,29 +1027,25 @@ export const bulkMoveToTrash = mutation({
 /**
  * BULK ACTION: Move multiple projects to a specific category
  */
-export const bulkUpdateCategory = mutation({
+export const bulkUpdateCategory = permissionMutation(PERMISSIONS.project.bulkEdit, {
   args: {
     ids: v.array(v.id("projects")),
     categoryId: v.id("projectCategories"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Unauthorized: Only admins can perform bulk actions.");
-    }
+    const { userId } = ctx;
 
     const category = await ctx.db.get(args.categoryId);
     if (!category) throw new Error("Category not found");
 
     const now = Date.now();
     let successCount = 0;
+    const access = await getDepartmentAccess(ctx, userId);
 
     for (const id of args.ids) {
       const existing = await ctx.db.get(id);
       if (!existing) continue;
+      if (!hasDepartmentAccess(access, existing.departmentId)) continue;
 
       // Skip if already in this category
       if (existing.categoryId === args.categoryId) continue;
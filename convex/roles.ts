@@ -0,0 +1,422 @@
+// convex/roles.ts
+
+import { v } from "convex/values";
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "./lib/sessions";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { Id } from "./_generated/dataModel";
+import { getRoleChain } from "./lib/roles";
+import { insertAuditedActivity } from "./lib/auditChain";
+
+const homeRouteValidator = v.union(v.literal("/dashboard"), v.literal("/inspector"));
+
+/**
+ * Key for a custom role from its name, e.g. "COA Auditor" -> "coa_auditor"
+ */
+function toRoleKey(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * List all roles with their parent's name (requires role.manage)
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+
+    const roles = await ctx.db.query("roles").collect();
+    const rolesById = new Map(roles.map((role) => [role._id, role]));
+
+    return roles
+      .map((role) => ({
+        ...role,
+        parentRoleName: role.parentRoleId ? rolesById.get(role.parentRoleId)?.name : undefined,
+      }))
+      .sort((a, b) => {
+        if (a.isSystem !== b.isSystem) return a.isSystem ? -1 : 1;
+        return a.name.localeCompare(b.name);
+      });
+  },
+});
+
+/**
+ * Create a custom role (super_admin only)
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    parentRoleId: v.optional(v.id("roles")),
+    homeRoute: homeRouteValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || currentUser.role !== "super_admin") {
+      throw new Error("Not authorized - super_admin access required");
+    }
+    await requireTwoFactorVerified(ctx, currentUser);
+
+    const name = args.name.trim();
+    const key = toRoleKey(name);
+    if (!key) {
+      throw new Error("Role name is required");
+    }
+
+    const existing = await ctx.db
+      .query("roles")
+      .withIndex("key", (q) => q.eq("key", key))
+      .first();
+    if (existing) {
+      throw new Error("A role with this name already exists");
+    }
+
+    if (args.parentRoleId) {
+      const parent = await ctx.db.get(args.parentRoleId);
+      if (!parent) {
+        throw new Error("Parent role not found");
+      }
+      if (parent.key === "super_admin") {
+        throw new Error("Custom roles cannot inherit from Super Admin");
+      }
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("roles", {
+      key,
+      name,
+      description: args.description?.trim() || undefined,
+      parentRoleId: args.parentRoleId,
+      homeRoute: args.homeRoute,
+      isSystem: false,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: userId,
+    });
+  },
+});
+
+/**
+ * Update a role (super_admin only).
+ * Built-in roles only allow their description and landing page to change.
+ */
+export const update = mutation({
+  args: {
+    id: v.id("roles"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    parentRoleId: v.optional(v.id("roles")),
+    homeRoute: homeRouteValidator,
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || currentUser.role !== "super_admin") {
+      throw new Error("Not authorized - super_admin access required");
+    }
+    await requireTwoFactorVerified(ctx, currentUser);
+
+    const role = await ctx.db.get(args.id);
+    if (!role) {
+      throw new Error("Role not found");
+    }
+
+    const now = Date.now();
+
+    if (role.isSystem) {
+      await ctx.db.patch(args.id, {
+        description: args.description?.trim() || undefined,
+        homeRoute: args.homeRoute,
+        updatedAt: now,
+      });
+      return args.id;
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Role name is required");
+    }
+
+    if (args.parentRoleId) {
+      const parent = await ctx.db.get(args.parentRoleId);
+      if (!parent) {
+        throw new Error("Parent role not found");
+      }
+      if (parent.key === "super_admin") {
+        throw new Error("Custom roles cannot inherit from Super Admin");
+      }
+      // Check the new parent does not already inherit from this role
+      const parentChain = await getRoleChain(ctx, { ...parent, isActive: true });
+      if (parentChain.some((link) => link.roleId === args.id)) {
+        throw new Error("A role cannot inherit from itself");
+      }
+    }
+
+    // The key stays fixed so existing grants and assignments keep working
+    await ctx.db.patch(args.id, {
+      name,
+      description: args.description?.trim() || undefined,
+      parentRoleId: args.parentRoleId,
+      homeRoute: args.homeRoute,
+      isActive: args.isActive,
+      updatedAt: now,
+    });
+
+    return args.id;
+  },
+});
+
+/**
+ * Delete a custom role that nobody holds or inherits from (super_admin only)
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("roles"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(userId);
+    if (!currentUser || currentUser.role !== "super_admin") {
+      throw new Error("Not authorized - super_admin access required");
+    }
+    await requireTwoFactorVerified(ctx, currentUser);
+
+    const role = await ctx.db.get(args.id);
+    if (!role) {
+      throw new Error("Role not found");
+    }
+    if (role.isSystem) {
+      throw new Error("Built-in roles cannot be deleted");
+    }
+
+    const assignment = await ctx.db
+      .query("userRoles")
+      .withIndex("roleId", (q) => q.eq("roleId", args.id))
+      .first();
+    if (assignment) {
+      throw new Error("This role is still assigned to users. Remove it from them first.");
+    }
+
+    const child = await ctx.db
+      .query("roles")
+      .withIndex("parentRoleId", (q) => q.eq("parentRoleId", args.id))
+      .first();
+    if (child) {
+      throw new Error(`The role "${child.name}" inherits from this role. Change its parent first.`);
+    }
+
+    const grants = await ctx.db
+      .query("rolePermissions")
+      .withIndex("roleId", (q) => q.eq("roleId", args.id))
+      .collect();
+    for (const grant of grants) {
+      await ctx.db.delete(grant._id);
+    }
+
+    await ctx.db.delete(args.id);
+    return args.id;
+  },
+});
+
+/**
+ * Roles assigned to a user on top of their built-in role
+ * (requires role.manage)
+ */
+export const listUserRoles = query({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    if (currentUserId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(currentUserId);
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+
+    const assignments = await ctx.db
+      .query("userRoles")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    return await Promise.all(
+      assignments.map(async (assignment) => {
+        const role = await ctx.db.get(assignment.roleId);
+        const department = assignment.departmentId
+          ? await ctx.db.get(assignment.departmentId)
+          : null;
+        return {
+          ...assignment,
+          roleName: role?.name,
+          roleIsActive: role?.isActive ?? false,
+          departmentName: department?.name,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Whether a role carries administrator powers through its inheritance
+ */
+async function isAdministrativeRole(
+  ctx: MutationCtx,
+  roleId: Id<"roles">
+) {
+  const role = await ctx.db.get(roleId);
+  if (!role) return false;
+  const chain = await getRoleChain(ctx, { ...role, isActive: true });
+  return chain.some((link) => link.key === "admin" || link.key === "super_admin");
+}
+
+/**
+ * Assign a role to a user, optionally for one department
+ * (requires role.manage; roles inheriting admin need super_admin)
+ */
+export const assignToUser = mutation({
+  args: {
+    userId: v.id("users"),
+    roleId: v.id("roles"),
+    departmentId: v.optional(v.id("departments")),
+  },
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    if (currentUserId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(currentUserId);
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+
+    const targetUser = await ctx.db.get(args.userId);
+    if (!targetUser) {
+      throw new Error("User not found");
+    }
+    if (currentUser.role !== "super_admin" && targetUser.role === "super_admin") {
+      throw new Error("Not authorized - cannot modify super_admin access");
+    }
+
+    const role = await ctx.db.get(args.roleId);
+    if (!role || !role.isActive) {
+      throw new Error("Role not found");
+    }
+    if (role.key === "super_admin") {
+      throw new Error("Super Admin is only given through the user's role");
+    }
+    if (currentUser.role !== "super_admin" && (await isAdministrativeRole(ctx, args.roleId))) {
+      throw new Error("Not authorized - only super_admin can assign administrator roles");
+    }
+
+    if (args.departmentId) {
+      const department = await ctx.db.get(args.departmentId);
+      if (!department) {
+        throw new Error("Department not found");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("userRoles")
+      .withIndex("userAndRole", (q) => q.eq("userId", args.userId).eq("roleId", args.roleId))
+      .collect();
+    if (existing.some((assignment) => assignment.departmentId === args.departmentId)) {
+      throw new Error("The user already has this role");
+    }
+
+    const now = Date.now();
+    const assignmentId = await ctx.db.insert("userRoles", {
+      userId: args.userId,
+      roleId: args.roleId,
+      departmentId: args.departmentId,
+      assignedAt: now,
+      assignedBy: currentUserId,
+    });
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUserId,
+      targetUserId: args.userId,
+      targetDepartmentId: args.departmentId,
+      action: "role_assigned",
+      newValues: JSON.stringify({ role: role.key, departmentId: args.departmentId }),
+      timestamp: now,
+    });
+
+    return assignmentId;
+  },
+});
+
+/**
+ * Remove a role assignment (requires role.manage; roles inheriting admin
+ * need super_admin)
+ */
+export const unassignFromUser = mutation({
+  args: {
+    assignmentId: v.id("userRoles"),
+  },
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    if (currentUserId === null) {
+      throw new Error("Not authenticated");
+    }
+
+    const currentUser = await ctx.db.get(currentUserId);
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.role.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (!assignment) {
+      throw new Error("Role assignment not found");
+    }
+    if (currentUser.role !== "super_admin" && (await isAdministrativeRole(ctx, assignment.roleId))) {
+      throw new Error("Not authorized - only super_admin can remove administrator roles");
+    }
+
+    const role = await ctx.db.get(assignment.roleId);
+    await ctx.db.delete(args.assignmentId);
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUserId,
+      targetUserId: assignment.userId,
+      targetDepartmentId: assignment.departmentId,
+      action: "role_unassigned",
+      previousValues: JSON.stringify({ role: role?.key, departmentId: assignment.departmentId }),
+      timestamp: Date.now(),
+    });
+
+    return args.assignmentId;
+  },
+});
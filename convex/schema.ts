@@ -31,6 +31,11 @@ import { trustFundTables } from "./schema/trustFunds";
 import { trustFundActivityTables } from "./schema/trustFundActivities";
 import { bugReportsTables } from "./schema/bugReports";
 import { suggestionsTables } from "./schema/suggestions";
+import { financialLineItemTables } from "./schema/financialLineItems";
+import { budgetAdjustmentTables } from "./schema/budgetAdjustments";
+import { twoFactorTables } from "./schema/twoFactor";
+import { notificationTables } from "./schema/notifications";
+import { accomplishmentReportTables } from "./schema/accomplishmentReports";
 
 export default defineSchema({
   ...authTables,
@@ -63,4 +68,9 @@ export default defineSchema({
   ...trustFundActivityTables,
   ...bugReportsTables,
   ...suggestionsTables,
+  ...financialLineItemTables,
+  ...budgetAdjustmentTables,
+  ...twoFactorTables,
+  ...notificationTables,
+  ...accomplishmentReportTables,
 });
\ No newline at end of file
@@ -0,0 +1,47 @@
+// convex/schema/accomplishmentReports.ts
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const accomplishmentReportTables = {
+  /**
+   * Physical accomplishment reports of a breakdown, kept as history.
+   * The latest report (by as-of date) sets the breakdown's
+   * projectAccomplishment and slippage.
+   */
+  accomplishmentReports: defineTable({
+    breakdownId: v.id("govtProjectBreakdowns"),
+
+    /**
+     * Parent project at the time of the report
+     */
+    projectId: v.optional(v.id("projects")),
+
+    /**
+     * Date the accomplishment was measured
+     */
+    asOfDate: v.number(),
+
+    /**
+     * Planned and actual physical accomplishment (0-100)
+     */
+    plannedPercent: v.number(),
+    actualPercent: v.number(),
+
+    /**
+     * Actual minus planned; negative means behind schedule
+     */
+    slippage: v.number(),
+
+    /**
+     * What was done and why the work is ahead or behind
+     */
+    narrative: v.optional(v.string()),
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("breakdownId", ["breakdownId"])
+    .index("breakdownAndAsOfDate", ["breakdownId", "asOfDate"])
+    .index("projectId", ["projectId"]),
+};
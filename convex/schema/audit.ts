@@ -38,7 +38,17 @@ export const auditTables = {
       v.literal("department_assigned"),
       v.literal("department_created"),
       v.literal("department_updated"),
-      v.literal("department_deleted")
+      v.literal("department_deleted"),
+      v.literal("two_factor_enabled"),
+      v.literal("two_factor_disabled"),
+      v.literal("two_factor_reset"),
+      v.literal("password_reset"),
+      v.literal("sessions_revoked"),
+      v.literal("department_scope_changed"),
+      v.literal("access_expired"),
+      v.literal("access_renewed"),
+      v.literal("role_assigned"),
+      v.literal("role_unassigned")
     ),
     
     /**
@@ -76,4 +86,104 @@ export const auditTables = {
     .index("performedBy", ["performedBy"])
     .index("timestamp", ["timestamp"])
     .index("action", ["action"]),
+
+  /**
+   * Tamper-evident chain over every activity log.
+   * Each entry stores a hash of the logged row and of the previous entry,
+   * so edited or deleted rows and missing entries show up on verification.
+   */
+  auditChain: defineTable({
+    /**
+     * Position in the chain, starting at 1 with no gaps
+     */
+    sequence: v.number(),
+
+    /**
+     * Activity log the entry was written to
+     */
+    source: v.union(
+      v.literal("userAuditLog"),
+      v.literal("budgetItemActivities"),
+      v.literal("projectActivities"),
+      v.literal("govtProjectBreakdownActivities"),
+      v.literal("trustFundActivities"),
+      v.literal("projectCategoryActivities"),
+      v.literal("projectParticularActivities")
+    ),
+
+    /**
+     * ID of the logged row (absent for logs without a table of their own)
+     */
+    sourceId: v.optional(v.string()),
+
+    /**
+     * Canonical JSON of the entry for logs without a table of their own
+     */
+    payload: v.optional(v.string()),
+
+    /**
+     * Action recorded by the log entry
+     */
+    action: v.string(),
+
+    /**
+     * The user who performed the action
+     */
+    performedBy: v.optional(v.id("users")),
+
+    /**
+     * SHA-256 of the logged row's canonical JSON
+     */
+    payloadHash: v.string(),
+
+    /**
+     * Hash of the previous entry (all zeros for the first entry)
+     */
+    previousHash: v.string(),
+
+    /**
+     * SHA-256 over this entry's fields and previousHash
+     */
+    hash: v.string(),
+
+    /**
+     * Timestamp when the entry was appended
+     */
+    timestamp: v.number(),
+  })
+    .index("sequence", ["sequence"])
+    .index("timestamp", ["timestamp"])
+    .index("source", ["source", "sourceId"]),
+
+  /**
+   * Chain head at each signed export. Verification checks the chain still
+   * reaches the last exported head, so removing the newest entries shows up.
+   */
+  auditChainCheckpoints: defineTable({
+    /**
+     * Sequence of the head when the bundle was exported
+     */
+    sequence: v.number(),
+
+    /**
+     * Hash of that head entry
+     */
+    hash: v.string(),
+
+    /**
+     * HMAC signature of the exported bundle
+     */
+    signature: v.string(),
+
+    /**
+     * The user who exported the bundle
+     */
+    exportedBy: v.id("users"),
+
+    /**
+     * Timestamp of the export
+     */
+    exportedAt: v.number(),
+  })
+    .index("sequence", ["sequence"]),
 };
\ No newline at end of file
@@ -0,0 +1,83 @@
+// convex/schema/budgetAdjustments.ts
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const budgetAdjustmentTables = {
+  /**
+   * Budget Adjustments.
+   * Supplemental appropriations and realignments between budget items.
+   * Lifecycle: draft → submitted → reviewed → approved, or rejected.
+   * budgetItems.totalBudgetAllocated only changes when a request is approved.
+   */
+  budgetAdjustments: defineTable({
+    /**
+     * realignment: moves an amount from one budget item to another
+     * supplemental: adds new appropriation to a budget item
+     */
+    type: v.union(
+      v.literal("realignment"),
+      v.literal("supplemental")
+    ),
+
+    /**
+     * Budget item the amount is taken from (realignment only)
+     */
+    sourceBudgetItemId: v.optional(v.id("budgetItems")),
+
+    /**
+     * Funding source of a supplemental appropriation
+     * e.g. "Unappropriated surplus", "Additional IRA share"
+     */
+    sourceDescription: v.optional(v.string()),
+
+    /**
+     * Budget item receiving the amount
+     */
+    destinationBudgetItemId: v.id("budgetItems"),
+
+    amount: v.number(),
+
+    /**
+     * Legal basis, e.g. Sangguniang Bayan resolution number
+     */
+    legalBasis: v.string(),
+
+    justification: v.optional(v.string()),
+
+    /**
+     * Fiscal year of the destination budget item (for filtering)
+     */
+    year: v.optional(v.number()),
+
+    status: v.union(
+      v.literal("draft"),
+      v.literal("submitted"),
+      v.literal("reviewed"),
+      v.literal("approved"),
+      v.literal("rejected")
+    ),
+
+    // --- APPROVAL CHAIN ---
+    submittedAt: v.optional(v.number()),
+    submittedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    reviewedBy: v.optional(v.id("users")),
+    reviewRemarks: v.optional(v.string()),
+    approvedAt: v.optional(v.number()),
+    approvedBy: v.optional(v.id("users")),
+    rejectedAt: v.optional(v.number()),
+    rejectedBy: v.optional(v.id("users")),
+    rejectionReason: v.optional(v.string()),
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  })
+    .index("status", ["status"])
+    .index("year", ["year"])
+    .index("yearAndStatus", ["year", "status"])
+    .index("sourceBudgetItemId", ["sourceBudgetItemId"])
+    .index("destinationBudgetItemId", ["destinationBudgetItemId"])
+    .index("createdBy", ["createdBy"]),
+};
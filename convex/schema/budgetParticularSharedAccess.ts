@@ -53,6 +53,18 @@ export const budgetParticularSharedAccessTables = {
      */
     revokedAt: v.optional(v.number()),
     
+    /**
+     * Optional expiration date
+     * Expired grants are deactivated by the expireAccessGrants cron job
+     */
+    expiresAt: v.optional(v.number()),
+
+    /**
+     * When the grantee and grantor were told the grant is about to expire
+     * Cleared when the grant is renewed
+     */
+    expiryNotifiedAt: v.optional(v.number()),
+
     /**
      * Optional notes about the access grant
      */
@@ -62,5 +74,6 @@ export const budgetParticularSharedAccessTables = {
     .index("userId", ["userId"])
     .index("particularAndUser", ["particularCode", "userId"])
     .index("particularAndActive", ["particularCode", "isActive"])
-    .index("userAndActive", ["userId", "isActive"]),
+    .index("userAndActive", ["userId", "isActive"])
+    .index("isActiveAndExpiresAt", ["isActive", "expiresAt"]),
 };
\ No newline at end of file
@@ -40,8 +40,21 @@ export const budgetSharedAccessTables = {
     
     /**
      * Optional expiration date
+     * Expired grants are deactivated by the expireAccessGrants cron job
      */
     expiresAt: v.optional(v.number()),
+
+    /**
+     * When the grantee and grantor were told the grant is about to expire
+     * Cleared when the grant is renewed
+     */
+    expiryNotifiedAt: v.optional(v.number()),
+
+    /**
+     * Who ended the grant and when (revoked by hand or expired)
+     */
+    revokedBy: v.optional(v.id("users")),
+    revokedAt: v.optional(v.number()),
     
     /**
      * Optional notes about why access was granted
@@ -51,5 +64,6 @@ export const budgetSharedAccessTables = {
     .index("userId", ["userId"])
     .index("grantedBy", ["grantedBy"])
     .index("isActive", ["isActive"])
-    .index("userIdAndActive", ["userId", "isActive"]),
+    .index("userIdAndActive", ["userId", "isActive"])
+    .index("isActiveAndExpiresAt", ["isActive", "expiresAt"]),
 };
\ No newline at end of file
@@ -21,6 +21,14 @@ export const budgetTables = {
     particulars: v.string(),
     
     totalBudgetAllocated: v.number(),
+
+    /**
+     * 🆕 ORIGINAL APPROPRIATION
+     * Snapshot of totalBudgetAllocated taken when the first supplemental budget or
+     * realignment is approved. Unset means the item was never adjusted.
+     * totalBudgetAllocated always holds the current (adjusted) allocation.
+     */
+    originalBudgetAllocated: v.optional(v.number()),
     
     /**
      * Obligated budget amount (optional)
@@ -87,6 +95,14 @@ export const budgetTables = {
      * Fiscal year for this budget (e.g., 2024, 2025)
      */
     fiscalYear: v.optional(v.number()),
+
+    /**
+     * 🆕 ROLLOVER LINEAGE
+     * Set when this item was cloned from a previous fiscal year by the rollover wizard.
+     * Points back to the budget item it was carried forward from.
+     */
+    sourceBudgetItemId: v.optional(v.id("budgetItems")),
+    rolledOverFromYear: v.optional(v.number()),
     
     // [NEW] Trash System Fields
     isDeleted: v.optional(v.boolean()),
@@ -113,25 +129,109 @@ export const budgetTables = {
     .index("pinnedAt", ["pinnedAt"])
     .index("isDeleted", ["isDeleted"])
     // 🆕 Index for auto-calculation flag
-    .index("autoCalculate", ["autoCalculateBudgetUtilized"]),
+    .index("autoCalculate", ["autoCalculateBudgetUtilized"])
+    // 🆕 Index for rollover lineage
+    .index("sourceBudgetItemId", ["sourceBudgetItemId"]),
 
   /**
    * Obligations.
+   * Obligation Request (ObR) ledger per project.
+   * Lifecycle: draft → obligated → disbursed, or cancelled.
+   * Posted entries (obligated/disbursed) feed projects.obligatedBudget and,
+   * through their disbursement vouchers, projects.totalBudgetUtilized.
    */
   obligations: defineTable({
     projectId: v.id("projects"),
     amount: v.number(),
-    name: v.string(),
-    email: v.string(),
-    type: v.string(),
+
+    /**
+     * ObR number (unique), e.g. "100-2025-01-0001"
+     */
+    obrNumber: v.optional(v.string()),
+
+    /**
+     * Creditor / payee of the obligation
+     */
+    payee: v.optional(v.string()),
+
+    /**
+     * Date the obligation was incurred
+     */
+    obligationDate: v.optional(v.number()),
+
+    /**
+     * Lifecycle status
+     * Legacy rows without a status are treated as "draft"
+     */
+    status: v.optional(
+      v.union(
+        v.literal("draft"),
+        v.literal("obligated"),
+        v.literal("disbursed"),
+        v.literal("cancelled")
+      )
+    ),
+
+    /**
+     * Total of non-cancelled disbursement vouchers (auto-calculated)
+     */
+    disbursedAmount: v.optional(v.number()),
+
+    postedAt: v.optional(v.number()),
+    postedBy: v.optional(v.id("users")),
+    cancelledAt: v.optional(v.number()),
+    cancelledBy: v.optional(v.id("users")),
+    cancellationReason: v.optional(v.string()),
+
+    // Legacy free-form fields (pre-ledger entries)
+    name: v.optional(v.string()),
+    email: v.optional(v.string()),
+    type: v.optional(v.string()),
+
     description: v.optional(v.string()),
     createdBy: v.id("users"),
     createdAt: v.number(),
     updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
   })
     .index("projectId", ["projectId"])
     .index("type", ["type"])
     .index("createdBy", ["createdBy"])
     .index("createdAt", ["createdAt"])
-    .index("projectAndType", ["projectId", "type"]),
+    .index("projectAndType", ["projectId", "type"])
+    .index("obrNumber", ["obrNumber"])
+    .index("status", ["status"])
+    .index("projectAndStatus", ["projectId", "status"]),
+
+  /**
+   * Disbursement Vouchers.
+   * Payments made against a posted obligation.
+   */
+  disbursementVouchers: defineTable({
+    obligationId: v.id("obligations"),
+    projectId: v.id("projects"),
+
+    /**
+     * DV number (unique)
+     */
+    dvNumber: v.string(),
+    amount: v.number(),
+    disbursementDate: v.number(),
+    checkNumber: v.optional(v.string()),
+    remarks: v.optional(v.string()),
+
+    status: v.union(
+      v.literal("paid"),
+      v.literal("cancelled")
+    ),
+    cancelledAt: v.optional(v.number()),
+    cancelledBy: v.optional(v.id("users")),
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("obligationId", ["obligationId"])
+    .index("projectId", ["projectId"])
+    .index("dvNumber", ["dvNumber"]),
 };
\ No newline at end of file
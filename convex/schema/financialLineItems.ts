@@ -0,0 +1,58 @@
+// convex/schema/financialLineItems.ts
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const financialLineItemTables = {
+  /**
+   * Financial Line Items
+   * Hierarchical appropriation ledger for a project (A → A.1 → A.1.1 → object of expenditure).
+   * Rows with children are roll-ups: their figures are always the sum of their children.
+   */
+  financialLineItems: defineTable({
+    /**
+     * Project that owns this ledger
+     */
+    projectId: v.id("projects"),
+
+    /**
+     * Parent line item (undefined for top-level sections)
+     */
+    parentId: v.optional(v.id("financialLineItems")),
+
+    /**
+     * Outline code, e.g. "A", "A.1", "C.1.2" (optional for expense rows)
+     */
+    code: v.optional(v.string()),
+    description: v.string(),
+
+    /**
+     * Financial figures
+     * balance = appropriation - obligation (auto-calculated)
+     */
+    appropriation: v.number(),
+    obligation: v.number(),
+    balance: v.number(),
+
+    /**
+     * Depth in the tree (0 = main section), derived from the parent chain
+     */
+    level: v.number(),
+
+    /**
+     * Display order among siblings
+     */
+    sortOrder: v.number(),
+
+    /**
+     * Audit fields
+     */
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  })
+    .index("projectId", ["projectId"])
+    .index("parentId", ["parentId"])
+    .index("projectAndParent", ["projectId", "parentId"]),
+};
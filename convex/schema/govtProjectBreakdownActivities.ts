@@ -211,6 +211,25 @@ export const govtProjectBreakdownActivityTables = {
      */
     reviewNotes: v.optional(v.string()),
     
+    // ============================================================================
+    // BATCH ROLLBACK
+    // ============================================================================
+    
+    /**
+     * When this bulk activity was undone by a batch rollback
+     */
+    rolledBackAt: v.optional(v.number()),
+    
+    /**
+     * Admin who rolled back the batch
+     */
+    rolledBackBy: v.optional(v.id("users")),
+    
+    /**
+     * Batch ID of the activities logged by the rollback itself
+     */
+    rollbackBatchId: v.optional(v.string()),
+    
     // ============================================================================
     // AGGREGATION IMPACT TRACKING
     // ============================================================================
@@ -231,6 +250,7 @@ export const govtProjectBreakdownActivityTables = {
     .index("timestamp", ["timestamp"])
     .index("action", ["action"])
     .index("batchId", ["batchId"])
+    .index("rollbackBatchId", ["rollbackBatchId"])
     
     // Composite indexes for common queries
     .index("projectAndOffice", ["projectName", "implementingOffice"])
@@ -37,6 +37,14 @@ export const govtProjectBreakdownTables = {
     // --- PROGRESS ---
     projectAccomplishment: v.optional(v.number()),
 
+    // --- 🆕 SLIPPAGE (from the latest accomplishment report) ---
+    // Actual minus planned accomplishment, in percentage points
+    slippage: v.optional(v.number()),
+    // Slippage is past the configured threshold
+    slippageFlagged: v.optional(v.boolean()),
+    // Status was set to "delayed" by the slippage rule rather than by hand
+    delayedBySlippage: v.optional(v.boolean()),
+
     // --- STATUS (STRICT 3 OPTIONS) ---
     status: v.optional(
       v.union(
@@ -59,6 +67,10 @@ export const govtProjectBreakdownTables = {
     batchId: v.optional(v.string()),
     fundSource: v.optional(v.string()),
 
+    // --- 🆕 ROLLOVER LINEAGE ---
+    // Breakdown this record was carried forward from by the fiscal-year rollover
+    sourceBreakdownId: v.optional(v.id("govtProjectBreakdowns")),
+
     // [NEW] Trash System Fields
     isDeleted: v.optional(v.boolean()),
     deletedAt: v.optional(v.number()),
@@ -78,8 +90,12 @@ export const govtProjectBreakdownTables = {
     .index("projectNameAndOffice", ["projectName", "implementingOffice"])
     .index("reportDate", ["reportDate"])
     .index("municipality", ["municipality"])
+    // 🆕 Index for the geographic project map drill-down
+    .index("districtAndMunicipality", ["district", "municipality", "barangay"])
     // 🆕 CRITICAL INDEXES FOR AGGREGATION
     .index("isDeleted", ["isDeleted"])
     .index("projectId", ["projectId"])
-    .index("projectIdAndStatus", ["projectId", "status"]),
+    .index("projectIdAndStatus", ["projectId", "status"])
+    // 🆕 Index for rollover lineage
+    .index("sourceBreakdownId", ["sourceBreakdownId"]),
 };
\ No newline at end of file
@@ -10,6 +10,8 @@ export const inspectionTables = {
   inspections: defineTable({
     projectId: v.id("projects"),
     budgetItemId: v.optional(v.id("budgetItems")),
+    /** Breakdown inspected; its municipality is used to check photo locations */
+    breakdownId: v.optional(v.id("govtProjectBreakdowns")),
     programNumber: v.string(),
     title: v.string(),
     category: v.string(),
@@ -31,6 +33,7 @@ export const inspectionTables = {
   })
     .index("projectId", ["projectId"])
     .index("budgetItemId", ["budgetItemId"])
+    .index("breakdownId", ["breakdownId"])
     .index("status", ["status"])
     .index("category", ["category"])
     .index("inspectionDate", ["inspectionDate"])
@@ -28,6 +28,22 @@ export const mediaTables = {
     userId: v.id("users"),
     sessionId: v.id("uploadSessions"),
     orderInSession: v.number(),
+    /** Downscaled copy generated by the uploader's browser for grids */
+    thumbnailStorageId: v.optional(v.id("_storage")),
+    caption: v.optional(v.string()),
+    /** Stage of the work the photo documents */
+    phase: v.optional(
+      v.union(v.literal("before"), v.literal("during"), v.literal("after"))
+    ),
+    /** DateTimeOriginal from the photo's EXIF data */
+    capturedAt: v.optional(v.number()),
+    /** GPS position from the photo's EXIF data, in decimal degrees */
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+    /** Set once the upload session is attached to an inspection */
+    inspectionId: v.optional(v.id("inspections")),
+    projectId: v.optional(v.id("projects")),
+    breakdownId: v.optional(v.id("govtProjectBreakdowns")),
     uploadedAt: v.number(),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -37,5 +53,8 @@ export const mediaTables = {
     .index("uploadedAt", ["uploadedAt"])
     .index("type", ["type"])
     .index("userIdAndUploadedAt", ["userId", "uploadedAt"])
-    .index("sessionIdAndOrder", ["sessionId", "orderInSession"]),
+    .index("sessionIdAndOrder", ["sessionId", "orderInSession"])
+    .index("inspectionId", ["inspectionId"])
+    .index("projectId", ["projectId"])
+    .index("breakdownId", ["breakdownId"]),
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+// convex/schema/notifications.ts
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const notificationTables = {
+  /**
+   * In-app notifications shown in the header dropdown.
+   * One row per recipient; users choose which events they receive in
+   * users.preferences.
+   */
+  notifications: defineTable({
+    /**
+     * The user who receives the notification
+     */
+    userId: v.id("users"),
+
+    /**
+     * Event that produced the notification
+     */
+    event: v.union(
+      v.literal("access_request"),
+      v.literal("password_reset_request"),
+      v.literal("security_alert"),
+      v.literal("project_delayed"),
+      v.literal("bug_report"),
+      v.literal("suggestion")
+    ),
+
+    title: v.string(),
+    message: v.string(),
+
+    /**
+     * Page to open when the notification is clicked
+     */
+    link: v.optional(v.string()),
+
+    /**
+     * The user whose action produced the notification, if any
+     */
+    actorId: v.optional(v.id("users")),
+
+    isRead: v.boolean(),
+    readAt: v.optional(v.number()),
+
+    /**
+     * Archived notifications are hidden from the dropdown
+     */
+    isArchived: v.boolean(),
+    archivedAt: v.optional(v.number()),
+
+    createdAt: v.number(),
+  })
+    .index("userId", ["userId"])
+    .index("userAndArchived", ["userId", "isArchived", "createdAt"])
+    .index("userAndUnread", ["userId", "isArchived", "isRead"]),
+};
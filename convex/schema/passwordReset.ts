@@ -127,4 +127,92 @@ export const passwordResetTables = {
     .index("emailAndDate", ["email", "dateKey"])
     .index("email", ["email"])
     .index("dateKey", ["dateKey"]),
+
+  /**
+   * Password Reset IP Attempts Tracker.
+   * Tracks daily reset requests per IP address, whether or not the email exists.
+   */
+  passwordResetIpAttempts: defineTable({
+    /**
+     * IP address making requests
+     */
+    ipAddress: v.string(),
+
+    /**
+     * Date key (YYYY-MM-DD format)
+     */
+    dateKey: v.string(),
+
+    /**
+     * Number of requests made today
+     */
+    attemptCount: v.number(),
+
+    /**
+     * Last request timestamp
+     */
+    lastAttemptAt: v.number(),
+
+    /**
+     * Email addresses requested (JSON array)
+     */
+    emails: v.optional(v.string()),
+  })
+    .index("ipAddressAndDate", ["ipAddress", "dateKey"])
+    .index("dateKey", ["dateKey"]),
+
+  /**
+   * Password Reset Tokens.
+   * Single-use tokens emailed to the user. Only the SHA-256 hash is stored;
+   * the token itself exists only in the email link.
+   */
+  passwordResetTokens: defineTable({
+    /**
+     * User the token resets
+     */
+    userId: v.id("users"),
+
+    /**
+     * Email address the link was sent to
+     */
+    email: v.string(),
+
+    /**
+     * SHA-256 hash of the token (hex)
+     */
+    tokenHash: v.string(),
+
+    /**
+     * Token is rejected after this time
+     */
+    expiresAt: v.number(),
+
+    /**
+     * Set when the token was used to change the password
+     */
+    usedAt: v.optional(v.number()),
+
+    /**
+     * Set when a newer token replaced this one
+     */
+    revokedAt: v.optional(v.number()),
+
+    /**
+     * IP address of the requester
+     */
+    ipAddress: v.string(),
+
+    /**
+     * User agent of the requester
+     */
+    userAgent: v.optional(v.string()),
+
+    /**
+     * Timestamp when issued
+     */
+    createdAt: v.number(),
+  })
+    .index("tokenHash", ["tokenHash"])
+    .index("userId", ["userId"])
+    .index("expiresAt", ["expiresAt"]),
 };
\ No newline at end of file
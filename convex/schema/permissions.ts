@@ -4,6 +4,105 @@ import { defineTable } from "convex/server";
 import { v } from "convex/values";
 
 export const permissionTables = {
+  /**
+   * Roles.
+   * The four built-in roles (super_admin, admin, inspector, user) are system
+   * rows created by the roles migration; custom roles such as "Budget Officer"
+   * are added from settings and inherit the permissions of their parent.
+   */
+  roles: defineTable({
+    /**
+     * Unique role key (e.g., "admin", "budget_officer").
+     * System roles use the same key as the users.role literal.
+     */
+    key: v.string(),
+
+    /**
+     * Human-readable role name
+     */
+    name: v.string(),
+
+    /**
+     * Description of who the role is for
+     */
+    description: v.optional(v.string()),
+
+    /**
+     * Role whose permissions this role inherits.
+     * A grant or denial set on this role overrides the inherited one.
+     */
+    parentRoleId: v.optional(v.id("roles")),
+
+    /**
+     * Where users holding this role land after sign-in
+     */
+    homeRoute: v.union(v.literal("/dashboard"), v.literal("/inspector")),
+
+    /**
+     * Built-in role; cannot be renamed or deleted
+     */
+    isSystem: v.boolean(),
+
+    /**
+     * Inactive roles grant nothing and pass nothing on to their children
+     */
+    isActive: v.boolean(),
+
+    /**
+     * Timestamp when created
+     */
+    createdAt: v.number(),
+
+    /**
+     * Timestamp when last updated
+     */
+    updatedAt: v.number(),
+
+    /**
+     * User who created the role
+     */
+    createdBy: v.id("users"),
+  })
+    .index("key", ["key"])
+    .index("parentRoleId", ["parentRoleId"])
+    .index("isActive", ["isActive"]),
+
+  /**
+   * User Roles.
+   * Roles held by a user in addition to the built-in role on users.role,
+   * optionally limited to one department.
+   */
+  userRoles: defineTable({
+    /**
+     * User holding the role
+     */
+    userId: v.id("users"),
+
+    /**
+     * Role being held
+     */
+    roleId: v.id("roles"),
+
+    /**
+     * Department the role applies to. When set, the role's permissions only
+     * count for that department and its rows become visible to the user.
+     */
+    departmentId: v.optional(v.id("departments")),
+
+    /**
+     * Timestamp when assigned
+     */
+    assignedAt: v.number(),
+
+    /**
+     * User who assigned the role
+     */
+    assignedBy: v.id("users"),
+  })
+    .index("userId", ["userId"])
+    .index("roleId", ["roleId"])
+    .index("userAndRole", ["userId", "roleId"]),
+
   /**
    * Permissions.
    * Defines granular permissions that can be assigned to roles.
@@ -55,13 +154,23 @@ export const permissionTables = {
    */
   rolePermissions: defineTable({
     /**
-     * Role this permission is assigned to
+     * Role this permission is assigned to (roles table).
+     * Set on every row written after the roles migration.
      */
-    role: v.union(
-      v.literal("super_admin"),
-      v.literal("admin"),
-      v.literal("inspector"),
-      v.literal("user")
+    roleId: v.optional(v.id("roles")),
+
+    /**
+     * DEPRECATED: built-in role literal, kept for rows written before the
+     * roles table existed and mirrored on rows of the built-in roles
+     * @deprecated Use roleId instead
+     */
+    role: v.optional(
+      v.union(
+        v.literal("super_admin"),
+        v.literal("admin"),
+        v.literal("inspector"),
+        v.literal("user")
+      )
     ),
     
     /**
@@ -86,8 +195,10 @@ export const permissionTables = {
     createdBy: v.id("users"),
   })
     .index("role", ["role"])
+    .index("roleId", ["roleId"])
     .index("permissionId", ["permissionId"])
-    .index("roleAndPermission", ["role", "permissionId"]),
+    .index("roleAndPermission", ["role", "permissionId"])
+    .index("roleIdAndPermission", ["roleId", "permissionId"]),
 
   /**
    * User Permissions Override.
@@ -127,8 +238,15 @@ export const permissionTables = {
     
     /**
      * Optional expiration date for temporary permissions
+     * Expired overrides are removed by the expireAccessGrants cron job
      */
     expiresAt: v.optional(v.number()),
+
+    /**
+     * When the user and the admin who created the override were told it is
+     * about to expire
+     */
+    expiryNotifiedAt: v.optional(v.number()),
   })
     .index("userId", ["userId"])
     .index("permissionId", ["permissionId"])
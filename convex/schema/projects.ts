@@ -92,6 +92,18 @@ export const projectTables = {
      * Project manager/lead
      */
     projectManagerId: v.optional(v.id("users")),
+
+    // ============================================================================
+    // 🆕 ROLLOVER LINEAGE
+    // ============================================================================
+    /**
+     * Project this record was carried forward from by the fiscal-year rollover.
+     * Carried projects start the new year with the source's unspent balance
+     * as their allocation (continuing appropriation).
+     */
+    sourceProjectId: v.optional(v.id("projects")),
+    isContinuingAppropriation: v.optional(v.boolean()),
+    continuingFromYear: v.optional(v.number()),
     
     // ============================================================================
     // PIN FUNCTIONALITY
@@ -133,7 +145,9 @@ export const projectTables = {
     .index("year", ["year"])
     .index("departmentAndStatus", ["departmentId", "status"])
     // 🆕 Index for auto-calculation flag
-    .index("autoCalculate", ["autoCalculateBudgetUtilized"]),
+    .index("autoCalculate", ["autoCalculateBudgetUtilized"])
+    // 🆕 Index for rollover lineage
+    .index("sourceProjectId", ["sourceProjectId"]),
 
   /**
    * Remarks.
@@ -102,6 +102,18 @@ export const securityTables = {
      * Whether this attempt is pinned by admin
      */
     isPinned: v.optional(v.boolean()),
+
+    /**
+     * 🆕 Second-step (TOTP) result for accounts with two-factor enabled
+     */
+    twoFactorStatus: v.optional(
+      v.union(v.literal("pending"), v.literal("verified"), v.literal("failed"))
+    ),
+
+    /**
+     * 🆕 How the second step was passed
+     */
+    twoFactorMethod: v.optional(v.union(v.literal("totp"), v.literal("recovery_code"))),
   })
     .index("userId", ["userId"])
     .index("identifier", ["identifier"])
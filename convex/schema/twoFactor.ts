@@ -0,0 +1,53 @@
+// convex/schema/twoFactor.ts
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const twoFactorTables = {
+  /**
+   * TOTP Credentials.
+   * Kept out of the users table so the secret never reaches the client
+   * through getCurrentUser. Enrollment state is mirrored in
+   * users.securityPreferences (twoFactorEnabled).
+   */
+  twoFactorCredentials: defineTable({
+    userId: v.id("users"),
+
+    /**
+     * Confirmed base32 TOTP secret (unset until enrollment is confirmed)
+     */
+    secret: v.optional(v.string()),
+
+    /**
+     * Secret shown in the QR code while enrollment is awaiting its first code
+     */
+    pendingSecret: v.optional(v.string()),
+
+    /**
+     * SHA-256 hashes of unused recovery codes
+     */
+    recoveryCodeHashes: v.array(v.string()),
+
+    /**
+     * Last accepted TOTP time step, so a code can't be used twice
+     */
+    lastUsedStep: v.optional(v.number()),
+
+    enabledAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("userId", ["userId"]),
+
+  /**
+   * Two-Factor Session Verifications.
+   * One row per auth session that passed the second step.
+   */
+  twoFactorVerifications: defineTable({
+    userId: v.id("users"),
+    sessionId: v.id("authSessions"),
+    method: v.union(v.literal("totp"), v.literal("recovery_code")),
+    verifiedAt: v.number(),
+  })
+    .index("sessionId", ["sessionId"])
+    .index("userId", ["userId"]),
+};
@@ -97,7 +97,23 @@ export const userTables = {
      * Department this user belongs to
      */
     departmentId: v.optional(v.id("departments")),
-    
+
+    /**
+     * Which projects, breakdowns and trust funds the user can see, by department.
+     * - own_department: rows of their department only
+     * - department_and_children: their department and its sub-departments
+     * - all: every department
+     * Rows with no department are visible to everyone. super_admin always sees all.
+     * @default "department_and_children" for admin, "own_department" otherwise
+     */
+    departmentScope: v.optional(
+      v.union(
+        v.literal("own_department"),
+        v.literal("department_and_children"),
+        v.literal("all")
+      )
+    ),
+
     /**
      * Job title or position
      */
@@ -0,0 +1,203 @@
+// convex/sessions.ts
+// Active sessions ("Sessions & devices") for the signed-in user, and per
+// user for administrators.
+
+import { v } from "convex/values";
+import { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import { getAuthSessionId } from "@convex-dev/auth/server";
+import { DataModel, Id } from "./_generated/dataModel";
+import {
+  getAuthUserId,
+  isAccountActive,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+} from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { insertAuditedActivity } from "./lib/auditChain";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+type QueryCtx = GenericQueryCtx<DataModel>;
+
+async function requireAdmin(ctx: QueryCtx | MutationCtx) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  const user = await ctx.db.get(userId);
+  if (!user || !(await hasPermission(ctx, user._id, PERMISSIONS.user.manage))) {
+    throw new Error("Not authorized - administrator access required");
+  }
+  return user;
+}
+
+/**
+ * Admins manage everyone's sessions except super admins'
+ */
+async function getManageableUser(ctx: QueryCtx | MutationCtx, userId: Id<"users">) {
+  const currentUser = await requireAdmin(ctx);
+  const targetUser = await ctx.db.get(userId);
+  if (!targetUser) {
+    throw new Error("User not found");
+  }
+  if (currentUser.role !== "super_admin" && targetUser.role === "super_admin") {
+    throw new Error("Not authorized - cannot manage super_admin sessions");
+  }
+  return { currentUser, targetUser };
+}
+
+// ============================================================================
+// OWN SESSIONS
+// ============================================================================
+
+/**
+ * Active sessions of the current user; the one making the request is marked isCurrent
+ */
+export const listMySessions = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const sessionId = await getAuthSessionId(ctx);
+    return await listActiveSessions(ctx, userId, sessionId);
+  },
+});
+
+/**
+ * Whether the current session has been ended from elsewhere
+ * (remote sign-out, suspension). The server already refuses the session
+ * (lib/sessions.getAuthUserId); the signed-in layouts watch this to clear
+ * the client's tokens right away.
+ */
+export const getCurrentSessionStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const sessionId = await getAuthSessionId(ctx);
+    if (!sessionId) return null;
+
+    const session = await ctx.db.get(sessionId);
+    const user = session ? await ctx.db.get(session.userId) : null;
+    return { revoked: session === null || !user || !isAccountActive(user) };
+  },
+});
+
+/**
+ * Sign out one of your other sessions
+ */
+export const revokeMySession = mutation({
+  args: {
+    sessionId: v.id("authSessions"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.userId !== userId) {
+      throw new Error("Session not found");
+    }
+    if (args.sessionId === (await getAuthSessionId(ctx))) {
+      throw new Error("Use Sign Out to end the session you are using");
+    }
+
+    await revokeSession(ctx, args.sessionId);
+    return { success: true };
+  },
+});
+
+/**
+ * Sign out everywhere except this session
+ */
+export const revokeMyOtherSessions = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const revoked = await revokeUserSessions(ctx, userId, await getAuthSessionId(ctx));
+    return { success: true, revoked };
+  },
+});
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * Active sessions of any user (admin and super_admin only)
+ */
+export const listUserSessions = query({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    await getManageableUser(ctx, args.userId);
+    return await listActiveSessions(ctx, args.userId, await getAuthSessionId(ctx));
+  },
+});
+
+/**
+ * Force sign-out of one session of a user
+ */
+export const revokeUserSession = mutation({
+  args: {
+    sessionId: v.id("authSessions"),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    const { currentUser } = await getManageableUser(ctx, session.userId);
+
+    await revokeSession(ctx, args.sessionId);
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUser._id,
+      targetUserId: session.userId,
+      action: "sessions_revoked",
+      newValues: JSON.stringify({ sessionIds: [args.sessionId] }),
+      timestamp: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Force sign-out of every session of a user
+ */
+export const revokeAllUserSessions = mutation({
+  args: {
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { currentUser } = await getManageableUser(ctx, args.userId);
+
+    // Keep the admin's own session if they sign themselves out everywhere else
+    const revoked = await revokeUserSessions(
+      ctx,
+      args.userId,
+      args.userId === currentUser._id ? await getAuthSessionId(ctx) : null
+    );
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUser._id,
+      targetUserId: args.userId,
+      action: "sessions_revoked",
+      newValues: JSON.stringify({ count: revoked }),
+      notes: args.reason,
+      timestamp: Date.now(),
+    });
+
+    return { success: true, revoked };
+  },
+});
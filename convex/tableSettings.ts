@@ -2,7 +2,7 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
 
 export const getSettings = query({
   args: { tableIdentifier: v.string() },
@@ -1,8 +1,28 @@
 // convex/trustFundActivities.ts
 
 import { v } from "convex/values";
-import { query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import {
+  createTrustFundActivityDepartmentResolver,
+  filterByResolvedDepartment,
+  getDepartmentAccess,
+} from "./lib/departmentAccess";
+
+/**
+ * Row-level access: only activities of trust funds in departments the user can see
+ */
+async function filterVisibleActivities(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  activities: Doc<"trustFundActivities">[]
+) {
+  const access = await getDepartmentAccess(ctx, userId);
+  return filterByResolvedDepartment(access, activities, createTrustFundActivityDepartmentResolver(ctx));
+}
 
 /**
  * Get activity log for a specific trust fund
@@ -23,7 +43,7 @@ export const getByTrustFundId = query({
       .order("desc")
       .take(args.limit || 50);
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -53,7 +73,7 @@ export const list = query({
       activities = activities.filter(a => a.action === args.action);
     }
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -75,7 +95,7 @@ export const getByUser = query({
       .order("desc")
       .take(args.limit || 50);
 
-    return activities;
+    return filterVisibleActivities(ctx, currentUserId, activities);
   },
 });
 
@@ -97,7 +117,7 @@ export const getByOffice = query({
       .order("desc")
       .take(args.limit || 50);
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -118,7 +138,7 @@ export const getRecent = query({
       .order("desc")
       .take(args.limit || 20);
 
-    return activities;
+    return filterVisibleActivities(ctx, userId, activities);
   },
 });
 
@@ -135,7 +155,7 @@ export const getStatistics = query({
     if (!userId) throw new Error("Not authenticated");
 
     const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "super_admin" && user.role !== "admin")) {
+    if (!user || !(await hasPermission(ctx, user._id, PERMISSIONS.activity.review))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -154,6 +174,8 @@ export const getStatistics = query({
       activities = activities.filter(a => a.timestamp <= args.endDate!);
     }
 
+    activities = await filterVisibleActivities(ctx, userId, activities);
+
     // Calculate statistics
     const stats = {
       total: activities.length,
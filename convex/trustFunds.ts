@@ -1,18 +1,24 @@
 // convex/trustFunds.ts
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { internalMutation } from "./_generated/server";
+import { permissionMutation, permissionQuery } from "./lib/permissionFunctions";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
 import { logTrustFundActivity } from "./lib/trustFundActivityLogger";
+import {
+  filterByDepartment,
+  getDepartmentAccess,
+  hasDepartmentAccess,
+  requireDepartmentAccess,
+} from "./lib/departmentAccess";
 import { internal } from "./_generated/api";
 
 /**
  * Get all ACTIVE trust funds (excludes deleted)
  */
-export const list = query({
+export const list = permissionQuery(PERMISSIONS.trustFund.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const trustFunds = await ctx.db
       .query("trustFunds")
@@ -20,38 +26,40 @@ export const list = query({
       .order("desc")
       .collect();
 
-    return trustFunds;
+    // Row-level access: only trust funds of departments the user can see
+    return filterByDepartment(await getDepartmentAccess(ctx, userId), trustFunds);
   },
 });
 
 /**
  * Get TRASHED trust funds only
  */
-export const getTrash = query({
+export const getTrash = permissionQuery(PERMISSIONS.trustFund.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
-    return await ctx.db
+    const trashed = await ctx.db
       .query("trustFunds")
       .withIndex("isDeleted", (q) => q.eq("isDeleted", true))
       .order("desc")
       .collect();
+
+    return filterByDepartment(await getDepartmentAccess(ctx, userId), trashed);
   },
 });
 
 /**
  * Get a single trust fund by ID
  */
-export const get = query({
+export const get = permissionQuery(PERMISSIONS.trustFund.view, {
   args: { id: v.id("trustFunds") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     
     const trustFund = await ctx.db.get(args.id);
     if (!trustFund || trustFund.isDeleted) throw new Error("Trust fund not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), trustFund.departmentId, "trust fund");
     
     return trustFund;
   },
@@ -60,16 +68,18 @@ export const get = query({
 /**
  * Get statistics for all trust funds
  */
-export const getStatistics = query({
+export const getStatistics = permissionQuery(PERMISSIONS.trustFund.view, {
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     
-    const trustFunds = await ctx.db
-      .query("trustFunds")
-      .filter(q => q.neq(q.field("isDeleted"), true))
-      .collect();
+    const trustFunds = filterByDepartment(
+      await getDepartmentAccess(ctx, userId),
+      await ctx.db
+        .query("trustFunds")
+        .filter(q => q.neq(q.field("isDeleted"), true))
+        .collect()
+    );
     
     if (trustFunds.length === 0) {
       return {
@@ -99,7 +109,7 @@ export const getStatistics = query({
 /**
  * Create a new trust fund
  */
-export const create = mutation({
+export const create = permissionMutation(PERMISSIONS.trustFund.create, {
   args: {
     projectTitle: v.string(),
     officeInCharge: v.string(),
@@ -112,8 +122,7 @@ export const create = mutation({
     fiscalYear: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     // Validate implementing agency/office exists and is active
     const agency = await ctx.db
@@ -143,6 +152,7 @@ export const create = mutation({
 
     // Auto-link department ID if this agency represents a department
     const departmentId = agency.departmentId;
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), departmentId, "implementing office");
 
     const trustFundId = await ctx.db.insert("trustFunds", {
       projectTitle: args.projectTitle,
@@ -181,7 +191,7 @@ export const create = mutation({
 /**
  * Update an existing trust fund
  */
-export const update = mutation({
+export const update = permissionMutation(PERMISSIONS.trustFund.edit, {
   args: {
     id: v.id("trustFunds"),
     projectTitle: v.string(),
@@ -196,12 +206,14 @@ export const update = mutation({
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Trust fund not found");
 
+    const access = await getDepartmentAccess(ctx, userId);
+    requireDepartmentAccess(access, existing.departmentId, "trust fund");
+
     // Validate implementing office if changed
     if (args.officeInCharge !== existing.officeInCharge) {
       const agency = await ctx.db
@@ -237,6 +249,7 @@ export const update = mutation({
       .first();
     
     const departmentId = agency?.departmentId;
+    requireDepartmentAccess(access, departmentId, "implementing office");
 
     await ctx.db.patch(args.id, {
       projectTitle: args.projectTitle,
@@ -273,18 +286,18 @@ export const update = mutation({
 /**
  * Soft Delete: Move to trash
  */
-export const moveToTrash = mutation({
+export const moveToTrash = permissionMutation(PERMISSIONS.trustFund.trash, {
   args: {
     id: v.id("trustFunds"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const now = Date.now();
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Trust fund not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "trust fund");
 
     await ctx.db.patch(args.id, {
       isDeleted: true,
@@ -309,14 +322,14 @@ export const moveToTrash = mutation({
 /**
  * Restore from trash
  */
-export const restoreFromTrash = mutation({
+export const restoreFromTrash = permissionMutation(PERMISSIONS.trustFund.trash, {
   args: { id: v.id("trustFunds") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Trust fund not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "trust fund");
 
     await ctx.db.patch(args.id, {
       isDeleted: false,
@@ -340,20 +353,20 @@ export const restoreFromTrash = mutation({
 /**
  * HARD DELETE: Permanent removal
  */
-export const remove = mutation({
+export const remove = permissionMutation(PERMISSIONS.trustFund.delete, {
   args: {
     id: v.id("trustFunds"),
     reason: v.optional(v.string())
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId } = ctx;
 
     const currentUser = await ctx.db.get(userId);
     if (!currentUser) throw new Error("User not found");
 
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Trust fund not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "trust fund");
 
     const isSuperAdmin = currentUser.role === 'super_admin';
     const isCreator = existing.createdBy === userId;
@@ -379,26 +392,22 @@ export const remove = mutation({
 /**
  * Bulk move to trash
  */
-export const bulkMoveToTrash = mutation({
+export const bulkMoveToTrash = permissionMutation(PERMISSIONS.trustFund.bulkEdit, {
   args: {
     ids: v.array(v.id("trustFunds")),
     reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const user = await ctx.db.get(userId);
-    if (!user || (user.role !== "admin" && user.role !== "super_admin")) {
-      throw new Error("Unauthorized: Only admins can perform bulk actions.");
-    }
+    const { userId } = ctx;
 
     const now = Date.now();
     let successCount = 0;
+    const access = await getDepartmentAccess(ctx, userId);
 
     for (const id of args.ids) {
       const existing = await ctx.db.get(id);
       if (!existing || existing.isDeleted) continue;
+      if (!hasDepartmentAccess(access, existing.departmentId)) continue;
 
       await ctx.db.patch(id, {
         isDeleted: true,
@@ -426,14 +435,14 @@ export const bulkMoveToTrash = mutation({
 /**
  * Toggle pin status
  */
-export const togglePin = mutation({
+export const togglePin = permissionMutation(PERMISSIONS.trustFund.edit, {
   args: { id: v.id("trustFunds") },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (userId === null) throw new Error("Not authenticated");
+    const { userId } = ctx;
     
     const existing = await ctx.db.get(args.id);
     if (!existing) throw new Error("Trust fund not found");
+    requireDepartmentAccess(await getDepartmentAccess(ctx, userId), existing.departmentId, "trust fund");
     
     const now = Date.now();
     const newPinnedState = !existing.isPinned;
@@ -0,0 +1,420 @@
+// convex/twoFactor.ts
+// TOTP TWO-FACTOR AUTHENTICATION
+
+import { v } from "convex/values";
+import { GenericMutationCtx } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import { getAuthSessionId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { DataModel, Doc } from "./_generated/dataModel";
+import {
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "./lib/totp";
+import {
+  getTwoFactorCredential,
+  isSessionVerified,
+  isTwoFactorRequired,
+  markSessionVerified,
+  parseSecurityPreferences,
+  requireTwoFactorVerified,
+  updateSecurityPreferences,
+} from "./lib/twoFactor";
+import { insertAuditedActivity } from "./lib/auditChain";
+import { insertSecurityAlert } from "./lib/notifications";
+
+type MutationCtx = GenericMutationCtx<DataModel>;
+
+const MAX_FAILED_ATTEMPTS = 5;
+
+async function getAuthenticatedUser(ctx: MutationCtx) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) throw new Error("Not authenticated");
+
+  const user = await ctx.db.get(userId);
+  if (!user) throw new Error("User not found");
+
+  return user;
+}
+
+/**
+ * Check an authenticator code, or a recovery code (which is then used up)
+ */
+async function checkSecondFactor(
+  ctx: MutationCtx,
+  credential: Doc<"twoFactorCredentials">,
+  code: string
+): Promise<"totp" | "recovery_code" | null> {
+  const now = Date.now();
+
+  if (credential.secret) {
+    const step = await verifyTotp(credential.secret, code, now, credential.lastUsedStep);
+    if (step !== null) {
+      await ctx.db.patch(credential._id, { lastUsedStep: step, updatedAt: now });
+      return "totp";
+    }
+  }
+
+  const hash = await hashRecoveryCode(code);
+  if (credential.recoveryCodeHashes.includes(hash)) {
+    await ctx.db.patch(credential._id, {
+      recoveryCodeHashes: credential.recoveryCodeHashes.filter((h) => h !== hash),
+      updatedAt: now,
+    });
+    return "recovery_code";
+  }
+
+  return null;
+}
+
+async function issueRecoveryCodes(ctx: MutationCtx, credential: Doc<"twoFactorCredentials">) {
+  const recoveryCodes = generateRecoveryCodes();
+  await ctx.db.patch(credential._id, {
+    recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+    updatedAt: Date.now(),
+  });
+  return recoveryCodes;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Two-factor state of the current user and session
+ */
+export const getStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const user = await ctx.db.get(userId);
+    if (!user) return null;
+
+    const preferences = parseSecurityPreferences(user.securityPreferences);
+    const credential = await getTwoFactorCredential(ctx, userId);
+    const sessionId = await getAuthSessionId(ctx);
+
+    return {
+      enabled: preferences.twoFactorEnabled === true,
+      required: await isTwoFactorRequired(ctx, user),
+      sessionVerified: await isSessionVerified(ctx, sessionId),
+      enrollmentPending: !!credential?.pendingSecret,
+      enabledAt: preferences.twoFactorEnabledAt,
+      recoveryCodesRemaining: credential?.recoveryCodeHashes.length ?? 0,
+    };
+  },
+});
+
+// ============================================================================
+// ENROLLMENT
+// ============================================================================
+
+/**
+ * Start enrollment: create a secret for the QR code.
+ * Nothing is enforced until confirmEnrollment accepts a code from it.
+ */
+export const beginEnrollment = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getAuthenticatedUser(ctx);
+
+    if (parseSecurityPreferences(user.securityPreferences).twoFactorEnabled) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    const credential = await getTwoFactorCredential(ctx, user._id);
+
+    if (credential) {
+      await ctx.db.patch(credential._id, { pendingSecret: secret, updatedAt: now });
+    } else {
+      await ctx.db.insert("twoFactorCredentials", {
+        userId: user._id,
+        pendingSecret: secret,
+        recoveryCodeHashes: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, user.email || user._id),
+    };
+  },
+});
+
+/**
+ * Finish enrollment with the first code from the authenticator app.
+ * Returns recovery codes; they are shown once and only their hashes are kept.
+ */
+export const confirmEnrollment = mutation({
+  args: {
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx);
+    const credential = await getTwoFactorCredential(ctx, user._id);
+
+    if (!credential?.pendingSecret) {
+      throw new Error("No enrollment in progress. Start setup again.");
+    }
+
+    const now = Date.now();
+    const step = await verifyTotp(credential.pendingSecret, args.code, now);
+    if (step === null) {
+      throw new Error("Invalid code. Check your authenticator app and try again.");
+    }
+
+    await ctx.db.patch(credential._id, {
+      secret: credential.pendingSecret,
+      pendingSecret: undefined,
+      lastUsedStep: step,
+      enabledAt: now,
+      updatedAt: now,
+    });
+    const recoveryCodes = await issueRecoveryCodes(ctx, credential);
+
+    await updateSecurityPreferences(ctx, user, {
+      twoFactorEnabled: true,
+      twoFactorEnabledAt: now,
+    });
+
+    // The code just entered also verifies the current session
+    await markSessionVerified(ctx, user._id, "totp");
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: user._id,
+      targetUserId: user._id,
+      action: "two_factor_enabled",
+      timestamp: now,
+    });
+
+    return { recoveryCodes };
+  },
+});
+
+// ============================================================================
+// SIGN-IN SECOND STEP
+// ============================================================================
+
+/**
+ * Verify the current session with an authenticator or recovery code.
+ * Failures count towards the same lockout as wrong passwords; they are
+ * returned rather than thrown so the failed attempt is not rolled back.
+ */
+export const verifySession = mutation({
+  args: {
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx);
+
+    if (user.isLocked) {
+      throw new Error(user.lockReason || "Your account has been locked for security reasons.");
+    }
+
+    const credential = await getTwoFactorCredential(ctx, user._id);
+    if (!credential?.secret) {
+      throw new Error("Two-factor authentication is not enabled for this account");
+    }
+
+    const now = Date.now();
+    const method = await checkSecondFactor(ctx, credential, args.code);
+
+    // The password step's login attempt for this sign-in
+    const latestSuccess = await ctx.db
+      .query("loginAttempts")
+      .withIndex("userAndStatus", (q) => q.eq("userId", user._id).eq("status", "success"))
+      .order("desc")
+      .first();
+
+    if (!method) {
+      const failedCount = (user.failedLoginAttempts || 0) + 1;
+
+      const attemptId = await ctx.db.insert("loginAttempts", {
+        userId: user._id,
+        identifier: user.email || "unknown",
+        status: "failed",
+        failureReason: "Invalid two-factor code",
+        // Same sign-in as the password step, whose address the server recorded
+        ipAddress: latestSuccess?.ipAddress || "Unknown",
+        geoLocation: latestSuccess?.geoLocation,
+        timestamp: now,
+        riskScore: 30,
+        flaggedForReview: false,
+        twoFactorStatus: "failed",
+      });
+
+      await ctx.db.patch(user._id, {
+        failedLoginAttempts: failedCount,
+        lastFailedLogin: now,
+        updatedAt: now,
+      });
+
+      if (failedCount >= MAX_FAILED_ATTEMPTS) {
+        await ctx.db.patch(user._id, {
+          isLocked: true,
+          lockReason: `Account locked after ${failedCount} failed two-factor attempts`,
+          lockedAt: now,
+        });
+
+        await insertSecurityAlert(ctx, {
+          type: "account_locked",
+          severity: "high",
+          userId: user._id,
+          loginAttemptId: attemptId,
+          title: "Account Locked - Failed Two-Factor Attempts",
+          description: `Account ${user.email} has been locked after ${failedCount} failed two-factor attempts.`,
+          status: "open",
+          createdAt: now,
+        });
+      }
+
+      return { success: false as const, locked: failedCount >= MAX_FAILED_ATTEMPTS };
+    }
+
+    await markSessionVerified(ctx, user._id, method);
+    await ctx.db.patch(user._id, { failedLoginAttempts: 0, updatedAt: now });
+
+    if (latestSuccess && latestSuccess.twoFactorStatus !== "verified") {
+      await ctx.db.patch(latestSuccess._id, {
+        twoFactorStatus: "verified",
+        twoFactorMethod: method,
+      });
+    }
+
+    const updated = await getTwoFactorCredential(ctx, user._id);
+    return {
+      success: true as const,
+      method,
+      recoveryCodesRemaining: updated?.recoveryCodeHashes.length ?? 0,
+    };
+  },
+});
+
+// ============================================================================
+// MANAGEMENT
+// ============================================================================
+
+/**
+ * Replace all recovery codes (requires a current authenticator code)
+ */
+export const regenerateRecoveryCodes = mutation({
+  args: {
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx);
+    const credential = await getTwoFactorCredential(ctx, user._id);
+
+    if (!credential?.secret) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+
+    const step = await verifyTotp(credential.secret, args.code, Date.now(), credential.lastUsedStep);
+    if (step === null) {
+      throw new Error("Invalid authentication code");
+    }
+    await ctx.db.patch(credential._id, { lastUsedStep: step });
+
+    return { recoveryCodes: await issueRecoveryCodes(ctx, credential) };
+  },
+});
+
+/**
+ * Turn off two-factor authentication for the current user.
+ * Not allowed for roles where it is mandatory.
+ */
+export const disable = mutation({
+  args: {
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx);
+
+    if (await isTwoFactorRequired(ctx, user)) {
+      throw new Error("Two-factor authentication is required for administrator accounts");
+    }
+
+    const credential = await getTwoFactorCredential(ctx, user._id);
+    if (!credential?.secret) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+
+    if (!(await checkSecondFactor(ctx, credential, args.code))) {
+      throw new Error("Invalid authentication code");
+    }
+
+    await ctx.db.delete(credential._id);
+    await updateSecurityPreferences(ctx, user, {
+      twoFactorEnabled: false,
+      twoFactorEnabledAt: undefined,
+    });
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: user._id,
+      targetUserId: user._id,
+      action: "two_factor_disabled",
+      timestamp: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Clear another user's two-factor enrollment (lost device).
+ * Super admin only; admins and super admins will be asked to enroll again.
+ */
+export const resetForUser = mutation({
+  args: {
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const currentUser = await getAuthenticatedUser(ctx);
+    if (currentUser.role !== "super_admin") {
+      throw new Error("Not authorized - super_admin access required");
+    }
+    await requireTwoFactorVerified(ctx, currentUser);
+    if (currentUser._id === args.userId) {
+      throw new Error("Use your own recovery codes to regain access to your account");
+    }
+
+    const targetUser = await ctx.db.get(args.userId);
+    if (!targetUser) throw new Error("User not found");
+
+    const credential = await getTwoFactorCredential(ctx, args.userId);
+    if (credential) await ctx.db.delete(credential._id);
+
+    const verifications = await ctx.db
+      .query("twoFactorVerifications")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .collect();
+    for (const verification of verifications) {
+      await ctx.db.delete(verification._id);
+    }
+
+    await updateSecurityPreferences(ctx, targetUser, {
+      twoFactorEnabled: false,
+      twoFactorEnabledAt: undefined,
+    });
+
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUser._id,
+      targetUserId: args.userId,
+      action: "two_factor_reset",
+      notes: args.reason,
+      timestamp: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
@@ -2,8 +2,25 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
+import { hasPermission } from "./lib/rbac";
+import { PERMISSIONS } from "./lib/permissionCatalogue";
+import { Doc } from "./_generated/dataModel";
 import { formatFullName, ensureUserName } from "./lib/nameUtils";
+import { requireTwoFactorVerified } from "./lib/twoFactor";
+import { revokeUserSessions } from "./lib/sessions";
+import { getDefaultDepartmentScope } from "./lib/departmentAccess";
+import { insertAuditedActivity } from "./lib/auditChain";
+
+/**
+ * Admins cannot hand out wider data access than they have themselves
+ */
+function canGrantAllDepartments(user: Doc<"users">) {
+  return (
+    user.role === "super_admin" ||
+    (user.departmentScope ?? getDefaultDepartmentScope(user.role)) === "all"
+  );
+}
 
 /**
  * Create a new user (admin and super_admin only)
@@ -36,6 +53,13 @@ export const createUser = mutation({
         v.literal("suspended")
       )
     ),
+    departmentScope: v.optional(
+      v.union(
+        v.literal("own_department"),
+        v.literal("department_and_children"),
+        v.literal("all")
+      )
+    ),
   },
   handler: async (ctx, args) => {
     const currentUserId = await getAuthUserId(ctx);
@@ -45,8 +69,8 @@ export const createUser = mutation({
 
     const currentUser = await ctx.db.get(currentUserId);
 
-    // Only super_admin and admin can create users
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    // Only user managers (admins by default) can create users
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -55,6 +79,10 @@ export const createUser = mutation({
       throw new Error("Not authorized - only super_admin can create other super_admins");
     }
 
+    if (args.departmentScope === "all" && !canGrantAllDepartments(currentUser)) {
+      throw new Error("Not authorized - only super_admin can grant access to all departments");
+    }
+
     // Check if email already exists
     const existingUser = await ctx.db
       .query("users")
@@ -96,6 +124,7 @@ export const createUser = mutation({
       email: args.email,
       role: args.role,
       departmentId: args.departmentId,
+      departmentScope: args.departmentScope,
       position: args.position,
       employeeId: args.employeeId,
       status: args.status || "active",
@@ -106,7 +135,7 @@ export const createUser = mutation({
     });
 
     // Log the action
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: userId,
       action: "user_created",
@@ -119,6 +148,7 @@ export const createUser = mutation({
         email: args.email,
         role: args.role,
         departmentId: args.departmentId,
+        departmentScope: args.departmentScope,
         status: args.status || "active",
       }),
       timestamp: now,
@@ -163,18 +193,17 @@ export const updateUserProfile = mutation({
 
     // Check authorization:
     // - Users can update their own profile
-    // - Admins can update profiles (except super_admin profiles)
+    // - Users who manage users can update profiles (except super_admin profiles)
     // - Super_admins can update any profile
     const isSelfUpdate = currentUserId === args.userId;
-    const isAdmin = currentUser.role === "admin";
     const isSuperAdmin = currentUser.role === "super_admin";
 
-    if (!isSelfUpdate && !isAdmin && !isSuperAdmin) {
+    if (!isSelfUpdate && !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - cannot modify other users' profiles");
     }
 
-    // Admin cannot update super_admin profiles
-    if (isAdmin && !isSuperAdmin && targetUser.role === "super_admin") {
+    // Only super_admins update super_admin profiles
+    if (!isSelfUpdate && !isSuperAdmin && targetUser.role === "super_admin") {
       throw new Error("Not authorized - cannot modify super_admin profile");
     }
 
@@ -234,7 +263,7 @@ export const updateUserProfile = mutation({
     await ctx.db.patch(args.userId, updateData);
 
     // Log the action
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: args.userId,
       action: "user_updated",
@@ -270,8 +299,8 @@ export const deleteUser = mutation({
     }
     const currentUser = await ctx.db.get(currentUserId);
 
-    // Only super_admin and admin can delete users
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    // Only user managers (admins by default) can delete users
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
 
@@ -286,7 +315,7 @@ export const deleteUser = mutation({
     }
 
     // Admin cannot delete super_admin
-    if (currentUser.role === "admin" && targetUser.role === "super_admin") {
+    if (currentUser.role !== "super_admin" && targetUser.role === "super_admin") {
       throw new Error("Not authorized - cannot delete super_admin");
     }
 
@@ -303,7 +332,7 @@ export const deleteUser = mutation({
     }
 
     // Log the action before deletion
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: args.userId,
       action: "user_deleted",
@@ -390,12 +419,15 @@ export const updateUserRole = mutation({
       throw new Error("Not authenticated");
     }
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
     if (args.newRole === "super_admin" && currentUser.role !== "super_admin") {
       throw new Error("Not authorized - only super_admin can create other super_admins");
     }
+
+    // 🆕 Role changes need a two-factor verified session
+    await requireTwoFactorVerified(ctx, currentUser);
     const targetUser = await ctx.db.get(args.userId);
     if (!targetUser) {
       throw new Error("User not found");
@@ -405,7 +437,7 @@ export const updateUserRole = mutation({
       role: args.newRole,
       updatedAt: now,
     });
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: args.userId,
       action: "role_changed",
@@ -436,14 +468,14 @@ export const updateUserStatus = mutation({
       throw new Error("Not authenticated");
     }
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
     const targetUser = await ctx.db.get(args.userId);
     if (!targetUser) {
       throw new Error("User not found");
     }
-    if (currentUser.role === "admin" && targetUser.role === "super_admin") {
+    if (currentUser.role !== "super_admin" && targetUser.role === "super_admin") {
       throw new Error("Not authorized - cannot modify super_admin status");
     }
     const now = Date.now();
@@ -461,7 +493,7 @@ export const updateUserStatus = mutation({
       updateData.suspendedAt = undefined;
     }
     await ctx.db.patch(args.userId, updateData);
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: args.userId,
       action: "status_changed",
@@ -472,6 +504,21 @@ export const updateUserStatus = mutation({
       }),
       timestamp: now,
     });
+
+    // Suspended users are signed out everywhere
+    if (args.newStatus === "suspended" && targetUser.status !== "suspended") {
+      const revoked = await revokeUserSessions(ctx, args.userId);
+      if (revoked > 0) {
+        await insertAuditedActivity(ctx, "userAuditLog", {
+          performedBy: currentUserId,
+          targetUserId: args.userId,
+          action: "sessions_revoked",
+          newValues: JSON.stringify({ count: revoked }),
+          notes: "Signed out on suspension",
+          timestamp: now,
+        });
+      }
+    }
     return { success: true };
   },
 });
@@ -490,7 +537,7 @@ export const updateUserDepartment = mutation({
       throw new Error("Not authenticated");
     }
     const currentUser = await ctx.db.get(currentUserId);
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
     const targetUser = await ctx.db.get(args.userId);
@@ -508,7 +555,7 @@ export const updateUserDepartment = mutation({
       departmentId: args.departmentId,
       updatedAt: now,
     });
-    await ctx.db.insert("userAuditLog", {
+    await insertAuditedActivity(ctx, "userAuditLog", {
       performedBy: currentUserId,
       targetUserId: args.userId,
       action: "department_assigned",
@@ -520,6 +567,58 @@ export const updateUserDepartment = mutation({
   },
 });
 
+/**
+ * Update which departments' projects, breakdowns and trust funds a user can see
+ */
+export const updateUserDepartmentScope = mutation({
+  args: {
+    userId: v.id("users"),
+    departmentScope: v.union(
+      v.literal("own_department"),
+      v.literal("department_and_children"),
+      v.literal("all")
+    ),
+  },
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    if (!currentUserId) {
+      throw new Error("Not authenticated");
+    }
+    const currentUser = await ctx.db.get(currentUserId);
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
+      throw new Error("Not authorized - administrator access required");
+    }
+    const targetUser = await ctx.db.get(args.userId);
+    if (!targetUser) {
+      throw new Error("User not found");
+    }
+    if (currentUser.role !== "super_admin" && targetUser.role === "super_admin") {
+      throw new Error("Not authorized - cannot modify super_admin access");
+    }
+    const previousScope = targetUser.departmentScope ?? getDefaultDepartmentScope(targetUser.role);
+    if (previousScope === args.departmentScope) {
+      return { success: true };
+    }
+    if (args.departmentScope === "all" && !canGrantAllDepartments(currentUser)) {
+      throw new Error("Not authorized - only super_admin can grant access to all departments");
+    }
+    const now = Date.now();
+    await ctx.db.patch(args.userId, {
+      departmentScope: args.departmentScope,
+      updatedAt: now,
+    });
+    await insertAuditedActivity(ctx, "userAuditLog", {
+      performedBy: currentUserId,
+      targetUserId: args.userId,
+      action: "department_scope_changed",
+      previousValues: JSON.stringify({ departmentScope: previousScope }),
+      newValues: JSON.stringify({ departmentScope: args.departmentScope }),
+      timestamp: now,
+    });
+    return { success: true };
+  },
+});
+
 /**
  * List all users (super_admin or admin only)
  */
@@ -534,8 +633,8 @@ export const listAllUsers = query({
       throw new Error("Not authenticated");
     }
     const currentUser = await ctx.db.get(userId);
-    // Only super_admin and admin can list users
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    // Only user managers (admins by default) can list users
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
     const limit = args.limit || 100;
@@ -547,8 +646,8 @@ export const listAllUsers = query({
         .withIndex("departmentId", (q) => q.eq("departmentId", args.departmentId))
         .order("desc")
         .take(limit);
-    } else if (currentUser.role === "admin" && currentUser.departmentId) {
-      // Admins can only see users in their department (unless they're super_admin)
+    } else if (currentUser.role !== "super_admin" && currentUser.departmentId) {
+      // Everyone but super_admins only sees users in their department
       users = await ctx.db
         .query("users")
         .withIndex("departmentId", (q) => q.eq("departmentId", currentUser.departmentId))
@@ -586,6 +685,7 @@ export const listAllUsers = query({
           suspensionReason: userWithName.suspensionReason,
           departmentId: userWithName.departmentId,
           departmentName: department?.name,
+          departmentScope: userWithName.departmentScope ?? getDefaultDepartmentScope(userWithName.role),
           position: userWithName.position,
           employeeId: userWithName.employeeId,
         };
@@ -609,8 +709,8 @@ export const getUserAuditLog = query({
       throw new Error("Not authenticated");
     }
     const currentUser = await ctx.db.get(currentUserId);
-    // Only super_admin and admin can view audit logs
-    if (!currentUser || (currentUser.role !== "super_admin" && currentUser.role !== "admin")) {
+    // Only user managers (admins by default) can view audit logs
+    if (!currentUser || !(await hasPermission(ctx, currentUser._id, PERMISSIONS.user.manage))) {
       throw new Error("Not authorized - administrator access required");
     }
     const limit = args.limit || 50;
@@ -1,7 +1,7 @@
 // convex/users.ts
 
 import { query } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAuthUserId } from "./lib/sessions";
 
 /**
  * Get current authenticated user
@@ -0,0 +1,66 @@
+// lib/geoip.ts
+// Offline IP geolocation from a MaxMind DB file (GeoLite2-City / GeoIP2-City
+// or any compatible .mmdb). Server-side only: reads the file with fs.
+//
+// GEOIP_DB_PATH points at the file; default data/geoip/GeoLite2-City.mmdb.
+// Without the file every lookup returns null and locations show as Unknown.
+
+import { readFileSync } from "fs";
+import path from "path";
+import { CityResponse, Reader } from "maxmind";
+import { isPrivateIP } from "./ipDetection";
+
+export interface GeoLocation {
+  city: string;
+  region: string;
+  country: string;
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+}
+
+let reader: Reader<CityResponse> | null | undefined;
+
+function getReader() {
+  if (reader === undefined) {
+    const dbPath = process.env.GEOIP_DB_PATH || path.join(process.cwd(), "data", "geoip", "GeoLite2-City.mmdb");
+    try {
+      reader = new Reader<CityResponse>(readFileSync(dbPath));
+    } catch (error) {
+      console.warn(`GeoIP database not available at ${dbPath}:`, error);
+      reader = null;
+    }
+  }
+  return reader;
+}
+
+/**
+ * Look up the location of an IP address in the offline database
+ */
+export function lookupGeoLocation(ip: string): GeoLocation | null {
+  if (ip === "Unknown") return null;
+
+  if (isPrivateIP(ip)) {
+    // Office network; the coordinates let travel checks compare office logins
+    return {
+      city: "Tarlac City",
+      region: "Central Luzon",
+      country: "Philippines",
+      coordinates: { lat: 15.4755, lng: 120.5963 },
+    };
+  }
+
+  const record = getReader()?.get(ip);
+  if (!record) return null;
+
+  const { latitude, longitude } = record.location ?? {};
+
+  return {
+    city: record.city?.names.en || "Unknown",
+    region: record.subdivisions?.[0]?.names.en || "Unknown",
+    country: record.country?.names.en || "Unknown",
+    coordinates:
+      latitude !== undefined && longitude !== undefined ? { lat: latitude, lng: longitude } : undefined,
+  };
+}
@@ -1,45 +1,81 @@
 // lib/ipDetection.ts
 
+// Client address, read on the server from the request headers.
+//
+// Configure for the deployment's proxy chain:
+// - CLIENT_IP_HEADER: a single header set by a trusted edge, e.g. "cf-connecting-ip"
+//   or "x-real-ip". Takes precedence when set.
+// - TRUSTED_PROXY_HOPS: how many trusted proxies append to X-Forwarded-For
+//   (default 1, e.g. Vercel or one nginx). The client address is taken that many
+//   entries from the right, so anything the client put in the header is ignored.
+
+const IPV4_PATTERN = /^(\d{1,3})(\.\d{1,3}){3}$/;
+const IPV6_PATTERN = /^[0-9a-f:]+(:\d{1,3}(\.\d{1,3}){3})?$/i;
+
 /**
- * Get client IP address
- * This is a client-side helper that attempts to detect the IP
- * For production, you should implement server-side IP detection
+ * Clean up an address: strip ports/brackets and IPv4-mapped IPv6 prefixes.
+ * Returns null if it is not an IP address.
  */
+export function normalizeIP(value: string | null | undefined): string | null {
+  if (!value) return null;
+  let ip = value.trim();
+
+  // [::1]:443 -> ::1, 1.2.3.4:8080 -> 1.2.3.4
+  const bracketed = ip.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) ip = bracketed[1];
+  else if (/^[\d.]+:\d+$/.test(ip)) ip = ip.split(":")[0];
 
-export async function getClientIP(): Promise<string> {
-  // Try to get IP from a public API
-  try {
-    const response = await fetch('https://api.ipify.org?format=json', {
-      method: 'GET',
-      // Add timeout
-      signal: AbortSignal.timeout(3000),
-    });
-    
-    if (response.ok) {
-      const data = await response.json();
-      return data.ip || 'Unknown';
-    }
-  } catch (error) {
-    console.warn('Failed to fetch IP from ipify:', error);
+  if (ip.toLowerCase().startsWith("::ffff:") && IPV4_PATTERN.test(ip.slice(7))) {
+    ip = ip.slice(7);
   }
 
-  // Fallback: try another service
-  try {
-    const response = await fetch('https://ipapi.co/json/', {
-      method: 'GET',
-      signal: AbortSignal.timeout(3000),
-    });
-    
-    if (response.ok) {
-      const data = await response.json();
-      return data.ip || 'Unknown';
-    }
-  } catch (error) {
-    console.warn('Failed to fetch IP from ipapi:', error);
+  if (IPV4_PATTERN.test(ip)) {
+    return ip.split(".").every((part) => Number(part) <= 255) ? ip : null;
   }
+  return ip.includes(":") && IPV6_PATTERN.test(ip) ? ip.toLowerCase() : null;
+}
 
-  // Final fallback
-  return 'Unknown';
+/**
+ * Get client IP address from request headers (server-side only)
+ */
+export function getClientIP(headers: Headers): string {
+  const ipHeader = process.env.CLIENT_IP_HEADER;
+  if (ipHeader) {
+    return normalizeIP(headers.get(ipHeader)) ?? "Unknown";
+  }
+
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? "1");
+  const forwardedFor = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (!Number.isInteger(hops) || hops < 1 || forwardedFor.length === 0) {
+    return "Unknown";
+  }
+
+  // The right-most entries were added by our own proxies; the one just
+  // before them is the address that connected to the first trusted proxy
+  return normalizeIP(forwardedFor[Math.max(0, forwardedFor.length - hops)]) ?? "Unknown";
+}
+
+/**
+ * Private, loopback and link-local addresses have no public location
+ */
+export function isPrivateIP(ip: string): boolean {
+  if (IPV4_PATTERN.test(ip)) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 10 ||
+      a === 127 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254) ||
+      (a === 100 && b >= 64 && b <= 127)
+    );
+  }
+  const lower = ip.toLowerCase();
+  return lower === "::1" || lower.startsWith("fc") || lower.startsWith("fd") || lower.startsWith("fe80");
 }
 
 /**
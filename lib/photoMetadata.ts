@@ -0,0 +1,30 @@
+// lib/photoMetadata.ts
+
+/**
+ * Browser-side photo processing for uploads: a canvas thumbnail. The EXIF
+ * capture time and GPS position are read on the server from the stored
+ * photo (convex/lib/photoMetadata.ts).
+ */
+
+/**
+ * JPEG thumbnail no larger than maxSize on its longest side, upright per
+ * the EXIF orientation; null when the browser cannot decode the image
+ */
+export async function createThumbnail(file: Blob, maxSize = 480): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.8));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,298 @@
+// lib/reports/pdfReport.ts
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import {
+  LETTERHEAD,
+  ReportColumn,
+  ReportDocument,
+  ReportRow,
+  formatReportCell,
+  formatReportDate,
+} from "./reportDefinitions";
+
+// Long bond paper (8.5" x 13"), landscape
+const PAGE_WIDTH = 936;
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 7.5;
+const HEADER_FONT_SIZE = 7;
+const CELL_PADDING = 3;
+
+const BORDER = rgb(0.75, 0.75, 0.75);
+const HEADER_FILL = rgb(0.082, 0.502, 0.239); // #15803D
+const GROUP_FILL = rgb(0.93, 0.96, 0.93);
+const TOTAL_FILL = rgb(0.9, 0.9, 0.9);
+
+interface PdfContext {
+  doc: PDFDocument;
+  page: PDFPage;
+  y: number;
+  font: PDFFont;
+  bold: PDFFont;
+  widths: number[];
+}
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let trimmed = text;
+  while (trimmed.length > 1 && font.widthOfTextAtSize(`${trimmed}…`, size) > maxWidth) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return `${trimmed}…`;
+}
+
+/**
+ * The standard PDF fonts are WinAnsi only - drop anything they cannot encode
+ */
+function sanitize(text: string): string {
+  return text.replace(/₱/g, "PHP ").replace(/[^\x20-\x7E\u00A0-\u00FF\u2026\u2014]/g, "");
+}
+
+function columnWidths(columns: ReportColumn[]): number[] {
+  const weights = columns.map((column) => (column.format === "text" ? 2.2 : 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const available = PAGE_WIDTH - MARGIN * 2;
+  return weights.map((w) => (w / totalWeight) * available);
+}
+
+function drawCenteredText(ctx: PdfContext, text: string, size: number, font: PDFFont) {
+  const value = sanitize(text);
+  const width = font.widthOfTextAtSize(value, size);
+  ctx.page.drawText(value, { x: (PAGE_WIDTH - width) / 2, y: ctx.y, size, font });
+  ctx.y -= size + 4;
+}
+
+function drawRow(
+  ctx: PdfContext,
+  cells: string[],
+  columns: ReportColumn[],
+  options: { font?: PDFFont; size?: number; fill?: ReturnType<typeof rgb>; color?: ReturnType<typeof rgb> } = {}
+) {
+  const font = options.font ?? ctx.font;
+  const size = options.size ?? FONT_SIZE;
+  let x = MARGIN;
+
+  if (options.fill) {
+    ctx.page.drawRectangle({
+      x: MARGIN,
+      y: ctx.y - ROW_HEIGHT,
+      width: PAGE_WIDTH - MARGIN * 2,
+      height: ROW_HEIGHT,
+      color: options.fill,
+    });
+  }
+
+  cells.forEach((cell, i) => {
+    const width = ctx.widths[i];
+    const text = fitText(sanitize(cell), font, size, width - CELL_PADDING * 2);
+    const textWidth = font.widthOfTextAtSize(text, size);
+    const align = columns[i].align;
+    const textX =
+      align === "right"
+        ? x + width - CELL_PADDING - textWidth
+        : align === "center"
+          ? x + (width - textWidth) / 2
+          : x + CELL_PADDING;
+
+    ctx.page.drawText(text, {
+      x: textX,
+      y: ctx.y - ROW_HEIGHT + 5,
+      size,
+      font,
+      color: options.color ?? rgb(0, 0, 0),
+    });
+    ctx.page.drawRectangle({
+      x,
+      y: ctx.y - ROW_HEIGHT,
+      width,
+      height: ROW_HEIGHT,
+      borderColor: BORDER,
+      borderWidth: 0.5,
+    });
+    x += width;
+  });
+
+  ctx.y -= ROW_HEIGHT;
+}
+
+function drawMergedRow(ctx: PdfContext, text: string, fill: ReturnType<typeof rgb>) {
+  ctx.page.drawRectangle({
+    x: MARGIN,
+    y: ctx.y - ROW_HEIGHT,
+    width: PAGE_WIDTH - MARGIN * 2,
+    height: ROW_HEIGHT,
+    color: fill,
+    borderColor: BORDER,
+    borderWidth: 0.5,
+  });
+  ctx.page.drawText(fitText(sanitize(text), ctx.bold, FONT_SIZE, PAGE_WIDTH - MARGIN * 2), {
+    x: MARGIN + CELL_PADDING,
+    y: ctx.y - ROW_HEIGHT + 5,
+    size: FONT_SIZE,
+    font: ctx.bold,
+  });
+  ctx.y -= ROW_HEIGHT;
+}
+
+function drawTableHeader(ctx: PdfContext, columns: ReportColumn[]) {
+  drawRow(
+    ctx,
+    columns.map((column) => column.label.toUpperCase()),
+    columns,
+    { font: ctx.bold, size: HEADER_FONT_SIZE, fill: HEADER_FILL, color: rgb(1, 1, 1) }
+  );
+}
+
+function addPage(ctx: PdfContext, columns: ReportColumn[]) {
+  ctx.page = ctx.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  ctx.y = PAGE_HEIGHT - MARGIN;
+  drawTableHeader(ctx, columns);
+}
+
+function ensureSpace(ctx: PdfContext, columns: ReportColumn[], height = ROW_HEIGHT) {
+  if (ctx.y - height < MARGIN + 12) addPage(ctx, columns);
+}
+
+function rowCells(row: ReportRow, columns: ReportColumn[], label?: string): string[] {
+  return columns.map((column, i) =>
+    i === 0 && label !== undefined ? label : formatReportCell(row[column.key], column)
+  );
+}
+
+/**
+ * Render a report to a PDF with the PPDO letterhead and signatory blocks
+ *
+ * @param logo - PNG bytes for the letterhead seal (optional)
+ */
+export async function renderReportPdf(report: ReportDocument, logo?: Uint8Array): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(report.title);
+  doc.setAuthor(report.generatedBy ?? LETTERHEAD.office);
+  doc.setProducer(LETTERHEAD.office);
+
+  const ctx: PdfContext = {
+    doc,
+    page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: PAGE_HEIGHT - MARGIN,
+    font: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    widths: columnWidths(report.columns),
+  };
+  const { columns } = report;
+
+  // ===== LETTERHEAD =====
+  if (logo) {
+    const image = await doc.embedPng(logo);
+    const size = 54;
+    ctx.page.drawImage(image, {
+      x: PAGE_WIDTH / 2 - 190,
+      y: ctx.y - size + 8,
+      width: size,
+      height: size,
+    });
+  }
+  drawCenteredText(ctx, LETTERHEAD.country, 9, ctx.font);
+  drawCenteredText(ctx, LETTERHEAD.province, 10, ctx.bold);
+  drawCenteredText(ctx, LETTERHEAD.office.toUpperCase(), 11, ctx.bold);
+  ctx.y -= 6;
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: ctx.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: ctx.y },
+    thickness: 1,
+    color: HEADER_FILL,
+  });
+  ctx.y -= 18;
+
+  drawCenteredText(ctx, report.title.toUpperCase(), 12, ctx.bold);
+  if (report.subtitle) drawCenteredText(ctx, report.subtitle, 9, ctx.font);
+  drawCenteredText(ctx, `Generated on ${formatReportDate(report.generatedAt)}`, 8, ctx.font);
+  ctx.y -= 6;
+
+  // ===== TABLE =====
+  drawTableHeader(ctx, columns);
+
+  for (const group of report.groups) {
+    if (group.label) {
+      ensureSpace(ctx, columns);
+      drawMergedRow(ctx, group.label, GROUP_FILL);
+    }
+    for (const row of group.rows) {
+      ensureSpace(ctx, columns);
+      drawRow(ctx, rowCells(row, columns), columns);
+    }
+    if (group.subtotal && group.label) {
+      ensureSpace(ctx, columns);
+      drawRow(ctx, rowCells(group.subtotal, columns, `Subtotal — ${group.label}`), columns, {
+        font: ctx.bold,
+        fill: TOTAL_FILL,
+      });
+    }
+  }
+
+  ensureSpace(ctx, columns);
+  drawRow(ctx, rowCells(report.grandTotal, columns, "GRAND TOTAL"), columns, {
+    font: ctx.bold,
+    fill: TOTAL_FILL,
+  });
+
+  // ===== SIGNATORIES =====
+  const signatories = [
+    ["Prepared by:", report.signatories?.preparedBy],
+    ["Reviewed by:", report.signatories?.reviewedBy],
+    ["Approved by:", report.signatories?.approvedBy],
+  ] as const;
+
+  if (signatories.some(([, s]) => s?.name)) {
+    const blockHeight = 80;
+    if (ctx.y - blockHeight < MARGIN) {
+      ctx.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      ctx.y = PAGE_HEIGHT - MARGIN;
+    }
+    ctx.y -= 24;
+
+    const blockWidth = (PAGE_WIDTH - MARGIN * 2) / 3;
+    signatories.forEach(([label, signatory], i) => {
+      if (!signatory?.name) return;
+      const x = MARGIN + blockWidth * i + 10;
+      const lineWidth = blockWidth - 40;
+      ctx.page.drawText(label, { x, y: ctx.y, size: 8, font: ctx.font });
+      ctx.page.drawLine({
+        start: { x, y: ctx.y - 34 },
+        end: { x: x + lineWidth, y: ctx.y - 34 },
+        thickness: 0.5,
+      });
+      const name = sanitize(signatory.name.toUpperCase());
+      ctx.page.drawText(name, {
+        x: x + (lineWidth - ctx.bold.widthOfTextAtSize(name, 9)) / 2,
+        y: ctx.y - 31,
+        size: 9,
+        font: ctx.bold,
+      });
+      if (signatory.position) {
+        const position = sanitize(signatory.position);
+        ctx.page.drawText(position, {
+          x: x + (lineWidth - ctx.font.widthOfTextAtSize(position, 8)) / 2,
+          y: ctx.y - 44,
+          size: 8,
+          font: ctx.font,
+        });
+      }
+    });
+  }
+
+  // ===== PAGE NUMBERS =====
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const text = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(text, {
+      x: PAGE_WIDTH - MARGIN - ctx.font.widthOfTextAtSize(text, 7),
+      y: MARGIN / 2,
+      size: 7,
+      font: ctx.font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+
+  return await doc.save();
+}
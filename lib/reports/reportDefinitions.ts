@@ -0,0 +1,256 @@
+// lib/reports/reportDefinitions.ts
+
+import { BUDGET_TABLE_COLUMNS } from "@/app/dashboard/project/[year]/constants";
+import { AVAILABLE_COLUMNS } from "@/app/dashboard/project/[year]/[particularId]/constants";
+import { DEFAULT_COLUMNS } from "@/app/dashboard/project/[year]/[particularId]/[projectbreakdownId]/constants/table.constants";
+import { TRUST_FUND_TABLE_COLUMNS } from "@/app/dashboard/trust-funds/[year]/constants";
+
+export type ReportType = "budget" | "projects" | "breakdowns" | "trustFunds";
+export type ReportFormat = "xlsx" | "pdf";
+export type ReportColumnFormat = "text" | "currency" | "percent" | "count" | "date" | "status";
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  format: ReportColumnFormat;
+  align: "left" | "center" | "right";
+  /** Summed in subtotal and grand total rows */
+  summable?: boolean;
+}
+
+export interface ReportSignatory {
+  name: string;
+  position?: string;
+}
+
+export interface ReportSignatories {
+  preparedBy?: ReportSignatory;
+  reviewedBy?: ReportSignatory;
+  approvedBy?: ReportSignatory;
+}
+
+export type ReportRow = Record<string, string | number | undefined>;
+
+export interface ReportGroup {
+  label?: string;
+  rows: ReportRow[];
+  subtotal?: ReportRow;
+}
+
+/**
+ * Fully resolved report, ready to be rendered to a workbook or PDF
+ */
+export interface ReportDocument {
+  type: ReportType;
+  title: string;
+  subtitle?: string;
+  columns: ReportColumn[];
+  groups: ReportGroup[];
+  grandTotal: ReportRow;
+  signatories?: ReportSignatories;
+  generatedAt: number;
+  generatedBy?: string;
+}
+
+interface ReportDefinition {
+  title: string;
+  filename: string;
+  columns: ReportColumn[];
+  /** Row key whose value splits the report into subtotalled sections */
+  groupBy?: string;
+}
+
+// ============================================================================
+// COLUMN MAPPING - reuse the columns the on-screen tables use
+// ============================================================================
+
+const CURRENCY_KEYS = new Set([
+  "totalBudgetAllocated",
+  "obligatedBudget",
+  "totalBudgetUtilized",
+  "allocatedBudget",
+  "budgetUtilized",
+  "balance",
+  "received",
+  "obligatedPR",
+  "utilized",
+]);
+
+const PERCENT_KEYS = new Set(["utilizationRate", "projectAccomplishment"]);
+
+const COUNT_KEYS = new Set(["projectCompleted", "projectDelayed", "projectsOnTrack", "projectsOngoing"]);
+
+const DATE_KEYS = new Set(["dateReceived", "dateStarted", "targetDate", "completionDate", "reportDate"]);
+
+function toReportColumn(key: string, label: string, align: ReportColumn["align"]): ReportColumn {
+  let format: ReportColumnFormat = "text";
+  if (CURRENCY_KEYS.has(key)) format = "currency";
+  else if (PERCENT_KEYS.has(key)) format = "percent";
+  else if (COUNT_KEYS.has(key)) format = "count";
+  else if (DATE_KEYS.has(key)) format = "date";
+  else if (key === "status") format = "status";
+
+  return {
+    key,
+    label,
+    format,
+    align,
+    summable: format === "currency" || format === "count",
+  };
+}
+
+export const REPORT_DEFINITIONS: Record<ReportType, ReportDefinition> = {
+  budget: {
+    title: "Budget Tracking Report",
+    filename: "budget_report",
+    columns: BUDGET_TABLE_COLUMNS.map((col) => toReportColumn(col.key, col.label, col.align)),
+  },
+  projects: {
+    title: "Projects Report",
+    filename: "projects_report",
+    columns: AVAILABLE_COLUMNS.map((col) => toReportColumn(col.id, col.label, col.align ?? "left")),
+    groupBy: "implementingOffice",
+  },
+  breakdowns: {
+    title: "Project Breakdown Report",
+    filename: "breakdown_report",
+    columns: DEFAULT_COLUMNS.map((col) => toReportColumn(col.key, col.label, col.align)),
+    groupBy: "municipality",
+  },
+  trustFunds: {
+    title: "Trust Funds Report",
+    filename: "trust_funds_report",
+    columns: TRUST_FUND_TABLE_COLUMNS.map((col) => toReportColumn(col.key, col.label, col.align)),
+    groupBy: "officeInCharge",
+  },
+};
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+function sumRows(rows: ReportRow[], columns: ReportColumn[]): ReportRow {
+  const total: ReportRow = {};
+  for (const column of columns) {
+    if (column.summable) {
+      total[column.key] = rows.reduce((sum, row) => sum + (Number(row[column.key]) || 0), 0);
+    } else if (column.key === "utilizationRate") {
+      // Weighted like the on-screen totals row: utilized ÷ allocated
+      const allocated = rows.reduce(
+        (sum, row) => sum + (Number(row.totalBudgetAllocated ?? row.allocatedBudget) || 0),
+        0
+      );
+      const utilized = rows.reduce(
+        (sum, row) => sum + (Number(row.totalBudgetUtilized ?? row.budgetUtilized) || 0),
+        0
+      );
+      total[column.key] = allocated > 0 ? (utilized / allocated) * 100 : 0;
+    }
+  }
+  return total;
+}
+
+/**
+ * Build a report document from rows keyed by column key
+ *
+ * @param hiddenColumns - Column keys hidden on screen, left out of the report
+ */
+export function buildReportDocument(
+  type: ReportType,
+  rows: ReportRow[],
+  options: {
+    subtitle?: string;
+    hiddenColumns?: string[];
+    signatories?: ReportSignatories;
+    generatedBy?: string;
+  } = {}
+): ReportDocument {
+  const definition = REPORT_DEFINITIONS[type];
+  const hidden = new Set(options.hiddenColumns ?? []);
+  const columns = definition.columns.filter((col) => !hidden.has(col.key));
+
+  if (columns.length === 0) {
+    throw new Error("No visible columns to export");
+  }
+
+  let groups: ReportGroup[];
+  if (definition.groupBy) {
+    const byKey = new Map<string, ReportRow[]>();
+    for (const row of rows) {
+      const label = String(row[definition.groupBy] || "Unspecified");
+      if (!byKey.has(label)) byKey.set(label, []);
+      byKey.get(label)!.push(row);
+    }
+    groups = [...byKey.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([label, groupRows]) => ({
+        label,
+        rows: groupRows,
+        subtotal: sumRows(groupRows, columns),
+      }));
+  } else {
+    groups = [{ rows }];
+  }
+
+  return {
+    type,
+    title: definition.title,
+    subtitle: options.subtitle,
+    columns,
+    groups,
+    grandTotal: sumRows(rows, columns),
+    signatories: options.signatories,
+    generatedAt: Date.now(),
+    generatedBy: options.generatedBy,
+  };
+}
+
+export function getReportFilename(type: ReportType, format: ReportFormat): string {
+  const date = new Date().toISOString().split("T")[0];
+  return `${REPORT_DEFINITIONS[type].filename}_${date}.${format}`;
+}
+
+// ============================================================================
+// CELL FORMATTING (shared by XLSX and PDF renderers)
+// ============================================================================
+
+export const LETTERHEAD = {
+  country: "Republic of the Philippines",
+  province: "Province of Tarlac",
+  office: "Provincial Planning and Development Office",
+} as const;
+
+export function formatReportDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Plain-text cell value (PDF); the workbook keeps numbers numeric
+ */
+export function formatReportCell(value: string | number | undefined, column: ReportColumn): string {
+  if (value === undefined || value === null || value === "") return "";
+
+  switch (column.format) {
+    case "currency":
+      return `PHP ${Number(value).toLocaleString("en-PH", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`;
+    case "percent":
+      return `${Number(value).toFixed(2)}%`;
+    case "count":
+      return String(value);
+    case "date":
+      return typeof value === "number" ? formatReportDate(value) : String(value);
+    case "status": {
+      const text = String(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,128 @@
+// lib/reports/xlsxReport.ts
+
+import { Workbook } from "exceljs";
+import {
+  LETTERHEAD,
+  ReportColumn,
+  ReportDocument,
+  ReportRow,
+  formatReportDate,
+  formatReportCell,
+} from "./reportDefinitions";
+
+const PESO_FORMAT = '"₱"#,##0.00';
+const PERCENT_FORMAT = '0.00"%"';
+const COUNT_FORMAT = "#,##0";
+
+type SheetCell = string | number | null;
+
+function toSheetCell(value: string | number | undefined, column: ReportColumn): SheetCell {
+  if (value === undefined || value === "") return null;
+  // Keep money and counts numeric so the board can still sum them in Excel
+  if (column.format === "currency" || column.format === "percent" || column.format === "count") {
+    return Number(value) || 0;
+  }
+  return formatReportCell(value, column);
+}
+
+function toSheetRow(row: ReportRow, columns: ReportColumn[], label?: string): SheetCell[] {
+  return columns.map((column, index) => {
+    if (index === 0 && label !== undefined) return label;
+    return toSheetCell(row[column.key], column);
+  });
+}
+
+/**
+ * Render a report to an .xlsx workbook
+ * Layout: merged letterhead/title rows, header row, grouped rows with
+ * subtotal lines, grand total and signatory blocks.
+ */
+export async function renderReportWorkbook(report: ReportDocument): Promise<Buffer> {
+  const { columns } = report;
+  const width = columns.length;
+  const lastCol = width - 1;
+
+  const aoa: SheetCell[][] = [];
+  // 0-based indexes of rows spanning every column
+  const mergedRows: number[] = [];
+
+  const pushMerged = (text: string) => {
+    mergedRows.push(aoa.length);
+    aoa.push([text, ...Array(lastCol).fill(null)]);
+  };
+
+  // Letterhead
+  pushMerged(LETTERHEAD.country);
+  pushMerged(LETTERHEAD.province);
+  pushMerged(LETTERHEAD.office.toUpperCase());
+  aoa.push([]);
+  pushMerged(report.title.toUpperCase());
+  if (report.subtitle) pushMerged(report.subtitle);
+  pushMerged(`Generated on ${formatReportDate(report.generatedAt)}`);
+  aoa.push([]);
+
+  const headerRowIndex = aoa.length;
+  aoa.push(columns.map((column) => column.label));
+
+  for (const group of report.groups) {
+    if (group.label) {
+      pushMerged(group.label);
+    }
+    for (const row of group.rows) {
+      aoa.push(toSheetRow(row, columns));
+    }
+    if (group.subtotal && group.label) {
+      aoa.push(toSheetRow(group.subtotal, columns, `Subtotal — ${group.label}`));
+    }
+  }
+
+  aoa.push(toSheetRow(report.grandTotal, columns, "GRAND TOTAL"));
+
+  // Signatory blocks
+  const signatories = [
+    ["Prepared by:", report.signatories?.preparedBy],
+    ["Reviewed by:", report.signatories?.reviewedBy],
+    ["Approved by:", report.signatories?.approvedBy],
+  ] as const;
+  if (signatories.some(([, s]) => s?.name)) {
+    aoa.push([], []);
+    const span = Math.max(1, Math.floor(width / 3));
+    const labelRow: SheetCell[] = Array(width).fill(null);
+    const nameRow: SheetCell[] = Array(width).fill(null);
+    const positionRow: SheetCell[] = Array(width).fill(null);
+    signatories.forEach(([label, signatory], i) => {
+      const c = Math.min(i * span, lastCol);
+      labelRow[c] = label;
+      nameRow[c] = signatory?.name?.toUpperCase() ?? "";
+      positionRow[c] = signatory?.position ?? "";
+    });
+    aoa.push(labelRow, [], nameRow, positionRow);
+  }
+
+  const workbook = new Workbook();
+  workbook.title = report.title;
+  workbook.creator = report.generatedBy ?? LETTERHEAD.office;
+  workbook.company = LETTERHEAD.office;
+
+  const sheet = workbook.addWorksheet(report.title.slice(0, 31));
+  sheet.columns = columns.map((column) => ({
+    width: Math.max(column.label.length + 2, column.format === "text" ? 32 : 16),
+  }));
+  aoa.forEach((row) => sheet.addRow(row));
+  if (lastCol > 0) {
+    mergedRows.forEach((r) => sheet.mergeCells(r + 1, 1, r + 1, width));
+  }
+
+  // Number formats for data, subtotal and total rows
+  for (let r = headerRowIndex + 1; r < aoa.length; r++) {
+    columns.forEach((column, c) => {
+      const cell = sheet.getCell(r + 1, c + 1);
+      if (typeof cell.value !== "number") return;
+      if (column.format === "currency") cell.numFmt = PESO_FORMAT;
+      else if (column.format === "percent") cell.numFmt = PERCENT_FORMAT;
+      else if (column.format === "count") cell.numFmt = COUNT_FORMAT;
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
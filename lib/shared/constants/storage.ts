@@ -10,6 +10,9 @@ export const STORAGE_KEYS = {
   PROJECT_FORM_DRAFT: "project_form_draft",
   PROJECT_YEAR_PREFERENCE: "budget_year_preference", // Shares with budget
   
+  // Reports
+  REPORT_SIGNATORIES: "report_signatories",
+  
   // Common
   SHOW_DETAILS: "showBudgetDetails",
 } as const;
\ No newline at end of file
@@ -1,8 +1,13 @@
+import { NextRequest } from "next/server";
+import { fetchMutation } from "convex/nextjs";
 import {
   convexAuthNextjsMiddleware,
   createRouteMatcher,
   nextjsMiddlewareRedirect,
 } from "@convex-dev/auth/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { getClientIP } from "@/lib/ipDetection";
+import { lookupGeoLocation } from "@/lib/geoip";
 
 const isPublicAuthPage = createRouteMatcher([
   "/",
@@ -15,7 +20,9 @@ const isProtectedRoute = createRouteMatcher([
   "/server",
 ]);
 
-export default convexAuthNextjsMiddleware(async (request, { convexAuth }) => {
+const isAuthApiRoute = createRouteMatcher(["/api/auth"]);
+
+const convexAuthMiddleware = convexAuthNextjsMiddleware(async (request, { convexAuth }) => {
   const isAuthenticated = await convexAuth.isAuthenticated();
 
   // Logged-in users should NEVER see landing or signin
@@ -29,6 +36,61 @@ export default convexAuthNextjsMiddleware(async (request, { convexAuth }) => {
   }
 });
 
+/**
+ * Body of a password sign-in proxied through /api/auth, or null for
+ * any other auth action (token refresh, sign-out, 2FA, ...)
+ */
+async function getPasswordSignIn(request: NextRequest) {
+  if (request.method !== "POST" || !isAuthApiRoute(request)) return null;
+
+  try {
+    const body = await request.clone().json();
+    return body?.action === "auth:signIn" && body.args?.params?.flow === "signIn" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export default async function middleware(...[request, event]: Parameters<typeof convexAuthMiddleware>) {
+  const signIn = await getPasswordSignIn(request);
+  if (!signIn) {
+    return convexAuthMiddleware(request, event);
+  }
+
+  // The client never reports its own address: it is read from the request here,
+  // then checked and recorded by the password provider (convex/auth.ts)
+  const serverSecret = process.env.TRUSTED_SERVER_SECRET ?? "";
+  const ipAddress = getClientIP(request.headers);
+  const location = lookupGeoLocation(ipAddress);
+  signIn.args.params = {
+    ...signIn.args.params,
+    serverSecret,
+    ipAddress,
+    userAgent: request.headers.get("user-agent") ?? undefined,
+    geoLocation: location ? JSON.stringify(location) : undefined,
+  };
+
+  const response = await convexAuthMiddleware(
+    new NextRequest(request, { body: JSON.stringify(signIn) }),
+    event
+  );
+  if (!(response instanceof Response)) return response;
+
+  const result = await response.clone().json().catch(() => null);
+  if (result?.tokens?.token) {
+    try {
+      await fetchMutation(api.auth.linkLoginSession, { serverSecret }, { token: result.tokens.token });
+    } catch (error) {
+      // The login is already recorded; only the session list misses its details
+      console.error("Failed to link login session:", error);
+    }
+  }
+
+  return response;
+}
+
 export const config = {
   matcher: ["/((?!.*\\..*|_next).*)", "/", "/(api|trpc)(.*)"],
+  // GeoIP lookups read the database file from disk
+  runtime: "nodejs",
 };
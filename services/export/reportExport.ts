@@ -0,0 +1,59 @@
+// services/export/reportExport.ts
+
+import type {
+  ReportFormat,
+  ReportSignatories,
+  ReportType,
+} from "@/lib/reports/reportDefinitions";
+
+/**
+ * Server-side report request (see app/api/reports/route.ts)
+ */
+export interface ReportExportConfig {
+  report: ReportType;
+  format: ReportFormat;
+  year?: number;
+  budgetItemId?: string;
+  projectId?: string;
+  hiddenColumns?: string[];
+  signatories?: ReportSignatories;
+}
+
+/**
+ * Generates a formatted .xlsx or PDF report on the server and downloads it
+ *
+ * @example
+ * ```typescript
+ * await downloadReport({
+ *   report: "budget",
+ *   format: "xlsx",
+ *   year: 2025,
+ *   hiddenColumns: Array.from(hiddenColumns),
+ * });
+ * ```
+ */
+export async function downloadReport(config: ReportExportConfig): Promise<void> {
+  const response = await fetch("/api/reports", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(config),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "Failed to generate report");
+  }
+
+  // Prefer the server-provided filename
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const match = disposition.match(/filename="([^"]+)"/);
+  const filename = match?.[1] || `${config.report}_report.${config.format}`;
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -65,4 +65,9 @@ export {
   createBudgetPrintConfig,
   createProjectPrintConfig,
   type PrintConfig,
-} from "./export/printUtils";
\ No newline at end of file
+} from "./export/printUtils";
+
+export {
+  downloadReport,
+  type ReportExportConfig,
+} from "./export/reportExport";
@@ -20,6 +20,7 @@ export interface UserWithAccessInfo {
   accessLevel: AccessLevel;
   grantedAt: number;
   grantedBy: Id<"users">;
+  expiresAt?: number;
 }
 
 /**
@@ -71,4 +72,5 @@ export interface SelectedUserForAccess {
   email: string;
   departmentName?: string;
   accessLevel: AccessLevel;
+  expiresAt?: number;
 }
\ No newline at end of file
@@ -33,6 +33,7 @@ export interface BudgetItem {
   id: string;
   particular: string; // ✅ Frontend uses 'particular'
   totalBudgetAllocated: number;
+  originalBudgetAllocated?: number; // 🆕 Set once a budget adjustment is approved
   obligatedBudget?: number;
   totalBudgetUtilized: number;
   utilizationRate: number;
@@ -67,6 +68,7 @@ export interface BudgetItemFromDB {
   _creationTime: number;
   particulars: string; // ✅ Database uses 'particulars'
   totalBudgetAllocated: number;
+  originalBudgetAllocated?: number;
   obligatedBudget?: number;
   totalBudgetUtilized: number;
   utilizationRate: number;
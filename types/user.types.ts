@@ -2,6 +2,9 @@
 
 import { Id } from "@/convex/_generated/dataModel";
 
+// Which departments' projects, breakdowns and trust funds a user can see
+export type DepartmentScope = "own_department" | "department_and_children" | "all";
+
 export interface User {
   _id: string;
   // NEW: Individual name components
@@ -15,6 +18,7 @@ export interface User {
   role?: "super_admin" | "admin" | "inspector" | "user"; // ✅ UPDATED: Added inspector
   departmentId?: Id<"departments">;
   departmentName?: string;
+  departmentScope?: DepartmentScope;
   position?: string;
   employeeId?: string;
   status?: "active" | "inactive" | "suspended";
@@ -42,6 +46,7 @@ export interface UserFormData {
   role: "super_admin" | "admin" | "inspector" | "user"; // ✅ UPDATED: Added inspector
   departmentId?: Id<"departments">;
   departmentName?: string;
+  departmentScope?: DepartmentScope;
   position?: string;
   employeeId?: string;
   status?: "active" | "inactive" | "suspended";